@@ -11,13 +11,22 @@ import { billingRouter } from "./routes/billing";
 import { agentRouter } from "./routes/agent";
 import reputationRouter from "./routes/reputation";
 import { operatorRouter } from "./routes/operator";
+import { openaiRouter } from "./routes/openai";
+import { apiKeysRouter } from "./routes/apiKeys";
 
 export function createApp() {
   const app = express();
 
+  // Which proxies may set X-Forwarded-For (req.ip): a hop count, "true", or a list of addresses/subnets.
+  // Unset means the socket address is the client, so the header cannot be spoofed.
+  const trustProxy = process.env.TRUST_PROXY;
+  if (trustProxy && trustProxy !== "false") {
+    app.set("trust proxy", /^\d+$/.test(trustProxy) ? parseInt(trustProxy, 10) : trustProxy === "true" || trustProxy);
+  }
+
   app.use(express.json({ limit: '50mb' }));
   app.use(express.urlencoded({ limit: '50mb', extended: true }));
-  app.use(cors({ origin: "*" }));
+  app.use(cors({ origin: "*", exposedHeaders: ["X-PAYMENT-RESPONSE", "X-PAYMENT-SESSION-BALANCE"] }));
 
   app.get("/health", (_req, res) => {
     res.json({ status: "ok" });
@@ -33,6 +42,8 @@ export function createApp() {
   app.use("/agent", agentRouter);
   app.use("/reputation", reputationRouter);
   app.use("/operators", operatorRouter);
+  app.use("/v1", openaiRouter);
+  app.use("/api-keys", apiKeysRouter);
 
   // Subnet RPC proxy — works around duplicate CORS headers from the subnet node
   app.post("/subnet/rpc", async (req, res) => {
@@ -6,8 +6,11 @@ dotenv.config({ path: path.resolve(__dirname, "../../../.env") });
 import { createApp } from "./app";
 import { prisma } from "./prisma";
 import { startModelSyncCron } from "./jobs/modelSyncCron";
+import { startX402SessionSettlementCron } from "./jobs/x402SessionSettlementCron";
+import { startX402CleanupCron } from "./jobs/x402CleanupCron";
 import { vaultService } from "./services/vault";
 import { subnetNodeService } from "./services/subnetNodes";
+import { challengeService } from "./services/challenges";
 
 const port = parseInt(process.env.PORT || "3001", 10);
 
@@ -15,6 +18,8 @@ async function start() {
   const app = createApp();
 
   startModelSyncCron();
+  startX402SessionSettlementCron();
+  startX402CleanupCron();
 
   // Log vault status (no background polling - deposits verified on-demand via txHash)
   if (vaultService.isEnabled()) {
@@ -33,6 +38,7 @@ async function start() {
         subnetRewardsAddress: process.env.SUBNET_REWARDS_ADDRESS || "",
       });
       console.log("[Subnet] ✓ Decentralized Ollama network ready");
+      challengeService.start();
     } catch (error) {
       console.warn("[Subnet] ✗ Failed to initialize subnet service:", error);
     }
@@ -46,6 +52,7 @@ async function start() {
 
   const shutdown = async () => {
     server.close();
+    challengeService.stop();
     await subnetNodeService.shutdown();
     await prisma.$disconnect();
     process.exit(0);
@@ -0,0 +1,24 @@
+import cron from "node-cron";
+import { pruneExpiredQuotes } from "../services/x402Quotes";
+import { pruneExpiredIntents } from "../services/x402Intents";
+import { reconcileOnchainRefunds } from "../services/x402Settlement";
+
+export function startX402CleanupCron() {
+  const cronExp = process.env.X402_CLEANUP_CRON || "17 * * * *"; // hourly
+
+  cron.schedule(cronExp, async () => {
+    try {
+      const quotes = await pruneExpiredQuotes();
+      if (quotes > 0) console.log(`[x402-cleanup] deleted ${quotes} expired quote(s)`);
+      const intents = await pruneExpiredIntents();
+      if (intents > 0) console.log(`[x402-cleanup] deleted ${intents} expired payment intent(s)`);
+      // On-chain refunds that were broadcast but not confirmed
+      const reconciled = await reconcileOnchainRefunds();
+      if (reconciled > 0) console.log(`[x402-cleanup] resolved ${reconciled} on-chain refund(s)`);
+    } catch (err) {
+      console.error("[x402-cleanup] error", err);
+    }
+  });
+
+  console.log(`x402 cleanup cron scheduled (${cronExp})`);
+}
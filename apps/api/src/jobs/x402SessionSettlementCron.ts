@@ -0,0 +1,17 @@
+import cron from "node-cron";
+import { settleSessions } from "../services/x402Settlement";
+
+export function startX402SessionSettlementCron() {
+  const cronExp = process.env.X402_SESSION_SETTLE_CRON || "*/10 * * * *"; // every 10 minutes
+
+  cron.schedule(cronExp, async () => {
+    try {
+      const settled = await settleSessions();
+      if (settled > 0) console.log(`[x402-sessions] settled ${settled} session(s)`);
+    } catch (err) {
+      console.error("[x402-sessions] error", err);
+    }
+  });
+
+  console.log(`x402 session settlement cron scheduled (${cronExp})`);
+}
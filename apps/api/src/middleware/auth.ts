@@ -1,10 +1,54 @@
+import { timingSafeEqual } from "crypto";
 import { Request, Response, NextFunction } from "express";
 import { prisma } from "../prisma";
+import { apiKeyService, isApiKey, ApiKeyScope } from "../services/apiKeys";
 
-export const checkAuth = async (req: Request, _res: Response, next: NextFunction) => {
+/**
+ * Read an API key from `x-api-key` or `Authorization: Bearer zp_...`
+ */
+function getApiKeyHeader(req: Request): string | null {
+  const headerKey = req.headers["x-api-key"] as string | undefined;
+  if (isApiKey(headerKey)) return headerKey.trim();
+  const authHeader = req.headers.authorization;
+  if (authHeader?.startsWith("Bearer ")) {
+    const bearer = authHeader.slice(7).trim();
+    if (isApiKey(bearer)) return bearer;
+  }
+  return null;
+}
+
+/**
+ * Client IP as Express resolves it: x-forwarded-for is only honoured for the
+ * proxies configured with the app's `trust proxy` setting (TRUST_PROXY)
+ */
+function getClientIp(req: Request): string | null {
+  return req.ip || req.socket?.remoteAddress || null;
+}
+
+export const checkAuth = async (req: Request, res: Response, next: NextFunction) => {
   const token = req.headers["x-session-token"] as string;
   const guestId = req.headers["x-guest-id"] as string;
-  
+  const rawApiKey = getApiKeyHeader(req);
+
+  // 0. Try API Key (programmatic access, always tied to a wallet user)
+  if (rawApiKey) {
+    try {
+      const result = await apiKeyService.authenticate(rawApiKey);
+      if (!result) {
+        return res.status(401).json({ error: "invalid_api_key" });
+      }
+      if (await apiKeyService.isOverSpendCap(result.apiKey)) {
+        return res.status(402).json({ error: "api_key_spend_cap_reached" });
+      }
+      (req as any).user = result.user;
+      (req as any).apiKey = result.apiKey;
+      return next();
+    } catch (e) {
+      console.error("API key handling failed", e);
+      return res.status(500).json({ error: "auth_failed" });
+    }
+  }
+
   // 1. Try Session Token (Wallet User)
   if (token) {
     try {
@@ -26,11 +70,15 @@ export const checkAuth = async (req: Request, _res: Response, next: NextFunction
   // 2. Try Guest ID (Anonymous User)
   if (guestId) {
       try {
-          // Find or create a guest user
+          // Find or create a guest user, remembering where it was last seen (abuse limits)
+          const origin = {
+            lastIpAddress: getClientIp(req),
+            deviceId: (req.headers["x-device-id"] as string | undefined)?.slice(0, 64) || null
+          };
           const user = await prisma.user.upsert({
             where: { guestId },
-            create: { guestId, isGuest: true },
-            update: {} // No update needed if found
+            create: { guestId, isGuest: true, ...origin },
+            update: origin
           });
           
           (req as any).user = user;
@@ -43,4 +91,56 @@ export const checkAuth = async (req: Request, _res: Response, next: NextFunction
   // 3. No Auth
   (req as any).user = null;
   next();
-};
\ No newline at end of file
+};
+
+/**
+ * Restrict API-key requests to keys carrying `scope`.
+ * Session and guest requests are not scoped and always pass.
+ */
+export const requireScope = (scope: ApiKeyScope) => (req: Request, res: Response, next: NextFunction) => {
+  const apiKey = (req as any).apiKey;
+  if (apiKey && !apiKeyService.hasScope(apiKey, scope)) {
+    return res.status(403).json({ error: "insufficient_scope", required: scope });
+  }
+  next();
+};
+
+/**
+ * Block API-key requests (e.g. key management must use a wallet session)
+ */
+export const rejectApiKey = (req: Request, res: Response, next: NextFunction) => {
+  if ((req as any).apiKey) {
+    return res.status(403).json({ error: "session_required" });
+  }
+  next();
+};
+
+function isAdminSecret(provided: string | undefined): boolean {
+  const secret = process.env.ADMIN_SECRET;
+  if (!secret || !provided) return false;
+  const a = Buffer.from(provided);
+  const b = Buffer.from(secret);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Admin-only routes. Passes the `x-admin-secret` header matching ADMIN_SECRET, or a
+ * wallet session (run checkAuth first) whose address is listed in ADMIN_WALLETS
+ * (comma-separated). API keys never pass; with neither variable set, nobody does.
+ */
+export const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+  if (isAdminSecret(req.headers["x-admin-secret"] as string | undefined)) return next();
+
+  const user = (req as any).user;
+  if (!user?.walletAddress || (req as any).apiKey) {
+    return res.status(401).json({ error: "admin_auth_required" });
+  }
+  const admins = (process.env.ADMIN_WALLETS || "")
+    .split(",")
+    .map((a) => a.trim().toLowerCase())
+    .filter(Boolean);
+  if (!admins.includes(user.walletAddress.toLowerCase())) {
+    return res.status(403).json({ error: "admin_only" });
+  }
+  next();
+};
@@ -1,6 +1,11 @@
 import { Request, Response, NextFunction } from 'express';
 import { ethers } from 'ethers';
 import { prisma } from '../prisma';
+import { claimQuote, completeQuote, issueQuote, QuotedPricing, releaseQuote, X402Quote, X402QuoteError } from '../services/x402Quotes';
+import { redeemCreditNote, watchFulfillment, X402CreditError } from '../services/x402Settlement';
+import { debitSession, X402SessionError } from '../services/x402Sessions';
+import { getX402Network, getX402Networks } from '../services/x402Networks';
+import { assertTxUnused, claimPaymentIntent, issuePaymentIntent, X402IntentError, X402PaymentIntent } from '../services/x402Intents';
 
 // Cache AVAX price for 60 seconds
 let avaxPriceCache: { price: number; timestamp: number } | null = null;
@@ -22,16 +27,27 @@ async function getAvaxPrice(): Promise<number> {
 }
 
 // ----------------------------------------------------------------
-// x402 MIDDLEWARE - USDC EIP-3009 Payments (Avalanche Only)
+// x402 MIDDLEWARE - USDC "exact" (EIP-3009) payments on the enabled networks
 // ----------------------------------------------------------------
 
 const SERVER_PRIVATE_KEY = process.env.PRIVATE_KEY;
 const MERCHANT_ADDRESS = "0x209F0baCA0c23edc57881B26B68FC4148123B039";
-
-// Avalanche config
-const AVALANCHE_RPC = 'https://api.avax.network/ext/bc/C/rpc';
-const AVALANCHE_CHAIN_ID = 43114;
-const AVALANCHE_USDC = '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E';
+const X402_VERSION = 1;
+// How long a challenge can be paid for; native transactions mined earlier are refused
+const MAX_TIMEOUT_SECONDS = 600;
+const NATIVE_ASSET = '0x0000000000000000000000000000000000000000';
+
+// EIP-712 types of an EIP-3009 authorization, as the payer signed them
+const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'validAfter', type: 'uint256' },
+    { name: 'validBefore', type: 'uint256' },
+    { name: 'nonce', type: 'bytes32' },
+  ],
+};
 
 // USDC ABI for transferWithAuthorization (EIP-3009)
 const USDC_ABI = [
@@ -42,14 +58,120 @@ const USDC_ABI = [
 
 console.log(`[x402] Merchant Address: ${MERCHANT_ADDRESS}`);
 console.log(`[x402] Server wallet configured: ${SERVER_PRIVATE_KEY ? 'Yes' : 'No'}`);
-console.log(`[x402] Network: Avalanche (${AVALANCHE_CHAIN_ID})`);
+console.log(`[x402] Networks: ${getX402Networks().map((n) => `${n.id} (${n.chainId})`).join(', ') || 'none'}`);
 
 interface X402Options {
-  price: string;
+  // Fixed USD price, or `quote` to price every request from its model and prompt
+  price?: string;
+  quote?: QuotedPricing;
   resourceId: string;
   description: string;
 }
 
+// Options with the price this request pays settled
+interface PricedOptions extends X402Options {
+  price: string;
+  quoteId?: string;
+}
+
+function quoteErrorResponse(res: Response, error: X402QuoteError) {
+  return res.status(error.status).json({ x402Version: X402_VERSION, error: error.code, message: error.message });
+}
+
+const usdcUnits = (price: string) => BigInt(Math.ceil(parseFloat(price) * 1_000_000));
+
+/**
+ * Price a native AVAX payment (5% buffer for price fluctuation) and issue the intent
+ * its transaction must carry. Null when no AVAX network is enabled or it cannot be recorded.
+ */
+async function issueNativeIntent(options: X402Options, price: string, quoteId: string | undefined): Promise<X402PaymentIntent | null> {
+  if (!getX402Networks().some((n) => n.nativeSymbol === 'AVAX')) return null;
+
+  const priceInAvax = (parseFloat(price) / await getAvaxPrice() * 1.05).toFixed(6);
+  try {
+    return await issuePaymentIntent({
+      resource: options.resourceId,
+      amountWei: ethers.parseEther(priceInAvax),
+      priceUSD: price,
+      quoteId,
+      timeoutSeconds: MAX_TIMEOUT_SECONDS,
+    });
+  } catch (error: any) {
+    console.error(`[x402] Could not issue a native payment intent:`, error.message);
+    return null;
+  }
+}
+
+/**
+ * The `accepts` list of a 402: the standard `exact` scheme (EIP-3009 USDC) on every
+ * enabled network, then this server's own schemes - native AVAX (when an intent was
+ * issued for it), credit notes and prepaid sessions. Clients take the first they support.
+ */
+function paymentRequirements(req: Request, options: X402Options, price: string, quoteId: string | undefined, nativeIntent: X402PaymentIntent | null) {
+  const common = {
+    resource: `${req.protocol}://${req.get('host')}${req.baseUrl}${req.path}`,
+    description: options.description,
+    mimeType: 'application/json',
+    payTo: MERCHANT_ADDRESS,
+    maxTimeoutSeconds: MAX_TIMEOUT_SECONDS,
+  };
+  const maxAmountRequired = usdcUnits(price).toString();
+  const quoteExtra = quoteId ? { quoteId } : {};
+
+  const accepts: object[] = getX402Networks().map((network) => ({
+    scheme: 'exact',
+    network: network.id,
+    maxAmountRequired,
+    ...common,
+    asset: network.usdc,
+    extra: {
+      name: network.usdcName,
+      version: network.usdcVersion,
+      chainId: network.chainId,
+      priceUSD: price,
+      gasSponsored: true,
+      ...quoteExtra,
+    },
+  }));
+
+  if (nativeIntent) {
+    // Send maxAmountRequired wei to payTo with extra.nonce as the transaction data
+    for (const network of getX402Networks().filter((n) => n.nativeSymbol === 'AVAX')) {
+      accepts.push({
+        scheme: 'x402-native',
+        network: network.id,
+        maxAmountRequired: nativeIntent.amountWei,
+        ...common,
+        asset: NATIVE_ASSET,
+        extra: {
+          symbol: 'AVAX',
+          amount: ethers.formatEther(nativeIntent.amountWei),
+          chainId: network.chainId,
+          priceUSD: price,
+          intentId: nativeIntent.id,
+          nonce: nativeIntent.nonce,
+          ...quoteExtra,
+        },
+      });
+    }
+  }
+
+  // Off-chain balances: credit notes from refunds (services/x402Settlement.ts) and
+  // prepaid sessions opened at /agent/x402-session (services/x402Sessions.ts)
+  accepts.push(
+    { scheme: 'x402-credit', network: 'zeroprompt', maxAmountRequired, ...common, asset: 'USD', extra: { priceUSD: price, ...quoteExtra } },
+    {
+      scheme: 'x402-session',
+      network: 'zeroprompt',
+      maxAmountRequired,
+      ...common,
+      asset: 'USD',
+      extra: { priceUSD: price, sessionEndpoint: '/agent/x402-session', ...quoteExtra },
+    },
+  );
+  return accepts;
+}
+
 /**
  * x402 Middleware - USDC EIP-3009 Payments on Avalanche
  */
@@ -61,43 +183,54 @@ export const x402Middleware = (options: X402Options) => {
     // NO PAYMENT -> RETURN 402 CHALLENGE
     // ----------------------------------------------------------------
     if (!paymentHeader) {
-      const avaxPrice = await getAvaxPrice();
-      const priceInAvax = (parseFloat(options.price) / avaxPrice * 1.05).toFixed(4); // 5% buffer for price fluctuation
+      let quote: X402Quote | null = null;
+      if (options.quote) {
+        try {
+          quote = await issueQuote(options.resourceId, options.quote, req);
+        } catch (error) {
+          if (error instanceof X402QuoteError) return quoteErrorResponse(res, error);
+          console.error(`[x402] Could not issue a quote for ${options.resourceId}:`, error);
+          return res.status(500).json({ x402Version: X402_VERSION, error: 'quote_unavailable', message: 'Could not issue a quote; try again' });
+        }
+      }
+      const price = quote?.amountUSD ?? options.price ?? '0';
+
+      const networks = getX402Networks().map((n) => n.id).join(', ');
 
       return res.status(402).json({
-        x402Version: 2,
-        accepts: [
-          {
-            scheme: "x402-eip3009",
-            network: "avalanche",
-            chainId: AVALANCHE_CHAIN_ID,
-            token: AVALANCHE_USDC,
-            tokenSymbol: "USDC",
-            price: options.price,
-            resource: options.resourceId,
-            description: options.description,
-            payTo: MERCHANT_ADDRESS,
-            maxTimeoutSeconds: 600,
-            gasSponsored: true,
-          },
-          {
-            scheme: "x402-native",
-            network: "avalanche",
-            chainId: AVALANCHE_CHAIN_ID,
-            tokenSymbol: "AVAX",
-            price: priceInAvax,
-            priceUSD: options.price,
-            resource: options.resourceId,
-            description: options.description,
-            payTo: MERCHANT_ADDRESS,
-            maxTimeoutSeconds: 600,
-          }
-        ],
+        x402Version: X402_VERSION,
         error: "Payment required",
-        hint: `Pay $${options.price} in USDC (gas sponsored) or ${priceInAvax} AVAX`,
+        accepts: paymentRequirements(req, options, price, quote?.id, await issueNativeIntent(options, price, quote?.id)),
+        ...(quote && { quote }),
+        hint: quote
+          ? `Pay $${price} (USDC "exact" on ${networks}, gas sponsored) and send quoteId ${quote.id} with the payment, within ${Math.round((Date.parse(quote.expiresAt) - Date.now()) / 60000)} minutes`
+          : `Pay $${price} (USDC "exact" on ${networks}, gas sponsored)`,
       });
     }
 
+    // ----------------------------------------------------------------
+    // CLAIM THE QUOTE (per-request prices) BEFORE ANY FUNDS MOVE
+    // ----------------------------------------------------------------
+    let priced: PricedOptions = { ...options, price: options.price ?? '0' };
+    if (options.quote) {
+      let quoteId: unknown;
+      try {
+        const paymentData = JSON.parse(Buffer.from(paymentHeader, 'base64').toString('utf-8'));
+        quoteId = paymentData.quoteId ?? paymentData.payload?.quoteId;
+      } catch {
+        quoteId = undefined;
+      }
+
+      try {
+        const claimed = await claimQuote(quoteId, options.resourceId, options.quote, req);
+        priced = { ...options, price: claimed.amountUSD, quoteId: claimed.id };
+      } catch (error) {
+        if (error instanceof X402QuoteError) return quoteErrorResponse(res, error);
+        console.error(`[x402] Could not claim a quote for ${options.resourceId}:`, error);
+        return res.status(500).json({ x402Version: X402_VERSION, error: 'quote_unavailable', message: 'Could not check the quote; try again' });
+      }
+    }
+
     // ----------------------------------------------------------------
     // VERIFY AND EXECUTE PAYMENT
     // ----------------------------------------------------------------
@@ -105,37 +238,66 @@ export const x402Middleware = (options: X402Options) => {
       const decoded = Buffer.from(paymentHeader, 'base64').toString('utf-8');
       const paymentData = JSON.parse(decoded);
 
-      const paymentType = paymentData.scheme === 'x402-eip3009' ? '💵 USDC' : '🔺 AVAX';
+      const paymentType = {
+        'exact': '💵 USDC',
+        'x402-eip3009': '💵 USDC',
+        'x402-credit': '🎟️ Credit note',
+        'x402-session': '🔑 Session',
+      }[paymentData.scheme as string] ?? '🔺 AVAX';
       console.log(`[x402] ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
       console.log(`[x402] ${paymentType} Payment received for ${options.resourceId}`);
-      console.log(`[x402] Price: $${options.price} USD`);
+      console.log(`[x402] Price: $${priced.price} USD${priced.quoteId ? ` (quote ${priced.quoteId})` : ''}`);
+
+      // Refund whatever the handler fails to deliver
+      watchFulfillment(req, res);
 
-      if (paymentData.scheme === 'x402-eip3009') {
-        await handleEIP3009Payment(req, res, next, paymentData, options);
+      if (paymentData.scheme === 'exact') {
+        await handleExactPayment(req, res, next, paymentData.network, paymentData.payload, priced);
+      } else if (paymentData.scheme === 'x402-eip3009') {
+        // Pre-spec payload: the authorization fields sit directly in payload, Avalanche only
+        const { signature, ...authorization } = paymentData.payload ?? {};
+        await handleExactPayment(req, res, next, 'avalanche', { authorization, signature }, priced);
       } else if (paymentData.scheme === 'x402-native') {
-        await handleNativePayment(req, res, next, paymentData, options);
+        await handleNativePayment(req, res, next, paymentData, priced);
+      } else if (paymentData.scheme === 'x402-credit') {
+        await handleCreditPayment(req, res, next, paymentData, priced);
+      } else if (paymentData.scheme === 'x402-session') {
+        await handleSessionPayment(req, res, next, paymentData, priced);
       } else {
         throw new Error(`Unknown payment scheme: ${paymentData.scheme}`);
       }
 
+      if (priced.quoteId) {
+        await completeQuote(priced.quoteId, (req as any).x402?.txHash ?? null).catch((dbError: any) => {
+          console.error(`[x402] Failed to mark quote ${priced.quoteId} paid:`, dbError.message);
+        });
+      }
+
     } catch (error: any) {
-      console.error("[x402] Payment error:", error.message);
+      console.error("[x402] Payment error:", error instanceof X402IntentError ? `${error.code}: ${error.message}` : error.message);
+
+      // The quote can be paid again with a working payment
+      if (priced.quoteId) {
+        await releaseQuote(priced.quoteId).catch(() => {});
+      }
 
       // Log failed payment attempt
       try {
         const decoded = Buffer.from(paymentHeader, 'base64').toString('utf-8');
         const paymentData = JSON.parse(decoded);
-        const from = paymentData.payload?.from || 'unknown';
+        const from = paymentData.payload?.authorization?.from || paymentData.payload?.from || 'unknown';
         await prisma.x402Payment.create({
           data: {
             fromAddress: from,
             toAddress: MERCHANT_ADDRESS,
             amountUSDC: '0',
-            priceUSD: options.price,
+            priceUSD: priced.price,
             endpoint: options.resourceId,
             model: req.body?.model || null,
             status: 'failed',
-            errorMessage: error.message,
+            quoteId: priced.quoteId ?? null,
+            // Rejected native payments keep the reason code: replays, stale or foreign transactions
+            errorMessage: error instanceof X402IntentError ? `${error.code}: ${error.message}` : error.message,
           },
         });
       } catch (dbError) {
@@ -144,27 +306,22 @@ export const x402Middleware = (options: X402Options) => {
 
       // Determine error type for better UX
       const isInsufficientFunds = error.message.includes('INSUFFICIENT_USDC');
-      const errorCode = isInsufficientFunds ? 'INSUFFICIENT_FUNDS' : 'PAYMENT_FAILED';
+      const errorCode = error instanceof X402CreditError || error instanceof X402SessionError || error instanceof X402IntentError
+        ? error.code
+        : isInsufficientFunds ? 'INSUFFICIENT_FUNDS' : 'PAYMENT_FAILED';
       const userMessage = isInsufficientFunds
         ? error.message.replace('INSUFFICIENT_USDC: ', '')
         : error.message;
       const hint = isInsufficientFunds
-        ? `You need $${options.price} USDC on Avalanche. Get USDC at a DEX or bridge from another chain.`
+        ? `You need $${priced.price} USDC on the network you paid on. Get USDC at a DEX or bridge from another chain.`
         : "Please try again";
 
       return res.status(402).json({
-        x402Version: 2,
+        x402Version: X402_VERSION,
         error: userMessage,
         errorCode,
-        accepts: [{
-          scheme: "x402-eip3009",
-          network: "avalanche",
-          chainId: AVALANCHE_CHAIN_ID,
-          token: AVALANCHE_USDC,
-          price: options.price,
-          payTo: MERCHANT_ADDRESS,
-          gasSponsored: true,
-        }],
+        // No AVAX option: its intent is only issued with a fresh challenge
+        accepts: paymentRequirements(req, options, priced.price, priced.quoteId, null),
         hint,
       });
     }
@@ -172,21 +329,30 @@ export const x402Middleware = (options: X402Options) => {
 };
 
 /**
- * Handle EIP-3009 USDC payment on Avalanche
+ * Handle an `exact` payment: an EIP-3009 USDC authorization the server submits (and pays gas for)
  */
-async function handleEIP3009Payment(
+async function handleExactPayment(
   req: Request,
   res: Response,
   next: NextFunction,
-  paymentData: any,
-  options: X402Options
+  networkId: unknown,
+  payload: any,
+  options: PricedOptions
 ) {
   if (!SERVER_PRIVATE_KEY) {
     throw new Error('Server wallet not configured');
   }
 
-  const { payload } = paymentData;
-  const { from, to, value, validAfter, validBefore, nonce, signature } = payload;
+  const network = getX402Network(networkId);
+  if (!network) {
+    throw new Error(`Unsupported network: ${networkId}. Accepted: ${getX402Networks().map((n) => n.id).join(', ')}`);
+  }
+
+  const { authorization, signature } = payload ?? {};
+  if (!authorization || typeof signature !== 'string') {
+    throw new Error('Payment payload needs an authorization and its signature');
+  }
+  const { from, to, value, validAfter, validBefore, nonce } = authorization;
 
   // Verify recipient
   if (to.toLowerCase() !== MERCHANT_ADDRESS.toLowerCase()) {
@@ -194,7 +360,7 @@ async function handleEIP3009Payment(
   }
 
   // Verify amount (USDC = 6 decimals)
-  const requiredAmount = BigInt(Math.ceil(parseFloat(options.price) * 1_000_000));
+  const requiredAmount = usdcUnits(options.price);
   if (BigInt(value) < requiredAmount) {
     throw new Error(`Insufficient amount: ${value} < ${requiredAmount}`);
   }
@@ -204,13 +370,23 @@ async function handleEIP3009Payment(
   if (now < parseInt(validAfter)) throw new Error('Authorization not yet valid');
   if (now > parseInt(validBefore)) throw new Error('Authorization expired');
 
-  console.log(`[x402] 💵 USDC Transfer: ${from.slice(0,8)}... → Merchant`);
+  // A bad signature would only revert on-chain, after the gas is spent
+  const signer = ethers.verifyTypedData(
+    { name: network.usdcName, version: network.usdcVersion, chainId: network.chainId, verifyingContract: network.usdc },
+    TRANSFER_WITH_AUTHORIZATION_TYPES,
+    { from, to, value, validAfter, validBefore, nonce },
+    signature
+  );
+  if (signer.toLowerCase() !== String(from).toLowerCase()) {
+    throw new Error(`Authorization not signed by ${from} for USDC on ${network.id}`);
+  }
+
+  console.log(`[x402] 💵 USDC Transfer on ${network.id}: ${from.slice(0,8)}... → Merchant`);
   console.log(`[x402] 💵 Amount: ${ethers.formatUnits(value, 6)} USDC`);
 
-  // Connect to Avalanche
-  const provider = new ethers.JsonRpcProvider(AVALANCHE_RPC);
+  const provider = new ethers.JsonRpcProvider(network.rpcUrl);
   const serverWallet = new ethers.Wallet(SERVER_PRIVATE_KEY, provider);
-  const usdcContract = new ethers.Contract(AVALANCHE_USDC, USDC_ABI, serverWallet);
+  const usdcContract = new ethers.Contract(network.usdc, USDC_ABI, serverWallet);
 
   // Check nonce
   const nonceUsed = await usdcContract.authorizationState(from, nonce);
@@ -245,19 +421,22 @@ async function handleEIP3009Payment(
 
   // Log payment to database
   const modelUsed = req.body?.model || null;
+  let paymentId: number | undefined;
   try {
-    await prisma.x402Payment.create({
+    ({ id: paymentId } = await prisma.x402Payment.create({
       data: {
         txHash: tx.hash,
         fromAddress: from,
         toAddress: to,
+        network: network.id,
         amountUSDC: ethers.formatUnits(value, 6),
         priceUSD: options.price,
         endpoint: options.resourceId,
         model: modelUsed,
         status: 'success',
+        quoteId: options.quoteId ?? null,
       },
-    });
+    }));
     console.log(`[x402] 💵 ✅ USDC Payment logged to DB`);
     console.log(`[x402] ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
   } catch (dbError: any) {
@@ -266,17 +445,21 @@ async function handleEIP3009Payment(
 
   (req as any).x402 = {
     settled: true,
+    paymentId,
     payer: from,
     amount: ethers.formatUnits(value, 6),
+    amountUSD: ethers.formatUnits(value, 6),
     currency: 'USDC',
-    network: 'avalanche',
+    network: network.id,
     txHash: tx.hash,
   };
 
   res.setHeader('X-PAYMENT-RESPONSE', Buffer.from(JSON.stringify({
     success: true,
-    txHash: tx.hash,
-    network: 'avalanche',
+    transaction: tx.hash,
+    network: network.id,
+    payer: from,
+    txHash: tx.hash, // pre-spec name of `transaction`
   })).toString('base64'));
 
   next();
@@ -296,19 +479,26 @@ async function waitForTransaction(provider: ethers.JsonRpcProvider, txHash: stri
 }
 
 /**
- * Handle native AVAX payment
+ * Handle native AVAX payment: a mined transfer carrying a payment intent from the challenge
  */
 async function handleNativePayment(
   req: Request,
   res: Response,
   next: NextFunction,
   paymentData: any,
-  options: X402Options
+  options: PricedOptions
 ) {
-  const { payload } = paymentData;
-  const { txHash, from } = payload;
+  const { from } = paymentData.payload ?? {};
+
+  const network = getX402Network(paymentData.network ?? 'avalanche');
+  if (network?.nativeSymbol !== 'AVAX') {
+    throw new Error(`Native AVAX payments are not accepted on ${paymentData.network}`);
+  }
+
+  // Replays are refused up front, without waiting on the chain
+  const txHash = await assertTxUnused(paymentData.payload?.txHash);
 
-  const provider = new ethers.JsonRpcProvider(AVALANCHE_RPC);
+  const provider = new ethers.JsonRpcProvider(network.rpcUrl);
 
   // Wait for transaction to be indexed (with retries)
   const tx = await waitForTransaction(provider, txHash);
@@ -320,37 +510,46 @@ async function handleNativePayment(
   if (tx.to?.toLowerCase() !== MERCHANT_ADDRESS.toLowerCase()) {
     throw new Error(`Invalid recipient: ${tx.to}`);
   }
+  if (from && String(from).toLowerCase() !== tx.from.toLowerCase()) {
+    throw new X402IntentError('payer_mismatch', 402, `Transaction ${txHash} was sent by ${tx.from}, not ${from}`);
+  }
+
+  // Claimed before the paid handler runs: the same tx cannot pay twice, even concurrently
+  const block = await provider.getBlock(receipt.blockNumber);
+  const minedAt = new Date((block?.timestamp ?? Math.floor(Date.now() / 1000)) * 1000);
+  const intent = await claimPaymentIntent(tx, minedAt, {
+    resource: options.resourceId,
+    quoteId: options.quoteId,
+    network: network.id,
+    maxAgeSeconds: MAX_TIMEOUT_SECONDS,
+  });
 
-  // Validate AVAX amount
   const avaxPrice = await getAvaxPrice();
-  const requiredUSD = parseFloat(options.price);
   const paidAvax = parseFloat(ethers.formatEther(tx.value));
   const paidUSD = paidAvax * avaxPrice;
 
-  // Allow 10% slippage for price fluctuations
-  if (paidUSD < requiredUSD * 0.9) {
-    throw new Error(`INSUFFICIENT_AVAX: Paid $${paidUSD.toFixed(2)} but need $${requiredUSD}. Send more AVAX.`);
-  }
-
-  console.log(`[x402] 🔺 AVAX Transfer: ${from.slice(0,8)}... → Merchant`);
+  console.log(`[x402] 🔺 AVAX Transfer: ${tx.from.slice(0,8)}... → Merchant (intent ${intent.id})`);
   console.log(`[x402] 🔺 Amount: ${paidAvax.toFixed(4)} AVAX (~$${paidUSD.toFixed(2)} USD)`);
   console.log(`[x402] 🔺 ✅ AVAX Payment verified! Tx: ${txHash.slice(0,16)}...`);
 
   // Log payment to database
   const modelUsed = req.body?.model || null;
+  let paymentId: number | undefined;
   try {
-    await prisma.x402Payment.create({
+    ({ id: paymentId } = await prisma.x402Payment.create({
       data: {
         txHash: txHash,
-        fromAddress: from,
+        fromAddress: tx.from,
         toAddress: MERCHANT_ADDRESS,
+        network: network.id,
         amountUSDC: paidUSD.toFixed(2), // Store USD equivalent
         priceUSD: options.price,
         endpoint: options.resourceId,
         model: modelUsed,
         status: 'success',
+        quoteId: options.quoteId ?? null,
       },
-    });
+    }));
     console.log(`[x402] 🔺 ✅ AVAX Payment logged to DB`);
     console.log(`[x402] ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
   } catch (dbError: any) {
@@ -359,21 +558,134 @@ async function handleNativePayment(
 
   (req as any).x402 = {
     settled: true,
-    payer: from,
-    amount: paidAvax.toString(),
+    paymentId,
+    payer: tx.from,
+    refundTo: tx.from,
+    amount: ethers.formatEther(tx.value),
     amountUSD: paidUSD.toFixed(2),
     currency: 'AVAX',
-    network: 'avalanche',
+    network: network.id,
     txHash,
   };
 
   res.setHeader('X-PAYMENT-RESPONSE', Buffer.from(JSON.stringify({
     success: true,
+    transaction: txHash,
+    network: network.id,
+    payer: tx.from,
     txHash,
-    network: 'avalanche',
   })).toString('base64'));
 
   next();
 }
 
+/**
+ * Handle a credit note redemption (x402-credit): no funds move, the note's balance pays
+ */
+async function handleCreditPayment(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  paymentData: any,
+  options: PricedOptions
+) {
+  const note = await redeemCreditNote(paymentData.payload, options.resourceId, options.price, options.quoteId);
+
+  console.log(`[x402] 🎟️ Credit note ${note.id} of ${note.owner.slice(0,8)}... paid $${options.price}, $${note.balanceUSD} left`);
+
+  let paymentId: number | undefined;
+  try {
+    ({ id: paymentId } = await prisma.x402Payment.create({
+      data: {
+        fromAddress: note.owner,
+        toAddress: MERCHANT_ADDRESS,
+        amountUSDC: options.price,
+        priceUSD: options.price,
+        endpoint: options.resourceId,
+        model: req.body?.model || null,
+        status: 'success',
+        quoteId: options.quoteId ?? null,
+        creditNoteId: note.id,
+      },
+    }));
+  } catch (dbError: any) {
+    console.error(`[x402] DB log error:`, dbError.message);
+  }
+
+  (req as any).x402 = {
+    settled: true,
+    paymentId,
+    payer: note.owner,
+    amount: options.price,
+    amountUSD: options.price,
+    currency: 'CREDIT',
+    network: 'zeroprompt',
+    txHash: null,
+    creditNoteId: note.id,
+  };
+
+  res.setHeader('X-PAYMENT-RESPONSE', Buffer.from(JSON.stringify({
+    success: true,
+    creditNoteId: note.id,
+    balanceUSD: note.balanceUSD,
+  })).toString('base64'));
+
+  next();
+}
+
+/**
+ * Handle a prepaid session call (x402-session): debited off-chain, nothing to wait for
+ */
+async function handleSessionPayment(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  paymentData: any,
+  options: PricedOptions
+) {
+  const session = await debitSession(paymentData.payload?.token, options.price);
+
+  console.log(`[x402] 🔑 Session ${session.id} of ${session.ownerAddress.slice(0,8)}... paid $${options.price}, $${session.balanceUSD} left`);
+
+  let paymentId: number | undefined;
+  try {
+    ({ id: paymentId } = await prisma.x402Payment.create({
+      data: {
+        fromAddress: session.ownerAddress,
+        toAddress: MERCHANT_ADDRESS,
+        amountUSDC: options.price,
+        priceUSD: options.price,
+        endpoint: options.resourceId,
+        model: req.body?.model || null,
+        status: 'success',
+        quoteId: options.quoteId ?? null,
+        sessionId: session.id,
+      },
+    }));
+  } catch (dbError: any) {
+    console.error(`[x402] DB log error:`, dbError.message);
+  }
+
+  (req as any).x402 = {
+    settled: true,
+    paymentId,
+    payer: session.ownerAddress,
+    amount: options.price,
+    amountUSD: options.price,
+    currency: 'SESSION',
+    network: 'zeroprompt',
+    txHash: null,
+    sessionId: session.id,
+  };
+
+  res.setHeader('X-PAYMENT-RESPONSE', Buffer.from(JSON.stringify({
+    success: true,
+    sessionId: session.id,
+    balanceUSD: session.balanceUSD,
+  })).toString('base64'));
+  res.setHeader('X-PAYMENT-SESSION-BALANCE', session.balanceUSD);
+
+  next();
+}
+
 export default x402Middleware;
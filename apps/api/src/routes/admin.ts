@@ -1,12 +1,16 @@
-import { Router } from "express";
+import { Router, Response } from "express";
 import { prisma } from "../prisma";
+import { checkAuth, requireAdmin } from "../middleware/auth";
 import { encryptionService } from "../services/encryption";
+import { listGuestBalances, resetGuestCredits, getGuestCredits } from "../services/guestCredits";
+import { challengeService, ChallengeError, SlashProposalStatus } from "../services/challenges";
+import { getSyncBacklog, retryBatch } from "../services/requestSync";
+import { getFeeSummary, listPrices, NETWORK_PRICE, OPERATOR_SHARE_BPS, removePrice, setPrice, SubnetPricingError } from "../services/subnetPricing";
 
 export const adminRouter = Router();
 
-// Middleware to check admin secret could be added here
-// For now, we rely on the protected route in frontend or a basic check
-// adminRouter.use(checkAdminAuth); 
+// Routes that change state or expose per-user balances run checkAuth + requireAdmin
+// (ADMIN_WALLETS session or ADMIN_SECRET header)
 
 adminRouter.get("/logs", async (req, res) => {
   const { limit = 50, userId } = req.query;
@@ -54,3 +58,197 @@ adminRouter.get("/stats", async (_req, res) => {
     
     res.json({ userCount, messageCount, topModels: modelUsage });
 });
+
+// ═══════════════════════════════════════════════════════════════════════
+// GUEST CREDITS
+// ═══════════════════════════════════════════════════════════════════════
+
+adminRouter.get("/guest-credits", checkAuth, requireAdmin, async (req, res) => {
+  const limit = Math.min(parseInt((req.query.limit as string) || "50", 10), 200);
+  const offset = parseInt((req.query.offset as string) || "0", 10);
+
+  try {
+    const guests = await listGuestBalances(limit, offset);
+    res.json({ guests, limit, offset });
+  } catch (err) {
+    console.error("[Admin] Guest credits error:", err);
+    res.status(500).json({ error: "failed_guest_credits" });
+  }
+});
+
+adminRouter.post("/guest-credits/:guestId/reset", checkAuth, requireAdmin, async (req, res) => {
+  try {
+    await resetGuestCredits(req.params.guestId);
+    const remaining = await getGuestCredits(req.params.guestId);
+    res.json({ guestId: req.params.guestId, remainingUSD: remaining.toFixed(6) });
+  } catch (err) {
+    console.error("[Admin] Guest reset error:", err);
+    res.status(500).json({ error: "failed_guest_reset" });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════════
+// SUBNET REQUEST SYNC
+// ═══════════════════════════════════════════════════════════════════════
+
+adminRouter.get("/request-sync", checkAuth, requireAdmin, async (_req, res) => {
+  try {
+    res.json(await getSyncBacklog());
+  } catch (err) {
+    console.error("[Admin] Request sync backlog error:", err);
+    res.status(500).json({ error: "failed_request_sync" });
+  }
+});
+
+adminRouter.post("/request-sync/:batchId/retry", checkAuth, requireAdmin, async (req, res) => {
+  try {
+    const batch = await retryBatch(req.params.batchId);
+    if (!batch) {
+      return res.status(404).json({ error: "failed_batch_not_found" });
+    }
+    res.json({ batch });
+  } catch (err) {
+    console.error("[Admin] Request sync retry error:", err);
+    res.status(500).json({ error: "failed_request_sync_retry" });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════════
+// SUBNET PRICING
+// ═══════════════════════════════════════════════════════════════════════
+
+adminRouter.get("/subnet-pricing", async (req, res) => {
+  const days = Math.min(parseInt((req.query.days as string) || "30", 10) || 30, 365);
+
+  try {
+    const [prices, fees] = await Promise.all([
+      listPrices(),
+      getFeeSummary(new Date(Date.now() - days * 24 * 60 * 60 * 1000)),
+    ]);
+    res.json({ prices, fees, operatorShareBps: OPERATOR_SHARE_BPS });
+  } catch (err) {
+    console.error("[Admin] Subnet pricing error:", err);
+    res.status(500).json({ error: "failed_subnet_pricing" });
+  }
+});
+
+adminRouter.put("/subnet-pricing", checkAuth, requireAdmin, async (req, res) => {
+  const user = (req as any).user;
+  const { model, promptPricePerMTok, completionPricePerMTok } = req.body || {};
+  if (!user?.walletAddress) {
+    return res.status(401).json({ error: "wallet_required" });
+  }
+
+  try {
+    const price = await setPrice(model, NETWORK_PRICE, promptPricePerMTok, completionPricePerMTok, user.walletAddress);
+    res.json({ price });
+  } catch (err) {
+    if (err instanceof SubnetPricingError) {
+      return res.status(err.status).json({ error: err.code, message: err.message });
+    }
+    console.error("[Admin] Subnet pricing update error:", err);
+    res.status(500).json({ error: "failed_subnet_pricing_update" });
+  }
+});
+
+adminRouter.delete("/subnet-pricing/:model", checkAuth, requireAdmin, async (req, res) => {
+  try {
+    const removed = await removePrice(req.params.model, NETWORK_PRICE);
+    if (!removed) {
+      return res.status(404).json({ error: "price_not_found" });
+    }
+    res.json({ removed });
+  } catch (err) {
+    console.error("[Admin] Subnet pricing delete error:", err);
+    res.status(500).json({ error: "failed_subnet_pricing_delete" });
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════════
+// INFERENCE CHALLENGES & SLASH PROPOSALS
+// ═══════════════════════════════════════════════════════════════════════
+
+function sendChallengeError(res: Response, err: unknown, fallback: string) {
+  if (err instanceof ChallengeError) {
+    return res.status(err.status).json({ error: err.code, message: err.message });
+  }
+  console.error(`[Admin] ${fallback}:`, err);
+  return res.status(500).json({ error: fallback });
+}
+
+adminRouter.get("/challenges", async (req, res) => {
+  const operator = req.query.operator as string | undefined;
+  const limit = Math.min(parseInt((req.query.limit as string) || "50", 10), 200);
+
+  try {
+    const challenges = await challengeService.listChallenges(operator, limit);
+    res.json({ challenges });
+  } catch (err) {
+    sendChallengeError(res, err, "failed_challenges");
+  }
+});
+
+adminRouter.get("/slash-proposals", async (req, res) => {
+  const status = req.query.status as SlashProposalStatus | undefined;
+  if (status && !Object.values(SlashProposalStatus).includes(status)) {
+    return res.status(400).json({ error: "invalid_status" });
+  }
+
+  try {
+    const proposals = await challengeService.listProposals(status);
+    res.json({ proposals });
+  } catch (err) {
+    sendChallengeError(res, err, "failed_slash_proposals");
+  }
+});
+
+adminRouter.get("/slash-proposals/:id", async (req, res) => {
+  try {
+    const proposal = await challengeService.getProposal(parseInt(req.params.id, 10));
+    res.json({ proposal });
+  } catch (err) {
+    sendChallengeError(res, err, "failed_slash_proposal");
+  }
+});
+
+adminRouter.post("/slash-proposals/:id/approve", checkAuth, requireAdmin, async (req, res) => {
+  const user = (req as any).user;
+  if (!user?.walletAddress) {
+    return res.status(401).json({ error: "wallet_required" });
+  }
+
+  try {
+    const result = await challengeService.approveProposal(parseInt(req.params.id, 10), user.walletAddress, req.body?.note);
+    res.json(result);
+  } catch (err) {
+    sendChallengeError(res, err, "failed_slash_approve");
+  }
+});
+
+adminRouter.post("/slash-proposals/:id/reject", checkAuth, requireAdmin, async (req, res) => {
+  const user = (req as any).user;
+  if (!user?.walletAddress) {
+    return res.status(401).json({ error: "wallet_required" });
+  }
+
+  try {
+    const proposal = await challengeService.rejectProposal(parseInt(req.params.id, 10), user.walletAddress, req.body?.note);
+    res.json({ proposal });
+  } catch (err) {
+    sendChallengeError(res, err, "failed_slash_reject");
+  }
+});
+
+adminRouter.post("/slash-proposals/:id/executed", checkAuth, requireAdmin, async (req, res) => {
+  const { txHash } = req.body || {};
+  if (!txHash || typeof txHash !== "string") {
+    return res.status(400).json({ error: "tx_hash_required" });
+  }
+
+  try {
+    const proposal = await challengeService.markExecuted(parseInt(req.params.id, 10), txHash);
+    res.json({ proposal });
+  } catch (err) {
+    sendChallengeError(res, err, "failed_slash_executed");
+  }
+});
@@ -1,15 +1,109 @@
-import { Router } from 'express';
+import { Response, Router } from 'express';
 import { x402Middleware } from '../middleware/x402';
+import { checkAuth, requireScope } from '../middleware/auth';
 import { getModels } from '../services/openrouter';
+import { chatProviders, ProviderError } from '../services/chatProviders';
 import { generateQuote, getAvaxPrice, getMinimumPaymentAVAX } from '../services/quote';
+import { QuotedPricing, X402QuoteError } from '../services/x402Quotes';
+import { getX402Networks } from '../services/x402Networks';
+import { listCreditNotes, recordFulfillment, settleSession } from '../services/x402Settlement';
+import { closeSession, getSession, openSession, sessionPricing, X402SessionError } from '../services/x402Sessions';
 import { prisma } from '../prisma';
 
-// OpenRouter config for image generation
-const OPENROUTER_API_URL = process.env.OPENROUTER_BASE_URL || 'https://openrouter.ai/api/v1';
-const OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY;
-
 export const agentRouter = Router();
 
+// Agent routes are paid via x402 - auth is optional, but API keys need the "agent" scope
+agentRouter.use(checkAuth, requireScope('agent'));
+
+const DEFAULT_AGENT_MODEL = "meta-llama/llama-3-8b-instruct:free";
+
+// ============================================================================
+// MULTI-MODEL QUOTES - shared by the /quote/* endpoints and x402 pricing
+// ============================================================================
+
+// Battle: every model answers the same prompt
+async function quoteBattle(models: string[], prompt: string) {
+  const quotes = await Promise.all(
+    models.map((modelId: string) => generateQuote({ model: modelId, prompt }))
+  );
+  const totalCostUSD = quotes.reduce((sum, q) => sum + q.pricing.totalCostUSD, 0);
+  return { quotes, totalCostUSD };
+}
+
+// Consensus: every model answers, then the judge reads all answers
+async function quoteConsensus(models: string[], judge: string, prompt: string) {
+  const modelQuotes = await Promise.all(
+    models.map((modelId: string) => generateQuote({ model: modelId, prompt }))
+  );
+
+  // Consensus analysis is ~2x longer prompt
+  const judgeQuote = await generateQuote({
+    model: judge,
+    prompt: prompt + ' '.repeat(prompt.length * 2), // Estimate longer input for analysis
+    maxOutputTokens: 500
+  });
+
+  const modelsCost = modelQuotes.reduce((sum, q) => sum + q.pricing.totalCostUSD, 0);
+  const judgeCost = judgeQuote.pricing.totalCostUSD;
+  return { modelQuotes, judgeQuote, modelsCost, judgeCost, totalCostUSD: modelsCost + judgeCost };
+}
+
+// Gallery: one image per model
+async function quoteGallery(models: string[], prompt: string) {
+  const quotes = await Promise.all(
+    models.map((modelId: string) => generateQuote({ model: modelId, prompt, imageCount: 1 }))
+  );
+  const totalCostUSD = quotes.reduce((sum, q) => sum + q.pricing.totalCostUSD, 0);
+  return { quotes, totalCostUSD };
+}
+
+// ============================================================================
+// x402 PRICING - each paid request is charged its own quote
+// ============================================================================
+
+function requireTerms(condition: boolean, message: string) {
+  if (!condition) throw new X402QuoteError('invalid_request', 400, message);
+}
+
+const isModelList = (models: unknown, min: number, max: number): models is string[] =>
+  Array.isArray(models) && models.length >= min && models.length <= max && models.every((m) => typeof m === 'string' && m.length > 0);
+
+const generatePricing: QuotedPricing<{ model: string; prompt: unknown }> = {
+  terms: (req) => ({ model: req.body?.model || DEFAULT_AGENT_MODEL, prompt: req.body?.prompt ?? null }),
+  price: async ({ model, prompt }) => {
+    requireTerms(typeof prompt === 'string' && prompt.length > 0, 'Prompt is required');
+    return (await generateQuote({ model, prompt: prompt as string })).pricing.totalCostUSD;
+  },
+};
+
+const battlePricing: QuotedPricing<{ models: unknown; prompt: unknown }> = {
+  terms: (req) => ({ models: req.body?.models ?? null, prompt: req.body?.prompt ?? null }),
+  price: async ({ models, prompt }) => {
+    requireTerms(typeof prompt === 'string' && prompt.length > 0, 'Prompt is required');
+    requireTerms(isModelList(models, 2, 4), '2-4 models required for battle');
+    return (await quoteBattle(models as string[], prompt as string)).totalCostUSD;
+  },
+};
+
+const consensusPricing: QuotedPricing<{ models: unknown; judge: unknown; prompt: unknown }> = {
+  terms: (req) => ({ models: req.body?.models ?? null, judge: req.body?.judge ?? null, prompt: req.body?.prompt ?? null }),
+  price: async ({ models, judge, prompt }) => {
+    requireTerms(typeof prompt === 'string' && prompt.length > 0, 'Prompt is required');
+    requireTerms(isModelList(models, 2, 5), '2-5 models required for consensus');
+    requireTerms(typeof judge === 'string' && judge.length > 0, 'Judge model is required');
+    return (await quoteConsensus(models as string[], judge as string, prompt as string)).totalCostUSD;
+  },
+};
+
+const galleryPricing: QuotedPricing<{ models: unknown; prompt: unknown }> = {
+  terms: (req) => ({ models: req.body?.models ?? null, prompt: req.body?.prompt ?? null }),
+  price: async ({ models, prompt }) => {
+    requireTerms(typeof prompt === 'string' && prompt.length > 0, 'Prompt is required');
+    requireTerms(isModelList(models, 1, 4), '1-4 image models required');
+    return (await quoteGallery(models as string[], prompt as string)).totalCostUSD;
+  },
+};
+
 // ============================================================================
 // QUOTE ENDPOINT - Get accurate pricing before payment
 // ============================================================================
@@ -73,13 +167,7 @@ agentRouter.post('/quote/battle', async (req, res) => {
       return res.status(400).json({ error: 'Prompt is required' });
     }
 
-    // Generate quote for each model
-    const quotes = await Promise.all(
-      models.map((modelId: string) => generateQuote({ model: modelId, prompt }))
-    );
-
-    // Sum up costs
-    const totalCostUSD = quotes.reduce((sum, q) => sum + q.pricing.totalCostUSD, 0);
+    const { quotes, totalCostUSD } = await quoteBattle(models, prompt);
     const avaxPrice = quotes[0]?.pricing.avaxPrice || await getAvaxPrice();
     const totalCostAVAX = totalCostUSD / avaxPrice;
 
@@ -127,22 +215,7 @@ agentRouter.post('/quote/consensus', async (req, res) => {
       return res.status(400).json({ error: 'Prompt is required' });
     }
 
-    // Generate quote for each participant model
-    const modelQuotes = await Promise.all(
-      models.map((modelId: string) => generateQuote({ model: modelId, prompt }))
-    );
-
-    // Generate quote for judge (consensus analysis is ~2x longer prompt)
-    const judgeQuote = await generateQuote({
-      model: judge,
-      prompt: prompt + ' '.repeat(prompt.length * 2), // Estimate longer input for analysis
-      maxOutputTokens: 500
-    });
-
-    // Sum up costs
-    const modelsCost = modelQuotes.reduce((sum, q) => sum + q.pricing.totalCostUSD, 0);
-    const judgeCost = judgeQuote.pricing.totalCostUSD;
-    const totalCostUSD = modelsCost + judgeCost;
+    const { modelQuotes, judgeQuote, modelsCost, judgeCost, totalCostUSD } = await quoteConsensus(models, judge, prompt);
     const avaxPrice = modelQuotes[0]?.pricing.avaxPrice || await getAvaxPrice();
     const totalCostAVAX = totalCostUSD / avaxPrice;
 
@@ -194,13 +267,7 @@ agentRouter.post('/quote/gallery', async (req, res) => {
       return res.status(400).json({ error: 'Prompt is required' });
     }
 
-    // Generate quote for each image model
-    const quotes = await Promise.all(
-      models.map((modelId: string) => generateQuote({ model: modelId, prompt, imageCount: 1 }))
-    );
-
-    // Sum up costs
-    const totalCostUSD = quotes.reduce((sum, q) => sum + q.pricing.totalCostUSD, 0);
+    const { quotes, totalCostUSD } = await quoteGallery(models, prompt);
     const avaxPrice = quotes[0]?.pricing.avaxPrice || await getAvaxPrice();
     const totalCostAVAX = totalCostUSD / avaxPrice;
 
@@ -313,24 +380,23 @@ agentRouter.get('/models', async (_req, res) => {
 agentRouter.get('/payment-methods', (_req, res) => {
   const MERCHANT_ADDRESS = '0x209F0baCA0c23edc57881B26B68FC4148123B039';
 
-  // Supported chains for USDC payments with gas sponsorship
-  const supportedChains = {
-    avalanche: { chainId: 43114, usdc: "0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E" },
-    base: { chainId: 8453, usdc: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913" },
-    arbitrum: { chainId: 42161, usdc: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831" },
-    polygon: { chainId: 137, usdc: "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359" },
-    ethereum: { chainId: 1, usdc: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48" },
-    optimism: { chainId: 10, usdc: "0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85" },
-  };
+  // Networks the 402 challenges offer USDC on, gas sponsored via EIP-3009
+  const supportedChains = Object.fromEntries(getX402Networks().map((network) => [network.id, {
+    chainId: network.chainId,
+    usdc: network.usdc,
+    eip712: { name: network.usdcName, version: network.usdcVersion },
+    testnet: network.testnet,
+  }]));
 
   res.json({
     success: true,
-    scheme: "x402-eip3009",
+    x402Version: 1,
+    scheme: "exact",
     merchantAddress: MERCHANT_ADDRESS,
     token: "USDC",
     gasSponsored: true,
     supportedChains,
-    hint: "Pay with USDC on any supported chain. Server pays gas via EIP-3009!",
+    hint: "Pay with a USDC transferWithAuthorization on any supported network. Server pays gas via EIP-3009!",
   });
 });
 
@@ -381,10 +447,10 @@ function isImageGenerationModel(modelId: string): boolean {
 }
 
 // LLM/Image Generation route with proper image handling
-// Cost: $0.05 USD (USDC on 170+ chains with gas sponsorship)
+// Cost: quoted per request from the model and prompt (USDC with gas sponsorship)
 agentRouter.post('/generate',
   x402Middleware({
-    price: "0.05",
+    quote: generatePricing,
     resourceId: "/agent/generate",
     description: "Agent LLM/Image Generation Request"
   }),
@@ -396,11 +462,7 @@ agentRouter.post('/generate',
         return res.status(400).json({ error: "Prompt is required" });
       }
 
-      if (!OPENROUTER_API_KEY) {
-        return res.status(500).json({ error: "OpenRouter API key not configured" });
-      }
-
-      const targetModel = model || "meta-llama/llama-3-8b-instruct:free";
+      const targetModel = model || DEFAULT_AGENT_MODEL;
       const isImageModel = isImageGenerationModel(targetModel);
 
       console.log(`[Agent Generate] Model: ${targetModel}, IsImage: ${isImageModel}`);
@@ -423,28 +485,21 @@ agentRouter.post('/generate',
 
       console.log(`[Agent Generate] Request payload:`, JSON.stringify(requestPayload, null, 2));
 
-      // Make direct OpenRouter API call to handle both text and image responses
-      const response = await fetch(`${OPENROUTER_API_URL}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
-          'HTTP-Referer': process.env.APP_URL || 'http://localhost',
-          'X-Title': 'ZeroPrompt Agent API'
-        },
-        body: JSON.stringify(requestPayload)
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`[Agent Generate] OpenRouter error: ${response.status}`, errorText);
-        return res.status(response.status).json({
-          error: "OpenRouter API error",
-          details: errorText
+      // Raw completion body so both text and image responses can be parsed
+      let data: any;
+      try {
+        ({ data } = await chatProviders.complete(requestPayload, { title: 'ZeroPrompt Agent API' }));
+      } catch (error) {
+        if (!(error instanceof ProviderError)) throw error;
+        console.error(`[Agent Generate] Provider error: ${error.status}`, error.message);
+        const refund = await recordFulfillment(req, { fulfilled: 0, total: 1, reason: `Provider error ${error.status}` });
+        return res.status(error.status).json({
+          error: "Provider API error",
+          details: error.message,
+          ...(refund && { refund })
         });
       }
 
-      const data = await response.json();
       console.log(`[Agent Generate] Response received, parsing...`);
       console.log(`[Agent Generate] Full response structure:`, JSON.stringify(data, null, 2).substring(0, 2000));
 
@@ -517,18 +572,19 @@ agentRouter.post('/generate',
 
     } catch (error: any) {
       console.error("[Agent Generate] Error:", error);
-      res.status(500).json({ error: "Failed to generate response", details: error.message });
+      const refund = await recordFulfillment(req, { fulfilled: 0, total: 1, reason: error.message });
+      res.status(500).json({ error: "Failed to generate response", details: error.message, ...(refund && { refund }) });
     }
   }
 );
 
 // ============================================================================
 // MODEL BATTLE - Compare multiple models side by side
-// Cost: $0.10 USD (covers up to 4 models)
+// Cost: quoted per request, the sum of every model's quote
 // ============================================================================
 agentRouter.post('/battle',
   x402Middleware({
-    price: "0.10",
+    quote: battlePricing,
     resourceId: "/agent/battle",
     description: "Model Battle - Compare Multiple LLMs"
   }),
@@ -553,26 +609,13 @@ agentRouter.post('/battle',
       const results = await Promise.allSettled(
         models.map(async (modelId: string) => {
           const modelStart = Date.now();
-          const response = await fetch(`${OPENROUTER_API_URL}/chat/completions`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
-              'HTTP-Referer': process.env.APP_URL || 'http://localhost',
-              'X-Title': 'ZeroPrompt Battle'
-            },
-            body: JSON.stringify({
-              model: modelId,
-              messages: [{ role: "user", content: prompt }],
-              max_tokens: 1000
-            })
+          const { data } = await chatProviders.complete({
+            model: modelId,
+            messages: [{ role: "user", content: prompt }],
+            max_tokens: 1000
+          }, { title: 'ZeroPrompt Battle' }).catch((error: Error) => {
+            throw new Error(`Model ${modelId} failed: ${error.message}`);
           });
-
-          if (!response.ok) {
-            throw new Error(`Model ${modelId} failed: ${response.status}`);
-          }
-
-          const data = await response.json();
           return {
             model: modelId,
             response: data.choices?.[0]?.message?.content || 'No response',
@@ -600,29 +643,39 @@ agentRouter.post('/battle',
 
       console.log(`[Battle] Completed in ${totalTime}ms`);
 
+      // Failed models are refunded
+      const answered = results.filter(r => r.status === 'fulfilled').length;
+      const refund = await recordFulfillment(req, {
+        fulfilled: answered,
+        total: models.length,
+        reason: `${models.length - answered} of ${models.length} battle models failed`
+      });
+
       res.json({
         success: true,
         prompt,
         results: battleResults,
         totalLatency: totalTime,
         modelsCompared: models.length,
+        ...(refund && { refund }),
         timestamp: new Date().toISOString()
       });
 
     } catch (error: any) {
       console.error("[Battle] Error:", error);
-      res.status(500).json({ error: "Battle failed", details: error.message });
+      const refund = await recordFulfillment(req, { fulfilled: 0, total: 1, reason: error.message });
+      res.status(500).json({ error: "Battle failed", details: error.message, ...(refund && { refund }) });
     }
   }
 );
 
 // ============================================================================
 // AI CONSENSUS - 3 models vote, show agreement
-// Cost: $0.08 USD
+// Cost: quoted per request, the models plus the judge
 // ============================================================================
 agentRouter.post('/consensus',
   x402Middleware({
-    price: "0.08",
+    quote: consensusPricing,
     resourceId: "/agent/consensus",
     description: "AI Consensus - Multiple Models Vote"
   }),
@@ -662,27 +715,14 @@ Provide a clear, direct answer in 2-3 sentences maximum.`;
       const startTime = Date.now();
       const results = await Promise.allSettled(
         consensusModels.map(async (modelId) => {
-          const response = await fetch(`${OPENROUTER_API_URL}/chat/completions`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
-              'HTTP-Referer': process.env.APP_URL || 'http://localhost',
-              'X-Title': 'ZeroPrompt Consensus'
-            },
-            body: JSON.stringify({
-              model: modelId,
-              messages: [{ role: "user", content: consensusPrompt }],
-              max_tokens: 500,
-              temperature: 0.3 // Lower temperature for more consistent answers
-            })
-          });
-
-          if (!response.ok) {
+          const { data } = await chatProviders.complete({
+            model: modelId,
+            messages: [{ role: "user", content: consensusPrompt }],
+            max_tokens: 500,
+            temperature: 0.3 // Lower temperature for more consistent answers
+          }, { title: 'ZeroPrompt Consensus' }).catch(() => {
             throw new Error(`Model ${modelId} failed`);
-          }
-
-          const data = await response.json();
+          });
           return {
             model: modelId,
             response: data.choices?.[0]?.message?.content || 'No response',
@@ -710,25 +750,12 @@ Provide:
 
         try {
           console.log(`[Consensus] Using judge model: ${judgeModel}`);
-          const analysisResponse = await fetch(`${OPENROUTER_API_URL}/chat/completions`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
-              'HTTP-Referer': process.env.APP_URL || 'http://localhost',
-              'X-Title': 'ZeroPrompt Consensus Analysis'
-            },
-            body: JSON.stringify({
-              model: judgeModel,
-              messages: [{ role: "user", content: analysisPrompt }],
-              max_tokens: 300
-            })
-          });
-
-          if (analysisResponse.ok) {
-            const analysisData = await analysisResponse.json();
-            consensusAnalysis = analysisData.choices?.[0]?.message?.content;
-          }
+          const { data: analysisData } = await chatProviders.complete({
+            model: judgeModel,
+            messages: [{ role: "user", content: analysisPrompt }],
+            max_tokens: 300
+          }, { title: 'ZeroPrompt Consensus Analysis' });
+          consensusAnalysis = analysisData.choices?.[0]?.message?.content;
         } catch (e) {
           console.warn('[Consensus] Analysis failed:', e);
         }
@@ -736,32 +763,42 @@ Provide:
 
       const totalTime = Date.now() - startTime;
 
+      // The quote covers every model plus the judge; whatever did not answer is refunded
+      const failedModels = results.filter(r => r.status === 'rejected').length;
+      const refund = await recordFulfillment(req, {
+        fulfilled: successfulResults.length + (consensusAnalysis ? 1 : 0),
+        total: consensusModels.length + 1,
+        reason: `${failedModels} of ${consensusModels.length} models failed${consensusAnalysis ? '' : ', no judge analysis'}`
+      });
+
       res.json({
         success: true,
         prompt,
         models: consensusModels,
         judgeModel,
         responses: successfulResults,
-        failedModels: results.filter(r => r.status === 'rejected').length,
+        failedModels,
         consensus: consensusAnalysis,
         totalLatency: totalTime,
+        ...(refund && { refund }),
         timestamp: new Date().toISOString()
       });
 
     } catch (error: any) {
       console.error("[Consensus] Error:", error);
-      res.status(500).json({ error: "Consensus failed", details: error.message });
+      const refund = await recordFulfillment(req, { fulfilled: 0, total: 1, reason: error.message });
+      res.status(500).json({ error: "Consensus failed", details: error.message, ...(refund && { refund }) });
     }
   }
 );
 
 // ============================================================================
 // IMAGE GALLERY - Generate with multiple image models
-// Cost: $0.15 USD (covers 3 image models)
+// Cost: quoted per request, one image per model
 // ============================================================================
 agentRouter.post('/image-gallery',
   x402Middleware({
-    price: "0.15",
+    quote: galleryPricing,
     resourceId: "/agent/image-gallery",
     description: "Image Gallery - Multiple AI Art Models"
   }),
@@ -810,23 +847,10 @@ agentRouter.post('/image-gallery',
             }
           }
 
-          const response = await fetch(`${OPENROUTER_API_URL}/chat/completions`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
-              'HTTP-Referer': process.env.APP_URL || 'http://localhost',
-              'X-Title': 'ZeroPrompt Gallery'
-            },
-            body: JSON.stringify(requestPayload)
-          });
-
-          if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`${modelId}: ${response.status} - ${errorText}`);
-          }
-
-          const data = await response.json();
+          const { data } = await chatProviders.complete(requestPayload, { title: 'ZeroPrompt Gallery' })
+            .catch((error: Error) => {
+              throw new Error(`${modelId}: ${error.message}`);
+            });
 
           // Log full response for debugging
           console.log(`[ImageGallery] ${modelId} response keys:`, Object.keys(data));
@@ -933,6 +957,13 @@ agentRouter.post('/image-gallery',
       const successCount = galleryResults.filter(r => r.imageUrl).length;
       console.log(`[ImageGallery] Generated ${successCount}/${imageModels.length} images in ${totalTime}ms`);
 
+      // Models that returned no image are refunded
+      const refund = await recordFulfillment(req, {
+        fulfilled: successCount,
+        total: imageModels.length,
+        reason: `${imageModels.length - successCount} of ${imageModels.length} images not generated`
+      });
+
       res.json({
         success: true,
         prompt,
@@ -940,16 +971,71 @@ agentRouter.post('/image-gallery',
         successCount,
         totalModels: imageModels.length,
         totalLatency: totalTime,
+        ...(refund && { refund }),
         timestamp: new Date().toISOString()
       });
 
     } catch (error: any) {
       console.error("[ImageGallery] Error:", error);
-      res.status(500).json({ error: "Image gallery failed", details: error.message });
+      const refund = await recordFulfillment(req, { fulfilled: 0, total: 1, reason: error.message });
+      res.status(500).json({ error: "Image gallery failed", details: error.message, ...(refund && { refund }) });
+    }
+  }
+);
+
+// ============================================================================
+// x402 SESSIONS - Prepay once, then pay each call with { scheme: "x402-session" }
+// The session token goes in the X-PAYMENT-SESSION header of the endpoints below
+// ============================================================================
+function sessionErrorResponse(res: Response, error: unknown) {
+  if (error instanceof X402SessionError) {
+    return res.status(error.status).json({ error: error.code, message: error.message });
+  }
+  console.error("[x402-session] Error:", error);
+  return res.status(500).json({ error: "session_failed", message: (error as Error).message });
+}
+
+// Cost: the deposit, between $0.10 and X402_SESSION_MAX_DEPOSIT_USD
+agentRouter.post('/x402-session',
+  x402Middleware({
+    quote: sessionPricing,
+    resourceId: "/agent/x402-session",
+    description: "Prepaid x402 session"
+  }),
+  async (req, res) => {
+    try {
+      const session = await openSession(req);
+      res.status(201).json({
+        success: true,
+        session,
+        hint: `Pay calls with X-PAYMENT { scheme: "x402-session", payload: { token } }; the token is not shown again`
+      });
+    } catch (error) {
+      sessionErrorResponse(res, error);
     }
   }
 );
 
+agentRouter.get('/x402-session', async (req, res) => {
+  try {
+    res.json({ success: true, session: await getSession(req.headers['x-payment-session']) });
+  } catch (error) {
+    sessionErrorResponse(res, error);
+  }
+});
+
+// Stops the session and refunds the unused balance now instead of at expiry
+agentRouter.post('/x402-session/close', async (req, res) => {
+  try {
+    const token = req.headers['x-payment-session'];
+    const { id } = await closeSession(token);
+    const refund = await settleSession(id);
+    res.json({ success: true, session: await getSession(token), refund });
+  } catch (error) {
+    sessionErrorResponse(res, error);
+  }
+});
+
 // ============================================================================
 // x402 PAYMENT LOGS - View all x402 payments
 // ============================================================================
@@ -974,8 +1060,10 @@ agentRouter.get('/x402-logs', async (req, res) => {
     const payments = await prisma.x402Payment.findMany({
       where,
       take: Math.min(parseInt(limit as string), 500),
-      orderBy: { createdAt: 'desc' }
+      orderBy: { createdAt: 'desc' },
+      include: { refunds: { orderBy: { createdAt: 'asc' } } }
     });
+    const refunds: { status: string; amountUSD: string }[] = payments.flatMap((p: { refunds: { status: string; amountUSD: string }[] }) => p.refunds);
 
     // Calculate stats
     const stats = {
@@ -983,9 +1071,17 @@ agentRouter.get('/x402-logs', async (req, res) => {
       successful: payments.filter((p: { status: string }) => p.status === 'success').length,
       failed: payments.filter((p: { status: string }) => p.status === 'failed').length,
       pending: payments.filter((p: { status: string }) => p.status === 'pending').length,
+      // Credit note and session payments spend earlier revenue, they are not new revenue
       totalUSDC: payments
-        .filter((p: { status: string }) => p.status === 'success')
+        .filter((p: { status: string; creditNoteId: string | null; sessionId: string | null }) =>
+          p.status === 'success' && !p.creditNoteId && !p.sessionId)
         .reduce((sum: number, p: { amountUSDC: string }) => sum + parseFloat(p.amountUSDC || '0'), 0)
+        .toFixed(2),
+      unfulfilled: payments.filter((p: { fulfillment: string }) => p.fulfillment === 'failed' || p.fulfillment === 'partial').length,
+      // A failed on-chain refund is replaced by a credit note, so it is not counted twice
+      refundedUSD: refunds
+        .filter((r) => r.status !== 'failed')
+        .reduce((sum: number, r) => sum + parseFloat(r.amountUSD), 0)
         .toFixed(2)
     };
 
@@ -1001,3 +1097,23 @@ agentRouter.get('/x402-logs', async (req, res) => {
     res.status(500).json({ error: "Failed to fetch x402 logs", details: error.message });
   }
 });
+
+// ============================================================================
+// x402 CREDIT NOTES - Open credit notes an address can spend (x402-credit scheme)
+// ============================================================================
+agentRouter.get('/x402-credits/:address', async (req, res) => {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(req.params.address)) {
+    return res.status(400).json({ error: "invalid_address" });
+  }
+
+  try {
+    const creditNotes = await listCreditNotes(req.params.address);
+    const balanceUSD = creditNotes
+      .reduce((sum: number, note: { balanceUSD: string | null }) => sum + parseFloat(note.balanceUSD || '0'), 0)
+      .toFixed(6);
+    res.json({ success: true, address: req.params.address, balanceUSD, creditNotes });
+  } catch (error: any) {
+    console.error("[x402-credits] Error:", error);
+    res.status(500).json({ error: "Failed to fetch credit notes", details: error.message });
+  }
+});
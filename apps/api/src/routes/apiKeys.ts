@@ -0,0 +1,89 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { checkAuth, rejectApiKey } from "../middleware/auth";
+import { apiKeyService, ApiKeyError, API_KEY_SCOPES } from "../services/apiKeys";
+
+export const apiKeysRouter = Router();
+
+/**
+ * Keys are only issued to wallet users - guests have nothing to bill caps against
+ */
+function requireWalletUser(req: Request, res: Response, next: NextFunction) {
+  const user = (req as any).user;
+  if (!user) return res.status(401).json({ error: "unauthorized" });
+  if (!user.walletAddress) return res.status(403).json({ error: "wallet_required" });
+  next();
+}
+
+// Key management needs a wallet session - an API key cannot mint or revoke keys
+apiKeysRouter.use(checkAuth, rejectApiKey, requireWalletUser);
+
+function parseCap(value: unknown): number | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value === "") return null;
+  return Number(value);
+}
+
+/**
+ * GET /api-keys
+ * List the user's keys (never the plaintext) with current daily/monthly spend
+ */
+apiKeysRouter.get("/", async (req: Request, res: Response) => {
+  try {
+    const keys = await apiKeyService.listKeys((req as any).user.id);
+    res.json({ keys, availableScopes: API_KEY_SCOPES });
+  } catch (error) {
+    console.error("[ApiKeys] List error:", error);
+    res.status(500).json({ error: "failed_to_list_keys" });
+  }
+});
+
+/**
+ * POST /api-keys
+ * Body: { name, scopes?, allowedModels?, dailySpendCapUSD?, monthlySpendCapUSD? }
+ * Returns the plaintext key once
+ */
+apiKeysRouter.post("/", async (req: Request, res: Response) => {
+  const { name, scopes, allowedModels, dailySpendCapUSD, monthlySpendCapUSD } = req.body || {};
+
+  if (scopes !== undefined && !Array.isArray(scopes)) {
+    return res.status(400).json({ error: "invalid_scope" });
+  }
+  if (allowedModels !== undefined && allowedModels !== null && !Array.isArray(allowedModels)) {
+    return res.status(400).json({ error: "invalid_allowed_models" });
+  }
+
+  try {
+    const result = await apiKeyService.createKey((req as any).user.id, {
+      name,
+      scopes,
+      allowedModels: allowedModels?.map((m: unknown) => String(m)),
+      dailySpendCapUSD: parseCap(dailySpendCapUSD),
+      monthlySpendCapUSD: parseCap(monthlySpendCapUSD),
+    });
+    res.status(201).json(result);
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return res.status(400).json({ error: error.code, message: error.message });
+    }
+    console.error("[ApiKeys] Create error:", error);
+    res.status(500).json({ error: "failed_to_create_key" });
+  }
+});
+
+/**
+ * DELETE /api-keys/:id
+ * Revoke a key - requests using it are rejected immediately
+ */
+apiKeysRouter.delete("/:id", async (req: Request, res: Response) => {
+  const id = parseInt(req.params.id, 10);
+  if (!Number.isInteger(id)) return res.status(400).json({ error: "invalid_id" });
+
+  try {
+    const found = await apiKeyService.revokeKey((req as any).user.id, id);
+    if (!found) return res.status(404).json({ error: "not_found" });
+    res.json({ success: true });
+  } catch (error) {
+    console.error("[ApiKeys] Revoke error:", error);
+    res.status(500).json({ error: "failed_to_revoke_key" });
+  }
+});
@@ -1,6 +1,8 @@
 import { Router, Request, Response } from "express";
 import { billingService } from "../services/billing";
-import { checkAuth } from "../middleware/auth";
+import { ledgerService, InsufficientCreditsError } from "../services/ledger";
+import { withdrawalService, WithdrawalError } from "../services/withdrawals";
+import { checkAuth, rejectApiKey } from "../middleware/auth";
 import {
   FREE_GUEST_CREDITS,
   getGuestCredits,
@@ -10,7 +12,7 @@ import {
 export const billingRouter = Router();
 
 // Apply auth middleware to all routes
-billingRouter.use(checkAuth);
+billingRouter.use(checkAuth, rejectApiKey);
 
 // ═══════════════════════════════════════════════════════════════════════
 // PUBLIC READ ENDPOINTS
@@ -213,6 +215,43 @@ billingRouter.get("/deposits/:address/:networkId?", async (req: Request, res: Re
   }
 });
 
+/**
+ * GET /billing/usage
+ * Current user's credit ledger entries (deposit, hold, settle, release, refund, grant), newest first
+ * Query: ?limit=50&before=<entryId>&type=settle
+ */
+billingRouter.get("/usage", async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    if (!user?.walletAddress) {
+      return res.status(401).json({
+        error: "wallet_required",
+        message: "Please connect your wallet to view your ledger"
+      });
+    }
+
+    const limit = parseInt((req.query.limit as string) || "50", 10);
+    const before = req.query.before ? parseInt(req.query.before as string, 10) : undefined;
+    const type = req.query.type as string | undefined;
+
+    const [entries, balance] = await Promise.all([
+      ledgerService.getEntries(user.walletAddress, { limit, before, type }),
+      ledgerService.getBalance(user.walletAddress)
+    ]);
+
+    res.json({
+      wallet: user.walletAddress,
+      balanceUSD: Math.max(0, balance.availableUSD).toFixed(6),
+      heldUSD: balance.heldUSD.toFixed(6),
+      entries,
+      nextCursor: entries.length > 0 ? entries[entries.length - 1].id : null
+    });
+  } catch (error: any) {
+    console.error("[Billing] Get ledger error:", error);
+    res.status(500).json({ error: "failed_to_get_ledger" });
+  }
+});
+
 /**
  * GET /billing/usage/:address/:networkId?
  * Get user's usage history
@@ -332,10 +371,10 @@ billingRouter.get("/credits/:networkId?", async (req: Request, res: Response) =>
     const guestId = req.headers["x-guest-id"] as string;
     const networkId = req.params.networkId;
 
-    // Guest user - return credits from shared service
+    // Guest user - return credits from the persisted guest ledger
     if (!user?.walletAddress) {
-      const remainingCredits = getGuestCredits(guestId);
-      const usedCredits = getGuestUsage(guestId);
+      const remainingCredits = await getGuestCredits(guestId);
+      const usedCredits = await getGuestUsage(guestId);
 
       return res.json({
         isGuest: true,
@@ -399,6 +438,89 @@ billingRouter.get("/me/:networkId?", async (req: Request, res: Response) => {
   }
 });
 
+// ═══════════════════════════════════════════════════════════════════════
+// WITHDRAWALS (Unused credits back to the wallet via signed vault permits)
+// ═══════════════════════════════════════════════════════════════════════
+
+function sendWithdrawalError(res: Response, error: any, fallback: string) {
+  if (error instanceof WithdrawalError) {
+    return res.status(error.status).json({ error: error.code, message: error.message, withdrawal: error.withdrawal });
+  }
+  if (error instanceof InsufficientCreditsError) {
+    return res.status(402).json({ error: "insufficient_credits", message: error.message });
+  }
+  console.error(`[Billing] ${fallback}:`, error);
+  return res.status(500).json({ error: fallback, message: error.message });
+}
+
+/**
+ * GET /billing/withdrawals
+ * Current user's withdrawals (newest first) and how much can be withdrawn
+ */
+billingRouter.get("/withdrawals", async (req: Request, res: Response) => {
+  const user = (req as any).user;
+  if (!user?.walletAddress) {
+    return res.status(401).json({ error: "wallet_required" });
+  }
+  try {
+    const withdrawals = await withdrawalService.list(user.walletAddress);
+    const { availableUSD, withdrawableUSD } = await withdrawalService.getWithdrawable(user.walletAddress);
+    res.json({
+      enabled: withdrawalService.isEnabled(),
+      availableUSD: availableUSD.toFixed(6),
+      withdrawableUSD: withdrawableUSD.toFixed(2),
+      withdrawals
+    });
+  } catch (error: any) {
+    sendWithdrawalError(res, error, "failed_to_get_withdrawals");
+  }
+});
+
+/**
+ * POST /billing/withdraw/request
+ * Sign a withdrawal permit and lock the amount until it is used or expires
+ * Body: { amountUSD?: number } (defaults to everything withdrawable)
+ */
+billingRouter.post("/withdraw/request", async (req: Request, res: Response) => {
+  const user = (req as any).user;
+  if (!user?.walletAddress) {
+    return res.status(401).json({ error: "wallet_required" });
+  }
+  const { amountUSD } = req.body || {};
+  if (amountUSD !== undefined && (typeof amountUSD !== "number" || !isFinite(amountUSD))) {
+    return res.status(400).json({ error: "invalid_amount" });
+  }
+  try {
+    const withdrawal = await withdrawalService.request(user.walletAddress, amountUSD);
+    res.json({ withdrawal });
+  } catch (error: any) {
+    sendWithdrawalError(res, error, "failed_to_request_withdrawal");
+  }
+});
+
+/**
+ * POST /billing/withdraw/confirm
+ * Confirm a withdrawal from its withdrawWithPermit transaction
+ * Body: { withdrawalId: string, txHash: string }
+ */
+billingRouter.post("/withdraw/confirm", async (req: Request, res: Response) => {
+  const user = (req as any).user;
+  if (!user?.walletAddress) {
+    return res.status(401).json({ error: "wallet_required" });
+  }
+  const { withdrawalId, txHash } = req.body || {};
+  if (!withdrawalId || !txHash) {
+    return res.status(400).json({ error: "withdrawalId_and_txHash_required" });
+  }
+  try {
+    const withdrawal = await withdrawalService.confirm(user.walletAddress, withdrawalId, txHash);
+    const newBalanceUSD = await billingService.getBalance(user.walletAddress);
+    res.json({ withdrawal, newBalanceUSD });
+  } catch (error: any) {
+    sendWithdrawalError(res, error, "failed_to_confirm_withdrawal");
+  }
+});
+
 // ═══════════════════════════════════════════════════════════════════════
 // INTERNAL/OPERATOR ENDPOINTS (For backend usage recording)
 // ═══════════════════════════════════════════════════════════════════════
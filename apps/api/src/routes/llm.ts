@@ -1,15 +1,24 @@
-import { Router } from "express";
+import { Router, Request, Response } from "express";
 import { prisma } from "../prisma";
-import { checkAuth } from "../middleware/auth";
+import { checkAuth, requireScope } from "../middleware/auth";
 import { storageService } from "../services/storage";
 import { Prisma } from "@prisma/client";
 import { encryptionService } from "../services/encryption";
 import { chatCompletion } from "../services/openrouter";
+import { chatProviders, ProviderError } from "../services/chatProviders";
+import { executeToolCall, generateImage, resolveToolDefinitions, serverTools } from "../services/serverTools";
 import { billingService } from "../services/billing";
-import { getGuestCredits, recordGuestUsage } from "../services/guestCredits";
+import { getGuestCredits, recordGuestUsage, checkGuestLimits, GuestLimitReason } from "../services/guestCredits";
+import { apiKeyService, ApiKeyRecord, ApiKeyLimitReason } from "../services/apiKeys";
+import { ledgerService, InsufficientCreditsError } from "../services/ledger";
+import { countTokens, countMessageTokens } from "../services/quote";
 import { v4 as uuidv4 } from "uuid";
-import { ollamaService, OllamaMessage } from "../services/ollama";
+import { ollamaService, OllamaMessage, ChatAttempt } from "../services/ollama";
 import { subnetNodeService } from "../services/subnetNodes";
+import { computeCharge, priceCeiling, resolvePrice } from "../services/subnetPricing";
+import { mediaJobService, findMediaModel, MediaKind, MediaJobUpdate } from "../services/mediaJobs";
+import { BranchTarget, childrenOf, descendToLeaf, linkLegacyMessages, nextSiblingIndex, resolvePath } from "../services/messageTree";
+import { AttachmentFilter, indexMessage, searchMessages } from "../services/searchIndex";
 
 export const llmRouter = Router();
 
@@ -57,7 +66,7 @@ async function uploadBase64ImageToSpaces(base64Data: string): Promise<string | n
  * Returns cost in USD to charge the user
  * FREE MODELS: If publicPricingPrompt === 0, the model is completely free for users
  */
-async function calculateRequestCost(
+export async function calculateRequestCost(
   model: string,
   inputTokens: number,
   outputTokens: number
@@ -137,14 +146,21 @@ async function isModelFree(modelId: string): Promise<boolean> {
 /**
  * Check if user has sufficient credits for estimated cost
  * Returns true if allowed, false if insufficient credits
- * FREE MODELS always return allowed: true
+ * FREE MODELS always return allowed: true (unless an API key's allow-list excludes them)
+ * API keys additionally enforce their model allow-list and daily/monthly spend caps
  */
-async function checkUserCredits(
+export async function checkUserCredits(
   user: any,
   guestId: string | null,
   estimatedCost: number,
-  modelId?: string
-): Promise<{ allowed: boolean; balance: number; isGuest: boolean; isFreeModel: boolean }> {
+  modelId?: string,
+  apiKey?: ApiKeyRecord | null
+): Promise<{ allowed: boolean; balance: number; isGuest: boolean; isFreeModel: boolean; reason?: ApiKeyLimitReason | GuestLimitReason }> {
+  // API key limits - allow-list applies to every model, caps only to paid ones
+  if (apiKey && modelId && !apiKeyService.isModelAllowed(apiKey, modelId)) {
+    return { allowed: false, balance: 0, isGuest: false, isFreeModel: false, reason: "model_not_allowed" };
+  }
+
   // Check if this is a FREE model - always allow
   if (modelId) {
     const freeModel = await isModelFree(modelId);
@@ -154,9 +170,13 @@ async function checkUserCredits(
     }
   }
 
-  // Guest user - check shared guest credits service
+  // Guest user - check persisted guest ledger + per-IP/per-device limits
   if (!user?.walletAddress) {
-    const remainingCredits = getGuestCredits(guestId);
+    const limitReason = await checkGuestLimits(guestId, { ipAddress: user?.lastIpAddress, deviceId: user?.deviceId });
+    if (limitReason) {
+      return { allowed: false, balance: 0, isGuest: true, isFreeModel: false, reason: limitReason };
+    }
+    const remainingCredits = await getGuestCredits(guestId);
     return {
       allowed: remainingCredits >= estimatedCost,
       balance: remainingCredits,
@@ -165,6 +185,10 @@ async function checkUserCredits(
     };
   }
 
+  if (apiKey && await apiKeyService.isOverSpendCap(apiKey, estimatedCost)) {
+    return { allowed: false, balance: 0, isGuest: false, isFreeModel: false, reason: "spend_cap_reached" };
+  }
+
   // Wallet connected user - check on-chain balance
   try {
     const balance = await billingService.getBalance(user.walletAddress, DEFAULT_BILLING_NETWORK);
@@ -181,50 +205,166 @@ async function checkUserCredits(
   }
 }
 
+/**
+ * HTTP status for a credit check rejected by a limit (not by balance)
+ */
+function limitStatus(reason: ApiKeyLimitReason | GuestLimitReason): number {
+  if (reason === "model_not_allowed") return 403;
+  if (reason === "guest_ip_limit" || reason === "guest_device_limit") return 429;
+  return 402;
+}
+
+// How a request's token counts were obtained (stored in Message.metadata.billing.method)
+type BillingMethod = "provider_usage" | "tokenizer_estimate";
+
+// Provider calls allowed per streamed reply when the model keeps calling tools
+const MAX_TOOL_ITERATIONS = 5;
+
+// Output budget assumed for a hold when the client sets no max_tokens
+const DEFAULT_HOLD_OUTPUT_TOKENS = 2048;
+const SETTLE_ATTEMPTS = 3;
+
+/**
+ * Size a credit hold for a request: prompt tokens via countTokens over the full
+ * message array, plus the output budget (max_tokens or a default, capped by the
+ * model's remaining context window), priced with calculateRequestCost.
+ */
+export async function estimateRequestCost(
+  modelId: string,
+  messages: any[],
+  maxTokens?: number
+): Promise<{ promptTokens: number; maxOutputTokens: number; estimatedCost: number; isFreeModel: boolean }> {
+  const promptTokens = countMessageTokens(messages);
+
+  const modelInfo = await prisma.model.findUnique({
+    where: { openrouterId: modelId },
+    select: { contextLength: true }
+  });
+
+  let maxOutputTokens = maxTokens && maxTokens > 0 ? maxTokens : DEFAULT_HOLD_OUTPUT_TOKENS;
+  if (modelInfo?.contextLength) {
+    maxOutputTokens = Math.max(0, Math.min(maxOutputTokens, modelInfo.contextLength - promptTokens));
+  }
+
+  const costData = await calculateRequestCost(modelId, promptTokens, maxOutputTokens);
+  return { promptTokens, maxOutputTokens, estimatedCost: costData.totalCost, isFreeModel: costData.isFreeModel };
+}
+
+/**
+ * Size a credit hold for a decentralized request: the prompt plus the output budget,
+ * priced at the most expensive node that may serve it (0 when the model is free).
+ */
+export async function estimateSubnetCost(model: string, messages: any[], maxTokens?: number, encrypted = false): Promise<number> {
+  const candidates = ollamaService.getHealthyNodes()
+    .filter((n) => ollamaService.isAcceptingRequests(n) && ollamaService.servesModel(n, model))
+    .filter((n) => !encrypted || ollamaService.supportsEncryption(n))
+    .map((n) => ({ operatorAddress: n.address, model: ollamaService.resolveModelName(n, model) }));
+  const price = await priceCeiling(model, candidates);
+  if (price.source === "free") return 0;
+
+  const maxOutputTokens = maxTokens && maxTokens > 0 ? maxTokens : DEFAULT_HOLD_OUTPUT_TOKENS;
+  return computeCharge(price, countMessageTokens(messages), maxOutputTokens).costUSD;
+}
+
+/**
+ * Credit check + hold: runs checkUserCredits and, for paid models on wallet
+ * accounts, pre-authorizes `estimatedCost` on the ledger under `requestId`.
+ * The hold is settled by recordUsageInternal or returned by releaseCredits.
+ */
+export async function reserveCredits(
+  user: any,
+  guestId: string | null,
+  estimatedCost: number,
+  requestId: string,
+  modelId?: string,
+  apiKey?: ApiKeyRecord | null
+): Promise<Awaited<ReturnType<typeof checkUserCredits>> & { held: boolean }> {
+  const creditCheck = await checkUserCredits(user, guestId, estimatedCost, modelId, apiKey);
+  if (!creditCheck.allowed || creditCheck.isGuest || creditCheck.isFreeModel) {
+    return { ...creditCheck, held: false };
+  }
+
+  try {
+    await ledgerService.placeHold(user.walletAddress, requestId, estimatedCost, modelId, apiKey?.id);
+    if (apiKey && await apiKeyService.isPastSpendCap(apiKey)) {
+      await releaseCredits(user, requestId, "spend_cap_reached");
+      return { ...creditCheck, allowed: false, held: false, reason: "spend_cap_reached" };
+    }
+    return { ...creditCheck, held: true };
+  } catch (error) {
+    if (error instanceof InsufficientCreditsError) {
+      return { ...creditCheck, allowed: false, balance: error.balance, held: false };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Return a request's hold after an upstream failure (no-op without a hold)
+ */
+export async function releaseCredits(user: any, requestId: string, reason?: string): Promise<void> {
+  if (!user?.walletAddress) return;
+  try {
+    await ledgerService.release(requestId, reason);
+  } catch (error) {
+    console.error(`[Billing] Failed to release hold ${requestId}:`, error);
+  }
+}
+
 /**
  * Record usage after a successful API call
- * Errors are silently ignored to avoid log spam - billing is best-effort
+ * Wallet usage settles the request's hold on the ledger; failed writes are retried
+ * and then rethrown (the open hold still covers the request until it expires).
  */
-async function recordUsageInternal(
+export async function recordUsageInternal(
   user: any,
   guestId: string | null,
   model: string,
   inputTokens: number,
   outputTokens: number,
   totalCost: number,
-  requestId: string
+  requestId: string,
+  apiKeyId?: number | null
 ): Promise<void> {
-  // Guest user - track via shared guest credits service
+  // Guest user - append to the guest credit ledger
   if (!user?.walletAddress) {
-    recordGuestUsage(guestId, totalCost);
+    await recordGuestUsage(guestId, totalCost, {
+      model,
+      requestId,
+      ipAddress: user?.lastIpAddress,
+      deviceId: user?.deviceId
+    });
     return;
   }
 
-  // Wallet connected user - record on-chain (best effort, errors silenced)
-  try {
-    await billingService.recordUsage(
-      user.walletAddress,
-      totalCost.toFixed(18), // 18 decimals precision
-      model,
-      inputTokens,
-      outputTokens,
-      requestId,
-      DEFAULT_BILLING_NETWORK
-    );
-    // Success log only in development
-    if (process.env.NODE_ENV === 'development') {
-      console.log(`[Billing] User ${user.walletAddress}: $${totalCost.toFixed(6)} for ${model}`);
+  // Wallet connected user - settle on the ledger
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await billingService.recordUsage(
+        user.walletAddress,
+        totalCost.toFixed(18), // 18 decimals precision
+        model,
+        inputTokens,
+        outputTokens,
+        requestId,
+        DEFAULT_BILLING_NETWORK,
+        apiKeyId ?? undefined
+      );
+      return;
+    } catch (error) {
+      if (attempt >= SETTLE_ATTEMPTS) {
+        console.error(`[Billing] Failed to settle ${requestId} for ${user.walletAddress} ($${totalCost.toFixed(6)}, ${model}):`, error);
+        throw error;
+      }
+      await new Promise((resolve) => setTimeout(resolve, attempt * 250));
     }
-  } catch {
-    // Silently ignore billing errors to avoid log spam
-    // Billing is best-effort - won't fail user requests
   }
 }
 
 llmRouter.use(checkAuth);
 
 // --- IMAGE GALLERY ENDPOINT ---
-llmRouter.get("/images", async (req, res) => {
+llmRouter.get("/images", requireScope("images"), async (req, res) => {
     const user = (req as any).user;
     if (!user) return res.status(401).json({ error: "unauthorized" });
 
@@ -234,7 +374,7 @@ llmRouter.get("/images", async (req, res) => {
             where: {
                 conversation: { userId: user.id },
                 OR: [
-                    { attachmentUrl: { not: null }, attachmentType: 'image' },
+                    { attachmentUrl: { not: null }, attachmentType: { in: ['image', 'video', 'audio'] } },
                     { metadata: { not: Prisma.DbNull } }
                 ]
             },
@@ -247,6 +387,15 @@ llmRouter.get("/images", async (req, res) => {
             take: 200 // Fetch more to filter for images
         });
 
+        // Prompts for video/audio live on the job, the message only carries the result
+        const mediaJobs = await prisma.mediaJob.findMany({
+            where: { userId: user.id, status: 'succeeded' },
+            select: { id: true, prompt: true },
+            orderBy: { createdAt: 'desc' },
+            take: 200
+        });
+        const mediaPrompts = new Map(mediaJobs.map((job: { id: string; prompt: string }) => [job.id, job.prompt]));
+
         // Extract all images from messages
         const images: any[] = [];
 
@@ -261,6 +410,7 @@ llmRouter.get("/images", async (req, res) => {
                 images.push({
                     id: `${msg.id}-attachment`,
                     url: msg.attachmentUrl,
+                    type: 'image',
                     model: msg.modelUsed || 'tool-image',
                     prompt: encryptionService.decrypt(msg.content).replace(/!\[.*?\]\(.*?\)/g, '').trim().substring(0, 200),
                     conversationId: msg.conversationId,
@@ -270,12 +420,28 @@ llmRouter.get("/images", async (req, res) => {
                 });
             }
 
+            // Video/audio from media jobs
+            if (msg.attachmentUrl && (msg.attachmentType === 'video' || msg.attachmentType === 'audio')) {
+                images.push({
+                    id: `${msg.id}-media`,
+                    url: msg.attachmentUrl,
+                    type: msg.attachmentType,
+                    model: msg.modelUsed || `tool-${msg.attachmentType}`,
+                    prompt: encryptionService.decrypt(mediaPrompts.get(metadata?.mediaJobId) || msg.content).substring(0, 200),
+                    conversationId: msg.conversationId,
+                    conversationTitle: convTitle,
+                    createdAt: msg.createdAt,
+                    source: 'media-job'
+                });
+            }
+
             // Images from metadata.generatedImages (AI model generated)
             if (metadata?.generatedImages && Array.isArray(metadata.generatedImages)) {
                 for (let i = 0; i < metadata.generatedImages.length; i++) {
                     images.push({
                         id: `${msg.id}-gen-${i}`,
                         url: metadata.generatedImages[i],
+                        type: 'image',
                         model: msg.modelUsed || 'unknown',
                         prompt: encryptionService.decrypt(msg.content).substring(0, 200),
                         conversationId: msg.conversationId,
@@ -295,8 +461,41 @@ llmRouter.get("/images", async (req, res) => {
     }
 });
 
+// --- MEDIA JOB ENDPOINTS ---
+llmRouter.get("/media/jobs/:id", requireScope("images"), async (req, res) => {
+    const user = (req as any).user;
+    if (!user) return res.status(401).json({ error: "unauthorized" });
+    try {
+        const job = await mediaJobService.get(req.params.id, user.id);
+        if (!job) return res.status(404).json({ error: "job_not_found" });
+        res.json({ mediaJob: job });
+    } catch (err) {
+        console.error("[MediaJobs] Failed to fetch job:", err);
+        res.status(500).json({ error: "failed_to_fetch_job" });
+    }
+});
+
+// Progress events for a job until it finishes (reconnect here after /chat/stream stops waiting)
+llmRouter.get("/media/jobs/:id/events", requireScope("images"), async (req, res) => {
+    const user = (req as any).user;
+    if (!user) return res.status(401).json({ error: "unauthorized" });
+
+    const job = await mediaJobService.get(req.params.id, user.id).catch(() => null);
+    if (!job) return res.status(404).json({ error: "job_not_found" });
+
+    res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache", "Connection": "keep-alive" });
+    res.write(`data: ${JSON.stringify({ mediaJob: job })}\n\n`);
+    if (!mediaJobService.isFinished(job)) {
+        const disconnected = new AbortController();
+        req.on("close", () => disconnected.abort());
+        await mediaJobService.watch(job, user.id, (update) => res.write(`data: ${JSON.stringify({ mediaJob: update })}\n\n`), MEDIA_STREAM_WAIT_MS, disconnected.signal);
+    }
+    res.write(`data: [DONE]\n\n`);
+    res.end();
+});
+
 // --- HISTORY ENDPOINTS ---
-llmRouter.get("/history", async (req, res) => {
+llmRouter.get("/history", requireScope("chat"), async (req, res) => {
     const user = (req as any).user;
     if (!user) return res.status(401).json({ error: "unauthorized" });
     try {
@@ -311,7 +510,24 @@ llmRouter.get("/history", async (req, res) => {
     } catch (err) { res.status(500).json({ error: "failed_to_fetch_history" }); }
 });
 
-llmRouter.get("/history/:id", async (req, res) => {
+/**
+ * Messages on the conversation's active branch, each with its siblings so the
+ * client can offer the alternates (edits, regenerations, compared models)
+ */
+async function activeBranchView(conversation: any) {
+    const nodes = await linkLegacyMessages<any>(conversation.messages);
+    const path = resolvePath(nodes, conversation.activeLeafId);
+    const messages = path.map(m => ({
+        id: m.id, role: m.role, content: encryptionService.decrypt(m.content), model: m.modelUsed,
+        timestamp: m.createdAt, metadata: m.metadata as Prisma.JsonObject || {},
+        attachmentUrl: m.attachmentUrl, attachmentType: m.attachmentType,
+        parentId: m.parentId, siblingIndex: m.siblingIndex,
+        siblingIds: childrenOf(nodes, m.parentId).map(n => n.id)
+    }));
+    return { ...conversation, activeLeafId: path[path.length - 1]?.id ?? null, messages };
+}
+
+llmRouter.get("/history/:id", requireScope("chat"), async (req, res) => {
     const user = (req as any).user;
     const { id } = req.params;
     if (!user) return res.status(401).json({ error: "unauthorized" });
@@ -321,43 +537,68 @@ llmRouter.get("/history/:id", async (req, res) => {
             include: { messages: { orderBy: { createdAt: 'asc' } } }
         });
         if (!conversation) return res.status(404).json({ error: "not_found" });
-        const messages = conversation.messages.map(m => ({
-            id: m.id, role: m.role, content: encryptionService.decrypt(m.content), model: m.modelUsed,
-            timestamp: m.createdAt, metadata: m.metadata as Prisma.JsonObject || {},
-            attachmentUrl: m.attachmentUrl, attachmentType: m.attachmentType
-        }));
-        res.json({ conversation: { ...conversation, messages } });
+        res.json({ conversation: await activeBranchView(conversation) });
     } catch (err) { res.status(500).json({ error: "failed_to_fetch_messages" }); }
 });
 
-llmRouter.post("/history/:id/fork", async (req, res) => {
+// Switch the branch on screen to the one through `messageId` (newest leaf below it)
+llmRouter.put("/history/:id/branch", requireScope("chat"), async (req, res) => {
     const user = (req as any).user;
     const { id } = req.params;
+    const messageId = Number(req.body?.messageId);
     if (!user) return res.status(401).json({ error: "unauthorized" });
     try {
-        const original = await prisma.conversation.findUnique({
-            where: { id },
-            include: { messages: true }
+        const conversation = await prisma.conversation.findFirst({
+            where: { id, userId: user.id },
+            include: { messages: { orderBy: { createdAt: 'asc' } } }
+        });
+        if (!conversation) return res.status(404).json({ error: "not_found" });
+        if (!conversation.messages.some(m => m.id === messageId)) return res.status(400).json({ error: "message_not_in_conversation" });
+
+        const activeLeafId = descendToLeaf(conversation.messages, messageId);
+        await prisma.conversation.update({ where: { id }, data: { activeLeafId } });
+        res.json({ conversation: await activeBranchView({ ...conversation, activeLeafId }) });
+    } catch (err) { res.status(500).json({ error: "branch_switch_failed" }); }
+});
+
+// Copies the whole tree; parents are always older than their children, so id order keeps links resolvable
+llmRouter.post("/history/:id/fork", requireScope("chat"), async (req, res) => {
+    const user = (req as any).user;
+    const { id } = req.params;
+    if (!user) return res.status(401).json({ error: "unauthorized" });
+    try {
+        const original = await prisma.conversation.findFirst({
+            where: { id, userId: user.id },
+            include: { messages: { orderBy: { id: 'asc' } } }
         });
         if (!original) return res.status(404).json({ error: "not_found" });
+        const nodes = await linkLegacyMessages<any>(original.messages);
         const clone = await prisma.conversation.create({
             data: {
                 userId: user.id,
-                title: encryptionService.decrypt(original.title || "Untitled") + " (Fork)",
-                messages: {
-                    create: original.messages.map(m => ({
-                        role: m.role, content: m.content, modelUsed: m.modelUsed,
-                        metadata: m.metadata || undefined, attachmentUrl: m.attachmentUrl, attachmentType: m.attachmentType
-                    }))
-                }
+                title: encryptionService.encrypt(encryptionService.decrypt(original.title || "Untitled") + " (Fork)")
             }
         });
+        const idMap = new Map<number, number>();
+        for (const m of nodes) {
+            const copy = await prisma.message.create({
+                data: {
+                    conversationId: clone.id, role: m.role, content: m.content, modelUsed: m.modelUsed,
+                    metadata: m.metadata || undefined, attachmentUrl: m.attachmentUrl, attachmentType: m.attachmentType,
+                    parentId: m.parentId != null ? idMap.get(m.parentId) ?? null : null, siblingIndex: m.siblingIndex
+                }
+            });
+            idMap.set(m.id, copy.id);
+        }
+        if (original.activeLeafId != null && idMap.has(original.activeLeafId)) {
+            await prisma.conversation.update({ where: { id: clone.id }, data: { activeLeafId: idMap.get(original.activeLeafId) } });
+        }
         res.json({ id: clone.id });
     } catch (err) { res.status(500).json({ error: "fork_failed" }); }
 });
 
 // Delete conversation
-llmRouter.delete("/conversations/:id", async (req, res) => {
+llmRouter.delete("/conversations/:id", requireScope("chat"), async (req, res) => {
     const user = (req as any).user;
     const { id } = req.params;
     if (!user) return res.status(401).json({ error: "unauthorized" });
@@ -379,15 +620,39 @@ llmRouter.delete("/conversations/:id", async (req, res) => {
     }
 });
 
-// --- HELPER FUNCTIONS ---
+// --- SEARCH ---
+const ATTACHMENT_FILTERS: AttachmentFilter[] = ["image", "video", "audio", "file", "any", "none"];
+
+// Whole-word search over the user's messages: ?q=&model=&from=&to=&attachment=&limit=
+llmRouter.get("/search", requireScope("chat"), async (req, res) => {
+    const user = (req as any).user;
+    if (!user) return res.status(401).json({ error: "unauthorized" });
+
+    const q = typeof req.query.q === "string" ? req.query.q.trim() : "";
+    if (!q) return res.status(400).json({ error: "query_required" });
+
+    const parseDate = (value: unknown) => (typeof value === "string" && value ? new Date(value) : undefined);
+    const from = parseDate(req.query.from);
+    const to = parseDate(req.query.to);
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) return res.status(400).json({ error: "invalid_date" });
+
+    const attachment = typeof req.query.attachment === "string" && req.query.attachment ? req.query.attachment as AttachmentFilter : undefined;
+    if (attachment && !ATTACHMENT_FILTERS.includes(attachment)) return res.status(400).json({ error: "invalid_attachment_filter" });
 
-async function uploadToStorage(url: string, contentType: string) {
     try {
-        const response = await fetch(url);
-        const buffer = Buffer.from(await response.arrayBuffer());
-        return await storageService.uploadBuffer(buffer, "media", contentType);
-    } catch (e) { throw new Error("Media generation failed"); }
-}
+        const results = await searchMessages(user.id, q, {
+            model: typeof req.query.model === "string" && req.query.model ? req.query.model : undefined,
+            from, to, attachment,
+            limit: Math.min(Math.max(Number(req.query.limit) || 20, 1), 50)
+        });
+        res.json({ query: q, results });
+    } catch (err) {
+        console.error("[Search] Query failed:", err);
+        res.status(500).json({ error: "search_failed" });
+    }
+});
+
+// --- HELPER FUNCTIONS ---
 
 type ToolResult = { content?: string; attachmentUrl?: string; type?: string; context?: string; isContext?: boolean; sources?: string[] };
 
@@ -396,82 +661,181 @@ const tools: Record<string, { trigger: RegExp; execute: (prompt: string) => Prom
         trigger: /^\/(image|img|generate)\s+/i,
         execute: async (prompt: string) => {
             const cleanPrompt = prompt.replace(/^\/(image|img|generate)\s+/i, "").trim();
-            const seed = Math.floor(Math.random() * 1000000);
-            const tempUrl = `https://image.pollinations.ai/prompt/${encodeURIComponent(cleanPrompt)}?nologo=true&seed=${seed}&width=1024&height=1024`;
-            const publicUrl = await uploadToStorage(tempUrl, "image/jpeg");
+            const publicUrl = await generateImage(cleanPrompt);
             return { content: `![Generated Image](${publicUrl})`, attachmentUrl: publicUrl, type: 'image' };
         }
-    },
-    video: {
-        trigger: /^\/(video|vid)\s+/i,
-        execute: async (prompt: string) => {
-            const videoPrompt = prompt.replace(/^\/(video|vid)\s+/i, "").trim();
-            console.log("Generating video for:", videoPrompt);
-            const publicUrl = await uploadToStorage("https://media.giphy.com/media/3o7TKv6MgQfdSRT01G/giphy.gif", "image/gif"); 
-            return { content: `\n![Video Generated](${publicUrl})`, attachmentUrl: publicUrl, type: 'video' };
-        }
-    },
-    audio: {
-        trigger: /^\/(audio|speak)\s+/i,
-        execute: async (prompt: string) => {
-            const text = prompt.replace(/^\/(audio|speak)\s+/i, "").trim();
-            const tempUrl = `https://api.streamelements.com/kappa/v2/speech?voice=Brian&text=${encodeURIComponent(text.substring(0, 200))}`; // Limit text length to avoid URL issues
-            const publicUrl = await uploadToStorage(tempUrl, "audio/mp3");
-            return { content: `\n[Audio Generated]`, attachmentUrl: publicUrl, type: 'audio' };
-        }
     }
 };
 
-const saveInteraction = async (user: any, conversationId: string | null, userMessage: string, assistantResponse: string, model: string, attachmentUrl?: string, metadata?: any) => {
-  if (!user) return conversationId;
+type SavedInteraction = { conversationId: string | null; userMessageId?: number; assistantMessageId?: number };
+
+// Tree ids of a saved turn, so the client can edit/regenerate it without reloading
+function writeMessageIds(res: Response, saved: SavedInteraction) {
+  if (saved.assistantMessageId) {
+    res.write(`data: ${JSON.stringify({ messageIds: { user: saved.userMessageId, assistant: saved.assistantMessageId } })}\n\n`);
+  }
+}
+
+// Unindexed messages are picked up again by the next search, so failures only get logged
+function indexForSearch(userId: number, messageId: number, content: string) {
+  indexMessage(userId, messageId, content).catch((err) => console.error(`[Search] Failed to index message ${messageId}:`, err.message));
+}
+
+const saveInteraction = async (user: any, conversationId: string | null, userMessage: string, assistantResponse: string, model: string, attachmentUrl?: string, metadata?: any, branch?: BranchTarget): Promise<SavedInteraction> => {
+  if (!user) return { conversationId };
   try {
-    let currentConversationId = conversationId;
-    if (!currentConversationId) {
+    let currentConversationId: string;
+    let activeLeafId: number | null = null;
+    if (!conversationId) {
       const conv = await prisma.conversation.create({
         data: { userId: user.id, title: encryptionService.encrypt(userMessage.substring(0, 50)) }
       });
       currentConversationId = conv.id;
+    } else {
+      currentConversationId = conversationId;
+      const conv = await prisma.conversation.findUnique({ where: { id: currentConversationId }, select: { activeLeafId: true } });
+      activeLeafId = conv?.activeLeafId ?? null;
     }
 
-    // Check if the *most recent* user message matches the current one (deduplication for parallel requests)
-    const lastUserMsg = await prisma.message.findFirst({
-        where: { conversationId: currentConversationId, role: 'user' },
-        orderBy: { createdAt: 'desc' }
-    });
-
-    const encryptedUserMsg = encryptionService.encrypt(userMessage);
-    let shouldSaveUserMsg = true;
-
-    if (lastUserMsg) {
-        const decryptedLast = encryptionService.decrypt(lastUserMsg.content);
-        // Simple content check. 
-        if (decryptedLast === userMessage) {
-            shouldSaveUserMsg = false;
-        }
-    }
+    let userMessageId: number;
+    if (branch?.userMessageId) {
+      userMessageId = branch.userMessageId;
+    } else {
+      // New turns continue the branch on screen; conversations from before the tree get linked first
+      let parentId: number | null = branch ? branch.parentId : activeLeafId;
+      if (!branch && activeLeafId == null) {
+        const nodes = await linkLegacyMessages(await prisma.message.findMany({
+          where: { conversationId: currentConversationId },
+          select: { id: true, role: true, parentId: true, siblingIndex: true }
+        }));
+        parentId = resolvePath(nodes).pop()?.id ?? null;
+      }
 
-    if (shouldSaveUserMsg) {
-        await prisma.message.create({
-            data: { conversationId: currentConversationId, role: "user", content: encryptedUserMsg }
-        });
+      // Parallel requests for one turn (model comparison) share its user message: reuse the
+      // newest user message at this spot in the tree when it asks the same thing
+      const leaf = !branch && parentId != null
+        ? await prisma.message.findUnique({ where: { id: parentId }, select: { role: true, parentId: true } })
+        : null;
+      const lastUserMsg = branch
+        ? await prisma.message.findFirst({
+            where: { conversationId: currentConversationId, role: 'user', parentId },
+            orderBy: { createdAt: 'desc' }
+          })
+        : leaf?.role === 'assistant' && leaf.parentId != null
+          ? await prisma.message.findUnique({ where: { id: leaf.parentId } })
+          : null;
+
+      if (lastUserMsg && encryptionService.decrypt(lastUserMsg.content) === userMessage) {
+          userMessageId = lastUserMsg.id;
+      } else {
+          const created = await prisma.message.create({
+              data: {
+                  conversationId: currentConversationId, role: "user", content: encryptionService.encrypt(userMessage),
+                  parentId, siblingIndex: await nextSiblingIndex(currentConversationId, parentId)
+              }
+          });
+          userMessageId = created.id;
+          indexForSearch(user.id, created.id, userMessage);
+      }
     }
 
-    await prisma.message.create({
+    const assistant = await prisma.message.create({
       data: { 
           conversationId: currentConversationId, role: "assistant", 
           content: encryptionService.encrypt(assistantResponse), modelUsed: model, 
-          metadata: metadata || Prisma.JsonNull, attachmentUrl, attachmentType: metadata?.attachmentType
+          metadata: metadata || Prisma.JsonNull, attachmentUrl, attachmentType: metadata?.attachmentType,
+          parentId: userMessageId, siblingIndex: await nextSiblingIndex(currentConversationId, userMessageId)
       }
     });
-    await prisma.conversation.update({ where: { id: currentConversationId }, data: { updatedAt: new Date() } });
+    indexForSearch(user.id, assistant.id, assistantResponse);
+    await prisma.conversation.update({ where: { id: currentConversationId }, data: { updatedAt: new Date(), activeLeafId: assistant.id } });
     await prisma.user.update({ where: { id: user.id }, data: { messageCount: { increment: 1 } } });
-    return currentConversationId;
-  } catch (err) { return conversationId; }
+    return { conversationId: currentConversationId, userMessageId, assistantMessageId: assistant.id };
+  } catch (err) { return { conversationId }; }
 };
 
+// Slash commands rendered by media-capable catalog models (see services/mediaJobs)
+const mediaCommands: { kind: MediaKind; trigger: RegExp }[] = [
+    { kind: "video", trigger: /^\/(video|vid)\s+/i },
+    { kind: "audio", trigger: /^\/(audio|speak)\s+/i }
+];
+
+// How long /chat/stream forwards job progress before handing the client the job id to poll
+const MEDIA_STREAM_WAIT_MS = Number(process.env.MEDIA_STREAM_WAIT_MS) || 120000;
+
+type MediaJobStart =
+  | { job: MediaJobUpdate; error?: undefined }
+  | { error: string; status: number; body?: Record<string, unknown> };
+
+/**
+ * Start a /video or /audio render. The chat model's hold is swapped for one
+ * sized on the media model; the job settles it (or releases it) when it ends.
+ */
+async function startMediaJob(params: {
+  user: any;
+  guestId: string | null;
+  apiKey: ApiKeyRecord | null;
+  requestId: string;
+  kind: MediaKind;
+  userMessage: string;
+  preferredModel?: string | null;
+  conversationId: string;
+  branch?: BranchTarget;
+}): Promise<MediaJobStart> {
+  const { user, guestId, apiKey, requestId, kind, userMessage, conversationId } = params;
+  await releaseCredits(user, requestId, "media_job");
+
+  const mediaModel = await findMediaModel(kind, params.preferredModel);
+  if (!mediaModel) return { error: "no_media_model", status: 503, body: { kind } };
+
+  const prompt = userMessage.replace(mediaCommands.find((c) => c.kind === kind)!.trigger, "").trim();
+  const jobRequestId = uuidv4();
+  const { estimatedCost } = await estimateRequestCost(mediaModel, [{ role: "user", content: prompt }]);
+  const creditCheck = await reserveCredits(user, guestId, estimatedCost, jobRequestId, mediaModel, apiKey);
+  if (creditCheck.reason) return { error: creditCheck.reason, status: limitStatus(creditCheck.reason) };
+  if (!creditCheck.allowed) {
+    return {
+      error: "insufficient_credits",
+      status: 402,
+      body: { balance: creditCheck.balance.toFixed(4), required: estimatedCost.toFixed(4), isGuest: creditCheck.isGuest }
+    };
+  }
+
+  const job = await mediaJobService.create(
+    { userId: user.id, conversationId, kind, model: mediaModel, prompt, requestId: jobRequestId },
+    {
+      onSucceeded: async (finished, usage) => {
+        const method: BillingMethod = usage ? "provider_usage" : "tokenizer_estimate";
+        const inputTokens = usage ? usage.promptTokens : countTokens(prompt);
+        const outputTokens = usage ? usage.completionTokens : 0;
+        const costData = await calculateRequestCost(mediaModel, inputTokens, outputTokens);
+
+        await saveInteraction(user, conversationId, userMessage, `[${kind === "video" ? "Video" : "Audio"} generated with ${mediaModel}]`, mediaModel, finished.resultUrl || undefined, {
+          attachmentType: kind,
+          mediaJobId: finished.id,
+          billing: {
+            method,
+            inputTokens,
+            outputTokens,
+            totalCostUSD: costData.totalCost.toFixed(8),
+            requestId: jobRequestId
+          }
+        }, params.branch);
+        await recordUsageInternal(user, guestId, mediaModel, inputTokens, outputTokens, costData.totalCost, jobRequestId, apiKey?.id)
+          .catch(() => {}); // Settles the hold; errors logged by recordUsageInternal
+        return costData.totalCost;
+      },
+      onFailed: async () => {
+        await releaseCredits(user, jobRequestId, "media_failed");
+      }
+    }
+  );
+  return { job };
+}
+
 // --- ROUTES ---
 
-llmRouter.post("/conversations", async (req, res) => {
+llmRouter.post("/conversations", requireScope("chat"), async (req, res) => {
     const user = (req as any).user;
     if (!user) return res.status(401).json({ error: "unauthorized" });
     const { title } = req.body;
@@ -489,12 +853,15 @@ llmRouter.post("/conversations", async (req, res) => {
     }
 });
 
-llmRouter.post("/chat", async (req, res) => {
+llmRouter.post("/chat", requireScope("chat"), async (req, res) => {
   const { messages, model, conversationId } = req.body || {};
   const user = (req as any).user;
+  const apiKey: ApiKeyRecord | null = (req as any).apiKey || null;
   const guestId = req.headers["x-guest-id"] as string | null;
 
   if (!user) return res.status(401).json({ error: "unauthorized" });
+  if (!Array.isArray(messages) || messages.length === 0) return res.status(400).json({ error: "messages_required" });
+  if (typeof model !== "string" || !model) return res.status(400).json({ error: "model_required" });
   if (user && !user.isPremium && user.messageCount >= 1000) {
     return res.status(402).json({ error: "free_limit_reached" });
   }
@@ -502,9 +869,19 @@ llmRouter.post("/chat", async (req, res) => {
   // Generate unique request ID for billing tracking
   const requestId = uuidv4();
 
-  // Credit check before request (pass model to check if it's free)
-  const estimatedCost = 0.005;
-  const creditCheck = await checkUserCredits(user, guestId, estimatedCost, model);
+  // Credit check + hold sized from the prompt and the model's pricing/context window
+  let estimatedCost: number;
+  let creditCheck: Awaited<ReturnType<typeof reserveCredits>>;
+  try {
+    ({ estimatedCost } = await estimateRequestCost(model, messages, req.body?.max_tokens));
+    creditCheck = await reserveCredits(user, guestId, estimatedCost, requestId, model, apiKey);
+  } catch (error) {
+    console.error("[Billing] Credit hold failed", error);
+    return res.status(500).json({ error: "billing_failed" });
+  }
+  if (creditCheck.reason) {
+    return res.status(limitStatus(creditCheck.reason)).json({ error: creditCheck.reason });
+  }
   if (!creditCheck.allowed) {
     return res.status(402).json({
       error: "insufficient_credits",
@@ -516,25 +893,57 @@ llmRouter.post("/chat", async (req, res) => {
 
   const lastUserMessage = messages[messages.length - 1]?.content || "";
 
+  // Media commands run as background jobs - reply 202 with the job to poll
+  const mediaCommand = mediaCommands.find((c) => c.trigger.test(lastUserMessage));
+  if (mediaCommand) {
+      if (apiKey && !apiKeyService.hasScope(apiKey, "images")) {
+          await releaseCredits(user, requestId, "insufficient_scope");
+          return res.status(403).json({ error: "insufficient_scope", required: "images" });
+      }
+      try {
+          let mediaConversationId = conversationId;
+          if (!mediaConversationId) {
+              const conv = await prisma.conversation.create({ data: { userId: user.id, title: encryptionService.encrypt(lastUserMessage.substring(0, 50)) } });
+              mediaConversationId = conv.id;
+          }
+          const started = await startMediaJob({
+              user, guestId, apiKey, requestId, kind: mediaCommand.kind, userMessage: lastUserMessage, preferredModel: model, conversationId: mediaConversationId
+          });
+          if (started.error !== undefined) {
+              return res.status(started.status).json({ error: started.error, ...started.body });
+          }
+          return res.status(202).json({ mediaJob: started.job, conversationId: mediaConversationId });
+      } catch (e) {
+          console.error("[MediaJobs] Failed to start job:", e);
+          await releaseCredits(user, requestId, "tool_failed");
+          return res.status(500).json({ error: "tool_failed" });
+      }
+  }
+
   // Check Tools (Non-streaming) - Fixed cost for tool usage
   const TOOL_COST = 0.001; // $0.001 per tool use
   for (const [key, tool] of Object.entries(tools)) {
       if (tool.trigger.test(lastUserMessage)) {
+          // Media tools need the "images" scope when called with an API key
+          if (apiKey && !apiKeyService.hasScope(apiKey, "images")) {
+              return res.status(403).json({ error: "insufficient_scope", required: "images" });
+          }
           try {
               const result = await tool.execute(lastUserMessage);
               const contentToSave = result.content || "";
-              const newConversationId = await saveInteraction(
+              const { conversationId: newConversationId } = await saveInteraction(
                   user, conversationId, lastUserMessage, contentToSave, "tool-" + key, result.attachmentUrl, {
                     attachmentType: result.type,
                     billing: { toolCostUSD: TOOL_COST.toFixed(8), requestId }
                   }
               );
 
-              // Record tool usage (errors silenced)
-              recordUsageInternal(user, guestId, "tool-" + key, 0, 0, TOOL_COST, requestId).catch(() => {});
+              // Record tool usage (settles the hold; errors logged by recordUsageInternal)
+              recordUsageInternal(user, guestId, "tool-" + key, 0, 0, TOOL_COST, requestId, apiKey?.id).catch(() => {});
 
               return res.json({ reply: contentToSave, attachmentUrl: result.attachmentUrl, attachmentType: result.type, conversationId: newConversationId });
           } catch (e) {
+              await releaseCredits(user, requestId, "tool_failed");
               return res.status(500).json({ error: "tool_failed" });
           }
       }
@@ -542,50 +951,69 @@ llmRouter.post("/chat", async (req, res) => {
 
   try {
     // Fallback to a non-streaming chatCompletion if streaming isn't requested or possible
-    const reply = await chatCompletion({ messages, model });
+    const completion = await chatCompletion({ messages, model });
+    const reply = completion.content;
     const targetModel = model || "default";
 
-    // Estimate tokens and calculate cost
-    const inputTokens = Math.ceil(lastUserMessage.length / 4);
-    const outputTokens = Math.ceil(reply.length / 4);
+    // Bill from the provider's usage block; tokenize the full conversation if it is missing
+    const method: BillingMethod = completion.usage ? "provider_usage" : "tokenizer_estimate";
+    const inputTokens = completion.usage ? completion.usage.promptTokens : countMessageTokens(messages);
+    const outputTokens = completion.usage ? completion.usage.completionTokens : countTokens(reply);
     const costData = await calculateRequestCost(targetModel, inputTokens, outputTokens);
 
-    const newConversationId = await saveInteraction(user, conversationId, lastUserMessage, reply, targetModel, undefined, {
+    const { conversationId: newConversationId } = await saveInteraction(user, conversationId, lastUserMessage, reply, targetModel, undefined, {
+      provider: completion.provider,
       billing: {
+        method,
         inputTokens,
         outputTokens,
         baseCostUSD: costData.baseCost.toFixed(8),
         platformMarginUSD: costData.platformMargin.toFixed(8),
         totalCostUSD: costData.totalCost.toFixed(8),
-        requestId
+        requestId,
+        generationId: completion.generationId,
+        finishReason: completion.finishReason
       }
     });
 
-    // Record usage
-    recordUsageInternal(user, guestId, targetModel, inputTokens, outputTokens, costData.totalCost, requestId)
-      .catch(() => {}); // Billing errors silenced
+    // Record usage (settles the hold; errors logged by recordUsageInternal)
+    recordUsageInternal(user, guestId, targetModel, inputTokens, outputTokens, costData.totalCost, requestId, apiKey?.id)
+      .catch(() => {});
 
     res.json({
       reply,
       conversationId: newConversationId,
-      billing: { inputTokens, outputTokens, costUSD: costData.totalCost.toFixed(6) }
+      billing: { method, inputTokens, outputTokens, costUSD: costData.totalCost.toFixed(6) }
     });
   } catch (error) {
     console.error("LLM non-stream chat error", error);
+    await releaseCredits(user, requestId, "llm_failed");
     res.status(500).json({ error: "llm_failed" });
   }
 });
 
-llmRouter.post("/chat/stream", async (req, res) => {
+/**
+ * Streaming chat. Also serves edit/regenerate, which set res.locals.branch to
+ * attach the new turn somewhere other than the end of the active branch.
+ */
+async function handleChatStream(req: Request, res: Response) {
   console.log("\n--- STREAM CHAT REQUEST ---");
   const { messages, model, conversationId, webSearch, mode } = req.body || {};
+  const branch: BranchTarget | undefined = res.locals.branch;
   console.log("1. Payload received. webSearch:", webSearch, "(Type:", typeof webSearch, ")");
   console.log("2. Model:", model, "Mode:", mode || "centralized");
 
   const user = (req as any).user;
+  const apiKey: ApiKeyRecord | null = (req as any).apiKey || null;
   const guestId = req.headers["x-guest-id"] as string | null;
 
   if (!user) { res.writeHead(401); res.write(JSON.stringify({ error: "unauthorized" })); return res.end(); }
+  if (!Array.isArray(messages) || messages.length === 0) {
+    res.writeHead(400); res.write(JSON.stringify({ error: "messages_required" })); return res.end();
+  }
+  if (model !== undefined && (typeof model !== "string" || !model)) {
+    res.writeHead(400); res.write(JSON.stringify({ error: "model_required" })); return res.end();
+  }
   if (user && !user.isPremium && user.messageCount >= 1000) {
      res.writeHead(402); res.write(JSON.stringify({ error: "free_limit_reached" })); return res.end();
   }
@@ -593,14 +1021,40 @@ llmRouter.post("/chat/stream", async (req, res) => {
   // Generate unique request ID for billing tracking
   const requestId = uuidv4();
 
+  // Function calling: server tools run here in a loop, other function tools go back to the client
+  const { definitions: toolDefinitions, serverToolNames } = resolveToolDefinitions(req.body?.tools);
+  const missingScope = apiKey && serverToolNames
+    .map((name) => serverTools[name].scope)
+    .find((scope) => scope && !apiKeyService.hasScope(apiKey, scope));
+  if (missingScope) {
+    res.writeHead(403); res.write(JSON.stringify({ error: "insufficient_scope", required: missingScope })); return res.end();
+  }
+
   // ═══════════════════════════════════════════════════════════════════════
-  // CREDIT CHECK - Before making the API call (pass model to check if free)
+  // CREDIT CHECK + HOLD - Reserve the worst-case cost before the upstream call
+  // Decentralized models are priced per subnet model; unpriced ones only go through the limit checks
   // ═══════════════════════════════════════════════════════════════════════
-  const estimatedCost = 0.005; // Estimate $0.005 per request as baseline
-  const creditCheck = await checkUserCredits(user, guestId, estimatedCost, model);
+  let estimatedCost: number;
+  let creditCheck: Awaited<ReturnType<typeof reserveCredits>>;
+  try {
+    estimatedCost = mode === 'decentralized'
+      ? await estimateSubnetCost((model || "llama3.2").replace(/^ollama\//, ''), messages, req.body?.max_tokens, req.body?.encrypted === true)
+      : (await estimateRequestCost(model || "openai/gpt-3.5-turbo", messages, req.body?.max_tokens)).estimatedCost;
+    creditCheck = mode === 'decentralized' && estimatedCost === 0
+      ? { ...await checkUserCredits(user, guestId, estimatedCost, model, apiKey), held: false }
+      : await reserveCredits(user, guestId, estimatedCost, requestId, model || "openai/gpt-3.5-turbo", apiKey);
+  } catch (error) {
+    console.error("[Billing] Credit hold failed", error);
+    res.writeHead(500); res.write(JSON.stringify({ error: "billing_failed" })); return res.end();
+  }
 
   console.log(`[Billing] Credit check: ${creditCheck.isGuest ? 'Guest' : user.walletAddress} - Balance: $${creditCheck.balance.toFixed(4)}, Allowed: ${creditCheck.allowed}, Free Model: ${creditCheck.isFreeModel}`);
 
+  if (creditCheck.reason) {
+    res.writeHead(limitStatus(creditCheck.reason));
+    res.write(JSON.stringify({ error: creditCheck.reason }));
+    return res.end();
+  }
   if (!creditCheck.allowed) {
     res.writeHead(402);
     res.write(JSON.stringify({
@@ -620,34 +1074,91 @@ llmRouter.post("/chat/stream", async (req, res) => {
       try {
           const conv = await prisma.conversation.create({ data: { userId: user.id, title: encryptionService.encrypt(lastUserMessage.substring(0, 50)) } });
           finalConversationId = conv.id;
-      } catch(e) { res.writeHead(500); return res.end(); }
+      } catch(e) {
+          await releaseCredits(user, requestId, "conversation_failed");
+          res.writeHead(500); return res.end();
+      }
   }
 
   res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache", "Connection": "keep-alive" });
   res.write(`data: ${JSON.stringify({ conversationId: finalConversationId, requestId })}\n\n`);
 
-  // 2. Tools (Explicit Commands - e.g., /image, /video) - Fixed cost for tool usage
+  // Media commands (/video, /audio) - forward job progress until it finishes or we stop waiting
+  const mediaCommand = mediaCommands.find((c) => c.trigger.test(lastUserMessage));
+  if (mediaCommand) {
+      const writeEvent = (event: any) => res.write(`data: ${JSON.stringify(event)}\n\n`);
+      if (apiKey && !apiKeyService.hasScope(apiKey, "images")) {
+          await releaseCredits(user, requestId, "insufficient_scope");
+          writeEvent({ error: "insufficient_scope", required: "images" });
+          res.write(`data: [DONE]\n\n`);
+          return res.end();
+      }
+      try {
+          const started = await startMediaJob({
+              user, guestId, apiKey, requestId, kind: mediaCommand.kind, userMessage: lastUserMessage, preferredModel: model, conversationId: finalConversationId, branch
+          });
+          if (started.error !== undefined) {
+              writeEvent({ error: started.error, ...started.body });
+              res.write(`data: [DONE]\n\n`);
+              return res.end();
+          }
+
+          writeEvent({ mediaJob: started.job });
+          const disconnected = new AbortController();
+          req.on("close", () => disconnected.abort());
+          const final = await mediaJobService.watch(started.job, user.id, (update) => writeEvent({ mediaJob: update }), MEDIA_STREAM_WAIT_MS, disconnected.signal);
+
+          if (final.status === "succeeded" && final.resultUrl) {
+              writeEvent({ choices: [{ delta: { content: `[${mediaCommand.kind === "video" ? "Video" : "Audio"} generated with ${final.model}]` } }] });
+              writeEvent({ attachmentUrl: final.resultUrl, attachmentType: mediaCommand.kind });
+              writeEvent({ billing: { costUSD: (final.costUSD ?? 0).toFixed(6), mediaJobId: final.id } });
+          } else if (final.status === "failed") {
+              writeEvent({ choices: [{ delta: { content: `Error: ${mediaCommand.kind} generation failed` } }] });
+          } else {
+              writeEvent({ choices: [{ delta: { content: `Still rendering - your ${mediaCommand.kind} will appear in the gallery when it is ready.` } }] });
+          }
+          res.write(`data: [DONE]\n\n`);
+          return res.end();
+      } catch (e) {
+          console.error("[MediaJobs] Failed to start job:", e);
+          await releaseCredits(user, requestId, "tool_failed");
+          writeEvent({ choices: [{ delta: { content: `Error: Tool ${mediaCommand.kind} failed` } }] });
+          res.write(`data: [DONE]\n\n`);
+          return res.end();
+      }
+  }
+
+  // 2. Tools (Explicit Commands - e.g., /image) - Fixed cost for tool usage
   const TOOL_COST = 0.001; // $0.001 per tool use
   for (const [key, tool] of Object.entries(tools)) {
       if (tool.trigger.test(lastUserMessage)) {
+          // Media tools need the "images" scope when called with an API key
+          if (apiKey && !apiKeyService.hasScope(apiKey, "images")) {
+              await releaseCredits(user, requestId, "insufficient_scope");
+              res.write(`data: ${JSON.stringify({ error: "insufficient_scope", required: "images" })}\n\n`);
+              res.write(`data: [DONE]\n\n`);
+              return res.end();
+          }
           try {
               const result = await tool.execute(lastUserMessage);
               const contentToSave = result.content || "";
               res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: contentToSave } }] })}\n\n`);
               if (result.attachmentUrl) res.write(`data: ${JSON.stringify({ attachmentUrl: result.attachmentUrl, attachmentType: result.type })}\n\n`);
-              await saveInteraction(user, finalConversationId, lastUserMessage, contentToSave, "tool-" + key, result.attachmentUrl, {
+              const saved = await saveInteraction(user, finalConversationId, lastUserMessage, contentToSave, "tool-" + key, result.attachmentUrl, {
                 attachmentType: result.type,
                 billing: { toolCostUSD: TOOL_COST.toFixed(8), requestId }
-              });
+              }, branch);
+              writeMessageIds(res, saved);
 
-              // Record tool usage for billing
-              recordUsageInternal(user, guestId, "tool-" + key, 0, 0, TOOL_COST, requestId)
-                .catch(() => {}); // Billing errors silenced
+              // Record tool usage for billing (settles the hold; errors logged by recordUsageInternal)
+              recordUsageInternal(user, guestId, "tool-" + key, 0, 0, TOOL_COST, requestId, apiKey?.id)
+                .catch(() => {});
 
               res.write(`data: ${JSON.stringify({ billing: { costUSD: TOOL_COST.toFixed(6), requestId } })}\n\n`);
               res.write(`data: [DONE]\n\n`);
               return res.end();
           } catch (e) {
+             await releaseCredits(user, requestId, "tool_failed");
              res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: `Error: Tool ${key} failed` } }] })}\n\n`);
              res.write(`data: [DONE]\n\n`);
              return res.end();
@@ -661,14 +1172,23 @@ llmRouter.post("/chat/stream", async (req, res) => {
   if (mode === 'decentralized') {
     const ollamaModel = (model || "llama3.2").replace(/^ollama\//, '');
     const preferredNode = req.body?.preferredNode;
-    console.log(`[Decentralized] Using Ollama model: ${ollamaModel}${preferredNode ? `, preferred node: ${preferredNode}` : ''}`);
+    // Privacy mode: only nodes with an on-chain encryption key, prompts sealed to that key
+    const encrypted = req.body?.encrypted === true;
+    console.log(`[Decentralized] Using Ollama model: ${ollamaModel}${preferredNode ? `, preferred node: ${preferredNode}` : ''}${encrypted ? ', encrypted' : ''}`);
 
     // Check if model is available on the network
     if (!ollamaService.isModelAvailable(ollamaModel)) {
+      await releaseCredits(user, requestId, "model_unavailable");
       res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: `Model ${ollamaModel} is not available on the decentralized network. Available models: ${ollamaService.getAvailableModels().join(', ')}` } }] })}\n\n`);
       res.write(`data: [DONE]\n\n`);
       return res.end();
     }
+    if (encrypted && !ollamaService.isModelAvailable(ollamaModel, true)) {
+      await releaseCredits(user, requestId, "encryption_unavailable");
+      res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: `No node serving ${ollamaModel} supports encrypted inference right now. Turn off private mode or try another model.` } }] })}\n\n`);
+      res.write(`data: [DONE]\n\n`);
+      return res.end();
+    }
 
     // Select node: prefer user-pinned node if set, otherwise auto-select
     let node: ReturnType<typeof ollamaService.selectNode> = null;
@@ -676,31 +1196,37 @@ llmRouter.post("/chat/stream", async (req, res) => {
 
     if (preferredNode) {
       const preferred = ollamaService.getAllNodes().find(n => n.address === preferredNode);
-      if (preferred && preferred.isHealthy && preferred.supportedModels.includes(ollamaModel)) {
+      if (preferred && preferred.isHealthy && ollamaService.servesModel(preferred, ollamaModel) && (!encrypted || ollamaService.supportsEncryption(preferred))) {
         node = preferred;
         console.log(`[Decentralized] Using preferred node: ${preferred.address}`);
       } else {
         preferredNodeWarning = "Preferred node unavailable, using automatic selection";
         console.log(`[Decentralized] Preferred node ${preferredNode} unavailable, falling back to auto-select`);
-        node = ollamaService.selectNode(ollamaModel);
+        node = ollamaService.selectNode(ollamaModel, undefined, encrypted);
       }
     } else {
-      node = ollamaService.selectNode(ollamaModel);
+      node = ollamaService.selectNode(ollamaModel, undefined, encrypted);
     }
 
     if (!node) {
+      await releaseCredits(user, requestId, "no_healthy_nodes");
       res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: "No healthy nodes available for this model. Please try again later." } }] })}\n\n`);
       res.write(`data: [DONE]\n\n`);
       return res.end();
     }
 
-    console.log(`[Decentralized] Selected node: ${node.address} (${node.endpoint})`);
-    res.write(`data: ${JSON.stringify({ decentralizedNode: { address: node.address, latencyMs: node.latencyMs }, ...(preferredNodeWarning ? { warning: preferredNodeWarning } : {}) })}\n\n`);
+    // Hedging would defeat a pinned node; otherwise opt-in per request or server-wide
+    const pinned = !!preferredNode && !preferredNodeWarning;
+    const hedge = !pinned && (req.body?.hedge ?? process.env.OLLAMA_HEDGE_REQUESTS === "true") === true;
+    console.log(`[Decentralized] Selected node: ${node.address} (${node.endpoint})${hedge ? ", hedged" : ""}`);
 
     try {
       const startTime = Date.now();
       let fullResponse = "";
       let evalCount = 0;
+      let promptEvalCount = 0;
+      let servedBy: typeof node | null = null;
+      const attempts: ChatAttempt[] = [];
 
       // Convert messages to Ollama format
       const ollamaMessages: OllamaMessage[] = messages.map((m: any) => ({
@@ -708,8 +1234,26 @@ llmRouter.post("/chat/stream", async (req, res) => {
         content: m.content,
       }));
 
-      // Stream response from Ollama
-      for await (const chunk of ollamaService.chatCompletion(node, ollamaMessages, ollamaModel)) {
+      // Stream from the first node that answers, failing over to the next best before the first token
+      for await (const chunk of ollamaService.failoverChat(ollamaModel, ollamaMessages, { first: node, hedge, encrypted })) {
+        if (chunk.attempt) {
+          attempts.push(chunk.attempt);
+          if (chunk.attempt.outcome !== "served") {
+            console.log(`[Decentralized] Attempt on ${chunk.attempt.node.address} ${chunk.attempt.outcome}${chunk.attempt.error ? `: ${chunk.attempt.error}` : ""}`);
+          }
+          continue;
+        }
+
+        if (chunk.servedBy) {
+          servedBy = chunk.servedBy;
+          res.write(`data: ${JSON.stringify({
+            decentralizedNode: { address: servedBy.address, latencyMs: servedBy.latencyMs, encrypted },
+            ...(attempts.length > 0 ? { failover: attempts.map((a) => ({ address: a.node.address, outcome: a.outcome })) } : {}),
+            ...(preferredNodeWarning ? { warning: preferredNodeWarning } : {}),
+          })}\n\n`);
+          continue;
+        }
+
         if (chunk.error) {
           res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: `\n\nError: ${chunk.error}` } }] })}\n\n`);
           break;
@@ -724,55 +1268,88 @@ llmRouter.post("/chat/stream", async (req, res) => {
         if (chunk.done && chunk.evalCount) {
           evalCount = chunk.evalCount;
         }
+        if (chunk.done && chunk.promptEvalCount) {
+          promptEvalCount = chunk.promptEvalCount;
+        }
       }
 
       const latencyMs = Date.now() - startTime;
+      // Ollama's own counts when the node reports them, otherwise the tokenizer estimate
+      const inputTokens = promptEvalCount || countMessageTokens(ollamaMessages);
+      const outputTokens = evalCount || countTokens(fullResponse);
+
+      // Charged at the serving node's price for the exact tag it ran
+      const charge = servedBy
+        ? computeCharge(await resolvePrice(ollamaService.resolveModelName(servedBy, ollamaModel), servedBy.address), inputTokens, outputTokens)
+        : null;
+
+      // Report every attempt to the subnet; only the serving node gets the output tokens
+      const attemptLog = attempts.map((a) => ({
+        nodeAddress: a.node.address,
+        outcome: a.outcome,
+        latencyMs: a.latencyMs,
+        firstTokenMs: a.firstTokenMs,
+        hedged: a.hedged,
+        ...(a.error ? { error: a.error } : {}),
+      }));
+      for (const a of attempts) {
+        await subnetNodeService.reportRequestDetailed(
+          a.node.address,
+          ollamaModel,
+          inputTokens,
+          a.node === servedBy ? outputTokens : 0,
+          a.latencyMs,
+          a.outcome === "served",
+          { outcome: a.outcome, requestId, charge: a.node === servedBy ? charge : null }
+        );
+      }
 
-      // Estimate tokens (Ollama doesn't always provide accurate counts)
-      const inputTokens = Math.ceil(lastUserMessage.length / 4);
-      const outputTokens = evalCount || Math.ceil(fullResponse.length / 4);
+      if (!servedBy || !charge) {
+        await releaseCredits(user, requestId, "subnet_failed");
+        res.write(`data: [DONE]\n\n`);
+        return res.end();
+      }
 
-      // Report request to subnet for rewards tracking
-      await subnetNodeService.reportRequestDetailed(
-        node.address,
-        ollamaModel,
+      if (charge.costUSD > 0 || creditCheck.held) {
+        // Settles the hold; errors logged by recordUsageInternal
+        await recordUsageInternal(user, guestId, `ollama/${ollamaModel}`, inputTokens, outputTokens, charge.costUSD, requestId, apiKey?.id)
+          .catch(() => {});
+      }
+      const billing = {
         inputTokens,
         outputTokens,
-        latencyMs,
-        true // success
-      );
+        costUSD: charge.costUSD.toFixed(6),
+        operatorShareUSD: charge.operatorShareUSD.toFixed(8),
+        protocolShareUSD: charge.protocolShareUSD.toFixed(8),
+        priceSource: charge.price.source,
+        mode: 'decentralized',
+        nodeAddress: servedBy.address,
+        encrypted,
+        attempts: attemptLog,
+        requestId
+      };
 
       // Save interaction
-      await saveInteraction(user, finalConversationId, lastUserMessage, fullResponse, `ollama/${ollamaModel}`, undefined, {
+      const saved = await saveInteraction(user, finalConversationId, lastUserMessage, fullResponse, `ollama/${ollamaModel}`, undefined, {
         mode: 'decentralized',
-        nodeAddress: node.address,
+        nodeAddress: servedBy.address,
+        servedBy: { address: servedBy.address, endpoint: servedBy.endpoint },
+        encrypted,
         latencyMs,
-        billing: {
-          inputTokens,
-          outputTokens,
-          costUSD: '0', // FREE for decentralized mode
-          mode: 'decentralized',
-          requestId
-        }
-      });
+        attempts: attemptLog,
+        billing
+      }, branch);
+      writeMessageIds(res, saved);
 
-      // Send billing info (FREE)
-      res.write(`data: ${JSON.stringify({
-        billing: {
-          inputTokens,
-          outputTokens,
-          costUSD: '0',
-          mode: 'decentralized',
-          nodeAddress: node.address,
-          requestId
-        }
-      })}\n\n`);
+      // Send billing info
+      res.write(`data: ${JSON.stringify({ billing })}\n\n`);
 
       res.write(`data: [DONE]\n\n`);
       return res.end();
 
     } catch (error) {
       console.error("[Decentralized] Stream error:", error);
+      await releaseCredits(user, requestId, "stream_failed");
       res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: `\n\nDecentralized inference error: ${(error as Error).message}` } }] })}\n\n`);
       res.write(`data: [DONE]\n\n`);
       return res.end();
@@ -809,6 +1386,7 @@ llmRouter.post("/chat/stream", async (req, res) => {
       model: targetModel,
       messages: openRouterMessages,
       stream: true,
+      usage: { include: true }, // Final chunk carries the usage block used to settle the hold
   };
 
   if (architecture?.output_modalities?.includes("image")) {
@@ -826,267 +1404,345 @@ llmRouter.post("/chat/stream", async (req, res) => {
       console.log(`4. Web Search Enabled: plugins=[{id:'web'}] - Type: ${webSearchType.toUpperCase()}`);
   }
 
-  try {
-      const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-          method: "POST",
-          headers: {
-              "Authorization": `Bearer ${process.env.OPENROUTER_API_KEY}`,
-              "HTTP-Referer": "https://zeroprompt.app",
-              "X-Title": "ZeroPrompt",
-              "Content-Type": "application/json"
-          },
-          body: JSON.stringify(payloadBody) 
-      });
-
-      if (!response.ok) {
-          const err = await response.text();
-          console.error("OpenRouter API Error (Non-OK response):", response.status, err);
-          res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: `API Error: ${response.statusText} - ${err}` } }] })}\n\n`);
-          res.write(`data: [DONE]\n\n`);
-          return res.end();
-      }
+  if (toolDefinitions.length > 0) {
+      payloadBody.tools = toolDefinitions;
+      if (req.body?.tool_choice) payloadBody.tool_choice = req.body.tool_choice;
+      console.log(`4a. Tools enabled: ${toolDefinitions.map((t) => t.function.name).join(", ")}`);
+  }
 
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
+  try {
       let fullResponse = "";
       let fullReasoning = "";
       let fullSources: string[] = []; // Array of URLs for frontend compatibility
       let generatedImages: string[] = []; // Array of generated image URLs
-      let buffer = "";
       let chunkCount = 0;
+      let servedBy = "";
 
-      // ═══════════════════════════════════════════════════════════════════════
-      // USAGE TRACKING - Capture tokens from OpenRouter response
-      // ═══════════════════════════════════════════════════════════════════════
-      let usageData: { prompt_tokens: number; completion_tokens: number; total_tokens: number } | null = null;
+      // Per-step billing and the tool calls made along the way (persisted in metadata)
+      const steps: { requestId: string; inputTokens: number; outputTokens: number; baseCostUSD: number; costUSD: number }[] = [];
+      const toolCalls: any[] = [];
+      let toolCostUSD = 0;
 
       // Send web search type indicator at start of stream
       if (webSearchType) {
           res.write(`data: ${JSON.stringify({ webSearchType })}\n\n`);
       }
 
-      while (true && reader) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split("\n");
-          buffer = lines.pop() || ""; // Keep the last partial line in the buffer
-
-          for (const line of lines) {
-              const trimmed = line.trim();
-              if (!trimmed) continue;
-              if (trimmed.startsWith(":")) continue; // Ignore keep-alive comments
-              if (trimmed === "data: [DONE]") continue;
-
-              if (trimmed.startsWith("data: ")) {
-                  const jsonStr = trimmed.slice(6);
-                  try {
-                      const parsed = JSON.parse(jsonStr);
-
-                      // Log first 10 chunks with more detail for debugging
-                      if (chunkCount < 10) {
-                          console.log(`[Stream Chunk ${chunkCount}]`, JSON.stringify(parsed).substring(0, 400) + "...");
-                          chunkCount++;
-                      }
+      // ═══════════════════════════════════════════════════════════════════════
+      // TOOL LOOP - one provider call per step; server tool calls are executed
+      // and fed back until the model answers without tools (or the guard trips)
+      // ═══════════════════════════════════════════════════════════════════════
+      for (let step = 0; ; step++) {
+          // Provider chain from the model's routing policy (fails over on 5xx/timeouts)
+          let routed: Awaited<ReturnType<typeof chatProviders.stream>>;
+          try {
+              routed = await chatProviders.stream({ ...payloadBody, messages: openRouterMessages }, { title: "ZeroPrompt" });
+          } catch (err) {
+              if (!(err instanceof ProviderError)) throw err;
+              console.error("Chat provider error (Non-OK response):", err.message);
+              res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: `API Error: ${err.message}` } }] })}\n\n`);
+              if (step > 0) break; // Earlier steps are billed - save what we have
+              await releaseCredits(user, requestId, "upstream_error");
+              res.write(`data: [DONE]\n\n`);
+              return res.end();
+          }
+          servedBy = routed.provider;
+          console.log(`4b. Step ${step} served by provider: ${routed.provider} (${routed.model})`);
+
+          // ═══════════════════════════════════════════════════════════════════════
+          // USAGE TRACKING - Capture tokens from the provider's final chunk
+          // ═══════════════════════════════════════════════════════════════════════
+          let usageData: { prompt_tokens: number; completion_tokens: number; total_tokens: number } | null = null;
+          const pendingCalls: Record<number, { id: string; name: string; arguments: string }> = {};
+          let finishReason: string | null = null;
+          let stepContent = "";
+
+          for await (const parsed of routed.chunks) {
+              try {
+                  // Log first 10 chunks with more detail for debugging
+                  if (chunkCount < 10) {
+                      console.log(`[Stream Chunk ${chunkCount}]`, JSON.stringify(parsed).substring(0, 400) + "...");
+                      chunkCount++;
+                  }
 
-                      // Log any chunk that has unusual fields (not just standard delta content)
-                      const hasUnusualFields = Object.keys(parsed).some(k =>
-                          !['id', 'provider', 'model', 'object', 'created', 'choices'].includes(k)
-                      ) || (parsed.choices?.[0]?.delta && Object.keys(parsed.choices[0].delta).some(k =>
-                          !['role', 'content'].includes(k)
-                      ));
+                  // Log any chunk that has unusual fields (not just standard delta content)
+                  const hasUnusualFields = Object.keys(parsed).some(k =>
+                      !['id', 'provider', 'model', 'object', 'created', 'choices'].includes(k)
+                  ) || (parsed.choices?.[0]?.delta && Object.keys(parsed.choices[0].delta).some(k =>
+                      !['role', 'content'].includes(k)
+                  ));
 
-                      if (hasUnusualFields && chunkCount >= 10) {
-                          console.log(`[Stream Unusual Chunk]`, JSON.stringify(parsed, null, 2));
-                      }
+                  if (hasUnusualFields && chunkCount >= 10) {
+                      console.log(`[Stream Unusual Chunk]`, JSON.stringify(parsed, null, 2));
+                  }
 
-                      // Capture web search sources/citations from multiple possible locations
-                      // 1. OpenRouter/OpenAI annotations format (most common with web plugin)
-                      const deltaAnnotations = parsed.choices?.[0]?.delta?.annotations;
-                      if (Array.isArray(deltaAnnotations) && deltaAnnotations.length > 0) {
-                          const extractedUrls = deltaAnnotations
-                              .filter((ann: any) => ann.type === 'url_citation' && ann.url_citation?.url)
-                              .map((ann: any) => ann.url_citation.url);
-
-                          if (extractedUrls.length > 0) {
-                              // Avoid duplicates
-                              const newUrls = extractedUrls.filter((url: string) => !fullSources.includes(url));
-                              if (newUrls.length > 0) {
-                                  console.log("[Stream Debug] Found citations in delta.annotations:", newUrls);
-                                  fullSources = [...fullSources, ...newUrls];
-                                  res.write(`data: ${JSON.stringify({ sources: newUrls })}\n\n`);
-                              }
+                  // Capture web search sources/citations from multiple possible locations
+                  // 1. OpenRouter/OpenAI annotations format (most common with web plugin)
+                  const deltaAnnotations = parsed.choices?.[0]?.delta?.annotations;
+                  if (Array.isArray(deltaAnnotations) && deltaAnnotations.length > 0) {
+                      const extractedUrls = deltaAnnotations
+                          .filter((ann: any) => ann.type === 'url_citation' && ann.url_citation?.url)
+                          .map((ann: any) => ann.url_citation.url);
+
+                      if (extractedUrls.length > 0) {
+                          // Avoid duplicates
+                          const newUrls = extractedUrls.filter((url: string) => !fullSources.includes(url));
+                          if (newUrls.length > 0) {
+                              console.log("[Stream Debug] Found citations in delta.annotations:", newUrls);
+                              fullSources = [...fullSources, ...newUrls];
+                              res.write(`data: ${JSON.stringify({ sources: newUrls })}\n\n`);
                           }
                       }
+                  }
 
-                      // 2. Legacy/alternative formats (Perplexity, other providers)
-                      const hasCitations = parsed.citations;
-                      const hasSources = parsed.sources;
-                      const hasWebResults = parsed.web_search_results;
-                      const hasToolCalls = parsed.choices?.[0]?.delta?.tool_calls;
-                      const hasWebSearch = parsed.web_search || parsed.webSearch;
-
-                      if (hasCitations || hasSources || hasWebResults || hasToolCalls || hasWebSearch) {
-                          console.log("[Stream Debug] Found Legacy Web Data Keys:", Object.keys(parsed));
-
-                          const sourcesData = hasCitations || hasSources || hasWebResults;
-                          if (Array.isArray(sourcesData)) {
-                              const extractedUrls = sourcesData.map((s: any) => {
-                                  if (typeof s === 'string') return s;
-                                  return s.url || s.link || s.href || s.source || '';
-                              }).filter((url: string) => url);
-
-                              // Avoid duplicates
-                              const newUrls = extractedUrls.filter((url: string) => !fullSources.includes(url));
-                              if (newUrls.length > 0) {
-                                  fullSources = [...fullSources, ...newUrls];
-                                  console.log("[Stream Debug] Extracted Legacy URLs:", newUrls);
-                                  res.write(`data: ${JSON.stringify({ sources: newUrls })}\n\n`);
-                              }
+                  // 2. Legacy/alternative formats (Perplexity, other providers)
+                  const hasCitations = parsed.citations;
+                  const hasSources = parsed.sources;
+                  const hasWebResults = parsed.web_search_results;
+                  const hasToolCalls = parsed.choices?.[0]?.delta?.tool_calls;
+                  const hasWebSearch = parsed.web_search || parsed.webSearch;
+
+                  if (hasCitations || hasSources || hasWebResults || hasToolCalls || hasWebSearch) {
+                      console.log("[Stream Debug] Found Legacy Web Data Keys:", Object.keys(parsed));
+
+                      const sourcesData = hasCitations || hasSources || hasWebResults;
+                      if (Array.isArray(sourcesData)) {
+                          const extractedUrls = sourcesData.map((s: any) => {
+                              if (typeof s === 'string') return s;
+                              return s.url || s.link || s.href || s.source || '';
+                          }).filter((url: string) => url);
+
+                          // Avoid duplicates
+                          const newUrls = extractedUrls.filter((url: string) => !fullSources.includes(url));
+                          if (newUrls.length > 0) {
+                              fullSources = [...fullSources, ...newUrls];
+                              console.log("[Stream Debug] Extracted Legacy URLs:", newUrls);
+                              res.write(`data: ${JSON.stringify({ sources: newUrls })}\n\n`);
                           }
                       }
+                  }
 
-                      // Capture usage data from OpenRouter
-                      // OpenRouter sends usage in the response body or final chunks
-                      if (parsed.usage) {
-                          usageData = {
-                              prompt_tokens: parsed.usage.prompt_tokens || 0,
-                              completion_tokens: parsed.usage.completion_tokens || 0,
-                              total_tokens: parsed.usage.total_tokens || 0
-                          };
-                          console.log("[Billing] Captured usage data:", usageData);
+                  // Capture usage data from OpenRouter
+                  // OpenRouter sends usage in the response body or final chunks
+                  if (parsed.usage) {
+                      usageData = {
+                          prompt_tokens: parsed.usage.prompt_tokens || 0,
+                          completion_tokens: parsed.usage.completion_tokens || 0,
+                          total_tokens: parsed.usage.total_tokens || 0
+                      };
+                      console.log("[Billing] Captured usage data:", usageData);
+                  }
+
+                  const delta = parsed.choices?.[0]?.delta || {};
+                  if (parsed.choices?.[0]?.finish_reason) finishReason = parsed.choices[0].finish_reason;
+
+                  // Accumulate streamed function calls (arguments arrive in fragments)
+                  if (Array.isArray(delta.tool_calls)) {
+                      for (const fragment of delta.tool_calls) {
+                          const index = fragment.index ?? 0;
+                          const call = pendingCalls[index] || (pendingCalls[index] = { id: "", name: "", arguments: "" });
+                          if (fragment.id) call.id = fragment.id;
+                          if (fragment.function?.name) call.name += fragment.function.name;
+                          if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
                       }
+                  }
 
-                      const delta = parsed.choices?.[0]?.delta || {};
+                  // Handle reasoning from multiple sources:
+                  // 1. delta.reasoning (OpenRouter native)
+                  // 2. delta.reasoning_content (some providers)
+                  // 3. <think> tags in content (DeepSeek, etc.)
+                  if (delta.reasoning) {
+                      fullReasoning += delta.reasoning;
+                      // Forward reasoning to frontend
+                      res.write(`data: ${JSON.stringify({ reasoning: delta.reasoning })}\n\n`);
+                  }
+                  if (delta.reasoning_content) {
+                      fullReasoning += delta.reasoning_content;
+                      res.write(`data: ${JSON.stringify({ reasoning: delta.reasoning_content })}\n\n`);
+                  }
 
-                      // Handle reasoning from multiple sources:
-                      // 1. delta.reasoning (OpenRouter native)
-                      // 2. delta.reasoning_content (some providers)
-                      // 3. <think> tags in content (DeepSeek, etc.)
-                      if (delta.reasoning) {
-                          fullReasoning += delta.reasoning;
-                          // Forward reasoning to frontend
-                          res.write(`data: ${JSON.stringify({ reasoning: delta.reasoning })}\n\n`);
+                  // Handle image generation outputs from multiple formats:
+                  // 1. Gemini models: delta.images array
+                  // 2. OpenAI/GPT-4o: delta.image_url or message.content array
+                  // 3. Content array with image_url parts
+
+                  // Check Gemini format: delta.images array
+                  const deltaImages = delta.images;
+                  if (Array.isArray(deltaImages) && deltaImages.length > 0) {
+                      for (const img of deltaImages) {
+                          const imageUrl = img.image_url?.url || img.url;
+                          if (imageUrl) {
+                              console.log("[Stream Debug] Gemini image found:", imageUrl.substring(0, 100) + "...");
+                              // Upload base64 images to DO Spaces
+                              if (imageUrl.startsWith('data:')) {
+                                  const publicUrl = await uploadBase64ImageToSpaces(imageUrl);
+                                  if (publicUrl) {
+                                      generatedImages.push(publicUrl);
+                                      res.write(`data: ${JSON.stringify({ generatedImage: publicUrl })}\n\n`);
+                                  }
+                              } else {
+                                  generatedImages.push(imageUrl);
+                                  res.write(`data: ${JSON.stringify({ generatedImage: imageUrl })}\n\n`);
+                              }
+                          }
                       }
-                      if (delta.reasoning_content) {
-                          fullReasoning += delta.reasoning_content;
-                          res.write(`data: ${JSON.stringify({ reasoning: delta.reasoning_content })}\n\n`);
+                  }
+
+                  // Check OpenAI/other format: delta.image_url directly
+                  const deltaImage = delta.image_url?.url ||
+                                     parsed.choices?.[0]?.message?.content?.[0]?.image_url?.url;
+                  if (deltaImage && !generatedImages.includes(deltaImage)) {
+                      console.log("[Stream Debug] Direct image_url found:", deltaImage.substring(0, 100) + "...");
+                      // Upload base64 images to DO Spaces
+                      if (deltaImage.startsWith('data:')) {
+                          const publicUrl = await uploadBase64ImageToSpaces(deltaImage);
+                          if (publicUrl) {
+                              generatedImages.push(publicUrl);
+                              res.write(`data: ${JSON.stringify({ generatedImage: publicUrl })}\n\n`);
+                          }
+                      } else {
+                          generatedImages.push(deltaImage);
+                          res.write(`data: ${JSON.stringify({ generatedImage: deltaImage })}\n\n`);
                       }
+                  }
 
-                      // Handle image generation outputs from multiple formats:
-                      // 1. Gemini models: delta.images array
-                      // 2. OpenAI/GPT-4o: delta.image_url or message.content array
-                      // 3. Content array with image_url parts
-
-                      // Check Gemini format: delta.images array
-                      const deltaImages = delta.images;
-                      if (Array.isArray(deltaImages) && deltaImages.length > 0) {
-                          for (const img of deltaImages) {
-                              const imageUrl = img.image_url?.url || img.url;
-                              if (imageUrl) {
-                                  console.log("[Stream Debug] Gemini image found:", imageUrl.substring(0, 100) + "...");
+                  // Check content array format (some providers)
+                  const contentParts = delta.content;
+                  if (Array.isArray(contentParts)) {
+                      for (const part of contentParts) {
+                          if (part.type === 'image_url' && part.image_url?.url) {
+                              const imgUrl = part.image_url.url;
+                              if (!generatedImages.includes(imgUrl)) {
+                                  console.log("[Stream Debug] Image in content array:", imgUrl.substring(0, 50) + "...");
                                   // Upload base64 images to DO Spaces
-                                  if (imageUrl.startsWith('data:')) {
-                                      const publicUrl = await uploadBase64ImageToSpaces(imageUrl);
+                                  if (imgUrl.startsWith('data:')) {
+                                      const publicUrl = await uploadBase64ImageToSpaces(imgUrl);
                                       if (publicUrl) {
                                           generatedImages.push(publicUrl);
                                           res.write(`data: ${JSON.stringify({ generatedImage: publicUrl })}\n\n`);
                                       }
                                   } else {
-                                      generatedImages.push(imageUrl);
-                                      res.write(`data: ${JSON.stringify({ generatedImage: imageUrl })}\n\n`);
+                                      generatedImages.push(imgUrl);
+                                      res.write(`data: ${JSON.stringify({ generatedImage: imgUrl })}\n\n`);
                                   }
                               }
                           }
                       }
+                  }
 
-                      // Check OpenAI/other format: delta.image_url directly
-                      const deltaImage = delta.image_url?.url ||
-                                         parsed.choices?.[0]?.message?.content?.[0]?.image_url?.url;
-                      if (deltaImage && !generatedImages.includes(deltaImage)) {
-                          console.log("[Stream Debug] Direct image_url found:", deltaImage.substring(0, 100) + "...");
-                          // Upload base64 images to DO Spaces
-                          if (deltaImage.startsWith('data:')) {
-                              const publicUrl = await uploadBase64ImageToSpaces(deltaImage);
-                              if (publicUrl) {
-                                  generatedImages.push(publicUrl);
-                                  res.write(`data: ${JSON.stringify({ generatedImage: publicUrl })}\n\n`);
+                  // Handle content - extract <think> tags if present
+                  if (delta.content && typeof delta.content === 'string') {
+                      let contentToAdd = delta.content;
+
+                      // If content contains think tags, extract reasoning
+                      if (contentToAdd.includes('<think>') || contentToAdd.includes('</think>')) {
+                          // Extract full think blocks if complete
+                          const thinkRegex = /<think>([\s\S]*?)<\/think>/gi;
+                          let match;
+                          while ((match = thinkRegex.exec(contentToAdd)) !== null) {
+                              const extractedReasoning = match[1].trim();
+                              if (extractedReasoning) {
+                                  fullReasoning += extractedReasoning + '\n';
+                                  res.write(`data: ${JSON.stringify({ reasoning: extractedReasoning })}\n\n`);
                               }
-                          } else {
-                              generatedImages.push(deltaImage);
-                              res.write(`data: ${JSON.stringify({ generatedImage: deltaImage })}\n\n`);
                           }
+                          // Remove think blocks from content
+                          contentToAdd = contentToAdd.replace(thinkRegex, '').trim();
+
+                          // Handle partial opening tag at end
+                          contentToAdd = contentToAdd.replace(/<think>[\s\S]*$/gi, '');
+                          // Handle partial closing tag or orphan tags
+                          contentToAdd = contentToAdd.replace(/<\/think>/gi, '');
+                          contentToAdd = contentToAdd.replace(/<think>/gi, '');
                       }
 
-                      // Check content array format (some providers)
-                      const contentParts = delta.content;
-                      if (Array.isArray(contentParts)) {
-                          for (const part of contentParts) {
-                              if (part.type === 'image_url' && part.image_url?.url) {
-                                  const imgUrl = part.image_url.url;
-                                  if (!generatedImages.includes(imgUrl)) {
-                                      console.log("[Stream Debug] Image in content array:", imgUrl.substring(0, 50) + "...");
-                                      // Upload base64 images to DO Spaces
-                                      if (imgUrl.startsWith('data:')) {
-                                          const publicUrl = await uploadBase64ImageToSpaces(imgUrl);
-                                          if (publicUrl) {
-                                              generatedImages.push(publicUrl);
-                                              res.write(`data: ${JSON.stringify({ generatedImage: publicUrl })}\n\n`);
-                                          }
-                                      } else {
-                                          generatedImages.push(imgUrl);
-                                          res.write(`data: ${JSON.stringify({ generatedImage: imgUrl })}\n\n`);
-                                      }
-                                  }
-                              }
-                          }
+                      if (contentToAdd) {
+                          fullResponse += contentToAdd;
+                          stepContent += contentToAdd;
                       }
+                  }
 
-                      // Handle content - extract <think> tags if present
-                      if (delta.content && typeof delta.content === 'string') {
-                          let contentToAdd = delta.content;
-
-                          // If content contains think tags, extract reasoning
-                          if (contentToAdd.includes('<think>') || contentToAdd.includes('</think>')) {
-                              // Extract full think blocks if complete
-                              const thinkRegex = /<think>([\s\S]*?)<\/think>/gi;
-                              let match;
-                              while ((match = thinkRegex.exec(contentToAdd)) !== null) {
-                                  const extractedReasoning = match[1].trim();
-                                  if (extractedReasoning) {
-                                      fullReasoning += extractedReasoning + '\n';
-                                      res.write(`data: ${JSON.stringify({ reasoning: extractedReasoning })}\n\n`);
-                                  }
-                              }
-                              // Remove think blocks from content
-                              contentToAdd = contentToAdd.replace(thinkRegex, '').trim();
-
-                              // Handle partial opening tag at end
-                              contentToAdd = contentToAdd.replace(/<think>[\s\S]*$/gi, '');
-                              // Handle partial closing tag or orphan tags
-                              contentToAdd = contentToAdd.replace(/<\/think>/gi, '');
-                              contentToAdd = contentToAdd.replace(/<think>/gi, '');
-                          }
+                  // Forward the chunk for standard processing
+                  res.write(`data: ${JSON.stringify(parsed)}\n\n`);
+              } catch (e) {
+                  console.error("Error processing stream chunk:", e);
+              }
+          }
 
-                          if (contentToAdd) {
-                              fullResponse += contentToAdd;
-                          }
-                      }
+          // Bill this step - the first settles the request's hold, later ones are charged directly
+          const calls = Object.values(pendingCalls).filter((c) => c.name);
+          const stepRequestId = step === 0 ? requestId : `${requestId}:${step}`;
+          const inputTokens = usageData?.prompt_tokens || countMessageTokens(openRouterMessages);
+          const outputTokens = usageData?.completion_tokens || countTokens(stepContent + calls.map((c) => c.name + c.arguments).join(""));
+          const stepCost = await calculateRequestCost(targetModel, inputTokens, outputTokens);
+          steps.push({ requestId: stepRequestId, inputTokens, outputTokens, baseCostUSD: stepCost.baseCost, costUSD: stepCost.totalCost });
+          await recordUsageInternal(user, guestId, targetModel, inputTokens, outputTokens, stepCost.totalCost, stepRequestId, apiKey?.id)
+            .catch(() => {}); // Errors logged by recordUsageInternal
+
+          if (calls.length === 0) break;
+          console.log(`[Tools] Step ${step}: ${calls.map((c) => c.name).join(", ")} (finish: ${finishReason})`);
+
+          // Client-defined functions can't run here - hand them back and stop
+          const clientCalls = calls.filter((c) => !serverToolNames.includes(c.name));
+          if (clientCalls.length > 0) {
+              res.write(`data: ${JSON.stringify({ clientToolCalls: clientCalls })}\n\n`);
+              toolCalls.push(...clientCalls.map((c) => ({ step, ...c, clientSide: true })));
+              break;
+          }
 
-                      // Write the original line for standard processing
-                      res.write(`${line}\n\n`);
-                  } catch (e) {
-                      console.error("Error parsing stream line to JSON:", e, "Line:", trimmed);
-                  }
+          if (step + 1 >= MAX_TOOL_ITERATIONS) {
+              res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: "\n\n_Stopped: too many tool calls in one reply._" } }] })}\n\n`);
+              break;
+          }
+
+          openRouterMessages.push({
+              role: "assistant",
+              content: stepContent || null,
+              tool_calls: calls.map((c) => ({ id: c.id, type: "function", function: { name: c.name, arguments: c.arguments } }))
+          });
+
+          for (const call of calls) {
+              res.write(`data: ${JSON.stringify({ toolCall: { id: call.id, name: call.name, arguments: call.arguments } })}\n\n`);
+              const output = await executeToolCall(call.name, call.arguments, { user, conversationId: finalConversationId });
+              const cost = output.error ? 0 : serverTools[call.name].costUSD;
+
+              if (cost > 0) {
+                  toolCostUSD += cost;
+                  await recordUsageInternal(user, guestId, `tool-${call.name}`, 0, 0, cost, `${requestId}:tool-${call.id}`, apiKey?.id)
+                    .catch(() => {});
               }
+              if (output.attachmentUrl && output.attachmentType === "image") {
+                  generatedImages.push(output.attachmentUrl);
+                  res.write(`data: ${JSON.stringify({ generatedImage: output.attachmentUrl })}\n\n`);
+              }
+
+              res.write(`data: ${JSON.stringify({ toolResult: { id: call.id, name: call.name, content: output.content.slice(0, 500), error: output.error } })}\n\n`);
+              toolCalls.push({
+                  step,
+                  id: call.id,
+                  name: call.name,
+                  arguments: call.arguments,
+                  result: output.content.slice(0, 2000),
+                  ...(output.error ? { error: output.error } : {}),
+                  costUSD: cost.toFixed(8)
+              });
+              openRouterMessages.push({ role: "tool", tool_call_id: call.id, content: output.content });
+          }
+
+          // The next step is charged without a hold - make sure it is still covered
+          const next = await estimateRequestCost(targetModel, openRouterMessages, req.body?.max_tokens);
+          const nextCheck = await checkUserCredits(user, guestId, next.estimatedCost, targetModel, apiKey);
+          if (!nextCheck.allowed) {
+              res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: "\n\n_Stopped: insufficient credits to continue._" } }] })}\n\n`);
+              break;
           }
       }
 
-      const interactionMetadata: any = {};
+      const interactionMetadata: any = { provider: servedBy };
       if (fullReasoning) interactionMetadata.reasoning = fullReasoning;
       if (fullSources.length > 0) interactionMetadata.sources = fullSources;
       if (generatedImages.length > 0) interactionMetadata.generatedImages = generatedImages;
+      if (toolCalls.length > 0) interactionMetadata.toolCalls = toolCalls;
 
       console.log(`5. Stream Complete for ${targetModel}:`);
       console.log(`   - Response Length: ${fullResponse.length} chars`);
@@ -1098,39 +1754,39 @@ llmRouter.post("/chat/stream", async (req, res) => {
       }
 
       // ═══════════════════════════════════════════════════════════════════════
-      // BILLING - Calculate and record usage after successful stream
+      // BILLING - Totals across steps (each step was settled as it finished)
       // ═══════════════════════════════════════════════════════════════════════
-      const inputTokens = usageData?.prompt_tokens || Math.ceil(lastUserMessage.length / 4); // Estimate if not available
-      const outputTokens = usageData?.completion_tokens || Math.ceil(fullResponse.length / 4);
+      const inputTokens = steps.reduce((sum, s) => sum + s.inputTokens, 0);
+      const outputTokens = steps.reduce((sum, s) => sum + s.outputTokens, 0);
+      const baseCost = steps.reduce((sum, s) => sum + s.baseCostUSD, 0);
+      const totalCost = steps.reduce((sum, s) => sum + s.costUSD, 0) + toolCostUSD;
 
-      console.log(`[Billing] Tokens - Input: ${inputTokens}, Output: ${outputTokens}`);
-
-      // Calculate cost using public pricing (includes 70% platform margin)
-      const costData = await calculateRequestCost(targetModel, inputTokens, outputTokens);
-      console.log(`[Billing] Cost - Base: $${costData.baseCost.toFixed(6)}, Margin: $${costData.platformMargin.toFixed(6)}, Total: $${costData.totalCost.toFixed(6)}`);
+      console.log(`[Billing] Tokens - Input: ${inputTokens}, Output: ${outputTokens} (${steps.length} step(s))`);
+      console.log(`[Billing] Cost - Base: $${baseCost.toFixed(6)}, Tools: $${toolCostUSD.toFixed(6)}, Total: $${totalCost.toFixed(6)}`);
 
       // Add cost info to metadata
       interactionMetadata.billing = {
         inputTokens,
         outputTokens,
-        baseCostUSD: costData.baseCost.toFixed(8),
-        platformMarginUSD: costData.platformMargin.toFixed(8),
-        totalCostUSD: costData.totalCost.toFixed(8),
-        requestId
+        baseCostUSD: baseCost.toFixed(8),
+        platformMarginUSD: Math.max(totalCost - toolCostUSD - baseCost, 0).toFixed(8),
+        ...(toolCostUSD > 0 ? { toolCostUSD: toolCostUSD.toFixed(8) } : {}),
+        totalCostUSD: totalCost.toFixed(8),
+        requestId,
+        ...(steps.length > 1 ? {
+          steps: steps.map((s) => ({ requestId: s.requestId, inputTokens: s.inputTokens, outputTokens: s.outputTokens, costUSD: s.costUSD.toFixed(8) }))
+        } : {})
       };
 
-      await saveInteraction(user, finalConversationId, lastUserMessage, fullResponse, targetModel, undefined, interactionMetadata);
-
-      // Record usage for billing (async, don't block response)
-      recordUsageInternal(user, guestId, targetModel, inputTokens, outputTokens, costData.totalCost, requestId)
-        .catch(() => {}); // Billing errors silenced
+      const saved = await saveInteraction(user, finalConversationId, lastUserMessage, fullResponse, targetModel, undefined, interactionMetadata, branch);
+      writeMessageIds(res, saved);
 
       // Send cost info to frontend
       res.write(`data: ${JSON.stringify({
         billing: {
           inputTokens,
           outputTokens,
-          costUSD: costData.totalCost.toFixed(6),
+          costUSD: totalCost.toFixed(6),
           requestId
         }
       })}\n\n`);
@@ -1140,7 +1796,99 @@ llmRouter.post("/chat/stream", async (req, res) => {
 
   } catch (e) {
       console.error("Stream crash (Outer catch block):", e);
+      await releaseCredits(user, requestId, "stream_failed");
       res.write(`event: error\ndata: stream_failed: ${(e as Error).message}\n\n`);
       res.end();
   }
+}
+
+llmRouter.post("/chat/stream", requireScope("chat"), handleChatStream);
+
+// ═══════════════════════════════════════════════════════════════════════
+// BRANCHING - edit a user turn or regenerate a reply as a new sibling
+// ═══════════════════════════════════════════════════════════════════════
+
+type BranchNode = { id: number; role: string; content: string; parentId: number | null; siblingIndex: number; modelUsed: string | null };
+
+/**
+ * A message of the caller's plus its conversation's tree, legacy links applied
+ */
+async function loadMessageInTree(user: any, messageId: number) {
+  const message = await prisma.message.findFirst({
+    where: { id: messageId, conversation: { userId: user.id } }
+  });
+  if (!message) return null;
+  const rows: BranchNode[] = await prisma.message.findMany({
+    where: { conversationId: message.conversationId },
+    select: { id: true, role: true, content: true, parentId: true, siblingIndex: true, modelUsed: true }
+  });
+  const nodes = await linkLegacyMessages(rows);
+  return { message: nodes.find((n) => n.id === message.id)!, nodes, conversationId: message.conversationId };
+}
+
+// Chat payload for a branch: decrypted root-to-`leafId` path (empty for null)
+function branchContext(nodes: BranchNode[], leafId: number | null) {
+  if (leafId == null) return [];
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const path: { role: string; content: string }[] = [];
+  for (let node = byId.get(leafId); node; node = node.parentId != null ? byId.get(node.parentId) : undefined) {
+    path.unshift({ role: node.role, content: encryptionService.decrypt(node.content) });
+  }
+  return path;
+}
+
+// Edit-and-resubmit: the edited text becomes a sibling of the user message and is answered
+llmRouter.post("/messages/:id/edit", requireScope("chat"), async (req, res) => {
+  const user = (req as any).user;
+  if (!user) return res.status(401).json({ error: "unauthorized" });
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id)) return res.status(400).json({ error: "invalid_id" });
+  const content = req.body?.content;
+  if (typeof content !== "string" || !content.trim()) return res.status(400).json({ error: "content_required" });
+
+  try {
+    const loaded = await loadMessageInTree(user, id);
+    if (!loaded) return res.status(404).json({ error: "not_found" });
+    if (loaded.message.role !== "user") return res.status(400).json({ error: "not_user_message" });
+
+    req.body = {
+      ...req.body,
+      messages: [...branchContext(loaded.nodes, loaded.message.parentId), { role: "user", content }],
+      conversationId: loaded.conversationId
+    };
+    res.locals.branch = { parentId: loaded.message.parentId };
+    return await handleChatStream(req, res);
+  } catch (error) {
+    console.error("Edit message error", error);
+    if (!res.headersSent) res.status(500).json({ error: "edit_failed" });
+  }
+});
+
+// Regenerate: answer the same user message again, optionally with another model
+llmRouter.post("/messages/:id/regenerate", requireScope("chat"), async (req, res) => {
+  const user = (req as any).user;
+  if (!user) return res.status(401).json({ error: "unauthorized" });
+
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id)) return res.status(400).json({ error: "invalid_id" });
+
+  try {
+    const loaded = await loadMessageInTree(user, id);
+    if (!loaded) return res.status(404).json({ error: "not_found" });
+    const { message, nodes, conversationId } = loaded;
+    const userMessage = message.role === "user" ? message : nodes.find((n) => n.id === message.parentId);
+    if (!userMessage || userMessage.role !== "user") return res.status(400).json({ error: "no_user_message" });
+
+    req.body = {
+      ...req.body,
+      messages: branchContext(nodes, userMessage.id),
+      model: req.body?.model || (message.role === "assistant" ? message.modelUsed : undefined),
+      conversationId
+    };
+    res.locals.branch = { parentId: userMessage.parentId, userMessageId: userMessage.id };
+    return await handleChatStream(req, res);
+  } catch (error) {
+    console.error("Regenerate message error", error);
+    if (!res.headersSent) res.status(500).json({ error: "regenerate_failed" });
+  }
 });
@@ -0,0 +1,320 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { v4 as uuidv4 } from "uuid";
+import { prisma } from "../prisma";
+import { checkAuth, requireScope } from "../middleware/auth";
+import { isApiKey } from "../services/apiKeys";
+import { countTokens, countMessageTokens } from "../services/quote";
+import { chatProviders, ProviderError } from "../services/chatProviders";
+import { calculateRequestCost, estimateRequestCost, reserveCredits, releaseCredits, recordUsageInternal } from "./llm";
+
+/**
+ * OpenAI-compatible gateway
+ *
+ * Exposes /v1/chat/completions and /v1/models so existing OpenAI SDK clients
+ * can point their baseURL at ZeroPrompt. Model ids are `Model.openrouterId`
+ * (e.g. "openai/gpt-4o"); billing goes through the same helpers as /llm/chat.
+ */
+
+export const openaiRouter = Router();
+
+// Request fields forwarded to the provider as-is (everything else is ignored)
+const PASSTHROUGH_FIELDS = [
+  "temperature",
+  "top_p",
+  "max_tokens",
+  "max_completion_tokens",
+  "stop",
+  "presence_penalty",
+  "frequency_penalty",
+  "seed",
+  "response_format",
+  "tools",
+  "tool_choice",
+  "user",
+];
+
+/**
+ * OpenAI-style error body: { error: { message, type, code } }
+ */
+function sendError(res: Response, status: number, message: string, type: string, code: string) {
+  return res.status(status).json({ error: { message, type, code } });
+}
+
+/**
+ * OpenAI clients send `Authorization: Bearer <key>`.
+ * API keys (zp_...) are resolved by checkAuth directly; anything else is
+ * mapped onto the session header so wallet session tokens keep working.
+ */
+function bearerToSession(req: Request, _res: Response, next: NextFunction) {
+  const authHeader = req.headers.authorization;
+  const bearer = authHeader?.startsWith("Bearer ") ? authHeader.slice(7).trim() : null;
+  if (bearer && !isApiKey(bearer) && !req.headers["x-session-token"]) {
+    req.headers["x-session-token"] = bearer;
+  }
+  next();
+}
+
+/**
+ * Resolve a client-supplied model name to a Model row.
+ * Accepts the OpenRouter id (canonical) or the display name.
+ */
+async function resolveModel(model: string) {
+  return prisma.model.findFirst({
+    where: {
+      isActive: true,
+      OR: [{ openrouterId: model }, { name: model }],
+    },
+    select: { openrouterId: true, name: true },
+  });
+}
+
+openaiRouter.use(bearerToSession, checkAuth);
+
+// ═══════════════════════════════════════════════════════════════════════
+// GET /v1/models
+// ═══════════════════════════════════════════════════════════════════════
+
+openaiRouter.get("/models", async (_req, res) => {
+  try {
+    const models = await prisma.model.findMany({
+      where: { isActive: true },
+      orderBy: [{ displayPriority: "desc" }, { name: "asc" }],
+      select: { openrouterId: true, createdAt: true, contextLength: true },
+    });
+
+    res.json({
+      object: "list",
+      data: models.map((m: { openrouterId: string; createdAt: Date; contextLength: number | null }) => ({
+        id: m.openrouterId,
+        object: "model",
+        created: Math.floor(m.createdAt.getTime() / 1000),
+        owned_by: m.openrouterId.split("/")[0],
+        context_length: m.contextLength,
+      })),
+    });
+  } catch (error) {
+    console.error("[OpenAI] List models error:", error);
+    sendError(res, 500, "Failed to list models", "server_error", "models_failed");
+  }
+});
+
+openaiRouter.get("/models/:owner/:name", async (req, res) => {
+  const id = `${req.params.owner}/${req.params.name}`;
+  try {
+    const model = await prisma.model.findFirst({
+      where: { openrouterId: id, isActive: true },
+      select: { openrouterId: true, createdAt: true },
+    });
+    if (!model) {
+      return sendError(res, 404, `The model '${id}' does not exist`, "invalid_request_error", "model_not_found");
+    }
+    res.json({
+      id: model.openrouterId,
+      object: "model",
+      created: Math.floor(model.createdAt.getTime() / 1000),
+      owned_by: model.openrouterId.split("/")[0],
+    });
+  } catch (error) {
+    console.error("[OpenAI] Get model error:", error);
+    sendError(res, 500, "Failed to retrieve model", "server_error", "models_failed");
+  }
+});
+
+// ═══════════════════════════════════════════════════════════════════════
+// POST /v1/chat/completions
+// ═══════════════════════════════════════════════════════════════════════
+
+openaiRouter.post("/chat/completions", requireScope("chat"), async (req, res) => {
+  const body = req.body || {};
+  const { messages, model, stream } = body;
+  const user = (req as any).user;
+  const apiKey = (req as any).apiKey || null;
+  const guestId = req.headers["x-guest-id"] as string | null;
+
+  if (!user) {
+    return sendError(res, 401, "Invalid or missing API key", "invalid_request_error", "invalid_api_key");
+  }
+  if (!Array.isArray(messages) || messages.length === 0) {
+    return sendError(res, 400, "'messages' must be a non-empty array", "invalid_request_error", "messages_required");
+  }
+  if (!model || typeof model !== "string") {
+    return sendError(res, 400, "'model' is required", "invalid_request_error", "model_required");
+  }
+
+  const requestId = uuidv4();
+  let targetModel: string;
+  let estimatedCost: number;
+  let creditCheck: Awaited<ReturnType<typeof reserveCredits>>;
+  try {
+    const modelInfo = await resolveModel(model);
+    if (!modelInfo) {
+      return sendError(res, 404, `The model '${model}' does not exist`, "invalid_request_error", "model_not_found");
+    }
+    targetModel = modelInfo.openrouterId;
+    ({ estimatedCost } = await estimateRequestCost(targetModel, messages, body.max_completion_tokens ?? body.max_tokens));
+    creditCheck = await reserveCredits(user, guestId, estimatedCost, requestId, targetModel, apiKey);
+  } catch (error) {
+    console.error("[OpenAI] Credit check failed:", error);
+    return sendError(res, 500, "Failed to check credits", "server_error", "billing_failed");
+  }
+  if (creditCheck.reason === "model_not_allowed") {
+    return sendError(res, 403, `This API key is not allowed to use '${targetModel}'`, "permission_error", "model_not_allowed");
+  }
+  if (creditCheck.reason === "spend_cap_reached") {
+    return sendError(res, 429, "API key spend cap reached", "insufficient_quota", "spend_cap_reached");
+  }
+  if (creditCheck.reason) {
+    return sendError(res, 429, "Guest usage limit reached - connect a wallet to continue", "rate_limit_error", creditCheck.reason);
+  }
+  if (!creditCheck.allowed) {
+    return sendError(
+      res,
+      402,
+      `Insufficient credits: balance $${creditCheck.balance.toFixed(4)}, required $${estimatedCost.toFixed(4)}`,
+      "insufficient_quota",
+      "insufficient_credits"
+    );
+  }
+
+  const completionId = `chatcmpl-${requestId.replace(/-/g, "")}`;
+  const created = Math.floor(Date.now() / 1000);
+
+  const payloadBody: any = { model: targetModel, messages, stream: !!stream };
+  for (const field of PASSTHROUGH_FIELDS) {
+    if (body[field] !== undefined) payloadBody[field] = body[field];
+  }
+  if (stream) {
+    // Ask OpenRouter to append a usage block to the stream (other providers use stream_options)
+    payloadBody.usage = { include: true };
+  }
+
+  // Non-streaming calls resolve fully here; streams resolve once a provider has accepted the request
+  let completion: Awaited<ReturnType<typeof chatProviders.complete>> | null = null;
+  let routedStream: Awaited<ReturnType<typeof chatProviders.stream>> | null = null;
+  try {
+    if (stream) {
+      routedStream = await chatProviders.stream(payloadBody, { title: "ZeroPrompt" });
+    } else {
+      completion = await chatProviders.complete(payloadBody, { title: "ZeroPrompt" });
+    }
+  } catch (error) {
+    if (error instanceof ProviderError) {
+      console.error("[OpenAI] Upstream error:", error.message);
+      await releaseCredits(user, requestId, "upstream_error");
+      return sendError(res, error.status >= 500 ? 502 : error.status, error.message, "upstream_error", "upstream_error");
+    }
+    console.error("[OpenAI] Upstream request failed:", error);
+    await releaseCredits(user, requestId, "upstream_unavailable");
+    return sendError(res, 502, "Upstream provider unavailable", "server_error", "upstream_unavailable");
+  }
+
+  // ─── Non-streaming ───
+  if (completion) {
+    try {
+      const data = completion.data;
+      const reply = data.choices?.[0]?.message?.content || "";
+      const inputTokens = data.usage?.prompt_tokens || countMessageTokens(messages);
+      const outputTokens = data.usage?.completion_tokens || countTokens(typeof reply === "string" ? reply : "");
+      const costData = await calculateRequestCost(targetModel, inputTokens, outputTokens);
+
+      recordUsageInternal(user, guestId, targetModel, inputTokens, outputTokens, costData.totalCost, requestId, apiKey?.id)
+        .catch(() => {}); // Settles the hold; errors logged by recordUsageInternal
+
+      return res.json({
+        id: completionId,
+        object: "chat.completion",
+        created,
+        model: targetModel,
+        choices: (data.choices || []).map((c: any, i: number) => ({
+          index: c.index ?? i,
+          message: {
+            role: c.message?.role || "assistant",
+            content: c.message?.content ?? null,
+            ...(c.message?.tool_calls ? { tool_calls: c.message.tool_calls } : {}),
+          },
+          finish_reason: c.finish_reason ?? "stop",
+        })),
+        usage: {
+          prompt_tokens: inputTokens,
+          completion_tokens: outputTokens,
+          total_tokens: inputTokens + outputTokens,
+        },
+      });
+    } catch (error) {
+      console.error("[OpenAI] Failed to parse upstream response:", error);
+      await releaseCredits(user, requestId, "upstream_invalid");
+      return sendError(res, 502, "Invalid upstream response", "server_error", "upstream_invalid");
+    }
+  }
+
+  // ─── Streaming ───
+  res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache", "Connection": "keep-alive" });
+
+  const writeChunk = (chunk: any) => res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+
+  let fullResponse = "";
+  let usageData: { prompt_tokens: number; completion_tokens: number } | null = null;
+  try {
+    for await (const parsed of routedStream?.chunks ?? []) {
+      if (parsed.usage) {
+        usageData = {
+          prompt_tokens: parsed.usage.prompt_tokens || 0,
+          completion_tokens: parsed.usage.completion_tokens || 0,
+        };
+      }
+
+      const choices = (parsed.choices || []).map((c: any, i: number) => {
+        const delta: any = {};
+        if (c.delta?.role) delta.role = c.delta.role;
+        if (typeof c.delta?.content === "string") {
+          delta.content = c.delta.content;
+          fullResponse += c.delta.content;
+        }
+        if (c.delta?.tool_calls) delta.tool_calls = c.delta.tool_calls;
+        return { index: c.index ?? i, delta, finish_reason: c.finish_reason ?? null };
+      });
+
+      if (choices.length > 0) {
+        writeChunk({ id: completionId, object: "chat.completion.chunk", created, model: targetModel, choices });
+      }
+    }
+
+    const inputTokens = usageData?.prompt_tokens || countMessageTokens(messages);
+    const outputTokens = usageData?.completion_tokens || countTokens(fullResponse);
+    const costData = await calculateRequestCost(targetModel, inputTokens, outputTokens);
+
+    recordUsageInternal(user, guestId, targetModel, inputTokens, outputTokens, costData.totalCost, requestId, apiKey?.id)
+      .catch(() => {}); // Settles the hold; errors logged by recordUsageInternal
+
+    // Final usage chunk (same shape as OpenAI's stream_options.include_usage)
+    writeChunk({
+      id: completionId,
+      object: "chat.completion.chunk",
+      created,
+      model: targetModel,
+      choices: [],
+      usage: {
+        prompt_tokens: inputTokens,
+        completion_tokens: outputTokens,
+        total_tokens: inputTokens + outputTokens,
+      },
+    });
+    res.write(`data: [DONE]\n\n`);
+    res.end();
+  } catch (error) {
+    console.error("[OpenAI] Stream error:", error);
+    // Bill what was already delivered; nothing streamed means nothing to charge
+    if (fullResponse || usageData) {
+      const inputTokens = usageData?.prompt_tokens || countMessageTokens(messages);
+      const outputTokens = usageData?.completion_tokens || countTokens(fullResponse);
+      calculateRequestCost(targetModel, inputTokens, outputTokens)
+        .then((costData) => recordUsageInternal(user, guestId, targetModel, inputTokens, outputTokens, costData.totalCost, requestId, apiKey?.id))
+        .catch(() => {}); // Settles the hold; errors logged by recordUsageInternal
+    } else {
+      await releaseCredits(user, requestId, "stream_failed");
+    }
+    writeChunk({ error: { message: (error as Error).message, type: "server_error", code: "stream_failed" } });
+    res.write(`data: [DONE]\n\n`);
+    res.end();
+  }
+});
@@ -1,8 +1,13 @@
-import { Router } from "express";
+import { Request, Response, Router } from "express";
+import { ethers } from "ethers";
 import { prisma } from "../prisma";
-import { checkAuth } from "../middleware/auth";
+import { checkAuth, rejectApiKey } from "../middleware/auth";
 import { ollamaService } from "../services/ollama";
 import { subnetNodeService } from "../services/subnetNodes";
+import { getUptimeHistory } from "../services/uptime";
+import { rewardIndexer } from "../services/rewardIndexer";
+import { listPrices, removePrice, setPrice, SubnetPricingError } from "../services/subnetPricing";
+import { listOperatorActions, OperatorActionError, OperatorActionType, performOperatorAction } from "../services/operatorActions";
 
 export const operatorRouter = Router();
 
@@ -25,6 +30,13 @@ operatorRouter.get("/", async (_req, res) => {
         address: op.operatorAddress || "",
         endpoint: op.endpoint,
         supportedModels: op.supportedModels,
+        models: node?.models ?? op.modelDescriptors ?? [],
+        encryptionKey: op.encryptionKey ?? null,
+        encryptedInference: !!op.encryptionKey,
+        draining: op.draining,
+        maintenance: op.maintenanceStartsAt
+          ? { startsAt: op.maintenanceStartsAt, endsAt: op.maintenanceEndsAt, reason: op.maintenanceReason }
+          : null,
         stakeAmount: op.stakeAmount,
         performanceScore: op.performanceScore,
         isActive: op.isActive,
@@ -38,6 +50,7 @@ operatorRouter.get("/", async (_req, res) => {
       operators,
       total: operators.length,
       healthy: operators.filter((o) => o.isHealthy).length,
+      encrypted: ollamaService.getHealthyNodes().filter((n) => ollamaService.supportsEncryption(n)).length,
     });
   } catch (error) {
     console.error("Failed to fetch operators:", error);
@@ -47,18 +60,20 @@ operatorRouter.get("/", async (_req, res) => {
 
 /**
  * GET /operators/models
- * Get all models available across the decentralized network
+ * Get all models available across the decentralized network, each with the exact
+ * variants (tag + digest) nodes serve. A variant id can be sent as the model to pin it.
  */
 operatorRouter.get("/models", async (_req, res) => {
   try {
     const models = ollamaService.getAvailableModels();
+    const variants = ollamaService.getModelVariants();
 
     // Get node count per model
-    const modelStats: { [key: string]: { nodeCount: number; avgLatency: number } } = {};
+    const modelStats: { [key: string]: { nodeCount: number; encryptedNodeCount: number; avgLatency: number } } = {};
 
     for (const model of models) {
       const nodes = ollamaService.getHealthyNodes().filter((n) =>
-        n.supportedModels.includes(model)
+        ollamaService.servesModel(n, model)
       );
       const avgLatency =
         nodes.length > 0
@@ -67,6 +82,7 @@ operatorRouter.get("/models", async (_req, res) => {
 
       modelStats[model] = {
         nodeCount: nodes.length,
+        encryptedNodeCount: nodes.filter((n) => ollamaService.supportsEncryption(n)).length,
         avgLatency: Math.round(avgLatency),
       };
     }
@@ -76,10 +92,13 @@ operatorRouter.get("/models", async (_req, res) => {
         id: m,
         name: m,
         nodeCount: modelStats[m]?.nodeCount ?? 0,
+        encryptedNodeCount: modelStats[m]?.encryptedNodeCount ?? 0,
         avgLatencyMs: modelStats[m]?.avgLatency ?? 0,
         available: (modelStats[m]?.nodeCount ?? 0) > 0,
+        variants: variants.filter((v) => v.family === m),
       })),
       totalModels: models.length,
+      totalVariants: variants.length,
     });
   } catch (error) {
     console.error("Failed to fetch ollama models:", error);
@@ -112,6 +131,21 @@ operatorRouter.get("/health", async (_req, res) => {
   }
 });
 
+/**
+ * GET /operators/pricing
+ * Token prices of decentralized models (USD per 1M tokens): network prices
+ * and operators' own prices, optionally for one model
+ */
+operatorRouter.get("/pricing", async (req, res) => {
+  try {
+    const prices = await listPrices({ model: req.query.model as string | undefined });
+    res.json({ prices });
+  } catch (error) {
+    console.error("Failed to fetch subnet pricing:", error);
+    res.status(500).json({ error: "failed_to_fetch_pricing" });
+  }
+});
+
 /**
  * GET /operators/:address
  * Get details for a specific operator by address
@@ -201,6 +235,9 @@ operatorRouter.get("/:address/stats", async (req, res) => {
     const epochStats = await subnetNodeService.getCurrentEpochStats(operatorAddress);
     const pendingRewards = await subnetNodeService.getPendingRewards(operatorAddress);
 
+    // Health probe history
+    const uptime = await getUptimeHistory(operatorAddress);
+
     // Calculate success rate
     const successCount24h = await prisma.ollamaRequestLog.count({
       where: {
@@ -228,6 +265,7 @@ operatorRouter.get("/:address/stats", async (req, res) => {
       },
       currentEpoch: epochStats,
       pendingRewards,
+      uptime,
       recentRequests: recentLogs,
     });
   } catch (error) {
@@ -236,31 +274,130 @@ operatorRouter.get("/:address/stats", async (req, res) => {
   }
 });
 
+// ═══════════════════════════════════════════════════════════════════════
+// NODE MANAGEMENT (signed by the operator wallet)
+// ═══════════════════════════════════════════════════════════════════════
+
+// Body: { payload, nonce, issuedAt, signature } - signature over operatorActionMessage(...)
+const operatorAction = (action: OperatorActionType) => async (req: Request, res: Response) => {
+  const operatorAddress = req.params.address;
+
+  try {
+    const node = await performOperatorAction(operatorAddress, action, req.body);
+    res.json({
+      action,
+      operatorAddress,
+      node: node && {
+        endpoint: node.endpoint,
+        supportedModels: node.supportedModels,
+        draining: node.draining ?? false,
+        maintenance: node.maintenance ?? null,
+        acceptingRequests: ollamaService.isAcceptingRequests(node),
+      },
+    });
+  } catch (error) {
+    if (error instanceof OperatorActionError) {
+      return res.status(error.status).json({ error: error.code, message: error.message });
+    }
+    console.error(`Failed to apply ${action} for operator ${operatorAddress}:`, error);
+    res.status(500).json({ error: "operator_action_failed" });
+  }
+};
+
+/**
+ * POST /operators/:address/maintenance
+ * Announce a maintenance window ({ startsAt, endsAt, reason? }) or cancel it ({ cancel: true }).
+ * The node gets no requests and its failed probes don't count against uptime meanwhile.
+ */
+operatorRouter.post("/:address/maintenance", operatorAction("maintenance"));
+
+/**
+ * POST /operators/:address/drain
+ * Stop ({ draining: true }) or resume ({ draining: false }) routing new requests to the node
+ */
+operatorRouter.post("/:address/drain", operatorAction("drain"));
+
+/**
+ * POST /operators/:address/endpoint
+ * Move the node to a new endpoint ({ endpoint }) ahead of the registry update
+ */
+operatorRouter.post("/:address/endpoint", operatorAction("endpoint"));
+
+/**
+ * POST /operators/:address/models
+ * Replace the node's model list ({ models }) ahead of the registry update
+ */
+operatorRouter.post("/:address/models", operatorAction("models"));
+
+/**
+ * GET /operators/:address/actions
+ * Node management actions the operator made, newest first
+ */
+operatorRouter.get("/:address/actions", async (req, res) => {
+  if (!ethers.isAddress(req.params.address)) {
+    return res.status(400).json({ error: "invalid_address" });
+  }
+
+  try {
+    const actions = await listOperatorActions(req.params.address);
+    res.json({ actions });
+  } catch (error) {
+    console.error(`Failed to fetch actions for operator ${req.params.address}:`, error);
+    res.status(500).json({ error: "failed_to_fetch_actions" });
+  }
+});
+
+/**
+ * GET /operators/:address/rewards
+ * Indexed reward history: per-epoch requests, weighted share, reward and claimed status
+ */
+operatorRouter.get("/:address/rewards", async (req, res) => {
+  if (!ethers.isAddress(req.params.address)) {
+    return res.status(400).json({ error: "invalid_address" });
+  }
+
+  try {
+    const history = await rewardIndexer.getRewardHistory(req.params.address);
+    res.json(history);
+  } catch (error) {
+    console.error(`Failed to fetch rewards for operator ${req.params.address}:`, error);
+    res.status(500).json({ error: "failed_to_fetch_rewards" });
+  }
+});
+
 /**
  * POST /operators/claim
- * Claim rewards for an operator (requires wallet auth)
+ * Build the claimMultipleEpochs transaction for the authenticated operator's claimable
+ * epochs ({ epochs? } narrows it). The operator signs and sends it from their wallet.
  */
-operatorRouter.post("/claim", checkAuth, async (req, res) => {
+operatorRouter.post("/claim", checkAuth, rejectApiKey, async (req, res) => {
   const user = (req as any).user;
-  const { epochs } = req.body;
+  const { epochs } = req.body || {};
 
   if (!user?.walletAddress) {
     return res.status(401).json({ error: "wallet_required" });
   }
 
-  if (!Array.isArray(epochs) || epochs.length === 0) {
-    return res.status(400).json({ error: "invalid_request" });
+  if (
+    epochs !== undefined &&
+    (!Array.isArray(epochs) || epochs.length === 0 || !epochs.every((e: unknown) => Number.isInteger(e) && (e as number) > 0))
+  ) {
+    return res.status(400).json({ error: "invalid_request", message: "epochs must be a list of epoch numbers" });
   }
 
   try {
-    // Claims are done via the contract directly using the user's wallet
+    const claim = await rewardIndexer.prepareClaim(user.walletAddress, epochs);
+    if (claim.epochs.length === 0) {
+      return res.status(409).json({ error: "nothing_to_claim", skipped: claim.skipped });
+    }
+
     res.json({
-      message: "claim_via_contract",
       operatorAddress: user.walletAddress,
-      epochs,
+      epochs: claim.epochs,
+      skipped: claim.skipped,
+      reward: claim.reward,
       contractAddress: process.env.SUBNET_REWARDS_ADDRESS,
-      instructions:
-        "Call claimMultipleEpochs(epochs) on the SubnetRewards contract",
+      data: claim.data,
     });
   } catch (error) {
     console.error("Failed to process claim:", error);
@@ -272,7 +409,7 @@ operatorRouter.post("/claim", checkAuth, async (req, res) => {
  * GET /operators/my
  * Get operators owned by the authenticated user
  */
-operatorRouter.get("/my", checkAuth, async (req, res) => {
+operatorRouter.get("/my", checkAuth, rejectApiKey, async (req, res) => {
   const user = (req as any).user;
 
   if (!user?.walletAddress) {
@@ -292,3 +429,55 @@ operatorRouter.get("/my", checkAuth, async (req, res) => {
     res.status(500).json({ error: "failed_to_fetch_operators" });
   }
 });
+
+/**
+ * PUT /operators/pricing
+ * Set the authenticated operator's own price for a network-priced model (capped at the network price)
+ */
+operatorRouter.put("/pricing", checkAuth, rejectApiKey, async (req, res) => {
+  const user = (req as any).user;
+  const { model, promptPricePerMTok, completionPricePerMTok } = req.body || {};
+
+  if (!user?.walletAddress) {
+    return res.status(401).json({ error: "wallet_required" });
+  }
+
+  try {
+    const details = await subnetNodeService.getOperatorDetails(user.walletAddress);
+    if (!details?.isActive) {
+      return res.status(403).json({ error: "not_an_operator" });
+    }
+
+    const price = await setPrice(model, user.walletAddress, promptPricePerMTok, completionPricePerMTok, user.walletAddress);
+    res.json({ price });
+  } catch (error) {
+    if (error instanceof SubnetPricingError) {
+      return res.status(error.status).json({ error: error.code, message: error.message });
+    }
+    console.error("Failed to set operator pricing:", error);
+    res.status(500).json({ error: "failed_to_set_pricing" });
+  }
+});
+
+/**
+ * DELETE /operators/pricing/:model
+ * Drop the authenticated operator's own price (the network price applies again)
+ */
+operatorRouter.delete("/pricing/:model", checkAuth, rejectApiKey, async (req, res) => {
+  const user = (req as any).user;
+
+  if (!user?.walletAddress) {
+    return res.status(401).json({ error: "wallet_required" });
+  }
+
+  try {
+    const removed = await removePrice(req.params.model, user.walletAddress);
+    if (!removed) {
+      return res.status(404).json({ error: "price_not_found" });
+    }
+    res.json({ removed });
+  } catch (error) {
+    console.error("Failed to remove operator pricing:", error);
+    res.status(500).json({ error: "failed_to_remove_pricing" });
+  }
+});
@@ -7,7 +7,7 @@
 
 import { Router, Request, Response } from "express";
 import { prisma } from "../prisma";
-import { checkAuth } from "../middleware/auth";
+import { checkAuth, requireScope } from "../middleware/auth";
 
 const router = Router();
 
@@ -497,7 +497,7 @@ router.get("/top", async (req: Request, res: Response) => {
  * POST /reputation/rate
  * Submit a rating for a model (requires authentication)
  */
-router.post("/rate", checkAuth, async (req: Request, res: Response) => {
+router.post("/rate", checkAuth, requireScope("chat"), async (req: Request, res: Response) => {
   try {
     const user = (req as any).user;
     if (!user || !user.walletAddress) {
@@ -594,7 +594,7 @@ router.post("/rate", checkAuth, async (req: Request, res: Response) => {
  * DELETE /reputation/rate/:modelId
  * Remove user's rating for a model
  */
-router.delete("/rate/:modelId", checkAuth, async (req: Request, res: Response) => {
+router.delete("/rate/:modelId", checkAuth, requireScope("chat"), async (req: Request, res: Response) => {
   try {
     const user = (req as any).user;
     if (!user || !user.walletAddress) {
@@ -627,7 +627,7 @@ router.delete("/rate/:modelId", checkAuth, async (req: Request, res: Response) =
  * GET /reputation/my-ratings
  * Get all ratings by the current user
  */
-router.get("/my-ratings", checkAuth, async (req: Request, res: Response) => {
+router.get("/my-ratings", checkAuth, requireScope("chat"), async (req: Request, res: Response) => {
   try {
     const user = (req as any).user;
     if (!user) {
@@ -672,7 +672,7 @@ router.get("/my-ratings", checkAuth, async (req: Request, res: Response) => {
  * GET /reputation/check/:modelId
  * Check if current user has rated a model
  */
-router.get("/check/:modelId", checkAuth, async (req: Request, res: Response) => {
+router.get("/check/:modelId", checkAuth, requireScope("chat"), async (req: Request, res: Response) => {
   try {
     const user = (req as any).user;
     const modelId = parseInt(req.params.modelId);
@@ -713,7 +713,7 @@ router.get("/check/:modelId", checkAuth, async (req: Request, res: Response) =>
  * Remove all ratings that don't have a transaction hash (not on-chain)
  * This is an admin operation to clean up test data
  */
-router.delete("/cleanup-offchain", checkAuth, async (req: Request, res: Response) => {
+router.delete("/cleanup-offchain", checkAuth, requireScope("chat"), async (req: Request, res: Response) => {
   try {
     const user = (req as any).user;
     if (!user || !user.walletAddress) {
@@ -2,6 +2,7 @@ import { Router } from "express";
 import { randomBytes } from "crypto";
 import { ethers } from "ethers";
 import { prisma } from "../prisma";
+import { migrateGuestCredits } from "../services/guestCredits";
 
 export const walletRouter = Router();
 
@@ -76,7 +77,15 @@ walletRouter.post("/verify", async (req, res) => {
 
   // Migration: If guestId provided, migrate conversations from guest to wallet user
   let migratedConversations = 0;
+  let migratedCreditsUSD = 0;
   if (guestId) {
+    // Carry the remaining free guest balance over to the wallet (once per guest/wallet)
+    try {
+      migratedCreditsUSD = await migrateGuestCredits(guestId, wallet);
+    } catch (err) {
+      console.error("[Wallet] Guest credit migration failed:", err);
+    }
+
     const guestUser = await prisma.user.findUnique({
       where: { guestId },
       include: { conversations: true }
@@ -126,6 +135,7 @@ walletRouter.post("/verify", async (req, res) => {
     sessionExpiresAt,
     wallet: wallet.toLowerCase(),
     migratedConversations,
+    migratedCreditsUSD: migratedCreditsUSD.toFixed(6),
     totalConversations: updatedUser.conversations.length,
     messageCount: updatedUser.messageCount
   });
@@ -0,0 +1,264 @@
+import crypto from "crypto";
+import { prisma } from "../prisma";
+
+/**
+ * ZeroPrompt API Key Service
+ *
+ * Per-user keys for programmatic access (`Authorization: Bearer zp_...` or `x-api-key`).
+ * Only the sha256 hash is stored; the plaintext is returned once at creation.
+ * Each key carries scopes, an optional model allow-list and daily/monthly USD caps,
+ * measured against usage_records rows tagged with the key id plus the key's open credit holds.
+ */
+
+export const API_KEY_PREFIX = "zp_";
+export const API_KEY_SCOPES = ["chat", "images", "agent"] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+const MAX_KEYS_PER_USER = 20;
+
+export interface ApiKeyRecord {
+  id: number;
+  userId: number;
+  name: string;
+  keyPrefix: string;
+  scopes: unknown;
+  allowedModels: unknown;
+  dailySpendCapUSD: unknown;
+  monthlySpendCapUSD: unknown;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface CreateApiKeyInput {
+  name: string;
+  scopes?: string[];
+  allowedModels?: string[] | null;
+  dailySpendCapUSD?: number | null;
+  monthlySpendCapUSD?: number | null;
+}
+
+export interface ApiKeySpend {
+  dailyUSD: number;
+  monthlyUSD: number;
+}
+
+export type ApiKeyLimitReason = "model_not_allowed" | "spend_cap_reached";
+
+export class ApiKeyError extends Error {
+  constructor(public code: string, message?: string) {
+    super(message || code);
+    this.name = "ApiKeyError";
+  }
+}
+
+/**
+ * Does this header value look like a ZeroPrompt API key (vs a session token)?
+ */
+export function isApiKey(value: string | undefined | null): value is string {
+  return !!value && value.startsWith(API_KEY_PREFIX);
+}
+
+function hashKey(rawKey: string): string {
+  return crypto.createHash("sha256").update(rawKey).digest("hex");
+}
+
+function startOfUTCDay(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+function startOfUTCMonth(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+function toCap(value: unknown): number | null {
+  if (value === null || value === undefined) return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+export class ApiKeyService {
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // KEY MANAGEMENT
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Create a key for a user. Returns the plaintext key - it cannot be recovered later.
+   */
+  async createKey(userId: number, input: CreateApiKeyInput): Promise<{ key: string; apiKey: ReturnType<ApiKeyService["serialize"]> }> {
+    const name = (input.name || "").trim().slice(0, 64);
+    if (!name) throw new ApiKeyError("name_required");
+
+    const scopes = input.scopes && input.scopes.length > 0 ? input.scopes : ["chat"];
+    const invalidScope = scopes.find((s) => !API_KEY_SCOPES.includes(s as ApiKeyScope));
+    if (invalidScope) throw new ApiKeyError("invalid_scope", `Unknown scope: ${invalidScope}`);
+
+    for (const cap of [input.dailySpendCapUSD, input.monthlySpendCapUSD]) {
+      if (cap !== null && cap !== undefined && (!Number.isFinite(cap) || cap < 0)) {
+        throw new ApiKeyError("invalid_spend_cap");
+      }
+    }
+
+    const activeCount = await prisma.apiKey.count({ where: { userId, revokedAt: null } });
+    if (activeCount >= MAX_KEYS_PER_USER) throw new ApiKeyError("too_many_keys");
+
+    const rawKey = API_KEY_PREFIX + crypto.randomBytes(24).toString("base64url");
+    const allowedModels = input.allowedModels && input.allowedModels.length > 0 ? input.allowedModels : null;
+
+    const apiKey = await prisma.apiKey.create({
+      data: {
+        userId,
+        name,
+        keyPrefix: rawKey.slice(0, 10),
+        keyHash: hashKey(rawKey),
+        scopes: Array.from(new Set(scopes)),
+        allowedModels: allowedModels ?? undefined,
+        dailySpendCapUSD: input.dailySpendCapUSD ?? null,
+        monthlySpendCapUSD: input.monthlySpendCapUSD ?? null,
+      },
+    });
+
+    console.log(`[ApiKeys] Created key ${apiKey.keyPrefix}... for user ${userId}`);
+    return { key: rawKey, apiKey: this.serialize(apiKey) };
+  }
+
+  async listKeys(userId: number) {
+    const keys = await prisma.apiKey.findMany({
+      where: { userId },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return Promise.all(keys.map(async (k: ApiKeyRecord) => ({
+      ...this.serialize(k),
+      spend: k.revokedAt ? null : await this.getSpend(k.id),
+    })));
+  }
+
+  /**
+   * Revoke a key. Idempotent; returns false if the key does not belong to the user.
+   */
+  async revokeKey(userId: number, id: number): Promise<boolean> {
+    const result = await prisma.apiKey.updateMany({
+      where: { id, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    if (result.count > 0) {
+      console.log(`[ApiKeys] Revoked key ${id} for user ${userId}`);
+      return true;
+    }
+    const existing = await prisma.apiKey.findFirst({ where: { id, userId } });
+    return !!existing;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // AUTHENTICATION & LIMITS
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Resolve a raw key to its (non-revoked) record and owner
+   */
+  async authenticate(rawKey: string) {
+    const apiKey = await prisma.apiKey.findUnique({
+      where: { keyHash: hashKey(rawKey) },
+      include: { user: true },
+    });
+    if (!apiKey || apiKey.revokedAt) return null;
+
+    prisma.apiKey.update({ where: { id: apiKey.id }, data: { lastUsedAt: new Date() } })
+      .catch(() => {}); // Best-effort
+
+    const { user, ...record } = apiKey;
+    return { apiKey: record as ApiKeyRecord, user };
+  }
+
+  hasScope(apiKey: ApiKeyRecord, scope: ApiKeyScope): boolean {
+    return Array.isArray(apiKey.scopes) && apiKey.scopes.includes(scope);
+  }
+
+  isModelAllowed(apiKey: ApiKeyRecord, modelId: string): boolean {
+    if (!Array.isArray(apiKey.allowedModels) || apiKey.allowedModels.length === 0) return true;
+    return apiKey.allowedModels.includes(modelId);
+  }
+
+  async getSpend(apiKeyId: number, now: Date = new Date()): Promise<ApiKeySpend> {
+    const [daily, monthly, held] = await Promise.all([
+      prisma.usage.aggregate({
+        where: { apiKeyId, createdAt: { gte: startOfUTCDay(now) } },
+        _sum: { costUSD: true },
+      }),
+      prisma.usage.aggregate({
+        where: { apiKeyId, createdAt: { gte: startOfUTCMonth(now) } },
+        _sum: { costUSD: true },
+      }),
+      // Requests still in flight: their holds count until settled or released
+      prisma.creditHold.aggregate({
+        where: { apiKeyId, status: "held" },
+        _sum: { amountUSD: true },
+      }),
+    ]);
+    const heldUSD = Number(held._sum.amountUSD || 0);
+    return {
+      dailyUSD: Number(daily._sum.costUSD || 0) + heldUSD,
+      monthlyUSD: Number(monthly._sum.costUSD || 0) + heldUSD,
+    };
+  }
+
+  /**
+   * Would spending `amountUSD` more push the key over its daily or monthly cap?
+   * Pass 0 to check whether a cap is already exhausted.
+   */
+  async isOverSpendCap(apiKey: ApiKeyRecord, amountUSD: number = 0): Promise<boolean> {
+    const dailyCap = toCap(apiKey.dailySpendCapUSD);
+    const monthlyCap = toCap(apiKey.monthlySpendCapUSD);
+    if (dailyCap === null && monthlyCap === null) return false;
+
+    const spend = await this.getSpend(apiKey.id);
+    // With no amount, a cap that has been reached exactly counts as exhausted
+    const exceeds = (spent: number, cap: number | null) =>
+      cap !== null && (amountUSD > 0 ? spent + amountUSD > cap : spent >= cap);
+    return exceeds(spend.dailyUSD, dailyCap) || exceeds(spend.monthlyUSD, monthlyCap);
+  }
+
+  /**
+   * Has the key's spend, open holds included, gone past a cap? Checked once a request's
+   * hold is placed, as concurrent requests can all pass isOverSpendCap before any holds.
+   */
+  async isPastSpendCap(apiKey: ApiKeyRecord): Promise<boolean> {
+    const dailyCap = toCap(apiKey.dailySpendCapUSD);
+    const monthlyCap = toCap(apiKey.monthlySpendCapUSD);
+    if (dailyCap === null && monthlyCap === null) return false;
+
+    const spend = await this.getSpend(apiKey.id);
+    return (dailyCap !== null && spend.dailyUSD > dailyCap) || (monthlyCap !== null && spend.monthlyUSD > monthlyCap);
+  }
+
+  /**
+   * Model allow-list + spend cap check for a single request
+   */
+  async checkLimits(apiKey: ApiKeyRecord, modelId: string | undefined, estimatedCost: number): Promise<ApiKeyLimitReason | null> {
+    if (modelId && !this.isModelAllowed(apiKey, modelId)) return "model_not_allowed";
+    if (await this.isOverSpendCap(apiKey, estimatedCost)) return "spend_cap_reached";
+    return null;
+  }
+
+  /**
+   * Public shape - never includes the hash
+   */
+  serialize(k: ApiKeyRecord) {
+    return {
+      id: k.id,
+      name: k.name,
+      keyPrefix: k.keyPrefix,
+      scopes: Array.isArray(k.scopes) ? k.scopes : [],
+      allowedModels: Array.isArray(k.allowedModels) ? k.allowedModels : null,
+      dailySpendCapUSD: toCap(k.dailySpendCapUSD),
+      monthlySpendCapUSD: toCap(k.monthlySpendCapUSD),
+      lastUsedAt: k.lastUsedAt,
+      revokedAt: k.revokedAt,
+      createdAt: k.createdAt,
+    };
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
@@ -1,11 +1,13 @@
 import { ethers } from "ethers";
 import { prisma } from "../prisma";
 import { vaultService } from "./vault";
+import { ledgerService } from "./ledger";
 
 /**
  * ZeroPrompt Billing Service - Hybrid Billing
  *
- * Balance = Total Deposits (from DB, verified on-chain) - Total Usage (from DB)
+ * Balance = sum of the wallet's spendable account in the double-entry ledger
+ * (deposits + grants - settled usage - open holds). See services/ledger.ts.
  *
  * Deposits are verified instantly via txHash when frontend notifies backend.
  * No polling, no background sync - instant and robust.
@@ -16,6 +18,7 @@ const VAULT_ADDRESS = process.env.VAULT_CONTRACT_ADDRESS || '0x773c9849F15Ac7484
 
 export interface UserAccount {
   creditsUSD: string;
+  heldUSD: string;
   totalDeposited: string;
   totalUsedUSD: string;
   depositCount: number;
@@ -115,17 +118,19 @@ export class BillingService {
 
       console.log(`[Billing] Processing deposit: ${depositEvent.amountFormatted} AVAX = $${amountUSD.toFixed(2)}`);
 
-      // Save to database (normalize wallet address to lowercase for consistent lookups)
-      await prisma.vaultDeposit.create({
-        data: {
-          walletAddress: depositEvent.user.toLowerCase(),
-          amountAVAX: depositEvent.amount,
-          amountUSD: amountUSD,
-          txHash: depositEvent.txHash,
-          depositId: depositEvent.depositId,
-          blockNumber: depositEvent.blockNumber,
-        },
-      });
+      // Save to database and credit the ledger atomically (normalize wallet address to lowercase)
+      await ledgerService.recordDeposit(depositEvent.user, amountUSD, depositEvent.txHash, (tx) =>
+        tx.vaultDeposit.create({
+          data: {
+            walletAddress: depositEvent.user.toLowerCase(),
+            amountAVAX: depositEvent.amount,
+            amountUSD: amountUSD,
+            txHash: depositEvent.txHash,
+            depositId: depositEvent.depositId,
+            blockNumber: depositEvent.blockNumber,
+          },
+        })
+      );
 
       // Get updated balance
       const newBalance = await this.getBalance(depositEvent.user);
@@ -157,14 +162,12 @@ export class BillingService {
   // ═══════════════════════════════════════════════════════════════════════
 
   /**
-   * Get user's current balance in USD
-   * Balance = Total Deposits - Total Usage
+   * Get user's current spendable balance in USD (excludes amounts on hold)
    */
   async getBalance(userAddress: string, _networkId: string = DEFAULT_NETWORK): Promise<string> {
     try {
-      const { totalDepositedUSD, totalUsedUSD } = await this.getUserStats(userAddress);
-      const balance = Math.max(0, totalDepositedUSD - totalUsedUSD);
-      return balance.toFixed(6);
+      const { availableUSD } = await ledgerService.getBalance(userAddress);
+      return Math.max(0, availableUSD).toFixed(6);
     } catch (error) {
       console.error('[Billing] getBalance failed:', error);
       return "0";
@@ -175,10 +178,14 @@ export class BillingService {
    * Get detailed account info
    */
   async getAccount(userAddress: string, _networkId: string = DEFAULT_NETWORK): Promise<UserAccount> {
-    const stats = await this.getUserStats(userAddress);
+    const [stats, balance] = await Promise.all([
+      this.getUserStats(userAddress),
+      ledgerService.getBalance(userAddress)
+    ]);
 
     return {
-      creditsUSD: Math.max(0, stats.totalDepositedUSD - stats.totalUsedUSD).toFixed(6),
+      creditsUSD: Math.max(0, balance.availableUSD).toFixed(6),
+      heldUSD: balance.heldUSD.toFixed(6),
       totalDeposited: stats.totalDepositedNative.toFixed(4),
       totalUsedUSD: stats.totalUsedUSD.toFixed(6),
       depositCount: stats.depositCount,
@@ -265,7 +272,8 @@ export class BillingService {
   // ═══════════════════════════════════════════════════════════════════════
 
   /**
-   * Record API usage in database
+   * Settle API usage against the ledger (captures the request's hold if one was placed)
+   * and write the usage record. Throws on failure so callers can retry.
    */
   async recordUsage(
     userAddress: string,
@@ -274,23 +282,16 @@ export class BillingService {
     inputTokens: number,
     outputTokens: number,
     requestId: string,
-    _networkId: string = DEFAULT_NETWORK
+    _networkId: string = DEFAULT_NETWORK,
+    apiKeyId?: number
   ): Promise<void> {
-    try {
-      await prisma.usage.create({
-        data: {
-          walletAddress: userAddress.toLowerCase(),
-          model,
-          inputTokens,
-          outputTokens,
-          costUSD: parseFloat(amountUSD),
-          requestId
-        }
-      });
-      console.log(`[Billing] Usage recorded: ${userAddress} $${amountUSD} (${model})`);
-    } catch (error) {
-      console.error(`[Billing] Failed to record usage:`, error);
-    }
+    await ledgerService.settle(userAddress, requestId, parseFloat(amountUSD), {
+      model,
+      inputTokens,
+      outputTokens,
+      apiKeyId
+    });
+    console.log(`[Billing] Usage recorded: ${userAddress} $${amountUSD} (${model})`);
   }
 
   // ═══════════════════════════════════════════════════════════════════════
@@ -393,9 +394,22 @@ export class BillingService {
     };
   }
 
+  // ═══════════════════════════════════════════════════════════════════════
+  // REFUNDS & GRANTS (off-chain, via ledger) - return the ledger transaction id
+  // ═══════════════════════════════════════════════════════════════════════
+
+  async refundCredits(user: string, amount: string, reason: string): Promise<string> {
+    return ledgerService.refund(user, parseFloat(amount), reason);
+  }
+
+  async grantFreeCredits(user: string, amount: string): Promise<string> {
+    const wallet = user.toLowerCase();
+    return ledgerService.recordGrant(wallet, parseFloat(amount), "admin_grant", (tx) =>
+      tx.creditGrant.create({ data: { walletAddress: wallet, amountUSD: parseFloat(amount), reason: "admin_grant" } })
+    );
+  }
+
   // Legacy stubs
-  async refundCredits(_user: string, _amount: string, _reason: string) { return "0x0"; }
-  async grantFreeCredits(_user: string, _amount: string) { return "0x0"; }
   async getOwner(_networkId: string) { return "0x0000000000000000000000000000000000000000"; }
   async isOperator(_address: string) { return false; }
   async getContractBalance(_networkId: string) { return "0"; }
@@ -0,0 +1,419 @@
+import crypto from "crypto";
+import { Prisma, SlashProposalStatus } from "@prisma/client";
+import { ethers } from "ethers";
+import { prisma } from "../prisma";
+import { ollamaService, OllamaNode, OllamaOptions } from "./ollama";
+import { subnetNodeService } from "./subnetNodes";
+
+/**
+ * Challenges - checking that operators actually run the models they claim
+ *
+ * Every round each healthy node gets one deterministic probe (fixed seed,
+ * temperature 0) for a random model it advertises:
+ * - known_answer: generated on the spot (random sums, echo codes, capitals), so
+ *   the answer cannot be cached ahead of time
+ * - reference: an open prompt also sent to a trusted reference node
+ *   (CHALLENGE_REFERENCE_ENDPOINT); outputs must be close enough
+ *
+ * Each outcome is stored with evidence signed by the backend key. Failures lower
+ * the node's score in OllamaService (passes slowly restore it) and, past a
+ * threshold, queue a slash proposal. Slashing stays an owner action: admins
+ * review the evidence and the owner wallet signs OperatorRegistry.slashOperator.
+ */
+
+const CHALLENGE_INTERVAL = Number(process.env.CHALLENGE_INTERVAL_MS) || 10 * 60 * 1000;
+const REFERENCE_ENDPOINT = process.env.CHALLENGE_REFERENCE_ENDPOINT || "";
+const SIGNER_KEY = process.env.CHALLENGE_SIGNER_KEY || process.env.PRIVATE_KEY || "";
+
+const MAX_OUTPUT_TOKENS = 64;
+const SIMILARITY_THRESHOLD = 0.6;
+const FAIL_PENALTY = 10;
+const PASS_RECOVERY = 2;
+// Failed challenges within the window that queue a slash proposal
+const SLASH_THRESHOLD = 3;
+const SLASH_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export type ChallengeKind = "known_answer" | "reference";
+export type ChallengeVerdict = "pass" | "fail" | "error" | "inconclusive";
+export { SlashProposalStatus };
+
+export interface Probe {
+  kind: ChallengeKind;
+  prompt: string;
+  seed: number;
+  expected?: string;
+}
+
+export class ChallengeError extends Error {
+  constructor(public code: string, public status: number, message: string) {
+    super(message);
+  }
+}
+
+const CAPITALS: [string, string][] = [
+  ["France", "Paris"],
+  ["Japan", "Tokyo"],
+  ["Italy", "Rome"],
+  ["Egypt", "Cairo"],
+  ["Canada", "Ottawa"],
+  ["Kenya", "Nairobi"],
+  ["Peru", "Lima"],
+  ["Norway", "Oslo"],
+];
+
+const REFERENCE_PROMPTS = [
+  "List the first ten prime numbers separated by commas.",
+  "Name the planets of the solar system in order from the sun, separated by commas.",
+  "Write the days of the week starting from Monday, separated by commas.",
+  "Explain in one sentence what photosynthesis is.",
+  "Translate to Spanish: The cat is sleeping on the red chair.",
+  "Write one sentence describing the ocean at night.",
+];
+
+type RandomInt = (min: number, max: number) => number;
+
+/**
+ * Pick a probe; reference probes only when a reference node is configured
+ */
+export function buildProbe(withReference: boolean, randomInt: RandomInt = crypto.randomInt): Probe {
+  const seed = randomInt(1, 2 ** 31 - 1);
+  const variant = randomInt(0, withReference ? 4 : 3);
+
+  if (variant === 0) {
+    const a = randomInt(10, 100);
+    const b = randomInt(10, 100);
+    return { kind: "known_answer", seed, prompt: `What is ${a} + ${b}? Reply with only the number.`, expected: String(a + b) };
+  }
+  if (variant === 1) {
+    const code = randomInt(0, 0xffffff).toString(16).padStart(6, "0");
+    return { kind: "known_answer", seed, prompt: `Repeat this code exactly and nothing else: ${code}`, expected: code };
+  }
+  if (variant === 2) {
+    const [country, capital] = CAPITALS[randomInt(0, CAPITALS.length)];
+    return { kind: "known_answer", seed, prompt: `What is the capital of ${country}? Reply with one word.`, expected: capital };
+  }
+  return { kind: "reference", seed, prompt: REFERENCE_PROMPTS[randomInt(0, REFERENCE_PROMPTS.length)] };
+}
+
+export function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, " ").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Word-set Jaccard similarity; identical seeds still drift slightly across hardware
+ */
+export function similarity(a: string, b: string): number {
+  const wordsA = new Set(normalize(a).split(" ").filter(Boolean));
+  const wordsB = new Set(normalize(b).split(" ").filter(Boolean));
+  if (wordsA.size === 0 && wordsB.size === 0) return 1;
+  let shared = 0;
+  for (const word of wordsA) if (wordsB.has(word)) shared++;
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+export function judge(probe: Probe, response: string, reference?: string | null): { verdict: ChallengeVerdict; similarity: number | null } {
+  if (probe.kind === "known_answer") {
+    const words = normalize(response).split(" ");
+    return { verdict: words.includes(normalize(probe.expected || "")) ? "pass" : "fail", similarity: null };
+  }
+  if (reference == null) return { verdict: "inconclusive", similarity: null };
+  const score = similarity(response, reference);
+  return { verdict: score >= SIMILARITY_THRESHOLD ? "pass" : "fail", similarity: Math.round(score * 1000) / 1000 };
+}
+
+/**
+ * JSON with sorted keys - the evidence hash must survive a round trip through the database
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value as object)
+      .sort()
+      .filter((key) => (value as any)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as any)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+class ChallengeService {
+  private interval: NodeJS.Timeout | null = null;
+  private signer: ethers.Wallet | null = SIGNER_KEY ? new ethers.Wallet(SIGNER_KEY) : null;
+  private running = false;
+
+  isEnabled(): boolean {
+    return this.signer !== null;
+  }
+
+  start(): void {
+    if (!this.isEnabled() || this.interval) return;
+    this.interval = setInterval(() => {
+      this.runRound().catch((error) => console.error("[Challenges] Round failed:", error));
+    }, CHALLENGE_INTERVAL);
+    console.log(
+      `[Challenges] Started (interval: ${CHALLENGE_INTERVAL / 1000}s, reference: ${REFERENCE_ENDPOINT ? "yes" : "known answers only"})`
+    );
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  /**
+   * Challenge every healthy node once; nodes are probed one at a time.
+   * Draining nodes and nodes in announced maintenance are left alone.
+   */
+  async runRound(): Promise<number> {
+    if (this.running) return 0;
+    this.running = true;
+    let challenged = 0;
+    try {
+      for (const node of ollamaService.getHealthyNodes()) {
+        if (!ollamaService.isAcceptingRequests(node)) continue;
+        try {
+          if (await this.challengeNode(node)) challenged++;
+        } catch (error) {
+          console.error(`[Challenges] Challenge for ${node.address} failed:`, error);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+    return challenged;
+  }
+
+  /**
+   * Send one probe to `node` and record the signed outcome
+   */
+  async challengeNode(node: OllamaNode, model?: string, probe?: Probe) {
+    if (!this.signer) throw new ChallengeError("challenges_disabled", 503, "No challenge signer configured");
+    const names = node.models?.length ? node.models.map((m) => m.name) : node.supportedModels;
+    const target = model || names[crypto.randomInt(0, Math.max(1, names.length))];
+    if (!target) return null;
+
+    probe = probe || buildProbe(!!REFERENCE_ENDPOINT);
+    // Inferred rather than OllamaOptions so it can be stored in the JSON evidence
+    const options = { seed: probe.seed, temperature: 0, num_predict: MAX_OUTPUT_TOKENS };
+    const messages = [{ role: "user" as const, content: probe.prompt }];
+
+    const startTime = Date.now();
+    let response: string | null = null;
+    let failure: string | null = null;
+    try {
+      response = (await ollamaService.chatCompletionSync(node, messages, target, options)).content;
+    } catch (error) {
+      failure = (error as Error).message;
+    }
+    const latencyMs = Date.now() - startTime;
+
+    let expected = probe.expected ?? null;
+    if (probe.kind === "reference" && response !== null) {
+      expected = await this.referenceOutput(target, messages, options);
+    }
+
+    const { verdict, similarity: score } =
+      response === null ? { verdict: "error" as ChallengeVerdict, similarity: null } : judge(probe, response, expected);
+
+    const evidence: Prisma.InputJsonObject = {
+      operator: node.address,
+      endpoint: node.endpoint,
+      model: target,
+      kind: probe.kind,
+      prompt: probe.prompt,
+      options,
+      response,
+      expected,
+      error: failure,
+      verdict,
+      similarity: score,
+      latencyMs,
+      timestamp: new Date().toISOString(),
+    };
+    const evidenceHash = ethers.id(canonicalJson(evidence));
+    const signature = await this.signer.signMessage(ethers.getBytes(evidenceHash));
+
+    const challenge = await prisma.inferenceChallenge.create({
+      data: {
+        operatorAddress: node.address,
+        model: target,
+        kind: probe.kind,
+        prompt: probe.prompt,
+        seed: probe.seed,
+        response,
+        expected,
+        verdict,
+        similarity: score,
+        latencyMs,
+        evidence,
+        evidenceHash,
+        signature,
+        signer: this.signer.address,
+      },
+    });
+
+    // Availability is the uptime prober's job; only answers move the score
+    if (verdict === "fail") {
+      const penalty = ollamaService.adjustScorePenalty(node.address, FAIL_PENALTY);
+      console.warn(`[Challenges] ✗ ${node.address} failed ${probe.kind} challenge on ${target} (penalty ${penalty})`);
+      await this.maybeProposeSlash(node.address);
+    } else if (verdict === "pass") {
+      ollamaService.adjustScorePenalty(node.address, -PASS_RECOVERY);
+    }
+
+    return challenge;
+  }
+
+  private async referenceOutput(model: string, messages: { role: "user"; content: string }[], options: OllamaOptions): Promise<string | null> {
+    const reference: OllamaNode = {
+      address: "reference",
+      endpoint: REFERENCE_ENDPOINT,
+      supportedModels: [model],
+      isHealthy: true,
+      lastHealthCheck: new Date(),
+      latencyMs: 0,
+      performanceScore: 100,
+      stakeWeight: 100,
+    };
+    try {
+      return (await ollamaService.chatCompletionSync(reference, messages, model, options)).content;
+    } catch (error) {
+      console.warn(`[Challenges] Reference node failed for ${model}:`, (error as Error).message);
+      return null;
+    }
+  }
+
+  /**
+   * Queue (or extend) a slash proposal once an operator fails often enough
+   */
+  private async maybeProposeSlash(operatorAddress: string): Promise<void> {
+    const since = new Date(Date.now() - SLASH_WINDOW_MS);
+    // Approved proposals already carry a prepared transaction - leave them alone
+    const open = await prisma.slashProposal.findFirst({
+      where: { operatorAddress, status: { in: ["pending", "approved"] } },
+    });
+    if (open?.status === "approved") return;
+
+    const unassigned = { operatorAddress, verdict: "fail", slashProposalId: null };
+    if (open) {
+      const { count } = await prisma.inferenceChallenge.updateMany({ where: unassigned, data: { slashProposalId: open.id } });
+      if (count > 0) {
+        await prisma.slashProposal.update({
+          where: { id: open.id },
+          data: { failedCount: { increment: count }, totalCount: { increment: count } },
+        });
+      }
+      return;
+    }
+
+    const [failed, total] = await Promise.all([
+      prisma.inferenceChallenge.count({ where: { ...unassigned, createdAt: { gte: since } } }),
+      prisma.inferenceChallenge.count({ where: { operatorAddress, verdict: { in: ["pass", "fail"] }, createdAt: { gte: since } } }),
+    ]);
+    if (failed < SLASH_THRESHOLD) return;
+
+    const proposal = await prisma.slashProposal.create({
+      data: {
+        operatorAddress,
+        reason: `Failed ${failed}/${total} inference challenges in 24h`,
+        failedCount: failed,
+        totalCount: total,
+      },
+    });
+    await prisma.inferenceChallenge.updateMany({ where: unassigned, data: { slashProposalId: proposal.id } });
+    console.warn(`[Challenges] Slash proposal #${proposal.id} queued for ${operatorAddress}`);
+  }
+
+  /**
+   * Whether the stored evidence still matches its hash and the signature
+   */
+  verifyEvidence(challenge: { evidence: unknown; evidenceHash: string; signature: string; signer: string }): boolean {
+    try {
+      if (ethers.id(canonicalJson(challenge.evidence)) !== challenge.evidenceHash) return false;
+      const recovered = ethers.verifyMessage(ethers.getBytes(challenge.evidenceHash), challenge.signature);
+      return recovered.toLowerCase() === challenge.signer.toLowerCase();
+    } catch {
+      return false;
+    }
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // ADMIN REVIEW
+  // ═══════════════════════════════════════════════════════════════════════
+
+  async listProposals(status?: SlashProposalStatus, limit: number = 50) {
+    return prisma.slashProposal.findMany({
+      where: status ? { status } : {},
+      orderBy: { createdAt: "desc" },
+      take: limit,
+    });
+  }
+
+  async getProposal(id: number) {
+    const proposal = await prisma.slashProposal.findUnique({
+      where: { id },
+      include: { challenges: { orderBy: { createdAt: "desc" } } },
+    });
+    if (!proposal) throw new ChallengeError("not_found", 404, "Slash proposal not found");
+    return {
+      ...proposal,
+      challenges: proposal.challenges.map((c: any) => ({ ...c, evidenceValid: this.verifyEvidence(c) })),
+    };
+  }
+
+  async rejectProposal(id: number, reviewer: string, note?: string) {
+    const proposal = await this.requireStatus(id, ["pending", "approved"]);
+    return prisma.slashProposal.update({
+      where: { id: proposal.id },
+      data: { status: "rejected", reviewedBy: reviewer, reviewNote: note || null, reviewedAt: new Date() },
+    });
+  }
+
+  /**
+   * Approve and hand back the slashOperator transaction for the registry owner to sign
+   */
+  async approveProposal(id: number, reviewer: string, note?: string) {
+    const proposal = await this.requireStatus(id, ["pending", "approved"]);
+    const transaction = await subnetNodeService.prepareSlashTransaction(
+      proposal.operatorAddress,
+      `${proposal.reason} [proposal #${proposal.id}]`
+    );
+    const updated = await prisma.slashProposal.update({
+      where: { id: proposal.id },
+      data: { status: "approved", reviewedBy: reviewer, reviewNote: note || proposal.reviewNote, reviewedAt: new Date() },
+    });
+    return { proposal: updated, transaction };
+  }
+
+  async markExecuted(id: number, txHash: string) {
+    const proposal = await this.requireStatus(id, ["approved"]);
+    if (!(await subnetNodeService.verifySlashTransaction(txHash, proposal.operatorAddress))) {
+      throw new ChallengeError("slash_not_found_onchain", 400, "Transaction is pending, failed or did not slash this operator");
+    }
+    return prisma.slashProposal.update({
+      where: { id: proposal.id },
+      data: { status: "executed", txHash },
+    });
+  }
+
+  async listChallenges(operatorAddress?: string, limit: number = 50) {
+    return prisma.inferenceChallenge.findMany({
+      where: operatorAddress ? { operatorAddress } : {},
+      orderBy: { createdAt: "desc" },
+      take: limit,
+    });
+  }
+
+  private async requireStatus(id: number, allowed: SlashProposalStatus[]) {
+    const proposal = await prisma.slashProposal.findUnique({ where: { id } });
+    if (!proposal) throw new ChallengeError("not_found", 404, "Slash proposal not found");
+    if (!allowed.includes(proposal.status)) {
+      throw new ChallengeError("invalid_status", 409, `Proposal is ${proposal.status}`);
+    }
+    return proposal;
+  }
+}
+
+export const challengeService = new ChallengeService();
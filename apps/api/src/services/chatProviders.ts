@@ -0,0 +1,462 @@
+import { prisma } from "../prisma";
+import { ollamaService, OllamaMessage } from "./ollama";
+import { countMessageTokens, countTokens } from "./quote";
+
+/**
+ * Chat Providers - pluggable completion backends with per-model routing and failover
+ *
+ * Every provider speaks the OpenAI chat wire format: payloads are /chat/completions
+ * request bodies, `complete` resolves to a chat.completion body and `stream` yields
+ * chat.completion.chunk objects. Providers with another protocol (Ollama) translate
+ * at the edge, so routes never see which backend served them.
+ *
+ * Routing: Model.routingPolicy lists providers in order of preference. A retryable
+ * failure (5xx, timeout, unreachable) moves on to the next one. Failover only happens
+ * before a stream is handed back - never after the first chunk.
+ *
+ * Config:
+ *   DEFAULT_CHAT_PROVIDERS   comma-separated chain for models without a policy (default "openrouter")
+ *   CHAT_PROVIDERS           extra OpenAI-compatible backends, JSON: [{"id","baseUrl","apiKeyEnv"}]
+ *   CHAT_PROVIDER            force every request onto one provider (e.g. "mock" for offline runs)
+ *   CHAT_PROVIDER_TIMEOUT_MS time to wait for upstream response headers (default 60s)
+ */
+
+export type ChatPayload = { model: string; messages: any[]; [field: string]: unknown };
+
+export interface ProviderCallOptions {
+  title?: string; // X-Title attribution on OpenRouter
+  timeoutMs?: number;
+}
+
+export interface ChatProvider {
+  readonly id: string;
+  complete(payload: ChatPayload, options?: ProviderCallOptions): Promise<any>;
+  /**
+   * Resolves once the upstream has accepted the request; iterate for chunks
+   */
+  stream(payload: ChatPayload, options?: ProviderCallOptions): Promise<AsyncIterable<any>>;
+}
+
+export interface RouteStep {
+  provider: string;
+  model?: string; // upstream model id when the provider names it differently
+}
+
+export interface RoutingPolicy {
+  providers: RouteStep[];
+}
+
+export class ProviderError extends Error {
+  constructor(
+    public provider: string,
+    public status: number,
+    message: string,
+    public retryable: boolean = status >= 500
+  ) {
+    super(`${provider}: ${status} ${message}`);
+    this.name = "ProviderError";
+  }
+}
+
+const POLICY_CACHE_TTL = 60000; // 60 seconds
+
+function timeoutMs(options: ProviderCallOptions): number {
+  return options.timeoutMs || parseInt(process.env.CHAT_PROVIDER_TIMEOUT_MS || "60000", 10);
+}
+
+/**
+ * fetch() that turns timeouts and network failures into retryable ProviderErrors.
+ * The timeout only covers waiting for response headers, not reading a stream.
+ */
+async function fetchUpstream(provider: string, url: string, init: RequestInit, timeout: number): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if ((error as Error).name === "AbortError") {
+      throw new ProviderError(provider, 504, `timed out after ${timeout}ms`);
+    }
+    throw new ProviderError(provider, 502, `unreachable: ${(error as Error).message}`);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Parse an OpenAI-style SSE body into chunk objects
+ */
+async function* parseEventStream(provider: string, response: Response): AsyncGenerator<any> {
+  const reader = response.body?.getReader();
+  if (!reader) return;
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || ""; // Keep the last partial line in the buffer
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith(":")) continue; // Keep-alive comments
+      if (!trimmed.startsWith("data: ") || trimmed === "data: [DONE]") continue;
+
+      let parsed: any;
+      try {
+        parsed = JSON.parse(trimmed.slice(6));
+      } catch (e) {
+        console.error(`[Providers] ${provider}: failed to parse stream line:`, trimmed);
+        continue;
+      }
+      yield parsed;
+    }
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════
+// OPENAI-COMPATIBLE (any /v1 base URL) + OPENROUTER
+// ═══════════════════════════════════════════════════════════════════════
+
+export interface CompatibleProviderConfig {
+  id: string;
+  baseUrl: string;
+  apiKeyEnv?: string; // read per request, so keys can rotate without a restart
+  headers?: Record<string, string>;
+}
+
+// OpenRouter extensions that plain OpenAI-compatible servers reject
+const OPENROUTER_ONLY_FIELDS = ["plugins", "usage", "transforms", "provider", "route", "response_modalities"];
+
+export class OpenAICompatibleProvider implements ChatProvider {
+  constructor(protected config: CompatibleProviderConfig) {}
+
+  get id(): string {
+    return this.config.id;
+  }
+
+  protected buildPayload(payload: ChatPayload, stream: boolean): Record<string, unknown> {
+    const body: Record<string, unknown> = { ...payload, stream };
+    for (const field of OPENROUTER_ONLY_FIELDS) delete body[field];
+    if (stream) body.stream_options = { include_usage: true };
+    return body;
+  }
+
+  protected buildHeaders(_options: ProviderCallOptions): Record<string, string> {
+    const headers: Record<string, string> = { "Content-Type": "application/json", ...this.config.headers };
+    const apiKey = this.config.apiKeyEnv ? process.env[this.config.apiKeyEnv] : undefined;
+    if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+    return headers;
+  }
+
+  private async post(payload: ChatPayload, stream: boolean, options: ProviderCallOptions): Promise<Response> {
+    const response = await fetchUpstream(
+      this.id,
+      `${this.config.baseUrl}/chat/completions`,
+      {
+        method: "POST",
+        headers: this.buildHeaders(options),
+        body: JSON.stringify(this.buildPayload(payload, stream)),
+      },
+      timeoutMs(options)
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new ProviderError(this.id, response.status, errorText || response.statusText);
+    }
+    return response;
+  }
+
+  async complete(payload: ChatPayload, options: ProviderCallOptions = {}): Promise<any> {
+    const response = await this.post(payload, false, options);
+    return response.json();
+  }
+
+  async stream(payload: ChatPayload, options: ProviderCallOptions = {}): Promise<AsyncIterable<any>> {
+    const response = await this.post(payload, true, options);
+    return parseEventStream(this.id, response);
+  }
+}
+
+export class OpenRouterProvider extends OpenAICompatibleProvider {
+  constructor() {
+    super({
+      id: "openrouter",
+      baseUrl: process.env.OPENROUTER_BASE_URL || "https://openrouter.ai/api/v1",
+      apiKeyEnv: "OPENROUTER_API_KEY",
+    });
+  }
+
+  // OpenRouter understands its own extensions - pass the payload through untouched
+  protected buildPayload(payload: ChatPayload, stream: boolean): Record<string, unknown> {
+    return { ...payload, stream };
+  }
+
+  protected buildHeaders(options: ProviderCallOptions): Record<string, string> {
+    if (!process.env.OPENROUTER_API_KEY) {
+      throw new ProviderError(this.id, 503, "Missing OPENROUTER_API_KEY");
+    }
+    return {
+      ...super.buildHeaders(options),
+      "HTTP-Referer": process.env.APP_URL || "https://zeroprompt.app",
+      "X-Title": options.title || "ZeroPrompt",
+    };
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════
+// OLLAMA SUBNET
+// ═══════════════════════════════════════════════════════════════════════
+
+/**
+ * Routes a completion to the best healthy subnet node for the model
+ * (model ids may carry an "ollama/" prefix).
+ */
+export class OllamaProvider implements ChatProvider {
+  readonly id = "ollama";
+
+  async stream(payload: ChatPayload): Promise<AsyncIterable<any>> {
+    const model = payload.model.replace(/^ollama\//, "");
+    const node = ollamaService.selectNode(model);
+    if (!node) {
+      throw new ProviderError(this.id, 503, `no healthy node serves ${model}`);
+    }
+
+    const messages: OllamaMessage[] = payload.messages.map((m: any) => ({
+      role: m.role,
+      content: typeof m.content === "string" ? m.content : JSON.stringify(m.content ?? ""),
+    }));
+
+    // Pull the first chunk so a dead node can still fail over
+    const source = ollamaService.chatCompletion(node, messages, ollamaService.resolveModelName(node, model));
+    const first = await source.next();
+    if (!first.done && first.value.error) {
+      throw new ProviderError(this.id, 502, `${node.address}: ${first.value.error}`);
+    }
+
+    return this.toChunks(first, source, payload.model);
+  }
+
+  async complete(payload: ChatPayload): Promise<any> {
+    const chunks = await this.stream(payload);
+    let content = "";
+    let usage: any;
+    for await (const chunk of chunks) {
+      content += chunk.choices?.[0]?.delta?.content || "";
+      if (chunk.usage) usage = chunk.usage;
+    }
+    return {
+      id: `ollama-${Date.now()}`,
+      object: "chat.completion",
+      model: payload.model,
+      choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+      usage,
+    };
+  }
+
+  private async *toChunks(
+    first: IteratorResult<any>,
+    source: AsyncGenerator<any>,
+    model: string
+  ): AsyncGenerator<any> {
+    const id = `ollama-${Date.now()}`;
+    for (let result = first; !result.done; result = await source.next()) {
+      const chunk = result.value;
+      if (chunk.error) throw new ProviderError(this.id, 502, chunk.error);
+
+      if (chunk.content) {
+        yield { id, model, choices: [{ index: 0, delta: { content: chunk.content }, finish_reason: null }] };
+      }
+      if (chunk.done) {
+        const usage = chunk.evalCount
+          ? {
+              prompt_tokens: chunk.promptEvalCount || 0,
+              completion_tokens: chunk.evalCount,
+              total_tokens: (chunk.promptEvalCount || 0) + chunk.evalCount,
+            }
+          : undefined;
+        yield { id, model, choices: [{ index: 0, delta: {}, finish_reason: "stop" }], ...(usage ? { usage } : {}) };
+      }
+    }
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════
+// MOCK (offline tests / local dev)
+// ═══════════════════════════════════════════════════════════════════════
+
+/**
+ * Deterministic offline provider: replies with the last user message.
+ * Models named "mock/fail-<status>" fail with that status, to exercise failover.
+ */
+export class MockProvider implements ChatProvider {
+  readonly id = "mock";
+
+  private reply(payload: ChatPayload) {
+    const failure = /^mock\/fail-(\d{3})$/.exec(payload.model);
+    if (failure) {
+      throw new ProviderError(this.id, parseInt(failure[1], 10), "simulated failure");
+    }
+
+    const lastUser = [...payload.messages].reverse().find((m: any) => m.role === "user");
+    const content = `[mock] ${typeof lastUser?.content === "string" ? lastUser.content : ""}`.trim();
+    const promptTokens = countMessageTokens(payload.messages);
+    const completionTokens = countTokens(content);
+    return {
+      content,
+      usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens },
+    };
+  }
+
+  async complete(payload: ChatPayload): Promise<any> {
+    const { content, usage } = this.reply(payload);
+    return {
+      id: `mock-${Date.now()}`,
+      object: "chat.completion",
+      model: payload.model,
+      choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+      usage,
+    };
+  }
+
+  async stream(payload: ChatPayload): Promise<AsyncIterable<any>> {
+    const { content, usage } = this.reply(payload);
+    const id = `mock-${Date.now()}`;
+    const model = payload.model;
+    return (async function* () {
+      for (const piece of content.split(/(?<=\s)/)) {
+        yield { id, model, choices: [{ index: 0, delta: { content: piece }, finish_reason: null }] };
+      }
+      yield { id, model, choices: [{ index: 0, delta: {}, finish_reason: "stop" }], usage };
+    })();
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════
+// ROUTER
+// ═══════════════════════════════════════════════════════════════════════
+
+function parsePolicy(value: unknown): RouteStep[] {
+  const steps = (value as RoutingPolicy | null)?.providers;
+  if (!Array.isArray(steps)) return [];
+  return steps.filter((s): s is RouteStep => typeof s?.provider === "string");
+}
+
+export class ChatProviderRouter {
+  private providers = new Map<string, ChatProvider>();
+  private policyCache = new Map<string, { steps: RouteStep[]; timestamp: number }>();
+
+  register(provider: ChatProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  get(id: string): ChatProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  clearPolicyCache(): void {
+    this.policyCache.clear();
+  }
+
+  /**
+   * Provider chain for a model: CHAT_PROVIDER override > Model.routingPolicy > defaults
+   */
+  async resolvePolicy(model: string): Promise<RouteStep[]> {
+    const forced = process.env.CHAT_PROVIDER;
+    if (forced) return [{ provider: forced }];
+
+    const cached = this.policyCache.get(model);
+    if (cached && Date.now() - cached.timestamp < POLICY_CACHE_TTL) {
+      return cached.steps;
+    }
+
+    let steps: RouteStep[] = [];
+    try {
+      const row = await prisma.model.findUnique({ where: { openrouterId: model }, select: { routingPolicy: true } });
+      steps = parsePolicy(row?.routingPolicy);
+    } catch (error) {
+      console.warn(`[Providers] Failed to load routing policy for ${model}:`, (error as Error).message);
+    }
+
+    if (steps.length === 0) {
+      const defaults = model.startsWith("ollama/") ? "ollama" : process.env.DEFAULT_CHAT_PROVIDERS || "openrouter";
+      steps = defaults.split(",").map((id) => ({ provider: id.trim() })).filter((s) => s.provider);
+    }
+
+    this.policyCache.set(model, { steps, timestamp: Date.now() });
+    return steps;
+  }
+
+  async complete(payload: ChatPayload, options: ProviderCallOptions = {}): Promise<{ provider: string; model: string; data: any }> {
+    const { provider, model, result } = await this.route(payload.model, (p, upstreamModel) =>
+      p.complete({ ...payload, model: upstreamModel }, options)
+    );
+    return { provider, model, data: result };
+  }
+
+  async stream(
+    payload: ChatPayload,
+    options: ProviderCallOptions = {}
+  ): Promise<{ provider: string; model: string; chunks: AsyncIterable<any> }> {
+    const { provider, model, result } = await this.route(payload.model, (p, upstreamModel) =>
+      p.stream({ ...payload, model: upstreamModel }, options)
+    );
+    return { provider, model, chunks: result };
+  }
+
+  /**
+   * Try each provider in the model's chain until one accepts the request.
+   * Non-retryable errors (4xx, bad payloads) are thrown straight away.
+   */
+  private async route<T>(
+    model: string,
+    call: (provider: ChatProvider, upstreamModel: string) => Promise<T>
+  ): Promise<{ provider: string; model: string; result: T }> {
+    const steps = await this.resolvePolicy(model);
+    let lastError: unknown = null;
+
+    for (const step of steps) {
+      const provider = this.providers.get(step.provider);
+      if (!provider) {
+        console.warn(`[Providers] Unknown provider "${step.provider}" in policy for ${model}`);
+        continue;
+      }
+
+      const upstreamModel = step.model || model;
+      try {
+        return { provider: provider.id, model: upstreamModel, result: await call(provider, upstreamModel) };
+      } catch (error) {
+        if (!(error instanceof ProviderError) || !error.retryable) throw error;
+        lastError = error;
+        console.warn(`[Providers] ${error.message} - failing over from ${provider.id} for ${model}`);
+      }
+    }
+
+    throw lastError || new ProviderError("router", 503, `no provider available for ${model}`);
+  }
+}
+
+function loadCompatibleProviders(): CompatibleProviderConfig[] {
+  if (!process.env.CHAT_PROVIDERS) return [];
+  try {
+    const configs = JSON.parse(process.env.CHAT_PROVIDERS) as CompatibleProviderConfig[];
+    return configs.filter((c) => c.id && c.baseUrl);
+  } catch (error) {
+    console.error("[Providers] Invalid CHAT_PROVIDERS:", (error as Error).message);
+    return [];
+  }
+}
+
+// Singleton instance
+export const chatProviders = new ChatProviderRouter();
+chatProviders.register(new OpenRouterProvider());
+chatProviders.register(new OllamaProvider());
+chatProviders.register(new MockProvider());
+for (const config of loadCompatibleProviders()) {
+  chatProviders.register(new OpenAICompatibleProvider(config));
+}
@@ -1,61 +1,205 @@
+import { prisma } from "../prisma";
+import { ledgerService } from "./ledger";
+
 /**
  * Guest Credits Tracking Service
  *
- * Manages guest user credit balances in-memory.
- * In production, this should be moved to Redis or database for persistence.
+ * Guest spend is persisted in the guest_credit_entries ledger, keyed by User.guestId,
+ * so balances survive restarts and are shared across API replicas.
+ * Balance = FREE_GUEST_CREDITS + SUM(amountUSD) (usage is negative, resets are positive).
+ *
+ * Abuse limits: a single IP can only burn through a bounded number of guest ids / dollars
+ * per rolling 24h window. The device id is a client-supplied header, so it only narrows the
+ * IP limit (guest ids per device on that IP) and is never a limiting key on its own.
  */
 
 // Free credits for guest users (in USD)
 export const FREE_GUEST_CREDITS = 0.50;
 
-// In-memory cache for guest usage tracking
-// Key: guestId, Value: total USD spent
-const guestUsageCache = new Map<string, number>();
+export const GUEST_LIMITS = {
+  maxGuestsPerIp: parseInt(process.env.GUEST_MAX_PER_IP || "3", 10),
+  maxGuestsPerDevice: parseInt(process.env.GUEST_MAX_PER_DEVICE || "2", 10),
+  ipDailySpendUSD: parseFloat(process.env.GUEST_IP_DAILY_LIMIT_USD || "1.00"),
+  windowMs: 24 * 60 * 60 * 1000,
+};
+
+export type GuestLimitReason = "guest_ip_limit" | "guest_device_limit";
+
+/**
+ * Where a guest request came from (stored on the guest User by checkAuth)
+ */
+export interface GuestOrigin {
+  ipAddress?: string | null;
+  deviceId?: string | null;
+}
+
+export interface GuestBalance {
+  guestId: string;
+  remainingUSD: number;
+  usedUSD: number;
+  lastActivity: Date | null;
+}
+
+async function sumLedger(guestId: string): Promise<number> {
+  const result = await prisma.guestCreditEntry.aggregate({
+    where: { guestId },
+    _sum: { amountUSD: true },
+  });
+  return Number(result._sum.amountUSD || 0);
+}
 
 /**
  * Get remaining credits for a guest user
  */
-export function getGuestCredits(guestId: string | null): number {
+export async function getGuestCredits(guestId: string | null): Promise<number> {
   if (!guestId) return FREE_GUEST_CREDITS;
-  const currentUsage = guestUsageCache.get(guestId) || 0;
-  return Math.max(0, FREE_GUEST_CREDITS - currentUsage);
+  const net = await sumLedger(guestId);
+  return Math.max(0, FREE_GUEST_CREDITS + net);
 }
 
 /**
- * Get total usage for a guest user
+ * Get total usage for a guest user (since their last reset)
  */
-export function getGuestUsage(guestId: string | null): number {
+export async function getGuestUsage(guestId: string | null): Promise<number> {
   if (!guestId) return 0;
-  return guestUsageCache.get(guestId) || 0;
+  return FREE_GUEST_CREDITS - await getGuestCredits(guestId);
 }
 
 /**
  * Record usage for a guest user
  */
-export function recordGuestUsage(guestId: string | null, amountUSD: number): void {
-  if (!guestId) return;
-  const currentUsage = guestUsageCache.get(guestId) || 0;
-  guestUsageCache.set(guestId, currentUsage + amountUSD);
-  console.log(`[GuestCredits] ${guestId}: +$${amountUSD.toFixed(6)} (Total: $${(currentUsage + amountUSD).toFixed(6)}/${FREE_GUEST_CREDITS})`);
+export async function recordGuestUsage(
+  guestId: string | null,
+  amountUSD: number,
+  details: GuestOrigin & { model?: string; requestId?: string } = {}
+): Promise<void> {
+  if (!guestId || amountUSD <= 0) return;
+  await prisma.guestCreditEntry.create({
+    data: {
+      guestId,
+      type: "usage",
+      amountUSD: -amountUSD,
+      model: details.model,
+      requestId: details.requestId,
+      ipAddress: details.ipAddress || null,
+      deviceId: details.deviceId || null,
+    },
+  });
+  console.log(`[GuestCredits] ${guestId}: -$${amountUSD.toFixed(6)} (${details.model || "unknown"})`);
 }
 
 /**
  * Check if guest has enough credits
  */
-export function hasGuestCredits(guestId: string | null, requiredAmount: number): boolean {
-  return getGuestCredits(guestId) >= requiredAmount;
+export async function hasGuestCredits(guestId: string | null, requiredAmount: number): Promise<boolean> {
+  return (await getGuestCredits(guestId)) >= requiredAmount;
+}
+
+/**
+ * Per-IP / per-device-on-IP abuse limits over the rolling window.
+ * A guest that already spent from this IP/device is never locked out by the
+ * distinct-guest count, only new guest ids are.
+ */
+export async function checkGuestLimits(guestId: string | null, origin: GuestOrigin): Promise<GuestLimitReason | null> {
+  const since = new Date(Date.now() - GUEST_LIMITS.windowMs);
+
+  if (origin.ipAddress) {
+    const ipGuests = await prisma.guestCreditEntry.groupBy({
+      by: ["guestId"],
+      where: { ipAddress: origin.ipAddress, type: "usage", createdAt: { gte: since } },
+    });
+    const known = ipGuests.some((g: { guestId: string }) => g.guestId === guestId);
+    if (!known && ipGuests.length >= GUEST_LIMITS.maxGuestsPerIp) return "guest_ip_limit";
+
+    const ipSpend = await prisma.guestCreditEntry.aggregate({
+      where: { ipAddress: origin.ipAddress, type: "usage", createdAt: { gte: since } },
+      _sum: { amountUSD: true },
+    });
+    if (-Number(ipSpend._sum.amountUSD || 0) >= GUEST_LIMITS.ipDailySpendUSD) return "guest_ip_limit";
+  }
+
+  if (origin.ipAddress && origin.deviceId) {
+    const deviceGuests = await prisma.guestCreditEntry.groupBy({
+      by: ["guestId"],
+      where: { ipAddress: origin.ipAddress, deviceId: origin.deviceId, type: "usage", createdAt: { gte: since } },
+    });
+    const known = deviceGuests.some((g: { guestId: string }) => g.guestId === guestId);
+    if (!known && deviceGuests.length >= GUEST_LIMITS.maxGuestsPerDevice) return "guest_device_limit";
+  }
+
+  return null;
+}
+
+/**
+ * Reset guest credits back to FREE_GUEST_CREDITS (admin use)
+ * Written as a compensating ledger entry so history is preserved.
+ */
+export async function resetGuestCredits(guestId: string): Promise<number> {
+  const used = await getGuestUsage(guestId);
+  if (used > 0) {
+    await prisma.guestCreditEntry.create({
+      data: { guestId, type: "reset", amountUSD: used },
+    });
+    console.log(`[GuestCredits] ${guestId}: reset (+$${used.toFixed(6)})`);
+  }
+  return FREE_GUEST_CREDITS;
 }
 
 /**
- * Reset guest credits (for testing or admin use)
+ * Move a guest's remaining balance into a wallet account.
+ * Zeroes the guest ledger and posts a grant to the wallet's credit ledger; each guest id and each wallet
+ * can only take part in one carry-over, enforced by the unique sourceGuestId/migratedTo columns so
+ * concurrent logins cannot both carry a balance over. Returns the amount moved.
  */
-export function resetGuestCredits(guestId: string): void {
-  guestUsageCache.delete(guestId);
+export async function migrateGuestCredits(guestId: string, walletAddress: string): Promise<number> {
+  const wallet = walletAddress.toLowerCase();
+
+  // Only guests that actually exist can carry a balance (guestId comes from the client)
+  const guestUser = await prisma.user.findUnique({ where: { guestId } });
+  if (!guestUser?.isGuest) return 0;
+
+  const remaining = await getGuestCredits(guestId);
+  if (remaining <= 0) return 0;
+
+  try {
+    await ledgerService.recordGrant(wallet, remaining, "guest_migration", async (tx) => {
+      // First, so a second carry-over for this guest or wallet rolls back before touching the ledgers
+      await tx.creditGrant.create({
+        data: { walletAddress: wallet, amountUSD: remaining, reason: "guest_migration", sourceGuestId: guestId, migratedTo: wallet },
+      });
+      await tx.guestCreditEntry.create({
+        data: { guestId, type: "migrated", amountUSD: -remaining },
+      });
+    });
+  } catch (error: any) {
+    if (error?.code === "P2002") return 0;
+    throw error;
+  }
+
+  console.log(`[GuestCredits] ${guestId}: carried $${remaining.toFixed(6)} over to ${wallet}`);
+  return remaining;
 }
 
 /**
- * Get all guest usage data (for admin/debugging)
+ * List guest balances, most recently active first (admin/debugging)
  */
-export function getAllGuestUsage(): Map<string, number> {
-  return new Map(guestUsageCache);
+export async function listGuestBalances(limit: number = 50, offset: number = 0): Promise<GuestBalance[]> {
+  const groups = await prisma.guestCreditEntry.groupBy({
+    by: ["guestId"],
+    _sum: { amountUSD: true },
+    _max: { createdAt: true },
+    orderBy: { _max: { createdAt: "desc" } },
+    take: limit,
+    skip: offset,
+  });
+
+  return groups.map((g: { guestId: string; _sum: { amountUSD: unknown }; _max: { createdAt: Date | null } }) => {
+    const remainingUSD = Math.max(0, FREE_GUEST_CREDITS + Number(g._sum.amountUSD || 0));
+    return {
+      guestId: g.guestId,
+      remainingUSD,
+      usedUSD: FREE_GUEST_CREDITS - remainingUSD,
+      lastActivity: g._max.createdAt,
+    };
+  });
 }
@@ -0,0 +1,410 @@
+import { Prisma } from "@prisma/client";
+import { v4 as uuidv4 } from "uuid";
+import { prisma } from "../prisma";
+
+/**
+ * ZeroPrompt Credit Ledger - double-entry accounting for wallet balances
+ *
+ * Every movement is a transaction whose entries sum to zero:
+ *   deposit: system:deposits -X   user:<wallet> +X
+ *   grant:   system:grants   -X   user:<wallet> +X
+ *   hold:    user:<wallet>   -H   hold:<wallet> +H      (pre-authorize before the upstream call)
+ *   settle:  hold:<wallet>   -H   system:revenue +C   user:<wallet> +(H-C)
+ *            (C above H comes out of user:<wallet>, capped at its balance - it never goes negative)
+ *   release: hold:<wallet>   -H   user:<wallet> +H      (upstream failed / hold expired unserved)
+ *   refund:  system:revenue  -X   user:<wallet> +X
+ *   withdrawal: hold:<wallet> -W  system:withdrawals +W  (vault permit used; W was held when it was issued)
+ *
+ * Writes for a wallet are serialized with a row lock on its User row, so concurrent
+ * streams cannot both spend the same balance. Wallets that predate the ledger get a
+ * one-off "opening" entry computed from vault_deposits + credit_grants - usage_records.
+ */
+
+export type LedgerEntryType = "opening" | "deposit" | "grant" | "hold" | "settle" | "release" | "refund" | "withdrawal";
+
+type Tx = Prisma.TransactionClient;
+
+interface Leg {
+  account: string;
+  amount: number;
+}
+
+export interface UsageDetails {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  apiKeyId?: number | null;
+}
+
+export interface LedgerBalance {
+  availableUSD: number;
+  heldUSD: number;
+}
+
+export const SYSTEM_ACCOUNTS = {
+  deposits: "system:deposits",
+  grants: "system:grants",
+  revenue: "system:revenue",
+  withdrawals: "system:withdrawals",
+};
+
+// Request holds older than this are released automatically on the wallet's next hold.
+// Withdrawal locks never expire here - only the withdrawal service knows if the permit was used.
+export const HOLD_TTL_MS = 15 * 60 * 1000;
+
+export class InsufficientCreditsError extends Error {
+  constructor(public balance: number, public required: number) {
+    super(`Insufficient credits: balance $${balance.toFixed(6)}, required $${required.toFixed(6)}`);
+    this.name = "InsufficientCreditsError";
+  }
+}
+
+const userAccount = (wallet: string) => `user:${wallet}`;
+const holdAccount = (wallet: string) => `hold:${wallet}`;
+
+// Ledger amounts are stored with 8 decimals - round before posting so legs balance exactly
+function round8(value: number): number {
+  return Math.round(value * 1e8) / 1e8;
+}
+
+export class LedgerService {
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // READS
+  // ═══════════════════════════════════════════════════════════════════════
+
+  async getBalance(walletAddress: string): Promise<LedgerBalance> {
+    const wallet = walletAddress.toLowerCase();
+    const hasLedger = await prisma.ledgerEntry.findFirst({ where: { walletAddress: wallet }, select: { id: true } });
+
+    // Not migrated yet - the opening balance is what the legacy tables say
+    if (!hasLedger) {
+      return { availableUSD: await this.legacyBalance(prisma, wallet), heldUSD: 0 };
+    }
+
+    const [available, held] = await Promise.all([
+      this.sumAccount(prisma, userAccount(wallet)),
+      this.sumAccount(prisma, holdAccount(wallet)),
+    ]);
+    return { availableUSD: available, heldUSD: held };
+  }
+
+  /**
+   * Entries on the user's spendable account, newest first
+   */
+  async getEntries(walletAddress: string, options: { limit?: number; before?: number; type?: string } = {}) {
+    const wallet = walletAddress.toLowerCase();
+    const entries = await prisma.ledgerEntry.findMany({
+      where: {
+        account: userAccount(wallet),
+        ...(options.type ? { type: options.type } : {}),
+        ...(options.before ? { id: { lt: options.before } } : {}),
+      },
+      orderBy: { id: "desc" },
+      take: Math.min(options.limit || 50, 200),
+    });
+
+    return entries.map((e: {
+      id: number; transactionId: string; type: string; amountUSD: Prisma.Decimal;
+      requestId: string | null; reference: string | null; metadata: Prisma.JsonValue; createdAt: Date;
+    }) => ({
+      id: e.id,
+      transactionId: e.transactionId,
+      type: e.type as LedgerEntryType,
+      amountUSD: e.amountUSD.toString(),
+      requestId: e.requestId,
+      reference: e.reference,
+      metadata: e.metadata,
+      timestamp: Math.floor(e.createdAt.getTime() / 1000),
+    }));
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // CREDITS IN
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Post a verified vault deposit. `createRecord` runs in the same transaction
+   * (e.g. inserting the VaultDeposit row) so the two can never diverge.
+   */
+  async recordDeposit(walletAddress: string, amountUSD: number, txHash: string, createRecord?: (tx: Tx) => Promise<unknown>) {
+    return this.withAccountLock(walletAddress, async (tx, wallet) => {
+      if (createRecord) await createRecord(tx);
+      return this.post(tx, "deposit", wallet, [
+        { account: SYSTEM_ACCOUNTS.deposits, amount: -amountUSD },
+        { account: userAccount(wallet), amount: amountUSD },
+      ], { reference: txHash });
+    });
+  }
+
+  async recordGrant(walletAddress: string, amountUSD: number, reason: string, createRecord?: (tx: Tx) => Promise<unknown>) {
+    return this.withAccountLock(walletAddress, async (tx, wallet) => {
+      if (createRecord) await createRecord(tx);
+      return this.post(tx, "grant", wallet, [
+        { account: SYSTEM_ACCOUNTS.grants, amount: -amountUSD },
+        { account: userAccount(wallet), amount: amountUSD },
+      ], { reference: reason });
+    });
+  }
+
+  async refund(walletAddress: string, amountUSD: number, reason: string, requestId?: string) {
+    return this.withAccountLock(walletAddress, (tx, wallet) =>
+      this.post(tx, "refund", wallet, [
+        { account: SYSTEM_ACCOUNTS.revenue, amount: -amountUSD },
+        { account: userAccount(wallet), amount: amountUSD },
+      ], { reference: reason, requestId })
+    );
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // HOLDS
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Reserve `amountUSD` for a request. Throws InsufficientCreditsError if the
+   * spendable balance (after releasing expired holds) does not cover it.
+   */
+  async placeHold(walletAddress: string, requestId: string, amountUSD: number, model?: string, apiKeyId?: number | null): Promise<void> {
+    await this.createHold(walletAddress, requestId, amountUSD, "request", new Date(Date.now() + HOLD_TTL_MS), model, apiKeyId);
+  }
+
+  /**
+   * Lock `amountUSD` for a withdrawal permit so it cannot be spent while the
+   * permit is usable. `expiresAt` is the permit deadline (informational only).
+   */
+  async lockWithdrawal(walletAddress: string, withdrawalId: string, amountUSD: number, expiresAt: Date): Promise<void> {
+    await this.createHold(walletAddress, withdrawalId, amountUSD, "withdrawal", expiresAt);
+  }
+
+  /**
+   * The permit was used: the locked amount leaves the system. Idempotent.
+   */
+  async completeWithdrawal(withdrawalId: string, txHash?: string | null): Promise<void> {
+    const hold = await prisma.creditHold.findUnique({ where: { requestId: withdrawalId } });
+    if (!hold || hold.status !== "held") return;
+
+    await this.withAccountLock(hold.walletAddress, async (tx, wallet) => {
+      const current = await tx.creditHold.findUnique({ where: { requestId: withdrawalId } });
+      if (!current || current.status !== "held") return;
+      const amount = Number(current.amountUSD);
+      await this.post(tx, "withdrawal", wallet, [
+        { account: holdAccount(wallet), amount: -amount },
+        { account: SYSTEM_ACCOUNTS.withdrawals, amount },
+      ], { requestId: withdrawalId, reference: txHash || undefined });
+      await tx.creditHold.update({ where: { id: current.id }, data: { status: "settled" } });
+    });
+  }
+
+  /**
+   * Charge the actual cost of a request and write its usage record.
+   * Settles the request's hold if there is one (refunding the unused part),
+   * otherwise charges the spendable balance directly. Idempotent per requestId.
+   */
+  async settle(walletAddress: string, requestId: string, costUSD: number, usage: UsageDetails): Promise<void> {
+    const cost = round8(costUSD);
+
+    // Recorded on the hold first: should the settle below fail, expiry captures the hold at this cost
+    await prisma.creditHold.updateMany({
+      where: { requestId, status: "held" },
+      data: {
+        servedCostUSD: cost,
+        servedUsage: { model: usage.model, inputTokens: usage.inputTokens, outputTokens: usage.outputTokens, apiKeyId: usage.apiKeyId ?? null },
+      },
+    });
+
+    await this.withAccountLock(walletAddress, (tx, wallet) => this.settleInTx(tx, wallet, requestId, cost, usage));
+  }
+
+  /**
+   * Return a request's hold to the spendable balance (upstream failure).
+   * No-op if the request has no open hold.
+   */
+  async release(requestId: string, reason: string = "request_failed"): Promise<void> {
+    const hold = await prisma.creditHold.findUnique({ where: { requestId } });
+    if (!hold || hold.status !== "held") return;
+
+    await this.withAccountLock(hold.walletAddress, async (tx, wallet) => {
+      // Re-read under the lock - settle may have won the race
+      const current = await tx.creditHold.findUnique({ where: { requestId } });
+      if (!current || current.status !== "held") return;
+      await this.releaseHold(tx, wallet, current, reason);
+    });
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // INTERNALS
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Run `fn` in a transaction holding a row lock on the wallet's User row,
+   * after making sure the wallet has its opening balance entry.
+   */
+  private async withAccountLock<T>(walletAddress: string, fn: (tx: Tx, wallet: string) => Promise<T>): Promise<T> {
+    const wallet = walletAddress.toLowerCase();
+    return prisma.$transaction(async (tx: Tx) => {
+      await tx.$queryRaw`SELECT id FROM User WHERE wallet_address = ${wallet} FOR UPDATE`;
+      await this.ensureOpeningBalance(tx, wallet);
+      return fn(tx, wallet);
+    });
+  }
+
+  private async ensureOpeningBalance(tx: Tx, wallet: string): Promise<void> {
+    const existing = await tx.ledgerEntry.findFirst({ where: { walletAddress: wallet }, select: { id: true } });
+    if (existing) return;
+
+    // Posted even when zero - it marks the wallet as migrated so legacy rows are never counted twice
+    const opening = round8(await this.legacyBalance(tx, wallet));
+    await this.post(tx, "opening", wallet, [
+      { account: SYSTEM_ACCOUNTS.deposits, amount: -opening },
+      { account: userAccount(wallet), amount: opening },
+    ], { reference: "legacy_balance" });
+  }
+
+  private async legacyBalance(client: Tx, wallet: string): Promise<number> {
+    const [deposits, grants, usage] = await Promise.all([
+      client.vaultDeposit.aggregate({ where: { walletAddress: wallet }, _sum: { amountUSD: true } }),
+      client.creditGrant.aggregate({ where: { walletAddress: wallet }, _sum: { amountUSD: true } }),
+      client.usage.aggregate({ where: { walletAddress: wallet }, _sum: { costUSD: true } }),
+    ]);
+    return Number(deposits._sum.amountUSD || 0) + Number(grants._sum.amountUSD || 0) - Number(usage._sum.costUSD || 0);
+  }
+
+  private async createHold(
+    walletAddress: string,
+    requestId: string,
+    amountUSD: number,
+    purpose: "request" | "withdrawal",
+    expiresAt: Date,
+    model?: string,
+    apiKeyId?: number | null
+  ): Promise<void> {
+    const amount = round8(amountUSD);
+    await this.withAccountLock(walletAddress, async (tx, wallet) => {
+      await this.releaseExpired(tx, wallet);
+
+      const available = await this.sumAccount(tx, userAccount(wallet));
+      if (available < amount) throw new InsufficientCreditsError(available, amount);
+
+      await tx.creditHold.create({
+        data: { walletAddress: wallet, requestId, amountUSD: amount, purpose, model, apiKeyId: apiKeyId ?? null, expiresAt },
+      });
+      await this.post(tx, "hold", wallet, [
+        { account: userAccount(wallet), amount: -amount },
+        { account: holdAccount(wallet), amount },
+      ], { requestId, metadata: model ? { model } : purpose === "withdrawal" ? { purpose } : undefined });
+    });
+  }
+
+  private async settleInTx(tx: Tx, wallet: string, requestId: string, cost: number, usage: UsageDetails): Promise<void> {
+    const alreadySettled = await tx.usage.findUnique({ where: { requestId }, select: { id: true } });
+    if (alreadySettled) return;
+
+    const hold = await tx.creditHold.findUnique({ where: { requestId } });
+    const held = hold && hold.status === "held" ? Number(hold.amountUSD) : 0;
+
+    // Cost beyond the hold is charged to the spendable balance, as far as it goes
+    const available = cost > held ? await this.sumAccount(tx, userAccount(wallet)) : 0;
+    const charged = round8(Math.min(cost, held + Math.max(0, available)));
+    const metadata = {
+      model: usage.model,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      costUSD: cost,
+      ...(charged < cost && { uncollectedUSD: round8(cost - charged) }),
+    };
+
+    await this.post(tx, "settle", wallet, [
+      ...(hold && hold.status === "held" ? [{ account: holdAccount(wallet), amount: -held }] : []),
+      { account: SYSTEM_ACCOUNTS.revenue, amount: charged },
+      { account: userAccount(wallet), amount: round8(held - charged) },
+    ], { requestId, metadata });
+    if (hold && hold.status === "held") {
+      await tx.creditHold.update({ where: { id: hold.id }, data: { status: "settled" } });
+    }
+    if (charged < cost) {
+      console.warn(`[Ledger] ${requestId} for ${wallet} cost $${cost.toFixed(6)}, only $${charged.toFixed(6)} was covered`);
+    }
+
+    await tx.usage.create({
+      data: {
+        walletAddress: wallet,
+        model: usage.model,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        costUSD: charged,
+        requestId,
+        apiKeyId: usage.apiKeyId ?? undefined,
+      },
+    });
+  }
+
+  /**
+   * Expired request holds go back to the balance - unless the request was served and
+   * only its settle failed, in which case the hold is captured at the recorded cost.
+   */
+  private async releaseExpired(tx: Tx, wallet: string): Promise<void> {
+    const expired = await tx.creditHold.findMany({
+      where: { walletAddress: wallet, status: "held", purpose: "request", expiresAt: { lt: new Date() } },
+    });
+    for (const hold of expired) {
+      if (hold.servedCostUSD && hold.servedUsage) {
+        const served = hold.servedUsage as Prisma.JsonObject;
+        await this.settleInTx(tx, wallet, hold.requestId, Number(hold.servedCostUSD), {
+          model: String(served.model),
+          inputTokens: Number(served.inputTokens),
+          outputTokens: Number(served.outputTokens),
+          apiKeyId: typeof served.apiKeyId === "number" ? served.apiKeyId : null,
+        });
+        console.log(`[Ledger] Captured expired hold ${hold.requestId} for ${wallet} ($${Number(hold.servedCostUSD).toFixed(6)})`);
+      } else {
+        await this.releaseHold(tx, wallet, hold, "expired");
+      }
+    }
+  }
+
+  private async releaseHold(tx: Tx, wallet: string, hold: { id: string; requestId: string; amountUSD: Prisma.Decimal }, reason: string) {
+    const held = Number(hold.amountUSD);
+    await this.post(tx, "release", wallet, [
+      { account: holdAccount(wallet), amount: -held },
+      { account: userAccount(wallet), amount: held },
+    ], { requestId: hold.requestId, reference: reason });
+    await tx.creditHold.update({ where: { id: hold.id }, data: { status: "released" } });
+    console.log(`[Ledger] Released hold ${hold.requestId} for ${wallet} ($${held.toFixed(6)}, ${reason})`);
+  }
+
+  private async sumAccount(client: Tx, account: string): Promise<number> {
+    const result = await client.ledgerEntry.aggregate({ where: { account }, _sum: { amountUSD: true } });
+    return Number(result._sum.amountUSD || 0);
+  }
+
+  private async post(
+    tx: Tx,
+    type: LedgerEntryType,
+    wallet: string,
+    legs: Leg[],
+    ref: { requestId?: string; reference?: string; metadata?: Record<string, unknown> } = {}
+  ): Promise<string> {
+    const rounded = legs.map((l) => ({ ...l, amount: round8(l.amount) }));
+    const total = rounded.reduce((sum, l) => sum + l.amount, 0);
+    if (Math.abs(total) > 1e-8) {
+      throw new Error(`[Ledger] Unbalanced ${type} transaction for ${wallet}: ${total}`);
+    }
+
+    const transactionId = uuidv4();
+    await tx.ledgerEntry.createMany({
+      data: rounded.map((l) => ({
+        transactionId,
+        account: l.account,
+        walletAddress: wallet,
+        type,
+        amountUSD: l.amount,
+        requestId: ref.requestId,
+        reference: ref.reference,
+        metadata: ref.metadata as Prisma.InputJsonValue | undefined,
+      })),
+    });
+    return transactionId;
+  }
+}
+
+export const ledgerService = new LedgerService();
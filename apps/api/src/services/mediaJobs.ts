@@ -0,0 +1,283 @@
+import { EventEmitter } from "events";
+import { prisma } from "../prisma";
+import { storageService } from "./storage";
+import { encryptionService } from "./encryption";
+import { chatProviders } from "./chatProviders";
+
+/**
+ * Media Jobs - video/audio generation behind the /video and /audio commands
+ *
+ * Renders go to catalog models whose `architecture.output_modalities` include
+ * the requested kind. A job runs in the background: the row in media_jobs is the
+ * durable status (polled via GET /llm/media/jobs/:id) and every change is also
+ * emitted in-process so open SSE streams can forward progress as it happens.
+ * Billing is left to the caller through MediaJobHooks.
+ */
+
+export type MediaKind = "video" | "audio";
+export type MediaJobStatus = "queued" | "running" | "succeeded" | "failed";
+
+export interface MediaJobUpdate {
+  id: string;
+  kind: MediaKind;
+  model: string;
+  status: MediaJobStatus;
+  progress: number;
+  resultUrl?: string | null;
+  contentType?: string | null;
+  error?: string | null;
+  costUSD?: number | null;
+}
+
+export interface MediaJobInput {
+  userId: number;
+  conversationId?: string | null;
+  kind: MediaKind;
+  model: string;
+  prompt: string;
+  requestId: string;
+}
+
+export interface MediaUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface MediaJobHooks {
+  // Persist the result and settle billing; returns the amount charged in USD
+  onSucceeded: (job: MediaJobUpdate, usage: MediaUsage | null) => Promise<number>;
+  onFailed: (job: MediaJobUpdate) => Promise<void>;
+}
+
+export class MediaJobError extends Error {
+  constructor(public code: string, message: string) {
+    super(message);
+  }
+}
+
+// Renders can take minutes; the credit hold expires after 15 (see ledger HOLD_TTL_MS)
+const MEDIA_JOB_TIMEOUT_MS = Number(process.env.MEDIA_JOB_TIMEOUT_MS) || 10 * 60 * 1000;
+const PROGRESS_TICK_MS = 3000;
+// Progress reported while waiting on the provider never passes this - the rest is upload/save
+const RENDER_PROGRESS_CAP = 85;
+
+const AUDIO_CONTENT_TYPES: Record<string, string> = {
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  ogg: "audio/ogg",
+  opus: "audio/ogg",
+  flac: "audio/flac",
+  aac: "audio/aac",
+};
+
+export function supportsOutput(architecture: any, kind: MediaKind): boolean {
+  const modalities = architecture?.output_modalities;
+  return Array.isArray(modalities) && modalities.includes(kind);
+}
+
+/**
+ * Pick the model for a render: the requested one if it can output `kind`,
+ * otherwise the highest-priority active catalog model that can.
+ */
+export async function findMediaModel(kind: MediaKind, preferred?: string | null): Promise<string | null> {
+  const models = await prisma.model.findMany({
+    where: { isActive: true },
+    orderBy: [{ displayPriority: "desc" }, { name: "asc" }],
+    select: { openrouterId: true, architecture: true },
+  });
+  const capable = models.filter((m: { architecture: any }) => supportsOutput(m.architecture, kind));
+  const match = preferred ? capable.find((m: { openrouterId: string }) => m.openrouterId === preferred) : null;
+  return (match || capable[0])?.openrouterId ?? null;
+}
+
+function parseDataUri(uri: string): { buffer: Buffer; contentType: string } | null {
+  const matches = uri.match(/^data:([^;]+);base64,(.+)$/);
+  return matches ? { buffer: Buffer.from(matches[2], "base64"), contentType: matches[1] } : null;
+}
+
+/**
+ * Pull the rendered media out of a chat completion message.
+ * Audio comes back as `message.audio` (base64 + format); video as `message.videos`
+ * or `video_url` content parts, either a data URI or a provider-hosted URL.
+ */
+export function extractMedia(kind: MediaKind, message: any): { buffer?: Buffer; url?: string; contentType: string } | null {
+  if (!message) return null;
+
+  if (kind === "audio") {
+    if (!message.audio?.data) return null;
+    const format = String(message.audio.format || "mp3").toLowerCase();
+    return { buffer: Buffer.from(message.audio.data, "base64"), contentType: AUDIO_CONTENT_TYPES[format] || "audio/mpeg" };
+  }
+
+  const parts = [
+    ...(Array.isArray(message.videos) ? message.videos : []),
+    ...(Array.isArray(message.content) ? message.content.filter((p: any) => p?.type === "video_url") : []),
+  ];
+  for (const part of parts) {
+    const url: string | undefined = part?.video_url?.url || part?.url;
+    if (!url) continue;
+    const inline = parseDataUri(url);
+    if (inline) return inline;
+    return { url, contentType: "video/mp4" };
+  }
+  return null;
+}
+
+class MediaJobService extends EventEmitter {
+  /**
+   * Create the job row and start rendering in the background
+   */
+  async create(input: MediaJobInput, hooks: MediaJobHooks): Promise<MediaJobUpdate> {
+    const row = await prisma.mediaJob.create({
+      data: {
+        userId: input.userId,
+        conversationId: input.conversationId || null,
+        kind: input.kind,
+        model: input.model,
+        prompt: encryptionService.encrypt(input.prompt),
+        requestId: input.requestId,
+      },
+    });
+    const job = this.toUpdate(row);
+
+    this.run(job, input.prompt, hooks).catch((error) => {
+      console.error(`[MediaJobs] Job ${job.id} crashed:`, error);
+    });
+    return job;
+  }
+
+  async get(id: string, userId: number): Promise<MediaJobUpdate | null> {
+    const row = await prisma.mediaJob.findFirst({ where: { id, userId } });
+    return row ? this.toUpdate(row) : null;
+  }
+
+  /**
+   * Listen for updates to one job; returns the unsubscribe function
+   */
+  subscribe(id: string, listener: (job: MediaJobUpdate) => void): () => void {
+    const channel = `job:${id}`;
+    this.on(channel, listener);
+    return () => this.off(channel, listener);
+  }
+
+  isFinished(job: MediaJobUpdate): boolean {
+    return job.status === "succeeded" || job.status === "failed";
+  }
+
+  /**
+   * Forward updates until the job finishes or `timeoutMs` passes.
+   * Resolves with the last known state, which is still running on timeout.
+   */
+  async watch(
+    job: MediaJobUpdate,
+    userId: number,
+    onUpdate: (job: MediaJobUpdate) => void,
+    timeoutMs: number,
+    signal?: AbortSignal
+  ): Promise<MediaJobUpdate> {
+    let latest = job;
+    let unsubscribe = () => {};
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      return await new Promise<MediaJobUpdate>((resolve) => {
+        const handle = (update: MediaJobUpdate) => {
+          latest = update;
+          onUpdate(update);
+          if (this.isFinished(update)) resolve(update);
+        };
+        unsubscribe = this.subscribe(job.id, handle);
+        timer = setTimeout(() => resolve(latest), timeoutMs);
+        signal?.addEventListener("abort", () => resolve(latest));
+
+        // The job may have moved on before we subscribed
+        this.get(job.id, userId)
+          .then((row) => { if (row && this.isFinished(row) && !this.isFinished(latest)) handle(row); })
+          .catch(() => {});
+      });
+    } finally {
+      unsubscribe();
+      clearTimeout(timer);
+    }
+  }
+
+  private async run(job: MediaJobUpdate, prompt: string, hooks: MediaJobHooks): Promise<void> {
+    let current = await this.update(job, { status: "running", progress: 5 });
+
+    // Providers give no render progress, so ease towards the cap while we wait
+    let tick: Promise<unknown> = Promise.resolve();
+    const ticker = setInterval(() => {
+      const progress = Math.min(RENDER_PROGRESS_CAP, current.progress + Math.ceil((RENDER_PROGRESS_CAP - current.progress) * 0.15));
+      if (progress === current.progress) return;
+      tick = this.update(current, { progress }).then((next) => { current = next; }).catch(() => {});
+    }, PROGRESS_TICK_MS);
+    // Let an in-flight tick land first so it cannot overwrite the final state
+    const stopTicker = async () => {
+      clearInterval(ticker);
+      await tick;
+    };
+
+    try {
+      const { data } = await chatProviders.complete(
+        {
+          model: job.model,
+          messages: [{ role: "user", content: prompt }],
+          modalities: [job.kind, "text"],
+          ...(job.kind === "audio" ? { audio: { voice: "alloy", format: "mp3" } } : {}),
+        },
+        { title: "ZeroPrompt Media", timeoutMs: MEDIA_JOB_TIMEOUT_MS }
+      );
+      await stopTicker();
+
+      const media = extractMedia(job.kind, data.choices?.[0]?.message);
+      if (!media) throw new MediaJobError("no_media_output", `${job.model} returned no ${job.kind}`);
+
+      let buffer = media.buffer;
+      if (!buffer && media.url) {
+        const response = await fetch(media.url, { signal: AbortSignal.timeout(60000) });
+        if (!response.ok) throw new MediaJobError("download_failed", `Download failed: HTTP ${response.status}`);
+        buffer = Buffer.from(await response.arrayBuffer());
+      }
+
+      current = await this.update(current, { progress: 90 });
+      const resultUrl = await storageService.uploadBuffer(buffer!, `generated-${job.kind}`, media.contentType);
+
+      const usage = data.usage
+        ? { promptTokens: data.usage.prompt_tokens || 0, completionTokens: data.usage.completion_tokens || 0 }
+        : null;
+      const finished = { ...current, status: "succeeded" as const, progress: 100, resultUrl, contentType: media.contentType };
+      const costUSD = await hooks.onSucceeded(finished, usage);
+      await this.update(current, { status: "succeeded", progress: 100, resultUrl, contentType: media.contentType, costUSD });
+      console.log(`[MediaJobs] ${job.kind} job ${job.id} done with ${job.model} ($${costUSD.toFixed(6)})`);
+    } catch (error) {
+      await stopTicker();
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[MediaJobs] ${job.kind} job ${job.id} failed:`, message);
+      const failed = await this.update(current, { status: "failed", error: message });
+      await hooks.onFailed(failed).catch((e) => console.error(`[MediaJobs] onFailed for ${job.id}:`, e));
+    }
+  }
+
+  private async update(job: MediaJobUpdate, changes: Partial<Omit<MediaJobUpdate, "id" | "kind" | "model">>): Promise<MediaJobUpdate> {
+    await prisma.mediaJob.update({ where: { id: job.id }, data: changes });
+    const next = { ...job, ...changes };
+    this.emit(`job:${job.id}`, next);
+    return next;
+  }
+
+  private toUpdate(row: any): MediaJobUpdate {
+    return {
+      id: row.id,
+      kind: row.kind,
+      model: row.model,
+      status: row.status,
+      progress: row.progress,
+      resultUrl: row.resultUrl,
+      contentType: row.contentType,
+      error: row.error,
+      costUSD: row.costUSD != null ? Number(row.costUSD) : null,
+    };
+  }
+}
+
+export const mediaJobService = new MediaJobService();
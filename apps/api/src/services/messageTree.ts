@@ -0,0 +1,113 @@
+import { prisma } from "../prisma";
+
+/**
+ * Message Tree - conversation branches for edit and regenerate
+ *
+ * Every message points at the message it answers (parentId, null for a root).
+ * Editing a user turn adds a sibling user message under the same parent;
+ * regenerating adds a sibling assistant reply under the same user message.
+ * The branch a conversation shows is the path from a root down to
+ * Conversation.activeLeafId; nothing is ever overwritten.
+ */
+
+export interface TreeNode {
+  id: number;
+  role: string;
+  parentId: number | null;
+  siblingIndex: number;
+}
+
+// Where a new turn attaches. With userMessageId set only the reply is added (regenerate).
+export interface BranchTarget {
+  parentId: number | null;
+  userMessageId?: number;
+}
+
+function byPosition(a: TreeNode, b: TreeNode) {
+  return a.siblingIndex - b.siblingIndex || a.id - b.id;
+}
+
+export function childrenOf<T extends TreeNode>(nodes: T[], parentId: number | null): T[] {
+  return nodes.filter((n) => n.parentId === parentId).sort(byPosition);
+}
+
+/**
+ * Follow the newest child down from `id` until reaching a leaf
+ */
+export function descendToLeaf<T extends TreeNode>(nodes: T[], id: number): number {
+  let current = id;
+  for (;;) {
+    const children = childrenOf(nodes, current);
+    if (children.length === 0) return current;
+    current = children[children.length - 1].id;
+  }
+}
+
+/**
+ * Root-to-leaf path through `leafId` (extended down to a leaf if it has children).
+ * Without a usable leaf the newest message decides the branch.
+ */
+export function resolvePath<T extends TreeNode>(nodes: T[], leafId?: number | null): T[] {
+  if (nodes.length === 0) return [];
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const start = leafId != null && byId.has(leafId) ? leafId : Math.max(...nodes.map((n) => n.id));
+
+  const path: T[] = [];
+  let node = byId.get(descendToLeaf(nodes, start));
+  while (node) {
+    path.unshift(node);
+    node = node.parentId != null ? byId.get(node.parentId) : undefined;
+  }
+  return path;
+}
+
+/**
+ * Parents for conversations saved before the tree existed (all parentIds null).
+ * Consecutive assistant replies were parallel model comparisons, so they become
+ * siblings under the user message before them; a user message follows the last reply.
+ */
+export function planLegacyLinks(nodes: TreeNode[]): { id: number; parentId: number; siblingIndex: number }[] {
+  const ordered = [...nodes].sort((a, b) => a.id - b.id);
+  if (ordered.length < 2 || ordered.some((n) => n.parentId != null || n.siblingIndex > 0)) return [];
+
+  const links: { id: number; parentId: number; siblingIndex: number }[] = [];
+  let lastUser: TreeNode | null = null;
+  let previous: TreeNode = ordered[0];
+  if (ordered[0].role === "user") lastUser = ordered[0];
+  let siblings = 0;
+
+  for (const node of ordered.slice(1)) {
+    if (node.role === "assistant" && previous.role === "assistant" && lastUser) {
+      links.push({ id: node.id, parentId: lastUser.id, siblingIndex: ++siblings });
+    } else {
+      links.push({ id: node.id, parentId: previous.id, siblingIndex: 0 });
+      siblings = 0;
+    }
+    if (node.role === "user") lastUser = node;
+    previous = node;
+  }
+  return links;
+}
+
+/**
+ * Write legacy parent links once; returns the nodes with links applied
+ */
+export async function linkLegacyMessages<T extends TreeNode>(nodes: T[]): Promise<T[]> {
+  const links = planLegacyLinks(nodes);
+  if (links.length === 0) return nodes;
+
+  await prisma.$transaction(
+    links.map((link) => prisma.message.update({ where: { id: link.id }, data: { parentId: link.parentId, siblingIndex: link.siblingIndex } }))
+  );
+  const byId = new Map(links.map((l) => [l.id, l]));
+  return nodes.map((n) => (byId.has(n.id) ? { ...n, ...byId.get(n.id)! } : n));
+}
+
+export async function nextSiblingIndex(conversationId: string, parentId: number | null): Promise<number> {
+  const last = await prisma.message.findFirst({
+    where: { conversationId, parentId },
+    orderBy: { siblingIndex: "desc" },
+    select: { siblingIndex: true },
+  });
+  return last ? last.siblingIndex + 1 : 0;
+}
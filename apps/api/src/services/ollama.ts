@@ -1,4 +1,5 @@
 import { EventEmitter } from "events";
+import { ENCRYPTED_CHAT_PATH, openResponseFrame, sealRequest } from "./subnetEncryption";
 
 /**
  * OllamaService - Manages connections to decentralized Ollama nodes
@@ -9,6 +10,12 @@ export interface OllamaNode {
   address: string;
   endpoint: string;
   supportedModels: string[];
+  models?: OllamaModelDescriptor[];
+  // Announced by the operator: no new requests while draining or inside a maintenance window
+  draining?: boolean;
+  maintenance?: MaintenanceWindow | null;
+  // X25519 public key from OperatorRegistry; set when the node takes encrypted requests
+  encryptionKey?: string | null;
   isHealthy: boolean;
   lastHealthCheck: Date;
   latencyMs: number;
@@ -16,16 +23,153 @@ export interface OllamaNode {
   stakeWeight: number;
 }
 
+export interface MaintenanceWindow {
+  startsAt: Date;
+  endsAt: Date;
+  reason: string | null;
+}
+
+// One model exactly as a node serves it, from /api/tags and /api/show
+export interface OllamaModelDescriptor {
+  name: string; // full tag, e.g. "llama3.2:3b-instruct-q4_K_M"
+  family: string; // name without the tag, e.g. "llama3.2"
+  tag: string;
+  digest: string;
+  parameterSize: string | null;
+  quantization: string | null;
+  contextLength: number | null;
+  sizeBytes: number | null;
+}
+
+// A model variant across the network: every healthy node serving the same tag and digest
+export interface OllamaModelVariant extends OllamaModelDescriptor {
+  id: string; // "<name>@<short digest>", what clients send back as the model
+  nodeCount: number;
+  avgLatencyMs: number;
+}
+
+// Entry of Ollama's GET /api/tags
+interface OllamaTagEntry {
+  name: string;
+  digest?: string;
+  size?: number;
+  details?: {
+    parameter_size?: string;
+    quantization_level?: string;
+  };
+}
+
+const SHORT_DIGEST_LENGTH = 12;
+
+/**
+ * Split a model reference into its parts. References are a bare family ("llama3.2"),
+ * a full tag ("llama3.2:1b") or a tag pinned to a build ("llama3.2:1b@a80c4f17acd5").
+ */
+export function parseModelRef(ref: string): { name: string; family: string; digest: string | null } {
+  const at = ref.lastIndexOf("@");
+  const name = at >= 0 ? ref.slice(0, at) : ref;
+  const digest = at >= 0 ? ref.slice(at + 1).toLowerCase().replace(/^sha256:/, "") || null : null;
+  return { name, family: name.split(":")[0], digest };
+}
+
+export function toModelDescriptor(entry: OllamaTagEntry, contextLength: number | null = null): OllamaModelDescriptor {
+  // Ollama resolves an untagged name to ":latest"
+  const name = entry.name.includes(":") ? entry.name : `${entry.name}:latest`;
+  const [family, tag] = name.split(":");
+  return {
+    name,
+    family,
+    tag,
+    digest: (entry.digest || "").replace(/^sha256:/, ""),
+    parameterSize: entry.details?.parameter_size || null,
+    quantization: entry.details?.quantization_level || null,
+    contextLength,
+    sizeBytes: entry.size ?? null,
+  };
+}
+
+/**
+ * Whether a descriptor satisfies a model reference: a bare family takes any variant,
+ * a tag only that tag, and a pinned digest only that exact build
+ */
+export function modelMatches(model: OllamaModelDescriptor, ref: string): boolean {
+  const { name, digest } = parseModelRef(ref);
+  if (name.includes(":") ? model.name !== name : model.family !== name) return false;
+  return !digest || model.digest.startsWith(digest);
+}
+
+export function modelVariantId(model: OllamaModelDescriptor): string {
+  return `${model.name}@${model.digest.slice(0, SHORT_DIGEST_LENGTH)}`;
+}
+
+export interface HealthCheckResult {
+  address: string;
+  passed: boolean;
+  latencyMs: number | null;
+  error: string | null;
+  checkedAt: Date;
+}
+
+export type AttemptOutcome = "served" | "failed" | "cancelled";
+
+// One node tried for a request: the one that served it, ones that failed before the first
+// token, and hedge losers that were cancelled
+export interface ChatAttempt {
+  node: OllamaNode;
+  outcome: AttemptOutcome;
+  latencyMs: number;
+  firstTokenMs: number | null;
+  error: string | null;
+  hedged: boolean;
+}
+
+export interface ChatChunk {
+  content?: string;
+  done?: boolean;
+  error?: string;
+  totalDuration?: number;
+  evalCount?: number;
+  promptEvalCount?: number;
+}
+
+// Chunks of failoverChat: the usual content plus routing events
+export interface FailoverChunk extends ChatChunk {
+  servedBy?: OllamaNode;
+  attempt?: ChatAttempt;
+}
+
+export interface FailoverOptions {
+  first?: OllamaNode | null;
+  hedge?: boolean;
+  maxAttempts?: number;
+  options?: OllamaOptions;
+  encrypted?: boolean; // only nodes with an encryption key, prompts sealed to that key
+}
+
 export interface OllamaMessage {
   role: "system" | "user" | "assistant";
   content: string;
 }
 
+// Subset of Ollama's generation options (https://github.com/ollama/ollama/blob/main/docs/modelfile.md#parameter)
+export interface OllamaOptions {
+  seed?: number;
+  temperature?: number;
+  num_predict?: number;
+}
+
 class OllamaService extends EventEmitter {
   private nodes: Map<string, OllamaNode> = new Map();
   private healthCheckInterval: NodeJS.Timeout | null = null;
   private readonly HEALTH_CHECK_INTERVAL = 30000; // 30 seconds
   private readonly REQUEST_TIMEOUT = 60000; // 60 seconds
+  private readonly MAX_SCORE_PENALTY = 50;
+
+  // Score deductions from failed inference challenges, kept across operator refreshes
+  private scorePenalties: Map<string, number> = new Map();
+
+  // Context length per model digest - a build never changes, so /api/show is asked once
+  private contextLengths: Map<string, number | null> = new Map();
 
   constructor() {
     super();
@@ -38,6 +182,7 @@ class OllamaService extends EventEmitter {
     for (const op of operators) {
       this.nodes.set(op.address, {
         ...op,
+        performanceScore: this.penalizedScore(op.address, op.performanceScore),
         isHealthy: false,
         lastHealthCheck: new Date(0),
         latencyMs: 0,
@@ -62,36 +207,122 @@ class OllamaService extends EventEmitter {
 
     // Add/update operators
     for (const op of operators) {
-      const existing = this.nodes.get(op.address);
-      if (existing) {
-        // Preserve health check data
-        this.nodes.set(op.address, {
-          ...op,
-          isHealthy: existing.isHealthy,
-          lastHealthCheck: existing.lastHealthCheck,
-          latencyMs: existing.latencyMs,
-        });
-      } else {
-        this.nodes.set(op.address, {
-          ...op,
-          isHealthy: false,
-          lastHealthCheck: new Date(0),
-          latencyMs: 0,
-        });
-      }
+      this.upsertOperator(op);
+    }
+  }
+
+  /**
+   * Add or update a single operator. Health data is kept unless the endpoint moved,
+   * in which case the new endpoint is checked right away.
+   */
+  upsertOperator(op: OllamaNode): void {
+    const existing = this.nodes.get(op.address);
+    if (existing && existing.endpoint === op.endpoint) {
+      // Preserve health check data
+      this.nodes.set(op.address, {
+        ...op,
+        models: op.models ?? existing.models,
+        performanceScore: this.penalizedScore(op.address, op.performanceScore),
+        isHealthy: existing.isHealthy,
+        lastHealthCheck: existing.lastHealthCheck,
+        latencyMs: existing.latencyMs,
+      });
+      return;
+    }
+
+    const node = {
+      ...op,
+      performanceScore: this.penalizedScore(op.address, op.performanceScore),
+      isHealthy: false,
+      lastHealthCheck: new Date(0),
+      latencyMs: 0,
+    };
+    this.nodes.set(op.address, node);
+    if (existing) {
+      this.checkNodeHealth(op.address, node).catch(() => {});
+    }
+  }
+
+  removeOperator(address: string): void {
+    this.nodes.delete(address);
+  }
+
+  /**
+   * Add to (positive delta) or recover (negative delta) an operator's score penalty.
+   * Returns the penalty now in effect.
+   */
+  adjustScorePenalty(address: string, delta: number): number {
+    const previous = this.scorePenalties.get(address) || 0;
+    const penalty = Math.min(this.MAX_SCORE_PENALTY, Math.max(0, previous + delta));
+    if (penalty > 0) {
+      this.scorePenalties.set(address, penalty);
+    } else {
+      this.scorePenalties.delete(address);
     }
+
+    const node = this.nodes.get(address);
+    if (node) {
+      node.performanceScore = Math.max(0, node.performanceScore + previous - penalty);
+    }
+    return penalty;
+  }
+
+  getScorePenalty(address: string): number {
+    return this.scorePenalties.get(address) || 0;
+  }
+
+  private penalizedScore(address: string, score: number): number {
+    return Math.max(0, score - this.getScorePenalty(address));
+  }
+
+  /**
+   * Whether a node takes new requests: not draining and outside its maintenance window
+   */
+  isAcceptingRequests(node: OllamaNode, now: Date = new Date()): boolean {
+    return !node.draining && !this.inMaintenance(node, now);
+  }
+
+  inMaintenance(node: OllamaNode, at: Date = new Date()): boolean {
+    return !!node.maintenance && node.maintenance.startsAt <= at && at < node.maintenance.endsAt;
+  }
+
+  /**
+   * Whether a node serves a model reference (see parseModelRef).
+   * Nodes not described yet fall back to their registered model names and never match a digest.
+   */
+  servesModel(node: OllamaNode, model: string): boolean {
+    if (node.models && node.models.length > 0) {
+      return node.models.some((m) => modelMatches(m, model));
+    }
+    const { name, family, digest } = parseModelRef(model);
+    return !digest && (node.supportedModels.includes(name) || node.supportedModels.includes(family));
+  }
+
+  /**
+   * The exact tag to ask a node for when serving a model reference
+   */
+  resolveModelName(node: OllamaNode, model: string): string {
+    const match = node.models?.find((m) => modelMatches(m, model));
+    return match ? match.name : parseModelRef(model).name;
+  }
+
+  supportsEncryption(node: OllamaNode): boolean {
+    return !!node.encryptionKey;
   }
 
   /**
    * Select the best available node for a given model
    * Selection is based on: health, latency, performance score, and stake weight
    */
-  selectNode(model: string): OllamaNode | null {
+  selectNode(model: string, exclude?: Set<string>, encrypted = false): OllamaNode | null {
     const eligibleNodes: OllamaNode[] = [];
 
     for (const node of this.nodes.values()) {
       if (!node.isHealthy) continue;
-      if (!node.supportedModels.includes(model)) continue;
+      if (!this.isAcceptingRequests(node)) continue;
+      if (!this.servesModel(node, model)) continue;
+      if (encrypted && !this.supportsEncryption(node)) continue;
+      if (exclude?.has(node.address)) continue;
       eligibleNodes.push(node);
     }
 
@@ -128,38 +359,54 @@ class OllamaService extends EventEmitter {
   }
 
   /**
-   * Streaming chat completion with an Ollama node
+   * Streaming chat completion with an Ollama node.
+   * With `encrypted` the request is sealed to the node's key and each response line opened.
    */
   async *chatCompletion(
     node: OllamaNode,
     messages: OllamaMessage[],
-    model: string
-  ): AsyncGenerator<{
-    content?: string;
-    done?: boolean;
-    error?: string;
-    totalDuration?: number;
-    evalCount?: number;
-  }> {
+    model: string,
+    options?: OllamaOptions,
+    signal?: AbortSignal,
+    encrypted = false
+  ): AsyncGenerator<ChatChunk> {
     const startTime = Date.now();
 
+    const body = {
+      model,
+      messages,
+      stream: true,
+      ...(options ? { options } : {}),
+    };
+    let url = `${node.endpoint}/api/chat`;
+    let payload: unknown = body;
+    let responseKey: Buffer | null = null;
+    if (encrypted) {
+      if (!node.encryptionKey) {
+        yield { error: "Node does not support encrypted inference" };
+        return;
+      }
+      const sealed = sealRequest(node.encryptionKey, body);
+      url = `${node.endpoint}${ENCRYPTED_CHAT_PATH}`;
+      payload = sealed.envelope;
+      responseKey = sealed.responseKey;
+    }
+    let frame = 0;
+
     try {
       const controller = new AbortController();
       const timeoutId = setTimeout(
         () => controller.abort(),
         this.REQUEST_TIMEOUT
       );
+      signal?.addEventListener("abort", () => controller.abort(), { once: true });
 
-      const response = await fetch(`${node.endpoint}/api/chat`, {
+      const response = await fetch(url, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({
-          model,
-          messages,
-          stream: true,
-        }),
+        body: JSON.stringify(payload),
         signal: controller.signal,
       });
 
@@ -193,8 +440,20 @@ class OllamaService extends EventEmitter {
         for (const line of lines) {
           if (!line.trim()) continue;
 
+          let text = line;
+          if (responseKey) {
+            try {
+              text = openResponseFrame(responseKey, JSON.parse(line), frame++);
+            } catch {
+              // Tampered, dropped or reordered frames end the stream
+              yield { error: "Encrypted response failed to authenticate" };
+              controller.abort();
+              return;
+            }
+          }
+
           try {
-            const parsed = JSON.parse(line);
+            const parsed = JSON.parse(text);
 
             if (parsed.message?.content) {
               yield { content: parsed.message.content };
@@ -205,10 +464,11 @@ class OllamaService extends EventEmitter {
                 done: true,
                 totalDuration: parsed.total_duration,
                 evalCount: parsed.eval_count,
+                promptEvalCount: parsed.prompt_eval_count,
               };
             }
           } catch (e) {
-            console.error("[Ollama] Failed to parse line:", line, e);
+            console.error("[Ollama] Failed to parse line:", responseKey ? "(encrypted)" : line, e);
           }
         }
       }
@@ -217,6 +477,9 @@ class OllamaService extends EventEmitter {
       const latency = Date.now() - startTime;
       node.latencyMs = Math.round((node.latencyMs + latency) / 2); // Running average
     } catch (error) {
+      // Cancelled by the caller (e.g. the other side of a hedged request won) - not the node's fault
+      if (signal?.aborted) return;
+
       if ((error as Error).name === "AbortError") {
         yield { error: "Request timeout" };
       } else {
@@ -228,18 +491,122 @@ class OllamaService extends EventEmitter {
     }
   }
 
+  /**
+   * Streaming chat completion that survives dead nodes.
+   * Nodes that fail before the first token are replaced by the next best one;
+   * with `hedge` the request goes to two nodes at once and the slower is cancelled.
+   * Once tokens have been forwarded there is no failover - a mid-stream error ends the stream.
+   */
+  async *failoverChat(
+    model: string,
+    messages: OllamaMessage[],
+    { first, hedge = false, maxAttempts = 3, options, encrypted = false }: FailoverOptions = {}
+  ): AsyncGenerator<FailoverChunk> {
+    const tried = new Set<string>();
+    const errors: string[] = [];
+
+    while (tried.size < maxAttempts) {
+      const primary = first && !tried.has(first.address) ? first : this.selectNode(model, tried, encrypted);
+      if (!primary) break;
+      tried.add(primary.address);
+
+      const secondary = hedge && tried.size < maxAttempts ? this.selectNode(model, tried, encrypted) : null;
+      if (secondary) tried.add(secondary.address);
+
+      const racers = [primary, ...(secondary ? [secondary] : [])].map((node) => {
+        const controller = new AbortController();
+        const source = this.chatCompletion(node, messages, this.resolveModelName(node, model), options, controller.signal, encrypted);
+        const started = Date.now();
+        const firstChunk = (async () => {
+          const result = await source.next();
+          if (result.done) return { error: "Empty response" };
+          if (result.value.error) return { error: result.value.error };
+          return { chunk: result.value };
+        })();
+        return { node, controller, source, started, firstChunk, hedged: !!secondary };
+      });
+
+      // Whoever produces the first chunk serves the request
+      let pending = racers;
+      let winner: (typeof racers)[number] | null = null;
+      let firstChunk: ChatChunk | null = null;
+      while (pending.length > 0 && !winner) {
+        const settled = await Promise.race(pending.map(async (racer) => ({ racer, result: await racer.firstChunk })));
+        pending = pending.filter((r) => r !== settled.racer);
+        if ("chunk" in settled.result && settled.result.chunk) {
+          winner = settled.racer;
+          firstChunk = settled.result.chunk;
+        } else {
+          const error = settled.result.error || "Unknown error";
+          errors.push(`${settled.racer.node.address}: ${error}`);
+          yield {
+            attempt: {
+              node: settled.racer.node,
+              outcome: "failed",
+              latencyMs: Date.now() - settled.racer.started,
+              firstTokenMs: null,
+              error,
+              hedged: settled.racer.hedged,
+            },
+          };
+        }
+      }
+
+      if (!winner || !firstChunk) continue;
+
+      for (const loser of pending) {
+        loser.controller.abort();
+        yield {
+          attempt: {
+            node: loser.node,
+            outcome: "cancelled",
+            latencyMs: Date.now() - loser.started,
+            firstTokenMs: null,
+            error: null,
+            hedged: true,
+          },
+        };
+      }
+
+      const firstTokenMs = Date.now() - winner.started;
+      yield { servedBy: winner.node };
+      yield firstChunk;
+
+      let streamError: string | null = null;
+      for (let result = await winner.source.next(); !result.done; result = await winner.source.next()) {
+        if (result.value.error) streamError = result.value.error;
+        yield result.value;
+      }
+
+      yield {
+        attempt: {
+          node: winner.node,
+          outcome: streamError ? "failed" : "served",
+          latencyMs: Date.now() - winner.started,
+          firstTokenMs,
+          error: streamError,
+          hedged: winner.hedged,
+        },
+      };
+      return;
+    }
+
+    yield { error: errors.length > 0 ? `All nodes failed (${errors.join("; ")})` : "No healthy nodes available for this model" };
+  }
+
   /**
    * Non-streaming chat completion
    */
   async chatCompletionSync(
     node: OllamaNode,
     messages: OllamaMessage[],
-    model: string
+    model: string,
+    options?: OllamaOptions
   ): Promise<{ content: string; totalDuration?: number; evalCount?: number }> {
     let fullContent = "";
     let metadata: { totalDuration?: number; evalCount?: number } = {};
 
-    for await (const chunk of this.chatCompletion(node, messages, model)) {
+    for await (const chunk of this.chatCompletion(node, messages, model, options)) {
       if (chunk.error) {
         throw new Error(chunk.error);
       }
@@ -290,14 +657,14 @@ class OllamaService extends EventEmitter {
    * Run health checks on all nodes
    */
   private async runHealthChecks(): Promise<void> {
-    const checks: Promise<void>[] = [];
+    const checks: Promise<HealthCheckResult>[] = [];
 
     for (const [address, node] of this.nodes) {
       checks.push(this.checkNodeHealth(address, node));
     }
 
-    await Promise.allSettled(checks);
-    this.emit("healthChecksComplete", this.getHealthySummary());
+    const results = await Promise.all(checks);
+    this.emit("healthChecksComplete", this.getHealthySummary(), results);
   }
 
   /**
@@ -306,7 +673,7 @@ class OllamaService extends EventEmitter {
   private async checkNodeHealth(
     address: string,
     node: OllamaNode
-  ): Promise<void> {
+  ): Promise<HealthCheckResult> {
     const startTime = Date.now();
 
     try {
@@ -321,8 +688,10 @@ class OllamaService extends EventEmitter {
 
       if (!response.ok) {
         node.isHealthy = false;
+        node.lastHealthCheck = new Date();
         console.log(`[Ollama] Node ${address} unhealthy: HTTP ${response.status}`);
-        return;
+        this.emit("nodeUnhealthy", address, node);
+        return { address, passed: false, latencyMs: Date.now() - startTime, error: `HTTP ${response.status}`, checkedAt: node.lastHealthCheck };
       }
 
       const data = await response.json();
@@ -334,13 +703,12 @@ class OllamaService extends EventEmitter {
 
       // Update supported models from actual node response
       if (data.models && Array.isArray(data.models)) {
-        const modelNames = data.models.map(
-          (m: { name: string }) => m.name.split(":")[0]
-        );
-        node.supportedModels = modelNames;
+        node.models = await this.describeModels(node, data.models);
+        node.supportedModels = Array.from(new Set(node.models.map((m) => m.family)));
       }
 
       this.emit("nodeHealthy", address, node);
+      return { address, passed: true, latencyMs: latency, error: null, checkedAt: node.lastHealthCheck };
     } catch (error) {
       node.isHealthy = false;
       node.lastHealthCheck = new Date();
@@ -349,6 +717,69 @@ class OllamaService extends EventEmitter {
         (error as Error).message
       );
       this.emit("nodeUnhealthy", address, node);
+      return { address, passed: false, latencyMs: null, error: (error as Error).message, checkedAt: node.lastHealthCheck };
+    }
+  }
+
+  /**
+   * Whether an endpoint answers like an Ollama node (used before switching a node to it)
+   */
+  async probeEndpoint(endpoint: string): Promise<boolean> {
+    try {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), 5000);
+      const response = await fetch(`${endpoint}/api/tags`, { signal: controller.signal });
+      clearTimeout(timeoutId);
+      if (!response.ok) return false;
+      const data = await response.json();
+      return Array.isArray(data.models);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Build descriptors for a node's models, asking /api/show for builds not seen before
+   */
+  private async describeModels(node: OllamaNode, entries: OllamaTagEntry[]): Promise<OllamaModelDescriptor[]> {
+    const models: OllamaModelDescriptor[] = [];
+    for (const entry of entries) {
+      const model = toModelDescriptor(entry);
+      if (model.digest && !this.contextLengths.has(model.digest)) {
+        const contextLength = await this.fetchContextLength(node, model.name);
+        // Failed lookups are not cached so the next health check retries them
+        if (contextLength !== undefined) this.contextLengths.set(model.digest, contextLength);
+      }
+      model.contextLength = this.contextLengths.get(model.digest) ?? null;
+      models.push(model);
+    }
+    return models;
+  }
+
+  /**
+   * Context length of a model from /api/show (null when the model does not report one,
+   * undefined when the node could not be asked)
+   */
+  private async fetchContextLength(node: OllamaNode, model: string): Promise<number | null | undefined> {
+    try {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), 5000);
+      const response = await fetch(`${node.endpoint}/api/show`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ model }),
+        signal: controller.signal,
+      });
+      clearTimeout(timeoutId);
+      if (!response.ok) return undefined;
+
+      const data = await response.json();
+      // model_info keys are prefixed with the architecture, e.g. "llama.context_length"
+      const key = Object.keys(data.model_info || {}).find((k) => k.endsWith(".context_length"));
+      return key ? Number(data.model_info[key]) : null;
+    } catch (error) {
+      console.log(`[Ollama] Failed to describe ${model} on ${node.address}:`, (error as Error).message);
+      return undefined;
     }
   }
 
@@ -400,12 +831,34 @@ class OllamaService extends EventEmitter {
     return Array.from(models).sort();
   }
 
+  /**
+   * Get every model variant served by healthy nodes, grouped by tag and digest
+   */
+  getModelVariants(): OllamaModelVariant[] {
+    const variants = new Map<string, OllamaModelVariant & { totalLatencyMs: number }>();
+    for (const node of this.nodes.values()) {
+      if (!node.isHealthy) continue;
+      for (const model of node.models || []) {
+        const id = modelVariantId(model);
+        const variant = variants.get(id) || { ...model, id, nodeCount: 0, avgLatencyMs: 0, totalLatencyMs: 0 };
+        variant.nodeCount++;
+        variant.totalLatencyMs += node.latencyMs;
+        variant.contextLength = variant.contextLength ?? model.contextLength;
+        variants.set(id, variant);
+      }
+    }
+    return Array.from(variants.values())
+      .map(({ totalLatencyMs, ...variant }) => ({ ...variant, avgLatencyMs: Math.round(totalLatencyMs / variant.nodeCount) }))
+      .sort((a, b) => a.name.localeCompare(b.name) || b.nodeCount - a.nodeCount);
+  }
+
   /**
    * Check if a specific model is available
    */
-  isModelAvailable(model: string): boolean {
+  isModelAvailable(model: string, encrypted = false): boolean {
     for (const node of this.nodes.values()) {
-      if (node.isHealthy && node.supportedModels.includes(model)) {
+      if (encrypted && !this.supportsEncryption(node)) continue;
+      if (node.isHealthy && this.isAcceptingRequests(node) && this.servesModel(node, model)) {
         return true;
       }
     }
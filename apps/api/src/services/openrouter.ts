@@ -1,3 +1,5 @@
+import { chatProviders } from "./chatProviders";
+
 type ChatMessage = { role: "user" | "assistant" | "system"; content: string };
 
 type ChatCompletionInput = {
@@ -5,11 +7,22 @@ type ChatCompletionInput = {
   model?: string;
 };
 
+export type ChatCompletionUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+};
+
+export type ChatCompletionResult = {
+  content: string;
+  usage: ChatCompletionUsage | null; // null when the provider omits the usage block
+  finishReason: string | null;
+  generationId: string | null;
+  provider: string; // which backend served it (see chatProviders)
+};
+
 const baseUrl = process.env.OPENROUTER_BASE_URL || "https://openrouter.ai/api/v1";
 const defaultModel = process.env.OPENROUTER_MODEL; // optional; prefer DB-provided model
-const apiKey = process.env.OPENROUTER_API_KEY;
-const referer = process.env.APP_URL || "http://localhost";
-const title = "ZeroPrompt";
 
 export type OpenRouterModel = {
   id: string;
@@ -39,40 +52,30 @@ export async function getModels(): Promise<OpenRouterModel[]> {
   return data.data || [];
 }
 
-export async function chatCompletion(input: ChatCompletionInput): Promise<string> {
-  if (!apiKey) {
-    throw new Error("Missing OPENROUTER_API_KEY");
-  }
-
+/**
+ * Non-streaming completion, routed through the model's provider chain
+ */
+export async function chatCompletion(input: ChatCompletionInput): Promise<ChatCompletionResult> {
   const targetModel = input.model || defaultModel;
   if (!targetModel) {
     throw new Error("Model required (provide one from the DB)");
   }
 
-  const payload = {
-    model: targetModel,
-    messages: input.messages
-  };
+  const { provider, data } = await chatProviders.complete({ model: targetModel, messages: input.messages });
 
-  const response = await fetch(`${baseUrl}/chat/completions`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-      "HTTP-Referer": referer,
-      "X-Title": title
-    },
-    body: JSON.stringify(payload)
-  });
+  const usage = data.usage
+    ? {
+        promptTokens: data.usage.prompt_tokens || 0,
+        completionTokens: data.usage.completion_tokens || 0,
+        totalTokens: data.usage.total_tokens || (data.usage.prompt_tokens || 0) + (data.usage.completion_tokens || 0)
+      }
+    : null;
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`OpenRouter error: ${response.status} ${errorText}`);
-  }
-
-  const data = (await response.json()) as {
-    choices: { message: { content: string } }[];
+  return {
+    content: data.choices?.[0]?.message?.content || "",
+    usage,
+    finishReason: data.choices?.[0]?.finish_reason ?? null,
+    generationId: data.id ?? null,
+    provider
   };
-
-  return data.choices?.[0]?.message?.content || "";
 }
@@ -0,0 +1,201 @@
+import { ethers } from "ethers";
+import { prisma } from "../prisma";
+import { canonicalJson } from "./challenges";
+import { ollamaService, OllamaNode } from "./ollama";
+import { subnetNodeService } from "./subnetNodes";
+
+/**
+ * Operator Actions - self-service changes operators make to their node without a transaction
+ *
+ * Each action is a message signed by the operator wallet (see operatorActionMessage),
+ * with a nonce that is recorded so a signature is accepted only once. Actions are
+ * written to OperatorCache and applied to OllamaService right away. Announced
+ * endpoints and model lists stay in effect until the operator's registry entry
+ * changes after them; drain and maintenance windows only exist off-chain.
+ */
+
+export const OPERATOR_ACTIONS = ["maintenance", "drain", "endpoint", "models"] as const;
+export type OperatorActionType = (typeof OPERATOR_ACTIONS)[number];
+
+// How far issuedAt may be from the server clock
+export const ACTION_MAX_AGE_MS = 5 * 60 * 1000;
+// Longest maintenance window an operator can announce
+export const MAX_MAINTENANCE_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_MODELS = 100;
+
+export interface SignedOperatorAction {
+  payload: unknown;
+  nonce: string;
+  issuedAt: string; // ISO timestamp
+  signature: string;
+}
+
+export class OperatorActionError extends Error {
+  constructor(public code: string, public status: number, message: string) {
+    super(message);
+    this.name = "OperatorActionError";
+  }
+}
+
+/**
+ * The text an operator signs (EIP-191 personal_sign) for an action
+ */
+export function operatorActionMessage(
+  action: OperatorActionType,
+  operatorAddress: string,
+  payload: unknown,
+  nonce: string,
+  issuedAt: string
+): string {
+  return [
+    "ZeroPrompt operator action",
+    `Action: ${action}`,
+    `Operator: ${operatorAddress.toLowerCase()}`,
+    `Payload: ${canonicalJson(payload)}`,
+    `Nonce: ${nonce}`,
+    `Issued At: ${issuedAt}`,
+  ].join("\n");
+}
+
+function isAction(action: string): action is OperatorActionType {
+  return (OPERATOR_ACTIONS as readonly string[]).includes(action);
+}
+
+/**
+ * Validate an action's payload and turn it into the OperatorCache update it makes
+ */
+async function cacheUpdate(action: OperatorActionType, payload: any, now: Date): Promise<Record<string, unknown>> {
+  if (!payload || typeof payload !== "object") {
+    throw new OperatorActionError("invalid_payload", 400, "payload must be an object");
+  }
+
+  switch (action) {
+    case "drain":
+      if (typeof payload.draining !== "boolean") {
+        throw new OperatorActionError("invalid_payload", 400, "draining must be true or false");
+      }
+      return { draining: payload.draining };
+
+    case "maintenance": {
+      if (payload.cancel === true) {
+        return { maintenanceStartsAt: null, maintenanceEndsAt: null, maintenanceReason: null };
+      }
+      const startsAt = new Date(payload.startsAt);
+      const endsAt = new Date(payload.endsAt);
+      if (isNaN(startsAt.getTime()) || isNaN(endsAt.getTime()) || endsAt <= startsAt || endsAt <= now) {
+        throw new OperatorActionError("invalid_window", 400, "startsAt and endsAt must be dates, with endsAt after startsAt and in the future");
+      }
+      if (endsAt.getTime() - startsAt.getTime() > MAX_MAINTENANCE_MS) {
+        throw new OperatorActionError("invalid_window", 400, "Maintenance windows can last 7 days at most");
+      }
+      const reason = typeof payload.reason === "string" ? payload.reason.slice(0, 255) : null;
+      return { maintenanceStartsAt: startsAt, maintenanceEndsAt: endsAt, maintenanceReason: reason };
+    }
+
+    case "endpoint": {
+      const endpoint = typeof payload.endpoint === "string" ? payload.endpoint.trim().replace(/\/+$/, "") : "";
+      let url: URL;
+      try {
+        url = new URL(endpoint);
+      } catch {
+        throw new OperatorActionError("invalid_endpoint", 400, "endpoint must be an http(s) URL");
+      }
+      if (url.protocol !== "http:" && url.protocol !== "https:") {
+        throw new OperatorActionError("invalid_endpoint", 400, "endpoint must be an http(s) URL");
+      }
+      // Never route users to an endpoint that does not answer like Ollama
+      if (!(await ollamaService.probeEndpoint(endpoint))) {
+        throw new OperatorActionError("endpoint_unreachable", 422, `${endpoint}/api/tags did not answer with a model list`);
+      }
+      return { endpoint, endpointAnnouncedAt: now };
+    }
+
+    case "models": {
+      const models = Array.isArray(payload.models)
+        ? Array.from(new Set<string>(payload.models.filter((m: unknown) => typeof m === "string").map((m: string) => m.trim()).filter(Boolean)))
+        : [];
+      if (models.length === 0 || models.length > MAX_MODELS) {
+        throw new OperatorActionError("invalid_models", 400, `models must list 1-${MAX_MODELS} model names`);
+      }
+      return { supportedModels: models, modelsAnnouncedAt: now };
+    }
+  }
+}
+
+/**
+ * Verify a signed action by `operatorAddress` and apply it. Returns the node as now routed,
+ * or null if the operator dropped out of the registry meanwhile.
+ */
+export async function performOperatorAction(
+  operatorAddress: string,
+  action: string,
+  signed: SignedOperatorAction
+): Promise<OllamaNode | null> {
+  if (!isAction(action)) {
+    throw new OperatorActionError("unknown_action", 404, `Unknown action ${action}`);
+  }
+
+  let address: string;
+  try {
+    address = ethers.getAddress(operatorAddress);
+  } catch {
+    throw new OperatorActionError("invalid_address", 400, "Invalid operator address");
+  }
+
+  const { payload, nonce, issuedAt, signature } = signed || ({} as SignedOperatorAction);
+  if (typeof nonce !== "string" || nonce.length < 8 || nonce.length > 64 || typeof signature !== "string" || typeof issuedAt !== "string") {
+    throw new OperatorActionError("invalid_request", 400, "payload, nonce (8-64 chars), issuedAt and signature are required");
+  }
+
+  const now = new Date();
+  const issued = new Date(issuedAt);
+  if (isNaN(issued.getTime()) || Math.abs(now.getTime() - issued.getTime()) > ACTION_MAX_AGE_MS) {
+    throw new OperatorActionError("signature_expired", 401, "issuedAt must be within 5 minutes of now");
+  }
+
+  let recovered: string;
+  try {
+    recovered = ethers.verifyMessage(operatorActionMessage(action, address, payload, nonce, issuedAt), signature);
+  } catch {
+    throw new OperatorActionError("invalid_signature", 400, "Signature could not be decoded");
+  }
+  if (recovered !== address) {
+    throw new OperatorActionError("wallet_mismatch", 401, "Signature is not from the operator");
+  }
+
+  const operator = await prisma.operatorCache.findFirst({ where: { operatorAddress: address, isActive: true } });
+  if (!operator) {
+    throw new OperatorActionError("not_an_operator", 403, `${address} is not an active operator`);
+  }
+
+  const data = await cacheUpdate(action, payload, now);
+
+  try {
+    await prisma.operatorAction.create({
+      data: { operatorAddress: address, action, payload: payload as object, nonce, signature, issuedAt: issued },
+    });
+  } catch (error: any) {
+    // Unique (operator, nonce): this signature was already used
+    if (error?.code === "P2002") {
+      throw new OperatorActionError("nonce_reused", 409, "This nonce was already used");
+    }
+    throw error;
+  }
+
+  await prisma.operatorCache.update({ where: { operatorAddress: address }, data });
+  console.log(`[OperatorActions] ${address} ${action}: ${canonicalJson(payload)}`);
+
+  return subnetNodeService.refreshOperator(address);
+}
+
+/**
+ * An operator's recent actions, newest first
+ */
+export async function listOperatorActions(operatorAddress: string, limit = 50) {
+  return prisma.operatorAction.findMany({
+    where: { operatorAddress: ethers.getAddress(operatorAddress) },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+    select: { action: true, payload: true, nonce: true, issuedAt: true, createdAt: true },
+  });
+}
@@ -94,6 +94,16 @@ export function countTokens(text: string): number {
   }
 }
 
+/**
+ * Count tokens over a full chat message array (non-string content is serialized)
+ */
+export function countMessageTokens(messages: { content?: unknown }[]): number {
+  return (messages || []).reduce((sum, m) => {
+    const content = typeof m?.content === "string" ? m.content : JSON.stringify(m?.content ?? "");
+    return sum + countTokens(content);
+  }, 0);
+}
+
 // ============================================================================
 // MODEL INFO - Get pricing DIRECTLY from OpenRouter API (real-time)
 // ============================================================================
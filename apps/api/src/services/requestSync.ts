@@ -0,0 +1,183 @@
+import { v4 as uuidv4 } from "uuid";
+import { prisma } from "../prisma";
+
+/**
+ * Request Sync - batches of OllamaRequestLog rows on their way to SubnetRewards
+ *
+ * The request log is the source of truth. Unclaimed rows are cut into a batch
+ * (rows point at it through batchId) and only the rows of a confirmed batch are
+ * marked synced, so nothing is lost on a crash and nothing is counted twice:
+ * every hash broadcast for a batch is stored before the broadcast, and a batch
+ * is only resubmitted once none of them can land any more. SubnetNodeService
+ * does the chain side; this module keeps the bookkeeping.
+ */
+
+export const BATCH_SIZE = 1000;
+// Attempts before a batch stops retrying on its own and waits for an admin
+export const MAX_ATTEMPTS = 5;
+
+export type BatchStatus = "pending" | "submitted" | "confirmed" | "failed";
+
+export interface OperatorRequests {
+  address: string;
+  requests: number;
+  successful: number;
+  totalLatencyMs: number;
+  tokens: number; // prompt + completion tokens of successful requests - what epoch rewards are weighted by
+}
+
+/**
+ * The oldest batch that still has to reach the chain
+ */
+export async function nextOpenBatch() {
+  return prisma.requestSyncBatch.findFirst({
+    where: { status: { in: ["pending", "submitted"] } },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+/**
+ * Claim up to `limit` unsynced log rows into a new batch
+ */
+export async function claimBatch(epoch: number | null, limit: number = BATCH_SIZE) {
+  const logs = await prisma.ollamaRequestLog.findMany({
+    where: { synced: false, batchId: null, operatorAddress: { not: null } },
+    orderBy: { id: "asc" },
+    take: limit,
+    select: { id: true },
+  });
+  if (logs.length === 0) return null;
+
+  const id = uuidv4();
+  await prisma.$transaction([
+    prisma.requestSyncBatch.create({ data: { id, epoch } }),
+    prisma.ollamaRequestLog.updateMany({
+      where: { id: { in: logs.map((l: { id: number }) => l.id) }, batchId: null },
+      data: { batchId: id },
+    }),
+  ]);
+
+  const entries = await batchEntries(id);
+  return prisma.requestSyncBatch.update({
+    where: { id },
+    data: {
+      requestCount: entries.reduce((sum, e) => sum + e.requests, 0),
+      operatorCount: entries.length,
+    },
+  });
+}
+
+/**
+ * Per-operator totals of the rows in a batch - recomputed from the log on every attempt
+ */
+export async function batchEntries(batchId: string): Promise<OperatorRequests[]> {
+  const groups = await prisma.ollamaRequestLog.groupBy({
+    by: ["operatorAddress", "success"],
+    where: { batchId },
+    _count: true,
+    _sum: { latencyMs: true, inputTokens: true, outputTokens: true },
+  });
+
+  const entries = new Map<string, OperatorRequests>();
+  for (const group of groups as {
+    operatorAddress: string; success: boolean; _count: number;
+    _sum: { latencyMs: number | null; inputTokens: number | null; outputTokens: number | null };
+  }[]) {
+    const entry = entries.get(group.operatorAddress) || { address: group.operatorAddress, requests: 0, successful: 0, totalLatencyMs: 0, tokens: 0 };
+    entry.requests += group._count;
+    if (group.success) {
+      entry.successful += group._count;
+      entry.tokens += (group._sum.inputTokens ?? 0) + (group._sum.outputTokens ?? 0);
+    }
+    entry.totalLatencyMs += group._sum.latencyMs ?? 0;
+    entries.set(group.operatorAddress, entry);
+  }
+  return Array.from(entries.values()).sort((a, b) => a.address.localeCompare(b.address));
+}
+
+export function batchHashes(batch: { txHashes?: unknown }): string[] {
+  return Array.isArray(batch.txHashes) ? (batch.txHashes as string[]) : [];
+}
+
+/**
+ * Record a signed transaction before it is broadcast
+ */
+export async function markSubmitted(batch: { id: string; txHashes?: unknown }, txHash: string, nonce: number) {
+  return prisma.requestSyncBatch.update({
+    where: { id: batch.id },
+    data: {
+      status: "submitted",
+      txHash,
+      txHashes: [...batchHashes(batch), txHash],
+      nonce,
+      submittedAt: new Date(),
+    },
+  });
+}
+
+export async function markConfirmed(batchId: string, txHash: string, blockNumber: number) {
+  await prisma.$transaction([
+    prisma.ollamaRequestLog.updateMany({ where: { batchId }, data: { synced: true } }),
+    prisma.requestSyncBatch.update({
+      where: { id: batchId },
+      data: { status: "confirmed", txHash, blockNumber, lastError: null, confirmedAt: new Date() },
+    }),
+  ]);
+}
+
+/**
+ * Note a failed attempt; past MAX_ATTEMPTS the batch is parked as failed
+ */
+export async function markAttemptFailed(batch: { id: string; attempts: number }, error: string) {
+  return prisma.requestSyncBatch.update({
+    where: { id: batch.id },
+    data: {
+      status: batch.attempts + 1 >= MAX_ATTEMPTS ? "failed" : "pending",
+      attempts: { increment: 1 },
+      lastError: error.slice(0, 2000),
+    },
+  });
+}
+
+/**
+ * Put a failed batch back in the queue (admin action)
+ */
+export async function retryBatch(batchId: string) {
+  const batch = await prisma.requestSyncBatch.findUnique({ where: { id: batchId } });
+  if (!batch || batch.status !== "failed") return null;
+  return prisma.requestSyncBatch.update({
+    where: { id: batchId },
+    data: { status: "pending", attempts: 0 },
+  });
+}
+
+/**
+ * Batches not confirmed yet, grouped by epoch, and how many rows wait for a batch
+ */
+export async function getSyncBacklog() {
+  const [batches, unbatched] = await Promise.all([
+    prisma.requestSyncBatch.findMany({
+      where: { status: { not: "confirmed" } },
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.ollamaRequestLog.count({ where: { synced: false, batchId: null, operatorAddress: { not: null } } }),
+  ]);
+
+  const epochs = new Map<number | null, any[]>();
+  for (const batch of batches) {
+    const list = epochs.get(batch.epoch) || [];
+    list.push(batch);
+    epochs.set(batch.epoch, list);
+  }
+
+  return {
+    unbatchedRequests: unbatched,
+    epochs: Array.from(epochs, ([epoch, list]) => ({
+      epoch,
+      pending: list.filter((b) => b.status === "pending" || b.status === "submitted").length,
+      failed: list.filter((b) => b.status === "failed").length,
+      requests: list.reduce((sum, b) => sum + b.requestCount, 0),
+      batches: list,
+    })),
+  };
+}
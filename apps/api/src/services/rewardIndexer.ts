@@ -0,0 +1,293 @@
+import { ethers } from "ethers";
+import { prisma } from "../prisma";
+
+/**
+ * Reward Indexer - per-epoch reward history from SubnetRewards events
+ *
+ * Follows RequestsRecorded, EpochFinalized and RewardsClaimed from a stored block
+ * cursor. An event only says which epoch (and operator) changed; the row is then
+ * read back from the contract's own accounting, so indexing a block range twice is
+ * harmless. Rewards are computed the way claimRewards pays them:
+ * rewardsPool * weightedTokens / totalWeightedTokens.
+ */
+
+// Merged into SubnetNodeService's SUBNET_REWARDS_ABI
+export const REWARD_HISTORY_ABI = [
+  "event RequestsRecorded(uint256 indexed epoch, address indexed operator, uint256 requests, uint256 successful, uint256 avgLatencyMs, uint256 tokens)",
+  "event EpochFinalized(uint256 indexed epoch, uint256 totalRequests, uint256 rewardsPool)",
+  "event RewardsClaimed(uint256 indexed epoch, address indexed operator, uint256 amount)",
+  "function epochs(uint256 epoch) view returns (uint256 totalRequests, uint256 totalWeightedRequests, uint256 rewardsPool, bool finalized, uint256 totalTokens, uint256 totalWeightedTokens)",
+  "function operatorEpochs(uint256 epoch, address operator) view returns (uint256 requests, uint256 successfulRequests, uint256 totalLatencyMs, uint256 weightedRequests, bool claimed, uint256 tokens, uint256 weightedTokens)",
+  "function claimMultipleEpochs(uint256[] epochList)",
+];
+
+const CURSOR_NAME = "subnet_rewards";
+const LOG_QUERY_CHUNK = 2000;
+const MAX_CHUNKS_PER_SYNC = 10;
+// Block SubnetRewards was deployed at; nothing to index before it
+const START_BLOCK = Number(process.env.SUBNET_REWARDS_START_BLOCK || 0);
+
+const historyInterface = new ethers.Interface(REWARD_HISTORY_ABI);
+const EVENT_TOPICS = ["RequestsRecorded", "EpochFinalized", "RewardsClaimed"].map(
+  (name) => historyInterface.getEvent(name)!.topicHash
+);
+
+export type EpochRewardStatus = "open" | "claimable" | "claimed" | "no_reward";
+
+export interface EpochRewardEntry {
+  epoch: number;
+  requests: number;
+  successfulRequests: number;
+  tokens: string;
+  weightedTokens: string;
+  sharePercent: string; // of the epoch's weighted tokens
+  finalized: boolean;
+  reward: string | null; // ZEROP; null while the epoch is open
+  status: EpochRewardStatus;
+  claimTxHash: string | null;
+  claimedAt: Date | null;
+}
+
+export interface RewardHistory {
+  operatorAddress: string;
+  indexedBlock: number | null;
+  epochs: EpochRewardEntry[];
+  claimableEpochs: number[];
+  unclaimedReward: string; // ZEROP
+  claimedReward: string; // ZEROP
+}
+
+function rewardWei(pool: string, weighted: string, totalWeighted: string): bigint {
+  const total = BigInt(totalWeighted);
+  return total > 0n ? (BigInt(pool) * BigInt(weighted)) / total : 0n;
+}
+
+function sharePercent(weighted: string, totalWeighted: string): string {
+  const total = BigInt(totalWeighted);
+  if (total === 0n) return "0.00";
+  return (Number((BigInt(weighted) * 10000n) / total) / 100).toFixed(2);
+}
+
+class RewardIndexer {
+  private contract: ethers.Contract | null = null;
+  private provider: ethers.Provider | null = null;
+  private syncing = false;
+
+  /**
+   * Index events of this SubnetRewards contract (called by SubnetNodeService.initialize)
+   */
+  attach(contract: ethers.Contract, provider: ethers.Provider): void {
+    this.contract = contract;
+    this.provider = provider;
+  }
+
+  /**
+   * Process new blocks, up to MAX_CHUNKS_PER_SYNC log queries per call.
+   * Returns the number of events seen.
+   */
+  async sync(): Promise<number> {
+    if (!this.contract || !this.provider || this.syncing) return 0;
+    this.syncing = true;
+
+    try {
+      const address = await this.contract.getAddress();
+      const head = await this.provider.getBlockNumber();
+      const cursor = await prisma.chainIndexCursor.findUnique({ where: { name: CURSOR_NAME } });
+      let from = cursor ? cursor.blockNumber + 1 : START_BLOCK;
+      let events = 0;
+
+      for (let i = 0; i < MAX_CHUNKS_PER_SYNC && from <= head; i++) {
+        const to = Math.min(from + LOG_QUERY_CHUNK - 1, head);
+        const logs = await this.provider.getLogs({ address, topics: [EVENT_TOPICS], fromBlock: from, toBlock: to });
+        await this.apply(logs);
+        await prisma.chainIndexCursor.upsert({
+          where: { name: CURSOR_NAME },
+          create: { name: CURSOR_NAME, blockNumber: to },
+          update: { blockNumber: to },
+        });
+        events += logs.length;
+        from = to + 1;
+      }
+
+      if (events > 0) {
+        console.log(`[RewardIndexer] Indexed ${events} events up to block ${from - 1}`);
+      }
+      return events;
+    } catch (error) {
+      console.error("[RewardIndexer] Sync failed:", error);
+      return 0;
+    } finally {
+      this.syncing = false;
+    }
+  }
+
+  private async apply(logs: ethers.Log[]): Promise<void> {
+    const epochs = new Map<number, ethers.Log | null>(); // epoch -> its EpochFinalized log
+    const operatorEpochs = new Map<string, { epoch: number; operator: string }>();
+    const claims: { epoch: number; operator: string; amount: string; log: ethers.Log }[] = [];
+
+    for (const log of logs) {
+      const parsed = historyInterface.parseLog({ topics: [...log.topics], data: log.data });
+      if (!parsed) continue;
+      const epoch = Number(parsed.args.epoch);
+
+      if (parsed.name === "EpochFinalized") {
+        epochs.set(epoch, log);
+        continue;
+      }
+      const operator = ethers.getAddress(parsed.args.operator);
+      operatorEpochs.set(`${epoch}:${operator}`, { epoch, operator });
+      if (!epochs.has(epoch)) epochs.set(epoch, null);
+      if (parsed.name === "RewardsClaimed") {
+        claims.push({ epoch, operator, amount: parsed.args.amount.toString(), log });
+      }
+    }
+
+    const blockTimes = new Map<number, Date>();
+    const blockTime = async (blockNumber: number) => {
+      if (!blockTimes.has(blockNumber)) {
+        const block = await this.provider!.getBlock(blockNumber);
+        blockTimes.set(blockNumber, block ? new Date(block.timestamp * 1000) : new Date());
+      }
+      return blockTimes.get(blockNumber)!;
+    };
+
+    for (const [epoch, finalizedLog] of epochs) {
+      const e = await this.contract!.epochs(epoch);
+      const data = {
+        totalRequests: Number(e.totalRequests),
+        totalTokens: e.totalTokens.toString(),
+        totalWeightedTokens: e.totalWeightedTokens.toString(),
+        rewardsPool: e.rewardsPool.toString(),
+        finalized: e.finalized,
+        ...(finalizedLog && {
+          finalizedTxHash: finalizedLog.transactionHash,
+          finalizedAt: await blockTime(finalizedLog.blockNumber),
+        }),
+      };
+      await prisma.subnetEpoch.upsert({ where: { epoch }, create: { epoch, ...data }, update: data });
+    }
+
+    for (const { epoch, operator } of operatorEpochs.values()) {
+      const op = await this.contract!.operatorEpochs(epoch, operator);
+      const data = {
+        requests: Number(op.requests),
+        successfulRequests: Number(op.successfulRequests),
+        tokens: op.tokens.toString(),
+        weightedTokens: op.weightedTokens.toString(),
+        claimed: op.claimed,
+      };
+      await prisma.operatorEpochReward.upsert({
+        where: { epoch_operatorAddress: { epoch, operatorAddress: operator } },
+        create: { epoch, operatorAddress: operator, ...data },
+        update: data,
+      });
+    }
+
+    for (const claim of claims) {
+      await prisma.operatorEpochReward.update({
+        where: { epoch_operatorAddress: { epoch: claim.epoch, operatorAddress: claim.operator } },
+        data: {
+          claimed: true,
+          claimedAmount: claim.amount,
+          claimTxHash: claim.log.transactionHash,
+          claimedAt: await blockTime(claim.log.blockNumber),
+        },
+      });
+    }
+  }
+
+  /**
+   * An operator's indexed epochs, newest first, with what each paid or will pay
+   */
+  async getRewardHistory(operatorAddress: string, limit = 100): Promise<RewardHistory> {
+    const address = ethers.getAddress(operatorAddress);
+    const [rows, cursor] = await Promise.all([
+      prisma.operatorEpochReward.findMany({
+        where: { operatorAddress: address },
+        orderBy: { epoch: "desc" },
+        take: limit,
+      }),
+      prisma.chainIndexCursor.findUnique({ where: { name: CURSOR_NAME } }),
+    ]);
+    const epochRows = await prisma.subnetEpoch.findMany({
+      where: { epoch: { in: rows.map((r: { epoch: number }) => r.epoch) } },
+    });
+    const epochsById = new Map(epochRows.map((e: any) => [e.epoch, e]));
+
+    let unclaimed = 0n;
+    let claimed = 0n;
+    const entries: EpochRewardEntry[] = rows.map((row: any) => {
+      const epoch: any = epochsById.get(row.epoch);
+      const finalized = !!epoch?.finalized;
+      const totalWeighted = epoch?.totalWeightedTokens ?? "0";
+      const wei = row.claimedAmount
+        ? BigInt(row.claimedAmount)
+        : finalized
+          ? rewardWei(epoch.rewardsPool, row.weightedTokens, totalWeighted)
+          : null;
+
+      let status: EpochRewardStatus;
+      if (row.claimed) status = "claimed";
+      else if (!finalized) status = "open";
+      else if (BigInt(row.weightedTokens) === 0n) status = "no_reward";
+      else status = "claimable";
+
+      if (status === "claimed") claimed += wei ?? 0n;
+      if (status === "claimable") unclaimed += wei ?? 0n;
+
+      return {
+        epoch: row.epoch,
+        requests: row.requests,
+        successfulRequests: row.successfulRequests,
+        tokens: row.tokens,
+        weightedTokens: row.weightedTokens,
+        sharePercent: sharePercent(row.weightedTokens, totalWeighted),
+        finalized,
+        reward: wei === null ? null : ethers.formatEther(wei),
+        status,
+        claimTxHash: row.claimTxHash,
+        claimedAt: row.claimedAt,
+      };
+    });
+
+    return {
+      operatorAddress: address,
+      indexedBlock: cursor?.blockNumber ?? null,
+      epochs: entries,
+      claimableEpochs: entries.filter((e) => e.status === "claimable").map((e) => e.epoch),
+      unclaimedReward: ethers.formatEther(unclaimed),
+      claimedReward: ethers.formatEther(claimed),
+    };
+  }
+
+  /**
+   * claimMultipleEpochs call data for the operator's claimable epochs (all of them, or
+   * those of `epochs` that are). The contract silently skips ineligible epochs, so they
+   * are filtered here to show the operator what the transaction will actually pay.
+   */
+  async prepareClaim(operatorAddress: string, epochs?: number[]): Promise<{
+    epochs: number[];
+    skipped: number[];
+    reward: string;
+    data: string;
+  }> {
+    const history = await this.getRewardHistory(operatorAddress, 1000);
+    const claimable = new Set(history.claimableEpochs);
+    const requested = epochs ?? history.claimableEpochs;
+    const selected = requested.filter((e) => claimable.has(e));
+
+    const reward = history.epochs
+      .filter((e) => selected.includes(e.epoch))
+      .reduce((sum, e) => sum + ethers.parseEther(e.reward ?? "0"), 0n);
+
+    return {
+      epochs: selected,
+      skipped: requested.filter((e) => !claimable.has(e)),
+      reward: ethers.formatEther(reward),
+      data: historyInterface.encodeFunctionData("claimMultipleEpochs", [selected]),
+    };
+  }
+}
+
+export const rewardIndexer = new RewardIndexer();
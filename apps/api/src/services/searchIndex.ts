@@ -0,0 +1,188 @@
+import crypto from "crypto";
+import { prisma } from "../prisma";
+import { encryptionService } from "./encryption";
+
+/**
+ * Search Index - keyword search over encrypted conversation history
+ *
+ * Message content is AES-GCM encrypted at rest, so the database cannot match it.
+ * Instead every word of a message is stored as a blind token: an HMAC under a
+ * key derived per user, truncated to 128 bits. Queries are tokenized the same
+ * way and matched against those tokens; only the hits are decrypted, to build
+ * snippets. Tokens reveal nothing about the words and cannot be correlated
+ * across users. Matching is on whole words (case- and accent-insensitive).
+ */
+
+// Use a dedicated key in prod; falls back to the message encryption key
+const SEARCH_INDEX_KEY =
+  process.env.SEARCH_INDEX_KEY ||
+  process.env.ENCRYPTION_KEY ||
+  "00112233445566778899aabbccddeeff00112233445566778899aabbccddeeff";
+
+const MIN_TERM_LENGTH = 2;
+const MAX_TERM_LENGTH = 40;
+const MAX_TERMS_PER_MESSAGE = 1000;
+const MAX_QUERY_TERMS = 8;
+// Messages saved before the index (or whose indexing failed) are caught up at search time
+const BACKFILL_BATCH = 500;
+const MAX_CANDIDATES = 2000;
+const SNIPPET_RADIUS = 80;
+
+const STOPWORDS = new Set([
+  "the", "and", "for", "are", "but", "not", "you", "with", "this", "that", "was", "from", "have", "has",
+  "its", "it", "is", "in", "on", "of", "to", "an", "as", "at", "be", "by", "or", "if", "so", "do",
+  "el", "la", "los", "las", "de", "del", "en", "un", "una", "que", "por", "con", "para", "es", "se", "lo", "al", "y",
+]);
+
+export type AttachmentFilter = "image" | "video" | "audio" | "file" | "any" | "none";
+
+export interface SearchFilters {
+  model?: string;
+  from?: Date;
+  to?: Date;
+  attachment?: AttachmentFilter;
+  limit?: number;
+}
+
+export interface SearchHit {
+  messageId: number;
+  conversationId: string;
+  conversationTitle: string;
+  role: string;
+  model: string | null;
+  attachmentType: string | null;
+  createdAt: Date;
+  snippet: string;
+}
+
+const userKeys = new Map<number, Buffer>();
+
+function userKey(userId: number): Buffer {
+  let key = userKeys.get(userId);
+  if (!key) {
+    key = crypto.createHmac("sha256", SEARCH_INDEX_KEY).update(`search-index:user:${userId}`).digest();
+    userKeys.set(userId, key);
+  }
+  return key;
+}
+
+export function blindToken(userId: number, term: string): string {
+  return crypto.createHmac("sha256", userKey(userId)).update(term).digest("hex").slice(0, 32);
+}
+
+// Lowercase and drop accents without changing the length of precomposed characters
+function fold(text: string): string {
+  return text.normalize("NFKD").replace(/\p{M}/gu, "").toLowerCase();
+}
+
+/**
+ * Distinct searchable words of a text. URLs (generated media, sources) are skipped.
+ */
+export function tokenize(text: string): string[] {
+  const words = fold(text.replace(/https?:\/\/\S+/g, " ")).split(/[^\p{L}\p{N}]+/u);
+  const terms = new Set<string>();
+  for (const word of words) {
+    if (word.length < MIN_TERM_LENGTH || word.length > MAX_TERM_LENGTH || STOPWORDS.has(word)) continue;
+    terms.add(word);
+    if (terms.size >= MAX_TERMS_PER_MESSAGE) break;
+  }
+  return [...terms];
+}
+
+/**
+ * Excerpt of `content` around the first matching term
+ */
+export function buildSnippet(content: string, terms: string[], radius = SNIPPET_RADIUS): string {
+  const text = content.replace(/\s+/g, " ").trim();
+  const folded = fold(text);
+  const positions = terms.map((t) => folded.indexOf(t)).filter((i) => i >= 0);
+  const at = positions.length > 0 ? Math.min(...positions) : 0;
+  const start = Math.max(0, at - radius);
+  const end = Math.min(text.length, at + radius);
+  return (start > 0 ? "…" : "") + text.slice(start, end).trim() + (end < text.length ? "…" : "");
+}
+
+/**
+ * Store the blind tokens of one message (plaintext content)
+ */
+export async function indexMessage(userId: number, messageId: number, content: string): Promise<void> {
+  const tokens = tokenize(content).map((term) => blindToken(userId, term));
+  await prisma.$transaction([
+    prisma.messageSearchToken.createMany({
+      data: tokens.map((token) => ({ userId, messageId, token })),
+      skipDuplicates: true,
+    }),
+    prisma.message.update({ where: { id: messageId }, data: { searchIndexedAt: new Date() } }),
+  ]);
+}
+
+/**
+ * Index messages of `userId` that are not in the index yet; returns how many were added
+ */
+export async function indexPending(userId: number, limit = BACKFILL_BATCH): Promise<number> {
+  const pending = await prisma.message.findMany({
+    where: { searchIndexedAt: null, conversation: { userId } },
+    select: { id: true, content: true },
+    orderBy: { id: "desc" },
+    take: limit,
+  });
+  for (const message of pending) {
+    await indexMessage(userId, message.id, encryptionService.decrypt(message.content));
+  }
+  return pending.length;
+}
+
+function attachmentWhere(attachment?: AttachmentFilter) {
+  if (!attachment) return {};
+  if (attachment === "any") return { attachmentType: { not: null } };
+  if (attachment === "none") return { attachmentType: null };
+  return { attachmentType: attachment };
+}
+
+/**
+ * Messages of `userId` containing every word of `query`, newest first
+ */
+export async function searchMessages(userId: number, query: string, filters: SearchFilters = {}): Promise<SearchHit[]> {
+  const terms = tokenize(query).slice(0, MAX_QUERY_TERMS);
+  if (terms.length === 0) return [];
+
+  try {
+    await indexPending(userId);
+  } catch (error) {
+    console.error(`[Search] Backfill for user ${userId} failed:`, error);
+  }
+
+  const tokens = terms.map((term) => blindToken(userId, term));
+  const candidates = await prisma.messageSearchToken.groupBy({
+    by: ["messageId"],
+    where: { userId, token: { in: tokens } },
+    having: { messageId: { _count: { equals: tokens.length } } },
+    orderBy: { messageId: "desc" },
+    take: MAX_CANDIDATES,
+  });
+  if (candidates.length === 0) return [];
+
+  const messages = await prisma.message.findMany({
+    where: {
+      id: { in: candidates.map((c: { messageId: number }) => c.messageId) },
+      conversation: { userId },
+      ...(filters.model ? { modelUsed: filters.model } : {}),
+      ...(filters.from || filters.to ? { createdAt: { gte: filters.from, lte: filters.to } } : {}),
+      ...attachmentWhere(filters.attachment),
+    },
+    include: { conversation: { select: { id: true, title: true } } },
+    orderBy: { createdAt: "desc" },
+    take: filters.limit || 20,
+  });
+
+  return messages.map((m: any) => ({
+    messageId: m.id,
+    conversationId: m.conversationId,
+    conversationTitle: encryptionService.decrypt(m.conversation?.title || "Untitled"),
+    role: m.role,
+    model: m.modelUsed,
+    attachmentType: m.attachmentType,
+    createdAt: m.createdAt,
+    snippet: buildSnippet(encryptionService.decrypt(m.content), terms),
+  }));
+}
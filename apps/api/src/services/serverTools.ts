@@ -0,0 +1,429 @@
+import dns from "dns";
+import net from "net";
+import type { ReadableStream } from "stream/web";
+import { Agent, fetch as undiciFetch } from "undici";
+import { prisma } from "../prisma";
+import { encryptionService } from "./encryption";
+import { storageService } from "./storage";
+
+/**
+ * Server Tools - functions the model can call during /llm/chat/stream
+ *
+ * Each tool has an OpenAI function definition (sent to the provider in `tools`)
+ * and an executor that runs on the API server. Results go back to the model as
+ * `tool` messages. Costs are flat per call and billed on top of token usage.
+ */
+
+export interface ToolContext {
+  user: { id: number; walletAddress?: string | null };
+  conversationId?: string | null;
+}
+
+export interface ToolOutput {
+  content: string; // What the model sees
+  attachmentUrl?: string;
+  attachmentType?: string;
+}
+
+export interface ServerTool {
+  definition: {
+    type: "function";
+    function: { name: string; description: string; parameters: Record<string, unknown> };
+  };
+  costUSD: number;
+  scope?: "images"; // API keys need this scope to use the tool
+  execute: (args: Record<string, any>, context: ToolContext) => Promise<ToolOutput>;
+}
+
+// Tool output fed back to the model is capped to keep follow-up prompts bounded
+export const MAX_TOOL_OUTPUT_CHARS = 8000;
+const FETCH_TIMEOUT_MS = 10000;
+// Bytes of a fetched page read before the rest is dropped (only the first MAX_TOOL_OUTPUT_CHARS are kept anyway)
+const MAX_FETCH_BYTES = 512 * 1024;
+
+// ═══════════════════════════════════════════════════════════════════════
+// MEDIA HELPERS (shared with the slash-command tools in routes/llm.ts)
+// ═══════════════════════════════════════════════════════════════════════
+
+export async function uploadToStorage(url: string, contentType: string) {
+  try {
+    const response = await fetch(url);
+    const buffer = Buffer.from(await response.arrayBuffer());
+    return await storageService.uploadBuffer(buffer, "media", contentType);
+  } catch (e) { throw new Error("Media generation failed"); }
+}
+
+export async function generateImage(prompt: string): Promise<string> {
+  const seed = Math.floor(Math.random() * 1000000);
+  const tempUrl = `https://image.pollinations.ai/prompt/${encodeURIComponent(prompt)}?nologo=true&seed=${seed}&width=1024&height=1024`;
+  return uploadToStorage(tempUrl, "image/jpeg");
+}
+
+// ═══════════════════════════════════════════════════════════════════════
+// WEB FETCH
+// ═══════════════════════════════════════════════════════════════════════
+
+// Everything that is not the public internet, including the IPv6 forms that embed an
+// IPv4 address (mapped, compatible, NAT64, 6to4, Teredo) - public hosts resolve to plain IPv4
+const blockedAddresses = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 4], ["240.0.0.0", 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 96], ["::ffff:0:0", 96], ["64:ff9b::", 96], ["64:ff9b:1::", 48], ["100::", 64], ["2001::", 32],
+  ["2002::", 16], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+function isPrivateAddress(ip: string): boolean {
+  const family = net.isIP(ip);
+  if (family === 0) return true;
+  return blockedAddresses.check(ip, family === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * DNS lookup for web_fetch connections: refuses hosts with any private address and
+ * hands the socket the addresses it checked, so the host cannot rebind in between
+ */
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "");
+    if (addresses.length === 0 || addresses.some((a) => isPrivateAddress(a.address))) {
+      return callback(Object.assign(new Error(`${hostname} resolves to a private address`), { code: "EPRIVATE" }), "");
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const publicAgent = new Agent({ connect: { lookup: publicLookup } });
+
+/**
+ * Only public http(s) hosts - the fetch runs inside our network. Hostnames are
+ * checked when the connection resolves them (publicLookup), IP literals here.
+ */
+function assertPublicUrl(raw: string): URL {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw new Error("Invalid URL");
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error("Only http(s) URLs can be fetched");
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (net.isIP(host) && isPrivateAddress(host)) {
+    throw new Error("URL resolves to a private address");
+  }
+  return url;
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|noscript)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Read a response body as text, up to `maxBytes`: past that the stream is cancelled,
+ * which closes the connection, and the text read so far is returned
+ */
+export async function readTextCapped(body: ReadableStream<Uint8Array> | null, maxBytes: number): Promise<string> {
+  if (!body) return "";
+  const reader = body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (size + value.byteLength > maxBytes) {
+      chunks.push(value.subarray(0, maxBytes - size));
+      await reader.cancel();
+      break;
+    }
+    chunks.push(value);
+    size += value.byteLength;
+  }
+  return new TextDecoder().decode(Buffer.concat(chunks));
+}
+
+async function webFetch(args: Record<string, any>): Promise<ToolOutput> {
+  const url = assertPublicUrl(String(args.url || ""));
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  try {
+    // Redirects are not followed - the target would bypass the address check
+    const response = await undiciFetch(url, {
+      dispatcher: publicAgent,
+      signal: controller.signal,
+      redirect: "manual",
+      headers: { "User-Agent": "ZeroPrompt/1.0" },
+    });
+    if (response.status >= 300 && response.status < 400) {
+      return { content: `Redirected to ${response.headers.get("location") || "unknown location"} - fetch that URL instead.` };
+    }
+    if (!response.ok) {
+      return { content: `Fetch failed: HTTP ${response.status}` };
+    }
+    const contentType = response.headers.get("content-type") || "";
+    const body = await readTextCapped(response.body, MAX_FETCH_BYTES);
+    const text = contentType.includes("html") ? htmlToText(body) : body;
+    return { content: text.slice(0, MAX_TOOL_OUTPUT_CHARS) };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════
+// CALCULATOR - small recursive-descent parser (no eval)
+// ═══════════════════════════════════════════════════════════════════════
+
+const MATH_FUNCTIONS: Record<string, (x: number) => number> = {
+  sqrt: Math.sqrt, abs: Math.abs, round: Math.round, floor: Math.floor, ceil: Math.ceil,
+  ln: Math.log, log: Math.log10, sin: Math.sin, cos: Math.cos, tan: Math.tan, exp: Math.exp,
+};
+const MATH_CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+export function evaluateExpression(expression: string): number {
+  const tokens = expression.match(/\d+(?:\.\d+)?(?:e[+-]?\d+)?|[a-z]+|\*\*|[-+*/%^(),]/gi) || [];
+  if (tokens.join("") !== expression.replace(/\s+/g, "")) {
+    throw new Error("Unsupported characters in expression");
+  }
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const take = (expected?: string) => {
+    const token = tokens[pos++];
+    if (expected && token !== expected) throw new Error(`Expected "${expected}"`);
+    return token;
+  };
+
+  // expr := term (("+" | "-") term)*
+  const parseExpr = (): number => {
+    let value = parseTerm();
+    while (peek() === "+" || peek() === "-") {
+      value = take() === "+" ? value + parseTerm() : value - parseTerm();
+    }
+    return value;
+  };
+  // term := power (("*" | "/" | "%") power)*
+  const parseTerm = (): number => {
+    let value = parsePower();
+    while (peek() === "*" || peek() === "/" || peek() === "%") {
+      const op = take();
+      const rhs = parsePower();
+      value = op === "*" ? value * rhs : op === "/" ? value / rhs : value % rhs;
+    }
+    return value;
+  };
+  // power := unary (("^" | "**") power)?
+  const parsePower = (): number => {
+    const base = parseUnary();
+    if (peek() === "^" || peek() === "**") {
+      take();
+      return Math.pow(base, parsePower());
+    }
+    return base;
+  };
+  const parseUnary = (): number => {
+    if (peek() === "-") { take(); return -parseUnary(); }
+    if (peek() === "+") { take(); return parseUnary(); }
+    return parseAtom();
+  };
+  const parseAtom = (): number => {
+    const token = take();
+    if (token === undefined) throw new Error("Unexpected end of expression");
+    if (token === "(") {
+      const value = parseExpr();
+      take(")");
+      return value;
+    }
+    if (/^\d/.test(token)) return parseFloat(token);
+    const name = token.toLowerCase();
+    if (name in MATH_CONSTANTS) return MATH_CONSTANTS[name];
+    if (name in MATH_FUNCTIONS) {
+      take("(");
+      const arg = parseExpr();
+      take(")");
+      return MATH_FUNCTIONS[name](arg);
+    }
+    throw new Error(`Unknown token "${token}"`);
+  };
+
+  const result = parseExpr();
+  if (pos !== tokens.length) throw new Error(`Unexpected "${tokens[pos]}"`);
+  if (!Number.isFinite(result)) throw new Error("Result is not a finite number");
+  return result;
+}
+
+// ═══════════════════════════════════════════════════════════════════════
+// CONVERSATION SEARCH - messages are encrypted at rest, so match after decrypting
+// ═══════════════════════════════════════════════════════════════════════
+
+const SEARCH_SCAN_LIMIT = 500;
+const SEARCH_RESULT_LIMIT = 5;
+
+async function searchConversations(args: Record<string, any>, context: ToolContext): Promise<ToolOutput> {
+  const terms = String(args.query || "").toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return { content: "Empty query" };
+
+  const messages = await prisma.message.findMany({
+    where: { conversation: { userId: context.user.id } },
+    orderBy: { createdAt: "desc" },
+    take: SEARCH_SCAN_LIMIT,
+    select: { conversationId: true, role: true, content: true, createdAt: true },
+  });
+
+  const matches: string[] = [];
+  for (const m of messages as { conversationId: string; role: string; content: string; createdAt: Date }[]) {
+    if (m.conversationId === context.conversationId) continue; // The model already has this one
+    const text = encryptionService.decrypt(m.content);
+    const lower = text.toLowerCase();
+    if (!terms.every((t) => lower.includes(t))) continue;
+
+    const at = Math.max(0, lower.indexOf(terms[0]) - 100);
+    matches.push(`[${m.createdAt.toISOString().slice(0, 10)} ${m.role}] ${text.slice(at, at + 400)}`);
+    if (matches.length >= SEARCH_RESULT_LIMIT) break;
+  }
+
+  return { content: matches.length > 0 ? matches.join("\n\n") : "No matching messages found." };
+}
+
+// ═══════════════════════════════════════════════════════════════════════
+// REGISTRY
+// ═══════════════════════════════════════════════════════════════════════
+
+export const serverTools: Record<string, ServerTool> = {
+  web_fetch: {
+    definition: {
+      type: "function",
+      function: {
+        name: "web_fetch",
+        description: "Fetch a public web page and return its text content.",
+        parameters: {
+          type: "object",
+          properties: { url: { type: "string", description: "Absolute http(s) URL" } },
+          required: ["url"],
+        },
+      },
+    },
+    costUSD: 0.0005,
+    execute: webFetch,
+  },
+  calculator: {
+    definition: {
+      type: "function",
+      function: {
+        name: "calculator",
+        description: "Evaluate an arithmetic expression. Supports + - * / % ^, parentheses, sqrt, abs, round, floor, ceil, ln, log, sin, cos, tan, exp, pi and e.",
+        parameters: {
+          type: "object",
+          properties: { expression: { type: "string" } },
+          required: ["expression"],
+        },
+      },
+    },
+    costUSD: 0,
+    execute: async (args) => ({ content: String(evaluateExpression(String(args.expression || ""))) }),
+  },
+  search_conversations: {
+    definition: {
+      type: "function",
+      function: {
+        name: "search_conversations",
+        description: "Search the user's previous conversations for messages containing all of the given words.",
+        parameters: {
+          type: "object",
+          properties: { query: { type: "string" } },
+          required: ["query"],
+        },
+      },
+    },
+    costUSD: 0,
+    execute: searchConversations,
+  },
+  generate_image: {
+    definition: {
+      type: "function",
+      function: {
+        name: "generate_image",
+        description: "Generate an image from a text prompt and return its URL.",
+        parameters: {
+          type: "object",
+          properties: { prompt: { type: "string" } },
+          required: ["prompt"],
+        },
+      },
+    },
+    costUSD: 0.001,
+    scope: "images",
+    execute: async (args) => {
+      const url = await generateImage(String(args.prompt || ""));
+      return { content: `![Generated Image](${url})`, attachmentUrl: url, attachmentType: "image" };
+    },
+  },
+};
+
+/**
+ * Normalize client `tools` for the provider: names of server tools (as strings or
+ * function definitions) get the server's definition; other function tools pass
+ * through untouched and are handed back to the client when called.
+ */
+export function resolveToolDefinitions(tools: unknown): { definitions: ServerTool["definition"][]; serverToolNames: string[] } {
+  if (!Array.isArray(tools)) return { definitions: [], serverToolNames: [] };
+
+  const definitions: ServerTool["definition"][] = [];
+  const serverToolNames: string[] = [];
+  for (const tool of tools) {
+    const name = typeof tool === "string" ? tool : tool?.function?.name;
+    if (!name) continue;
+    if (serverTools[name]) {
+      definitions.push(serverTools[name].definition);
+      serverToolNames.push(name);
+    } else if (typeof tool === "object" && tool.type === "function") {
+      definitions.push(tool);
+    }
+  }
+  return { definitions, serverToolNames };
+}
+
+/**
+ * Run one tool call; failures are returned to the model as text, not thrown
+ */
+export async function executeToolCall(
+  name: string,
+  rawArguments: string,
+  context: ToolContext
+): Promise<ToolOutput & { error?: string }> {
+  const tool = serverTools[name];
+  if (!tool) return { content: `Unknown tool ${name}`, error: "unknown_tool" };
+
+  let args: Record<string, any>;
+  try {
+    args = rawArguments ? JSON.parse(rawArguments) : {};
+  } catch {
+    return { content: "Tool arguments were not valid JSON", error: "invalid_arguments" };
+  }
+
+  try {
+    const output = await tool.execute(args, context);
+    return { ...output, content: output.content.slice(0, MAX_TOOL_OUTPUT_CHARS) };
+  } catch (error) {
+    console.error(`[Tools] ${name} failed:`, (error as Error).message);
+    return { content: `Tool error: ${(error as Error).message}`, error: "tool_failed" };
+  }
+}
@@ -46,7 +46,7 @@ export const storageService = {
   },
 
   /**
-   * Uploads a buffer (e.g. downloaded AI image) directly from backend.
+   * Uploads a buffer (e.g. downloaded AI image, rendered video/audio) directly from backend.
    */
   uploadBuffer: async (buffer: Buffer, folder: string, contentType: string) => {
     // Determine file extension from content type
@@ -56,7 +56,16 @@ export const storageService = {
       'image/jpg': 'jpg',
       'image/gif': 'gif',
       'image/webp': 'webp',
-      'image/svg+xml': 'svg'
+      'image/svg+xml': 'svg',
+      'video/mp4': 'mp4',
+      'video/webm': 'webm',
+      'video/quicktime': 'mov',
+      'audio/mpeg': 'mp3',
+      'audio/mp3': 'mp3',
+      'audio/wav': 'wav',
+      'audio/ogg': 'ogg',
+      'audio/flac': 'flac',
+      'audio/aac': 'aac'
     };
     const ext = extMap[contentType] || 'png';
     const key = `${folder}/${crypto.randomUUID()}.${ext}`;
@@ -0,0 +1,128 @@
+import crypto from "crypto";
+
+/**
+ * Subnet Encryption - prompts only the serving node can read
+ *
+ * Operators publish an X25519 public key in OperatorRegistry (setEncryptionKey).
+ * For an encrypted request the API makes a one-off X25519 key pair, derives one
+ * AES-256-GCM key per direction from the shared secret (HKDF-SHA256) and posts the
+ * sealed Ollama /api/chat body to the node's ENCRYPTED_CHAT_PATH. The node answers
+ * with one sealed frame per Ollama NDJSON line; frames are numbered in their
+ * authenticated data, so a dropped or reordered frame fails to open.
+ * The node side lives here too, for tests; the reference implementation is
+ * apps/contracts/ollama-railway/proxy.js.
+ */
+
+export const ENCRYPTION_SCHEME = "x25519-hkdf-sha256-aes256gcm";
+export const ENCRYPTED_CHAT_PATH = "/zeroprompt/v1/chat";
+
+// Base64 fields; ct carries the GCM tag in its last 16 bytes
+export interface SealedEnvelope {
+  v: 1;
+  epk: string;
+  iv: string;
+  ct: string;
+}
+
+export interface SealedFrame {
+  iv: string;
+  ct: string;
+}
+
+// DER headers around raw 32-byte X25519 keys
+const SPKI_PREFIX = Buffer.from("302a300506032b656e032100", "hex");
+const PKCS8_PREFIX = Buffer.from("302e020100300506032b656e04220420", "hex");
+const TAG_LENGTH = 16;
+
+/**
+ * 0x-prefixed lowercase hex of a 32-byte key, or null if it is not one
+ */
+export function normalizeEncryptionKey(key: string | null | undefined): string | null {
+  const hex = (key || "").toLowerCase().replace(/^0x/, "");
+  return /^[0-9a-f]{64}$/.test(hex) ? `0x${hex}` : null;
+}
+
+function rawKey(hex: string): Buffer {
+  const normalized = normalizeEncryptionKey(hex);
+  if (!normalized) throw new Error("Encryption keys are 32 bytes of hex");
+  return Buffer.from(normalized.slice(2), "hex");
+}
+
+const publicKeyObject = (raw: Buffer) =>
+  crypto.createPublicKey({ key: Buffer.concat([SPKI_PREFIX, raw]), format: "der", type: "spki" });
+const privateKeyObject = (raw: Buffer) =>
+  crypto.createPrivateKey({ key: Buffer.concat([PKCS8_PREFIX, raw]), format: "der", type: "pkcs8" });
+const rawPublicKey = (key: crypto.KeyObject) => key.export({ format: "der", type: "spki" }).subarray(SPKI_PREFIX.length);
+
+function deriveKeys(privateKey: crypto.KeyObject, publicKey: crypto.KeyObject, ephemeral: Buffer, nodeKey: Buffer) {
+  const shared = crypto.diffieHellman({ privateKey, publicKey });
+  const salt = Buffer.concat([ephemeral, nodeKey]);
+  const derive = (info: string) => Buffer.from(crypto.hkdfSync("sha256", shared, salt, info, 32));
+  return { requestKey: derive("zeroprompt request"), responseKey: derive("zeroprompt response") };
+}
+
+function seal(key: Buffer, plaintext: string, aad: Buffer): SealedFrame {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  cipher.setAAD(aad);
+  const ct = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final(), cipher.getAuthTag()]);
+  return { iv: iv.toString("base64"), ct: ct.toString("base64") };
+}
+
+function open(key: Buffer, sealed: SealedFrame, aad: Buffer): string {
+  const data = Buffer.from(sealed.ct, "base64");
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, Buffer.from(sealed.iv, "base64"));
+  decipher.setAAD(aad);
+  decipher.setAuthTag(data.subarray(data.length - TAG_LENGTH));
+  return Buffer.concat([decipher.update(data.subarray(0, data.length - TAG_LENGTH)), decipher.final()]).toString("utf8");
+}
+
+const REQUEST_AAD = Buffer.from(ENCRYPTION_SCHEME);
+const frameAad = (seq: number) => Buffer.from(`frame:${seq}`);
+
+/**
+ * New node key pair (hex); the public half goes on-chain
+ */
+export function generateEncryptionKeyPair(): { publicKey: string; privateKey: string } {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync("x25519");
+  const rawPrivate = privateKey.export({ format: "der", type: "pkcs8" }).subarray(PKCS8_PREFIX.length);
+  return { publicKey: `0x${rawPublicKey(publicKey).toString("hex")}`, privateKey: `0x${rawPrivate.toString("hex")}` };
+}
+
+/**
+ * Seal a request body to a node's public key. Keep responseKey to open the answer.
+ */
+export function sealRequest(nodePublicKey: string, body: unknown): { envelope: SealedEnvelope; responseKey: Buffer } {
+  const nodeKey = rawKey(nodePublicKey);
+  const ephemeral = crypto.generateKeyPairSync("x25519");
+  const epk = rawPublicKey(ephemeral.publicKey);
+  const { requestKey, responseKey } = deriveKeys(ephemeral.privateKey, publicKeyObject(nodeKey), epk, nodeKey);
+  const { iv, ct } = seal(requestKey, JSON.stringify(body), REQUEST_AAD);
+  return { envelope: { v: 1, epk: epk.toString("base64"), iv, ct }, responseKey };
+}
+
+/**
+ * Open response frame number `seq` (from 0); throws if it was tampered with or is out of order
+ */
+export function openResponseFrame(responseKey: Buffer, frame: SealedFrame, seq: number): string {
+  return open(responseKey, frame, frameAad(seq));
+}
+
+/**
+ * Node side: open a sealed request with the node's private key
+ */
+export function openRequest(nodePrivateKey: string, envelope: SealedEnvelope): { body: any; responseKey: Buffer } {
+  if (envelope?.v !== 1) throw new Error(`Unsupported envelope version ${envelope?.v}`);
+  const privateKey = privateKeyObject(rawKey(nodePrivateKey));
+  const nodeKey = rawPublicKey(crypto.createPublicKey(privateKey));
+  const epk = Buffer.from(envelope.epk, "base64");
+  const { requestKey, responseKey } = deriveKeys(privateKey, publicKeyObject(epk), epk, nodeKey);
+  return { body: JSON.parse(open(requestKey, envelope, REQUEST_AAD)), responseKey };
+}
+
+/**
+ * Node side: seal response line number `seq`
+ */
+export function sealResponseFrame(responseKey: Buffer, seq: number, line: string): SealedFrame {
+  return seal(responseKey, line, frameAad(seq));
+}
@@ -1,6 +1,11 @@
 import { ethers } from "ethers";
 import { prisma } from "../prisma";
-import { ollamaService, OllamaNode } from "./ollama";
+import { ollamaService, OllamaNode, OllamaModelDescriptor, HealthCheckResult, AttemptOutcome, MaintenanceWindow } from "./ollama";
+import { recordProbes, tallyUptime } from "./uptime";
+import type { SubnetCharge } from "./subnetPricing";
+import * as requestSync from "./requestSync";
+import { normalizeEncryptionKey } from "./subnetEncryption";
+import { rewardIndexer, REWARD_HISTORY_ABI } from "./rewardIndexer";
 
 /**
  * SubnetNodeService - Manages interaction with the ZeroPrompt subnet smart contracts
@@ -15,35 +20,82 @@ const OPERATOR_REGISTRY_ABI = [
   "function calculatePerformanceScore(address operator) view returns (uint256)",
   "function getStakeWeight(address operator) view returns (uint256)",
   "function isOperatorActive(address operator) view returns (bool)",
+  "function getEncryptionKey(address operator) view returns (bytes)",
   "function stakes(address operator) view returns (uint256 amount, uint256 stakedAt, uint256 lastRewardClaim, uint256 pendingUnstake, uint256 unstakeRequestedAt)",
+  "function slashOperator(address operator, string reason)",
+  "event OperatorSlashed(address indexed operator, uint256 slashedAmount, string reason)",
+  "event OperatorRegistered(address indexed operator, string endpoint)",
+  "event EndpointUpdated(address indexed operator, string oldEndpoint, string newEndpoint)",
+  "event SupportedModelsUpdated(address indexed operator, string[] models)",
+  "event Staked(address indexed operator, uint256 amount)",
+  "event StakeIncreased(address indexed operator, uint256 additionalAmount, uint256 newTotal)",
+  "event Unstaked(address indexed operator, uint256 amount)",
+  "event OperatorActivated(address indexed operator)",
+  "event OperatorDeactivated(address indexed operator)",
+  "event EncryptionKeyUpdated(address indexed operator, bytes publicKey)",
 ];
 
+// Registry events after which an operator is re-read instead of waiting for the cache refresh
+const REGISTRY_EVENTS = [
+  "OperatorRegistered",
+  "EndpointUpdated",
+  "SupportedModelsUpdated",
+  "Staked",
+  "StakeIncreased",
+  "Unstaked",
+  "OperatorActivated",
+  "OperatorDeactivated",
+  "OperatorSlashed",
+  "EncryptionKeyUpdated",
+];
+
+// An operator as read from the registry; lastUpdated decides whether API announcements still apply
+type ChainOperator = OllamaNode & { chainUpdatedAt?: Date };
+
+// OperatorCache columns an operator controls through signed API actions
+interface OperatorAnnouncements {
+  endpoint: string;
+  supportedModels: unknown;
+  draining: boolean;
+  endpointAnnouncedAt: Date | null;
+  modelsAnnouncedAt: Date | null;
+  maintenanceStartsAt: Date | null;
+  maintenanceEndsAt: Date | null;
+  maintenanceReason: string | null;
+}
+
+function maintenanceWindow(row: OperatorAnnouncements): MaintenanceWindow | null {
+  if (!row.maintenanceStartsAt || !row.maintenanceEndsAt) return null;
+  return { startsAt: row.maintenanceStartsAt, endsAt: row.maintenanceEndsAt, reason: row.maintenanceReason };
+}
+
 const SUBNET_REWARDS_ABI = [
-  "function recordRequests(address operator, uint256 requests, uint256 successful, uint256 totalLatencyMs)",
-  "function batchRecordRequests(address[] operatorAddrs, uint256[] requestCounts, uint256[] successCounts, uint256[] latencies)",
+  "function recordRequests(address operator, uint256 requests, uint256 successful, uint256 totalLatencyMs, uint256 tokens)",
+  "function batchRecordRequests(address[] operatorAddrs, uint256[] requestCounts, uint256[] successCounts, uint256[] latencies, uint256[] tokenCounts)",
+  "function batchRecordUptime(address[] operatorAddrs, uint256[] passedCounts, uint256[] totalCounts)",
   "function currentEpoch() view returns (uint256)",
   "function getPendingRewards(address operator) view returns (uint256)",
   "function getCurrentEpochStats(address operator) view returns (uint256 requests, uint256 successful, uint256 avgLatencyMs, uint256 weightedRequests, uint256 estimatedReward)",
+  ...REWARD_HISTORY_ABI,
 ];
 
-interface RequestBatch {
-  address: string;
-  requests: number;
-  successful: number;
-  totalLatencyMs: number;
-}
-
 class SubnetNodeService {
   private provider: ethers.JsonRpcProvider | null = null;
   private signer: ethers.Wallet | null = null;
   private operatorRegistry: ethers.Contract | null = null;
   private subnetRewards: ethers.Contract | null = null;
 
-  // In-memory request buffer for batching
-  private requestBuffer: Map<string, RequestBatch> = new Map();
   private syncInterval: NodeJS.Timeout | null = null;
   private readonly SYNC_INTERVAL = 60000; // 1 minute
   private readonly CACHE_REFRESH_INTERVAL = 300000; // 5 minutes
+  private readonly UPTIME_SYNC_LIMIT = 5000; // probe rows per chain submission
+  private readonly MAX_BATCHES_PER_SYNC = 5;
+  private readonly TX_CONFIRM_TIMEOUT = 120000; // 2 minutes
+  private syncingRequests = false;
+  private probesAttached = false;
+  private registryListenersAttached = false;
+  // Last model list written to the cache per operator, to skip unchanged writes
+  private persistedModels: Map<string, string> = new Map();
 
   private initialized = false;
 
@@ -75,6 +127,15 @@ class SubnetNodeService {
       this.initialized = true;
       console.log("[SubnetNodes] Initialized with contracts");
 
+      // Persist every health check round before the first one runs
+      this.attachUptimeProber();
+
+      // Apply registry changes as they happen
+      this.attachRegistryListeners();
+
+      // Index reward events for operator history
+      rewardIndexer.attach(this.subnetRewards, this.provider);
+
       // Initial sync of operators
       await this.syncOperatorsToCache();
 
@@ -96,7 +157,7 @@ class SubnetNodeService {
   /**
    * Get active operators from blockchain and sync to cache
    */
-  async getActiveOperators(): Promise<OllamaNode[]> {
+  async getActiveOperators(): Promise<ChainOperator[]> {
     if (!this.initialized || !this.operatorRegistry) {
       // Return cached operators if not initialized
       return this.getCachedOperators();
@@ -106,29 +167,13 @@ class SubnetNodeService {
       const activeAddresses: string[] =
         await this.operatorRegistry.getActiveOperators();
 
-      const operators: OllamaNode[] = [];
+      const operators: ChainOperator[] = [];
 
       for (const operatorAddr of activeAddresses) {
         try {
-          const [endpoint, supportedModels, isRegistered] =
-            await this.operatorRegistry.getOperator(operatorAddr);
-
-          const [, performanceScore, active] =
-            await this.operatorRegistry.getOperatorDetails(operatorAddr);
-
-          const stakeWeight = await this.operatorRegistry.getStakeWeight(operatorAddr);
-
-          if (active && isRegistered) {
-            operators.push({
-              address: operatorAddr,
-              endpoint,
-              supportedModels,
-              isHealthy: false, // Will be determined by health checks
-              lastHealthCheck: new Date(0),
-              latencyMs: 0,
-              performanceScore: Number(performanceScore),
-              stakeWeight: Number(stakeWeight),
-            });
+          const operator = await this.readOperator(operatorAddr);
+          if (operator) {
+            operators.push(operator);
           }
         } catch (err) {
           console.error(
@@ -145,6 +190,38 @@ class SubnetNodeService {
     }
   }
 
+  /**
+   * Read one operator from the registry; null unless it is registered and active
+   */
+  private async readOperator(operatorAddr: string): Promise<ChainOperator | null> {
+    const [endpoint, supportedModels, isRegistered, , lastUpdated] =
+      await this.operatorRegistry!.getOperator(operatorAddr);
+
+    const [, performanceScore, active] =
+      await this.operatorRegistry!.getOperatorDetails(operatorAddr);
+
+    if (!active || !isRegistered) {
+      return null;
+    }
+
+    const stakeWeight = await this.operatorRegistry!.getStakeWeight(operatorAddr);
+    // Registries deployed before encryption keys have no getter: plain requests only
+    const encryptionKey: string = await this.operatorRegistry!.getEncryptionKey(operatorAddr).catch(() => "0x");
+
+    return {
+      address: operatorAddr,
+      endpoint,
+      supportedModels: [...supportedModels],
+      isHealthy: false, // Will be determined by health checks
+      lastHealthCheck: new Date(0),
+      latencyMs: 0,
+      performanceScore: Number(performanceScore),
+      stakeWeight: Number(stakeWeight),
+      encryptionKey: normalizeEncryptionKey(encryptionKey),
+      chainUpdatedAt: new Date(Number(lastUpdated) * 1000),
+    };
+  }
+
   /**
    * Get operators from database cache
    */
@@ -153,43 +230,82 @@ class SubnetNodeService {
       where: { isActive: true },
     });
 
-    return cached.map((op) => ({
+    return cached.map((op) => this.fromCache(op));
+  }
+
+  private fromCache(op: any): OllamaNode {
+    return {
       address: op.operatorAddress || "",
       endpoint: op.endpoint,
       supportedModels: op.supportedModels as string[],
+      models: Array.isArray(op.modelDescriptors) ? (op.modelDescriptors as unknown as OllamaModelDescriptor[]) : undefined,
+      draining: op.draining,
+      maintenance: maintenanceWindow(op),
+      encryptionKey: op.encryptionKey,
       isHealthy: false,
       lastHealthCheck: new Date(0),
       latencyMs: 0,
       performanceScore: op.performanceScore,
       stakeWeight: 100, // Default weight
-    }));
+    };
+  }
+
+  /**
+   * Lay what the operator announced through the API over registry data: an announced
+   * endpoint or model list wins until the registry entry changes after it, and the
+   * drain flag and maintenance window only exist off-chain
+   */
+  private withAnnouncements(op: ChainOperator, cached: OperatorAnnouncements | null): OllamaNode {
+    const { chainUpdatedAt, ...node } = op;
+    if (!cached) return node;
+
+    const newer = (at: Date | null) => !!at && (!chainUpdatedAt || at > chainUpdatedAt);
+    return {
+      ...node,
+      endpoint: newer(cached.endpointAnnouncedAt) ? cached.endpoint : node.endpoint,
+      supportedModels: newer(cached.modelsAnnouncedAt) ? (cached.supportedModels as string[]) : node.supportedModels,
+      draining: cached.draining,
+      maintenance: maintenanceWindow(cached),
+    };
+  }
+
+  private async saveToCache(op: OllamaNode): Promise<void> {
+    await prisma.operatorCache.upsert({
+      where: { operatorAddress: op.address },
+      update: {
+        endpoint: op.endpoint,
+        supportedModels: op.supportedModels,
+        performanceScore: op.performanceScore,
+        encryptionKey: op.encryptionKey ?? null,
+        isActive: true,
+      },
+      create: {
+        operatorAddress: op.address,
+        tokenId: 0, // Legacy field, no longer used
+        endpoint: op.endpoint,
+        supportedModels: op.supportedModels,
+        stakeAmount: "0",
+        performanceScore: op.performanceScore,
+        encryptionKey: op.encryptionKey ?? null,
+        isActive: true,
+      },
+    });
   }
 
   /**
    * Sync operators from blockchain to database cache
    */
   async syncOperatorsToCache(): Promise<void> {
-    const operators = await this.getActiveOperators();
+    const chainOperators = await this.getActiveOperators();
+    const cached: (OperatorAnnouncements & { operatorAddress: string | null })[] = await prisma.operatorCache.findMany({
+      where: { operatorAddress: { in: chainOperators.map((op) => op.address) } },
+    });
+    const operators = chainOperators.map((op) =>
+      this.withAnnouncements(op, cached.find((row) => row.operatorAddress === op.address) ?? null)
+    );
 
     for (const op of operators) {
-      await prisma.operatorCache.upsert({
-        where: { operatorAddress: op.address },
-        update: {
-          endpoint: op.endpoint,
-          supportedModels: op.supportedModels,
-          performanceScore: op.performanceScore,
-          isActive: true,
-        },
-        create: {
-          operatorAddress: op.address,
-          tokenId: 0, // Legacy field, no longer used
-          endpoint: op.endpoint,
-          supportedModels: op.supportedModels,
-          stakeAmount: "0",
-          performanceScore: op.performanceScore,
-          isActive: true,
-        },
-      });
+      await this.saveToCache(op);
     }
 
     // Update OllamaService with new operators
@@ -202,30 +318,58 @@ class SubnetNodeService {
   }
 
   /**
-   * Report a successful request for a node (buffers for batch sync)
+   * Re-read one operator and apply it to the cache and OllamaService right away
+   * (registry events, operator API actions). Returns null if it is no longer active.
+   */
+  async refreshOperator(operatorAddress: string): Promise<OllamaNode | null> {
+    const address = ethers.getAddress(operatorAddress);
+    const cached = await prisma.operatorCache.findFirst({ where: { operatorAddress: address } });
+
+    let operator: OllamaNode | null = null;
+    if (this.initialized && this.operatorRegistry) {
+      const chainOperator = await this.readOperator(address);
+      operator = chainOperator ? this.withAnnouncements(chainOperator, cached) : null;
+    } else if (cached?.isActive) {
+      operator = this.fromCache(cached);
+    }
+
+    if (!operator) {
+      await prisma.operatorCache.updateMany({ where: { operatorAddress: address }, data: { isActive: false } });
+      ollamaService.removeOperator(address);
+      console.log(`[SubnetNodes] Operator ${address} is no longer active`);
+      return null;
+    }
+
+    await this.saveToCache(operator);
+    ollamaService.upsertOperator(operator);
+    return operator;
+  }
+
+  /**
+   * Refresh an operator whenever the registry emits an event about it
+   */
+  private attachRegistryListeners(): void {
+    if (this.registryListenersAttached || !this.operatorRegistry) return;
+    this.registryListenersAttached = true;
+
+    for (const event of REGISTRY_EVENTS) {
+      this.operatorRegistry.on(event, (operator: string) => {
+        console.log(`[SubnetNodes] ${event} for ${operator}, refreshing`);
+        this.refreshOperator(operator).catch((error) => {
+          console.error(`[SubnetNodes] Failed to refresh ${operator} after ${event}:`, error);
+        });
+      });
+    }
+  }
+
+  /**
+   * Report a request for a node (picked up by the next sync batch)
    */
   async reportRequest(
     operatorAddress: string,
     success: boolean = true,
     latencyMs: number = 0
   ): Promise<void> {
-    // Buffer the request for batch processing
-    const existing = this.requestBuffer.get(operatorAddress);
-
-    if (existing) {
-      existing.requests++;
-      if (success) existing.successful++;
-      existing.totalLatencyMs += latencyMs;
-    } else {
-      this.requestBuffer.set(operatorAddress, {
-        address: operatorAddress,
-        requests: 1,
-        successful: success ? 1 : 0,
-        totalLatencyMs: latencyMs,
-      });
-    }
-
-    // Also log to database immediately
     await prisma.ollamaRequestLog.create({
       data: {
         operatorTokenId: 0, // Legacy field
@@ -249,24 +393,9 @@ class SubnetNodeService {
     inputTokens: number,
     outputTokens: number,
     latencyMs: number,
-    success: boolean
+    success: boolean,
+    attempt?: { outcome: AttemptOutcome; requestId?: string; charge?: SubnetCharge | null }
   ): Promise<void> {
-    // Buffer for batch sync
-    const existing = this.requestBuffer.get(operatorAddress);
-    if (existing) {
-      existing.requests++;
-      if (success) existing.successful++;
-      existing.totalLatencyMs += latencyMs;
-    } else {
-      this.requestBuffer.set(operatorAddress, {
-        address: operatorAddress,
-        requests: 1,
-        successful: success ? 1 : 0,
-        totalLatencyMs: latencyMs,
-      });
-    }
-
-    // Log to database
     await prisma.ollamaRequestLog.create({
       data: {
         operatorTokenId: 0, // Legacy field
@@ -276,82 +405,195 @@ class SubnetNodeService {
         outputTokens,
         latencyMs,
         success,
-        synced: false,
+        outcome: attempt?.outcome ?? (success ? "served" : "failed"),
+        requestId: attempt?.requestId ?? null,
+        costUSD: attempt?.charge?.costUSD ?? 0,
+        operatorShareUSD: attempt?.charge?.operatorShareUSD ?? 0,
+        protocolShareUSD: attempt?.charge?.protocolShareUSD ?? 0,
+        // Cancelled hedges did nothing wrong but served nobody: kept for stats, never rewarded
+        synced: attempt?.outcome === "cancelled",
       },
     });
   }
 
   /**
-   * Sync buffered requests to blockchain
+   * Sync logged requests to blockchain, one batch at a time
    */
   async syncRequestsToChain(): Promise<void> {
-    if (!this.initialized || !this.subnetRewards) {
+    if (!this.initialized || !this.subnetRewards || !this.signer) {
       console.log("[SubnetNodes] Not initialized, skipping sync");
       return;
     }
-
-    if (this.requestBuffer.size === 0) {
+    if (this.syncingRequests) {
       return;
     }
 
-    const batches = Array.from(this.requestBuffer.values());
-    this.requestBuffer.clear();
-
+    this.syncingRequests = true;
     try {
-      if (batches.length === 1) {
-        // Single record
-        const batch = batches[0];
-        const tx = await this.subnetRewards.recordRequests(
-          batch.address,
-          batch.requests,
-          batch.successful,
-          batch.totalLatencyMs
-        );
-        await tx.wait();
-        console.log(
-          `[SubnetNodes] Recorded ${batch.requests} requests for operator ${batch.address}`
-        );
-      } else {
-        // Batch record
-        const addresses = batches.map((b) => b.address);
-        const requestCounts = batches.map((b) => b.requests);
-        const successCounts = batches.map((b) => b.successful);
-        const latencies = batches.map((b) => b.totalLatencyMs);
-
-        const tx = await this.subnetRewards.batchRecordRequests(
-          addresses,
-          requestCounts,
-          successCounts,
-          latencies
-        );
-        await tx.wait();
-        console.log(
-          `[SubnetNodes] Batch recorded requests for ${batches.length} operators`
-        );
+      for (let i = 0; i < this.MAX_BATCHES_PER_SYNC; i++) {
+        // Unfinished batches go first so their rows are never re-batched
+        const batch = (await requestSync.nextOpenBatch()) ?? (await requestSync.claimBatch(await this.getEpochNumber()));
+        if (!batch || !(await this.processBatch(batch))) break;
       }
-
-      // Mark logs as synced
-      const addresses = batches.map((b) => b.address);
-      await prisma.ollamaRequestLog.updateMany({
-        where: {
-          operatorAddress: { in: addresses },
-          synced: false,
-        },
-        data: { synced: true },
-      });
     } catch (error) {
       console.error("[SubnetNodes] Failed to sync requests to chain:", error);
-      // Re-add to buffer for retry
-      for (const batch of batches) {
-        const existing = this.requestBuffer.get(batch.address);
-        if (existing) {
-          existing.requests += batch.requests;
-          existing.successful += batch.successful;
-          existing.totalLatencyMs += batch.totalLatencyMs;
-        } else {
-          this.requestBuffer.set(batch.address, batch);
+    } finally {
+      this.syncingRequests = false;
+    }
+  }
+
+  /**
+   * Get a batch on-chain exactly once; returns whether it is confirmed
+   */
+  private async processBatch(batch: any): Promise<boolean> {
+    const provider = this.provider!;
+    const signer = this.signer!;
+
+    // An earlier attempt may have landed (or still be in the mempool)
+    let nonce: number | undefined;
+    const hashes = requestSync.batchHashes(batch);
+    if (hashes.length > 0) {
+      for (const hash of hashes) {
+        const receipt = await provider.getTransactionReceipt(hash);
+        if (receipt?.status === 1) {
+          await requestSync.markConfirmed(batch.id, hash, receipt.blockNumber);
+          console.log(`[SubnetNodes] Batch ${batch.id} already confirmed in ${hash}`);
+          return true;
         }
       }
+
+      const accountNonce = await provider.getTransactionCount(signer.address, "latest");
+      if (batch.nonce !== null && accountNonce <= batch.nonce) {
+        if (await provider.getTransaction(batch.txHash)) {
+          return false; // Still pending - check again next round
+        }
+        // Dropped: replace it with the same nonce so at most one of them can land
+        nonce = batch.nonce;
+      }
+    }
+
+    try {
+      const entries = await requestSync.batchEntries(batch.id);
+      const populated = await this.subnetRewards!.batchRecordRequests.populateTransaction(
+        entries.map((e) => e.address),
+        entries.map((e) => e.requests),
+        entries.map((e) => e.successful),
+        entries.map((e) => e.totalLatencyMs),
+        entries.map((e) => e.tokens)
+      );
+      const request = await signer.populateTransaction(nonce === undefined ? populated : { ...populated, nonce });
+      const signed = await signer.signTransaction(request);
+      const txHash = ethers.Transaction.from(signed).hash!;
+
+      // Persist the hash before broadcasting - after a crash it is how we find out the batch landed
+      batch = await requestSync.markSubmitted(batch, txHash, Number(request.nonce));
+      await provider.broadcastTransaction(signed);
+
+      const receipt = await provider.waitForTransaction(txHash, 1, this.TX_CONFIRM_TIMEOUT);
+      if (!receipt) {
+        throw new Error(`Transaction ${txHash} not confirmed in time`);
+      }
+      if (receipt.status !== 1) {
+        throw new Error(`Transaction ${txHash} reverted`);
+      }
+
+      await requestSync.markConfirmed(batch.id, txHash, receipt.blockNumber);
+      console.log(
+        `[SubnetNodes] Batch ${batch.id}: recorded ${batch.requestCount} requests for ${entries.length} operators`
+      );
+      return true;
+    } catch (error) {
+      console.error(`[SubnetNodes] Batch ${batch.id} attempt failed:`, error);
+      await requestSync.markAttemptFailed(batch, (error as Error).message || String(error));
+      return false;
+    }
+  }
+
+  private async getEpochNumber(): Promise<number | null> {
+    try {
+      return Number(await this.subnetRewards!.currentEpoch());
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Persist health check outcomes as uptime probes
+   */
+  private attachUptimeProber(): void {
+    if (this.probesAttached) return;
+    this.probesAttached = true;
+
+    ollamaService.on("healthChecksComplete", (_summary, results: HealthCheckResult[] = []) => {
+      // Probes inside an announced maintenance window do not count against uptime
+      const nodes = new Map(ollamaService.getAllNodes().map((n) => [n.address, n]));
+      const counted = results.filter((r) => {
+        const node = nodes.get(r.address);
+        return !node || !ollamaService.inMaintenance(node, r.checkedAt);
+      });
+      recordProbes(counted).catch((error) => {
+        console.error("[SubnetNodes] Failed to record uptime probes:", error);
+      });
+      this.persistModelDescriptors().catch((error) => {
+        console.error("[SubnetNodes] Failed to persist model descriptors:", error);
+      });
+    });
+  }
+
+  /**
+   * Store the models each node reported in the operator cache, when they changed
+   */
+  private async persistModelDescriptors(): Promise<void> {
+    for (const node of ollamaService.getAllNodes()) {
+      if (!node.models) continue;
+      const signature = node.models.map((m) => `${m.name}@${m.digest}:${m.contextLength}`).sort().join(",");
+      if (this.persistedModels.get(node.address) === signature) continue;
+
+      await prisma.operatorCache.updateMany({
+        where: { operatorAddress: node.address },
+        data: { modelDescriptors: node.models as any },
+      });
+      this.persistedModels.set(node.address, signature);
+    }
+  }
+
+  /**
+   * Sync unsynced uptime probes to blockchain
+   */
+  async syncUptimeToChain(): Promise<void> {
+    if (!this.initialized || !this.subnetRewards) {
+      return;
+    }
+
+    try {
+      const rows = await prisma.operatorUptimeCheck.findMany({
+        where: { synced: false },
+        orderBy: { id: "asc" },
+        take: this.UPTIME_SYNC_LIMIT,
+        select: { id: true, operatorAddress: true, passed: true },
+      });
+      if (rows.length === 0) {
+        return;
+      }
+
+      const batches = tallyUptime(rows);
+      const tx = await this.subnetRewards.batchRecordUptime(
+        batches.map((b) => b.address),
+        batches.map((b) => b.passed),
+        batches.map((b) => b.total)
+      );
+      await tx.wait();
+
+      // Rows stay unsynced on failure and are retried next round
+      await prisma.operatorUptimeCheck.updateMany({
+        where: { id: { in: rows.map((r: { id: number }) => r.id) } },
+        data: { synced: true, txHash: tx.hash, syncedAt: new Date() },
+      });
+      console.log(
+        `[SubnetNodes] Recorded ${rows.length} uptime checks for ${batches.length} operators`
+      );
+    } catch (error) {
+      console.error("[SubnetNodes] Failed to sync uptime to chain:", error);
     }
   }
 
@@ -471,13 +713,65 @@ class SubnetNodeService {
     }
   }
 
+  /**
+   * Build the owner-only slashOperator transaction for the admin wallet to sign
+   */
+  async prepareSlashTransaction(operatorAddress: string, reason: string): Promise<{
+    to: string;
+    data: string;
+    value: string;
+    chainId: number;
+  }> {
+    if (!this.initialized || !this.operatorRegistry || !this.provider) {
+      throw new Error("Subnet service not initialized");
+    }
+
+    const network = await this.provider.getNetwork();
+    return {
+      to: await this.operatorRegistry.getAddress(),
+      data: this.operatorRegistry.interface.encodeFunctionData("slashOperator", [operatorAddress, reason]),
+      value: "0",
+      chainId: Number(network.chainId),
+    };
+  }
+
+  /**
+   * Check that a transaction slashed the given operator
+   */
+  async verifySlashTransaction(txHash: string, operatorAddress: string): Promise<boolean> {
+    if (!this.initialized || !this.operatorRegistry || !this.provider) {
+      return false;
+    }
+
+    const receipt = await this.provider.getTransactionReceipt(txHash);
+    if (!receipt || receipt.status !== 1) {
+      return false;
+    }
+
+    const registryAddress = (await this.operatorRegistry.getAddress()).toLowerCase();
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== registryAddress) continue;
+      try {
+        const parsed = this.operatorRegistry.interface.parseLog({ topics: [...log.topics], data: log.data });
+        if (parsed?.name === "OperatorSlashed" && parsed.args.operator.toLowerCase() === operatorAddress.toLowerCase()) {
+          return true;
+        }
+      } catch {
+        // Not a registry event we know
+      }
+    }
+    return false;
+  }
+
   /**
    * Start periodic sync to blockchain
    */
   private startPeriodicSync(): void {
-    // Sync requests to chain every minute
+    // Sync requests and uptime probes to chain every minute, then index what landed
     this.syncInterval = setInterval(async () => {
       await this.syncRequestsToChain();
+      await this.syncUptimeToChain();
+      await rewardIndexer.sync();
     }, this.SYNC_INTERVAL);
 
     // Refresh operator cache every 5 minutes
@@ -503,7 +797,9 @@ class SubnetNodeService {
    */
   async shutdown(): Promise<void> {
     this.stopPeriodicSync();
+    await this.operatorRegistry?.removeAllListeners();
     await this.syncRequestsToChain();
+    await this.syncUptimeToChain();
   }
 }
 
@@ -0,0 +1,195 @@
+import { prisma } from "../prisma";
+import { parseModelRef } from "./ollama";
+
+/**
+ * Subnet Pricing - what decentralized (Ollama) inference costs and who gets it
+ *
+ * Prices are USD per 1M tokens, like OpenRouter's. Admins set the network price
+ * of a model; an operator may set its own for requests its node serves, but only
+ * for models with a network price and never above it. A request is charged at the price of
+ * the node that served it, from Ollama's prompt_eval_count and eval_count, and the
+ * charge is split between that operator and the protocol. The split is stored on
+ * the request's OllamaRequestLog row. Models nobody priced stay free.
+ */
+
+// operatorAddress of network-wide prices
+export const NETWORK_PRICE = "";
+// Operator's cut of each charge, in basis points
+export const OPERATOR_SHARE_BPS = Number(process.env.SUBNET_OPERATOR_SHARE_BPS || 8000);
+
+export interface SubnetPrice {
+  promptPerMTok: number;
+  completionPerMTok: number;
+  source: "operator" | "network" | "free";
+}
+
+export interface SubnetCharge {
+  costUSD: number;
+  operatorShareUSD: number;
+  protocolShareUSD: number;
+  price: SubnetPrice;
+}
+
+interface PriceRow {
+  id: number;
+  model: string;
+  operatorAddress: string;
+  promptPricePerMTok: unknown;
+  completionPricePerMTok: unknown;
+}
+
+export class SubnetPricingError extends Error {
+  constructor(public code: string, public status: number, message: string) {
+    super(message);
+    this.name = "SubnetPricingError";
+  }
+}
+
+const FREE: SubnetPrice = { promptPerMTok: 0, completionPerMTok: 0, source: "free" };
+
+function round8(value: number): number {
+  return Math.round(value * 1e8) / 1e8;
+}
+
+/**
+ * Price a model reference from its price rows: exact tag before family,
+ * the operator's own price capped at the network price (and ignored without one)
+ */
+export function pickPrice(rows: PriceRow[], model: string, operatorAddress?: string | null): SubnetPrice {
+  const { name, family } = parseModelRef(model);
+  const find = (scope: string) =>
+    rows.find((r) => r.operatorAddress === scope && r.model === name) ??
+    rows.find((r) => r.operatorAddress === scope && r.model === family);
+
+  const network = find(NETWORK_PRICE);
+  const own = operatorAddress ? find(operatorAddress.toLowerCase()) : undefined;
+  if (!network) return FREE;
+  if (!own) {
+    return { promptPerMTok: Number(network.promptPricePerMTok), completionPerMTok: Number(network.completionPricePerMTok), source: "network" };
+  }
+
+  return {
+    promptPerMTok: Math.min(Number(own.promptPricePerMTok), Number(network.promptPricePerMTok)),
+    completionPerMTok: Math.min(Number(own.completionPricePerMTok), Number(network.completionPricePerMTok)),
+    source: "operator",
+  };
+}
+
+/**
+ * Charge for a served request and the operator/protocol split
+ */
+export function computeCharge(price: SubnetPrice, inputTokens: number, outputTokens: number): SubnetCharge {
+  const costUSD = round8((inputTokens / 1_000_000) * price.promptPerMTok + (outputTokens / 1_000_000) * price.completionPerMTok);
+  const operatorShareUSD = round8((costUSD * OPERATOR_SHARE_BPS) / 10_000);
+  return { costUSD, operatorShareUSD, protocolShareUSD: round8(costUSD - operatorShareUSD), price };
+}
+
+async function rowsFor(models: string[]): Promise<PriceRow[]> {
+  const names = new Set<string>();
+  for (const model of models) {
+    const { name, family } = parseModelRef(model);
+    names.add(name).add(family);
+  }
+  return prisma.subnetModelPrice.findMany({ where: { model: { in: Array.from(names) } } });
+}
+
+/**
+ * Price of a model on one operator's node (or the network price without an operator)
+ */
+export async function resolvePrice(model: string, operatorAddress?: string | null): Promise<SubnetPrice> {
+  return pickPrice(await rowsFor([model]), model, operatorAddress);
+}
+
+/**
+ * Highest price any candidate node would charge (each with the exact tag it would run) -
+ * what a credit hold must cover, since failover picks the serving node only once the request runs
+ */
+export async function priceCeiling(model: string, candidates: { operatorAddress: string; model: string }[]): Promise<SubnetPrice> {
+  const rows = await rowsFor([model, ...candidates.map((c) => c.model)]);
+  const prices = candidates.length > 0
+    ? candidates.map((c) => pickPrice(rows, c.model, c.operatorAddress))
+    : [pickPrice(rows, model)];
+  return prices.reduce((max, p) => ({
+    promptPerMTok: Math.max(max.promptPerMTok, p.promptPerMTok),
+    completionPerMTok: Math.max(max.completionPerMTok, p.completionPerMTok),
+    source: p.source === "free" ? max.source : p.source,
+  }), FREE);
+}
+
+export async function listPrices(filter: { model?: string; operatorAddress?: string } = {}) {
+  const rows = await prisma.subnetModelPrice.findMany({
+    where: {
+      ...(filter.model ? { model: filter.model } : {}),
+      ...(filter.operatorAddress !== undefined ? { operatorAddress: filter.operatorAddress.toLowerCase() } : {}),
+    },
+    orderBy: [{ model: "asc" }, { operatorAddress: "asc" }],
+  });
+  return rows.map((r: PriceRow & { setBy: string | null; updatedAt: Date }) => ({
+    id: r.id,
+    model: r.model,
+    scope: r.operatorAddress === NETWORK_PRICE ? "network" : "operator",
+    operatorAddress: r.operatorAddress || null,
+    promptPricePerMTok: Number(r.promptPricePerMTok).toString(),
+    completionPricePerMTok: Number(r.completionPricePerMTok).toString(),
+    setBy: r.setBy,
+    updatedAt: r.updatedAt,
+  }));
+}
+
+/**
+ * Create or replace a price. `operatorAddress` NETWORK_PRICE sets the network price;
+ * an operator's price is refused for models without one.
+ */
+export async function setPrice(
+  model: string,
+  operatorAddress: string,
+  promptPricePerMTok: unknown,
+  completionPricePerMTok: unknown,
+  setBy: string
+) {
+  // Digests pin a build for routing; prices apply to the tag
+  const name = typeof model === "string" ? parseModelRef(model.trim().replace(/^ollama\//, "")).name : "";
+  if (!name) throw new SubnetPricingError("invalid_model", 400, "A model name is required");
+
+  const prompt = Number(promptPricePerMTok);
+  const completion = Number(completionPricePerMTok);
+  if (!Number.isFinite(prompt) || !Number.isFinite(completion) || prompt < 0 || completion < 0) {
+    throw new SubnetPricingError("invalid_price", 400, "Prices must be non-negative numbers (USD per 1M tokens)");
+  }
+
+  const scope = operatorAddress.toLowerCase();
+  if (scope !== NETWORK_PRICE && pickPrice(await rowsFor([name]), name).source !== "network") {
+    throw new SubnetPricingError("network_price_required", 409, `${name} has no network price; operators can only price network-priced models`);
+  }
+  return prisma.subnetModelPrice.upsert({
+    where: { model_operatorAddress: { model: name, operatorAddress: scope } },
+    update: { promptPricePerMTok: prompt, completionPricePerMTok: completion, setBy },
+    create: { model: name, operatorAddress: scope, promptPricePerMTok: prompt, completionPricePerMTok: completion, setBy },
+  });
+}
+
+export async function removePrice(model: string, operatorAddress: string): Promise<boolean> {
+  const { count } = await prisma.subnetModelPrice.deleteMany({
+    where: { model: parseModelRef(model.replace(/^ollama\//, "")).name, operatorAddress: operatorAddress.toLowerCase() },
+  });
+  return count > 0;
+}
+
+/**
+ * What users paid for subnet requests since `since`, per operator
+ */
+export async function getFeeSummary(since: Date) {
+  const groups = await prisma.ollamaRequestLog.groupBy({
+    by: ["operatorAddress"],
+    where: { createdAt: { gte: since }, costUSD: { gt: 0 } },
+    _count: true,
+    _sum: { costUSD: true, operatorShareUSD: true, protocolShareUSD: true },
+  });
+  return (groups as { operatorAddress: string; _count: number; _sum: Record<string, unknown> }[]).map((g) => ({
+    operatorAddress: g.operatorAddress,
+    paidRequests: g._count,
+    revenueUSD: Number(g._sum.costUSD || 0).toFixed(8),
+    operatorShareUSD: Number(g._sum.operatorShareUSD || 0).toFixed(8),
+    protocolShareUSD: Number(g._sum.protocolShareUSD || 0).toFixed(8),
+  }));
+}
@@ -0,0 +1,116 @@
+import { prisma } from "../prisma";
+import type { HealthCheckResult } from "./ollama";
+
+/**
+ * Uptime - durable record of operator health probes
+ *
+ * Every OllamaService health check round is persisted here, one row per operator.
+ * SubnetNodeService submits the unsynced rows to SubnetRewards.batchRecordUptime
+ * on the same cadence as request batches, which feeds the uptime share of the
+ * operator's on-chain performance score.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_ERROR_LENGTH = 255;
+
+export interface UptimeBatch {
+  address: string;
+  passed: number;
+  total: number;
+}
+
+export interface UptimeWindow {
+  checks: number;
+  passed: number;
+  uptimePercent: string;
+}
+
+export interface UptimeHistory {
+  uptime24h: UptimeWindow;
+  uptime7d: UptimeWindow;
+  daily: (UptimeWindow & { date: string })[];
+  recentChecks: { passed: boolean; latencyMs: number | null; error: string | null; checkedAt: Date }[];
+}
+
+function toWindow(checks: number, passed: number): UptimeWindow {
+  return {
+    checks,
+    passed,
+    uptimePercent: checks > 0 ? ((passed / checks) * 100).toFixed(1) : "0",
+  };
+}
+
+/**
+ * Persist one round of health check results
+ */
+export async function recordProbes(results: HealthCheckResult[]): Promise<number> {
+  if (results.length === 0) return 0;
+  const { count } = await prisma.operatorUptimeCheck.createMany({
+    data: results.map((r) => ({
+      operatorAddress: r.address,
+      passed: r.passed,
+      latencyMs: r.latencyMs,
+      error: r.error ? r.error.slice(0, MAX_ERROR_LENGTH) : null,
+      checkedAt: r.checkedAt,
+    })),
+  });
+  return count;
+}
+
+/**
+ * Collapse probe rows into one (passed, total) batch per operator
+ */
+export function tallyUptime(rows: { operatorAddress: string; passed: boolean }[]): UptimeBatch[] {
+  const batches = new Map<string, UptimeBatch>();
+  for (const row of rows) {
+    const batch = batches.get(row.operatorAddress) || { address: row.operatorAddress, passed: 0, total: 0 };
+    batch.total++;
+    if (row.passed) batch.passed++;
+    batches.set(row.operatorAddress, batch);
+  }
+  return Array.from(batches.values());
+}
+
+async function countWindow(operatorAddress: string, from: Date, to?: Date): Promise<UptimeWindow> {
+  const groups = await prisma.operatorUptimeCheck.groupBy({
+    by: ["passed"],
+    where: { operatorAddress, checkedAt: { gte: from, ...(to ? { lt: to } : {}) } },
+    _count: true,
+  });
+  let checks = 0;
+  let passed = 0;
+  for (const group of groups as { passed: boolean; _count: number }[]) {
+    checks += group._count;
+    if (group.passed) passed += group._count;
+  }
+  return toWindow(checks, passed);
+}
+
+/**
+ * Uptime of an operator over the last day and week, per UTC day, plus its latest probes
+ */
+export async function getUptimeHistory(operatorAddress: string, days = 7, recent = 50): Promise<UptimeHistory> {
+  const now = Date.now();
+  const today = new Date(now);
+  today.setUTCHours(0, 0, 0, 0);
+  const dayStarts = Array.from({ length: days }, (_, i) => new Date(today.getTime() - (days - 1 - i) * DAY_MS));
+
+  const [uptime24h, uptime7d, daily, recentChecks] = await Promise.all([
+    countWindow(operatorAddress, new Date(now - DAY_MS)),
+    countWindow(operatorAddress, new Date(now - 7 * DAY_MS)),
+    Promise.all(
+      dayStarts.map(async (start) => ({
+        date: start.toISOString().slice(0, 10),
+        ...(await countWindow(operatorAddress, start, new Date(start.getTime() + DAY_MS))),
+      }))
+    ),
+    prisma.operatorUptimeCheck.findMany({
+      where: { operatorAddress },
+      orderBy: { checkedAt: "desc" },
+      take: recent,
+      select: { passed: true, latencyMs: true, error: true, checkedAt: true },
+    }),
+  ]);
+
+  return { uptime24h, uptime7d, daily, recentChecks };
+}
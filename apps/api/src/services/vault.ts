@@ -19,6 +19,18 @@ const VAULT_ABI = [
   'function depositCount() view returns (uint256)',
 ];
 
+export interface WithdrawalEvent {
+  user: string;
+  amount: string;
+  nonce: number;
+  timestamp: number;
+  txHash: string;
+  blockNumber: number;
+}
+
+// Public RPCs cap eth_getLogs ranges
+const LOG_QUERY_CHUNK = 2000;
+
 export interface DepositEvent {
   user: string;
   amount: string;
@@ -85,6 +97,10 @@ export class VaultService {
     return Number(nonce);
   }
 
+  async getBlockNumber(): Promise<number> {
+    return this.provider.getBlockNumber();
+  }
+
   /**
    * Get contract's total AVAX balance
    */
@@ -212,6 +228,75 @@ export class VaultService {
     }
   }
 
+  // ═══════════════════════════════════════════════════════════════════════
+  // WITHDRAWAL VERIFICATION
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Verify a withdrawWithPermit transaction by txHash (null if pending, failed or not a withdrawal)
+   */
+  async verifyWithdrawalByTxHash(txHash: string): Promise<WithdrawalEvent | null> {
+    if (!this.contract) throw new Error('Vault not initialized');
+
+    let receipt = await this.provider.getTransactionReceipt(txHash);
+    if (!receipt) {
+      try {
+        receipt = await this.provider.waitForTransaction(txHash, 1, 60000);
+      } catch {
+        console.log(`[Vault] Timeout waiting for withdrawal tx: ${txHash}`);
+        return null;
+      }
+    }
+    if (!receipt || receipt.status === 0) return null;
+
+    const iface = new ethers.Interface(VAULT_ABI);
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== VAULT_ADDRESS?.toLowerCase()) continue;
+      try {
+        const parsed = iface.parseLog({ topics: log.topics as string[], data: log.data });
+        if (parsed?.name === 'Withdrawn') {
+          return {
+            user: parsed.args[0].toLowerCase(),
+            amount: parsed.args[1].toString(),
+            nonce: Number(parsed.args[2]),
+            timestamp: Number(parsed.args[3]),
+            txHash: receipt.hash,
+            blockNumber: receipt.blockNumber,
+          };
+        }
+      } catch {
+        continue;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Look up the Withdrawn event for (user, nonce) in the `maxBlocks` after `fromBlock`
+   * (a permit can only be used before its deadline, so the window is bounded)
+   */
+  async findWithdrawalEvent(userAddress: string, nonce: number, fromBlock: number, maxBlocks: number = 20000): Promise<WithdrawalEvent | null> {
+    if (!this.contract) throw new Error('Vault not initialized');
+
+    const filter = this.contract.filters.Withdrawn(userAddress, null, nonce);
+    const end = Math.min(await this.provider.getBlockNumber(), fromBlock + maxBlocks);
+    for (let start = fromBlock; start <= end; start += LOG_QUERY_CHUNK) {
+      const logs = await this.contract.queryFilter(filter, start, Math.min(start + LOG_QUERY_CHUNK - 1, end));
+      const log = logs[0] as ethers.EventLog | undefined;
+      if (log?.args) {
+        return {
+          user: String(log.args[0]).toLowerCase(),
+          amount: log.args[1].toString(),
+          nonce: Number(log.args[2]),
+          timestamp: Number(log.args[3]),
+          txHash: log.transactionHash,
+          blockNumber: log.blockNumber,
+        };
+      }
+    }
+    return null;
+  }
+
   // ═══════════════════════════════════════════════════════════════════════
   // WITHDRAWAL SIGNING
   // ═══════════════════════════════════════════════════════════════════════
@@ -0,0 +1,245 @@
+import { ethers } from "ethers";
+import { v4 as uuidv4 } from "uuid";
+import { prisma } from "../prisma";
+import { vaultService } from "./vault";
+import { ledgerService } from "./ledger";
+import { billingService } from "./billing";
+
+/**
+ * Withdrawals - paying unused credits back through ZeroPromptVault.withdrawWithPermit
+ *
+ * Flow:
+ * 1. POST /billing/withdraw/request: the operator wallet signs a permit for
+ *    (user, amount, nonce, deadline) and the USD amount is locked in the ledger
+ * 2. The user submits the permit to the vault (user pays gas)
+ * 3. POST /billing/withdraw/confirm with the txHash: the Withdrawn event is
+ *    checked and the locked amount leaves the ledger
+ *
+ * A permit is bound to the wallet's current vault nonce, so only one can be
+ * outstanding. Pending withdrawals are reconciled against the chain whenever the
+ * wallet touches this service: a consumed nonce means the permit was used, an
+ * unconsumed nonce past the deadline means it never will be and the lock is released.
+ */
+
+const PERMIT_TTL_SECONDS = Number(process.env.WITHDRAWAL_PERMIT_TTL_SECONDS) || 3600;
+const MIN_WITHDRAWAL_USD = 1;
+// Server and chain clocks differ - don't release a lock the moment the deadline passes
+const EXPIRY_GRACE_MS = 5 * 60 * 1000;
+
+export type WithdrawalStatus = "pending" | "completed" | "expired";
+
+export interface WithdrawalPermit {
+  contractAddress: string;
+  chainId: number;
+  amount: string; // wei
+  deadline: number;
+  nonce: number;
+  signature: string;
+}
+
+export interface WithdrawalView {
+  id: string;
+  amountUSD: string;
+  amountAVAX: string;
+  status: WithdrawalStatus;
+  deadline: number;
+  txHash: string | null;
+  createdAt: number;
+  completedAt: number | null;
+  // Only while pending - what the client submits to withdrawWithPermit
+  permit?: WithdrawalPermit;
+}
+
+export class WithdrawalError extends Error {
+  constructor(public code: string, public status: number, message: string, public withdrawal?: WithdrawalView) {
+    super(message);
+  }
+}
+
+const CONTRACT_ADDRESS = process.env.VAULT_CONTRACT_ADDRESS || "0x773c9849F15Ac7484232767536Fe5495B5E231e9";
+const CHAIN_ID = 43114;
+
+class WithdrawalService {
+  isEnabled(): boolean {
+    return vaultService.isEnabled() && vaultService.canSign();
+  }
+
+  /**
+   * What the wallet can take out: spendable credits, capped at what it deposited
+   * minus what it already withdrew (granted credits can be spent, not withdrawn)
+   */
+  async getWithdrawable(walletAddress: string): Promise<{ availableUSD: number; withdrawableUSD: number }> {
+    const wallet = walletAddress.toLowerCase();
+    const [{ availableUSD }, deposits, withdrawals] = await Promise.all([
+      ledgerService.getBalance(wallet),
+      prisma.vaultDeposit.aggregate({ where: { walletAddress: wallet }, _sum: { amountUSD: true } }),
+      prisma.vaultWithdrawal.aggregate({
+        where: { walletAddress: wallet, status: { in: ["pending", "completed"] } },
+        _sum: { amountUSD: true },
+      }),
+    ]);
+    const deposited = Number(deposits._sum.amountUSD || 0) - Number(withdrawals._sum.amountUSD || 0);
+    const withdrawable = Math.floor(Math.max(0, Math.min(availableUSD, deposited)) * 100) / 100;
+    return { availableUSD: Math.max(0, availableUSD), withdrawableUSD: withdrawable };
+  }
+
+  /**
+   * Sign a permit for `amountUSD` (everything withdrawable if omitted) and lock it
+   */
+  async request(walletAddress: string, amountUSD?: number): Promise<WithdrawalView> {
+    if (!this.isEnabled()) {
+      throw new WithdrawalError("withdrawals_disabled", 503, "Withdrawals are not available right now");
+    }
+    const wallet = walletAddress.toLowerCase();
+    await this.reconcile(wallet);
+
+    const pending = await prisma.vaultWithdrawal.findFirst({ where: { walletAddress: wallet, status: "pending" } });
+    if (pending) {
+      throw new WithdrawalError("withdrawal_pending", 409, "Finish or wait out the pending withdrawal first", this.toView(pending));
+    }
+
+    const { withdrawableUSD } = await this.getWithdrawable(wallet);
+    const amount = amountUSD ?? withdrawableUSD;
+    if (!(amount >= MIN_WITHDRAWAL_USD)) {
+      throw new WithdrawalError("amount_too_small", 400, `Minimum withdrawal is $${MIN_WITHDRAWAL_USD}`);
+    }
+    if (amount > withdrawableUSD) {
+      throw new WithdrawalError("exceeds_withdrawable", 400, `At most $${withdrawableUSD.toFixed(2)} can be withdrawn`);
+    }
+
+    const priceUSD = await billingService.getNativeTokenPrice();
+    // Integer math so the permit carries exactly amount / price
+    const amountWei = (ethers.parseUnits(amount.toFixed(8), 8) * 10n ** 18n) / ethers.parseUnits(priceUSD.toFixed(8), 8);
+    const liquidity = ethers.parseEther(await vaultService.getContractBalance());
+    if (liquidity < amountWei) {
+      throw new WithdrawalError("vault_liquidity", 503, "The vault cannot cover this withdrawal right now");
+    }
+
+    const id = uuidv4();
+    const fromBlock = await vaultService.getBlockNumber();
+    const permit = await vaultService.signWithdrawalPermit(wallet, amountWei.toString(), PERMIT_TTL_SECONDS);
+    const deadline = new Date(permit.deadline * 1000);
+
+    // Lock before the permit leaves the server; throws InsufficientCreditsError if a concurrent request spent it
+    await ledgerService.lockWithdrawal(wallet, id, amount, deadline);
+    try {
+      const row = await prisma.vaultWithdrawal.create({
+        data: {
+          id,
+          walletAddress: wallet,
+          amountUSD: amount,
+          amountAVAX: amountWei.toString(),
+          priceUSD,
+          nonce: permit.nonce,
+          deadline,
+          signature: permit.signature,
+          fromBlock,
+        },
+      });
+      console.log(`[Withdrawals] Issued permit ${id} for ${wallet}: $${amount.toFixed(2)} (${ethers.formatEther(amountWei)} AVAX, nonce ${permit.nonce})`);
+      return this.toView(row);
+    } catch (error: any) {
+      await ledgerService.release(id, "withdrawal_not_issued");
+      // Unique (wallet, nonce): another permit for this nonce was issued concurrently
+      if (error?.code === "P2002") {
+        throw new WithdrawalError("withdrawal_pending", 409, "Another withdrawal was requested at the same time");
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Record the on-chain withdrawal for `withdrawalId` from its transaction
+   */
+  async confirm(walletAddress: string, withdrawalId: string, txHash: string): Promise<WithdrawalView> {
+    const wallet = walletAddress.toLowerCase();
+    const withdrawal = await prisma.vaultWithdrawal.findFirst({ where: { id: withdrawalId, walletAddress: wallet } });
+    if (!withdrawal) throw new WithdrawalError("not_found", 404, "Withdrawal not found");
+    if (withdrawal.status === "completed") return this.toView(withdrawal);
+    if (withdrawal.status === "expired") throw new WithdrawalError("withdrawal_expired", 409, "The permit expired unused");
+
+    const event = await vaultService.verifyWithdrawalByTxHash(txHash);
+    if (!event) {
+      throw new WithdrawalError("withdrawal_not_found_onchain", 400, "Transaction is pending, failed or is not a vault withdrawal");
+    }
+    if (event.user !== wallet || event.nonce !== withdrawal.nonce || event.amount !== withdrawal.amountAVAX) {
+      throw new WithdrawalError("withdrawal_mismatch", 400, "Transaction does not match this withdrawal");
+    }
+    return this.complete(withdrawal, event.txHash, event.blockNumber);
+  }
+
+  /**
+   * Settle pending withdrawals whose permit was used or can no longer be
+   */
+  async reconcile(walletAddress: string): Promise<void> {
+    const wallet = walletAddress.toLowerCase();
+    const pending = await prisma.vaultWithdrawal.findMany({ where: { walletAddress: wallet, status: "pending" } });
+    if (pending.length === 0) return;
+
+    const nonce = await vaultService.getNonce(wallet);
+    for (const withdrawal of pending) {
+      if (nonce > withdrawal.nonce) {
+        const event = await vaultService
+          .findWithdrawalEvent(wallet, withdrawal.nonce, withdrawal.fromBlock)
+          .catch((error) => {
+            console.warn(`[Withdrawals] Event lookup for ${withdrawal.id} failed:`, error.message);
+            return null;
+          });
+        await this.complete(withdrawal, event?.txHash ?? null, event?.blockNumber ?? null);
+      } else if (withdrawal.deadline.getTime() + EXPIRY_GRACE_MS < Date.now()) {
+        await ledgerService.release(withdrawal.id, "permit_expired");
+        await prisma.vaultWithdrawal.update({ where: { id: withdrawal.id }, data: { status: "expired" } });
+        console.log(`[Withdrawals] Permit ${withdrawal.id} expired unused, released $${Number(withdrawal.amountUSD).toFixed(2)}`);
+      }
+    }
+  }
+
+  async list(walletAddress: string, limit: number = 20): Promise<WithdrawalView[]> {
+    const wallet = walletAddress.toLowerCase();
+    await this.reconcile(wallet).catch((error) => console.error(`[Withdrawals] Reconcile for ${wallet} failed:`, error));
+    const rows = await prisma.vaultWithdrawal.findMany({
+      where: { walletAddress: wallet },
+      orderBy: { createdAt: "desc" },
+      take: limit,
+    });
+    return rows.map((row: any) => this.toView(row));
+  }
+
+  private async complete(withdrawal: any, txHash: string | null, blockNumber: number | null): Promise<WithdrawalView> {
+    await ledgerService.completeWithdrawal(withdrawal.id, txHash);
+    const row = await prisma.vaultWithdrawal.update({
+      where: { id: withdrawal.id },
+      data: { status: "completed", txHash, blockNumber, completedAt: new Date() },
+    });
+    console.log(`[Withdrawals] ✓ Withdrawal ${withdrawal.id} completed${txHash ? ` in ${txHash}` : ""}`);
+    return this.toView(row);
+  }
+
+  private toView(row: any): WithdrawalView {
+    const deadline = Math.floor(new Date(row.deadline).getTime() / 1000);
+    return {
+      id: row.id,
+      amountUSD: Number(row.amountUSD).toFixed(2),
+      amountAVAX: ethers.formatEther(row.amountAVAX),
+      status: row.status,
+      deadline,
+      txHash: row.txHash ?? null,
+      createdAt: Math.floor(new Date(row.createdAt).getTime() / 1000),
+      completedAt: row.completedAt ? Math.floor(new Date(row.completedAt).getTime() / 1000) : null,
+      ...(row.status === "pending"
+        ? {
+            permit: {
+              contractAddress: CONTRACT_ADDRESS,
+              chainId: CHAIN_ID,
+              amount: row.amountAVAX,
+              deadline,
+              nonce: row.nonce,
+              signature: row.signature,
+            },
+          }
+        : {}),
+    };
+  }
+}
+
+export const withdrawalService = new WithdrawalService();
@@ -0,0 +1,149 @@
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+import { prisma } from '../prisma';
+
+/**
+ * x402 Payment Intents - binding native AVAX payments to the challenge that asked for them
+ *
+ * A native transfer carries nothing on its own that ties it to a request: any transaction
+ * paying the merchant enough would do, as often as it is presented. So the 402 challenge
+ * issues an intent - a random nonce with the AVAX amount, endpoint and quote it is for -
+ * and the payer sends that nonce as the transaction's data. A transaction pays the one
+ * intent its data names, once: the intent is claimed, with the tx hash, in a conditional
+ * update before the paid handler runs. Transactions mined longer ago than the challenge's
+ * maxTimeoutSeconds are refused, whatever they carry.
+ */
+
+// Unpaid intents are kept this long past expiry: a transaction mined just before the expiry
+// can still be presented until it is stale (maxTimeoutSeconds after mining)
+const INTENT_RETENTION_MS = 60 * 60 * 1000;
+
+export class X402IntentError extends Error {
+  constructor(public code: string, public status: number, message: string) {
+    super(message);
+    this.name = 'X402IntentError';
+  }
+}
+
+export interface X402PaymentIntent {
+  id: string;
+  nonce: string; // 0x + 32 bytes, to be sent as the transaction data
+  amountWei: string;
+  expiresAt: string; // ISO timestamp
+}
+
+/**
+ * Record the intent a 402 challenge offers for a native payment of `amountWei`
+ */
+export async function issuePaymentIntent(
+  { resource, amountWei, priceUSD, quoteId, timeoutSeconds }: {
+    resource: string;
+    amountWei: bigint;
+    priceUSD: string;
+    quoteId?: string;
+    timeoutSeconds: number;
+  }
+): Promise<X402PaymentIntent> {
+  const intent = await prisma.x402PaymentIntent.create({
+    data: {
+      id: crypto.randomUUID(),
+      nonce: ethers.hexlify(crypto.randomBytes(32)),
+      resource,
+      amountWei: amountWei.toString(),
+      priceUSD,
+      quoteId: quoteId ?? null,
+      expiresAt: new Date(Date.now() + timeoutSeconds * 1000),
+    },
+  });
+  return { id: intent.id, nonce: intent.nonce, amountWei: intent.amountWei, expiresAt: intent.expiresAt.toISOString() };
+}
+
+/**
+ * Refuse a tx hash that already paid, before waiting on the chain for it
+ */
+export async function assertTxUnused(txHash: unknown): Promise<string> {
+  if (typeof txHash !== 'string' || !ethers.isHexString(txHash, 32)) {
+    throw new X402IntentError('invalid_tx_hash', 400, 'payload.txHash must be a 32-byte transaction hash');
+  }
+  const [intent, payment] = await Promise.all([
+    prisma.x402PaymentIntent.findUnique({ where: { txHash } }),
+    // Native payments from before intents
+    prisma.x402Payment.findUnique({ where: { txHash } }),
+  ]);
+  if (intent || payment) {
+    throw new X402IntentError('tx_already_used', 409, `Transaction ${txHash} already paid for a request`);
+  }
+  return txHash;
+}
+
+/**
+ * Claim the intent a mined transaction names for this request. Throws unless the
+ * transaction is recent, carries an open intent for this endpoint and quote, and pays
+ * at least its amount; only one request can claim a given intent and tx hash.
+ */
+export async function claimPaymentIntent(
+  tx: ethers.TransactionResponse,
+  minedAt: Date,
+  { resource, quoteId, network, maxAgeSeconds }: {
+    resource: string;
+    quoteId?: string;
+    network: string;
+    maxAgeSeconds: number;
+  }
+): Promise<{ id: string }> {
+  if (Date.now() - minedAt.getTime() > maxAgeSeconds * 1000) {
+    throw new X402IntentError(
+      'tx_stale',
+      402,
+      `Transaction ${tx.hash} was mined at ${minedAt.toISOString()}, over ${maxAgeSeconds}s ago; pay a fresh challenge`
+    );
+  }
+
+  if (!tx.data || tx.data === '0x') {
+    throw new X402IntentError('intent_required', 402, 'The transaction data must be the payment intent nonce from the 402 challenge');
+  }
+  const intent = await prisma.x402PaymentIntent.findUnique({ where: { nonce: tx.data.toLowerCase() } });
+  if (!intent) {
+    throw new X402IntentError('intent_not_found', 404, `No payment intent matches the data of ${tx.hash}`);
+  }
+  if (intent.resource !== resource || (intent.quoteId ?? undefined) !== quoteId) {
+    throw new X402IntentError('intent_mismatch', 409, `Intent ${intent.id} was issued for another request`);
+  }
+  if (intent.expiresAt.getTime() < minedAt.getTime()) {
+    throw new X402IntentError('intent_expired', 402, `Intent ${intent.id} expired before the transaction was mined`);
+  }
+  if (tx.value < BigInt(intent.amountWei)) {
+    throw new X402IntentError(
+      'insufficient_amount',
+      402,
+      `Paid ${ethers.formatEther(tx.value)} AVAX but intent ${intent.id} asks for ${ethers.formatEther(intent.amountWei)} AVAX`
+    );
+  }
+
+  try {
+    const { count } = await prisma.x402PaymentIntent.updateMany({
+      where: { id: intent.id, status: 'open' },
+      data: { status: 'paid', txHash: tx.hash, payer: tx.from, network, paidAt: new Date() },
+    });
+    if (count === 0) {
+      throw new X402IntentError('intent_used', 409, `Intent ${intent.id} was already paid`);
+    }
+  } catch (error: any) {
+    if (error?.code === 'P2002') {
+      throw new X402IntentError('tx_already_used', 409, `Transaction ${tx.hash} already paid for a request`);
+    }
+    throw error;
+  }
+  return { id: intent.id };
+}
+
+/**
+ * Delete intents that expired unpaid: every 402 challenge issues one. Paid intents are
+ * kept, as their tx hashes are what refuses replays. Returns how many were deleted.
+ */
+export async function pruneExpiredIntents(): Promise<number> {
+  const { count } = await prisma.x402PaymentIntent.deleteMany({
+    where: { status: 'open', expiresAt: { lt: new Date(Date.now() - INTENT_RETENTION_MS) } },
+  });
+  return count;
+}
@@ -0,0 +1,132 @@
+import { ethers } from 'ethers';
+
+/**
+ * x402 Networks - the EVM chains paid endpoints accept USDC on
+ *
+ * Each 402 challenge offers one `exact` requirement per enabled network. A network
+ * carries what a payer needs to sign an EIP-3009 authorization (the USDC contract and
+ * its EIP-712 domain) and what the server needs to settle and refund it (an RPC).
+ *
+ *   X402_NETWORKS          enabled networks, in challenge order (default: avalanche)
+ *   X402_EXTRA_NETWORKS    JSON array of further networks, same shape as X402Network
+ *   X402_RPC_URL_<ID>      RPC override, e.g. X402_RPC_URL_AVALANCHE_FUJI
+ *
+ * Testnets are never enabled by default: testnet USDC would pay for mainnet requests.
+ */
+
+export interface X402Network {
+  id: string; // x402 network name, as sent in `network`
+  chainId: number;
+  rpcUrl: string;
+  usdc: string;
+  usdcName: string; // EIP-712 domain name of the USDC contract
+  usdcVersion: string;
+  nativeSymbol: string;
+  explorerUrl: string;
+  testnet: boolean;
+}
+
+const BUILT_IN_NETWORKS: X402Network[] = [
+  {
+    id: 'avalanche',
+    chainId: 43114,
+    rpcUrl: 'https://api.avax.network/ext/bc/C/rpc',
+    usdc: '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E',
+    usdcName: 'USD Coin',
+    usdcVersion: '2',
+    nativeSymbol: 'AVAX',
+    explorerUrl: 'https://snowtrace.io',
+    testnet: false,
+  },
+  {
+    id: 'avalanche-fuji',
+    chainId: 43113,
+    rpcUrl: 'https://api.avax-test.network/ext/bc/C/rpc',
+    usdc: '0x5425890298aed601595a70AB815c96711a31Bc65',
+    usdcName: 'USD Coin',
+    usdcVersion: '2',
+    nativeSymbol: 'AVAX',
+    explorerUrl: 'https://testnet.snowtrace.io',
+    testnet: true,
+  },
+  {
+    id: 'base',
+    chainId: 8453,
+    rpcUrl: 'https://mainnet.base.org',
+    usdc: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+    usdcName: 'USD Coin',
+    usdcVersion: '2',
+    nativeSymbol: 'ETH',
+    explorerUrl: 'https://basescan.org',
+    testnet: false,
+  },
+  {
+    id: 'base-sepolia',
+    chainId: 84532,
+    rpcUrl: 'https://sepolia.base.org',
+    usdc: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+    usdcName: 'USDC',
+    usdcVersion: '2',
+    nativeSymbol: 'ETH',
+    explorerUrl: 'https://sepolia.basescan.org',
+    testnet: true,
+  },
+];
+
+function parseExtraNetworks(): X402Network[] {
+  if (!process.env.X402_EXTRA_NETWORKS) return [];
+  let entries: any[];
+  try {
+    entries = JSON.parse(process.env.X402_EXTRA_NETWORKS);
+    if (!Array.isArray(entries)) throw new Error('not an array');
+  } catch (error: any) {
+    console.error(`[x402] Ignoring X402_EXTRA_NETWORKS: ${error.message}`);
+    return [];
+  }
+
+  return entries.flatMap((entry) => {
+    const valid = entry && typeof entry.id === 'string' && Number.isInteger(entry.chainId) &&
+      typeof entry.rpcUrl === 'string' && ethers.isAddress(entry.usdc);
+    if (!valid) {
+      console.error(`[x402] Ignoring network ${JSON.stringify(entry)}: id, chainId, rpcUrl and usdc are required`);
+      return [];
+    }
+    return [{
+      usdcName: 'USD Coin',
+      usdcVersion: '2',
+      nativeSymbol: 'ETH',
+      explorerUrl: '',
+      testnet: false,
+      ...entry,
+      usdc: ethers.getAddress(entry.usdc),
+    }];
+  });
+}
+
+function loadNetworks(): X402Network[] {
+  const known = new Map([...BUILT_IN_NETWORKS, ...parseExtraNetworks()].map((n) => [n.id, n]));
+  const enabled = (process.env.X402_NETWORKS || 'avalanche').split(',').map((id) => id.trim()).filter(Boolean);
+
+  return enabled.flatMap((id) => {
+    const network = known.get(id);
+    if (!network) {
+      console.error(`[x402] Unknown network "${id}" in X402_NETWORKS`);
+      return [];
+    }
+    const rpcOverride = process.env[`X402_RPC_URL_${id.toUpperCase().replace(/-/g, '_')}`];
+    return [{ ...network, rpcUrl: rpcOverride || network.rpcUrl }];
+  });
+}
+
+const networks = loadNetworks();
+
+/**
+ * Enabled networks, in the order challenges offer them
+ */
+export function getX402Networks(): X402Network[] {
+  return networks;
+}
+
+export function getX402Network(id: unknown): X402Network | undefined {
+  return networks.find((n) => n.id === id);
+}
@@ -0,0 +1,170 @@
+import crypto from 'crypto';
+import type { Request } from 'express';
+import { ethers } from 'ethers';
+import { prisma } from '../prisma';
+import { canonicalJson } from './challenges';
+
+/**
+ * x402 Quotes - payment challenges priced per request
+ *
+ * A paid agent endpoint can price its 402 challenge from generateQuote instead of a
+ * flat fee. The challenge then carries a quote: an id, the exact USD amount, a hash of
+ * the request terms it was priced for (model, prompt, ...) and an expiry, signed by the
+ * server wallet. The payment names the quote id, and the quote is claimed - once, for
+ * the same endpoint and the same terms - before any funds move.
+ */
+
+export const QUOTE_TTL_MS = 5 * 60 * 1000;
+// Unpaid quotes are kept this long past expiry (for "expired" answers), then deleted
+const QUOTE_RETENTION_MS = 60 * 60 * 1000;
+// Smallest amount a quote asks for, so free models still cover the sponsored gas
+export const MIN_QUOTE_USD = Number(process.env.X402_MIN_PRICE_USD || 0.01);
+
+export interface QuotedPricing<T = any> {
+  // The request fields the price depends on; the paid request must repeat them exactly
+  terms: (req: Request) => T;
+  // USD cost of serving those terms (throw X402QuoteError for requests that cannot be priced)
+  price: (terms: T) => Promise<number>;
+}
+
+export interface X402Quote {
+  id: string;
+  resource: string;
+  amountUSD: string; // 6 decimals, the USDC amount to authorize
+  termsHash: string;
+  expiresAt: string; // ISO timestamp
+  signer: string;
+  signature: string;
+}
+
+export class X402QuoteError extends Error {
+  constructor(public code: string, public status: number, message: string) {
+    super(message);
+    this.name = 'X402QuoteError';
+  }
+}
+
+// USD amounts are 6-decimal strings (whole USDC units); arithmetic on them is done in micros
+export const toMicros = (usd: string) => BigInt(Math.round(parseFloat(usd) * 1_000_000));
+export const fromMicros = (micros: bigint) => (Number(micros) / 1_000_000).toFixed(6);
+
+let quoteSigner: ethers.Wallet | ethers.HDNodeWallet | null = null;
+
+// The server wallet; without one, a per-process key still makes quotes tamper-evident
+function getSigner() {
+  if (!quoteSigner) {
+    quoteSigner = process.env.PRIVATE_KEY ? new ethers.Wallet(process.env.PRIVATE_KEY) : ethers.Wallet.createRandom();
+  }
+  return quoteSigner;
+}
+
+export function quoteTermsHash(terms: unknown): string {
+  return '0x' + crypto.createHash('sha256').update(canonicalJson(terms)).digest('hex');
+}
+
+/**
+ * The text the server signs (EIP-191 personal_sign) for a quote
+ */
+export function quoteMessage(quote: Pick<X402Quote, 'id' | 'resource' | 'amountUSD' | 'termsHash' | 'expiresAt'>): string {
+  return [
+    'ZeroPrompt x402 quote',
+    `Id: ${quote.id}`,
+    `Resource: ${quote.resource}`,
+    `Amount USD: ${quote.amountUSD}`,
+    `Terms: ${quote.termsHash}`,
+    `Expires At: ${quote.expiresAt}`,
+  ].join('\n');
+}
+
+/**
+ * Price a request and record the quote its 402 challenge hands out
+ */
+export async function issueQuote(resource: string, pricing: QuotedPricing, req: Request): Promise<X402Quote> {
+  const terms = pricing.terms(req);
+
+  let costUSD: number;
+  try {
+    costUSD = await pricing.price(terms);
+  } catch (error: any) {
+    if (error instanceof X402QuoteError) throw error;
+    throw new X402QuoteError('quote_failed', 400, error.message || 'Could not price this request');
+  }
+  if (!Number.isFinite(costUSD) || costUSD < 0) {
+    throw new X402QuoteError('quote_failed', 400, 'Could not price this request');
+  }
+
+  // Round up to whole USDC units
+  const amountUSD = fromMicros(BigInt(Math.ceil(Math.max(costUSD, MIN_QUOTE_USD) * 1_000_000)));
+  const expiresAt = new Date(Date.now() + QUOTE_TTL_MS);
+  const unsigned = {
+    id: crypto.randomUUID(),
+    resource,
+    amountUSD,
+    termsHash: quoteTermsHash(terms),
+    expiresAt: expiresAt.toISOString(),
+  };
+  const signer = getSigner();
+  const quote: X402Quote = { ...unsigned, signer: signer.address, signature: await signer.signMessage(quoteMessage(unsigned)) };
+
+  await prisma.x402Quote.create({
+    data: {
+      id: quote.id,
+      resource,
+      amountUSD,
+      termsHash: quote.termsHash,
+      signer: quote.signer,
+      signature: quote.signature,
+      expiresAt,
+    },
+  });
+  return quote;
+}
+
+/**
+ * Reserve a quote for a payment of this request. Throws unless the quote is open,
+ * unexpired, for this endpoint and for exactly these terms. Returns the quoted amount.
+ */
+export async function claimQuote(quoteId: unknown, resource: string, pricing: QuotedPricing, req: Request): Promise<{ id: string; amountUSD: string }> {
+  if (typeof quoteId !== 'string' || !quoteId) {
+    throw new X402QuoteError('quote_required', 402, 'This endpoint is priced per request: pay the quote from the 402 challenge and send its id as quoteId');
+  }
+
+  const quote = await prisma.x402Quote.findUnique({ where: { id: quoteId } });
+  if (!quote || quote.resource !== resource) {
+    throw new X402QuoteError('quote_not_found', 404, `No quote ${quoteId} for ${resource}`);
+  }
+  if (quote.termsHash !== quoteTermsHash(pricing.terms(req))) {
+    throw new X402QuoteError('quote_mismatch', 409, 'The request differs from what was quoted (model, prompt or options); request a new quote');
+  }
+  if (quote.expiresAt.getTime() < Date.now()) {
+    throw new X402QuoteError('quote_expired', 402, 'The quote expired; request a new one');
+  }
+
+  const { count } = await prisma.x402Quote.updateMany({ where: { id: quoteId, status: 'open' }, data: { status: 'claimed' } });
+  if (count === 0) {
+    throw new X402QuoteError('quote_used', 409, 'This quote was already paid');
+  }
+  return { id: quote.id, amountUSD: quote.amountUSD };
+}
+
+/**
+ * Give a claimed quote back after its payment failed, so it can be paid again
+ */
+export async function releaseQuote(quoteId: string): Promise<void> {
+  await prisma.x402Quote.updateMany({ where: { id: quoteId, status: 'claimed' }, data: { status: 'open' } });
+}
+
+export async function completeQuote(quoteId: string, txHash: string | null): Promise<void> {
+  await prisma.x402Quote.update({ where: { id: quoteId }, data: { status: 'paid', txHash, paidAt: new Date() } });
+}
+
+/**
+ * Delete quotes that expired unpaid: every 402 challenge records one, so they pile up.
+ * Claimed and paid quotes are kept. Returns how many were deleted.
+ */
+export async function pruneExpiredQuotes(): Promise<number> {
+  const { count } = await prisma.x402Quote.deleteMany({
+    where: { status: 'open', expiresAt: { lt: new Date(Date.now() - QUOTE_RETENTION_MS) } },
+  });
+  return count;
+}
@@ -0,0 +1,191 @@
+import crypto from 'crypto';
+import type { Request } from 'express';
+import { ethers } from 'ethers';
+import { prisma } from '../prisma';
+import { fromMicros, QuotedPricing, toMicros, X402QuoteError } from './x402Quotes';
+
+/**
+ * x402 Sessions - a prepaid balance instead of one on-chain payment per call
+ *
+ * An agent pays for POST /agent/x402-session once (any x402 scheme) and gets a bearer
+ * token for a session holding what it paid. Paid endpoints then accept
+ * { scheme: 'x402-session', payload: { token } } and debit the session off-chain, with
+ * no transaction to wait for. The token is shown once and only its hash is stored.
+ * Closing the session - or letting it expire - hands the unused balance to
+ * x402Settlement, which refunds it against the funding payment.
+ */
+
+export const SESSION_TTL_MS = Number(process.env.X402_SESSION_TTL_HOURS || 24) * 60 * 60 * 1000;
+export const MIN_SESSION_DEPOSIT_USD = 0.1;
+export const MAX_SESSION_DEPOSIT_USD = Number(process.env.X402_SESSION_MAX_DEPOSIT_USD || 50);
+// Concurrent debits of one session retry the conditional update this many times
+const DEBIT_ATTEMPTS = 5;
+
+export class X402SessionError extends Error {
+  constructor(public code: string, public status: number, message: string) {
+    super(message);
+    this.name = 'X402SessionError';
+  }
+}
+
+export interface X402SessionSummary {
+  id: string;
+  ownerAddress: string;
+  depositUSD: string;
+  balanceUSD: string;
+  requests: number;
+  status: string;
+  expiresAt: Date;
+}
+
+// The session is funded like any paid request: its price is the deposit
+export const sessionPricing: QuotedPricing<{ depositUSD: number }> = {
+  terms: (req) => ({ depositUSD: Number(req.body?.depositUSD) }),
+  price: async ({ depositUSD }) => {
+    if (!Number.isFinite(depositUSD) || depositUSD < MIN_SESSION_DEPOSIT_USD || depositUSD > MAX_SESSION_DEPOSIT_USD) {
+      throw new X402QuoteError(
+        'invalid_deposit',
+        400,
+        `depositUSD must be between ${MIN_SESSION_DEPOSIT_USD} and ${MAX_SESSION_DEPOSIT_USD}`
+      );
+    }
+    return depositUSD;
+  },
+};
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+function summary(session: any): X402SessionSummary {
+  return {
+    id: session.id,
+    ownerAddress: session.ownerAddress,
+    depositUSD: session.depositUSD,
+    balanceUSD: session.balanceUSD,
+    requests: session.requests,
+    status: session.status,
+    expiresAt: session.expiresAt,
+  };
+}
+
+/**
+ * Open a session funded by the payment x402Middleware just settled for this request
+ */
+export async function openSession(req: Request): Promise<X402SessionSummary & { token: string }> {
+  const payment = (req as any).x402;
+  if (!payment?.settled || !payment.paymentId) {
+    throw new X402SessionError('payment_not_recorded', 500, 'The funding payment was not recorded');
+  }
+  if (payment.currency === 'SESSION') {
+    throw new X402SessionError('invalid_funding', 400, 'A session cannot be funded from another session');
+  }
+
+  const token = `x402s_${crypto.randomBytes(32).toString('hex')}`;
+  const session = await prisma.x402Session.create({
+    data: {
+      tokenHash: hashToken(token),
+      ownerAddress: ethers.getAddress(payment.payer),
+      paymentId: payment.paymentId,
+      currency: payment.currency,
+      network: payment.network ?? null,
+      depositAmount: payment.amount,
+      depositUSD: fromMicros(toMicros(payment.amountUSD)),
+      balanceUSD: fromMicros(toMicros(payment.amountUSD)),
+      refundTo: payment.refundTo ?? null,
+      expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+    },
+  });
+  console.log(`[x402] Session ${session.id} opened for ${session.ownerAddress} with $${session.balanceUSD}`);
+  return { ...summary(session), token };
+}
+
+async function findSession(token: unknown) {
+  if (typeof token !== 'string' || !token) {
+    throw new X402SessionError('session_required', 401, 'Send the session token');
+  }
+  const session = await prisma.x402Session.findUnique({ where: { tokenHash: hashToken(token) } });
+  if (!session) {
+    throw new X402SessionError('session_not_found', 404, 'Unknown session token');
+  }
+  return session;
+}
+
+export async function getSession(token: unknown): Promise<X402SessionSummary> {
+  return summary(await findSession(token));
+}
+
+/**
+ * Take `amountUSD` from a session's balance. The update is conditional on the balance
+ * read, so concurrent calls cannot spend the same funds.
+ */
+export async function debitSession(token: unknown, amountUSD: string): Promise<X402SessionSummary> {
+  const price = toMicros(amountUSD);
+
+  for (let attempt = 0; attempt < DEBIT_ATTEMPTS; attempt++) {
+    const session = await findSession(token);
+    if (session.status !== 'open') {
+      throw new X402SessionError('session_closed', 402, 'The session is closed; open a new one');
+    }
+    if (session.expiresAt.getTime() < Date.now()) {
+      throw new X402SessionError('session_expired', 402, 'The session expired; open a new one');
+    }
+    const balance = toMicros(session.balanceUSD);
+    if (balance < price) {
+      throw new X402SessionError(
+        'insufficient_session_balance',
+        402,
+        `Session balance $${session.balanceUSD} does not cover $${amountUSD}`
+      );
+    }
+
+    const balanceUSD = fromMicros(balance - price);
+    const { count } = await prisma.x402Session.updateMany({
+      where: { id: session.id, status: 'open', balanceUSD: session.balanceUSD },
+      data: { balanceUSD, requests: { increment: 1 } },
+    });
+    if (count === 1) return summary({ ...session, balanceUSD, requests: session.requests + 1 });
+  }
+  throw new X402SessionError('session_busy', 409, 'Too many concurrent requests on this session; try again');
+}
+
+/**
+ * Put a refunded amount back into an open session. Returns false once the session
+ * is closed, so the caller refunds another way.
+ */
+export async function creditSession(sessionId: string, micros: bigint): Promise<boolean> {
+  for (let attempt = 0; attempt < DEBIT_ATTEMPTS; attempt++) {
+    const session = await prisma.x402Session.findUnique({ where: { id: sessionId } });
+    if (!session || session.status !== 'open') return false;
+
+    const { count } = await prisma.x402Session.updateMany({
+      where: { id: sessionId, status: 'open', balanceUSD: session.balanceUSD },
+      data: { balanceUSD: fromMicros(toMicros(session.balanceUSD) + micros) },
+    });
+    if (count === 1) return true;
+  }
+  return false;
+}
+
+/**
+ * Stop a session from being spent; x402Settlement.settleSessions refunds what is left
+ */
+export async function closeSession(token: unknown): Promise<X402SessionSummary> {
+  const session = await findSession(token);
+  if (session.status === 'open') {
+    await prisma.x402Session.updateMany({
+      where: { id: session.id, status: 'open' },
+      data: { status: 'closed', closedAt: new Date() },
+    });
+  }
+  return summary(await prisma.x402Session.findUnique({ where: { id: session.id } }));
+}
+
+/**
+ * Close every open session past its expiry. Returns how many were closed.
+ */
+export async function closeExpiredSessions(): Promise<number> {
+  const { count } = await prisma.x402Session.updateMany({
+    where: { status: 'open', expiresAt: { lt: new Date() } },
+    data: { status: 'closed', closedAt: new Date() },
+  });
+  return count;
+}
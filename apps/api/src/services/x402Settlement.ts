@@ -0,0 +1,487 @@
+import type { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { ethers } from 'ethers';
+import { prisma } from '../prisma';
+import { fromMicros, toMicros } from './x402Quotes';
+import { closeExpiredSessions, creditSession } from './x402Sessions';
+import { getX402Network } from './x402Networks';
+
+/**
+ * x402 Settlement - what a paid request delivered, and refunds for what it did not
+ *
+ * x402Middleware settles the payment before the handler runs, so a provider outage
+ * would otherwise leave the caller charged for nothing. Handlers report how many of
+ * the units they were paid for (models, images) answered; anything that ends in an
+ * error response without reporting counts as failed. The unserved share of the
+ * payment goes back to the payer:
+ *   - into the x402 session that paid, while it is open
+ *   - on-chain, from the server wallet in the currency paid, when it is worth the gas
+ *     and the request did not fail on the caller's side (4xx)
+ *   - otherwise as a credit note, spent on a later request with the x402-credit scheme
+ * An on-chain refund records its tx hash as soon as it is broadcast; it only turns into
+ * a credit note once the transfer is known not to have landed (reverted, or its nonce
+ * spent by another transaction), so a slow confirmation never pays the refund twice.
+ * A credit note is bound to the payer's address and only a signature from it spends it,
+ * once per nonce.
+ * Closed and expired sessions are settled the same way: their unused balance is
+ * refunded against the payment that funded them.
+ */
+
+const SERVER_PRIVATE_KEY = process.env.PRIVATE_KEY;
+const USDC_ABI = ['function transfer(address to, uint256 value) returns (bool)'];
+
+// Smaller refunds become credit notes: the transfer gas would eat them
+export const ONCHAIN_REFUND_MIN_USD = Number(process.env.X402_ONCHAIN_REFUND_MIN_USD || 0.1);
+// How long a credit note redemption signature is accepted
+export const CREDIT_SIGNATURE_TTL_MS = 5 * 60 * 1000;
+
+export type FulfillmentState = 'fulfilled' | 'partial' | 'failed';
+
+export interface FulfillmentOutcome {
+  fulfilled: number; // units that were served
+  total: number; // units paid for
+  reason?: string;
+  creditNoteOnly?: boolean; // refund off-chain whatever the amount (e.g. the request was invalid)
+}
+
+export interface RefundSummary {
+  id: string;
+  kind: 'onchain' | 'credit_note' | 'session';
+  amountUSD: string;
+  currency: string;
+  amount: string;
+  status: string;
+  reason: string;
+}
+
+export class X402CreditError extends Error {
+  constructor(public code: string, message: string) {
+    super(message);
+    this.name = 'X402CreditError';
+  }
+}
+
+// The payment x402Middleware attaches as req.x402
+interface SettledPayment {
+  settled: boolean;
+  paymentId?: number; // X402Payment row, missing if it could not be logged
+  payer: string;
+  refundTo?: string; // where on-chain refunds go when it is not the payer field
+  amount: string;
+  amountUSD: string;
+  currency: 'USDC' | 'AVAX' | 'CREDIT' | 'SESSION';
+  network?: string;
+  sessionId?: string;
+  fulfillment?: { state: FulfillmentState; refund: RefundSummary | null };
+}
+
+function summary(row: any): RefundSummary {
+  return {
+    id: row.id,
+    kind: row.kind,
+    amountUSD: row.amountUSD,
+    currency: row.currency,
+    amount: row.amount,
+    status: row.status,
+    reason: row.reason,
+  };
+}
+
+/**
+ * Record what a paid request delivered and refund the rest. Only the first report
+ * per request counts. Never throws: settlement problems are logged, the response
+ * still goes out. Returns the refund issued, if any.
+ */
+export async function recordFulfillment(req: Request, outcome: FulfillmentOutcome): Promise<RefundSummary | null> {
+  const payment: SettledPayment | undefined = (req as any).x402;
+  if (!payment?.settled) return null;
+  if (payment.fulfillment) return payment.fulfillment.refund;
+
+  const total = Math.max(1, Math.floor(outcome.total));
+  const fulfilled = Math.min(total, Math.max(0, Math.floor(outcome.fulfilled)));
+  const state: FulfillmentState = fulfilled === total ? 'fulfilled' : fulfilled === 0 ? 'failed' : 'partial';
+  payment.fulfillment = { state, refund: null };
+
+  if (!payment.paymentId) {
+    console.warn(`[x402] Request ${state} but its payment was never logged; nothing to refund against`);
+    return null;
+  }
+
+  try {
+    await prisma.x402Payment.update({
+      where: { id: payment.paymentId },
+      data: { fulfillment: state, fulfilledUnits: fulfilled, totalUnits: total },
+    });
+    if (state === 'fulfilled') return null;
+
+    const refundMicros = (toMicros(payment.amountUSD) * BigInt(total - fulfilled)) / BigInt(total);
+    if (refundMicros === 0n) return null;
+
+    const reason = (outcome.reason || `${total - fulfilled} of ${total} not served`).slice(0, 255);
+    const refund = await issueRefund(payment, refundMicros, reason, outcome.creditNoteOnly);
+    payment.fulfillment.refund = refund;
+    console.log(`[x402] Payment ${payment.paymentId} ${state}: ${refund.kind} refund of $${refund.amountUSD}`);
+    return refund;
+  } catch (error: any) {
+    console.error(`[x402] Settlement of payment ${payment.paymentId} failed:`, error.message);
+    return null;
+  }
+}
+
+/**
+ * Settle requests whose handler never reported: an error status means nothing was
+ * delivered, anything else counts as fulfilled. Requests refused as invalid (4xx) are
+ * refunded as credit notes only, so bad input cannot make the server send transfers.
+ */
+export function watchFulfillment(req: Request, res: Response): void {
+  res.on('finish', () => {
+    const payment: SettledPayment | undefined = (req as any).x402;
+    if (!payment?.settled || payment.fulfillment) return;
+    const failed = res.statusCode >= 400;
+    void recordFulfillment(req, {
+      fulfilled: failed ? 0 : 1,
+      total: 1,
+      reason: failed ? `Request failed with status ${res.statusCode}` : undefined,
+      creditNoteOnly: res.statusCode < 500,
+    });
+  });
+}
+
+async function issueRefund(
+  payment: SettledPayment,
+  refundMicros: bigint,
+  reason: string,
+  creditNoteOnly = false
+): Promise<RefundSummary> {
+  const amountUSD = fromMicros(refundMicros);
+
+  if (payment.currency === 'SESSION') {
+    if (await creditSession(payment.sessionId!, refundMicros)) {
+      return summary(await prisma.x402Refund.create({
+        data: {
+          paymentId: payment.paymentId!,
+          kind: 'session',
+          toAddress: ethers.getAddress(payment.payer),
+          amountUSD,
+          currency: 'USD',
+          amount: amountUSD,
+          status: 'credited',
+          reason,
+        },
+      }));
+    }
+    // Closed meanwhile: the session's own settlement is already done or under way
+    return summary(await createCreditNote(payment.paymentId!, payment.payer, amountUSD, reason));
+  }
+
+  const onchain = !creditNoteOnly && payment.currency !== 'CREDIT' && !!SERVER_PRIVATE_KEY && parseFloat(amountUSD) >= ONCHAIN_REFUND_MIN_USD;
+  if (!onchain) {
+    return summary(await createCreditNote(payment.paymentId!, payment.payer, amountUSD, reason));
+  }
+
+  // The same share of what was actually sent
+  const amount = payment.currency === 'AVAX'
+    ? ethers.formatEther((ethers.parseEther(payment.amount) * refundMicros) / toMicros(payment.amountUSD))
+    : amountUSD;
+  const refund = await prisma.x402Refund.create({
+    data: {
+      paymentId: payment.paymentId!,
+      kind: 'onchain',
+      toAddress: ethers.getAddress(payment.refundTo ?? payment.payer),
+      amountUSD,
+      currency: payment.currency,
+      network: payment.network ?? 'avalanche',
+      amount,
+      status: 'pending',
+      reason,
+    },
+  });
+  // Confirmation takes seconds; the response does not wait for it
+  void sendOnchainRefund(refund);
+  return summary(refund);
+}
+
+function createCreditNote(paymentId: number, toAddress: string, amountUSD: string, reason: string) {
+  return prisma.x402Refund.create({
+    data: {
+      paymentId,
+      kind: 'credit_note',
+      toAddress: ethers.getAddress(toAddress),
+      amountUSD,
+      currency: 'USD',
+      amount: amountUSD,
+      balanceUSD: amountUSD,
+      status: 'open',
+      reason,
+    },
+  });
+}
+
+async function sendOnchainRefund(refund: any): Promise<void> {
+  let tx: ethers.TransactionResponse;
+  try {
+    const network = getX402Network(refund.network);
+    if (!network) throw new Error(`Network ${refund.network} is no longer enabled`);
+
+    const provider = new ethers.JsonRpcProvider(network.rpcUrl);
+    const wallet = new ethers.Wallet(SERVER_PRIVATE_KEY!, provider);
+    tx = refund.currency === 'AVAX'
+      ? await wallet.sendTransaction({ to: refund.toAddress, value: ethers.parseEther(refund.amount) })
+      : await new ethers.Contract(network.usdc, USDC_ABI, wallet).transfer(refund.toAddress, ethers.parseUnits(refund.amount, 6));
+  } catch (error: any) {
+    // Nothing was broadcast: the payer is still owed, as a credit note
+    console.error(`[x402] On-chain refund ${refund.id} failed:`, error.message);
+    await failOnchainRefund(refund, error.message);
+    return;
+  }
+
+  try {
+    // Recorded before waiting: from here on the transfer may land whatever happens to this process
+    await prisma.x402Refund.update({ where: { id: refund.id }, data: { status: 'submitted', txHash: tx.hash, txNonce: tx.nonce } });
+    await finishOnchainRefund(refund, tx.hash, await tx.wait(1));
+  } catch (error: any) {
+    console.error(`[x402] On-chain refund ${refund.id} not confirmed yet (${tx.hash}), left for reconciliation:`, error.message);
+  }
+}
+
+async function finishOnchainRefund(refund: any, txHash: string, receipt: ethers.TransactionReceipt | null): Promise<void> {
+  if (receipt?.status === 1) {
+    await prisma.x402Refund.update({ where: { id: refund.id }, data: { status: 'sent', txHash } });
+    console.log(`[x402] Refunded ${refund.amount} ${refund.currency} to ${refund.toAddress}: ${txHash}`);
+  } else {
+    await failOnchainRefund(refund, `Refund transaction ${txHash} reverted`);
+  }
+}
+
+/**
+ * The transfer did not and cannot happen: mark it failed and owe the amount as a credit
+ * note. Conditional on the status, so a refund is only ever replaced once.
+ */
+async function failOnchainRefund(refund: any, errorMessage: string): Promise<void> {
+  try {
+    const { count } = await prisma.x402Refund.updateMany({
+      where: { id: refund.id, status: { in: ['pending', 'submitted'] } },
+      data: { status: 'failed', errorMessage },
+    });
+    if (count === 0) return;
+    await createCreditNote(refund.paymentId, refund.toAddress, refund.amountUSD, `${refund.reason} (on-chain refund failed)`.slice(0, 255));
+  } catch (dbError: any) {
+    console.error(`[x402] Could not record the failed refund ${refund.id}:`, dbError.message);
+  }
+}
+
+/**
+ * Resolve on-chain refunds broadcast but not confirmed when they were sent: confirmed
+ * ones are marked sent; reverted ones, and ones whose nonce the server wallet has since
+ * spent on another transaction, become credit notes. Returns the number resolved.
+ */
+export async function reconcileOnchainRefunds(): Promise<number> {
+  const submitted = await prisma.x402Refund.findMany({ where: { kind: 'onchain', status: 'submitted' } });
+
+  let resolved = 0;
+  for (const refund of submitted) {
+    try {
+      const network = getX402Network(refund.network);
+      if (!network || !refund.txHash) continue;
+      const provider = new ethers.JsonRpcProvider(network.rpcUrl);
+
+      let receipt = await provider.getTransactionReceipt(refund.txHash);
+      if (!receipt) {
+        const spent = await provider.getTransactionCount(new ethers.Wallet(SERVER_PRIVATE_KEY!).address, 'latest');
+        if (refund.txNonce === null || spent <= refund.txNonce) continue; // Still pending
+        // Mined in between?
+        receipt = await provider.getTransactionReceipt(refund.txHash);
+      }
+      await finishOnchainRefund(refund, refund.txHash, receipt);
+      resolved++;
+    } catch (error: any) {
+      console.error(`[x402] Reconciling refund ${refund.id} failed:`, error.message);
+    }
+  }
+  return resolved;
+}
+
+// What a session can be funded with (SESSION only ever pays for calls)
+function isFundingCurrency(currency: string): currency is 'USDC' | 'AVAX' | 'CREDIT' {
+  return currency === 'USDC' || currency === 'AVAX' || currency === 'CREDIT';
+}
+
+/**
+ * Refund the unused balance of a closed session against the payment that funded it.
+ * Claims the session first, so concurrent settlement runs cannot refund it twice.
+ */
+export async function settleSession(sessionId: string): Promise<RefundSummary | null> {
+  const { count } = await prisma.x402Session.updateMany({
+    where: { id: sessionId, status: 'closed' },
+    data: { status: 'settling' },
+  });
+  if (count === 0) return null;
+
+  const session = await prisma.x402Session.findUnique({ where: { id: sessionId } });
+  if (!session) throw new Error(`Session ${sessionId} disappeared while settling`);
+  try {
+    const { currency } = session;
+    if (!isFundingCurrency(currency)) {
+      throw new Error(`Session ${sessionId} was funded in an unknown currency: ${currency}`);
+    }
+    const unused = toMicros(session.balanceUSD);
+    const refund = unused > 0n
+      ? await issueRefund(
+          {
+            settled: true,
+            paymentId: session.paymentId,
+            payer: session.ownerAddress,
+            refundTo: session.refundTo ?? undefined,
+            amount: session.depositAmount,
+            amountUSD: session.depositUSD,
+            currency,
+            network: session.network ?? undefined,
+          },
+          unused,
+          `Unused balance of x402 session ${session.id}`
+        )
+      : null;
+
+    await prisma.x402Session.update({
+      where: { id: sessionId },
+      data: { status: 'settled', settledAt: new Date(), refundId: refund?.id ?? null },
+    });
+    console.log(`[x402] Session ${sessionId} settled${refund ? `: $${refund.amountUSD} back as ${refund.kind}` : ''}`);
+    return refund;
+  } catch (error) {
+    // Picked up again by the next run
+    await prisma.x402Session.update({ where: { id: sessionId }, data: { status: 'closed' } });
+    throw error;
+  }
+}
+
+/**
+ * Periodic settlement: close expired sessions and refund every closed one.
+ * Returns the number of sessions settled.
+ */
+export async function settleSessions(): Promise<number> {
+  await closeExpiredSessions();
+  const closed = await prisma.x402Session.findMany({ where: { status: 'closed' }, select: { id: true } });
+
+  let settled = 0;
+  for (const { id } of closed) {
+    try {
+      await settleSession(id);
+      settled++;
+    } catch (error: any) {
+      console.error(`[x402] Settlement of session ${id} failed:`, error.message);
+    }
+  }
+  return settled;
+}
+
+/**
+ * The text the payer signs (EIP-191 personal_sign) to spend a credit note on one request
+ */
+export function creditRedemptionMessage(redemption: {
+  creditNoteId: string;
+  resource: string;
+  amountUSD: string;
+  quoteId?: string | null;
+  nonce: string;
+  issuedAt: string;
+}): string {
+  return [
+    'ZeroPrompt x402 credit note',
+    `Credit Note: ${redemption.creditNoteId}`,
+    `Resource: ${redemption.resource}`,
+    `Amount USD: ${redemption.amountUSD}`,
+    `Quote: ${redemption.quoteId || 'none'}`,
+    `Nonce: ${redemption.nonce}`,
+    `Issued At: ${redemption.issuedAt}`,
+  ].join('\n');
+}
+
+/**
+ * Spend `amountUSD` of a credit note on a request to `resource`. Throws X402CreditError
+ * unless the signature is fresh, from the note's owner, not used before (its nonce is
+ * recorded with the debit) and the balance covers the price.
+ */
+export async function redeemCreditNote(
+  payload: any,
+  resource: string,
+  amountUSD: string,
+  quoteId?: string
+): Promise<{ id: string; owner: string; balanceUSD: string }> {
+  const { creditNoteId, nonce, issuedAt, signature } = payload ?? {};
+  if (
+    typeof creditNoteId !== 'string' ||
+    typeof nonce !== 'string' || nonce.length < 8 || nonce.length > 64 ||
+    typeof issuedAt !== 'string' ||
+    typeof signature !== 'string'
+  ) {
+    throw new X402CreditError('invalid_credit_payment', 'creditNoteId, nonce (8-64 chars), issuedAt and signature are required');
+  }
+  const age = Date.now() - Date.parse(issuedAt);
+  if (!(age > -60_000 && age <= CREDIT_SIGNATURE_TTL_MS)) {
+    throw new X402CreditError('credit_signature_expired', 'The redemption signature expired; sign it again');
+  }
+
+  const note = await prisma.x402Refund.findUnique({ where: { id: creditNoteId } });
+  if (!note || note.kind !== 'credit_note') {
+    throw new X402CreditError('credit_note_not_found', `No credit note ${creditNoteId}`);
+  }
+
+  let signer: string;
+  try {
+    signer = ethers.verifyMessage(creditRedemptionMessage({ creditNoteId, resource, amountUSD, quoteId, nonce, issuedAt }), signature);
+  } catch {
+    throw new X402CreditError('invalid_credit_signature', 'Malformed redemption signature');
+  }
+  if (signer.toLowerCase() !== note.toAddress.toLowerCase()) {
+    throw new X402CreditError('invalid_credit_signature', 'The credit note belongs to another address');
+  }
+
+  const balance = note.status === 'open' ? toMicros(note.balanceUSD ?? '0') : 0n;
+  const price = toMicros(amountUSD);
+  if (balance < price) {
+    throw new X402CreditError('insufficient_credit', `Credit note balance $${fromMicros(balance)} does not cover $${amountUSD}`);
+  }
+
+  const remaining = balance - price;
+  try {
+    await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      // Unique (creditNoteId, nonce): this signature was already spent
+      await tx.x402CreditRedemption.create({
+        data: { creditNoteId, nonce, resource, amountUSD, signature, issuedAt: new Date(issuedAt) },
+      });
+      // Conditional on the balance read above, so concurrent redemptions cannot overspend
+      const { count } = await tx.x402Refund.updateMany({
+        where: { id: creditNoteId, status: 'open', balanceUSD: note.balanceUSD },
+        data: { balanceUSD: fromMicros(remaining), status: remaining === 0n ? 'redeemed' : 'open' },
+      });
+      if (count === 0) {
+        throw new X402CreditError('credit_note_busy', 'The credit note was spent concurrently; try again');
+      }
+    });
+  } catch (error: any) {
+    if (error?.code === 'P2002') {
+      throw new X402CreditError('credit_nonce_reused', 'This redemption was already used; sign a new one');
+    }
+    throw error;
+  }
+  return { id: creditNoteId, owner: note.toAddress, balanceUSD: fromMicros(remaining) };
+}
+
+/**
+ * Open credit notes an address can spend, newest first
+ */
+export async function listCreditNotes(address: string) {
+  const notes = await prisma.x402Refund.findMany({
+    where: { toAddress: ethers.getAddress(address), kind: 'credit_note', status: 'open' },
+    orderBy: { createdAt: 'desc' },
+  });
+  return notes.map((note: any) => ({
+    id: note.id,
+    amountUSD: note.amountUSD,
+    balanceUSD: note.balanceUSD,
+    reason: note.reason,
+    paymentId: note.paymentId,
+    createdAt: note.createdAt,
+  }));
+}
@@ -0,0 +1,159 @@
+import crypto from "crypto";
+import request from "supertest";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const prismaMock = vi.hoisted(() => {
+  const walletUser = { id: 7, walletAddress: "0xabc", isGuest: false, messageCount: 0 };
+  const state = { keys: [] as any[], spentToday: 0, heldUSD: 0 };
+  return {
+    state,
+    walletUser,
+    user: {
+      findFirst: async ({ where }: any) => (where.sessionToken === "wallet-session" ? walletUser : null),
+      upsert: async () => null
+    },
+    apiKey: {
+      count: async () => state.keys.filter((k) => !k.revokedAt).length,
+      create: async ({ data }: any) => {
+        const row = { id: state.keys.length + 1, lastUsedAt: null, revokedAt: null, createdAt: new Date(), ...data };
+        state.keys.push(row);
+        return row;
+      },
+      findMany: async () => state.keys,
+      findFirst: async ({ where }: any) => state.keys.find((k) => k.id === where.id && k.userId === where.userId) || null,
+      findUnique: async ({ where }: any) => {
+        const row = state.keys.find((k) => k.keyHash === where.keyHash);
+        return row ? { ...row, user: walletUser } : null;
+      },
+      update: async () => ({}),
+      updateMany: async ({ where, data }: any) => {
+        const rows = state.keys.filter((k) => k.id === where.id && k.userId === where.userId && !k.revokedAt);
+        rows.forEach((k) => Object.assign(k, data));
+        return { count: rows.length };
+      }
+    },
+    usage: {
+      aggregate: async () => ({ _sum: { costUSD: state.spentToday } })
+    },
+    creditHold: {
+      aggregate: async () => ({ _sum: { amountUSD: state.heldUSD } })
+    },
+    model: {
+      findFirst: async ({ where }: any) =>
+        where.OR?.some((c: any) => c.openrouterId) ? { openrouterId: where.OR[0].openrouterId, name: "Test" } : null,
+      findUnique: async () => ({ publicPricingPrompt: 1, publicPricingCompletion: 1 })
+    }
+  };
+});
+
+vi.mock("../src/prisma", () => ({ prisma: prismaMock }));
+import { createApp } from "../src/app";
+const app = createApp();
+
+async function createKey(body: Record<string, unknown>) {
+  const res = await request(app).post("/api-keys").set("x-session-token", "wallet-session").send(body);
+  expect(res.status).toBe(201);
+  return res.body.key as string;
+}
+
+describe("API keys", () => {
+  beforeEach(() => {
+    prismaMock.state.keys.length = 0;
+    prismaMock.state.spentToday = 0;
+    prismaMock.state.heldUSD = 0;
+  });
+
+  it("creates a key and only stores its hash", async () => {
+    const key = await createKey({ name: "ci", scopes: ["chat"] });
+    expect(key.startsWith("zp_")).toBe(true);
+
+    const stored = prismaMock.state.keys[0];
+    expect(stored.keyHash).toBe(crypto.createHash("sha256").update(key).digest("hex"));
+    expect(JSON.stringify(stored)).not.toContain(key);
+  });
+
+  it("rejects unknown scopes", async () => {
+    const res = await request(app)
+      .post("/api-keys")
+      .set("x-session-token", "wallet-session")
+      .send({ name: "bad", scopes: ["admin"] });
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe("invalid_scope");
+  });
+
+  it("does not let an API key manage keys", async () => {
+    const key = await createKey({ name: "ci" });
+    const res = await request(app).get("/api-keys").set("x-api-key", key);
+    expect(res.status).toBe(403);
+  });
+
+  it("enforces scopes on the gateway", async () => {
+    const key = await createKey({ name: "agent-only", scopes: ["agent"] });
+    const res = await request(app)
+      .post("/v1/chat/completions")
+      .set("Authorization", `Bearer ${key}`)
+      .send({ model: "openai/gpt-4o", messages: [{ role: "user", content: "hi" }] });
+    expect(res.status).toBe(403);
+    expect(res.body.error).toBe("insufficient_scope");
+  });
+
+  it("keeps keys to their scopes outside the gateway and off billing and operator routes", async () => {
+    const key = await createKey({ name: "images-only", scopes: ["images"] });
+    for (const [method, path] of [
+      ["get", "/llm/history"],
+      ["post", "/llm/history/1/fork"],
+      ["get", "/llm/search"],
+      ["post", "/reputation/rate"],
+    ] as const) {
+      const res = await request(app)[method](path).set("x-api-key", key);
+      expect(res.status).toBe(403);
+      expect(res.body.error).toBe("insufficient_scope");
+    }
+    for (const [method, path] of [
+      ["post", "/billing/withdraw/request"],
+      ["post", "/billing/withdraw/confirm"],
+      ["put", "/operators/pricing"],
+    ] as const) {
+      const res = await request(app)[method](path).set("x-api-key", key);
+      expect(res.status).toBe(403);
+      expect(res.body.error).toBe("session_required");
+    }
+  });
+
+  it("enforces the model allow-list", async () => {
+    const key = await createKey({ name: "mini", scopes: ["chat"], allowedModels: ["openai/gpt-4o-mini"] });
+    const res = await request(app)
+      .post("/v1/chat/completions")
+      .set("Authorization", `Bearer ${key}`)
+      .send({ model: "openai/gpt-4o", messages: [{ role: "user", content: "hi" }] });
+    expect(res.status).toBe(403);
+    expect(res.body.error.code).toBe("model_not_allowed");
+  });
+
+  it("blocks keys over their daily cap", async () => {
+    const key = await createKey({ name: "capped", scopes: ["chat"], dailySpendCapUSD: 1 });
+    prismaMock.state.spentToday = 1;
+    const res = await request(app).get("/v1/models").set("Authorization", `Bearer ${key}`);
+    expect(res.status).toBe(402);
+    expect(res.body.error).toBe("api_key_spend_cap_reached");
+  });
+
+  it("counts open holds against the cap", async () => {
+    const key = await createKey({ name: "capped", scopes: ["chat"], dailySpendCapUSD: 1 });
+    prismaMock.state.spentToday = 0.6;
+    prismaMock.state.heldUSD = 0.4;
+    const res = await request(app).get("/v1/models").set("Authorization", `Bearer ${key}`);
+    expect(res.status).toBe(402);
+    expect(res.body.error).toBe("api_key_spend_cap_reached");
+  });
+
+  it("rejects revoked keys", async () => {
+    const key = await createKey({ name: "temp" });
+    const revoke = await request(app).delete("/api-keys/1").set("x-session-token", "wallet-session");
+    expect(revoke.status).toBe(200);
+
+    const res = await request(app).get("/v1/models").set("Authorization", `Bearer ${key}`);
+    expect(res.status).toBe(401);
+    expect(res.body.error).toBe("invalid_api_key");
+  });
+});
@@ -0,0 +1,143 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import request from "supertest";
+
+const { prismaMock } = vi.hoisted(() => {
+  process.env.CHALLENGE_SIGNER_KEY = "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+  process.env.ADMIN_WALLETS = "0xAdmin";
+  const challenges: any[] = [];
+  const proposals: any[] = [];
+  const matches = (row: any, where: any) =>
+    Object.entries(where).every(([key, value]: [string, any]) => {
+      if (value && typeof value === "object" && "in" in value) return value.in.includes(row[key]);
+      if (value && typeof value === "object" && "gte" in value) return row[key] >= value.gte;
+      return row[key] === value;
+    });
+  return {
+    prismaMock: {
+      challenges,
+      proposals,
+      user: {
+        findFirst: vi.fn(async ({ where }: any) =>
+          ({ "admin-token": { id: 1, walletAddress: "0xadmin" }, "user-token": { id: 2, walletAddress: "0xuser" } } as any)[where.sessionToken] ?? null
+        ),
+      },
+      inferenceChallenge: {
+        create: vi.fn(async ({ data }: any) => {
+          const row = { id: challenges.length + 1, slashProposalId: null, createdAt: new Date(), ...data };
+          challenges.push(row);
+          return row;
+        }),
+        count: vi.fn(async ({ where }: any) => challenges.filter((c) => matches(c, where)).length),
+        updateMany: vi.fn(async ({ where, data }: any) => {
+          const rows = challenges.filter((c) => matches(c, where));
+          rows.forEach((c) => Object.assign(c, data));
+          return { count: rows.length };
+        }),
+      },
+      slashProposal: {
+        findFirst: vi.fn(async ({ where }: any) => proposals.find((p) => matches(p, where)) ?? null),
+        findUnique: vi.fn(async ({ where, include }: any) => {
+          const proposal = proposals.find((p) => p.id === where.id);
+          if (!proposal || !include) return proposal ?? null;
+          return { ...proposal, challenges: challenges.filter((c) => c.slashProposalId === proposal.id) };
+        }),
+        create: vi.fn(async ({ data }: any) => {
+          const row = { id: proposals.length + 1, status: "pending", ...data };
+          proposals.push(row);
+          return row;
+        }),
+        update: vi.fn(async ({ where, data }: any) => Object.assign(proposals.find((p) => p.id === where.id), data)),
+      },
+    },
+  };
+});
+
+vi.mock("../src/prisma", () => ({ prisma: prismaMock }));
+
+import { ollamaService, OllamaNode } from "../src/services/ollama";
+import { buildProbe, canonicalJson, challengeService, judge, Probe } from "../src/services/challenges";
+import { createApp } from "../src/app";
+
+const node: OllamaNode = {
+  address: "0xop",
+  endpoint: "http://node.test",
+  supportedModels: ["llama3.2"],
+  isHealthy: true,
+  lastHealthCheck: new Date(),
+  latencyMs: 100,
+  performanceScore: 80,
+  stakeWeight: 100,
+};
+
+const sum: Probe = { kind: "known_answer", seed: 42, prompt: "What is 12 + 30? Reply with only the number.", expected: "42" };
+
+describe("inference challenges", () => {
+  beforeEach(() => {
+    prismaMock.challenges.length = 0;
+    prismaMock.proposals.length = 0;
+    ollamaService.adjustScorePenalty(node.address, -100);
+    ollamaService.updateOperators([{ ...node }]);
+  });
+
+  it("builds unpredictable known-answer probes and judges them", () => {
+    const rolls = [7, 0, 25, 17];
+    const probe = buildProbe(false, () => rolls.shift()!);
+    expect(probe).toEqual({ kind: "known_answer", seed: 7, prompt: "What is 25 + 17? Reply with only the number.", expected: "42" });
+
+    expect(judge(sum, "The answer is 42.").verdict).toBe("pass");
+    expect(judge(sum, "420").verdict).toBe("fail");
+    const reference: Probe = { kind: "reference", seed: 1, prompt: "List primes" };
+    expect(judge(reference, "2, 3, 5, 7, 11", "2, 3, 5, 7, 11.")).toEqual({ verdict: "pass", similarity: 1 });
+    expect(judge(reference, "I cannot help with that", "2, 3, 5, 7, 11").verdict).toBe("fail");
+    expect(judge(reference, "2, 3, 5", null).verdict).toBe("inconclusive");
+    expect(canonicalJson({ b: 1, a: { d: [1, "x"], c: null } })).toBe('{"a":{"c":null,"d":[1,"x"]},"b":1}');
+  });
+
+  it("signs evidence, lowers the score and queues a slash proposal after repeated failures", async () => {
+    const sync = vi.spyOn(ollamaService, "chatCompletionSync").mockResolvedValue({ content: "17" });
+    const live = () => ollamaService.getAllNodes()[0];
+
+    const first = await challengeService.challengeNode(live(), "llama3.2", sum);
+    expect(sync).toHaveBeenCalledWith(expect.anything(), expect.any(Array), "llama3.2", { seed: 42, temperature: 0, num_predict: 64 });
+    expect(first).toMatchObject({ verdict: "fail", response: "17", expected: "42" });
+    expect(challengeService.verifyEvidence(first)).toBe(true);
+    expect(challengeService.verifyEvidence({ ...first, evidence: { ...first.evidence, response: "42" } })).toBe(false);
+    expect(live().performanceScore).toBe(70);
+    expect(prismaMock.proposals).toHaveLength(0);
+
+    await challengeService.challengeNode(live(), "llama3.2", sum);
+    await challengeService.challengeNode(live(), "llama3.2", sum);
+    expect(prismaMock.proposals).toEqual([expect.objectContaining({ operatorAddress: "0xop", failedCount: 3, status: "pending" })]);
+    expect(prismaMock.challenges.every((c) => c.slashProposalId === 1)).toBe(true);
+
+    // Score penalties survive the periodic operator refresh; passes slowly restore it
+    ollamaService.updateOperators([{ ...node }]);
+    expect(live().performanceScore).toBe(50);
+    sync.mockResolvedValue({ content: "42" });
+    expect(await challengeService.challengeNode(live(), "llama3.2", sum)).toMatchObject({ verdict: "pass" });
+    expect(live().performanceScore).toBe(52);
+
+    const proposal = await challengeService.getProposal(1);
+    expect(proposal.challenges.every((c: any) => c.evidenceValid)).toBe(true);
+    await challengeService.rejectProposal(1, "0xadmin", "flaky node");
+    await expect(challengeService.rejectProposal(1, "0xadmin")).rejects.toMatchObject({ code: "invalid_status", status: 409 });
+    sync.mockRestore();
+  });
+
+  it("lets only admin wallets review slash proposals", async () => {
+    prismaMock.proposals.push({ id: 7, operatorAddress: "0xop", status: "pending" });
+    const app = createApp();
+    const reject = (token?: string) => {
+      const req = request(app).post("/admin/slash-proposals/7/reject").send({ note: "flaky" });
+      return token ? req.set("x-session-token", token) : req;
+    };
+
+    expect((await reject()).status).toBe(401);
+    expect((await reject("user-token")).status).toBe(403);
+    expect(prismaMock.proposals.find((p) => p.id === 7).status).toBe("pending");
+
+    const res = await reject("admin-token");
+    expect(res.status).toBe(200);
+    expect(res.body.proposal).toMatchObject({ status: "rejected", reviewedBy: "0xadmin" });
+  });
+});
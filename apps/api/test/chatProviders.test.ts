@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const prismaMock = vi.hoisted(() => {
+  const policies: Record<string, unknown> = {};
+  return {
+    policies,
+    model: {
+      findUnique: async ({ where }: any) =>
+        where.openrouterId in policies ? { routingPolicy: policies[where.openrouterId] } : null
+    }
+  };
+});
+
+vi.mock("../src/prisma", () => ({ prisma: prismaMock }));
+import { chatProviders, ProviderError } from "../src/services/chatProviders";
+
+const messages = [{ role: "user", content: "ping" }];
+
+describe("chat provider routing", () => {
+  beforeEach(() => {
+    for (const key of Object.keys(prismaMock.policies)) delete prismaMock.policies[key];
+    chatProviders.clearPolicyCache();
+    delete process.env.CHAT_PROVIDER;
+    vi.unstubAllGlobals();
+  });
+
+  it("fails over to the next provider on a 5xx", async () => {
+    prismaMock.policies["test/model"] = {
+      providers: [{ provider: "mock", model: "mock/fail-503" }, { provider: "mock" }]
+    };
+
+    const result = await chatProviders.complete({ model: "test/model", messages });
+    expect(result.provider).toBe("mock");
+    expect(result.model).toBe("test/model");
+    expect(result.data.choices[0].message.content).toBe("[mock] ping");
+  });
+
+  it("does not fail over on client errors", async () => {
+    prismaMock.policies["test/model"] = {
+      providers: [{ provider: "mock", model: "mock/fail-400" }, { provider: "mock" }]
+    };
+
+    await expect(chatProviders.complete({ model: "test/model", messages })).rejects.toMatchObject({ status: 400 });
+  });
+
+  it("treats upstream timeouts as retryable", async () => {
+    process.env.OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY || "test-key";
+    vi.stubGlobal("fetch", vi.fn(async () => {
+      throw Object.assign(new Error("aborted"), { name: "AbortError" });
+    }));
+    prismaMock.policies["test/model"] = { providers: [{ provider: "openrouter" }, { provider: "mock" }] };
+
+    const result = await chatProviders.complete({ model: "test/model", messages });
+    expect(result.provider).toBe("mock");
+  });
+
+  it("reports the last error when every provider fails", async () => {
+    prismaMock.policies["test/model"] = { providers: [{ provider: "mock", model: "mock/fail-502" }] };
+
+    const error = await chatProviders.complete({ model: "test/model", messages }).catch((e) => e);
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error.status).toBe(502);
+  });
+
+  it("streams chunks with a final usage block from the forced provider", async () => {
+    process.env.CHAT_PROVIDER = "mock";
+
+    const routed = await chatProviders.stream({ model: "openai/gpt-4o", messages });
+    let content = "";
+    let usage: any = null;
+    for await (const chunk of routed.chunks) {
+      content += chunk.choices?.[0]?.delta?.content || "";
+      if (chunk.usage) usage = chunk.usage;
+    }
+
+    expect(routed.provider).toBe("mock");
+    expect(content).toBe("[mock] ping");
+    expect(usage.completion_tokens).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,125 @@
+import request from "supertest";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const prismaMock = vi.hoisted(() => {
+  process.env.ADMIN_SECRET = "admin-secret";
+  const state = { entries: [] as any[], grants: [] as any[] };
+  const filter = (where: any = {}) =>
+    state.entries.filter(
+      (e) =>
+        (!where.guestId || e.guestId === where.guestId) &&
+        (!where.ipAddress || e.ipAddress === where.ipAddress) &&
+        (!where.deviceId || e.deviceId === where.deviceId) &&
+        (!where.type || e.type === where.type)
+    );
+  const sum = (rows: any[]) => rows.reduce((acc, e) => acc + e.amountUSD, 0);
+  return {
+    state,
+    user: {
+      upsert: vi.fn(async ({ where, update }: any) => ({ id: 1, guestId: where.guestId, isGuest: true, ...update })),
+      findUnique: async ({ where }: any) => (where.guestId ? { id: 1, guestId: where.guestId, isGuest: true } : null)
+    },
+    guestCreditEntry: {
+      create: async ({ data }: any) => {
+        state.entries.push({ ...data, amountUSD: Number(data.amountUSD), createdAt: new Date() });
+        return data;
+      },
+      aggregate: async ({ where }: any) => ({ _sum: { amountUSD: sum(filter(where)) } }),
+      groupBy: async ({ where }: any) => {
+        const rows = filter(where);
+        const ids = Array.from(new Set(rows.map((e) => e.guestId)));
+        return ids.map((guestId) => {
+          const own = rows.filter((e) => e.guestId === guestId);
+          return { guestId, _sum: { amountUSD: sum(own) }, _max: { createdAt: own[own.length - 1].createdAt } };
+        });
+      }
+    },
+    creditGrant: {
+      findUnique: async ({ where }: any) => state.grants.find((g) => g.sourceGuestId === where.sourceGuestId) || null,
+      findFirst: async ({ where }: any) => state.grants.find((g) => g.walletAddress === where.walletAddress) || null,
+      create: async ({ data }: any) => {
+        // The unique sourceGuestId / migratedTo columns
+        if (state.grants.some((g) => (data.sourceGuestId && g.sourceGuestId === data.sourceGuestId) || (data.migratedTo && g.migratedTo === data.migratedTo))) {
+          throw Object.assign(new Error("Unique constraint failed"), { code: "P2002" });
+        }
+        state.grants.push(data);
+        return data;
+      }
+    }
+  };
+});
+
+vi.mock("../src/prisma", () => ({ prisma: prismaMock }));
+vi.mock("../src/services/ledger", () => ({
+  ledgerService: {
+    recordGrant: async (_wallet: string, _amount: number, _reason: string, createRecord: (tx: any) => Promise<unknown>) =>
+      createRecord(prismaMock)
+  }
+}));
+import { createApp } from "../src/app";
+import { checkGuestLimits, migrateGuestCredits, recordGuestUsage, GUEST_LIMITS } from "../src/services/guestCredits";
+const app = createApp();
+
+describe("guest credits", () => {
+  beforeEach(() => {
+    prismaMock.state.entries.length = 0;
+    prismaMock.state.grants.length = 0;
+  });
+
+  it("derives the balance from the ledger", async () => {
+    await recordGuestUsage("guest-1", 0.2, { model: "openai/gpt-4o" });
+
+    const res = await request(app).get("/billing/credits").set("x-guest-id", "guest-1");
+    expect(res.status).toBe(200);
+    expect(res.body.balanceUSD).toBe("0.300000");
+    expect(res.body.usedCredits).toBe("0.200000");
+  });
+
+  it("lets admins list and reset guest balances", async () => {
+    await recordGuestUsage("guest-1", 0.5);
+
+    expect((await request(app).get("/admin/guest-credits")).status).toBe(401);
+    expect((await request(app).post("/admin/guest-credits/guest-1/reset").set("x-admin-secret", "wrong")).status).toBe(401);
+
+    const list = await request(app).get("/admin/guest-credits").set("x-admin-secret", "admin-secret");
+    expect(list.body.guests[0]).toMatchObject({ guestId: "guest-1", remainingUSD: 0 });
+
+    const reset = await request(app).post("/admin/guest-credits/guest-1/reset").set("x-admin-secret", "admin-secret");
+    expect(reset.body.remainingUSD).toBe("0.500000");
+  });
+
+  it("limits the number of guest ids per IP", async () => {
+    for (let i = 0; i < GUEST_LIMITS.maxGuestsPerIp; i++) {
+      await recordGuestUsage(`guest-${i}`, 0.01, { ipAddress: "1.2.3.4" });
+    }
+    expect(await checkGuestLimits("guest-0", { ipAddress: "1.2.3.4" })).toBeNull();
+    expect(await checkGuestLimits("guest-new", { ipAddress: "1.2.3.4" })).toBe("guest_ip_limit");
+  });
+
+  it("only counts device ids alongside the IP they were seen from", async () => {
+    for (let i = 0; i < GUEST_LIMITS.maxGuestsPerDevice; i++) {
+      await recordGuestUsage(`guest-${i}`, 0.01, { ipAddress: "1.2.3.4", deviceId: "device-1" });
+    }
+    expect(await checkGuestLimits("guest-new", { ipAddress: "1.2.3.4", deviceId: "device-1" })).toBe("guest_device_limit");
+    // A spoofed device id cannot lock out another network, nor limit on its own
+    expect(await checkGuestLimits("guest-new", { ipAddress: "5.6.7.8", deviceId: "device-1" })).toBeNull();
+    expect(await checkGuestLimits("guest-new", { deviceId: "device-1" })).toBeNull();
+  });
+
+  it("ignores a spoofed X-Forwarded-For unless a proxy is trusted", async () => {
+    await request(app).get("/billing/credits").set("x-guest-id", "guest-1").set("x-forwarded-for", "9.9.9.9");
+    expect(prismaMock.user.upsert).toHaveBeenLastCalledWith(
+      expect.objectContaining({ update: expect.objectContaining({ lastIpAddress: expect.not.stringContaining("9.9.9.9") }) })
+    );
+  });
+
+  it("carries the remaining balance over to a wallet only once", async () => {
+    await recordGuestUsage("guest-1", 0.1);
+
+    expect(await migrateGuestCredits("guest-1", "0xABC")).toBeCloseTo(0.4);
+    expect(prismaMock.state.grants[0]).toMatchObject({ walletAddress: "0xabc", reason: "guest_migration" });
+    expect(await migrateGuestCredits("guest-1", "0xabc")).toBe(0);
+    expect(await migrateGuestCredits("guest-2", "0xabc")).toBe(0);
+    expect(prismaMock.state.entries.filter((e) => e.type === "migrated")).toHaveLength(1);
+  });
+});
@@ -0,0 +1,175 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const prismaMock = vi.hoisted(() => {
+  const state = { entries: [] as any[], holds: [] as any[], usage: [] as any[], legacyDepositsUSD: 0 };
+  const sum = (rows: any[], field: string) => rows.reduce((acc, r) => acc + Number(r[field]), 0);
+  const mock: any = {
+    state,
+    $transaction: async (fn: (tx: any) => Promise<unknown>) => fn(mock),
+    $queryRaw: async () => [],
+    ledgerEntry: {
+      findFirst: async ({ where }: any) => state.entries.find((e) => e.walletAddress === where.walletAddress) || null,
+      aggregate: async ({ where }: any) => ({
+        _sum: { amountUSD: sum(state.entries.filter((e) => e.account === where.account), "amountUSD") }
+      }),
+      createMany: async ({ data }: any) => {
+        data.forEach((e: any) => state.entries.push({ id: state.entries.length + 1, createdAt: new Date(), ...e }));
+        return { count: data.length };
+      },
+      findMany: async ({ where }: any) => state.entries.filter((e) => e.account === where.account).reverse()
+    },
+    creditHold: {
+      create: async ({ data }: any) => {
+        const hold = { id: `hold-${state.holds.length + 1}`, status: "held", ...data };
+        state.holds.push(hold);
+        return hold;
+      },
+      findUnique: async ({ where }: any) => state.holds.find((h) => h.requestId === where.requestId) || null,
+      findMany: async ({ where }: any) =>
+        state.holds.filter(
+          (h) => h.walletAddress === where.walletAddress && h.status === "held" && h.purpose === where.purpose && h.expiresAt < where.expiresAt.lt
+        ),
+      update: async ({ where, data }: any) => Object.assign(state.holds.find((h) => h.id === where.id), data),
+      updateMany: async ({ where, data }: any) => {
+        const rows = state.holds.filter((h) => h.requestId === where.requestId && h.status === where.status);
+        rows.forEach((h) => Object.assign(h, data));
+        return { count: rows.length };
+      }
+    },
+    usage: {
+      findUnique: async ({ where }: any) => state.usage.find((u) => u.requestId === where.requestId) || null,
+      create: async ({ data }: any) => state.usage.push(data),
+      aggregate: async () => ({ _sum: { costUSD: 0 } })
+    },
+    vaultDeposit: { aggregate: async () => ({ _sum: { amountUSD: state.legacyDepositsUSD } }) },
+    creditGrant: { aggregate: async () => ({ _sum: { amountUSD: 0 } }) }
+  };
+  return mock;
+});
+
+vi.mock("../src/prisma", () => ({ prisma: prismaMock }));
+import { ledgerService, InsufficientCreditsError, SYSTEM_ACCOUNTS } from "../src/services/ledger";
+
+const WALLET = "0xabc";
+
+function accountTotal(account: string) {
+  return prismaMock.state.entries
+    .filter((e: any) => e.account === account)
+    .reduce((acc: number, e: any) => acc + e.amountUSD, 0);
+}
+
+describe("credit ledger", () => {
+  beforeEach(() => {
+    prismaMock.state.entries.length = 0;
+    prismaMock.state.holds.length = 0;
+    prismaMock.state.usage.length = 0;
+    prismaMock.state.legacyDepositsUSD = 0;
+  });
+
+  it("opens wallets from legacy balances", async () => {
+    prismaMock.state.legacyDepositsUSD = 5;
+    expect((await ledgerService.getBalance(WALLET)).availableUSD).toBe(5);
+
+    await ledgerService.recordDeposit(WALLET, 1, "0xtx");
+    expect((await ledgerService.getBalance(WALLET)).availableUSD).toBe(6);
+  });
+
+  it("holds, then settles the actual cost and refunds the rest", async () => {
+    await ledgerService.recordDeposit(WALLET, 1, "0xtx");
+    await ledgerService.placeHold(WALLET, "req-1", 0.3, "openai/gpt-4o");
+    let balance = await ledgerService.getBalance(WALLET);
+    expect(balance.availableUSD).toBeCloseTo(0.7);
+    expect(balance.heldUSD).toBeCloseTo(0.3);
+
+    await ledgerService.settle(WALLET, "req-1", 0.05, { model: "openai/gpt-4o", inputTokens: 10, outputTokens: 20 });
+    balance = await ledgerService.getBalance(WALLET);
+    expect(balance.availableUSD).toBeCloseTo(0.95);
+    expect(balance.heldUSD).toBeCloseTo(0);
+    expect(accountTotal(SYSTEM_ACCOUNTS.revenue)).toBeCloseTo(0.05);
+    expect(prismaMock.state.usage).toHaveLength(1);
+
+    // Every transaction balances
+    const total = prismaMock.state.entries.reduce((acc: number, e: any) => acc + e.amountUSD, 0);
+    expect(total).toBeCloseTo(0, 8);
+  });
+
+  it("charges cost above the hold to the balance, never below zero", async () => {
+    await ledgerService.recordDeposit(WALLET, 1, "0xtx");
+    await ledgerService.placeHold(WALLET, "req-1", 0.3);
+    await ledgerService.settle(WALLET, "req-1", 0.5, { model: "m", inputTokens: 1, outputTokens: 1 });
+    expect((await ledgerService.getBalance(WALLET)).availableUSD).toBeCloseTo(0.5, 8);
+
+    await ledgerService.placeHold(WALLET, "req-2", 0.4);
+    await ledgerService.settle(WALLET, "req-2", 2, { model: "m", inputTokens: 1, outputTokens: 1 });
+    const balance = await ledgerService.getBalance(WALLET);
+    expect(balance.availableUSD).toBeCloseTo(0, 8);
+    expect(balance.heldUSD).toBeCloseTo(0, 8);
+    expect(accountTotal(SYSTEM_ACCOUNTS.revenue)).toBeCloseTo(1);
+    const settle = prismaMock.state.entries.find((e: any) => e.requestId === "req-2" && e.type === "settle");
+    expect(settle.metadata).toMatchObject({ costUSD: 2, uncollectedUSD: 1.5 });
+  });
+
+  it("captures an expired hold whose request was served instead of releasing it", async () => {
+    await ledgerService.recordDeposit(WALLET, 1, "0xtx");
+    await ledgerService.placeHold(WALLET, "served", 0.3);
+    await ledgerService.placeHold(WALLET, "unserved", 0.2);
+
+    // The usage was recorded on the hold, but the ledger transaction failed
+    const transaction = prismaMock.$transaction;
+    let calls = 0;
+    prismaMock.$transaction = async (fn: any) => (calls++ === 0 ? Promise.reject(new Error("deadlock")) : transaction(fn));
+    await expect(ledgerService.settle(WALLET, "served", 0.1, { model: "m", inputTokens: 1, outputTokens: 2 })).rejects.toThrow("deadlock");
+    prismaMock.$transaction = transaction;
+
+    prismaMock.state.holds.forEach((h: any) => (h.expiresAt = new Date(Date.now() - 1000)));
+    await ledgerService.placeHold(WALLET, "req-3", 0.1);
+
+    expect(prismaMock.state.holds.map((h: any) => [h.requestId, h.status])).toEqual([
+      ["served", "settled"],
+      ["unserved", "released"],
+      ["req-3", "held"],
+    ]);
+    expect(accountTotal(SYSTEM_ACCOUNTS.revenue)).toBeCloseTo(0.1);
+    expect(prismaMock.state.usage).toEqual([expect.objectContaining({ requestId: "served", costUSD: 0.1, outputTokens: 2 })]);
+    const balance = await ledgerService.getBalance(WALLET);
+    expect(balance.availableUSD).toBeCloseTo(0.8, 8);
+    expect(balance.heldUSD).toBeCloseTo(0.1, 8);
+  });
+
+  it("settles each request only once", async () => {
+    await ledgerService.recordDeposit(WALLET, 1, "0xtx");
+    const usage = { model: "m", inputTokens: 1, outputTokens: 1 };
+    await ledgerService.settle(WALLET, "req-1", 0.1, usage);
+    await ledgerService.settle(WALLET, "req-1", 0.1, usage);
+    expect((await ledgerService.getBalance(WALLET)).availableUSD).toBeCloseTo(0.9);
+  });
+
+  it("rejects holds that exceed the spendable balance", async () => {
+    await ledgerService.recordDeposit(WALLET, 0.2, "0xtx");
+    await ledgerService.placeHold(WALLET, "req-1", 0.15);
+    await expect(ledgerService.placeHold(WALLET, "req-2", 0.1)).rejects.toBeInstanceOf(InsufficientCreditsError);
+  });
+
+  it("releases holds on failure", async () => {
+    await ledgerService.recordDeposit(WALLET, 1, "0xtx");
+    await ledgerService.placeHold(WALLET, "req-1", 0.4);
+    await ledgerService.release("req-1");
+    expect(await ledgerService.getBalance(WALLET)).toEqual({ availableUSD: 1, heldUSD: 0 });
+    expect(prismaMock.state.holds[0].status).toBe("released");
+  });
+
+  it("keeps withdrawal locks past their deadline and moves them out on completion", async () => {
+    await ledgerService.recordDeposit(WALLET, 10, "0xtx");
+    await ledgerService.lockWithdrawal(WALLET, "wd-1", 6, new Date(Date.now() - 1000));
+
+    // The next hold releases expired request holds only
+    await ledgerService.placeHold(WALLET, "req-1", 1);
+    expect(await ledgerService.getBalance(WALLET)).toEqual({ availableUSD: 3, heldUSD: 7 });
+    await expect(ledgerService.placeHold(WALLET, "req-2", 3.5)).rejects.toBeInstanceOf(InsufficientCreditsError);
+
+    await ledgerService.completeWithdrawal("wd-1", "0xwithdraw");
+    await ledgerService.completeWithdrawal("wd-1", "0xwithdraw");
+    expect(accountTotal(SYSTEM_ACCOUNTS.withdrawals)).toBeCloseTo(6);
+    expect((await ledgerService.getBalance(WALLET)).heldUSD).toBeCloseTo(1);
+  });
+});
@@ -0,0 +1,112 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { prismaMock, completeMock, uploadMock } = vi.hoisted(() => {
+  const jobs = new Map<string, any>();
+  return {
+    completeMock: vi.fn(),
+    uploadMock: vi.fn(),
+    prismaMock: {
+      jobs,
+      model: { findMany: vi.fn() },
+      mediaJob: {
+        create: vi.fn(async ({ data }: any) => {
+          const row = { id: `job-${jobs.size + 1}`, status: "queued", progress: 0, resultUrl: null, contentType: null, error: null, costUSD: null, ...data };
+          jobs.set(row.id, row);
+          return row;
+        }),
+        update: vi.fn(async ({ where, data }: any) => Object.assign(jobs.get(where.id), data)),
+        findFirst: vi.fn(async ({ where }: any) => jobs.get(where.id) ?? null),
+      },
+    },
+  };
+});
+
+vi.mock("../src/prisma", () => ({ prisma: prismaMock }));
+vi.mock("../src/services/chatProviders", () => ({ chatProviders: { complete: completeMock } }));
+vi.mock("../src/services/storage", () => ({ storageService: { uploadBuffer: uploadMock } }));
+
+import { extractMedia, findMediaModel, mediaJobService } from "../src/services/mediaJobs";
+
+const catalog = [
+  { openrouterId: "openai/gpt-4o", architecture: { output_modalities: ["text"] } },
+  { openrouterId: "openai/gpt-4o-audio-preview", architecture: { output_modalities: ["text", "audio"] } },
+  { openrouterId: "acme/tts-mini", architecture: { output_modalities: ["audio"] } },
+  { openrouterId: "acme/video-1", architecture: { output_modalities: ["video"] } },
+];
+
+describe("media jobs", () => {
+  beforeEach(() => {
+    prismaMock.jobs.clear();
+    prismaMock.model.findMany.mockResolvedValue(catalog);
+    completeMock.mockReset();
+    uploadMock.mockReset();
+  });
+
+  it("routes to catalog models by output modality", async () => {
+    expect(await findMediaModel("audio")).toBe("openai/gpt-4o-audio-preview");
+    expect(await findMediaModel("audio", "acme/tts-mini")).toBe("acme/tts-mini");
+    expect(await findMediaModel("audio", "openai/gpt-4o")).toBe("openai/gpt-4o-audio-preview");
+    expect(await findMediaModel("video")).toBe("acme/video-1");
+
+    prismaMock.model.findMany.mockResolvedValue(catalog.slice(0, 1));
+    expect(await findMediaModel("video")).toBeNull();
+  });
+
+  it("extracts audio and video from completion messages", () => {
+    const audio = extractMedia("audio", { audio: { data: Buffer.from("ID3").toString("base64"), format: "wav" } });
+    expect(audio?.contentType).toBe("audio/wav");
+    expect(audio?.buffer?.toString()).toBe("ID3");
+
+    expect(extractMedia("video", { videos: [{ video_url: { url: "https://cdn.example/v.mp4" } }] }))
+      .toEqual({ url: "https://cdn.example/v.mp4", contentType: "video/mp4" });
+    const inline = extractMedia("video", { content: [{ type: "text", text: "ok" }, { type: "video_url", video_url: { url: "data:video/webm;base64,AAAA" } }] });
+    expect(inline?.contentType).toBe("video/webm");
+
+    expect(extractMedia("audio", { content: "no audio here" })).toBeNull();
+  });
+
+  it("runs a job to completion, uploads the result and reports progress", async () => {
+    completeMock.mockResolvedValue({
+      provider: "openrouter",
+      model: "acme/tts-mini",
+      data: { choices: [{ message: { audio: { data: Buffer.from("mp3").toString("base64"), format: "mp3" } } }], usage: { prompt_tokens: 12, completion_tokens: 300 } },
+    });
+    uploadMock.mockResolvedValue("https://bucket.example/generated-audio/x.mp3");
+    const onSucceeded = vi.fn(async () => 0.0042);
+    const onFailed = vi.fn(async () => {});
+
+    const job = await mediaJobService.create(
+      { userId: 7, kind: "audio", model: "acme/tts-mini", prompt: "hello there", requestId: "req-1" },
+      { onSucceeded, onFailed }
+    );
+    const updates: string[] = [];
+    const final = await mediaJobService.watch(job, 7, (u) => updates.push(u.status), 5000);
+
+    expect(final).toMatchObject({ status: "succeeded", progress: 100, resultUrl: "https://bucket.example/generated-audio/x.mp3", costUSD: 0.0042 });
+    expect(updates).toContain("running");
+    expect(uploadMock).toHaveBeenCalledWith(expect.any(Buffer), "generated-audio", "audio/mpeg");
+    expect(completeMock.mock.calls[0][0]).toMatchObject({ model: "acme/tts-mini", modalities: ["audio", "text"] });
+    expect(onSucceeded).toHaveBeenCalledWith(expect.objectContaining({ id: job.id }), { promptTokens: 12, completionTokens: 300 });
+    expect(onFailed).not.toHaveBeenCalled();
+    // Prompts are stored encrypted like message content
+    expect(prismaMock.jobs.get(job.id).prompt).not.toBe("hello there");
+  });
+
+  it("marks the job failed and releases through the hook when no media comes back", async () => {
+    completeMock.mockResolvedValue({ provider: "openrouter", model: "acme/video-1", data: { choices: [{ message: { content: "sorry" } }] } });
+    const onSucceeded = vi.fn(async () => 0);
+    const onFailed = vi.fn(async () => {});
+
+    const job = await mediaJobService.create(
+      { userId: 7, kind: "video", model: "acme/video-1", prompt: "a cat", requestId: "req-2" },
+      { onSucceeded, onFailed }
+    );
+    const final = await mediaJobService.watch(job, 7, () => {}, 5000);
+
+    expect(final.status).toBe("failed");
+    expect(final.error).toMatch(/returned no video/);
+    expect(onSucceeded).not.toHaveBeenCalled();
+    await vi.waitFor(() => expect(onFailed).toHaveBeenCalledOnce());
+    expect(uploadMock).not.toHaveBeenCalled();
+  });
+});
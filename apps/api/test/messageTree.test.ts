@@ -0,0 +1,72 @@
+import request from "supertest";
+import { describe, expect, it, vi } from "vitest";
+
+const prismaMock = vi.hoisted(() => ({
+  user: {
+    findFirst: async ({ where }: any) => (where.sessionToken === "other-session" ? { id: 2, walletAddress: "0x2" } : null),
+    upsert: async () => null,
+  },
+  conversation: {
+    // conv-1 belongs to user 1
+    findFirst: vi.fn(async ({ where }: any) => (where.id === "conv-1" && where.userId === 1 ? { id: "conv-1", title: "t", messages: [] } : null)),
+    create: vi.fn(async () => ({ id: "clone" })),
+  },
+}));
+
+vi.mock("../src/prisma", () => ({ prisma: prismaMock }));
+import { childrenOf, descendToLeaf, planLegacyLinks, resolvePath, TreeNode } from "../src/services/messageTree";
+import { createApp } from "../src/app";
+
+const node = (id: number, role: string, parentId: number | null, siblingIndex = 0): TreeNode => ({ id, role, parentId, siblingIndex });
+
+// 1 user ─┬─ 2 assistant ── 3 user ── 4 assistant
+//         ├─ 5 assistant (regenerated)
+//         └─ 6 assistant (regenerated again)
+// 7 user (edit of 1) ── 8 assistant
+const tree = [
+  node(1, "user", null),
+  node(2, "assistant", 1),
+  node(3, "user", 2),
+  node(4, "assistant", 3),
+  node(5, "assistant", 1, 1),
+  node(6, "assistant", 1, 2),
+  node(7, "user", null, 1),
+  node(8, "assistant", 7),
+];
+
+describe("message tree", () => {
+  it("orders siblings and follows the newest child down", () => {
+    expect(childrenOf(tree, 1).map((n) => n.id)).toEqual([2, 5, 6]);
+    expect(childrenOf(tree, null).map((n) => n.id)).toEqual([1, 7]);
+    expect(descendToLeaf(tree, 1)).toBe(6);
+    expect(descendToLeaf(tree, 2)).toBe(4);
+  });
+
+  it("resolves the active branch from a leaf, an inner node or the newest message", () => {
+    expect(resolvePath(tree, 4).map((n) => n.id)).toEqual([1, 2, 3, 4]);
+    expect(resolvePath(tree, 2).map((n) => n.id)).toEqual([1, 2, 3, 4]);
+    expect(resolvePath(tree, 5).map((n) => n.id)).toEqual([1, 5]);
+    expect(resolvePath(tree, null).map((n) => n.id)).toEqual([7, 8]);
+    expect(resolvePath(tree, 999).map((n) => n.id)).toEqual([7, 8]);
+    expect(resolvePath([], 1)).toEqual([]);
+  });
+
+  it("links legacy conversations, turning compared replies into siblings", () => {
+    const legacy = [node(10, "user", null), node(11, "assistant", null), node(12, "assistant", null), node(13, "user", null), node(14, "assistant", null)];
+    expect(planLegacyLinks(legacy)).toEqual([
+      { id: 11, parentId: 10, siblingIndex: 0 },
+      { id: 12, parentId: 10, siblingIndex: 1 },
+      { id: 13, parentId: 12, siblingIndex: 0 },
+      { id: 14, parentId: 13, siblingIndex: 0 },
+    ]);
+    // Already a tree (or a single message): nothing to do
+    expect(planLegacyLinks(tree)).toEqual([]);
+    expect(planLegacyLinks([node(20, "user", null)])).toEqual([]);
+  });
+
+  it("only forks the caller's own conversations", async () => {
+    const res = await request(createApp()).post("/llm/history/conv-1/fork").set("x-session-token", "other-session");
+    expect(res.status).toBe(404);
+    expect(prismaMock.conversation.create).not.toHaveBeenCalled();
+  });
+});
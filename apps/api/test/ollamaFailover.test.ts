@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ollamaService, ChatChunk, FailoverChunk, OllamaNode } from "../src/services/ollama";
+
+const makeNode = (address: string, performanceScore: number): OllamaNode => ({
+  address,
+  endpoint: `http://${address}.test`,
+  supportedModels: ["llama3.2"],
+  isHealthy: true,
+  lastHealthCheck: new Date(),
+  latencyMs: 100,
+  performanceScore,
+  stakeWeight: 100,
+});
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Scripted node behaviour: chunks to stream, an optional delay before the first one
+const scripts: Record<string, { delay?: number; chunks: ChatChunk[] }> = {};
+const aborted: string[] = [];
+
+async function collect(stream: AsyncGenerator<FailoverChunk>) {
+  const chunks: FailoverChunk[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return {
+    text: chunks.map((c) => c.content || "").join(""),
+    servedBy: chunks.find((c) => c.servedBy)?.servedBy?.address,
+    attempts: chunks.filter((c) => c.attempt).map((c) => [c.attempt!.node.address, c.attempt!.outcome]),
+    errors: chunks.filter((c) => c.error).map((c) => c.error),
+  };
+}
+
+describe("ollama failover", () => {
+  beforeEach(() => {
+    aborted.length = 0;
+    vi.spyOn(Math, "random").mockReturnValue(0); // selectNode always takes the top-ranked node
+    ollamaService.updateOperators([makeNode("0xa", 90), makeNode("0xb", 80), makeNode("0xc", 70)]);
+    for (const node of ollamaService.getAllNodes()) node.isHealthy = true;
+    vi.spyOn(ollamaService, "chatCompletion").mockImplementation(async function* (node, _messages, _model, _options, signal) {
+      const script = scripts[node.address];
+      if (script.delay) await sleep(script.delay);
+      if (signal?.aborted) {
+        aborted.push(node.address);
+        return;
+      }
+      for (const chunk of script.chunks) yield chunk;
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("moves to the next node when one fails before the first token", async () => {
+    scripts["0xa"] = { chunks: [{ error: "Request failed: ECONNREFUSED" }] };
+    scripts["0xb"] = { chunks: [{ content: "Hello" }, { content: " world" }, { done: true, evalCount: 2 }] };
+
+    const result = await collect(ollamaService.failoverChat("llama3.2", [{ role: "user", content: "hi" }]));
+    expect(result).toMatchObject({
+      text: "Hello world",
+      servedBy: "0xb",
+      attempts: [["0xa", "failed"], ["0xb", "served"]],
+      errors: [],
+    });
+
+    scripts["0xb"] = { chunks: [{ error: "Request timeout" }] };
+    scripts["0xc"] = { chunks: [{ error: "Ollama API error: 500 - boom" }] };
+    const allDown = await collect(ollamaService.failoverChat("llama3.2", [{ role: "user", content: "hi" }]));
+    expect(allDown.attempts).toEqual([["0xa", "failed"], ["0xb", "failed"], ["0xc", "failed"]]);
+    expect(allDown.errors[0]).toMatch(/^All nodes failed/);
+  });
+
+  it("hedges across two nodes and cancels the slower one", async () => {
+    scripts["0xa"] = { delay: 50, chunks: [{ content: "slow" }, { done: true }] };
+    scripts["0xb"] = { chunks: [{ content: "fast" }, { done: true }] };
+
+    const result = await collect(ollamaService.failoverChat("llama3.2", [{ role: "user", content: "hi" }], { hedge: true }));
+    expect(result).toMatchObject({ text: "fast", servedBy: "0xb", attempts: [["0xa", "cancelled"], ["0xb", "served"]] });
+    await sleep(80);
+    expect(aborted).toEqual(["0xa"]);
+  });
+
+  it("does not fail over once tokens were sent", async () => {
+    scripts["0xa"] = { chunks: [{ content: "partial" }, { error: "Request failed: socket hang up" }] };
+
+    const result = await collect(ollamaService.failoverChat("llama3.2", [{ role: "user", content: "hi" }]));
+    expect(result).toMatchObject({ text: "partial", servedBy: "0xa", attempts: [["0xa", "failed"]] });
+    expect(result.errors).toEqual(["Request failed: socket hang up"]);
+  });
+});
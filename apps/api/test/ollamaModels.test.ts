@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ollamaService, OllamaNode, modelMatches, parseModelRef, toModelDescriptor } from "../src/services/ollama";
+
+const makeNode = (address: string): OllamaNode => ({
+  address,
+  endpoint: `http://${address}.test`,
+  supportedModels: ["llama3.2"],
+  isHealthy: false,
+  lastHealthCheck: new Date(0),
+  latencyMs: 0,
+  performanceScore: 80,
+  stakeWeight: 100,
+});
+
+const tag = (name: string, digest: string, quantization: string) => ({
+  name,
+  digest,
+  size: 1_300_000_000,
+  details: { parameter_size: "1.2B", quantization_level: quantization },
+});
+
+// What each fake node lists on /api/tags
+const tags: Record<string, unknown[]> = {
+  "http://0xa.test": [tag("llama3.2:1b", "aaaa1111bbbb2222", "Q8_0"), tag("qwen2.5", "cccc3333dddd4444", "Q4_K_M")],
+  "http://0xb.test": [tag("llama3.2:1b", "eeee5555ffff6666", "Q4_K_M")],
+};
+
+describe("ollama model descriptors", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("parses model references and matches them against descriptors", () => {
+    expect(parseModelRef("llama3.2:1b@SHA256:AAAA1111")).toEqual({ name: "llama3.2:1b", family: "llama3.2", digest: "aaaa1111" });
+    expect(parseModelRef("llama3.2")).toEqual({ name: "llama3.2", family: "llama3.2", digest: null });
+
+    const model = toModelDescriptor(tag("qwen2.5", "cccc3333dddd4444", "Q4_K_M"), 32768);
+    expect(model).toMatchObject({ name: "qwen2.5:latest", family: "qwen2.5", tag: "latest", quantization: "Q4_K_M", contextLength: 32768 });
+    expect(modelMatches(model, "qwen2.5")).toBe(true);
+    expect(modelMatches(model, "qwen2.5:latest@cccc3333")).toBe(true);
+    expect(modelMatches(model, "qwen2.5:latest@eeee5555")).toBe(false);
+    expect(modelMatches(model, "qwen2.5:7b")).toBe(false);
+  });
+
+  it("describes node models from /api/tags and /api/show and routes pinned digests only to matching nodes", async () => {
+    const fetchMock = vi.fn(async (url: string, init?: { body?: string }) => {
+      const [endpoint, path] = url.split("/api/");
+      if (path === "tags") return new Response(JSON.stringify({ models: tags[endpoint] }));
+      const { model } = JSON.parse(init!.body!);
+      const arch = model.startsWith("qwen") ? "qwen2" : "llama";
+      return new Response(JSON.stringify({ model_info: { [`${arch}.context_length`]: arch === "qwen2" ? 32768 : 131072 } }));
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    await ollamaService.initialize([makeNode("0xa"), makeNode("0xb")]);
+    const [a, b] = ollamaService.getAllNodes();
+    expect(a.supportedModels).toEqual(["llama3.2", "qwen2.5"]);
+    expect(a.models).toEqual([
+      expect.objectContaining({ name: "llama3.2:1b", digest: "aaaa1111bbbb2222", quantization: "Q8_0", contextLength: 131072 }),
+      expect.objectContaining({ name: "qwen2.5:latest", contextLength: 32768 }),
+    ]);
+
+    expect(ollamaService.getModelVariants().map((v) => [v.id, v.nodeCount])).toEqual([
+      ["llama3.2:1b@aaaa1111bbbb", 1],
+      ["llama3.2:1b@eeee5555ffff", 1],
+      ["qwen2.5:latest@cccc3333dddd", 1],
+    ]);
+
+    for (let i = 0; i < 5; i++) {
+      expect(ollamaService.selectNode("llama3.2:1b@eeee5555ffff")?.address).toBe("0xb");
+    }
+    expect(ollamaService.selectNode("qwen2.5:latest@eeee5555")).toBeNull();
+    expect(ollamaService.isModelAvailable("llama3.2")).toBe(true);
+    expect(ollamaService.resolveModelName(a, "qwen2.5")).toBe("qwen2.5:latest");
+
+    // Builds already described are not asked about again
+    const shows = fetchMock.mock.calls.filter(([url]) => url.endsWith("/api/show")).length;
+    await ollamaService.initialize([makeNode("0xa"), makeNode("0xb")]);
+    expect(fetchMock.mock.calls.filter(([url]) => url.endsWith("/api/show"))).toHaveLength(shows);
+    expect(shows).toBe(3);
+  });
+});
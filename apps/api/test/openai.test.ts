@@ -0,0 +1,153 @@
+import request from "supertest";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const prismaMock = vi.hoisted(() => {
+  const models = [
+    {
+      openrouterId: "openai/gpt-4o-mini",
+      name: "GPT-4o mini",
+      createdAt: new Date("2024-07-18T00:00:00Z"),
+      contextLength: 128000,
+      publicPricingPrompt: 0,
+      publicPricingCompletion: 0
+    }
+  ];
+  const matches = (m: any, where: any = {}) =>
+    (!where.openrouterId || m.openrouterId === where.openrouterId) &&
+    (!where.OR || where.OR.some((c: any) => c.openrouterId === m.openrouterId || c.name === m.name));
+  return {
+    user: {
+      findFirst: async ({ where }: any) =>
+        where.sessionToken === "test-token" ? { id: 1, walletAddress: null, isGuest: true, messageCount: 0 } : null,
+      upsert: async () => null
+    },
+    model: {
+      findMany: async () => models,
+      findFirst: async ({ where }: any) => models.find((m) => matches(m, where)) || null,
+      findUnique: async ({ where }: any) => models.find((m) => m.openrouterId === where.openrouterId) || null
+    },
+    prompt: {
+      findMany: async () => [],
+      create: async () => ({})
+    }
+  };
+});
+
+vi.mock("../src/prisma", () => ({ prisma: prismaMock }));
+import { createApp } from "../src/app";
+const app = createApp();
+
+describe("OpenAI-compatible gateway", () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.stubGlobal("fetch", vi.fn());
+    process.env.OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY || "test-key";
+  });
+
+  it("answers 500 when a model lookup fails", async () => {
+    vi.spyOn(prismaMock.model, "findFirst").mockRejectedValueOnce(new Error("db down"));
+    const res = await request(app).get("/v1/models/openai/gpt-4o-mini").set("Authorization", "Bearer test-token");
+    expect(res.status).toBe(500);
+    expect(res.body.error.code).toBe("models_failed");
+  });
+
+  it("answers 500 when the model or credit lookup fails", async () => {
+    vi.spyOn(prismaMock.model, "findFirst").mockRejectedValueOnce(new Error("db down"));
+    const res = await request(app)
+      .post("/v1/chat/completions")
+      .set("Authorization", "Bearer test-token")
+      .send({ model: "openai/gpt-4o-mini", messages: [{ role: "user", content: "hi" }] });
+    expect(res.status).toBe(500);
+    expect(res.body.error.code).toBe("billing_failed");
+  });
+
+  it("rejects requests without a key", async () => {
+    const res = await request(app).post("/v1/chat/completions").send({});
+    expect(res.status).toBe(401);
+    expect(res.body.error.code).toBe("invalid_api_key");
+  });
+
+  it("lists models by openrouter id", async () => {
+    const res = await request(app).get("/v1/models").set("Authorization", "Bearer test-token");
+    expect(res.status).toBe(200);
+    expect(res.body.object).toBe("list");
+    expect(res.body.data[0]).toMatchObject({ id: "openai/gpt-4o-mini", object: "model", owned_by: "openai" });
+  });
+
+  it("returns a chat.completion with usage", async () => {
+    const mockFetch = fetch as unknown as ReturnType<typeof vi.fn>;
+    mockFetch.mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        choices: [{ index: 0, message: { role: "assistant", content: "Hello!" }, finish_reason: "stop" }],
+        usage: { prompt_tokens: 9, completion_tokens: 2, total_tokens: 11 }
+      })
+    } as any);
+
+    const res = await request(app)
+      .post("/v1/chat/completions")
+      .set("Authorization", "Bearer test-token")
+      .send({ model: "openai/gpt-4o-mini", messages: [{ role: "user", content: "hi" }] });
+
+    expect(res.status).toBe(200);
+    expect(res.body.object).toBe("chat.completion");
+    expect(res.body.choices[0].message.content).toBe("Hello!");
+    expect(res.body.usage).toEqual({ prompt_tokens: 9, completion_tokens: 2, total_tokens: 11 });
+  });
+
+  it("streams chat.completion.chunk events ending with usage and [DONE]", async () => {
+    const upstreamChunks = [
+      { choices: [{ index: 0, delta: { role: "assistant" }, finish_reason: null }] },
+      { choices: [{ index: 0, delta: { content: "Hello" }, finish_reason: null }] },
+      { choices: [{ index: 0, delta: { content: "!" }, finish_reason: "stop" }] },
+      { choices: [], usage: { prompt_tokens: 9, completion_tokens: 2 } }
+    ];
+    const encoder = new TextEncoder();
+    const mockFetch = fetch as unknown as ReturnType<typeof vi.fn>;
+    mockFetch.mockResolvedValue({
+      ok: true,
+      status: 200,
+      body: new ReadableStream({
+        start(controller) {
+          for (const chunk of upstreamChunks) controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+          controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+          controller.close();
+        }
+      })
+    } as any);
+
+    const res = await request(app)
+      .post("/v1/chat/completions")
+      .set("Authorization", "Bearer test-token")
+      .send({ model: "openai/gpt-4o-mini", messages: [{ role: "user", content: "ping" }], stream: true });
+
+    expect(res.status).toBe(200);
+    expect(res.headers["content-type"]).toContain("text/event-stream");
+    const events = res.text.split("\n\n").filter(Boolean);
+    expect(events.every((e) => e.startsWith("data: "))).toBe(true);
+    expect(events[events.length - 1]).toBe("data: [DONE]");
+
+    const chunks = events.slice(0, -1).map((e) => JSON.parse(e.slice("data: ".length)));
+    for (const chunk of chunks) {
+      expect(chunk).toMatchObject({ object: "chat.completion.chunk", model: "openai/gpt-4o-mini" });
+      expect(chunk.id).toBe(chunks[0].id);
+    }
+    const content = chunks.map((c) => c.choices[0]?.delta?.content || "").join("");
+    expect(content).toBe("Hello!");
+
+    const usage = chunks[chunks.length - 1];
+    expect(usage.choices).toEqual([]);
+    expect(usage.usage).toEqual({ prompt_tokens: 9, completion_tokens: 2, total_tokens: 11 });
+  });
+
+  it("returns model_not_found for unknown models", async () => {
+    const res = await request(app)
+      .post("/v1/chat/completions")
+      .set("Authorization", "Bearer test-token")
+      .send({ model: "nope/missing", messages: [{ role: "user", content: "hi" }] });
+
+    expect(res.status).toBe(404);
+    expect(res.body.error.code).toBe("model_not_found");
+  });
+});
@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+vi.hoisted(() => {
+  process.env.OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY || "test-key";
+});
+
+vi.mock("../src/prisma", () => ({ prisma: { model: { findUnique: async () => null } } }));
+import { chatCompletion } from "../src/services/openrouter";
+
+function mockFetch(body: unknown) {
+  vi.stubGlobal("fetch", vi.fn(async () => ({ ok: true, json: async () => body })));
+}
+
+describe("chatCompletion", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("returns the provider usage, finish reason and generation id", async () => {
+    mockFetch({
+      id: "gen-123",
+      choices: [{ message: { content: "hello" }, finish_reason: "stop" }],
+      usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 }
+    });
+
+    const result = await chatCompletion({ model: "openai/gpt-4o", messages: [{ role: "user", content: "hi" }] });
+    expect(result).toEqual({
+      content: "hello",
+      usage: { promptTokens: 12, completionTokens: 3, totalTokens: 15 },
+      finishReason: "stop",
+      generationId: "gen-123",
+      provider: "openrouter"
+    });
+  });
+
+  it("reports missing usage as null so callers can fall back to the tokenizer", async () => {
+    mockFetch({ choices: [{ message: { content: "hello" } }] });
+
+    const result = await chatCompletion({ model: "openai/gpt-4o", messages: [{ role: "user", content: "hi" }] });
+    expect(result.usage).toBeNull();
+    expect(result.generationId).toBeNull();
+  });
+});
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ethers } from "ethers";
+
+const { prismaMock } = vi.hoisted(() => {
+  const operators: any[] = [];
+  const actions: any[] = [];
+  const find = (where: any) =>
+    operators.find((o) => o.operatorAddress === where.operatorAddress && (where.isActive === undefined || o.isActive === where.isActive)) ?? null;
+  return {
+    prismaMock: {
+      operators,
+      actions,
+      operatorCache: {
+        findFirst: vi.fn(async ({ where }: any) => find(where)),
+        update: vi.fn(async ({ where, data }: any) => Object.assign(find(where), data)),
+        upsert: vi.fn(async ({ where, update }: any) => Object.assign(find(where), update)),
+        updateMany: vi.fn(async ({ where, data }: any) => {
+          const row = find(where);
+          if (row) Object.assign(row, data);
+          return { count: row ? 1 : 0 };
+        }),
+      },
+      operatorAction: {
+        create: vi.fn(async ({ data }: any) => {
+          if (actions.some((a) => a.operatorAddress === data.operatorAddress && a.nonce === data.nonce)) {
+            throw Object.assign(new Error("Unique constraint failed"), { code: "P2002" });
+          }
+          actions.push(data);
+          return data;
+        }),
+      },
+    },
+  };
+});
+
+vi.mock("../src/prisma", () => ({ prisma: prismaMock }));
+
+import { ollamaService, OllamaNode } from "../src/services/ollama";
+import { operatorActionMessage, OperatorActionType, performOperatorAction } from "../src/services/operatorActions";
+
+const operator = ethers.Wallet.createRandom();
+const stranger = ethers.Wallet.createRandom();
+const other = "0x00000000000000000000000000000000000000b2";
+
+const makeNode = (address: string, endpoint: string): OllamaNode => ({
+  address,
+  endpoint,
+  supportedModels: ["llama3.2"],
+  isHealthy: true,
+  lastHealthCheck: new Date(),
+  latencyMs: 100,
+  performanceScore: 90,
+  stakeWeight: 100,
+});
+
+let nonce = 0;
+async function sign(action: OperatorActionType, payload: unknown, opts: { wallet?: ethers.HDNodeWallet; issuedAt?: Date } = {}) {
+  const issuedAt = (opts.issuedAt ?? new Date()).toISOString();
+  const body = { payload, nonce: `test-nonce-${++nonce}`, issuedAt, signature: "" };
+  body.signature = await (opts.wallet ?? operator).signMessage(operatorActionMessage(action, operator.address, payload, body.nonce, issuedAt));
+  return body;
+}
+
+const errorOf = (promise: Promise<unknown>) => promise.then(() => null, (e) => ({ code: e.code, status: e.status }));
+
+describe("operator actions", () => {
+  beforeEach(() => {
+    prismaMock.actions.length = 0;
+    prismaMock.operators.length = 0;
+    prismaMock.operators.push({
+      operatorAddress: operator.address,
+      endpoint: "http://a.test",
+      supportedModels: ["llama3.2"],
+      performanceScore: 90,
+      isActive: true,
+      draining: false,
+      maintenanceStartsAt: null,
+      maintenanceEndsAt: null,
+      maintenanceReason: null,
+    });
+    ollamaService.updateOperators([makeNode(operator.address, "http://a.test"), makeNode(other, "http://b.test")]);
+    for (const node of ollamaService.getAllNodes()) node.isHealthy = true;
+    vi.spyOn(Math, "random").mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("drains a node and announces maintenance right away, accepting each signature once", async () => {
+    expect(ollamaService.selectNode("llama3.2")?.address).toBe(operator.address);
+
+    const drain = await sign("drain", { draining: true });
+    const node = await performOperatorAction(operator.address, "drain", drain);
+    expect(node).toMatchObject({ address: operator.address, draining: true });
+    expect(prismaMock.operators[0].draining).toBe(true);
+    expect(ollamaService.selectNode("llama3.2")?.address).toBe(other);
+
+    expect(await errorOf(performOperatorAction(operator.address, "drain", drain))).toEqual({ code: "nonce_reused", status: 409 });
+
+    await performOperatorAction(operator.address, "drain", await sign("drain", { draining: false }));
+    expect(ollamaService.selectNode("llama3.2")?.address).toBe(operator.address);
+
+    const startsAt = new Date(Date.now() - 60_000).toISOString();
+    const endsAt = new Date(Date.now() + 3_600_000).toISOString();
+    await performOperatorAction(operator.address, "maintenance", await sign("maintenance", { startsAt, endsAt, reason: "GPU swap" }));
+    const [node0] = ollamaService.getAllNodes();
+    expect(node0.maintenance).toEqual({ startsAt: new Date(startsAt), endsAt: new Date(endsAt), reason: "GPU swap" });
+    expect(ollamaService.selectNode("llama3.2")?.address).toBe(other);
+  });
+
+  it("rotates endpoints only to reachable nodes and rejects bad signatures", async () => {
+    const probe = vi.spyOn(ollamaService, "probeEndpoint").mockResolvedValue(false);
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(JSON.stringify({ models: [] }))));
+
+    expect(await errorOf(performOperatorAction(operator.address, "endpoint", await sign("endpoint", { endpoint: "http://new.test/" }))))
+      .toEqual({ code: "endpoint_unreachable", status: 422 });
+
+    probe.mockResolvedValue(true);
+    await performOperatorAction(operator.address, "endpoint", await sign("endpoint", { endpoint: "http://new.test/" }));
+    expect(probe).toHaveBeenLastCalledWith("http://new.test");
+    expect(ollamaService.getAllNodes().find((n) => n.address === operator.address)?.endpoint).toBe("http://new.test");
+    expect(prismaMock.operators[0].endpointAnnouncedAt).toBeInstanceOf(Date);
+
+    await performOperatorAction(operator.address, "models", await sign("models", { models: ["qwen2.5", "qwen2.5", " llama3.2 "] }));
+    expect(prismaMock.operators[0].supportedModels).toEqual(["qwen2.5", "llama3.2"]);
+
+    expect(await errorOf(performOperatorAction(operator.address, "drain", await sign("drain", { draining: true }, { wallet: stranger }))))
+      .toEqual({ code: "wallet_mismatch", status: 401 });
+    expect(await errorOf(performOperatorAction(operator.address, "drain", await sign("drain", { draining: true }, { issuedAt: new Date(Date.now() - 600_000) }))))
+      .toEqual({ code: "signature_expired", status: 401 });
+    expect(await errorOf(performOperatorAction(operator.address, "reboot", await sign("drain", {}))))
+      .toEqual({ code: "unknown_action", status: 404 });
+    expect(prismaMock.actions.map((a) => a.action)).toEqual(["endpoint", "models"]);
+  });
+});
@@ -0,0 +1,184 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ethers } from "ethers";
+
+const { prismaMock } = vi.hoisted(() => {
+  const logs: any[] = [];
+  const batches: any[] = [];
+  const logMatches = (log: any, where: any) =>
+    (where.synced === undefined || log.synced === where.synced) &&
+    (where.batchId === undefined || log.batchId === where.batchId) &&
+    (!where.id || where.id.in.includes(log.id)) &&
+    (!where.operatorAddress || log.operatorAddress !== null);
+  const batchMatches = (batch: any, where: any) =>
+    !where.status || (where.status.in ? where.status.in.includes(batch.status) : batch.status !== where.status.not);
+  const apply = (row: any, data: any) => {
+    for (const [key, value] of Object.entries<any>(data)) {
+      row[key] = value && typeof value === "object" && "increment" in value ? row[key] + value.increment : value;
+    }
+    return row;
+  };
+  return {
+    prismaMock: {
+      logs,
+      batches,
+      $transaction: vi.fn(async (ops: Promise<unknown>[]) => Promise.all(ops)),
+      ollamaRequestLog: {
+        findMany: vi.fn(async ({ where, take }: any) => logs.filter((l) => logMatches(l, where)).slice(0, take)),
+        count: vi.fn(async ({ where }: any) => logs.filter((l) => logMatches(l, where)).length),
+        updateMany: vi.fn(async ({ where, data }: any) => {
+          const rows = logs.filter((l) => logMatches(l, where));
+          rows.forEach((l) => Object.assign(l, data));
+          return { count: rows.length };
+        }),
+        groupBy: vi.fn(async ({ where }: any) => {
+          const groups = new Map<string, any>();
+          for (const l of logs.filter((l) => logMatches(l, where))) {
+            const key = `${l.operatorAddress}:${l.success}`;
+            const group = groups.get(key) || { operatorAddress: l.operatorAddress, success: l.success, _count: 0, _sum: { latencyMs: 0, inputTokens: 0, outputTokens: 0 } };
+            group._count++;
+            group._sum.latencyMs += l.latencyMs;
+            group._sum.inputTokens += l.inputTokens;
+            group._sum.outputTokens += l.outputTokens;
+            groups.set(key, group);
+          }
+          return [...groups.values()];
+        }),
+      },
+      requestSyncBatch: {
+        create: vi.fn(async ({ data }: any) => {
+          const row = { status: "pending", requestCount: 0, operatorCount: 0, txHash: null, txHashes: null, nonce: null, attempts: 0, createdAt: new Date(), ...data };
+          batches.push(row);
+          return row;
+        }),
+        update: vi.fn(async ({ where, data }: any) => apply(batches.find((b) => b.id === where.id), data)),
+        findFirst: vi.fn(async ({ where }: any) => batches.find((b) => batchMatches(b, where)) ?? null),
+        findUnique: vi.fn(async ({ where }: any) => batches.find((b) => b.id === where.id) ?? null),
+        findMany: vi.fn(async ({ where }: any) => batches.filter((b) => batchMatches(b, where))),
+      },
+    },
+  };
+});
+
+vi.mock("../src/prisma", () => ({ prisma: prismaMock }));
+
+import { subnetNodeService } from "../src/services/subnetNodes";
+import { getSyncBacklog, retryBatch } from "../src/services/requestSync";
+
+const chain = {
+  nonce: 0,
+  mode: "mine" as "mine" | "drop",
+  receipts: new Map<string, { status: number; blockNumber: number }>(),
+  mempool: new Set<string>(),
+  broadcasts: [] as { hash: string; nonce: number }[],
+};
+
+const provider = {
+  getTransactionReceipt: vi.fn(async (hash: string) => chain.receipts.get(hash) ?? null),
+  getTransactionCount: vi.fn(async () => chain.nonce),
+  getTransaction: vi.fn(async (hash: string) => (chain.mempool.has(hash) ? { hash } : null)),
+  broadcastTransaction: vi.fn(async (signed: string) => {
+    const tx = ethers.Transaction.from(signed);
+    chain.broadcasts.push({ hash: tx.hash!, nonce: tx.nonce });
+    if (chain.mode === "mine") {
+      chain.receipts.set(tx.hash!, { status: 1, blockNumber: 100 + chain.nonce });
+      chain.nonce++;
+    } else {
+      chain.mempool.add(tx.hash!);
+    }
+  }),
+  waitForTransaction: vi.fn(async (hash: string) => chain.receipts.get(hash) ?? null),
+};
+
+const wallet = new ethers.Wallet("0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d");
+const signer = Object.assign(wallet, {
+  populateTransaction: async (tx: any) => ({ to: tx.to, data: tx.data, nonce: tx.nonce ?? chain.nonce, chainId: 43113n, gasLimit: 500000n, gasPrice: 1n, type: 0 }),
+});
+
+const subnetRewards = {
+  currentEpoch: vi.fn(async () => 7n),
+  batchRecordRequests: {
+    populateTransaction: vi.fn(async (..._args: unknown[]) => ({ to: "0x0000000000000000000000000000000000000001", data: "0x1234" })),
+  },
+};
+
+function logRequest(operatorAddress: string, success: boolean, latencyMs: number, outputTokens = 0) {
+  prismaMock.logs.push({ id: prismaMock.logs.length + 1, operatorAddress, success, latencyMs, inputTokens: 10, outputTokens, synced: false, batchId: null });
+}
+
+describe("request sync batches", () => {
+  beforeEach(() => {
+    prismaMock.logs.length = 0;
+    prismaMock.batches.length = 0;
+    Object.assign(chain, { nonce: 0, mode: "mine", broadcasts: [] });
+    chain.receipts.clear();
+    chain.mempool.clear();
+    vi.clearAllMocks();
+    Object.assign(subnetNodeService as any, { initialized: true, provider, signer, subnetRewards });
+  });
+
+  it("derives batches from the request log and marks rows synced only once confirmed", async () => {
+    logRequest("0xb", true, 100, 40);
+    logRequest("0xa", true, 50, 90);
+    logRequest("0xa", false, 150);
+
+    await subnetNodeService.syncRequestsToChain();
+    // Only successful requests count towards tokens served
+    expect(subnetRewards.batchRecordRequests.populateTransaction).toHaveBeenCalledWith(["0xa", "0xb"], [2, 1], [1, 1], [200, 100], [100, 50]);
+    expect(prismaMock.batches).toEqual([
+      expect.objectContaining({ epoch: 7, status: "confirmed", requestCount: 3, operatorCount: 2, txHash: chain.broadcasts[0].hash }),
+    ]);
+    expect(prismaMock.logs.every((l) => l.synced && l.batchId === prismaMock.batches[0].id)).toBe(true);
+
+    // Nothing left: no new batch, no transaction
+    await subnetNodeService.syncRequestsToChain();
+    expect(chain.broadcasts).toHaveLength(1);
+  });
+
+  it("never resubmits a batch whose transaction already landed", async () => {
+    logRequest("0xa", true, 10);
+    // Broadcast succeeded but the process died before confirming it
+    chain.mode = "drop";
+    provider.waitForTransaction.mockRejectedValueOnce(new Error("timeout"));
+    await subnetNodeService.syncRequestsToChain();
+    const [batch] = prismaMock.batches;
+    expect(batch).toMatchObject({ status: "pending", attempts: 1, nonce: 0 });
+
+    // Still in the mempool: wait
+    await subnetNodeService.syncRequestsToChain();
+    expect(chain.broadcasts).toHaveLength(1);
+
+    // It lands while we are down; the next round only records it
+    chain.receipts.set(batch.txHash, { status: 1, blockNumber: 42 });
+    chain.nonce = 1;
+    await subnetNodeService.syncRequestsToChain();
+    expect(chain.broadcasts).toHaveLength(1);
+    expect(batch).toMatchObject({ status: "confirmed", blockNumber: 42 });
+    expect(prismaMock.logs[0].synced).toBe(true);
+  });
+
+  it("replaces dropped transactions with the same nonce and parks batches that keep failing", async () => {
+    logRequest("0xa", true, 10);
+    chain.mode = "drop";
+    await subnetNodeService.syncRequestsToChain();
+    const [batch] = prismaMock.batches;
+
+    // Dropped from the mempool, nonce unused: the replacement reuses it
+    chain.mempool.clear();
+    chain.mode = "mine";
+    await subnetNodeService.syncRequestsToChain();
+    expect(chain.broadcasts.map((b) => b.nonce)).toEqual([0, 0]);
+    expect(batch).toMatchObject({ status: "confirmed", txHashes: chain.broadcasts.map((b) => b.hash) });
+
+    logRequest("0xc", true, 10);
+    for (let i = 0; i < 5; i++) {
+      subnetRewards.batchRecordRequests.populateTransaction.mockRejectedValueOnce(new Error("rpc down"));
+      await subnetNodeService.syncRequestsToChain();
+    }
+    const failed = prismaMock.batches[1];
+    expect(failed).toMatchObject({ status: "failed", attempts: 5, lastError: "rpc down" });
+
+    const backlog = await getSyncBacklog();
+    expect(backlog).toMatchObject({ unbatchedRequests: 0, epochs: [{ epoch: 7, pending: 0, failed: 1, requests: 1 }] });
+    expect(await retryBatch(failed.id)).toMatchObject({ status: "pending", attempts: 0 });
+  });
+});
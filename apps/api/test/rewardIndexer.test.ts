@@ -0,0 +1,145 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ethers } from "ethers";
+
+const { prismaMock } = vi.hoisted(() => {
+  const epochs = new Map<number, any>();
+  const rewards = new Map<string, any>();
+  const cursors = new Map<string, any>();
+  const key = (w: any) => `${w.epoch_operatorAddress.epoch}:${w.epoch_operatorAddress.operatorAddress}`;
+  return {
+    prismaMock: {
+      epochs,
+      rewards,
+      cursors,
+      subnetEpoch: {
+        upsert: vi.fn(async ({ where, create, update }: any) => {
+          epochs.set(where.epoch, { ...(epochs.get(where.epoch) ?? create), ...update });
+        }),
+        findMany: vi.fn(async ({ where }: any) => where.epoch.in.map((e: number) => epochs.get(e)).filter(Boolean)),
+      },
+      operatorEpochReward: {
+        upsert: vi.fn(async ({ where, create, update }: any) => {
+          rewards.set(key(where), { claimedAmount: null, claimTxHash: null, claimedAt: null, ...(rewards.get(key(where)) ?? create), ...update });
+        }),
+        update: vi.fn(async ({ where, data }: any) => Object.assign(rewards.get(key(where)), data)),
+        findMany: vi.fn(async ({ where }: any) =>
+          [...rewards.values()].filter((r) => r.operatorAddress === where.operatorAddress).sort((a, b) => b.epoch - a.epoch)
+        ),
+      },
+      chainIndexCursor: {
+        findUnique: vi.fn(async ({ where }: any) => cursors.get(where.name) ?? null),
+        upsert: vi.fn(async ({ where, create, update }: any) => {
+          cursors.set(where.name, { ...(cursors.get(where.name) ?? create), ...update });
+        }),
+      },
+    },
+  };
+});
+
+vi.mock("../src/prisma", () => ({ prisma: prismaMock }));
+
+import { REWARD_HISTORY_ABI, rewardIndexer } from "../src/services/rewardIndexer";
+
+const iface = new ethers.Interface(REWARD_HISTORY_ABI);
+const CONTRACT = "0x00000000000000000000000000000000000000c1";
+const opA = ethers.getAddress("0x00000000000000000000000000000000000000a1");
+const opB = ethers.getAddress("0x00000000000000000000000000000000000000b1");
+
+// SubnetRewards state the fake contract answers from
+const chain = {
+  head: 0,
+  logs: [] as ethers.Log[],
+  epochs: new Map<number, any>(),
+  operatorEpochs: new Map<string, any>(),
+};
+
+function emit(blockNumber: number, name: string, args: unknown[]) {
+  const { topics, data } = iface.encodeEventLog(name, args);
+  chain.logs.push({ address: CONTRACT, topics, data, blockNumber, transactionHash: `0xtx${chain.logs.length}` } as any);
+  chain.head = Math.max(chain.head, blockNumber);
+}
+
+function record(blockNumber: number, epoch: number, operator: string, requests: number, tokens: number, weight: number) {
+  const e = chain.epochs.get(epoch) ?? { totalRequests: 0n, rewardsPool: 0n, finalized: false, totalTokens: 0n, totalWeightedTokens: 0n };
+  const op = chain.operatorEpochs.get(`${epoch}:${operator}`) ?? { requests: 0n, successfulRequests: 0n, claimed: false, tokens: 0n, weightedTokens: 0n };
+  op.requests += BigInt(requests);
+  op.successfulRequests += BigInt(requests);
+  op.tokens += BigInt(tokens);
+  op.weightedTokens += BigInt(tokens * weight);
+  e.totalRequests += BigInt(requests);
+  e.totalTokens += BigInt(tokens);
+  e.totalWeightedTokens += BigInt(tokens * weight);
+  chain.epochs.set(epoch, e);
+  chain.operatorEpochs.set(`${epoch}:${operator}`, op);
+  emit(blockNumber, "RequestsRecorded", [epoch, operator, requests, requests, 100, tokens]);
+}
+
+const contract = {
+  getAddress: async () => CONTRACT,
+  epochs: vi.fn(async (epoch: number) => chain.epochs.get(Number(epoch))),
+  operatorEpochs: vi.fn(async (epoch: number, operator: string) => chain.operatorEpochs.get(`${epoch}:${operator}`)),
+};
+const provider = {
+  getBlockNumber: async () => chain.head,
+  getBlock: async (n: number) => ({ timestamp: 1_700_000_000 + n }),
+  getLogs: vi.fn(async ({ fromBlock, toBlock }: any) => chain.logs.filter((l) => l.blockNumber >= fromBlock && l.blockNumber <= toBlock)),
+};
+
+describe("reward indexer", () => {
+  beforeEach(() => {
+    prismaMock.epochs.clear();
+    prismaMock.rewards.clear();
+    prismaMock.cursors.clear();
+    Object.assign(chain, { head: 0, logs: [], epochs: new Map(), operatorEpochs: new Map() });
+    rewardIndexer.attach(contract as any, provider as any);
+  });
+
+  it("builds per-epoch history with weighted share, reward and claimable epochs", async () => {
+    record(10, 1, opA, 5, 3000, 1);
+    record(11, 1, opB, 5, 1000, 1);
+    chain.epochs.get(1).finalized = true;
+    chain.epochs.get(1).rewardsPool = ethers.parseEther("4");
+    emit(12, "EpochFinalized", [1, 10, ethers.parseEther("4")]);
+    record(13, 2, opA, 2, 500, 1);
+
+    expect(await rewardIndexer.sync()).toBe(4);
+    // Nothing new: the cursor keeps the range from being read again
+    expect(await rewardIndexer.sync()).toBe(0);
+
+    const history = await rewardIndexer.getRewardHistory(opA.toLowerCase());
+    expect(history.indexedBlock).toBe(13);
+    expect(history.epochs).toMatchObject([
+      { epoch: 2, requests: 2, tokens: "500", sharePercent: "100.00", finalized: false, reward: null, status: "open" },
+      { epoch: 1, requests: 5, tokens: "3000", sharePercent: "75.00", finalized: true, reward: "3.0", status: "claimable" },
+    ]);
+    expect(history.claimableEpochs).toEqual([1]);
+    expect(history.unclaimedReward).toBe("3.0");
+
+    const claim = await rewardIndexer.prepareClaim(opA, [1, 2]);
+    expect(claim).toMatchObject({ epochs: [1], skipped: [2], reward: "3.0" });
+    expect(iface.decodeFunctionData("claimMultipleEpochs", claim.data)[0]).toEqual([1n]);
+  });
+
+  it("marks epochs claimed from RewardsClaimed and survives re-indexing a range", async () => {
+    record(10, 1, opA, 5, 2000, 1);
+    Object.assign(chain.epochs.get(1), { finalized: true, rewardsPool: ethers.parseEther("1") });
+    emit(11, "EpochFinalized", [1, 5, ethers.parseEther("1")]);
+    await rewardIndexer.sync();
+
+    chain.operatorEpochs.get(`1:${opA}`).claimed = true;
+    emit(20, "RewardsClaimed", [1, opA, ethers.parseEther("1")]);
+    await rewardIndexer.sync();
+
+    // Replaying every block must not double count
+    prismaMock.cursors.clear();
+    await rewardIndexer.sync();
+
+    const history = await rewardIndexer.getRewardHistory(opA);
+    expect(history.epochs).toMatchObject([
+      { epoch: 1, requests: 5, reward: "1.0", status: "claimed", claimTxHash: "0xtx2", claimedAt: new Date((1_700_000_000 + 20) * 1000) },
+    ]);
+    expect(history.claimedReward).toBe("1.0");
+    expect(history.claimableEpochs).toEqual([]);
+    expect((await rewardIndexer.prepareClaim(opA)).epochs).toEqual([]);
+  });
+});
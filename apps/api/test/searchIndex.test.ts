@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { prismaMock } = vi.hoisted(() => {
+  const tokens: { userId: number; messageId: number; token: string }[] = [];
+  const messages = new Map<number, any>();
+  return {
+    prismaMock: {
+      tokens,
+      messages,
+      $transaction: vi.fn(async (ops: Promise<unknown>[]) => Promise.all(ops)),
+      messageSearchToken: {
+        createMany: vi.fn(async ({ data }: any) => {
+          tokens.push(...data);
+          return { count: data.length };
+        }),
+        groupBy: vi.fn(async ({ where, having }: any) => {
+          const counts = new Map<number, number>();
+          for (const t of tokens) {
+            if (t.userId === where.userId && where.token.in.includes(t.token)) counts.set(t.messageId, (counts.get(t.messageId) || 0) + 1);
+          }
+          return [...counts]
+            .filter(([, n]) => n === having.messageId._count.equals)
+            .map(([messageId]) => ({ messageId }));
+        }),
+      },
+      message: {
+        update: vi.fn(async ({ where, data }: any) => Object.assign(messages.get(where.id), data)),
+        findMany: vi.fn(async ({ where }: any) => {
+          const rows = [...messages.values()];
+          if (where.searchIndexedAt === null) return rows.filter((m) => !m.searchIndexedAt && m.conversation.userId === where.conversation.userId);
+          return rows
+            .filter((m) => where.id.in.includes(m.id) && m.conversation.userId === where.conversation.userId)
+            .filter((m) => !where.modelUsed || m.modelUsed === where.modelUsed)
+            .filter((m) => where.attachmentType === undefined || m.attachmentType === where.attachmentType)
+            .sort((a, b) => b.createdAt - a.createdAt);
+        }),
+      },
+    },
+  };
+});
+
+vi.mock("../src/prisma", () => ({ prisma: prismaMock }));
+
+import { encryptionService } from "../src/services/encryption";
+import { blindToken, buildSnippet, indexMessage, searchMessages, tokenize } from "../src/services/searchIndex";
+
+function addMessage(id: number, userId: number, content: string, extra: Record<string, unknown> = {}) {
+  prismaMock.messages.set(id, {
+    id,
+    conversationId: `conv-${userId}`,
+    conversation: { id: `conv-${userId}`, title: encryptionService.encrypt(`Chat ${userId}`), userId },
+    role: "assistant",
+    content: encryptionService.encrypt(content),
+    modelUsed: "openai/gpt-4o",
+    attachmentType: null,
+    createdAt: new Date(2025, 0, id),
+    searchIndexedAt: null,
+    ...extra,
+  });
+}
+
+describe("search index", () => {
+  beforeEach(() => {
+    prismaMock.tokens.length = 0;
+    prismaMock.messages.clear();
+  });
+
+  it("tokenizes case- and accent-insensitively into per-user blind tokens", () => {
+    expect(tokenize("The Café serves CAFE con leche, see https://x.example/menu")).toEqual(["cafe", "serves", "leche", "see"]);
+    expect(blindToken(1, "cafe")).toMatch(/^[0-9a-f]{32}$/);
+    expect(blindToken(1, "cafe")).toBe(blindToken(1, "cafe"));
+    expect(blindToken(1, "cafe")).not.toBe(blindToken(2, "cafe"));
+  });
+
+  it("builds snippets around the first match", () => {
+    const text = `${"lorem ".repeat(40)}the Kubernetes operator ${"ipsum ".repeat(40)}`;
+    const snippet = buildSnippet(text, ["kubernetes"], 20);
+    expect(snippet).toContain("Kubernetes operator");
+    expect(snippet.startsWith("…")).toBe(true);
+    expect(snippet.endsWith("…")).toBe(true);
+  });
+
+  it("stores only blind tokens and finds messages containing every word", async () => {
+    addMessage(1, 7, "Deploy the Kubernetes operator with Helm");
+    addMessage(2, 7, "Kubernetes pods keep restarting", { modelUsed: "anthropic/claude-3.5-sonnet" });
+    addMessage(3, 8, "Kubernetes operator for someone else");
+    await indexMessage(7, 1, "Deploy the Kubernetes operator with Helm");
+
+    expect(prismaMock.tokens.every((t) => /^[0-9a-f]{32}$/.test(t.token))).toBe(true);
+    expect(prismaMock.messages.get(1).searchIndexedAt).toBeInstanceOf(Date);
+
+    // Message 2 is caught up by the backfill; user 8's message never shows up
+    const hits = await searchMessages(7, "kubernetes OPERATOR");
+    expect(hits.map((h) => h.messageId)).toEqual([1]);
+    expect(hits[0]).toMatchObject({ conversationTitle: "Chat 7", snippet: "Deploy the Kubernetes operator with Helm" });
+    expect(prismaMock.messages.get(2).searchIndexedAt).toBeInstanceOf(Date);
+
+    expect((await searchMessages(7, "kubernetes")).map((h) => h.messageId)).toEqual([2, 1]);
+    expect((await searchMessages(7, "kubernetes", { model: "anthropic/claude-3.5-sonnet" })).map((h) => h.messageId)).toEqual([2]);
+    expect(await searchMessages(7, "the")).toEqual([]);
+  });
+});
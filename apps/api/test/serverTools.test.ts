@@ -0,0 +1,82 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("../src/prisma", () => ({ prisma: {} }));
+import { evaluateExpression, executeToolCall, readTextCapped, resolveToolDefinitions } from "../src/services/serverTools";
+
+const context = { user: { id: 1 } };
+
+describe("server tools", () => {
+  it("evaluates arithmetic without eval", () => {
+    expect(evaluateExpression("2 + 3 * 4")).toBe(14);
+    expect(evaluateExpression("(2 + 3) * 4")).toBe(20);
+    expect(evaluateExpression("2 ^ 3 ^ 2")).toBe(512);
+    expect(evaluateExpression("-sqrt(16) + abs(-2)")).toBe(-2);
+    expect(() => evaluateExpression("process.exit(1)")).toThrow();
+    expect(() => evaluateExpression("1 / 0")).toThrow();
+  });
+
+  it("fills in server tool definitions and passes client functions through", () => {
+    const clientTool = { type: "function", function: { name: "get_weather", parameters: { type: "object" } } };
+    const { definitions, serverToolNames } = resolveToolDefinitions(["calculator", clientTool, { type: "function", function: { name: "web_fetch" } }]);
+
+    expect(serverToolNames).toEqual(["calculator", "web_fetch"]);
+    expect(definitions.map((d) => d.function.name)).toEqual(["calculator", "get_weather", "web_fetch"]);
+    expect(definitions[2].function.parameters).toMatchObject({ required: ["url"] });
+  });
+
+  it("returns tool failures to the model instead of throwing", async () => {
+    const badJson = await executeToolCall("calculator", "{nope", context);
+    expect(badJson.error).toBe("invalid_arguments");
+
+    const failed = await executeToolCall("calculator", JSON.stringify({ expression: "2 +" }), context);
+    expect(failed.error).toBe("tool_failed");
+
+    const ok = await executeToolCall("calculator", JSON.stringify({ expression: "6 * 7" }), context);
+    expect(ok).toEqual({ content: "42" });
+  });
+
+  it("refuses to fetch private addresses, however they are written or resolved", async () => {
+    const hits: string[] = [];
+    const server = http.createServer((req, res) => {
+      hits.push(req.url || "");
+      res.end("internal");
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      for (const url of [
+        `http://127.0.0.1:${port}/admin`,
+        `http://[::ffff:127.0.0.1]:${port}/`, // Serialized by URL as ::ffff:7f00:1
+        `http://[::ffff:7f00:1]:${port}/`,
+        `http://[64:ff9b::7f00:1]:${port}/`, // NAT64
+        "http://[::1]/",
+        "http://169.254.169.254/latest/meta-data",
+        "file:///etc/passwd",
+        // Hostnames are checked on the address the connection actually uses
+        `http://localhost:${port}/rebound`,
+      ]) {
+        const result = await executeToolCall("web_fetch", JSON.stringify({ url }), context);
+        expect(result.error, url).toBe("tool_failed");
+      }
+      expect(hits).toEqual([]);
+    } finally {
+      server.close();
+    }
+  });
+
+  it("stops reading fetched bodies past the byte cap", async () => {
+    let pulled = 0;
+    const endless = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulled++;
+        controller.enqueue(new TextEncoder().encode("x".repeat(1024)));
+      },
+    });
+    const text = await readTextCapped(endless, 4000);
+    expect(text).toBe("x".repeat(4000));
+    expect(pulled).toBeLessThan(10);
+  });
+});
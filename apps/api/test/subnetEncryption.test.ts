@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ollamaService, OllamaNode } from "../src/services/ollama";
+import {
+  ENCRYPTED_CHAT_PATH,
+  generateEncryptionKeyPair,
+  openRequest,
+  openResponseFrame,
+  sealRequest,
+  sealResponseFrame,
+} from "../src/services/subnetEncryption";
+
+const keys = generateEncryptionKeyPair();
+
+const makeNode = (address: string, encryptionKey: string | null): OllamaNode => ({
+  address,
+  endpoint: `http://${address}.test`,
+  supportedModels: ["llama3.2"],
+  encryptionKey,
+  isHealthy: true,
+  lastHealthCheck: new Date(),
+  latencyMs: 100,
+  performanceScore: 90,
+  stakeWeight: 100,
+});
+
+describe("subnet encryption", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("seals requests to the node key and rejects tampered or reordered frames", () => {
+    const body = { model: "llama3.2", messages: [{ role: "user", content: "secret" }] };
+    const { envelope, responseKey } = sealRequest(keys.publicKey, body);
+    expect(JSON.stringify(envelope)).not.toContain("secret");
+
+    const opened = openRequest(keys.privateKey, envelope);
+    expect(opened.body).toEqual(body);
+    expect(opened.responseKey.equals(responseKey)).toBe(true);
+
+    // Another node's key cannot open it
+    expect(() => openRequest(generateEncryptionKeyPair().privateKey, envelope)).toThrow();
+
+    const frames = ["first", "second"].map((line, seq) => sealResponseFrame(responseKey, seq, line));
+    expect(openResponseFrame(responseKey, frames[1], 1)).toBe("second");
+    expect(() => openResponseFrame(responseKey, frames[1], 0)).toThrow();
+    const flipped = Buffer.from(frames[0].ct, "base64");
+    flipped[0] ^= 1;
+    expect(() => openResponseFrame(responseKey, { ...frames[0], ct: flipped.toString("base64") }, 0)).toThrow();
+  });
+
+  it("routes encrypted chats only to nodes with a key and decrypts their stream", async () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    ollamaService.updateOperators([makeNode("0xa", null), makeNode("0xb", keys.publicKey)]);
+    for (const node of ollamaService.getAllNodes()) node.isHealthy = true;
+
+    const requests: { url: string; body: string }[] = [];
+    vi.stubGlobal("fetch", vi.fn(async (url: string, init: { body: string }) => {
+      requests.push({ url, body: init.body });
+      const { body, responseKey } = openRequest(keys.privateKey, JSON.parse(init.body));
+      const lines = [
+        { message: { content: `echo: ${body.messages[0].content}` } },
+        { done: true, eval_count: 3, prompt_eval_count: 5 },
+      ];
+      const frames = lines.map((line, seq) => JSON.stringify(sealResponseFrame(responseKey, seq, JSON.stringify(line))) + "\n");
+      return new Response(frames.join(""));
+    }));
+
+    expect(ollamaService.isModelAvailable("llama3.2", true)).toBe(true);
+    expect(ollamaService.selectNode("llama3.2", undefined, true)?.address).toBe("0xb");
+
+    const chunks = [];
+    for await (const chunk of ollamaService.failoverChat("llama3.2", [{ role: "user", content: "private prompt" }], { encrypted: true })) {
+      chunks.push(chunk);
+    }
+    expect(chunks.find((c) => c.servedBy)?.servedBy?.address).toBe("0xb");
+    expect(chunks.map((c) => c.content).join("")).toBe("echo: private prompt");
+    expect(chunks.find((c) => c.done)).toMatchObject({ evalCount: 3, promptEvalCount: 5 });
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe(`http://0xb.test${ENCRYPTED_CHAT_PATH}`);
+    expect(requests[0].body).not.toContain("private prompt");
+  });
+});
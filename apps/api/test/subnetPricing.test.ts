@@ -0,0 +1,64 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { prismaMock } = vi.hoisted(() => {
+  const prices: any[] = [];
+  return {
+    prismaMock: {
+      prices,
+      subnetModelPrice: {
+        findMany: vi.fn(async ({ where }: any) => prices.filter((p) => where.model.in.includes(p.model))),
+        upsert: vi.fn(async ({ where, update, create }: any) => {
+          const key = where.model_operatorAddress;
+          const existing = prices.find((p) => p.model === key.model && p.operatorAddress === key.operatorAddress);
+          if (existing) return Object.assign(existing, update);
+          const row = { id: prices.length + 1, ...create };
+          prices.push(row);
+          return row;
+        }),
+      },
+    },
+  };
+});
+
+vi.mock("../src/prisma", () => ({ prisma: prismaMock }));
+
+import { computeCharge, NETWORK_PRICE, priceCeiling, resolvePrice, setPrice } from "../src/services/subnetPricing";
+
+describe("subnet pricing", () => {
+  beforeEach(() => {
+    prismaMock.prices.length = 0;
+  });
+
+  it("prices the exact tag before the family and caps operator prices at the network price", async () => {
+    expect(await resolvePrice("llama3.2:1b", "0xA")).toEqual({ promptPerMTok: 0, completionPerMTok: 0, source: "free" });
+    // Nothing to cap an operator price at yet
+    await expect(setPrice("llama3.2", "0xB", 1000, 1000, "0xB")).rejects.toMatchObject({ code: "network_price_required", status: 409 });
+
+    await setPrice("ollama/llama3.2", NETWORK_PRICE, 0.2, 0.4, "0xadmin");
+    await setPrice("llama3.2:1b@aaaa1111", NETWORK_PRICE, 0.1, 0.2, "0xadmin");
+    await setPrice("llama3.2", "0xB", 1, 0.3, "0xB");
+    await expect(setPrice("llama3.2", "0xB", -1, 0, "0xB")).rejects.toMatchObject({ code: "invalid_price", status: 400 });
+
+    expect(await resolvePrice("llama3.2:3b", "0xA")).toMatchObject({ promptPerMTok: 0.2, completionPerMTok: 0.4, source: "network" });
+    expect(await resolvePrice("llama3.2:1b", "0xA")).toMatchObject({ promptPerMTok: 0.1, completionPerMTok: 0.2, source: "network" });
+    // Operators can undercut the network price, not exceed it
+    expect(await resolvePrice("llama3.2:3b", "0xB")).toMatchObject({ promptPerMTok: 0.2, completionPerMTok: 0.3, source: "operator" });
+
+    // An operator price left behind once the network price is gone is not charged
+    prismaMock.prices.push({ id: 99, model: "phi3", operatorAddress: "0xb", promptPricePerMTok: 50, completionPricePerMTok: 50 });
+    expect(await resolvePrice("phi3", "0xB")).toMatchObject({ source: "free" });
+
+    // Holds cover the most expensive candidate node
+    const ceiling = await priceCeiling("llama3.2", [
+      { operatorAddress: "0xA", model: "llama3.2:1b" },
+      { operatorAddress: "0xB", model: "llama3.2:3b" },
+    ]);
+    expect(ceiling).toMatchObject({ promptPerMTok: 0.2, completionPerMTok: 0.3 });
+  });
+
+  it("splits each charge between the operator and the protocol", () => {
+    const charge = computeCharge({ promptPerMTok: 0.2, completionPerMTok: 0.4, source: "network" }, 1500, 2500);
+    expect(charge).toMatchObject({ costUSD: 0.0013, operatorShareUSD: 0.00104, protocolShareUSD: 0.00026 });
+    expect(computeCharge({ promptPerMTok: 0, completionPerMTok: 0, source: "free" }, 1500, 2500).costUSD).toBe(0);
+  });
+});
@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { prismaMock } = vi.hoisted(() => {
+  const rows: any[] = [];
+  const inWindow = (where: any) => (r: any) =>
+    r.operatorAddress === where.operatorAddress &&
+    r.checkedAt >= where.checkedAt.gte &&
+    (!where.checkedAt.lt || r.checkedAt < where.checkedAt.lt);
+  return {
+    prismaMock: {
+      rows,
+      operatorUptimeCheck: {
+        createMany: vi.fn(async ({ data }: any) => {
+          rows.push(...data);
+          return { count: data.length };
+        }),
+        groupBy: vi.fn(async ({ where }: any) => {
+          const matching = rows.filter(inWindow(where));
+          return [true, false]
+            .map((passed) => ({ passed, _count: matching.filter((r) => r.passed === passed).length }))
+            .filter((g) => g._count > 0);
+        }),
+        findMany: vi.fn(async ({ where, take }: any) =>
+          rows
+            .filter((r) => r.operatorAddress === where.operatorAddress)
+            .sort((a, b) => b.checkedAt - a.checkedAt)
+            .slice(0, take)
+        ),
+      },
+    },
+  };
+});
+
+vi.mock("../src/prisma", () => ({ prisma: prismaMock }));
+
+import { getUptimeHistory, recordProbes, tallyUptime } from "../src/services/uptime";
+
+const HOUR = 60 * 60 * 1000;
+const probe = (address: string, passed: boolean, hoursAgo: number) => ({
+  address,
+  passed,
+  latencyMs: passed ? 120 : null,
+  error: passed ? null : "x".repeat(300),
+  checkedAt: new Date(Date.now() - hoursAgo * HOUR),
+});
+
+describe("operator uptime", () => {
+  beforeEach(() => {
+    prismaMock.rows.length = 0;
+  });
+
+  it("tallies probes into one batch per operator", () => {
+    expect(
+      tallyUptime([
+        { operatorAddress: "0xa", passed: true },
+        { operatorAddress: "0xb", passed: false },
+        { operatorAddress: "0xa", passed: false },
+        { operatorAddress: "0xa", passed: true },
+      ])
+    ).toEqual([
+      { address: "0xa", passed: 2, total: 3 },
+      { address: "0xb", passed: 0, total: 1 },
+    ]);
+  });
+
+  it("persists probes and reports uptime per window and day", async () => {
+    await recordProbes([probe("0xa", true, 1), probe("0xa", false, 2), probe("0xb", false, 1)]);
+    await recordProbes([probe("0xa", true, 30), probe("0xa", true, 200)]);
+    expect(prismaMock.rows[1].error).toHaveLength(255);
+    expect(await recordProbes([])).toBe(0);
+
+    const history = await getUptimeHistory("0xa");
+    expect(history.uptime24h).toEqual({ checks: 2, passed: 1, uptimePercent: "50.0" });
+    expect(history.uptime7d).toEqual({ checks: 3, passed: 2, uptimePercent: "66.7" });
+    expect(history.daily).toHaveLength(7);
+    expect(history.daily.reduce((sum, d) => sum + d.checks, 0)).toBe(3);
+    expect(history.daily[6].date).toBe(new Date().toISOString().slice(0, 10));
+    expect(history.recentChecks.map((c) => c.passed)).toEqual([true, false, true, true]);
+  });
+});
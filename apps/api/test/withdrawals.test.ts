@@ -0,0 +1,119 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const { fixtures, prismaMock, vaultMock, ledgerMock } = vi.hoisted(() => {
+  const rows = new Map<string, any>();
+  const fixtures = { depositedUSD: 0, availableUSD: 0 };
+  return {
+    fixtures,
+    prismaMock: {
+      rows,
+      vaultDeposit: { aggregate: vi.fn(async () => ({ _sum: { amountUSD: fixtures.depositedUSD } })) },
+      vaultWithdrawal: {
+        aggregate: vi.fn(async ({ where }: any) => ({
+          _sum: {
+            amountUSD: [...rows.values()]
+              .filter((r) => where.status.in.includes(r.status))
+              .reduce((sum, r) => sum + Number(r.amountUSD), 0),
+          },
+        })),
+        findFirst: vi.fn(async ({ where }: any) =>
+          [...rows.values()].find((r) => r.walletAddress === where.walletAddress && (!where.status || r.status === where.status) && (!where.id || r.id === where.id)) ?? null
+        ),
+        findMany: vi.fn(async ({ where }: any) =>
+          [...rows.values()].filter((r) => r.walletAddress === where.walletAddress && (!where.status || r.status === where.status))
+        ),
+        create: vi.fn(async ({ data }: any) => {
+          const row = { status: "pending", txHash: null, completedAt: null, createdAt: new Date(), ...data };
+          rows.set(row.id, row);
+          return row;
+        }),
+        update: vi.fn(async ({ where, data }: any) => Object.assign(rows.get(where.id), data)),
+      },
+    },
+    vaultMock: {
+      isEnabled: vi.fn(() => true),
+      canSign: vi.fn(() => true),
+      getNonce: vi.fn(async () => 0),
+      getBlockNumber: vi.fn(async () => 1000),
+      getContractBalance: vi.fn(async () => "100"),
+      signWithdrawalPermit: vi.fn(async (_user: string, amount: string, ttl: number) => ({
+        signature: "0xsig",
+        amount,
+        deadline: Math.floor(Date.now() / 1000) + ttl,
+        nonce: 0,
+      })),
+      verifyWithdrawalByTxHash: vi.fn(),
+      findWithdrawalEvent: vi.fn(async () => null),
+    },
+    ledgerMock: {
+      getBalance: vi.fn(async () => ({ availableUSD: fixtures.availableUSD, heldUSD: 0 })),
+      lockWithdrawal: vi.fn(async () => {}),
+      completeWithdrawal: vi.fn(async () => {}),
+      release: vi.fn(async () => {}),
+    },
+  };
+});
+
+vi.mock("../src/prisma", () => ({ prisma: prismaMock }));
+vi.mock("../src/services/vault", () => ({ vaultService: vaultMock }));
+vi.mock("../src/services/ledger", () => ({ ledgerService: ledgerMock }));
+vi.mock("../src/services/billing", () => ({ billingService: { getNativeTokenPrice: async () => 25 } }));
+
+import { withdrawalService, WithdrawalError } from "../src/services/withdrawals";
+
+const WALLET = "0xAbC";
+
+describe("vault withdrawals", () => {
+  beforeEach(() => {
+    prismaMock.rows.clear();
+    fixtures.depositedUSD = 20;
+    fixtures.availableUSD = 12.345;
+    vaultMock.getNonce.mockResolvedValue(0);
+    vi.clearAllMocks();
+  });
+
+  it("caps withdrawals at deposited credits and locks the amount behind a permit", async () => {
+    fixtures.depositedUSD = 8;
+    expect(await withdrawalService.getWithdrawable(WALLET)).toEqual({ availableUSD: 12.345, withdrawableUSD: 8 });
+
+    const withdrawal = await withdrawalService.request(WALLET);
+    expect(withdrawal).toMatchObject({ amountUSD: "8.00", amountAVAX: "0.32", status: "pending" });
+    expect(withdrawal.permit).toMatchObject({ amount: "320000000000000000", nonce: 0, signature: "0xsig" });
+    expect(ledgerMock.lockWithdrawal).toHaveBeenCalledWith("0xabc", withdrawal.id, 8, expect.any(Date));
+
+    // One outstanding permit per wallet; the pending one is handed back
+    const second = await withdrawalService.request(WALLET, 2).catch((e) => e);
+    expect(second).toBeInstanceOf(WithdrawalError);
+    expect(second).toMatchObject({ code: "withdrawal_pending", status: 409, withdrawal: { id: withdrawal.id } });
+    await expect(withdrawalService.request("0xother", 0.5)).rejects.toMatchObject({ code: "amount_too_small" });
+  });
+
+  it("confirms from the Withdrawn event only when it matches the permit", async () => {
+    const withdrawal = await withdrawalService.request(WALLET, 5);
+    const event = { user: "0xabc", amount: "200000000000000000", nonce: 0, timestamp: 1, txHash: "0xtx", blockNumber: 1001 };
+
+    vaultMock.verifyWithdrawalByTxHash.mockResolvedValueOnce({ ...event, nonce: 3 });
+    await expect(withdrawalService.confirm(WALLET, withdrawal.id, "0xtx")).rejects.toMatchObject({ code: "withdrawal_mismatch" });
+
+    vaultMock.verifyWithdrawalByTxHash.mockResolvedValueOnce(event);
+    const confirmed = await withdrawalService.confirm(WALLET, withdrawal.id, "0xtx");
+    expect(confirmed).toMatchObject({ status: "completed", txHash: "0xtx" });
+    expect(confirmed.permit).toBeUndefined();
+    expect(ledgerMock.completeWithdrawal).toHaveBeenCalledWith(withdrawal.id, "0xtx");
+  });
+
+  it("reconciles pending permits against the vault nonce", async () => {
+    const used = await withdrawalService.request(WALLET, 5);
+    vaultMock.getNonce.mockResolvedValue(1);
+    const [completed] = await withdrawalService.list(WALLET);
+    expect(completed).toMatchObject({ id: used.id, status: "completed" });
+    expect(ledgerMock.completeWithdrawal).toHaveBeenCalledWith(used.id, null);
+
+    // Nonce not consumed and the deadline long gone: the permit can never be used
+    vaultMock.signWithdrawalPermit.mockResolvedValueOnce({ signature: "0xsig2", amount: "1", deadline: Math.floor(Date.now() / 1000) - 3600, nonce: 1 });
+    const stale = await withdrawalService.request(WALLET, 2);
+    await withdrawalService.reconcile(WALLET);
+    expect(prismaMock.rows.get(stale.id).status).toBe("expired");
+    expect(ledgerMock.release).toHaveBeenCalledWith(stale.id, "permit_expired");
+  });
+});
@@ -28,7 +28,12 @@ describe('x402 Agent API', () => {
 
   it('should return 200 OK and AI response when valid X-PAYMENT header is provided', async () => {
     // Mock the AI response
-    (openrouterService.chatCompletion as any).mockResolvedValue("I am a real AI response.");
+    (openrouterService.chatCompletion as any).mockResolvedValue({
+      content: "I am a real AI response.",
+      usage: null,
+      finishReason: "stop",
+      generationId: null
+    });
 
     // 1. Get the requirements (simulating first failed request)
     // We know the requirements from the previous test/code, so we can skip the network call for speed
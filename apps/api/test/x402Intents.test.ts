@@ -0,0 +1,174 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import express from "express";
+import request from "supertest";
+import { ethers } from "ethers";
+
+const { prismaMock } = vi.hoisted(() => {
+  delete process.env.PRIVATE_KEY;
+  const intents = new Map<string, any>();
+  const payments: any[] = [];
+  const findIntent = (where: any) =>
+    [...intents.values()].find((i) => Object.entries(where).every(([key, value]) => i[key] === value)) ?? null;
+  return {
+    prismaMock: {
+      intents,
+      payments,
+      x402PaymentIntent: {
+        create: vi.fn(async ({ data }: any) => {
+          const row = { status: "open", txHash: null, ...data };
+          intents.set(row.id, row);
+          return row;
+        }),
+        findUnique: vi.fn(async ({ where }: any) => findIntent(where)),
+        updateMany: vi.fn(async ({ where, data }: any) => {
+          const row = findIntent(where);
+          if (!row) return { count: 0 };
+          Object.assign(row, data);
+          return { count: 1 };
+        }),
+        deleteMany: vi.fn(async ({ where }: any) => {
+          const stale = [...intents.values()].filter((i) => i.status === where.status && i.expiresAt < where.expiresAt.lt);
+          stale.forEach((i) => intents.delete(i.id));
+          return { count: stale.length };
+        }),
+      },
+      x402Payment: {
+        create: vi.fn(async ({ data }: any) => {
+          payments.push({ id: payments.length + 1, ...data });
+          return payments[payments.length - 1];
+        }),
+        findUnique: vi.fn(async ({ where }: any) => payments.find((p) => p.txHash === where.txHash) ?? null),
+      },
+    },
+  };
+});
+
+vi.mock("../src/prisma", () => ({ prisma: prismaMock }));
+
+import { x402Middleware } from "../src/middleware/x402";
+import { pruneExpiredIntents } from "../src/services/x402Intents";
+
+const app = express();
+app.use(express.json());
+app.get("/paid", x402Middleware({ price: "0.01", resourceId: "/paid", description: "Paid" }), (req, res) => {
+  res.json({ ok: true, payer: (req as any).x402.payer });
+});
+app.get("/other", x402Middleware({ price: "0.01", resourceId: "/other", description: "Other" }), (_req, res) => {
+  res.json({ ok: true });
+});
+
+const MERCHANT = "0x209F0baCA0c23edc57881B26B68FC4148123B039";
+const payer = ethers.Wallet.createRandom().address;
+const paymentHeader = (body: object) => Buffer.from(JSON.stringify(body)).toString("base64");
+
+// The chain, as the middleware's provider sees it
+const chain = new Map<string, { tx: any; minedAt: number }>();
+function mine(fields: { data: string; value: string; from?: string; ageSeconds?: number }) {
+  const hash = ethers.hexlify(ethers.randomBytes(32));
+  const blockNumber = chain.size + 1;
+  const tx = {
+    hash,
+    to: MERCHANT,
+    from: fields.from ?? payer,
+    value: BigInt(fields.value),
+    data: fields.data,
+    wait: async () => ({ status: 1, blockNumber }),
+  };
+  chain.set(hash, { tx, minedAt: Math.floor(Date.now() / 1000) - (fields.ageSeconds ?? 5) });
+  return hash;
+}
+
+const pay = (path: string, txHash: string, from = payer) =>
+  request(app)
+    .get(path)
+    .set("X-PAYMENT", paymentHeader({ x402Version: 1, scheme: "x402-native", network: "avalanche", payload: { txHash, from } }));
+
+async function nativeOption() {
+  const challenge = await request(app).get("/paid");
+  return challenge.body.accepts.find((a: any) => a.scheme === "x402-native");
+}
+
+describe("x402 native payment intents", () => {
+  beforeEach(() => {
+    prismaMock.intents.clear();
+    prismaMock.payments.length = 0;
+    chain.clear();
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(JSON.stringify({ "avalanche-2": { usd: 20 } }))));
+    vi.spyOn(ethers.JsonRpcProvider.prototype, "getTransaction").mockImplementation(async (hash: any) => chain.get(hash)?.tx ?? null);
+    vi.spyOn(ethers.JsonRpcProvider.prototype, "getBlock").mockImplementation(async (number: any) => {
+      const mined = [...chain.values()].find((_entry, i) => i + 1 === number);
+      return { timestamp: mined?.minedAt } as any;
+    });
+  });
+
+  it("accepts a transfer carrying the challenge's intent, once", async () => {
+    const option = await nativeOption();
+    // $0.01 at $20/AVAX, plus the 5% buffer
+    expect(option).toMatchObject({ maxAmountRequired: "525000000000000", extra: { amount: "0.000525" } });
+    expect(option.extra.nonce).toMatch(/^0x[0-9a-f]{64}$/);
+
+    const txHash = mine({ data: option.extra.nonce, value: option.maxAmountRequired });
+    const paid = await pay("/paid", txHash);
+    expect(paid.status).toBe(200);
+    expect(paid.body.payer).toBe(payer);
+    expect(prismaMock.intents.get(option.extra.intentId)).toMatchObject({ status: "paid", txHash, payer, network: "avalanche" });
+
+    // Replayed, for this or any other request, before the chain is even asked
+    const lookups = vi.mocked(ethers.JsonRpcProvider.prototype.getTransaction).mock.calls.length;
+    const replayed = await pay("/paid", txHash);
+    expect(replayed.status).toBe(402);
+    expect(replayed.body.errorCode).toBe("tx_already_used");
+    expect((await pay("/other", txHash)).body.errorCode).toBe("tx_already_used");
+    expect(vi.mocked(ethers.JsonRpcProvider.prototype.getTransaction).mock.calls.length).toBe(lookups);
+    expect(prismaMock.payments.map((p) => [p.status, p.errorMessage?.split(":")[0]])).toEqual([
+      ["success", undefined],
+      ["failed", "tx_already_used"],
+      ["failed", "tx_already_used"],
+    ]);
+  });
+
+  it("refuses transfers without a matching, fresh intent and logs why", async () => {
+    const option = await nativeOption();
+    const { nonce } = option.extra;
+    const value = option.maxAmountRequired;
+
+    const cases: [string, string, string?][] = [
+      ["/paid", mine({ data: "0x", value })],
+      ["/paid", mine({ data: nonce, value, ageSeconds: 601 })],
+      ["/paid", mine({ data: nonce, value: "1000" })],
+      ["/paid", mine({ data: nonce, value }), ethers.Wallet.createRandom().address],
+      ["/other", mine({ data: nonce, value })],
+      ["/paid", mine({ data: ethers.hexlify(ethers.randomBytes(32)), value })],
+    ];
+    const codes: string[] = [];
+    for (const [path, txHash, from] of cases) {
+      const res = await pay(path, txHash, from);
+      expect(res.status).toBe(402);
+      codes.push(res.body.errorCode);
+    }
+    expect(codes).toEqual([
+      "intent_required",
+      "tx_stale",
+      "insufficient_amount",
+      "payer_mismatch",
+      "intent_mismatch",
+      "intent_not_found",
+    ]);
+    expect(prismaMock.payments.map((p) => p.errorMessage.split(":")[0])).toEqual(codes);
+
+    // None of them spent the intent
+    expect(prismaMock.intents.get(option.extra.intentId).status).toBe("open");
+    expect((await pay("/paid", mine({ data: nonce, value }))).status).toBe(200);
+  });
+
+  it("prunes intents that expired unpaid, keeping paid ones", async () => {
+    const option = await nativeOption();
+    expect((await pay("/paid", mine({ data: option.extra.nonce, value: option.maxAmountRequired }))).status).toBe(200);
+    const unpaid = (await nativeOption()).extra.intentId;
+    for (const intent of prismaMock.intents.values()) intent.expiresAt = new Date(Date.now() - 2 * 3600_000);
+
+    expect(await pruneExpiredIntents()).toBe(1);
+    expect(prismaMock.intents.has(unpaid)).toBe(false);
+    expect(prismaMock.intents.get(option.extra.intentId).status).toBe("paid");
+  });
+});
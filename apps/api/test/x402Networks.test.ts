@@ -0,0 +1,124 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import express from "express";
+import request from "supertest";
+import { ethers } from "ethers";
+
+const { prismaMock } = vi.hoisted(() => {
+  process.env.X402_NETWORKS = "avalanche,avalanche-fuji";
+  // A throwaway wallet: every payment here is refused before it reaches an RPC
+  process.env.PRIVATE_KEY = "0x" + "11".repeat(32);
+  const payments: any[] = [];
+  return {
+    prismaMock: {
+      payments,
+      x402PaymentIntent: {
+        create: vi.fn(async ({ data }: any) => data),
+      },
+      x402Payment: {
+        create: vi.fn(async ({ data }: any) => payments.push(data)),
+      },
+    },
+  };
+});
+
+vi.mock("../src/prisma", () => ({ prisma: prismaMock }));
+
+import { x402Middleware } from "../src/middleware/x402";
+
+const app = express();
+app.use(express.json());
+app.get("/paid", x402Middleware({ price: "0.01", resourceId: "/paid", description: "Paid" }), (_req, res) => {
+  res.json({ ok: true });
+});
+
+const payer = ethers.Wallet.createRandom();
+const paymentHeader = (body: object) => Buffer.from(JSON.stringify(body)).toString("base64");
+
+async function signAuthorization(requirement: any, wallet: ethers.HDNodeWallet = payer) {
+  const now = Math.floor(Date.now() / 1000);
+  const authorization = {
+    from: wallet.address,
+    to: requirement.payTo,
+    value: requirement.maxAmountRequired,
+    validAfter: String(now - 60),
+    validBefore: String(now + 600),
+    nonce: ethers.hexlify(ethers.randomBytes(32)),
+  };
+  const signature = await wallet.signTypedData(
+    {
+      name: requirement.extra.name,
+      version: requirement.extra.version,
+      chainId: requirement.extra.chainId,
+      verifyingContract: requirement.asset,
+    },
+    {
+      TransferWithAuthorization: [
+        { name: "from", type: "address" },
+        { name: "to", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "validAfter", type: "uint256" },
+        { name: "validBefore", type: "uint256" },
+        { name: "nonce", type: "bytes32" },
+      ],
+    },
+    authorization
+  );
+  return { authorization, signature };
+}
+
+describe("x402 networks", () => {
+  beforeEach(() => {
+    prismaMock.payments.length = 0;
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(JSON.stringify({ "avalanche-2": { usd: 20 } }))));
+  });
+
+  it("offers a spec `exact` requirement on every enabled network", async () => {
+    const challenge = await request(app).get("/paid");
+
+    expect(challenge.status).toBe(402);
+    expect(challenge.body.x402Version).toBe(1);
+    const exact = challenge.body.accepts.filter((a: any) => a.scheme === "exact");
+    expect(exact.map((a: any) => [a.network, a.extra.chainId])).toEqual([["avalanche", 43114], ["avalanche-fuji", 43113]]);
+    expect(exact[1]).toMatchObject({
+      maxAmountRequired: "10000",
+      resource: expect.stringMatching(/\/paid$/),
+      payTo: "0x209F0baCA0c23edc57881B26B68FC4148123B039",
+      asset: "0x5425890298aed601595a70AB815c96711a31Bc65",
+      extra: { name: "USD Coin", version: "2" },
+    });
+    // Native AVAX on both Avalanche networks, then the off-chain schemes
+    expect(challenge.body.accepts.map((a: any) => a.scheme)).toEqual([
+      "exact", "exact", "x402-native", "x402-native", "x402-credit", "x402-session",
+    ]);
+  });
+
+  it("refuses authorizations for another network before submitting them", async () => {
+    const { accepts } = (await request(app).get("/paid")).body;
+    const [mainnet, fuji] = accepts;
+
+    // Signed for Fuji's USDC but presented as a mainnet payment
+    const crossChain = await request(app)
+      .get("/paid")
+      .set("X-PAYMENT", paymentHeader({ x402Version: 1, scheme: "exact", network: mainnet.network, payload: await signAuthorization(fuji) }));
+    expect(crossChain.status).toBe(402);
+    expect(crossChain.body.error).toBe(`Authorization not signed by ${payer.address} for USDC on avalanche`);
+
+    const unsupported = await request(app)
+      .get("/paid")
+      .set("X-PAYMENT", paymentHeader({ x402Version: 1, scheme: "exact", network: "base", payload: await signAuthorization(mainnet) }));
+    expect(unsupported.body.error).toMatch(/^Unsupported network: base/);
+
+    // The pre-spec scheme is still read, as Avalanche mainnet
+    const { authorization, signature } = await signAuthorization(fuji);
+    const legacy = await request(app)
+      .get("/paid")
+      .set("X-PAYMENT", paymentHeader({ scheme: "x402-eip3009", payload: { ...authorization, signature } }));
+    expect(legacy.body.error).toMatch(/for USDC on avalanche$/);
+
+    expect(prismaMock.payments.map((p) => [p.status, p.fromAddress])).toEqual([
+      ["failed", payer.address],
+      ["failed", payer.address],
+      ["failed", payer.address],
+    ]);
+  });
+});
@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import express from "express";
+import request from "supertest";
+import { ethers } from "ethers";
+
+const { prismaMock } = vi.hoisted(() => {
+  // Settlement must fail offline, whatever the local .env holds
+  delete process.env.PRIVATE_KEY;
+  const quotes = new Map<string, any>();
+  const payments: any[] = [];
+  return {
+    prismaMock: {
+      quotes,
+      payments,
+      x402Quote: {
+        create: vi.fn(async ({ data }: any) => {
+          quotes.set(data.id, { status: "open", ...data });
+          return data;
+        }),
+        findUnique: vi.fn(async ({ where }: any) => quotes.get(where.id) ?? null),
+        updateMany: vi.fn(async ({ where, data }: any) => {
+          const quote = quotes.get(where.id);
+          if (!quote || quote.status !== where.status) return { count: 0 };
+          Object.assign(quote, data);
+          return { count: 1 };
+        }),
+        update: vi.fn(async ({ where, data }: any) => Object.assign(quotes.get(where.id), data)),
+        deleteMany: vi.fn(async ({ where }: any) => {
+          const stale = [...quotes.values()].filter((q) => q.status === where.status && q.expiresAt < where.expiresAt.lt);
+          stale.forEach((q) => quotes.delete(q.id));
+          return { count: stale.length };
+        }),
+      },
+      x402PaymentIntent: {
+        create: vi.fn(async ({ data }: any) => data),
+      },
+      x402Payment: {
+        create: vi.fn(async ({ data }: any) => payments.push(data)),
+      },
+    },
+  };
+});
+
+vi.mock("../src/prisma", () => ({ prisma: prismaMock }));
+
+import { x402Middleware } from "../src/middleware/x402";
+import { claimQuote, MIN_QUOTE_USD, pruneExpiredQuotes, quoteMessage, QuotedPricing } from "../src/services/x402Quotes";
+
+const pricing: QuotedPricing<{ model: string; prompt: string }> = {
+  terms: (req) => ({ model: req.body?.model, prompt: req.body?.prompt }),
+  price: async ({ model }) => (model === "big/model" ? 0.0123456 : 0),
+};
+
+const app = express();
+app.use(express.json());
+app.post("/paid", x402Middleware({ quote: pricing, resourceId: "/paid", description: "Quoted" }), (_req, res) => {
+  res.json({ ok: true });
+});
+
+const paymentHeader = (body: object) => Buffer.from(JSON.stringify(body)).toString("base64");
+
+describe("x402 quotes", () => {
+  beforeEach(() => {
+    prismaMock.quotes.clear();
+    prismaMock.payments.length = 0;
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(JSON.stringify({ "avalanche-2": { usd: 20 } }))));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("prices the 402 challenge from a signed quote bound to the request", async () => {
+    const body = { model: "big/model", prompt: "hello" };
+    const challenge = await request(app).post("/paid").send(body);
+
+    expect(challenge.status).toBe(402);
+    const { quote, accepts } = challenge.body;
+    // Rounded up to whole USDC units
+    expect(quote.amountUSD).toBe("0.012346");
+    expect(challenge.body.x402Version).toBe(1);
+    expect(accepts[0]).toMatchObject({
+      scheme: "exact",
+      network: "avalanche",
+      maxAmountRequired: "12346",
+      extra: { priceUSD: "0.012346", quoteId: quote.id },
+    });
+    expect(accepts[1].extra.quoteId).toBe(quote.id);
+    expect(ethers.verifyMessage(quoteMessage(quote), quote.signature)).toBe(quote.signer);
+
+    // Free models still pay the floor
+    const free = await request(app).post("/paid").send({ model: "free/model", prompt: "hello" });
+    expect(free.body.quote.amountUSD).toBe(MIN_QUOTE_USD.toFixed(6));
+
+    // Paying the quote for a different prompt is refused before settlement
+    const swapped = await request(app)
+      .post("/paid")
+      .set("X-PAYMENT", paymentHeader({ scheme: "x402-eip3009", quoteId: quote.id, payload: {} }))
+      .send({ ...body, prompt: "a much longer prompt" });
+    expect(swapped.status).toBe(409);
+    expect(swapped.body.error).toBe("quote_mismatch");
+    expect(prismaMock.quotes.get(quote.id).status).toBe("open");
+
+    const unquoted = await request(app)
+      .post("/paid")
+      .set("X-PAYMENT", paymentHeader({ scheme: "x402-eip3009", payload: {} }))
+      .send(body);
+    expect(unquoted.status).toBe(402);
+    expect(unquoted.body.error).toBe("quote_required");
+  });
+
+  it("claims a quote once and releases it when the payment fails", async () => {
+    const body = { model: "big/model", prompt: "hello" };
+    const { quote } = (await request(app).post("/paid").send(body)).body;
+
+    // No server wallet in tests, so the USDC settlement fails after the claim
+    const failed = await request(app)
+      .post("/paid")
+      .set("X-PAYMENT", paymentHeader({ scheme: "x402-eip3009", quoteId: quote.id, payload: {} }))
+      .send(body);
+    expect(failed.status).toBe(402);
+    expect(failed.body.accepts[0]).toMatchObject({ maxAmountRequired: "12346", extra: { quoteId: quote.id } });
+    expect(prismaMock.payments[0]).toMatchObject({ status: "failed", priceUSD: "0.012346", quoteId: quote.id });
+    expect(prismaMock.quotes.get(quote.id).status).toBe("open");
+
+    const req = { body } as any;
+    await expect(claimQuote(quote.id, "/paid", pricing, req)).resolves.toEqual({ id: quote.id, amountUSD: "0.012346" });
+    await expect(claimQuote(quote.id, "/paid", pricing, req)).rejects.toMatchObject({ code: "quote_used", status: 409 });
+    await expect(claimQuote(quote.id, "/other", pricing, req)).rejects.toMatchObject({ code: "quote_not_found" });
+
+    prismaMock.quotes.get(quote.id).expiresAt = new Date(Date.now() - 1000);
+    await expect(claimQuote(quote.id, "/paid", pricing, req)).rejects.toMatchObject({ code: "quote_expired" });
+  });
+
+  it("answers 500 when a quote cannot be recorded or looked up", async () => {
+    prismaMock.x402Quote.create.mockRejectedValueOnce(new Error("db down"));
+    const challenge = await request(app).post("/paid").send({ model: "big/model", prompt: "hello" });
+    expect(challenge.status).toBe(500);
+    expect(challenge.body.error).toBe("quote_unavailable");
+
+    prismaMock.x402Quote.findUnique.mockRejectedValueOnce(new Error("db down"));
+    const paid = await request(app)
+      .post("/paid")
+      .set("X-PAYMENT", paymentHeader({ x402Version: 1, scheme: "exact", network: "avalanche", quoteId: "q-1", payload: {} }))
+      .send({ model: "big/model", prompt: "hello" });
+    expect(paid.status).toBe(500);
+    expect(paid.body.error).toBe("quote_unavailable");
+  });
+
+  it("prunes quotes that expired unpaid", async () => {
+    const hoursAgo = (h: number) => new Date(Date.now() - h * 3600_000);
+    prismaMock.quotes.set("stale", { id: "stale", status: "open", expiresAt: hoursAgo(2) });
+    prismaMock.quotes.set("recent", { id: "recent", status: "open", expiresAt: hoursAgo(0.5) });
+    prismaMock.quotes.set("paid", { id: "paid", status: "paid", expiresAt: hoursAgo(2) });
+
+    expect(await pruneExpiredQuotes()).toBe(1);
+    expect([...prismaMock.quotes.keys()]).toEqual(["recent", "paid"]);
+  });
+});
@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import express from "express";
+import request from "supertest";
+import { ethers } from "ethers";
+
+const { prismaMock } = vi.hoisted(() => {
+  process.env.X402_NETWORKS = "avalanche";
+  // A throwaway wallet: every transfer below is answered by the mocked provider
+  process.env.PRIVATE_KEY = "0x" + "22".repeat(32);
+  const refunds = new Map<string, any>();
+  const payments: any[] = [];
+  return {
+    prismaMock: {
+      refunds,
+      payments,
+      x402Refund: {
+        create: vi.fn(async ({ data }: any) => {
+          const row = { id: `refund-${refunds.size + 1}`, txHash: null, txNonce: null, ...data };
+          refunds.set(row.id, row);
+          return row;
+        }),
+        update: vi.fn(async ({ where, data }: any) => Object.assign(refunds.get(where.id), data)),
+        updateMany: vi.fn(async ({ where, data }: any) => {
+          const row = refunds.get(where.id);
+          if (!row || !where.status.in.includes(row.status)) return { count: 0 };
+          Object.assign(row, data);
+          return { count: 1 };
+        }),
+        findMany: vi.fn(async ({ where }: any) =>
+          [...refunds.values()].filter((r) => r.kind === where.kind && r.status === where.status)
+        ),
+      },
+      x402Payment: {
+        create: vi.fn(async ({ data }: any) => {
+          payments.push({ id: payments.length + 1, ...data });
+          return payments[payments.length - 1];
+        }),
+        update: vi.fn(async ({ where, data }: any) => Object.assign(payments[where.id - 1], data)),
+      },
+    },
+  };
+});
+
+vi.mock("../src/prisma", () => ({ prisma: prismaMock }));
+
+import { reconcileOnchainRefunds, recordFulfillment, watchFulfillment } from "../src/services/x402Settlement";
+
+const payer = ethers.Wallet.createRandom().address;
+
+// A settled $1 AVAX payment, as x402Middleware leaves it on the request
+function paidRequest(): any {
+  return {
+    x402: { settled: true, paymentId: 1, payer, amount: "0.05", amountUSD: "1.000000", currency: "AVAX", network: "avalanche" },
+  };
+}
+
+// What the chain knows: broadcast transfers, their receipts, and the wallet's spent nonces
+let receipts: Map<string, any>;
+let spentNonces: number;
+function broadcast(wait: () => Promise<any>) {
+  const hash = ethers.hexlify(ethers.randomBytes(32));
+  vi.spyOn(ethers.Wallet.prototype, "sendTransaction").mockResolvedValueOnce({ hash, nonce: 7, wait } as any);
+  return hash;
+}
+
+const creditNotes = () => [...prismaMock.refunds.values()].filter((r) => r.kind === "credit_note");
+
+describe("x402 on-chain refunds", () => {
+  beforeEach(() => {
+    prismaMock.refunds.clear();
+    prismaMock.payments.length = 0;
+    prismaMock.payments.push({ id: 1 });
+    receipts = new Map();
+    spentNonces = 7;
+    vi.spyOn(ethers.JsonRpcProvider.prototype, "getTransactionReceipt").mockImplementation(async (hash: any) => receipts.get(hash) ?? null);
+    vi.spyOn(ethers.JsonRpcProvider.prototype, "getTransactionCount").mockImplementation(async () => spentNonces);
+  });
+
+  it("keeps a broadcast refund whose confirmation failed, and only replaces it once it cannot land", async () => {
+    const hash = broadcast(async () => {
+      throw new Error("timeout");
+    });
+    const refund = await recordFulfillment(paidRequest(), { fulfilled: 0, total: 1 });
+    expect(refund).toMatchObject({ kind: "onchain", amountUSD: "1.000000", currency: "AVAX", amount: "0.05" });
+
+    await vi.waitFor(() => expect(prismaMock.refunds.get(refund!.id)).toMatchObject({ status: "submitted", txHash: hash, txNonce: 7 }));
+    expect(creditNotes()).toHaveLength(0);
+
+    // Neither mined nor superseded: still pending
+    expect(await reconcileOnchainRefunds()).toBe(0);
+    expect(prismaMock.refunds.get(refund!.id).status).toBe("submitted");
+
+    // The wallet's nonce 7 went to another transaction: this transfer can never land
+    spentNonces = 8;
+    expect(await reconcileOnchainRefunds()).toBe(1);
+    expect(await reconcileOnchainRefunds()).toBe(0);
+    expect(prismaMock.refunds.get(refund!.id).status).toBe("failed");
+    expect(creditNotes()).toEqual([expect.objectContaining({ amountUSD: "1.000000", toAddress: payer, status: "open" })]);
+  });
+
+  it("marks late-confirmed refunds sent without a credit note", async () => {
+    const hash = broadcast(() => new Promise(() => {}));
+    const refund = await recordFulfillment(paidRequest(), { fulfilled: 0, total: 1 });
+    await vi.waitFor(() => expect(prismaMock.refunds.get(refund!.id).status).toBe("submitted"));
+
+    receipts.set(hash, { status: 1 });
+    spentNonces = 8;
+    expect(await reconcileOnchainRefunds()).toBe(1);
+    expect(prismaMock.refunds.get(refund!.id)).toMatchObject({ status: "sent", txHash: hash });
+    expect(creditNotes()).toHaveLength(0);
+  });
+
+  it("refunds requests refused as invalid as credit notes only", async () => {
+    const send = vi.spyOn(ethers.Wallet.prototype, "sendTransaction");
+    send.mockClear();
+    const app = express();
+    app.post("/paid", (req, res, next) => {
+      Object.assign(req, paidRequest());
+      watchFulfillment(req, res);
+      next();
+    }, (req, res) => {
+      res.status(req.query.status ? Number(req.query.status) : 400).json({ error: "bad_request" });
+    });
+
+    await request(app).post("/paid");
+    await vi.waitFor(() => expect(creditNotes()).toHaveLength(1));
+    expect(send).not.toHaveBeenCalled();
+
+    broadcast(async () => ({ status: 1 }));
+    await request(app).post("/paid?status=502");
+    await vi.waitFor(() => expect([...prismaMock.refunds.values()].map((r) => [r.kind, r.status])).toEqual([
+      ["credit_note", "open"],
+      ["onchain", "sent"],
+    ]));
+  });
+});
@@ -0,0 +1,200 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import express from "express";
+import request from "supertest";
+import { ethers } from "ethers";
+
+const { prismaMock } = vi.hoisted(() => {
+  // Nothing may settle on-chain here, whatever the local .env holds
+  delete process.env.PRIVATE_KEY;
+  const quotes = new Map<string, any>();
+  const refunds = new Map<string, any>();
+  const sessions = new Map<string, any>();
+  const payments: any[] = [];
+  const matches = (row: any, where: any) =>
+    Object.entries(where).every(([key, value]: [string, any]) =>
+      value && typeof value === "object" && "lt" in value ? row[key] < value.lt : row[key] === value
+    );
+  const apply = (row: any, data: any) => {
+    for (const [key, value] of Object.entries<any>(data)) {
+      row[key] = value && typeof value === "object" && "increment" in value ? row[key] + value.increment : value;
+    }
+    return row;
+  };
+  return {
+    prismaMock: {
+      quotes,
+      refunds,
+      sessions,
+      payments,
+      x402Quote: {
+        create: vi.fn(async ({ data }: any) => quotes.set(data.id, { status: "open", ...data })),
+        findUnique: vi.fn(async ({ where }: any) => quotes.get(where.id) ?? null),
+        updateMany: vi.fn(async ({ where, data }: any) => {
+          const quote = quotes.get(where.id);
+          if (!quote || quote.status !== where.status) return { count: 0 };
+          Object.assign(quote, data);
+          return { count: 1 };
+        }),
+        update: vi.fn(async ({ where, data }: any) => Object.assign(quotes.get(where.id), data)),
+      },
+      x402Refund: {
+        create: vi.fn(async ({ data }: any) => {
+          const row = { id: `refund-${refunds.size + 1}`, ...data };
+          refunds.set(row.id, row);
+          return row;
+        }),
+        findUnique: vi.fn(async ({ where }: any) => refunds.get(where.id) ?? null),
+        updateMany: vi.fn(async ({ where, data }: any) => {
+          const row = refunds.get(where.id);
+          if (!row || !matches(row, where)) return { count: 0 };
+          apply(row, data);
+          return { count: 1 };
+        }),
+      },
+      x402Session: {
+        create: vi.fn(async ({ data }: any) => {
+          const row = { id: `session-${sessions.size + 1}`, requests: 0, status: "open", ...data };
+          sessions.set(row.id, row);
+          return row;
+        }),
+        findUnique: vi.fn(async ({ where }: any) =>
+          where.id ? sessions.get(where.id) ?? null : [...sessions.values()].find((s) => s.tokenHash === where.tokenHash) ?? null
+        ),
+        findMany: vi.fn(async ({ where }: any) => [...sessions.values()].filter((s) => matches(s, where))),
+        updateMany: vi.fn(async ({ where, data }: any) => {
+          const rows = [...sessions.values()].filter((s) => matches(s, where));
+          rows.forEach((row) => apply(row, data));
+          return { count: rows.length };
+        }),
+        update: vi.fn(async ({ where, data }: any) => apply(sessions.get(where.id), data)),
+      },
+      x402Payment: {
+        create: vi.fn(async ({ data }: any) => {
+          payments.push({ id: payments.length + 1, fulfillment: "pending", ...data });
+          return payments[payments.length - 1];
+        }),
+        update: vi.fn(async ({ where, data }: any) => Object.assign(payments[where.id - 1], data)),
+      },
+      x402CreditRedemption: {
+        create: vi.fn(async ({ data }: any) => data),
+      },
+      $transaction(fn: (tx: any) => Promise<unknown>) {
+        return fn(this);
+      },
+    },
+  };
+});
+
+vi.mock("../src/prisma", () => ({ prisma: prismaMock }));
+
+import { x402Middleware } from "../src/middleware/x402";
+import { agentRouter } from "../src/routes/agent";
+import { creditRedemptionMessage, recordFulfillment, settleSessions } from "../src/services/x402Settlement";
+
+const app = express();
+app.use(express.json());
+app.use("/agent", agentRouter);
+// $0.04 for four "models"; the body says how many answer
+app.post("/paid", x402Middleware({ price: "0.04", resourceId: "/paid", description: "Paid" }), async (req, res) => {
+  const refund = await recordFulfillment(req, { fulfilled: req.body.answered, total: 4 });
+  res.json({ ok: true, refund });
+});
+
+const agent = ethers.Wallet.createRandom();
+const encode = (body: object) => Buffer.from(JSON.stringify(body)).toString("base64");
+const sessionPayment = (token: string) => encode({ scheme: "x402-session", payload: { token } });
+
+// Sessions are funded like any paid request; offline, a credit note pays for it
+async function openSession(depositUSD: number) {
+  prismaMock.refunds.set("funding-note", {
+    id: "funding-note",
+    kind: "credit_note",
+    toAddress: agent.address,
+    balanceUSD: "5.000000",
+    status: "open",
+  });
+  const challenge = await request(app).post("/agent/x402-session").send({ depositUSD });
+  const { quote } = challenge.body;
+  const issuedAt = new Date().toISOString();
+  const nonce = ethers.hexlify(ethers.randomBytes(16));
+  const signature = await agent.signMessage(creditRedemptionMessage({
+    creditNoteId: "funding-note",
+    resource: "/agent/x402-session",
+    amountUSD: quote.amountUSD,
+    quoteId: quote.id,
+    nonce,
+    issuedAt,
+  }));
+  return request(app)
+    .post("/agent/x402-session")
+    .set("X-PAYMENT", encode({ scheme: "x402-credit", quoteId: quote.id, payload: { creditNoteId: "funding-note", nonce, issuedAt, signature } }))
+    .send({ depositUSD });
+}
+
+describe("x402 sessions", () => {
+  beforeEach(() => {
+    for (const store of [prismaMock.quotes, prismaMock.refunds, prismaMock.sessions]) store.clear();
+    prismaMock.payments.length = 0;
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(JSON.stringify({ "avalanche-2": { usd: 20 } }))));
+  });
+
+  it("debits calls off-chain and returns the balance in headers", async () => {
+    const opened = await openSession(0.1);
+    expect(opened.status).toBe(201);
+    const { token, balanceUSD, ownerAddress } = opened.body.session;
+    expect(balanceUSD).toBe("0.100000");
+    expect(ownerAddress).toBe(agent.address);
+    expect(prismaMock.refunds.get("funding-note").balanceUSD).toBe("4.900000");
+    // Only the hash is kept
+    expect(JSON.stringify([...prismaMock.sessions.values()])).not.toContain(token);
+
+    const first = await request(app).post("/paid").set("X-PAYMENT", sessionPayment(token)).send({ answered: 4 });
+    expect(first.status).toBe(200);
+    expect(first.headers["x-payment-session-balance"]).toBe("0.060000");
+
+    // Half the models fail: $0.02 goes back into the session
+    const partial = await request(app).post("/paid").set("X-PAYMENT", sessionPayment(token)).send({ answered: 2 });
+    expect(partial.headers["x-payment-session-balance"]).toBe("0.020000");
+    expect(partial.body.refund).toMatchObject({ kind: "session", amountUSD: "0.020000", status: "credited" });
+
+    const status = await request(app).get("/agent/x402-session").set("X-PAYMENT-SESSION", token);
+    expect(status.body.session).toMatchObject({ balanceUSD: "0.040000", requests: 2, status: "open" });
+
+    await request(app).post("/paid").set("X-PAYMENT", sessionPayment(token)).send({ answered: 4 });
+    const broke = await request(app).post("/paid").set("X-PAYMENT", sessionPayment(token)).send({ answered: 4 });
+    expect(broke.status).toBe(402);
+    expect(broke.body.errorCode).toBe("insufficient_session_balance");
+
+    const unknown = await request(app).post("/paid").set("X-PAYMENT", sessionPayment("x402s_nope")).send({ answered: 4 });
+    expect(unknown.body.errorCode).toBe("session_not_found");
+    // Session debits are logged against the session, not as new on-chain payments
+    expect(prismaMock.payments.filter((p) => p.sessionId)).toHaveLength(3);
+  });
+
+  it("refunds the unused balance when the session is closed or expires", async () => {
+    const { token } = (await openSession(0.5)).body.session;
+    await request(app).post("/paid").set("X-PAYMENT", sessionPayment(token)).send({ answered: 4 });
+
+    const closed = await request(app).post("/agent/x402-session/close").set("X-PAYMENT-SESSION", token);
+    expect(closed.status).toBe(200);
+    expect(closed.body.session.status).toBe("settled");
+    // Funded by a credit note, so refunded as one
+    expect(closed.body.refund).toMatchObject({ kind: "credit_note", amountUSD: "0.460000" });
+    expect(prismaMock.refunds.get(closed.body.refund.id)).toMatchObject({ toAddress: agent.address, paymentId: 1 });
+
+    const afterClose = await request(app).post("/paid").set("X-PAYMENT", sessionPayment(token)).send({ answered: 4 });
+    expect(afterClose.body.errorCode).toBe("session_closed");
+    // Settling again is a no-op
+    expect(await settleSessions()).toBe(0);
+
+    const { token: expiring } = (await openSession(0.2)).body.session;
+    const session = [...prismaMock.sessions.values()].find((s) => s.status === "open");
+    session.expiresAt = new Date(Date.now() - 1000);
+    const expired = await request(app).post("/paid").set("X-PAYMENT", sessionPayment(expiring)).send({ answered: 4 });
+    expect(expired.body.errorCode).toBe("session_expired");
+
+    expect(await settleSessions()).toBe(1);
+    expect(session.status).toBe("settled");
+    expect(prismaMock.refunds.get(session.refundId)).toMatchObject({ kind: "credit_note", amountUSD: "0.200000" });
+  });
+});
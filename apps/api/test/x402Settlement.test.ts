@@ -0,0 +1,200 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import express from "express";
+import request from "supertest";
+import { ethers } from "ethers";
+
+const { prismaMock } = vi.hoisted(() => {
+  // Refunds must become credit notes offline, whatever the local .env holds
+  delete process.env.PRIVATE_KEY;
+  const refunds = new Map<string, any>();
+  const payments: any[] = [];
+  const redemptions: any[] = [];
+  const mock: any = {
+      refunds,
+      payments,
+      redemptions,
+      $transaction: async (fn: (tx: any) => Promise<unknown>) => {
+        const before = redemptions.length;
+        try {
+          return await fn(mock);
+        } catch (error) {
+          redemptions.length = before;
+          throw error;
+        }
+      },
+      x402CreditRedemption: {
+        create: vi.fn(async ({ data }: any) => {
+          if (redemptions.some((r) => r.creditNoteId === data.creditNoteId && r.nonce === data.nonce)) {
+            throw Object.assign(new Error("Unique constraint failed"), { code: "P2002" });
+          }
+          redemptions.push(data);
+          return data;
+        }),
+      },
+      x402Refund: {
+        create: vi.fn(async ({ data }: any) => {
+          const row = { id: `note-${refunds.size + 1}`, createdAt: new Date(), ...data };
+          refunds.set(row.id, row);
+          return row;
+        }),
+        findUnique: vi.fn(async ({ where }: any) => refunds.get(where.id) ?? null),
+        updateMany: vi.fn(async ({ where, data }: any) => {
+          const row = refunds.get(where.id);
+          if (!row || row.status !== where.status || row.balanceUSD !== where.balanceUSD) return { count: 0 };
+          Object.assign(row, data);
+          return { count: 1 };
+        }),
+        findMany: vi.fn(async ({ where }: any) =>
+          [...refunds.values()].filter((r) => r.toAddress === where.toAddress && r.kind === where.kind && r.status === where.status)
+        ),
+      },
+      x402Payment: {
+        create: vi.fn(async ({ data }: any) => {
+          payments.push({ id: payments.length + 1, fulfillment: "pending", ...data });
+          return payments[payments.length - 1];
+        }),
+        update: vi.fn(async ({ where, data }: any) => Object.assign(payments[where.id - 1], data)),
+      },
+  };
+  return { prismaMock: mock };
+});
+
+vi.mock("../src/prisma", () => ({ prisma: prismaMock }));
+
+import { x402Middleware } from "../src/middleware/x402";
+import { creditRedemptionMessage, listCreditNotes, recordFulfillment } from "../src/services/x402Settlement";
+
+const app = express();
+app.use(express.json());
+// Four "models" for $0.02; the body says how many answer
+app.post("/battle", x402Middleware({ price: "0.02", resourceId: "/battle", description: "Battle" }), async (req, res) => {
+  const refund = await recordFulfillment(req, { fulfilled: req.body.answered, total: 4 });
+  res.json({ ok: true, refund });
+});
+// Fails without reporting anything
+app.post("/broken", x402Middleware({ price: "0.02", resourceId: "/broken", description: "Broken" }), (_req, res) => {
+  res.status(500).json({ error: "upstream_down" });
+});
+
+const payer = ethers.Wallet.createRandom();
+const paymentHeader = (body: object) => Buffer.from(JSON.stringify(body)).toString("base64");
+
+async function creditPayment(creditNoteId: string, resource: string, wallet: ethers.HDNodeWallet = payer, issuedAt = new Date().toISOString()) {
+  const nonce = ethers.hexlify(ethers.randomBytes(16));
+  const signature = await wallet.signMessage(creditRedemptionMessage({ creditNoteId, resource, amountUSD: "0.02", nonce, issuedAt }));
+  return paymentHeader({ scheme: "x402-credit", payload: { creditNoteId, nonce, issuedAt, signature } });
+}
+
+function seedCreditNote(balanceUSD: string) {
+  prismaMock.refunds.set("note-0", {
+    id: "note-0",
+    paymentId: 99,
+    kind: "credit_note",
+    toAddress: payer.address,
+    amountUSD: balanceUSD,
+    balanceUSD,
+    status: "open",
+  });
+}
+
+describe("x402 settlement", () => {
+  beforeEach(() => {
+    prismaMock.refunds.clear();
+    prismaMock.payments.length = 0;
+    prismaMock.redemptions.length = 0;
+  });
+
+  it("refunds the unserved share of a paid request as a credit note", async () => {
+    seedCreditNote("0.050000");
+
+    const res = await request(app)
+      .post("/battle")
+      .set("X-PAYMENT", await creditPayment("note-0", "/battle"))
+      .send({ answered: 1 });
+
+    expect(res.status).toBe(200);
+    const settlement = JSON.parse(Buffer.from(res.headers["x-payment-response"], "base64").toString());
+    expect(settlement).toMatchObject({ success: true, creditNoteId: "note-0", balanceUSD: "0.030000" });
+    expect(prismaMock.payments[0]).toMatchObject({
+      creditNoteId: "note-0",
+      priceUSD: "0.02",
+      fulfillment: "partial",
+      fulfilledUnits: 1,
+      totalUnits: 4,
+    });
+    // 3 of 4 units failed: $0.015 back
+    expect(res.body.refund).toMatchObject({ kind: "credit_note", amountUSD: "0.015000", status: "open" });
+    expect(prismaMock.refunds.get(res.body.refund.id)).toMatchObject({ paymentId: 1, toAddress: payer.address, balanceUSD: "0.015000" });
+
+    // A handler that errors without reporting is settled as failed once the response is sent
+    const broken = await request(app)
+      .post("/broken")
+      .set("X-PAYMENT", await creditPayment("note-0", "/broken"))
+      .send({});
+    expect(broken.status).toBe(500);
+    await vi.waitFor(() => expect(prismaMock.payments[1].fulfillment).toBe("failed"));
+    await vi.waitFor(async () => expect(await listCreditNotes(payer.address.toLowerCase())).toHaveLength(3));
+    const fullRefund = [...prismaMock.refunds.values()].find((r) => r.paymentId === 2);
+    expect(fullRefund).toMatchObject({ amountUSD: "0.020000", reason: "Request failed with status 500" });
+    expect(prismaMock.refunds.get("note-0").balanceUSD).toBe("0.010000");
+  });
+
+  it("spends a credit note only with a fresh, unused signature from its owner and enough balance", async () => {
+    seedCreditNote("0.050000");
+
+    const stranger = await request(app)
+      .post("/battle")
+      .set("X-PAYMENT", await creditPayment("note-0", "/battle", ethers.Wallet.createRandom()))
+      .send({ answered: 4 });
+    expect(stranger.status).toBe(402);
+    expect(stranger.body.errorCode).toBe("invalid_credit_signature");
+
+    // Signed for another endpoint
+    const replayed = await request(app)
+      .post("/battle")
+      .set("X-PAYMENT", await creditPayment("note-0", "/broken"))
+      .send({ answered: 4 });
+    expect(replayed.body.errorCode).toBe("invalid_credit_signature");
+
+    const stale = await request(app)
+      .post("/battle")
+      .set("X-PAYMENT", await creditPayment("note-0", "/battle", payer, new Date(Date.now() - 10 * 60 * 1000).toISOString()))
+      .send({ answered: 4 });
+    expect(stale.body.errorCode).toBe("credit_signature_expired");
+    expect(prismaMock.refunds.get("note-0").balanceUSD).toBe("0.050000");
+
+    const signed = await creditPayment("note-0", "/battle");
+    const paid = await request(app).post("/battle").set("X-PAYMENT", signed).send({ answered: 4 });
+    expect(paid.status).toBe(200);
+    expect(paid.body.refund).toBeNull();
+
+    // The same signed redemption, again within its validity window
+    const reused = await request(app).post("/battle").set("X-PAYMENT", signed).send({ answered: 4 });
+    expect(reused.status).toBe(402);
+    expect(reused.body.errorCode).toBe("credit_nonce_reused");
+    expect(prismaMock.refunds.get("note-0").balanceUSD).toBe("0.030000");
+
+    const again = await request(app)
+      .post("/battle")
+      .set("X-PAYMENT", await creditPayment("note-0", "/battle"))
+      .send({ answered: 4 });
+    expect(again.status).toBe(200);
+    // The refused attempts are logged as failed payments, and never settled
+    expect(prismaMock.payments.map((p) => [p.status, p.fulfillment])).toEqual([
+      ["failed", "pending"],
+      ["failed", "pending"],
+      ["failed", "pending"],
+      ["success", "fulfilled"],
+      ["failed", "pending"],
+      ["success", "fulfilled"],
+    ]);
+
+    const short = await request(app)
+      .post("/battle")
+      .set("X-PAYMENT", await creditPayment("note-0", "/battle"))
+      .send({ answered: 4 });
+    expect(short.status).toBe(402);
+    expect(short.body.errorCode).toBe("insufficient_credit");
+    expect(prismaMock.refunds.get("note-0")).toMatchObject({ balanceUSD: "0.010000", status: "open" });
+  });
+});
@@ -22,6 +22,7 @@ contract OperatorRegistry is Ownable, ReentrancyGuard {
     uint256 public constant SLASH_PERCENTAGE = 10; // 10% per infraction
     uint256 public constant UNSTAKE_DELAY = 7 days;
     uint256 public constant MAX_PERFORMANCE_SCORE = 100;
+    uint256 public constant ENCRYPTION_KEY_LENGTH = 32; // X25519 public key
 
     // ═══════════════════════════════════════════════════════════════════════════
     // STATE
@@ -59,6 +60,8 @@ contract OperatorRegistry is Ownable, ReentrancyGuard {
     mapping(address => OperatorInfo) public operators;
     mapping(address => StakeInfo) public stakes;
     mapping(address => PerformanceMetrics) public metrics;
+    // X25519 public keys prompts are encrypted to; empty = plain requests only
+    mapping(address => bytes) public encryptionKeys;
 
     // Active operators list for efficient iteration
     address[] private _activeOperators;
@@ -71,11 +74,13 @@ contract OperatorRegistry is Ownable, ReentrancyGuard {
     event OperatorRegistered(address indexed operator, string endpoint);
     event EndpointUpdated(address indexed operator, string oldEndpoint, string newEndpoint);
     event SupportedModelsUpdated(address indexed operator, string[] models);
+    event EncryptionKeyUpdated(address indexed operator, bytes publicKey);
     event Staked(address indexed operator, uint256 amount);
     event UnstakeRequested(address indexed operator, uint256 amount, uint256 availableAt);
     event Unstaked(address indexed operator, uint256 amount);
     event StakeIncreased(address indexed operator, uint256 additionalAmount, uint256 newTotal);
     event MetricsUpdated(address indexed operator, uint256 requests, uint256 successRate, uint256 avgLatency);
+    event UptimeRecorded(address indexed operator, uint256 passed, uint256 total);
     event OperatorSlashed(address indexed operator, uint256 slashedAmount, string reason);
     event RewardsContractUpdated(address oldContract, address newContract);
     event OperatorActivated(address indexed operator);
@@ -95,6 +100,7 @@ contract OperatorRegistry is Ownable, ReentrancyGuard {
     error InvalidAmount();
     error InvalidEndpoint();
     error EmptyModels();
+    error InvalidEncryptionKey();
     error InvalidRewardsContract();
     error OnlyRewardsContract();
     error OperatorNotActive();
@@ -176,6 +182,18 @@ contract OperatorRegistry is Ownable, ReentrancyGuard {
         emit SupportedModelsUpdated(msg.sender, models);
     }
 
+    /**
+     * @notice Publish the X25519 public key the caller's node decrypts prompts with
+     * @param publicKey 32-byte key, or empty to stop taking encrypted requests
+     */
+    function setEncryptionKey(bytes calldata publicKey) external onlyRegistered {
+        if (publicKey.length != 0 && publicKey.length != ENCRYPTION_KEY_LENGTH) revert InvalidEncryptionKey();
+
+        encryptionKeys[msg.sender] = publicKey;
+
+        emit EncryptionKeyUpdated(msg.sender, publicKey);
+    }
+
     // ═══════════════════════════════════════════════════════════════════════════
     // STAKING
     // ═══════════════════════════════════════════════════════════════════════════
@@ -305,6 +323,21 @@ contract OperatorRegistry is Ownable, ReentrancyGuard {
         if (passed) {
             m.uptimeChecksPassed++;
         }
+        emit UptimeRecorded(operator, passed ? 1 : 0, 1);
+    }
+
+    /**
+     * @notice Record a batch of uptime checks (called by rewards contract)
+     * @param operator The operator address
+     * @param passed Number of checks that passed
+     * @param total Number of checks performed
+     */
+    function recordUptimeChecks(address operator, uint256 passed, uint256 total) external onlyRewards {
+        if (passed > total) revert InvalidAmount();
+        PerformanceMetrics storage m = metrics[operator];
+        m.uptimeChecksTotal += total;
+        m.uptimeChecksPassed += passed;
+        emit UptimeRecorded(operator, passed, total);
     }
 
     /**
@@ -431,6 +464,14 @@ contract OperatorRegistry is Ownable, ReentrancyGuard {
         );
     }
 
+    /**
+     * @notice Get an operator's encryption public key (empty if it has none)
+     * @param operator The operator address
+     */
+    function getEncryptionKey(address operator) external view returns (bytes memory) {
+        return encryptionKeys[operator];
+    }
+
     /**
      * @notice Get full operator details including stake and performance
      * @param operator The operator address
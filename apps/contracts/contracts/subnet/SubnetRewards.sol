@@ -9,8 +9,10 @@ import "./OperatorRegistry.sol";
 
 /**
  * @title SubnetRewards
- * @notice Distributes ZEROP rewards to operators based on requests served
- * @dev Rewards are calculated per epoch (daily) with weighted distribution
+ * @notice Distributes ZEROP rewards to operators based on tokens served
+ * @dev Rewards are calculated per epoch (daily) with weighted distribution.
+ *      The pool of an epoch grows with the tokens served in it, and each operator's
+ *      share is its tokens weighted by performance score and stake.
  */
 contract SubnetRewards is Ownable, ReentrancyGuard {
     using SafeERC20 for IERC20;
@@ -20,8 +22,8 @@ contract SubnetRewards is Ownable, ReentrancyGuard {
     // ═══════════════════════════════════════════════════════════════════════════
 
     uint256 public constant EPOCH_DURATION = 1 days;
-    uint256 public constant REWARD_PER_REQUEST = 0.001 ether; // 0.001 ZEROP per request
     uint256 public constant WEIGHT_DECIMALS = 100; // For percentage calculations
+    uint256 public constant TOKENS_PER_UNIT = 1000; // Reward rate is quoted per 1k tokens
 
     // ═══════════════════════════════════════════════════════════════════════════
     // STATE
@@ -33,6 +35,7 @@ contract SubnetRewards is Ownable, ReentrancyGuard {
     uint256 public currentEpoch;
     uint256 public epochStartTime;
     uint256 public totalRewardsDistributed;
+    uint256 public rewardPerThousandTokens = 0.001 ether; // 0.001 ZEROP per 1k tokens served
 
     // Epoch data
     struct EpochData {
@@ -40,6 +43,8 @@ contract SubnetRewards is Ownable, ReentrancyGuard {
         uint256 totalWeightedRequests;
         uint256 rewardsPool;
         bool finalized;
+        uint256 totalTokens;
+        uint256 totalWeightedTokens;
     }
 
     // Operator epoch data
@@ -49,6 +54,8 @@ contract SubnetRewards is Ownable, ReentrancyGuard {
         uint256 totalLatencyMs;
         uint256 weightedRequests;
         bool claimed;
+        uint256 tokens;
+        uint256 weightedTokens;
     }
 
     mapping(uint256 => EpochData) public epochs;
@@ -66,13 +73,15 @@ contract SubnetRewards is Ownable, ReentrancyGuard {
         address indexed operator,
         uint256 requests,
         uint256 successful,
-        uint256 avgLatencyMs
+        uint256 avgLatencyMs,
+        uint256 tokens
     );
     event EpochFinalized(uint256 indexed epoch, uint256 totalRequests, uint256 rewardsPool);
     event RewardsClaimed(uint256 indexed epoch, address indexed operator, uint256 amount);
     event ReporterUpdated(address indexed reporter, bool authorized);
     event RewardsPoolFunded(uint256 amount, uint256 newBalance);
     event NewEpochStarted(uint256 indexed epoch, uint256 startTime);
+    event RewardRateUpdated(uint256 rewardPerThousandTokens);
 
     // ═══════════════════════════════════════════════════════════════════════════
     // ERRORS
@@ -124,24 +133,70 @@ contract SubnetRewards is Ownable, ReentrancyGuard {
      * @param requests Number of requests served
      * @param successful Number of successful requests
      * @param totalLatencyMs Total latency in ms for all requests
+     * @param tokens Prompt + completion tokens of the successful requests
      */
     function recordRequests(
         address operator,
         uint256 requests,
         uint256 successful,
-        uint256 totalLatencyMs
+        uint256 totalLatencyMs,
+        uint256 tokens
     ) external onlyReporter {
         // Auto-advance epoch if needed
         _checkAndAdvanceEpoch();
 
         if (!operatorRegistry.isOperatorActive(operator)) revert OperatorNotActive();
 
-        // Calculate weighted requests based on performance and stake
+        _recordRequests(operator, requests, successful, totalLatencyMs, tokens);
+    }
+
+    /**
+     * @notice Batch record requests for multiple operators
+     * @param operatorAddrs Array of operator addresses
+     * @param requestCounts Array of request counts
+     * @param successCounts Array of successful request counts
+     * @param latencies Array of total latencies
+     * @param tokenCounts Array of tokens served
+     */
+    function batchRecordRequests(
+        address[] calldata operatorAddrs,
+        uint256[] calldata requestCounts,
+        uint256[] calldata successCounts,
+        uint256[] calldata latencies,
+        uint256[] calldata tokenCounts
+    ) external onlyReporter {
+        require(
+            operatorAddrs.length == requestCounts.length &&
+            operatorAddrs.length == successCounts.length &&
+            operatorAddrs.length == latencies.length &&
+            operatorAddrs.length == tokenCounts.length,
+            "Array length mismatch"
+        );
+
+        _checkAndAdvanceEpoch();
+
+        for (uint256 i = 0; i < operatorAddrs.length; i++) {
+            if (!operatorRegistry.isOperatorActive(operatorAddrs[i])) continue;
+            _recordRequests(operatorAddrs[i], requestCounts[i], successCounts[i], latencies[i], tokenCounts[i]);
+        }
+    }
+
+    /**
+     * @notice Add requests and tokens to the current epoch, weighted by performance and stake
+     */
+    function _recordRequests(
+        address operator,
+        uint256 requests,
+        uint256 successful,
+        uint256 totalLatencyMs,
+        uint256 tokens
+    ) internal {
         uint256 performanceScore = operatorRegistry.calculatePerformanceScore(operator);
         uint256 stakeWeight = operatorRegistry.getStakeWeight(operator);
 
-        // weightedRequests = requests * (performanceScore/100) * (stakeWeight/100)
+        // weighted = amount * (performanceScore/100) * (stakeWeight/100)
         uint256 weightedRequests = (requests * performanceScore * stakeWeight) / (WEIGHT_DECIMALS * WEIGHT_DECIMALS);
+        uint256 weightedTokens = (tokens * performanceScore * stakeWeight) / (WEIGHT_DECIMALS * WEIGHT_DECIMALS);
 
         // Update operator epoch data
         OperatorEpochData storage opData = operatorEpochs[currentEpoch][operator];
@@ -149,11 +204,15 @@ contract SubnetRewards is Ownable, ReentrancyGuard {
         opData.successfulRequests += successful;
         opData.totalLatencyMs += totalLatencyMs;
         opData.weightedRequests += weightedRequests;
+        opData.tokens += tokens;
+        opData.weightedTokens += weightedTokens;
 
         // Update epoch totals
         EpochData storage epoch = epochs[currentEpoch];
         epoch.totalRequests += requests;
         epoch.totalWeightedRequests += weightedRequests;
+        epoch.totalTokens += tokens;
+        epoch.totalWeightedTokens += weightedTokens;
 
         // Update operator metrics in registry
         operatorRegistry.updateMetrics(operator, requests, successful, totalLatencyMs);
@@ -163,59 +222,36 @@ contract SubnetRewards is Ownable, ReentrancyGuard {
             operator,
             requests,
             successful,
-            requests > 0 ? totalLatencyMs / requests : 0
+            requests > 0 ? totalLatencyMs / requests : 0,
+            tokens
         );
     }
 
+    // ═══════════════════════════════════════════════════════════════════════════
+    // RECORDING UPTIME
+    // ═══════════════════════════════════════════════════════════════════════════
+
     /**
-     * @notice Batch record requests for multiple operators
+     * @notice Batch record uptime probe results for multiple operators
+     * @dev Forwarded to the registry, where uptime makes up 30% of the performance score
      * @param operatorAddrs Array of operator addresses
-     * @param requestCounts Array of request counts
-     * @param successCounts Array of successful request counts
-     * @param latencies Array of total latencies
+     * @param passedCounts Array of passed check counts
+     * @param totalCounts Array of total check counts
      */
-    function batchRecordRequests(
+    function batchRecordUptime(
         address[] calldata operatorAddrs,
-        uint256[] calldata requestCounts,
-        uint256[] calldata successCounts,
-        uint256[] calldata latencies
+        uint256[] calldata passedCounts,
+        uint256[] calldata totalCounts
     ) external onlyReporter {
         require(
-            operatorAddrs.length == requestCounts.length &&
-            operatorAddrs.length == successCounts.length &&
-            operatorAddrs.length == latencies.length,
+            operatorAddrs.length == passedCounts.length &&
+            operatorAddrs.length == totalCounts.length,
             "Array length mismatch"
         );
 
-        _checkAndAdvanceEpoch();
-
         for (uint256 i = 0; i < operatorAddrs.length; i++) {
-            address operator = operatorAddrs[i];
-
-            if (!operatorRegistry.isOperatorActive(operator)) continue;
-
-            uint256 performanceScore = operatorRegistry.calculatePerformanceScore(operator);
-            uint256 stakeWeight = operatorRegistry.getStakeWeight(operator);
-            uint256 weightedRequests = (requestCounts[i] * performanceScore * stakeWeight) / (WEIGHT_DECIMALS * WEIGHT_DECIMALS);
-
-            OperatorEpochData storage opData = operatorEpochs[currentEpoch][operator];
-            opData.requests += requestCounts[i];
-            opData.successfulRequests += successCounts[i];
-            opData.totalLatencyMs += latencies[i];
-            opData.weightedRequests += weightedRequests;
-
-            epochs[currentEpoch].totalRequests += requestCounts[i];
-            epochs[currentEpoch].totalWeightedRequests += weightedRequests;
-
-            operatorRegistry.updateMetrics(operator, requestCounts[i], successCounts[i], latencies[i]);
-
-            emit RequestsRecorded(
-                currentEpoch,
-                operator,
-                requestCounts[i],
-                successCounts[i],
-                requestCounts[i] > 0 ? latencies[i] / requestCounts[i] : 0
-            );
+            if (!operatorRegistry.isOperatorActive(operatorAddrs[i])) continue;
+            operatorRegistry.recordUptimeChecks(operatorAddrs[i], passedCounts[i], totalCounts[i]);
         }
     }
 
@@ -239,7 +275,7 @@ contract SubnetRewards is Ownable, ReentrancyGuard {
             EpochData storage epoch = epochs[currentEpoch];
             if (!epoch.finalized) {
                 // Calculate rewards pool for this epoch
-                epoch.rewardsPool = epoch.totalRequests * REWARD_PER_REQUEST;
+                epoch.rewardsPool = _poolForTokens(epoch.totalTokens);
                 epoch.finalized = true;
 
                 emit EpochFinalized(currentEpoch, epoch.totalRequests, epoch.rewardsPool);
@@ -253,6 +289,10 @@ contract SubnetRewards is Ownable, ReentrancyGuard {
         }
     }
 
+    function _poolForTokens(uint256 tokens) internal view returns (uint256) {
+        return (tokens * rewardPerThousandTokens) / TOKENS_PER_UNIT;
+    }
+
     // ═══════════════════════════════════════════════════════════════════════════
     // CLAIMING REWARDS
     // ═══════════════════════════════════════════════════════════════════════════
@@ -267,11 +307,11 @@ contract SubnetRewards is Ownable, ReentrancyGuard {
 
         OperatorEpochData storage opData = operatorEpochs[epoch][msg.sender];
         if (opData.claimed) revert AlreadyClaimed();
-        if (opData.weightedRequests == 0) revert NoRewardsToClaim();
+        if (opData.weightedTokens == 0) revert NoRewardsToClaim();
 
         // Calculate operator's share of the rewards pool
         EpochData storage epochData = epochs[epoch];
-        uint256 reward = (epochData.rewardsPool * opData.weightedRequests) / epochData.totalWeightedRequests;
+        uint256 reward = (epochData.rewardsPool * opData.weightedTokens) / epochData.totalWeightedTokens;
 
         opData.claimed = true;
         totalRewardsDistributed += reward;
@@ -296,10 +336,10 @@ contract SubnetRewards is Ownable, ReentrancyGuard {
             if (!epochs[epoch].finalized) continue;
 
             OperatorEpochData storage opData = operatorEpochs[epoch][msg.sender];
-            if (opData.claimed || opData.weightedRequests == 0) continue;
+            if (opData.claimed || opData.weightedTokens == 0) continue;
 
             EpochData storage epochData = epochs[epoch];
-            uint256 reward = (epochData.rewardsPool * opData.weightedRequests) / epochData.totalWeightedRequests;
+            uint256 reward = (epochData.rewardsPool * opData.weightedTokens) / epochData.totalWeightedTokens;
 
             opData.claimed = true;
             totalReward += reward;
@@ -326,10 +366,10 @@ contract SubnetRewards is Ownable, ReentrancyGuard {
             if (!epochs[epoch].finalized) continue;
 
             OperatorEpochData storage opData = operatorEpochs[epoch][operator];
-            if (opData.claimed || opData.weightedRequests == 0) continue;
+            if (opData.claimed || opData.weightedTokens == 0) continue;
 
             EpochData storage epochData = epochs[epoch];
-            uint256 reward = (epochData.rewardsPool * opData.weightedRequests) / epochData.totalWeightedRequests;
+            uint256 reward = (epochData.rewardsPool * opData.weightedTokens) / epochData.totalWeightedTokens;
             totalPending += reward;
         }
     }
@@ -351,9 +391,9 @@ contract SubnetRewards is Ownable, ReentrancyGuard {
         uint256 avgLatency = opData.requests > 0 ? opData.totalLatencyMs / opData.requests : 0;
         uint256 estimated = 0;
 
-        if (epochData.totalWeightedRequests > 0) {
-            uint256 potentialPool = epochData.totalRequests * REWARD_PER_REQUEST;
-            estimated = (potentialPool * opData.weightedRequests) / epochData.totalWeightedRequests;
+        if (epochData.totalWeightedTokens > 0) {
+            uint256 potentialPool = _poolForTokens(epochData.totalTokens);
+            estimated = (potentialPool * opData.weightedTokens) / epochData.totalWeightedTokens;
         }
 
         return (
@@ -376,11 +416,27 @@ contract SubnetRewards is Ownable, ReentrancyGuard {
         EpochData storage epochData = epochs[currentEpoch];
         return (
             currentEpoch,
-            epochData.totalRequests * REWARD_PER_REQUEST,
+            _poolForTokens(epochData.totalTokens),
             0 // totalStaked not tracked here, query OperatorRegistry
         );
     }
 
+    /**
+     * @notice Get tokens served by an operator in an epoch
+     * @param epoch The epoch number
+     * @param operator The operator address
+     */
+    function getOperatorEpochTokens(uint256 epoch, address operator) external view returns (
+        uint256 tokens,
+        uint256 weightedTokens,
+        uint256 totalTokens,
+        uint256 totalWeightedTokens
+    ) {
+        OperatorEpochData storage opData = operatorEpochs[epoch][operator];
+        EpochData storage e = epochs[epoch];
+        return (opData.tokens, opData.weightedTokens, e.totalTokens, e.totalWeightedTokens);
+    }
+
     /**
      * @notice Get epoch info
      * @param epoch The epoch number
@@ -425,6 +481,15 @@ contract SubnetRewards is Ownable, ReentrancyGuard {
         emit ReporterUpdated(reporter, authorized);
     }
 
+    /**
+     * @notice Set the reward paid per 1k tokens served (applies to epochs finalized from now on)
+     * @param amount ZEROP per 1k tokens
+     */
+    function setRewardPerThousandTokens(uint256 amount) external onlyOwner {
+        rewardPerThousandTokens = amount;
+        emit RewardRateUpdated(amount);
+    }
+
     /**
      * @notice Fund the rewards pool
      * @param amount Amount of ZEROP to add
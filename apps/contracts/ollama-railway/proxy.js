@@ -0,0 +1,182 @@
+#!/usr/bin/env node
+/**
+ * ZeroPrompt encrypted inference proxy (reference node implementation)
+ *
+ * Sits in front of Ollama. POST /zeroprompt/v1/chat takes a request sealed to this
+ * node's X25519 key, runs it on Ollama and streams back one sealed frame per Ollama
+ * NDJSON line. Everything else is passed through to Ollama unchanged, so health
+ * checks (/api/tags, /api/show) keep working. Scheme: x25519-hkdf-sha256-aes256gcm,
+ * see apps/api/src/services/subnetEncryption.ts.
+ *
+ *   node proxy.js keygen             print a new key pair
+ *   NODE_PRIVATE_KEY=0x... node proxy.js
+ *
+ * Env: NODE_PRIVATE_KEY (required), OLLAMA_URL (default http://127.0.0.1:11434), PORT (default 8080)
+ * Requires Node 18+, no dependencies.
+ */
+
+const http = require("http");
+const crypto = require("crypto");
+
+const SCHEME = "x25519-hkdf-sha256-aes256gcm";
+const CHAT_PATH = "/zeroprompt/v1/chat";
+const SPKI_PREFIX = Buffer.from("302a300506032b656e032100", "hex");
+const PKCS8_PREFIX = Buffer.from("302e020100300506032b656e04220420", "hex");
+const TAG_LENGTH = 16;
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+const OLLAMA_URL = (process.env.OLLAMA_URL || "http://127.0.0.1:11434").replace(/\/+$/, "");
+const PORT = Number(process.env.PORT || 8080);
+
+const rawPublicKey = (key) => key.export({ format: "der", type: "spki" }).subarray(SPKI_PREFIX.length);
+const publicKeyObject = (raw) => crypto.createPublicKey({ key: Buffer.concat([SPKI_PREFIX, raw]), format: "der", type: "spki" });
+const privateKeyObject = (raw) => crypto.createPrivateKey({ key: Buffer.concat([PKCS8_PREFIX, raw]), format: "der", type: "pkcs8" });
+const hex = (buf) => `0x${buf.toString("hex")}`;
+
+if (process.argv[2] === "keygen") {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync("x25519");
+  const rawPrivate = privateKey.export({ format: "der", type: "pkcs8" }).subarray(PKCS8_PREFIX.length);
+  console.log(`NODE_PRIVATE_KEY=${hex(rawPrivate)}`);
+  console.log(`Public key (OperatorRegistry.setEncryptionKey): ${hex(rawPublicKey(publicKey))}`);
+  process.exit(0);
+}
+
+const privateHex = (process.env.NODE_PRIVATE_KEY || "").replace(/^0x/, "");
+if (!/^[0-9a-fA-F]{64}$/.test(privateHex)) {
+  console.error("NODE_PRIVATE_KEY must be 32 bytes of hex (run `node proxy.js keygen`)");
+  process.exit(1);
+}
+const nodePrivateKey = privateKeyObject(Buffer.from(privateHex, "hex"));
+const nodePublicKey = rawPublicKey(crypto.createPublicKey(nodePrivateKey));
+
+function deriveKeys(epk) {
+  const shared = crypto.diffieHellman({ privateKey: nodePrivateKey, publicKey: publicKeyObject(epk) });
+  const salt = Buffer.concat([epk, nodePublicKey]);
+  const derive = (info) => Buffer.from(crypto.hkdfSync("sha256", shared, salt, info, 32));
+  return { requestKey: derive("zeroprompt request"), responseKey: derive("zeroprompt response") };
+}
+
+function open(key, sealed, aad) {
+  const data = Buffer.from(sealed.ct, "base64");
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, Buffer.from(sealed.iv, "base64"));
+  decipher.setAAD(aad);
+  decipher.setAuthTag(data.subarray(data.length - TAG_LENGTH));
+  return Buffer.concat([decipher.update(data.subarray(0, data.length - TAG_LENGTH)), decipher.final()]).toString("utf8");
+}
+
+function seal(key, plaintext, aad) {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  cipher.setAAD(aad);
+  const ct = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final(), cipher.getAuthTag()]);
+  return { iv: iv.toString("base64"), ct: ct.toString("base64") };
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on("data", (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error("body_too_large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+async function handleEncryptedChat(req, res) {
+  let body;
+  let responseKey;
+  try {
+    const envelope = JSON.parse((await readBody(req)).toString("utf8"));
+    if (envelope.v !== 1) throw new Error("unsupported_version");
+    const keys = deriveKeys(Buffer.from(envelope.epk, "base64"));
+    body = JSON.parse(open(keys.requestKey, envelope, Buffer.from(SCHEME)));
+    responseKey = keys.responseKey;
+  } catch (error) {
+    // Never echo anything about the plaintext
+    res.writeHead(400, { "Content-Type": "application/json" });
+    return res.end(JSON.stringify({ error: "invalid_envelope" }));
+  }
+
+  const controller = new AbortController();
+  res.on("close", () => controller.abort());
+
+  let upstream;
+  try {
+    upstream = await fetch(`${OLLAMA_URL}/api/chat`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...body, stream: true }),
+      signal: controller.signal,
+    });
+  } catch (error) {
+    res.writeHead(502, { "Content-Type": "application/json" });
+    return res.end(JSON.stringify({ error: "ollama_unreachable" }));
+  }
+  if (!upstream.ok || !upstream.body) {
+    res.writeHead(upstream.status || 502, { "Content-Type": "application/json" });
+    return res.end(JSON.stringify({ error: "ollama_error" }));
+  }
+
+  res.writeHead(200, { "Content-Type": "application/x-ndjson" });
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let seq = 0;
+  const writeLine = (line) => {
+    if (!line.trim()) return;
+    res.write(JSON.stringify(seal(responseKey, line, Buffer.from(`frame:${seq++}`))) + "\n");
+  };
+
+  try {
+    for await (const chunk of upstream.body) {
+      buffer += decoder.decode(chunk, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+      lines.forEach(writeLine);
+    }
+    writeLine(buffer);
+  } catch (error) {
+    // Client went away or Ollama dropped the stream; the missing done frame tells the API
+  }
+  res.end();
+}
+
+function passThrough(req, res) {
+  const target = new URL(req.url, OLLAMA_URL);
+  const upstream = http.request(
+    target,
+    { method: req.method, headers: { ...req.headers, host: target.host } },
+    (response) => {
+      res.writeHead(response.statusCode || 502, response.headers);
+      response.pipe(res);
+    }
+  );
+  upstream.on("error", () => {
+    if (!res.headersSent) res.writeHead(502, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: "ollama_unreachable" }));
+  });
+  req.pipe(upstream);
+}
+
+http
+  .createServer((req, res) => {
+    const path = (req.url || "").split("?")[0];
+    if (req.method === "GET" && path === "/zeroprompt/v1/key") {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      return res.end(JSON.stringify({ scheme: SCHEME, publicKey: hex(nodePublicKey) }));
+    }
+    if (req.method === "POST" && path === CHAT_PATH) {
+      return handleEncryptedChat(req, res);
+    }
+    passThrough(req, res);
+  })
+  .listen(PORT, () => {
+    console.log(`[Proxy] Encrypted inference on :${PORT} -> ${OLLAMA_URL} (public key ${hex(nodePublicKey)})`);
+  });
@@ -154,10 +154,10 @@ async function main() {
   // Get contract configuration
   console.log("  Configuration:");
   const minStake = await operatorRegistry.MIN_STAKE_AMOUNT();
-  const rewardPerRequest = await subnetRewards.REWARD_PER_REQUEST();
+  const rewardPerThousandTokens = await subnetRewards.rewardPerThousandTokens();
 
   console.log(`    - Min Stake: ${ethers.formatEther(minStake)} ZEROP`);
-  console.log(`    - Reward/Request: ${ethers.formatEther(rewardPerRequest)} ZEROP`);
+  console.log(`    - Reward/1k Tokens: ${ethers.formatEther(rewardPerThousandTokens)} ZEROP`);
   console.log("");
 
   // Save deployment info
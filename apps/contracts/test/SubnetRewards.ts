@@ -0,0 +1,106 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+
+describe("SubnetRewards", () => {
+  const MIN_STAKE = ethers.parseEther("1000");
+
+  async function deployWithOperators() {
+    const [owner, small, large, unstaked] = await ethers.getSigners();
+    const Mock = await ethers.getContractFactory("MockERC20");
+    const zerop = await Mock.deploy("ZeroPrompt", "ZEROP");
+    await zerop.waitForDeployment();
+
+    const Registry = await ethers.getContractFactory("OperatorRegistry");
+    const registry = await Registry.deploy(await zerop.getAddress());
+    await registry.waitForDeployment();
+
+    const Rewards = await ethers.getContractFactory("SubnetRewards");
+    const rewards = await Rewards.deploy(await zerop.getAddress(), await registry.getAddress());
+    await rewards.waitForDeployment();
+
+    await registry.setRewardsContract(await rewards.getAddress());
+    await rewards.setAuthorizedReporter(owner.address, true);
+
+    // 1x stake weight for `small`, 1.2x for `large`; `unstaked` is registered but inactive
+    for (const [operator, amount] of [[small, MIN_STAKE], [large, MIN_STAKE * 3n]] as const) {
+      await zerop.mint(operator.address, amount);
+      await zerop.connect(operator).approve(await registry.getAddress(), amount);
+      await registry.connect(operator).registerOperator("https://node.example", ["llama3.2"]);
+      await registry.connect(operator).stake(amount);
+    }
+    await registry.connect(unstaked).registerOperator("https://idle.example", ["llama3.2"]);
+
+    await zerop.approve(await rewards.getAddress(), ethers.parseEther("1"));
+    await rewards.fundRewardsPool(ethers.parseEther("1"));
+
+    return { owner, small, large, unstaked, zerop, registry, rewards };
+  }
+
+  it("weights each operator's tokens by performance score and stake", async () => {
+    const { small, large, unstaked, rewards } = await deployWithOperators();
+
+    await expect(
+      rewards.batchRecordRequests(
+        [small.address, large.address, unstaked.address],
+        [10, 10, 10],
+        [10, 10, 10],
+        [1000, 1000, 1000],
+        [4000, 1000, 9000]
+      )
+    )
+      .to.emit(rewards, "RequestsRecorded")
+      .withArgs(1, small.address, 10, 10, 100, 4000);
+
+    // New operators score 50: 4000 * 0.5 * 1.0 and 1000 * 0.5 * 1.2; inactive operators are skipped
+    expect([...(await rewards.getOperatorEpochTokens(1, small.address))]).to.deep.equal([4000n, 2000n, 5000n, 2600n]);
+    expect([...(await rewards.getOperatorEpochTokens(1, large.address))]).to.deep.equal([1000n, 600n, 5000n, 2600n]);
+    expect([...(await rewards.getOperatorEpochTokens(1, unstaked.address))]).to.deep.equal([0n, 0n, 5000n, 2600n]);
+  });
+
+  it("sizes the epoch pool from tokens served and pays operators their weighted share", async () => {
+    const { small, large, zerop, rewards } = await deployWithOperators();
+    await rewards.batchRecordRequests([small.address, large.address], [10, 10], [10, 10], [1000, 1000], [4000, 1000]);
+
+    await time.increase(24 * 60 * 60);
+    await rewards.finalizeEpoch();
+
+    // 5000 tokens at 0.001 ZEROP per 1k tokens
+    const pool = (5000n * ethers.parseEther("0.001")) / 1000n;
+    const [, , rewardsPool, finalized] = await rewards.getEpochInfo(1);
+    expect(rewardsPool).to.equal(pool);
+    expect(finalized).to.equal(true);
+
+    const smallReward = (pool * 2000n) / 2600n;
+    const largeReward = (pool * 600n) / 2600n;
+    expect(await rewards.getPendingRewards(small.address)).to.equal(smallReward);
+
+    await expect(rewards.connect(small).claimRewards(1)).to.changeTokenBalance(zerop, small, smallReward);
+    await expect(rewards.connect(small).claimRewards(1)).to.be.revertedWithCustomError(rewards, "AlreadyClaimed");
+    await expect(rewards.connect(large).claimMultipleEpochs([1])).to.changeTokenBalance(zerop, large, largeReward);
+    expect(await rewards.totalRewardsDistributed()).to.equal(smallReward + largeReward);
+  });
+
+  it("applies a new reward rate to epochs finalized after it", async () => {
+    const { small, rewards } = await deployWithOperators();
+    await rewards.recordRequests(small.address, 1, 1, 100, 2000);
+    await rewards.setRewardPerThousandTokens(ethers.parseEther("0.01"));
+
+    await time.increase(24 * 60 * 60);
+    await rewards.finalizeEpoch();
+
+    const [, , rewardsPool] = await rewards.getEpochInfo(1);
+    expect(rewardsPool).to.equal(ethers.parseEther("0.02"));
+  });
+
+  it("rejects batches whose arrays differ in length and unauthorized reporters", async () => {
+    const { small, large, rewards } = await deployWithOperators();
+
+    await expect(
+      rewards.batchRecordRequests([small.address, large.address], [1, 1], [1, 1], [100, 100], [1000])
+    ).to.be.revertedWith("Array length mismatch");
+    await expect(
+      rewards.connect(small).batchRecordRequests([small.address], [1], [1], [100], [1000])
+    ).to.be.revertedWithCustomError(rewards, "NotAuthorizedReporter");
+  });
+});
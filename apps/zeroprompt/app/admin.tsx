@@ -27,7 +27,10 @@ import {
   History,
   ExternalLink,
   Cpu,
-  ChevronRight
+  ChevronRight,
+  Gavel,
+  CheckCircle,
+  XCircle
 } from "lucide-react-native";
 import { API_URL } from "../config/api";
 
@@ -65,6 +68,32 @@ interface WithdrawalsResponse {
   blockExplorer: string;
 }
 
+interface SlashProposal {
+  id: number;
+  operatorAddress: string;
+  reason: string;
+  failedCount: number;
+  totalCount: number;
+  status: "pending" | "approved" | "rejected" | "executed";
+  reviewedBy: string | null;
+  txHash: string | null;
+  createdAt: string;
+}
+
+interface ChallengeEvidence {
+  id: number;
+  model: string;
+  kind: string;
+  prompt: string;
+  response: string | null;
+  expected: string | null;
+  verdict: string;
+  similarity: number | null;
+  evidenceHash: string;
+  evidenceValid: boolean;
+  createdAt: string;
+}
+
 export default function AdminScreen() {
   const router = useRouter();
   const { theme: colors } = useTheme();
@@ -85,6 +114,10 @@ export default function AdminScreen() {
   const [txHash, setTxHash] = useState<string | null>(null);
   const [withdrawals, setWithdrawals] = useState<WithdrawRecord[]>([]);
   const [blockExplorer, setBlockExplorer] = useState<string>("");
+  const [slashProposals, setSlashProposals] = useState<SlashProposal[]>([]);
+  const [expandedProposal, setExpandedProposal] = useState<number | null>(null);
+  const [proposalEvidence, setProposalEvidence] = useState<Record<number, ChallengeEvidence[]>>({});
+  const [slashBusyId, setSlashBusyId] = useState<number | null>(null);
 
   // Fetch admin info
   const fetchAdminInfo = useCallback(async () => {
@@ -144,10 +177,122 @@ export default function AdminScreen() {
     }
   }, [getHeaders]);
 
+  // Fetch slash proposals queued by inference challenges
+  const fetchSlashProposals = useCallback(async () => {
+    try {
+      const res = await fetch(`${API_URL}/admin/slash-proposals`, { headers: getHeaders() });
+      if (!res.ok) return;
+      const data = await res.json();
+      setSlashProposals(data.proposals || []);
+    } catch (err: any) {
+      console.error("[Admin] Fetch slash proposals error:", err);
+    }
+  }, [getHeaders]);
+
   useEffect(() => {
     fetchAdminInfo();
     fetchWithdrawals();
-  }, [fetchAdminInfo, fetchWithdrawals]);
+    fetchSlashProposals();
+  }, [fetchAdminInfo, fetchWithdrawals, fetchSlashProposals]);
+
+  const toggleProposal = async (id: number) => {
+    if (expandedProposal === id) {
+      setExpandedProposal(null);
+      return;
+    }
+    setExpandedProposal(id);
+    if (proposalEvidence[id]) return;
+    try {
+      const res = await fetch(`${API_URL}/admin/slash-proposals/${id}`, { headers: getHeaders() });
+      if (!res.ok) return;
+      const data = await res.json();
+      setProposalEvidence(prev => ({ ...prev, [id]: data.proposal.challenges || [] }));
+    } catch (err: any) {
+      console.error("[Admin] Fetch slash evidence error:", err);
+    }
+  };
+
+  const rejectProposal = async (id: number) => {
+    setSlashBusyId(id);
+    setError(null);
+    try {
+      const res = await fetch(`${API_URL}/admin/slash-proposals/${id}/reject`, {
+        method: "POST",
+        headers: getHeaders(),
+        body: JSON.stringify({})
+      });
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.message || "Failed to reject proposal");
+      }
+      setSuccess(`Slash proposal #${id} rejected`);
+      fetchSlashProposals();
+    } catch (err: any) {
+      setError(err.message || "Failed to reject proposal");
+    } finally {
+      setSlashBusyId(null);
+    }
+  };
+
+  // Slashing is owner-only on-chain: approve, sign slashOperator, then record the tx
+  const approveProposal = async (id: number) => {
+    if (Platform.OS !== "web") {
+      setError("Slashing only available on web");
+      return;
+    }
+
+    setSlashBusyId(id);
+    setError(null);
+    setSuccess(null);
+    try {
+      const res = await fetch(`${API_URL}/admin/slash-proposals/${id}/approve`, {
+        method: "POST",
+        headers: getHeaders(),
+        body: JSON.stringify({})
+      });
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.message || "Failed to approve proposal");
+      }
+      const { transaction } = await res.json();
+
+      if (currentChainId !== transaction.chainId) {
+        await switchChainAsync({ chainId: transaction.chainId });
+      }
+      const hash = await sendTransactionAsync({
+        to: transaction.to as `0x${string}`,
+        value: BigInt(transaction.value || "0"),
+        data: transaction.data as `0x${string}`,
+      });
+      setTxHash(hash);
+
+      // The backend checks the OperatorSlashed event, so wait for the tx to be mined
+      for (let attempt = 0; attempt < 10; attempt++) {
+        await new Promise(resolve => setTimeout(resolve, 3000));
+        const confirm = await fetch(`${API_URL}/admin/slash-proposals/${id}/executed`, {
+          method: "POST",
+          headers: getHeaders(),
+          body: JSON.stringify({ txHash: hash })
+        });
+        if (confirm.ok) {
+          setSuccess(`Operator slashed! TX: ${hash.slice(0, 10)}...`);
+          fetchSlashProposals();
+          return;
+        }
+      }
+      setSuccess(`Slash sent (TX: ${hash.slice(0, 10)}...) - refresh once it is mined`);
+    } catch (err: any) {
+      let errorMessage = err.message || "Slash failed";
+      if (err.code === "ACTION_REJECTED" || err.code === 4001 || errorMessage.includes("rejected")) {
+        errorMessage = "Transaction was rejected by user.";
+      } else if (errorMessage.includes("reverted")) {
+        errorMessage = "Transaction reverted. Make sure you are the registry owner.";
+      }
+      setError(errorMessage);
+    } finally {
+      setSlashBusyId(null);
+    }
+  };
 
   // Execute withdraw using wagmi
   const handleWithdraw = async () => {
@@ -320,7 +465,7 @@ export default function AdminScreen() {
           <ArrowLeft size={24} color={colors.text} />
         </TouchableOpacity>
         <Text style={styles.title}>Admin Dashboard</Text>
-        <TouchableOpacity style={styles.refreshButton} onPress={fetchAdminInfo}>
+        <TouchableOpacity style={styles.refreshButton} onPress={() => { fetchAdminInfo(); fetchSlashProposals(); }}>
           <RefreshCw size={20} color={colors.text} />
         </TouchableOpacity>
       </View>
@@ -542,6 +687,85 @@ export default function AdminScreen() {
           )}
         </View>
 
+        {/* Slash Proposals Card */}
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Gavel size={20} color={colors.warning} />
+            <Text style={styles.cardTitle}>
+              Slash Proposals ({slashProposals.filter(p => p.status === "pending").length} pending)
+            </Text>
+          </View>
+
+          {slashProposals.length === 0 ? (
+            <Text style={styles.emptyText}>No operator has failed enough inference challenges</Text>
+          ) : (
+            slashProposals.map((p, index) => {
+              const isOpen = p.status === "pending" || p.status === "approved";
+              const busy = slashBusyId === p.id;
+              return (
+                <View key={p.id} style={[styles.withdrawItem, index === slashProposals.length - 1 && { borderBottomWidth: 0 }]}>
+                  <TouchableOpacity style={styles.withdrawItemHeader} onPress={() => toggleProposal(p.id)}>
+                    <Text style={styles.withdrawAmount}>#{p.id} {truncateAddress(p.operatorAddress)}</Text>
+                    <Text style={[styles.proposalStatus, { color: isOpen ? colors.warning : p.status === "executed" ? colors.error : colors.textSecondary }]}>
+                      {p.status.toUpperCase()}
+                    </Text>
+                  </TouchableOpacity>
+                  <Text style={styles.withdrawTo}>{p.reason}</Text>
+
+                  {expandedProposal === p.id && (
+                    <View style={styles.evidenceList}>
+                      {(proposalEvidence[p.id] || []).map(c => (
+                        <View key={c.id} style={styles.evidenceItem}>
+                          <View style={styles.evidenceHeader}>
+                            <Text style={styles.evidenceModel}>{c.model} · {c.kind}</Text>
+                            {c.evidenceValid ? (
+                              <CheckCircle size={14} color={colors.success} />
+                            ) : (
+                              <XCircle size={14} color={colors.error} />
+                            )}
+                          </View>
+                          <Text style={styles.evidenceText} numberOfLines={2}>Prompt: {c.prompt}</Text>
+                          <Text style={styles.evidenceText} numberOfLines={3}>Answer: {c.response ?? "-"}</Text>
+                          <Text style={styles.evidenceText} numberOfLines={3}>Expected: {c.expected ?? "-"}</Text>
+                          <Text style={styles.withdrawDate}>
+                            {new Date(c.createdAt).toLocaleString()} · {c.evidenceHash.slice(0, 14)}...
+                          </Text>
+                        </View>
+                      ))}
+                    </View>
+                  )}
+
+                  {isOpen && (
+                    <View style={[styles.withdrawButtons, { marginTop: 10 }]}>
+                      <TouchableOpacity
+                        style={[styles.maxButton, busy && styles.buttonDisabled]}
+                        onPress={() => rejectProposal(p.id)}
+                        disabled={busy}
+                      >
+                        <Text style={styles.maxButtonText}>Reject</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={[styles.withdrawButton, (busy || isSendingTx) && styles.buttonDisabled]}
+                        onPress={() => approveProposal(p.id)}
+                        disabled={busy || isSendingTx}
+                      >
+                        {busy ? (
+                          <ActivityIndicator color={colors.background} />
+                        ) : (
+                          <>
+                            <Gavel size={16} color="#fff" />
+                            <Text style={styles.withdrawButtonText}>Approve & Slash</Text>
+                          </>
+                        )}
+                      </TouchableOpacity>
+                    </View>
+                  )}
+                </View>
+              );
+            })
+          )}
+        </View>
+
         {/* Messages */}
         {error && (
           <View style={styles.errorContainer}>
@@ -893,5 +1117,34 @@ const createStyles = (colors: any) =>
       fontSize: 12,
       color: colors.primary,
       fontWeight: "500"
+    },
+    proposalStatus: {
+      fontSize: 11,
+      fontWeight: "700"
+    },
+    evidenceList: {
+      marginTop: 10,
+      gap: 8
+    },
+    evidenceItem: {
+      backgroundColor: colors.background,
+      borderRadius: 8,
+      padding: 10
+    },
+    evidenceHeader: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      marginBottom: 4
+    },
+    evidenceModel: {
+      fontSize: 13,
+      fontWeight: "600",
+      color: colors.text
+    },
+    evidenceText: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      marginBottom: 2
     }
   });
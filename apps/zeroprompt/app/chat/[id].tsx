@@ -28,7 +28,7 @@ import { Video, ResizeMode } from "expo-av";
 
 import {
   Terminal, Wallet, Menu, Send, Shield,
-  Settings, X, Plus, Cpu, ChevronRight, ChevronDown, ChevronUp,
+  Settings, X, Plus, Cpu, ChevronLeft, ChevronRight, ChevronDown, ChevronUp, Pencil,
   MessageSquare, Copy, RefreshCw, Lock, Check, Maximize2, Minimize2,
   Image as ImageIcon, FileText, Box, Search, Globe, Brain, Mic, Layers, Grid, Layout,
   Eye, Sparkles, PenTool, Trash2, CreditCard, DollarSign, ExternalLink, Code, Star, Home, Download, Server
@@ -48,6 +48,7 @@ import { VAULT_ADDRESS } from "../../lib/constants";
 import { API_URL, SUBNET_API_URL } from "../../config/api";
 import { fetchStream } from "../../lib/stream-polyfill";
 import { useMode } from "../../context/ModeContext";
+import { useSubnet } from "../../context/SubnetContext";
 import NodeFeedback from "../../components/NodeFeedback";
 
 
@@ -69,6 +70,9 @@ type Model = {
   };
 };
 
+// Background video/audio render started by /video or /audio
+type MediaJobStatus = { id: string; kind: 'video' | 'audio'; status: 'queued' | 'running' | 'succeeded' | 'failed'; progress: number };
+
 type ChatMessage = {
   id: string;
   role: "user" | "assistant" | "comparison";
@@ -82,6 +86,9 @@ type ChatMessage = {
   webSearchType?: 'native' | 'exa' | null;
   billing?: { costUSD: string; inputTokens?: number; outputTokens?: number; nodeAddress?: string; mode?: string };
   generatedImages?: string[];
+  mediaJob?: MediaJobStatus;
+  serverId?: number; // Message id in the conversation tree (set once saved)
+  siblingIds?: number[]; // Alternates of this message (edits), including itself
   responses?: {
       modelId: string;
       modelName: string;
@@ -93,6 +100,9 @@ type ChatMessage = {
       webSearchType?: 'native' | 'exa' | null;
       billing?: { costUSD: string; inputTokens?: number; outputTokens?: number; nodeAddress?: string; mode?: string };
       generatedImages?: string[];
+      mediaJob?: MediaJobStatus;
+      serverId?: number;
+      siblingIds?: number[]; // Alternate replies to the same user turn (regenerations, compared models)
       status: 'pending' | 'streaming' | 'done' | 'error';
       error?: string;
   }[];
@@ -582,6 +592,9 @@ const Sidebar = ({ isOpen, onClose, isDesktop, theme, user, connectWallet, start
   // Initialize from cache to prevent flash on route change
   const [history, setHistory] = useState<any[]>(historyCache);
   const [searchQuery, setSearchQuery] = useState("");
+  const [messageMatches, setMessageMatches] = useState<any[]>([]);
+  const [searchingMessages, setSearchingMessages] = useState(false);
+  const [searchFilters, setSearchFilters] = useState<{ attachment: string; days: number; model: string }>({ attachment: '', days: 0, model: '' });
   const [deletingId, setDeletingId] = useState<string | null>(null);
   const [deleteModalVisible, setDeleteModalVisible] = useState(false);
   const [itemToDelete, setItemToDelete] = useState<{id: string, title: string} | null>(null);
@@ -655,6 +668,43 @@ const Sidebar = ({ isOpen, onClose, isDesktop, theme, user, connectWallet, start
       setItemToDelete(null);
   };
 
+  // Message content is encrypted server-side; GET /llm/search matches it through the blind keyword index
+  useEffect(() => {
+      const q = searchQuery.trim();
+      if (q.length < 2 || !(user || guestId)) { setMessageMatches([]); return; }
+      const params = new URLSearchParams({ q });
+      if (searchFilters.attachment) params.set('attachment', searchFilters.attachment);
+      if (searchFilters.model) params.set('model', searchFilters.model);
+      if (searchFilters.days) params.set('from', new Date(Date.now() - searchFilters.days * 86400000).toISOString());
+      let cancelled = false;
+      const timer = setTimeout(() => {
+          setSearchingMessages(true);
+          fetch(`${API_URL}/llm/search?${params}`, { headers: getHeaders() })
+            .then(r => r.json())
+            .then(data => { if (!cancelled) setMessageMatches(data.results || []); })
+            .catch(e => console.error("Message search failed", e))
+            .finally(() => { if (!cancelled) setSearchingMessages(false); });
+      }, 350);
+      return () => { cancelled = true; clearTimeout(timer); };
+  }, [searchQuery, searchFilters, user, guestId, getHeaders]);
+
+  // Open the conversation on the branch that holds the match
+  const openMessageMatch = async (match: any) => {
+      try {
+          await fetch(`${API_URL}/llm/history/${match.conversationId}/branch`, {
+              method: 'PUT',
+              headers: getHeaders(),
+              body: JSON.stringify({ messageId: match.messageId })
+          });
+      } catch (e) {
+          console.error("Failed to select branch", e);
+      }
+      router.push(`/chat/${match.conversationId}`);
+      if (!isDesktop) onClose();
+  };
+
+  const matchModels = Array.from(new Set(messageMatches.map(m => m.model).filter(Boolean))) as string[];
+
   // Filter conversations by search query
   const filteredHistory = searchQuery
       ? history.filter(h => (h.title || "").toLowerCase().includes(searchQuery.toLowerCase()))
@@ -907,6 +957,32 @@ const Sidebar = ({ isOpen, onClose, isDesktop, theme, user, connectWallet, start
                     </TouchableOpacity>
                 )}
             </View>
+            {searchQuery.trim().length >= 2 && (
+                <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 4, marginTop: 6 }}>
+                    {[
+                        ...[['', 'ALL'], ['image', 'IMG'], ['video', 'VIDEO'], ['audio', 'AUDIO'], ['file', 'FILE']].map(([value, label]) => ({
+                            key: `a-${value}`, label, active: searchFilters.attachment === value,
+                            onPress: () => setSearchFilters(f => ({ ...f, attachment: value }))
+                        })),
+                        ...[[0, 'ANY_TIME'], [7, '7D'], [30, '30D'], [365, '1Y']].map(([value, label]) => ({
+                            key: `d-${value}`, label: label as string, active: searchFilters.days === value,
+                            onPress: () => setSearchFilters(f => ({ ...f, days: value as number }))
+                        })),
+                        ...(searchFilters.model ? [searchFilters.model] : matchModels).map(model => ({
+                            key: `m-${model}`, label: model.split('/').pop()!.toUpperCase(), active: searchFilters.model === model,
+                            onPress: () => setSearchFilters(f => ({ ...f, model: f.model === model ? '' : model }))
+                        }))
+                    ].map(chip => (
+                        <TouchableOpacity key={chip.key} onPress={chip.onPress} style={{
+                            paddingHorizontal: 6, paddingVertical: 2, borderRadius: 4, borderWidth: 1,
+                            borderColor: chip.active ? theme.primary : 'rgba(255,255,255,0.08)',
+                            backgroundColor: chip.active ? 'rgba(0, 255, 65, 0.1)' : 'transparent'
+                        }}>
+                            <Text style={{ color: chip.active ? theme.primary : theme.secondary, fontSize: 9, fontFamily: FONT_MONO }}>{chip.label}</Text>
+                        </TouchableOpacity>
+                    ))}
+                </View>
+            )}
         </View>
 
           {/* History Section Header */}
@@ -982,6 +1058,46 @@ const Sidebar = ({ isOpen, onClose, isDesktop, theme, user, connectWallet, start
                 ))
               )}
           </View>
+
+          {/* Message Matches - content search over the encrypted history */}
+          {searchQuery.trim().length >= 2 && (
+            <View style={{ paddingHorizontal: isMobile ? 12 : 16, paddingBottom: 16 }}>
+                <View style={[styles.sectionHeader, { paddingHorizontal: 4 }]}>
+                    <View style={{ flexDirection: 'row', alignItems: 'center', gap: 6 }}>
+                        <Search size={isMobile ? 14 : 12} color={theme.primary} />
+                        <Text style={[styles.sectionTitle, { color: theme.secondary, fontSize: isMobile ? 12 : 10 }]}>MESSAGE_MATCHES</Text>
+                    </View>
+                    {searchingMessages ? (
+                        <ActivityIndicator size="small" color={theme.primary} />
+                    ) : (
+                        <Text style={{color: theme.primary, fontSize: isMobile ? 11 : 9, fontWeight: '600', fontFamily: FONT_MONO}}>{messageMatches.length}</Text>
+                    )}
+                </View>
+                {!searchingMessages && messageMatches.length === 0 ? (
+                    <Text style={{color: theme.secondary, fontSize: 10, fontFamily: FONT_MONO, textAlign: 'center', padding: 12}}>NO_MESSAGE_MATCHES</Text>
+                ) : (
+                    messageMatches.map(match => (
+                        <TouchableOpacity
+                            key={match.messageId}
+                            onPress={() => openMessageMatch(match)}
+                            style={{ paddingHorizontal: 8, paddingVertical: isMobile ? 10 : 8, borderRadius: 6, marginBottom: 2, backgroundColor: 'rgba(255,255,255,0.02)' }}
+                        >
+                            <View style={{ flexDirection: 'row', alignItems: 'center', gap: 6, marginBottom: 2 }}>
+                                <Text style={{color: theme.text, fontSize: isMobile ? 11 : 10, fontFamily: FONT_MONO, flex: 1}} numberOfLines={1}>
+                                    {match.conversationTitle}
+                                </Text>
+                                <Text style={{color: theme.textMuted, fontSize: 9, fontFamily: FONT_MONO}}>
+                                    {new Date(match.createdAt).toLocaleDateString()}
+                                </Text>
+                            </View>
+                            <Text style={{color: theme.secondary, fontSize: isMobile ? 11 : 10}} numberOfLines={2}>
+                                {match.role === 'user' ? '> ' : ''}{match.snippet}
+                            </Text>
+                        </TouchableOpacity>
+                    ))
+                )}
+            </View>
+          )}
         </ScrollView>
 
         {/* STICKY Wallet Section - Always visible at bottom */}
@@ -1578,7 +1694,7 @@ const GeneratedImageCard = ({ imgUrl, idx, total, theme }: { imgUrl: string, idx
     );
 };
 
-const ResponseContent = ({ content, reasoning, sources, theme, isLoading, attachmentType, attachmentUrl, webSearchType, generatedImages }: any) => {
+const ResponseContent = ({ content, reasoning, sources, theme, isLoading, attachmentType, attachmentUrl, webSearchType, generatedImages, mediaJob }: any) => {
     // Epic code block styles
     const markdownStyles = {
         body: {
@@ -1835,6 +1951,24 @@ const ResponseContent = ({ content, reasoning, sources, theme, isLoading, attach
         <View>
             <ReasoningAccordion content={reasoning} theme={theme} />
 
+            {mediaJob && (mediaJob.status === 'queued' || mediaJob.status === 'running') && (
+                <View style={{
+                    marginVertical: 16,
+                    padding: 14,
+                    borderRadius: 12,
+                    borderWidth: 1,
+                    borderColor: 'rgba(0, 255, 65, 0.2)',
+                    backgroundColor: 'rgba(0, 255, 65, 0.05)'
+                }}>
+                    <Text style={{ color: theme.textSecondary || 'rgba(255,255,255,0.6)', fontSize: 12, marginBottom: 8 }}>
+                        Rendering {mediaJob.kind}... {mediaJob.progress}%
+                    </Text>
+                    <View style={{ height: 4, borderRadius: 2, backgroundColor: 'rgba(255,255,255,0.1)', overflow: 'hidden' }}>
+                        <View style={{ width: `${mediaJob.progress}%`, height: '100%', backgroundColor: '#00FF41' }} />
+                    </View>
+                </View>
+            )}
+
             {(attachmentType === 'video' || attachmentType === 'audio') && attachmentUrl && (
                 <View style={{
                     marginVertical: 16,
@@ -1881,6 +2015,169 @@ const ResponseContent = ({ content, reasoning, sources, theme, isLoading, attach
     );
 };
 
+/**
+ * Turn the active branch from GET /llm/history/:id into chat rows: user turns
+ * stay as-is, assistant replies are wrapped in comparison groups
+ */
+const groupHistoryMessages = (flatMessages: any[]): ChatMessage[] => {
+    const groupedMessages: ChatMessage[] = [];
+    
+    let currentGroup: ChatMessage | null = null;
+
+    flatMessages.forEach((msg: any) => {
+        if (msg.role === 'user') {
+            groupedMessages.push({ ...msg, serverId: msg.id });
+            currentGroup = null; // Reset group on new user input
+        } else if (msg.role === 'assistant') {
+            // If it's an assistant message
+            // Check if the *previous* message in our grouped list was a user message 
+            // OR if we already have a comparison group active.
+            
+            const lastGrouped = groupedMessages[groupedMessages.length - 1];
+            
+            if (lastGrouped && lastGrouped.role === 'comparison') {
+                // Add to existing comparison group
+                lastGrouped.responses?.push({
+                    modelId: msg.model || 'unknown',
+                    modelName: msg.model || 'AI',
+                    content: msg.content,
+                    reasoning: msg.metadata?.reasoning || '',
+                    sources: msg.metadata?.sources || [],
+                    generatedImages: msg.metadata?.generatedImages || [],
+                    status: 'done',
+                    attachmentUrl: msg.attachmentUrl,
+                    attachmentType: msg.attachmentType,
+                    serverId: msg.id,
+                    siblingIds: msg.siblingIds
+                });
+            } else if (lastGrouped && lastGrouped.role === 'user') {
+                // Start a NEW comparison group
+                const newGroup: ChatMessage = {
+                    id: msg.id + '_group',
+                    role: 'comparison',
+                    content: '',
+                    timestamp: msg.timestamp,
+                    responses: [{
+                        modelId: msg.model || 'unknown',
+                        modelName: msg.model || 'AI',
+                        content: msg.content,
+                        reasoning: msg.metadata?.reasoning || '',
+                        sources: msg.metadata?.sources || [],
+                        generatedImages: msg.metadata?.generatedImages || [],
+                        status: 'done',
+                        attachmentUrl: msg.attachmentUrl,
+                        attachmentType: msg.attachmentType,
+                        serverId: msg.id,
+                        siblingIds: msg.siblingIds
+                    }]
+                };
+                groupedMessages.push(newGroup);
+            } else {
+                // Orphan assistant message (shouldn't happen often, but fallback to standard display)
+                // Or if it follows another assistant message but we decided not to group?
+                // Actually, if we have Ass A then Ass B, and Ass A wasn't grouped (why?),
+                // Logic above:
+                // 1. User -> Push User.
+                // 2. Ass A -> Prev is User. Create Group [A]. Push Group.
+                // 3. Ass B -> Prev is Group [A]. Add B to Group.
+                // This logic covers it!
+                // What if history starts with Assistant? (e.g. "Hello how can I help?")
+                groupedMessages.push({
+                    ...msg,
+                    generatedImages: msg.metadata?.generatedImages || []
+                });
+            }
+        } else {
+            groupedMessages.push({
+                ...msg,
+                generatedImages: msg.metadata?.generatedImages || []
+            });
+        }
+    });
+    return groupedMessages;
+};
+
+// ‹ 2/3 › switcher between alternates of one message (edits, regenerations, compared models)
+const BranchNavigator = ({ siblingIds, currentId, onSelect, theme, disabled }: any) => {
+    if (!siblingIds || siblingIds.length < 2 || currentId == null) return null;
+    const index = siblingIds.indexOf(currentId);
+    const canPrev = !disabled && index > 0;
+    const canNext = !disabled && index < siblingIds.length - 1;
+    return (
+        <View style={{ flexDirection: 'row', alignItems: 'center', gap: 4 }}>
+            <TouchableOpacity onPress={() => canPrev && onSelect(siblingIds[index - 1])} disabled={!canPrev} style={{ opacity: canPrev ? 1 : 0.3, padding: 4 }}>
+                <ChevronLeft size={14} color={theme.textSecondary || '#888'} />
+            </TouchableOpacity>
+            <Text style={{ color: theme.textSecondary || '#888', fontSize: 12 }}>{index + 1}/{siblingIds.length}</Text>
+            <TouchableOpacity onPress={() => canNext && onSelect(siblingIds[index + 1])} disabled={!canNext} style={{ opacity: canNext ? 1 : 0.3, padding: 4 }}>
+                <ChevronRight size={14} color={theme.textSecondary || '#888'} />
+            </TouchableOpacity>
+        </View>
+    );
+};
+
+// Edit / regenerate / branch switching under a saved message
+const BranchControls = ({ item, allMessages, theme, disabled, onEdit, onRegenerate, onSwitchBranch }: any) => {
+    const [editing, setEditing] = useState(false);
+    const [draft, setDraft] = useState(item.content || '');
+    const { width } = useWindowDimensions();
+    const isDesktop = width > 1024;
+
+    if (item.role === 'user') {
+        if (!item.serverId) return null;
+        if (editing) {
+            return (
+                <View style={{ alignSelf: 'flex-end', width: isDesktop ? '70%' : '90%', marginTop: -8, marginBottom: 16, gap: 8 }}>
+                    <TextInput
+                        value={draft}
+                        onChangeText={setDraft}
+                        multiline
+                        autoFocus
+                        style={{ color: theme.text, borderWidth: 1, borderColor: 'rgba(0, 255, 65, 0.3)', borderRadius: 12, padding: 12, minHeight: 60 }}
+                    />
+                    <View style={{ flexDirection: 'row', justifyContent: 'flex-end', gap: 8 }}>
+                        <TouchableOpacity onPress={() => { setEditing(false); setDraft(item.content || ''); }} style={{ paddingHorizontal: 12, paddingVertical: 6 }}>
+                            <Text style={{ color: theme.textSecondary || '#888', fontSize: 13 }}>Cancel</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                            disabled={disabled || !draft.trim()}
+                            onPress={() => { setEditing(false); onEdit(item.serverId, draft.trim()); }}
+                            style={{ backgroundColor: '#00FF41', borderRadius: 8, paddingHorizontal: 12, paddingVertical: 6, opacity: disabled || !draft.trim() ? 0.5 : 1 }}
+                        >
+                            <Text style={{ color: '#000', fontSize: 13, fontWeight: '600' }}>Save & submit</Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            );
+        }
+        return (
+            <View style={{ flexDirection: 'row', justifyContent: 'flex-end', alignItems: 'center', gap: 8, marginTop: -12, marginBottom: 12 }}>
+                <BranchNavigator siblingIds={item.siblingIds} currentId={item.serverId} onSelect={onSwitchBranch} theme={theme} disabled={disabled} />
+                <TouchableOpacity onPress={() => setEditing(true)} disabled={disabled} style={{ padding: 4, opacity: disabled ? 0.3 : 0.6 }}>
+                    <Pencil size={12} color={theme.textSecondary || '#888'} />
+                </TouchableOpacity>
+            </View>
+        );
+    }
+
+    if (item.role === 'comparison') {
+        const saved = item.responses?.find((r: any) => r.serverId);
+        const index = allMessages.findIndex((m: any) => m.id === item.id);
+        const userTurn = index > 0 ? allMessages[index - 1] : null;
+        if (!saved || !userTurn?.serverId) return null;
+        return (
+            <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8, marginTop: -16, marginBottom: 16 }}>
+                <BranchNavigator siblingIds={saved.siblingIds} currentId={saved.serverId} onSelect={onSwitchBranch} theme={theme} disabled={disabled} />
+                <TouchableOpacity onPress={() => onRegenerate(userTurn.serverId)} disabled={disabled} style={{ flexDirection: 'row', alignItems: 'center', gap: 4, padding: 4, opacity: disabled ? 0.3 : 0.6 }}>
+                    <RefreshCw size={12} color={theme.textSecondary || '#888'} />
+                    <Text style={{ color: theme.textSecondary || '#888', fontSize: 12 }}>Regenerate</Text>
+                </TouchableOpacity>
+            </View>
+        );
+    }
+    return null;
+};
+
 const ChatBubble = ({ item, theme, isSidebarOpen, allMessages }: any) => {
     const isUser = item.role === "user";
     const { width } = useWindowDimensions();
@@ -2290,6 +2587,7 @@ const ChatBubble = ({ item, theme, isSidebarOpen, allMessages }: any) => {
                                                     isLoading={isStreaming && !res.content && !res.reasoning}
                                                     attachmentUrl={res.attachmentUrl}
                                                     attachmentType={res.attachmentType}
+                                                    mediaJob={res.mediaJob}
                                                     webSearchType={res.webSearchType}
                                                     generatedImages={res.generatedImages}
                                                 />
@@ -2454,6 +2752,7 @@ const ChatBubble = ({ item, theme, isSidebarOpen, allMessages }: any) => {
                                             isLoading={responses[activeTab].status === 'streaming' && !responses[activeTab].content && !responses[activeTab].reasoning}
                                             attachmentUrl={responses[activeTab].attachmentUrl}
                                             attachmentType={responses[activeTab].attachmentType}
+                                            mediaJob={responses[activeTab].mediaJob}
                                             webSearchType={responses[activeTab].webSearchType}
                                             generatedImages={responses[activeTab].generatedImages}
                                         />
@@ -2559,6 +2858,7 @@ const ChatBubble = ({ item, theme, isSidebarOpen, allMessages }: any) => {
                                                 theme={theme}
                                                 attachmentUrl={responses[focusedModelIdx].attachmentUrl}
                                                 attachmentType={responses[focusedModelIdx].attachmentType}
+                                                mediaJob={responses[focusedModelIdx].mediaJob}
                                                 webSearchType={responses[focusedModelIdx].webSearchType}
                                                 generatedImages={responses[focusedModelIdx].generatedImages}
                                             />
@@ -2697,6 +2997,7 @@ const ChatBubble = ({ item, theme, isSidebarOpen, allMessages }: any) => {
                                 isLoading={isActiveStreaming && !activeRes?.content && !activeRes?.reasoning}
                                 attachmentUrl={activeRes?.attachmentUrl}
                                 attachmentType={activeRes?.attachmentType}
+                                mediaJob={activeRes?.mediaJob}
                                 webSearchType={activeRes?.webSearchType}
                                 generatedImages={activeRes?.generatedImages}
                             />
@@ -2775,6 +3076,7 @@ const ChatBubble = ({ item, theme, isSidebarOpen, allMessages }: any) => {
                     theme={theme}
                     attachmentUrl={item.attachmentUrl}
                     attachmentType={item.attachmentType}
+                    mediaJob={item.mediaJob}
                     webSearchType={item.webSearchType}
                     generatedImages={item.generatedImages}
                 />
@@ -2804,7 +3106,8 @@ export default function ChatScreen() {
     openUpsaleModal, closeUpsaleModal, openDepositModal, closeDepositModal, executeDeposit,
     checkAndPromptCredits, refreshBilling
   } = useBilling();
-  const { isDecentralized, subnetApiUrl, selectedNodeAddress } = useMode();
+  const { isDecentralized, subnetApiUrl, selectedNodeAddress, privateInference, setPrivateInference } = useMode();
+  const { encryptedNodes } = useSubnet();
   const { width } = useWindowDimensions();
   const insets = useSafeAreaInsets();
   const isDesktop = width > 1024;
@@ -2946,78 +3249,7 @@ export default function ChatScreen() {
                 .then(r => r.json())
                 .then(data => { 
                     if (data.conversation?.messages) {
-                        const flatMessages = data.conversation.messages;
-                        const groupedMessages: ChatMessage[] = [];
-                        
-                        let currentGroup: ChatMessage | null = null;
-
-                        flatMessages.forEach((msg: any) => {
-                            if (msg.role === 'user') {
-                                groupedMessages.push({ ...msg });
-                                currentGroup = null; // Reset group on new user input
-                            } else if (msg.role === 'assistant') {
-                                // If it's an assistant message
-                                // Check if the *previous* message in our grouped list was a user message 
-                                // OR if we already have a comparison group active.
-                                
-                                const lastGrouped = groupedMessages[groupedMessages.length - 1];
-                                
-                                if (lastGrouped && lastGrouped.role === 'comparison') {
-                                    // Add to existing comparison group
-                                    lastGrouped.responses?.push({
-                                        modelId: msg.model || 'unknown',
-                                        modelName: msg.model || 'AI',
-                                        content: msg.content,
-                                        reasoning: msg.metadata?.reasoning || '',
-                                        sources: msg.metadata?.sources || [],
-                                        generatedImages: msg.metadata?.generatedImages || [],
-                                        status: 'done',
-                                        attachmentUrl: msg.attachmentUrl,
-                                        attachmentType: msg.attachmentType
-                                    });
-                                } else if (lastGrouped && lastGrouped.role === 'user') {
-                                    // Start a NEW comparison group
-                                    const newGroup: ChatMessage = {
-                                        id: msg.id + '_group',
-                                        role: 'comparison',
-                                        content: '',
-                                        timestamp: msg.timestamp,
-                                        responses: [{
-                                            modelId: msg.model || 'unknown',
-                                            modelName: msg.model || 'AI',
-                                            content: msg.content,
-                                            reasoning: msg.metadata?.reasoning || '',
-                                            sources: msg.metadata?.sources || [],
-                                            generatedImages: msg.metadata?.generatedImages || [],
-                                            status: 'done',
-                                            attachmentUrl: msg.attachmentUrl,
-                                            attachmentType: msg.attachmentType
-                                        }]
-                                    };
-                                    groupedMessages.push(newGroup);
-                                } else {
-                                    // Orphan assistant message (shouldn't happen often, but fallback to standard display)
-                                    // Or if it follows another assistant message but we decided not to group?
-                                    // Actually, if we have Ass A then Ass B, and Ass A wasn't grouped (why?),
-                                    // Logic above:
-                                    // 1. User -> Push User.
-                                    // 2. Ass A -> Prev is User. Create Group [A]. Push Group.
-                                    // 3. Ass B -> Prev is Group [A]. Add B to Group.
-                                    // This logic covers it!
-                                    // What if history starts with Assistant? (e.g. "Hello how can I help?")
-                                    groupedMessages.push({
-                                        ...msg,
-                                        generatedImages: msg.metadata?.generatedImages || []
-                                    });
-                                }
-                            } else {
-                                groupedMessages.push({
-                                    ...msg,
-                                    generatedImages: msg.metadata?.generatedImages || []
-                                });
-                            }
-                        });
-                        setMessages(groupedMessages);
+                        setMessages(groupHistoryMessages(data.conversation.messages));
                     }
                 })
                 .catch(e => console.error(e));
@@ -3080,6 +3312,64 @@ export default function ChatScreen() {
   
   const handleKeyPress = (e: any) => { if (Platform.OS === 'web' && e.nativeEvent.key === 'Enter' && !e.nativeEvent.shiftKey) { e.preventDefault(); sendMessage(); } };
 
+  const applyBranchView = (conversation: any) => {
+      if (conversation?.messages) setMessages(groupHistoryMessages(conversation.messages));
+  };
+
+  const reloadBranch = async (convId: string) => {
+      try {
+          const res = await fetch(`${API_URL}/llm/history/${convId}`, { headers: getHeaders() });
+          applyBranchView((await res.json()).conversation);
+      } catch (e) {
+          console.error("Failed to reload conversation", e);
+      }
+  };
+
+  // Show the branch through another sibling; the server remembers it as the active one
+  const switchBranch = async (messageId: number) => {
+      if (!conversationId || streaming) return;
+      try {
+          const res = await fetch(`${API_URL}/llm/history/${conversationId}/branch`, {
+              method: 'PUT',
+              headers: getHeaders(),
+              body: JSON.stringify({ messageId })
+          });
+          applyBranchView((await res.json()).conversation);
+      } catch (e) {
+          console.error("Failed to switch branch", e);
+      }
+  };
+
+  /**
+   * Edit a user turn or regenerate its reply with the first selected model.
+   * The new turn is streamed as a sibling; the previous branch stays reachable.
+   */
+  const resubmitBranch = async (action: 'edit' | 'regenerate', messageId: number, content?: string) => {
+      const model = selectedModels[0];
+      if (!model || !conversationId || streaming) return;
+      const idx = messages.findIndex(m => m.role === 'user' && m.serverId === messageId);
+      if (idx < 0) return;
+
+      const comparisonId = Date.now().toString() + "_c";
+      const kept = action === 'edit'
+        ? [...messages.slice(0, idx), { id: Date.now().toString() + "_u", role: 'user' as const, content: content || '', timestamp: Date.now() }]
+        : messages.slice(0, idx + 1);
+      setMessages([
+          ...kept,
+          { id: comparisonId, role: 'comparison', content: '', timestamp: Date.now(),
+            responses: [{ modelId: model.openrouterId, modelName: model.name, content: '', reasoning: '', status: 'pending' }] }
+      ]);
+      setStreaming(true);
+
+      await streamModelResponse(model, [], comparisonId, conversationId, {
+          endpoint: `${API_URL}/llm/messages/${messageId}/${action}`,
+          body: { model: model.openrouterId, ...(action === 'edit' ? { content } : {}) }
+      });
+      setStreaming(false); refreshUser();
+      // Pick up the new ids and sibling counts
+      await reloadBranch(conversationId);
+  };
+
   const sendMessage = async () => {
     if (!input.trim() || streaming) return;
     if (selectedModels.length === 0) return;
@@ -3161,13 +3451,14 @@ export default function ChatScreen() {
     setStreaming(false); refreshUser();
   };
 
-  const streamModelResponse = async (model: Model, payload: any[], comparisonId: string, overrideConversationId: string | null) => {
+  const streamModelResponse = async (model: Model, payload: any[], comparisonId: string, overrideConversationId: string | null, branchRequest?: { endpoint: string; body: Record<string, any> }) => {
       updateResponse(comparisonId, model.openrouterId, { status: 'streaming' });
       try {
           const isNative = Platform.OS === 'android' || Platform.OS === 'ios';
           
           // Always use local backend - it handles decentralized routing internally
-          const endpoint = `${API_URL}/llm/chat/stream`;
+          // Edit/regenerate post to their own endpoints; the server rebuilds the history from the tree
+          const endpoint = branchRequest?.endpoint || `${API_URL}/llm/chat/stream`;
 
           // Shared stream processor
           let currentContent = ""; let currentReasoning = ""; let currentSources: string[] = [];
@@ -3211,6 +3502,21 @@ export default function ChatScreen() {
                           currentAttachmentType = parsed.attachmentType;
                           updateResponse(comparisonId, model.openrouterId, { attachmentUrl: currentAttachmentUrl, attachmentType: currentAttachmentType });
                       }
+                      if (parsed.messageIds) {
+                          updateResponse(comparisonId, model.openrouterId, { serverId: parsed.messageIds.assistant });
+                          // The user turn right before this group gets its id too, so it can be edited
+                          setMessages(prev => {
+                              const idx = prev.findIndex(m => m.id === comparisonId);
+                              const userTurn = prev[idx - 1];
+                              if (idx < 1 || userTurn.role !== 'user' || userTurn.serverId) return prev;
+                              const next = [...prev];
+                              next[idx - 1] = { ...userTurn, serverId: parsed.messageIds.user };
+                              return next;
+                          });
+                      }
+                      if (parsed.mediaJob) {
+                          updateResponse(comparisonId, model.openrouterId, { mediaJob: parsed.mediaJob });
+                      }
                       if (parsed.generatedImage) {
                           generatedImages.push(parsed.generatedImage);
                           updateResponse(comparisonId, model.openrouterId, { generatedImages: [...generatedImages] });
@@ -3236,12 +3542,15 @@ export default function ChatScreen() {
           };
 
           // Build request body - add mode flag for decentralized routing
-          const requestBody = isDecentralized
+          const requestBody = branchRequest
+            ? JSON.stringify({ ...branchRequest.body, webSearch: webSearchEnabled })
+            : isDecentralized
             ? JSON.stringify({
                 messages: payload,
                 model: model.openrouterId,
                 mode: 'decentralized',
                 ...(selectedNodeAddress != null ? { preferredNode: selectedNodeAddress } : {}),
+                ...(privateInference ? { encrypted: true } : {}),
               })
             : JSON.stringify({
                 messages: payload,
@@ -3470,7 +3779,22 @@ export default function ChatScreen() {
                     alignSelf: 'center',
                     width: '100%'
                 }}
-                renderItem={({ item }) => <ChatBubble item={item} theme={theme} isSidebarOpen={isSidebarOpen} allMessages={messages} />}
+                renderItem={({ item }) => (
+                    <View>
+                        <ChatBubble item={item} theme={theme} isSidebarOpen={isSidebarOpen} allMessages={messages} />
+                        {!isDecentralized && (
+                            <BranchControls
+                                item={item}
+                                allMessages={messages}
+                                theme={theme}
+                                disabled={streaming}
+                                onEdit={(messageId: number, content: string) => resubmitBranch('edit', messageId, content)}
+                                onRegenerate={(messageId: number) => resubmitBranch('regenerate', messageId)}
+                                onSwitchBranch={switchBranch}
+                            />
+                        )}
+                    </View>
+                )}
                 ListEmptyComponent={
                     <View style={{
                         flex: 1,
@@ -3811,6 +4135,27 @@ export default function ChatScreen() {
                             </TouchableOpacity>
                         )}
 
+                        {/* Private mode: prompts encrypted to the serving node */}
+                        {isDecentralized && (privateInference || encryptedNodes.length > 0) && (
+                            <TouchableOpacity
+                                onPress={() => setPrivateInference(!privateInference)}
+                                style={{
+                                    flexDirection: 'row',
+                                    alignItems: 'center',
+                                    gap: 4,
+                                    backgroundColor: privateInference ? 'rgba(156, 39, 176, 0.2)' : 'rgba(255,255,255,0.05)',
+                                    paddingHorizontal: 8,
+                                    paddingVertical: 4,
+                                    borderRadius: 8,
+                                }}
+                            >
+                                <Lock size={11} color={privateInference ? '#CE93D8' : 'rgba(255,255,255,0.4)'} />
+                                <Text style={{ color: privateInference ? '#fff' : 'rgba(255,255,255,0.4)', fontSize: 10, fontWeight: '700' }}>
+                                    {privateInference ? `PRIVATE · ${encryptedNodes.length} node${encryptedNodes.length === 1 ? '' : 's'}` : 'PRIVATE'}
+                                </Text>
+                            </TouchableOpacity>
+                        )}
+
                         {/* Spacer */}
                         <View style={{flex: 1}} />
 
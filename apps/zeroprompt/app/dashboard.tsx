@@ -25,7 +25,8 @@ import {
   ChevronDown,
   Send,
   DollarSign,
-  Activity
+  Activity,
+  Banknote
 } from "lucide-react-native";
 
 const ZEROPROMPT_LOGO = require('../assets/logos/zero-prompt-logo.png');
@@ -46,14 +47,20 @@ export default function DashboardScreen() {
     setSelectedNetwork,
     refreshBilling,
     calculateCredits,
-    executeDeposit
+    executeDeposit,
+    withdrawals,
+    withdrawableUSD,
+    isWithdrawing,
+    withdrawCredits,
+    executeWithdrawal
   } = useBilling();
 
   const [depositAmount, setDepositAmount] = useState("");
   const [estimatedCredits, setEstimatedCredits] = useState<string | null>(null);
   const [isDepositing, setIsDepositing] = useState(false);
   const [showNetworkDropdown, setShowNetworkDropdown] = useState(false);
-  const [activeTab, setActiveTab] = useState<"overview" | "deposits" | "usage">("overview");
+  const [activeTab, setActiveTab] = useState<"overview" | "deposits" | "usage" | "withdrawals">("overview");
+  const [withdrawAmount, setWithdrawAmount] = useState("");
   const [nativeBalance, setNativeBalance] = useState<string | null>(null);
 
   // Get current network info
@@ -119,6 +126,21 @@ export default function DashboardScreen() {
     }
   };
 
+  // Handle withdrawal (empty amount = everything withdrawable)
+  const handleWithdraw = async () => {
+    const amount = withdrawAmount ? parseFloat(withdrawAmount) : undefined;
+    if (amount !== undefined && !(amount > 0)) return;
+
+    const txHash = await withdrawCredits(amount);
+    if (txHash) {
+      setWithdrawAmount("");
+      setActiveTab("withdrawals");
+      alert(`Withdrawal sent! TX: ${txHash.slice(0, 10)}...`);
+    }
+  };
+
+  const pendingWithdrawal = withdrawals.find((w) => w.status === "pending");
+
   // Format timestamp
   const formatDate = (timestamp: number) => {
     if (!timestamp) return "Never";
@@ -330,6 +352,71 @@ export default function DashboardScreen() {
           </TouchableOpacity>
         </View>
 
+        {/* Withdraw Card - only when the backend can sign vault permits */}
+        {withdrawableUSD !== null && (
+          <View style={styles.card}>
+            <View style={styles.cardHeader}>
+              <Banknote size={20} color={colors.primary} />
+              <Text style={styles.cardTitle}>Withdraw Credits</Text>
+            </View>
+
+            <Text style={styles.priceInfo}>
+              Withdrawable: {formatUSD(withdrawableUSD)} (deposited credits not yet used)
+            </Text>
+
+            {pendingWithdrawal ? (
+              <>
+                <Text style={styles.estimateText}>
+                  Permit for {formatUSD(pendingWithdrawal.amountUSD)} ({parseFloat(pendingWithdrawal.amountAVAX).toFixed(4)} {currencySymbol}) is waiting to be submitted until {formatDate(pendingWithdrawal.deadline)}
+                </Text>
+                <TouchableOpacity
+                  style={[styles.depositButton, isWithdrawing && styles.buttonDisabled]}
+                  onPress={() => executeWithdrawal(pendingWithdrawal)}
+                  disabled={isWithdrawing}
+                >
+                  {isWithdrawing ? (
+                    <ActivityIndicator color={colors.background} />
+                  ) : (
+                    <Text style={styles.depositButtonText}>Submit Pending Withdrawal</Text>
+                  )}
+                </TouchableOpacity>
+              </>
+            ) : (
+              <>
+                <View style={styles.depositInputContainer}>
+                  <TextInput
+                    style={styles.depositInput}
+                    placeholder={`All (${formatUSD(withdrawableUSD)})`}
+                    placeholderTextColor={colors.textSecondary}
+                    value={withdrawAmount}
+                    onChangeText={setWithdrawAmount}
+                    keyboardType="decimal-pad"
+                  />
+                  <Text style={styles.currencyLabel}>USD</Text>
+                </View>
+
+                <TouchableOpacity
+                  style={[
+                    styles.depositButton,
+                    (isWithdrawing || parseFloat(withdrawableUSD) < 1) && styles.buttonDisabled
+                  ]}
+                  onPress={handleWithdraw}
+                  disabled={isWithdrawing || parseFloat(withdrawableUSD) < 1}
+                >
+                  {isWithdrawing ? (
+                    <ActivityIndicator color={colors.background} />
+                  ) : (
+                    <>
+                      <Banknote size={18} color={colors.background} />
+                      <Text style={styles.depositButtonText}>Withdraw to Wallet</Text>
+                    </>
+                  )}
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        )}
+
         {/* Tabs */}
         <View style={styles.tabsContainer}>
           <TouchableOpacity
@@ -359,6 +446,15 @@ export default function DashboardScreen() {
               Usage ({usage.length})
             </Text>
           </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.tab, activeTab === "withdrawals" && styles.tabActive]}
+            onPress={() => setActiveTab("withdrawals")}
+          >
+            <Banknote size={16} color={activeTab === "withdrawals" ? colors.primary : colors.textSecondary} />
+            <Text style={[styles.tabText, activeTab === "withdrawals" && styles.tabTextActive]}>
+              Withdrawals ({withdrawals.length})
+            </Text>
+          </TouchableOpacity>
         </View>
 
         {/* Tab Content */}
@@ -437,6 +533,38 @@ export default function DashboardScreen() {
           </View>
         )}
 
+        {activeTab === "withdrawals" && (
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>Withdrawal History</Text>
+            {withdrawals.length === 0 ? (
+              <Text style={styles.emptyText}>No withdrawals yet</Text>
+            ) : (
+              withdrawals.map((withdrawal) => (
+                <TouchableOpacity
+                  key={withdrawal.id}
+                  style={styles.historyItem}
+                  disabled={!withdrawal.txHash || Platform.OS !== "web"}
+                  onPress={() => window.open(`https://snowtrace.io/tx/${withdrawal.txHash}`, "_blank")}
+                >
+                  <View style={styles.historyLeft}>
+                    <Banknote size={16} color={withdrawal.status === "completed" ? colors.success : withdrawal.status === "pending" ? colors.primary : colors.textSecondary} />
+                    <View style={styles.historyInfo}>
+                      <Text style={styles.historyAmount}>
+                        -{parseFloat(withdrawal.amountAVAX).toFixed(4)} {currencySymbol}
+                      </Text>
+                      <Text style={styles.historyDate}>
+                        {withdrawal.status === "completed" ? "Completed" : withdrawal.status === "pending" ? "Pending" : "Expired (credits returned)"}
+                        {" · "}{formatDate(withdrawal.completedAt || withdrawal.createdAt)}
+                      </Text>
+                    </View>
+                  </View>
+                  <Text style={styles.historyCredits}>{formatUSD(withdrawal.amountUSD)}</Text>
+                </TouchableOpacity>
+              ))
+            )}
+          </View>
+        )}
+
         {/* Error Display */}
         {error && (
           <View style={styles.errorContainer}>
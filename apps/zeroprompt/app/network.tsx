@@ -494,10 +494,10 @@ export default function NetworkScreen() {
                 <Text style={styles.econCardTitle}>How Rewards Work</Text>
               </View>
               <Text style={styles.econText}>
-                Operators earn ZEROP for serving inference requests. Rewards are distributed proportionally based on:
+                Operators earn ZEROP for serving inference requests, plus their share of what users pay for priced models. Rewards are distributed proportionally based on:
               </Text>
               <View style={{ gap: 6, marginTop: 8 }}>
-                <Text style={styles.econText}>1. Number of requests served</Text>
+                <Text style={styles.econText}>1. Tokens served (prompt + completion)</Text>
                 <Text style={styles.econText}>
                   2. Performance score (success 40%, latency 30%, uptime 30%)
                 </Text>
@@ -507,7 +507,7 @@ export default function NetworkScreen() {
               </View>
               <View style={styles.formulaBox}>
                 <Text style={styles.formulaText}>
-                  weightedRequests = requests x (score/100) x (stakeWeight/100)
+                  weightedTokens = tokens x (score/100) x (stakeWeight/100)
                 </Text>
               </View>
             </View>
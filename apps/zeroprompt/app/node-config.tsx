@@ -11,7 +11,7 @@ import {
 } from "react-native";
 import { useRouter } from "expo-router";
 import { useTheme } from "../context/ThemeContext";
-import { useWriteContract, useAccount } from "wagmi";
+import { useWriteContract, useAccount, useSignMessage } from "wagmi";
 import { useSubnet } from "../context/SubnetContext";
 import {
   ArrowLeft,
@@ -23,12 +23,18 @@ import {
   Wallet,
   Plus,
   X,
+  Wrench,
+  Lock,
 } from "lucide-react-native";
 import {
   OPERATOR_REGISTRY_ADDRESS,
   OPERATOR_REGISTRY_ABI,
   SUBNET_CHAIN_ID,
   getOperatorRegistry,
+  sendOperatorAction,
+  fetchOperatorAvailability,
+  OperatorAction,
+  OperatorAvailability,
 } from "../lib/subnetContracts";
 
 export default function NodeConfigScreen() {
@@ -37,6 +43,7 @@ export default function NodeConfigScreen() {
   const { isConnected, address } = useAccount();
   const { refreshMyOperator } = useSubnet();
   const { writeContractAsync } = useWriteContract();
+  const { signMessageAsync } = useSignMessage();
 
   const [endpoint, setEndpoint] = useState("");
   const [newEndpoint, setNewEndpoint] = useState("");
@@ -48,6 +55,11 @@ export default function NodeConfigScreen() {
   const [txAction, setTxAction] = useState("");
   const [txError, setTxError] = useState<string | null>(null);
   const [endpointValidation, setEndpointValidation] = useState<"idle" | "validating" | "valid" | "invalid">("idle");
+  const [encryptionKey, setEncryptionKey] = useState("");
+  const [newEncryptionKey, setNewEncryptionKey] = useState("");
+  const [availability, setAvailability] = useState<OperatorAvailability | null>(null);
+  const [maintenanceHours, setMaintenanceHours] = useState("2");
+  const [maintenanceReason, setMaintenanceReason] = useState("");
 
   const styles = createStyles(colors);
 
@@ -61,6 +73,10 @@ export default function NodeConfigScreen() {
       setNewEndpoint(data[0]);
       setModels([...data[1]]);
       setIsActive(data[2]); // isRegistered
+      const key: string = await registry.getEncryptionKey(address).catch(() => "0x");
+      setEncryptionKey(key === "0x" ? "" : key);
+      setNewEncryptionKey(key === "0x" ? "" : key);
+      setAvailability(await fetchOperatorAvailability(address));
     } catch (err) {
       console.error("[NodeConfig] Load error:", err);
     } finally {
@@ -130,6 +146,81 @@ export default function NodeConfigScreen() {
     }
   };
 
+  const isValidEncryptionKey = (key: string) => key === "" || /^0x[0-9a-fA-F]{64}$/.test(key);
+
+  // The encryption proxy publishes its public key; read it instead of pasting it
+  const fetchNodeEncryptionKey = async () => {
+    try {
+      const res = await fetch(`${endpoint.replace(/\/$/, "")}/zeroprompt/v1/key`);
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const data = await res.json();
+      setNewEncryptionKey(data.publicKey || "");
+      setTxError(null);
+    } catch (err: any) {
+      setTxError(`Could not read the key from your node: ${err.message}`);
+      setTxState("error");
+    }
+  };
+
+  const handleUpdateEncryptionKey = async () => {
+    if (!writeContractAsync || !isValidEncryptionKey(newEncryptionKey.trim())) return;
+    setTxState("pending");
+    setTxAction("Updating encryption key");
+    setTxError(null);
+
+    try {
+      await writeContractAsync({
+        address: OPERATOR_REGISTRY_ADDRESS as `0x${string}`,
+        abi: OPERATOR_REGISTRY_ABI,
+        functionName: "setEncryptionKey",
+        args: [(newEncryptionKey.trim() || "0x") as `0x${string}`],
+        chainId: SUBNET_CHAIN_ID,
+      });
+      setTxState("success");
+      setEncryptionKey(newEncryptionKey.trim());
+      await refreshMyOperator();
+    } catch (err: any) {
+      setTxError(err.message || "Transaction failed");
+      setTxState("error");
+    }
+  };
+
+  // Drain / maintenance are signed messages applied by the API, no transaction
+  const runOperatorAction = async (action: OperatorAction, payload: unknown, label: string) => {
+    if (!address) return;
+    setTxState("pending");
+    setTxAction(label);
+    setTxError(null);
+
+    try {
+      await sendOperatorAction(address, action, payload, signMessageAsync);
+      setAvailability(await fetchOperatorAvailability(address));
+      setTxState("success");
+    } catch (err: any) {
+      setTxError(err.message || "Request failed");
+      setTxState("error");
+    }
+  };
+
+  const handleToggleDrain = () =>
+    runOperatorAction("drain", { draining: !availability?.draining }, availability?.draining ? "Resuming node" : "Draining node");
+
+  const handleScheduleMaintenance = () => {
+    const hours = Number(maintenanceHours);
+    if (!Number.isFinite(hours) || hours <= 0) return;
+    const startsAt = new Date();
+    const endsAt = new Date(startsAt.getTime() + hours * 60 * 60 * 1000);
+    runOperatorAction(
+      "maintenance",
+      { startsAt: startsAt.toISOString(), endsAt: endsAt.toISOString(), reason: maintenanceReason.trim() || undefined },
+      "Announcing maintenance"
+    );
+  };
+
+  const handleCancelMaintenance = () => runOperatorAction("maintenance", { cancel: true }, "Cancelling maintenance");
+
+  const maintenanceActive = !!availability?.maintenance && new Date(availability.maintenance.endsAt) > new Date();
+
   const addModel = () => {
     const trimmed = newModel.trim();
     if (trimmed && !models.includes(trimmed)) {
@@ -209,6 +300,82 @@ export default function NodeConfigScreen() {
               </View>
             </View>
 
+            {/* Availability */}
+            {isActive && (
+              <View style={styles.card}>
+                <View style={styles.cardHeader}>
+                  <Wrench size={20} color={colors.primary} />
+                  <Text style={styles.cardTitle}>Availability</Text>
+                </View>
+                <View style={[styles.toggleRow, { marginBottom: 12 }]}>
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.toggleLabel}>
+                      {availability?.draining ? "Draining" : "Accepting requests"}
+                    </Text>
+                    <Text style={styles.toggleDescription}>
+                      {availability?.draining
+                        ? "No new requests are routed to your node."
+                        : "Drain to stop new requests before restarting your node."}
+                    </Text>
+                  </View>
+                  <TouchableOpacity
+                    style={[styles.secondaryButton, txState === "pending" && styles.buttonDisabled]}
+                    onPress={handleToggleDrain}
+                    disabled={txState === "pending"}
+                  >
+                    <Text style={styles.secondaryButtonText}>
+                      {availability?.draining ? "Resume" : "Drain"}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+                {maintenanceActive ? (
+                  <>
+                    <Text style={styles.currentValue}>
+                      Maintenance until {new Date(availability!.maintenance!.endsAt).toLocaleString()}
+                      {availability!.maintenance!.reason ? ` (${availability!.maintenance!.reason})` : ""}
+                    </Text>
+                    <TouchableOpacity
+                      style={[styles.secondaryButton, txState === "pending" && styles.buttonDisabled]}
+                      onPress={handleCancelMaintenance}
+                      disabled={txState === "pending"}
+                    >
+                      <Text style={styles.secondaryButtonText}>End Maintenance</Text>
+                    </TouchableOpacity>
+                  </>
+                ) : (
+                  <>
+                    <Text style={styles.toggleDescription}>
+                      During maintenance your node gets no requests and failed health checks don't count against uptime.
+                    </Text>
+                    <View style={[styles.buttonRow, { marginTop: 12 }]}>
+                      <TextInput
+                        style={[styles.textInput, { width: 80, marginBottom: 0 }]}
+                        placeholder="Hours"
+                        placeholderTextColor={colors.textSecondary}
+                        value={maintenanceHours}
+                        onChangeText={setMaintenanceHours}
+                        keyboardType="numeric"
+                      />
+                      <TextInput
+                        style={[styles.textInput, { flex: 1, marginBottom: 0 }]}
+                        placeholder="Reason (optional)"
+                        placeholderTextColor={colors.textSecondary}
+                        value={maintenanceReason}
+                        onChangeText={setMaintenanceReason}
+                      />
+                    </View>
+                    <TouchableOpacity
+                      style={[styles.primaryButton, txState === "pending" && styles.buttonDisabled]}
+                      onPress={handleScheduleMaintenance}
+                      disabled={txState === "pending"}
+                    >
+                      <Text style={styles.primaryButtonText}>Start Maintenance</Text>
+                    </TouchableOpacity>
+                  </>
+                )}
+              </View>
+            )}
+
             {/* Endpoint */}
             <View style={styles.card}>
               <View style={styles.cardHeader}>
@@ -315,6 +482,46 @@ export default function NodeConfigScreen() {
               </TouchableOpacity>
             </View>
 
+            {/* Encryption */}
+            <View style={styles.card}>
+              <View style={styles.cardHeader}>
+                <Lock size={20} color={colors.primary} />
+                <Text style={styles.cardTitle}>Encrypted Inference</Text>
+              </View>
+              <Text style={styles.toggleDescription}>
+                Publish the public key of your node's encryption proxy to receive private-mode requests.
+                Prompts sent to your node are then readable only by it.
+              </Text>
+              <Text style={[styles.currentValue, { marginTop: 12 }]} numberOfLines={1}>
+                Current: {encryptionKey || "none (plain requests only)"}
+              </Text>
+              <TextInput
+                style={styles.textInput}
+                placeholder="0x… (32-byte X25519 public key)"
+                placeholderTextColor={colors.textSecondary}
+                value={newEncryptionKey}
+                onChangeText={setNewEncryptionKey}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              <View style={styles.buttonRow}>
+                <TouchableOpacity style={styles.secondaryButton} onPress={fetchNodeEncryptionKey}>
+                  <Text style={styles.secondaryButtonText}>Read From Node</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[
+                    styles.primaryButton,
+                    { flex: 1 },
+                    (newEncryptionKey.trim() === encryptionKey || !isValidEncryptionKey(newEncryptionKey.trim()) || txState === "pending") && styles.buttonDisabled,
+                  ]}
+                  onPress={handleUpdateEncryptionKey}
+                  disabled={newEncryptionKey.trim() === encryptionKey || !isValidEncryptionKey(newEncryptionKey.trim()) || txState === "pending"}
+                >
+                  <Text style={styles.primaryButtonText}>Save Key On-Chain</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+
             {/* Transaction Feedback */}
             {txState === "pending" && (
               <View style={styles.progressBox}>
@@ -325,7 +532,9 @@ export default function NodeConfigScreen() {
             {txState === "success" && (
               <View style={styles.successBox}>
                 <CheckCircle size={20} color={colors.success} />
-                <Text style={styles.successText}>Transaction successful!</Text>
+                <Text style={styles.successText}>
+                  {txAction.startsWith("Updating") ? "Transaction successful!" : "Done!"}
+                </Text>
               </View>
             )}
             {txState === "error" && txError && (
@@ -19,7 +19,8 @@ import {
   SUBNET_REWARDS_ABI,
   SUBNET_CHAIN_ID,
   formatZerop,
-  fetchCurrentEpoch,
+  fetchRewardHistory,
+  RewardHistory,
 } from "../lib/subnetContracts";
 import {
   ArrowLeft,
@@ -38,6 +39,8 @@ import {
   Plus,
   Settings,
   Gift,
+  Square,
+  CheckSquare,
 } from "lucide-react-native";
 
 interface OperatorDetails {
@@ -90,29 +93,47 @@ export default function OperatorScreen() {
   const [error, setError] = useState<string | null>(null);
   const [isClaiming, setIsClaiming] = useState(false);
   const [, setClaimSuccess] = useState(false);
+  const [rewardHistory, setRewardHistory] = useState<RewardHistory | null>(null);
+  const [selectedEpochs, setSelectedEpochs] = useState<number[]>([]);
 
   const styles = createStyles(colors);
 
-  const handleClaimRewards = async () => {
-    if (!writeContractAsync) return;
+  const isMine = !!selectedOperator && selectedOperator.address.toLowerCase() === user?.walletAddress?.toLowerCase();
+
+  const loadRewardHistory = useCallback(async (operatorAddress: string) => {
+    setRewardHistory(null);
+    try {
+      const history = await fetchRewardHistory(operatorAddress);
+      setRewardHistory(history);
+      setSelectedEpochs(history?.claimableEpochs ?? []);
+    } catch (err) {
+      console.error("Failed to fetch reward history:", err);
+    }
+  }, []);
+
+  const toggleEpoch = (epoch: number) => {
+    setSelectedEpochs((prev) => (prev.includes(epoch) ? prev.filter((e) => e !== epoch) : [...prev, epoch]));
+  };
+
+  // Claims the given epochs, or every claimable epoch of the connected wallet, in one transaction
+  const handleClaimRewards = async (epochs?: number[]) => {
+    if (!writeContractAsync || !user?.walletAddress) return;
     setIsClaiming(true);
     setClaimSuccess(false);
     try {
-      const currentEpoch = await fetchCurrentEpoch();
-      // Claim all epochs up to current
-      const epochs = [];
-      for (let i = 1; i <= currentEpoch; i++) epochs.push(BigInt(i));
-      if (epochs.length === 0) return;
+      const toClaim = epochs ?? (await fetchRewardHistory(user.walletAddress))?.claimableEpochs ?? [];
+      if (toClaim.length === 0) return;
 
       await writeContractAsync({
         address: SUBNET_REWARDS_ADDRESS as `0x${string}`,
         abi: SUBNET_REWARDS_ABI,
         functionName: "claimMultipleEpochs",
-        args: [epochs],
+        args: [toClaim.map((e) => BigInt(e))],
         chainId: SUBNET_CHAIN_ID,
       });
       setClaimSuccess(true);
       await refreshMyOperator();
+      if (isMine) await loadRewardHistory(user.walletAddress);
     } catch (err: any) {
       console.error("[Operator] Claim error:", err);
     } finally {
@@ -174,11 +195,12 @@ export default function OperatorScreen() {
         const data = await res.json();
         setSelectedOperator(data);
         fetchOperatorStats(operatorAddress);
+        loadRewardHistory(operatorAddress);
       }
     } catch (err) {
       console.error("Failed to fetch operator details:", err);
     }
-  }, [getHeaders, fetchOperatorStats]);
+  }, [getHeaders, fetchOperatorStats, loadRewardHistory]);
 
   useEffect(() => {
     fetchOperators();
@@ -322,8 +344,8 @@ export default function OperatorScreen() {
 
             <TouchableOpacity
               style={styles.claimButton}
-              onPress={() => handleClaimRewards()}
-              disabled={isClaiming}
+              onPress={() => handleClaimRewards(isMine ? selectedEpochs : undefined)}
+              disabled={isClaiming || (isMine && selectedEpochs.length === 0)}
             >
               {isClaiming ? (
                 <ActivityIndicator color={colors.background} size="small" />
@@ -331,7 +353,11 @@ export default function OperatorScreen() {
                 <DollarSign size={18} color={colors.background} />
               )}
               <Text style={styles.claimButtonText}>
-                {isClaiming ? "Claiming..." : "Claim Rewards"}
+                {isClaiming
+                  ? "Claiming..."
+                  : isMine
+                    ? `Claim ${selectedEpochs.length} Epoch${selectedEpochs.length !== 1 ? "s" : ""}`
+                    : "Claim Rewards"}
               </Text>
             </TouchableOpacity>
 
@@ -354,6 +380,68 @@ export default function OperatorScreen() {
             </View>
           </View>
 
+          {/* Epoch Rewards */}
+          {rewardHistory && (
+            <View style={styles.card}>
+              <View style={styles.cardHeader}>
+                <Gift size={20} color={colors.primary} />
+                <Text style={styles.cardTitle}>Epoch Rewards</Text>
+              </View>
+
+              <View style={styles.rewardsContainer}>
+                <View style={styles.rewardItem}>
+                  <Text style={styles.rewardLabel}>Unclaimed</Text>
+                  <Text style={styles.rewardValue}>{formatRewards(rewardHistory.unclaimedReward)}</Text>
+                </View>
+                <View style={styles.rewardItem}>
+                  <Text style={styles.rewardLabel}>Claimed</Text>
+                  <Text style={styles.rewardValue}>{formatRewards(rewardHistory.claimedReward)}</Text>
+                </View>
+              </View>
+
+              {rewardHistory.epochs.length === 0 ? (
+                <Text style={styles.epochEmpty}>No epochs indexed yet</Text>
+              ) : (
+                rewardHistory.epochs.map((entry) => {
+                  const selectable = isMine && entry.status === "claimable";
+                  const selected = selectedEpochs.includes(entry.epoch);
+                  const statusColor =
+                    entry.status === "claimable" ? colors.success :
+                    entry.status === "claimed" ? colors.textSecondary :
+                    entry.status === "open" ? colors.warning : colors.error;
+                  return (
+                    <TouchableOpacity
+                      key={entry.epoch}
+                      style={styles.epochRow}
+                      onPress={() => toggleEpoch(entry.epoch)}
+                      disabled={!selectable}
+                    >
+                      {selectable ? (
+                        selected ? <CheckSquare size={18} color={colors.primary} /> : <Square size={18} color={colors.textSecondary} />
+                      ) : (
+                        <View style={{ width: 18 }} />
+                      )}
+                      <View style={styles.epochInfo}>
+                        <Text style={styles.epochTitle}>Epoch {entry.epoch}</Text>
+                        <Text style={styles.epochMeta}>
+                          {entry.requests} req · {Number(entry.tokens).toLocaleString()} tokens · {entry.sharePercent}% share
+                        </Text>
+                      </View>
+                      <View style={styles.epochReward}>
+                        <Text style={styles.epochRewardValue}>
+                          {entry.reward !== null ? formatRewards(entry.reward) : "—"}
+                        </Text>
+                        <Text style={[styles.epochStatus, { color: statusColor }]}>
+                          {entry.status.replace("_", " ")}
+                        </Text>
+                      </View>
+                    </TouchableOpacity>
+                  );
+                })
+              )}
+            </View>
+          )}
+
           {/* Current Epoch Stats */}
           {selectedOperator.currentEpoch && (
             <View style={styles.card}>
@@ -1058,6 +1146,47 @@ const createStyles = (colors: any) =>
       fontSize: 16,
       fontWeight: "600"
     },
+    epochRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 12,
+      paddingVertical: 10,
+      borderTopWidth: 1,
+      borderTopColor: colors.border
+    },
+    epochInfo: {
+      flex: 1
+    },
+    epochTitle: {
+      fontSize: 14,
+      fontWeight: "600",
+      color: colors.text
+    },
+    epochMeta: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      marginTop: 2
+    },
+    epochReward: {
+      alignItems: "flex-end"
+    },
+    epochRewardValue: {
+      fontSize: 13,
+      fontWeight: "600",
+      color: colors.text
+    },
+    epochStatus: {
+      fontSize: 11,
+      fontWeight: "600",
+      textTransform: "uppercase",
+      marginTop: 2
+    },
+    epochEmpty: {
+      fontSize: 13,
+      color: colors.textSecondary,
+      textAlign: "center",
+      paddingVertical: 12
+    },
     statsGrid: {
       flexDirection: "row",
       justifyContent: "space-around"
@@ -7,6 +7,8 @@ import {
   TouchableOpacity,
   Platform,
   ActivityIndicator,
+  TextInput,
+  Clipboard,
 } from "react-native";
 import { useRouter } from "expo-router";
 import { useTheme } from "../context/ThemeContext";
@@ -31,8 +33,27 @@ import {
   CheckCircle,
   Link2,
   Search,
+  Key,
+  Copy,
+  Trash2,
+  Plus,
 } from "lucide-react-native";
 
+interface ApiKeyData {
+  id: number;
+  name: string;
+  keyPrefix: string;
+  scopes: string[];
+  allowedModels: string[] | null;
+  dailySpendCapUSD: number | null;
+  monthlySpendCapUSD: number | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  spend: { dailyUSD: number; monthlyUSD: number } | null;
+}
+
+const API_KEY_SCOPES = ["chat", "images", "agent"];
+
 interface ConnectedNodeData {
   address: string;
   endpoint: string;
@@ -45,7 +66,7 @@ interface ConnectedNodeData {
 export default function SettingsScreen() {
   const router = useRouter();
   const { theme: colors } = useTheme();
-  const { user } = useAuth();
+  const { user, getHeaders } = useAuth();
   const {
     mode,
     setMode,
@@ -64,8 +85,95 @@ export default function SettingsScreen() {
   const [epochCountdown, setEpochCountdown] = useState("");
   const [currentEpoch, setCurrentEpoch] = useState<number | null>(null);
 
+  // API keys (wallet users only)
+  const [apiKeys, setApiKeys] = useState<ApiKeyData[]>([]);
+  const [isLoadingKeys, setIsLoadingKeys] = useState(false);
+  const [newKeyName, setNewKeyName] = useState("");
+  const [newKeyScopes, setNewKeyScopes] = useState<string[]>(["chat"]);
+  const [newKeyModels, setNewKeyModels] = useState("");
+  const [newKeyDailyCap, setNewKeyDailyCap] = useState("");
+  const [newKeyMonthlyCap, setNewKeyMonthlyCap] = useState("");
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [keyError, setKeyError] = useState<string | null>(null);
+
   const styles = createStyles(colors);
 
+  const fetchApiKeys = useCallback(async () => {
+    if (!user?.walletAddress) {
+      setApiKeys([]);
+      return;
+    }
+    setIsLoadingKeys(true);
+    try {
+      const res = await fetch(`${API_URL}/api-keys`, { headers: getHeaders() });
+      if (res.ok) {
+        const data = await res.json();
+        setApiKeys(data.keys || []);
+      }
+    } catch (err) {
+      console.error("[Settings] Failed to fetch API keys:", err);
+    } finally {
+      setIsLoadingKeys(false);
+    }
+  }, [user?.walletAddress, getHeaders]);
+
+  useEffect(() => {
+    fetchApiKeys();
+  }, [fetchApiKeys]);
+
+  const toggleNewKeyScope = (scope: string) => {
+    setNewKeyScopes((prev) =>
+      prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]
+    );
+  };
+
+  const createApiKey = async () => {
+    setKeyError(null);
+    if (!newKeyName.trim()) {
+      setKeyError("Give the key a name");
+      return;
+    }
+    try {
+      const res = await fetch(`${API_URL}/api-keys`, {
+        method: "POST",
+        headers: getHeaders(),
+        body: JSON.stringify({
+          name: newKeyName.trim(),
+          scopes: newKeyScopes,
+          allowedModels: newKeyModels
+            .split(",")
+            .map((m) => m.trim())
+            .filter(Boolean),
+          dailySpendCapUSD: newKeyDailyCap ? parseFloat(newKeyDailyCap) : null,
+          monthlySpendCapUSD: newKeyMonthlyCap ? parseFloat(newKeyMonthlyCap) : null,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setKeyError(data.message || data.error || "Failed to create key");
+        return;
+      }
+      setCreatedKey(data.key);
+      setNewKeyName("");
+      setNewKeyModels("");
+      setNewKeyDailyCap("");
+      setNewKeyMonthlyCap("");
+      fetchApiKeys();
+    } catch (err) {
+      console.error("[Settings] Failed to create API key:", err);
+      setKeyError("Failed to create key");
+    }
+  };
+
+  const revokeApiKey = async (id: number) => {
+    try {
+      await fetch(`${API_URL}/api-keys/${id}`, { method: "DELETE", headers: getHeaders() });
+      fetchApiKeys();
+    } catch (err) {
+      console.error("[Settings] Failed to revoke API key:", err);
+    }
+  };
+
   // Fetch connected node data
   const fetchConnectedNode = useCallback(async () => {
     if (selectedNodeAddress == null) {
@@ -537,6 +645,137 @@ export default function SettingsScreen() {
           </TouchableOpacity>
         </View>
 
+        {/* ─── API Keys (wallet users) ─── */}
+        {user?.walletAddress && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>API Keys</Text>
+            <Text style={styles.sectionSubtitle}>
+              Use ZeroPrompt from scripts and OpenAI SDKs (base URL {API_URL}/v1)
+            </Text>
+
+            {createdKey && (
+              <View style={styles.createdKeyCard}>
+                <Text style={styles.createdKeyLabel}>
+                  Copy this key now - it won't be shown again
+                </Text>
+                <View style={styles.createdKeyRow}>
+                  <Text style={styles.createdKeyValue} numberOfLines={1}>
+                    {createdKey}
+                  </Text>
+                  <TouchableOpacity onPress={() => Clipboard.setString(createdKey)}>
+                    <Copy size={16} color={colors.primary} />
+                  </TouchableOpacity>
+                </View>
+                <TouchableOpacity onPress={() => setCreatedKey(null)}>
+                  <Text style={[styles.connectedNodeMeta, { color: colors.primary }]}>Done</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+
+            {/* New key form */}
+            <View style={styles.networkCard}>
+              <TextInput
+                style={styles.keyInput}
+                placeholder="Key name (e.g. my-agent)"
+                placeholderTextColor={colors.textSecondary}
+                value={newKeyName}
+                onChangeText={setNewKeyName}
+              />
+              <View style={[styles.modeFeatures, { marginBottom: 10 }]}>
+                {API_KEY_SCOPES.map((scope) => {
+                  const active = newKeyScopes.includes(scope);
+                  return (
+                    <TouchableOpacity
+                      key={scope}
+                      style={[styles.modeFeature, active && { backgroundColor: colors.primary + "20" }]}
+                      onPress={() => toggleNewKeyScope(scope)}
+                    >
+                      <Text style={[styles.modeFeatureText, active && { color: colors.primary }]}>
+                        {scope}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              <TextInput
+                style={styles.keyInput}
+                placeholder="Allowed models (comma separated, empty = all)"
+                placeholderTextColor={colors.textSecondary}
+                value={newKeyModels}
+                onChangeText={setNewKeyModels}
+                autoCapitalize="none"
+              />
+              <View style={{ flexDirection: "row", gap: 10 }}>
+                <TextInput
+                  style={[styles.keyInput, { flex: 1 }]}
+                  placeholder="Daily cap $"
+                  placeholderTextColor={colors.textSecondary}
+                  value={newKeyDailyCap}
+                  onChangeText={setNewKeyDailyCap}
+                  keyboardType="decimal-pad"
+                />
+                <TextInput
+                  style={[styles.keyInput, { flex: 1 }]}
+                  placeholder="Monthly cap $"
+                  placeholderTextColor={colors.textSecondary}
+                  value={newKeyMonthlyCap}
+                  onChangeText={setNewKeyMonthlyCap}
+                  keyboardType="decimal-pad"
+                />
+              </View>
+              {keyError && <Text style={[styles.connectedNodeMeta, { color: colors.error, marginBottom: 8 }]}>{keyError}</Text>}
+              <TouchableOpacity
+                style={[styles.connectedNodeBtn, { backgroundColor: colors.primary + "15" }]}
+                onPress={createApiKey}
+              >
+                <Plus size={14} color={colors.primary} />
+                <Text style={[styles.connectedNodeBtnText, { color: colors.primary }]}>Create Key</Text>
+              </TouchableOpacity>
+            </View>
+
+            {/* Existing keys */}
+            {isLoadingKeys ? (
+              <View style={styles.loadingContainer}>
+                <ActivityIndicator color={colors.primary} />
+              </View>
+            ) : apiKeys.length > 0 && (
+              <View style={[styles.modelsCard, { marginTop: 12 }]}>
+                {apiKeys.map((k) => (
+                  <View key={k.id} style={styles.modelItem}>
+                    <Key size={16} color={k.revokedAt ? colors.textSecondary : colors.primary} style={{ marginRight: 10 }} />
+                    <View style={styles.modelInfo}>
+                      <Text style={styles.modelName}>
+                        {k.name} <Text style={styles.modelMeta}>{k.keyPrefix}...</Text>
+                      </Text>
+                      <Text style={styles.modelMeta}>
+                        {k.scopes.join(", ")}
+                        {k.allowedModels ? ` | ${k.allowedModels.length} model${k.allowedModels.length !== 1 ? "s" : ""}` : ""}
+                      </Text>
+                      {k.spend && (
+                        <Text style={styles.modelMeta}>
+                          Today ${k.spend.dailyUSD.toFixed(4)}
+                          {k.dailySpendCapUSD != null ? ` / $${k.dailySpendCapUSD}` : ""} | Month $
+                          {k.spend.monthlyUSD.toFixed(4)}
+                          {k.monthlySpendCapUSD != null ? ` / $${k.monthlySpendCapUSD}` : ""}
+                        </Text>
+                      )}
+                    </View>
+                    {k.revokedAt ? (
+                      <View style={[styles.modelStatus, { backgroundColor: colors.error + "20" }]}>
+                        <Text style={[styles.modelStatusText, { color: colors.error }]}>Revoked</Text>
+                      </View>
+                    ) : (
+                      <TouchableOpacity style={styles.refreshButton} onPress={() => revokeApiKey(k.id)}>
+                        <Trash2 size={16} color={colors.error} />
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                ))}
+              </View>
+            )}
+          </View>
+        )}
+
         {/* ─── Info ─── */}
         <View style={styles.section}>
           <View style={styles.infoCard}>
@@ -887,4 +1126,38 @@ const createStyles = (colors: any) =>
       fontSize: 13,
       fontWeight: "600",
     },
+    keyInput: {
+      backgroundColor: colors.background,
+      borderRadius: 10,
+      borderWidth: 1,
+      borderColor: colors.border,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      fontSize: 14,
+      color: colors.text,
+      marginBottom: 10,
+    },
+    createdKeyCard: {
+      backgroundColor: colors.success + "15",
+      borderRadius: 16,
+      padding: 16,
+      marginBottom: 12,
+      gap: 8,
+    },
+    createdKeyLabel: {
+      fontSize: 13,
+      fontWeight: "600",
+      color: colors.text,
+    },
+    createdKeyRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 10,
+    },
+    createdKeyValue: {
+      flex: 1,
+      fontSize: 12,
+      color: colors.text,
+      fontFamily: Platform.OS === "web" ? "monospace" : undefined,
+    },
   });
@@ -4,7 +4,7 @@ import {
   StyleSheet, Platform, Image, useWindowDimensions, ActivityIndicator, Modal
 } from 'react-native';
 import { useAccount, useSignTypedData, useSendTransaction } from 'wagmi';
-import { getAddress, parseEther } from 'viem';
+import { formatEther, getAddress } from 'viem';
 import { Stack, useRouter } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useTheme } from '../../context/ThemeContext';
@@ -23,6 +23,7 @@ import { VAULT_ADDRESS, MERCHANT_ADDRESS as RAW_MERCHANT_ADDRESS } from '../../l
 import { useBilling } from '../../context/BillingContext';
 import DepositModal from '../../components/DepositModal';
 import ProtocolDemos from '../../components/ProtocolDemos';
+import { createExactPayment, encodePaymentHeader, selectRequirement, X402_VERSION } from '../../lib/x402-client';
 
 // ============================================================================
 // CONFIG - x402 EIP-3009 (Avalanche Only)
@@ -398,13 +399,18 @@ export default function ProtocolPage() {
       // Parse 402 challenge
       const challenge = await initialResponse.json();
       addLog('✓ Received x402 payment challenge', 'success');
-      addLog(`→ Price: $${challenge.accepts?.[0]?.price || '0.05'} USDC`, 'info');
-      addLog(`→ Merchant: ${MERCHANT_ADDRESS}`, 'info');
-
-      const paymentRequirement = challenge.accepts?.[0];
+      const usdcRequirement = selectRequirement(challenge, { network: 'avalanche' });
+      const nativeRequirement = selectRequirement(challenge, { scheme: 'x402-native', network: 'avalanche' });
+      const paymentRequirement = paymentMethod === 'usdc' ? usdcRequirement : nativeRequirement;
       if (!paymentRequirement) {
-        throw new Error('Invalid 402 response: no payment requirements');
+        throw new Error(`Invalid 402 response: no ${paymentMethod === 'usdc' ? 'USDC' : 'AVAX'} payment on Avalanche`);
       }
+      const priceUSD = paymentRequirement.extra?.priceUSD ?? '0.05';
+      addLog(`→ Price: $${priceUSD} (${paymentRequirement.scheme} on ${paymentRequirement.network})`, 'info');
+      if (challenge.quote) {
+        addLog(`→ Quote: ${challenge.quote.id} (valid until ${new Date(challenge.quote.expiresAt).toLocaleTimeString()})`, 'info');
+      }
+      addLog(`→ Merchant: ${MERCHANT_ADDRESS}`, 'info');
 
       // ═══════════════════════════════════════════════════════════════
       // STEP 2: PAY (USDC or Native)
@@ -415,95 +421,54 @@ export default function ProtocolPage() {
       addLog(`STEP 2: ${paymentMethod === 'usdc' ? 'SIGNING USDC AUTHORIZATION' : 'SENDING NATIVE PAYMENT'}`, 'info');
       addLog('══════════════════════════════════════', 'info');
 
-      // Convert price
-      const priceUSD = parseFloat(paymentRequirement.price);
-
-      let signature: string | null = null;
-      let usdcAmount: bigint | null = null;
-      let txHash: string | null = null;
-      let nonce: string | null = null;
-      let validAfter: bigint | null = null;
-      let validBefore: bigint | null = null;
+      let paymentPayload: object;
 
       if (paymentMethod === 'usdc') {
-        // USDC Payment via EIP-3009 TransferWithAuthorization
+        // USDC Payment via the x402 `exact` scheme (EIP-3009 TransferWithAuthorization)
         addLog(`→ Token: USDC on ${AVALANCHE_CONFIG.name}`, 'info');
-        addLog(`→ Amount: $${paymentRequirement.price} USDC`, 'info');
+        addLog(`→ Amount: $${priceUSD} USDC`, 'info');
         addLog('→ ⚡ Gas fees are SPONSORED!', 'success');
         addLog('→ Opening wallet for signature...', 'pending');
-
-        // Convert price to USDC units (6 decimals)
-        usdcAmount = BigInt(Math.ceil(priceUSD * 1_000_000));
-
-        // Generate random nonce
-        const nonceBytes = new Uint8Array(32);
-        crypto.getRandomValues(nonceBytes);
-        nonce = '0x' + Array.from(nonceBytes).map(b => b.toString(16).padStart(2, '0')).join('');
-
-        const now = Math.floor(Date.now() / 1000);
-        validAfter = BigInt(now - 60);
-        validBefore = BigInt(now + 3600);
-
-        // EIP-712 domain for USDC
-        const domain = {
-          name: 'USD Coin',
-          version: '2',
-          chainId: AVALANCHE_CONFIG.chainId,
-          verifyingContract: AVALANCHE_CONFIG.usdc as `0x${string}`
-        };
-
-        // EIP-3009 TransferWithAuthorization types
-        const types = {
-          TransferWithAuthorization: [
-            { name: 'from', type: 'address' },
-            { name: 'to', type: 'address' },
-            { name: 'value', type: 'uint256' },
-            { name: 'validAfter', type: 'uint256' },
-            { name: 'validBefore', type: 'uint256' },
-            { name: 'nonce', type: 'bytes32' }
-          ]
-        } as const;
-
-        const message = {
-          from: address,
-          to: MERCHANT_ADDRESS,
-          value: usdcAmount,
-          validAfter,
-          validBefore,
-          nonce: nonce as `0x${string}`
-        };
-
         addLog(`→ Signing EIP-3009 authorization...`, 'pending');
 
-        signature = await signTypedDataAsync({
-          domain,
-          types,
-          primaryType: 'TransferWithAuthorization',
-          message
+        const exactPayment = await createExactPayment(paymentRequirement, {
+          from: address,
+          signTypedData: signTypedDataAsync,
+          quoteId: challenge.quote?.id,
         });
+        paymentPayload = exactPayment;
 
         addLog('✓ Signature obtained!', 'success');
-        addLog(`→ Signature: ${signature.slice(0, 20)}...`, 'info');
+        addLog(`→ Signature: ${exactPayment.payload.signature.slice(0, 20)}...`, 'info');
       } else {
-        // Native Payment (AVAX, ETH, etc)
-        const nativeAmount = priceUSD / (avaxPrice || 35);
-        const amountWei = parseEther(nativeAmount.toFixed(18));
+        // Native Payment: the challenge prices it in wei
+        const amountWei = BigInt(paymentRequirement.maxAmountRequired);
 
         addLog(`→ Token: ${AVALANCHE_CONFIG.nativeCurrency} on ${AVALANCHE_CONFIG.name}`, 'info');
-        addLog(`→ Amount: ${nativeAmount.toFixed(4)} ${AVALANCHE_CONFIG.nativeCurrency} (~$${priceUSD})`, 'info');
+        addLog(`→ Amount: ${formatEther(amountWei)} ${AVALANCHE_CONFIG.nativeCurrency} (~$${priceUSD})`, 'info');
         addLog('→ You will pay gas + payment', 'info');
         addLog('→ Opening wallet for transaction...', 'pending');
 
-        // Send native transaction directly to merchant
-        const tx = await sendTransactionAsync({
+        // Send native transaction directly to merchant, with the intent nonce as data
+        // so it can only pay for this challenge
+        addLog(`→ Payment intent: ${paymentRequirement.extra?.intentId}`, 'info');
+        const txHash = await sendTransactionAsync({
           to: MERCHANT_ADDRESS as `0x${string}`,
           value: amountWei,
+          data: paymentRequirement.extra?.nonce as `0x${string}`,
           chainId: AVALANCHE_CONFIG.chainId
         });
 
-        txHash = tx;
         addLog('✓ Transaction sent!', 'success');
         addLog(`→ TxHash: ${txHash.slice(0, 20)}...`, 'info');
+
+        paymentPayload = {
+          x402Version: X402_VERSION,
+          scheme: 'x402-native',
+          network: paymentRequirement.network,
+          quoteId: challenge.quote?.id,
+          payload: { txHash, from: address }
+        };
       }
 
       // ═══════════════════════════════════════════════════════════════
@@ -514,49 +479,9 @@ export default function ProtocolPage() {
       addLog('══════════════════════════════════════', 'info');
       addLog('STEP 3: SUBMITTING x402 PAYMENT', 'info');
       addLog('══════════════════════════════════════', 'info');
+      addLog(`→ ${paymentMethod === 'usdc' ? 'exact (EIP-3009)' : 'Native tx'} payment payload created`, 'info');
 
-      // Build x402 payment payload
-      let paymentPayload: any;
-
-      if (paymentMethod === 'usdc' && signature && usdcAmount && validAfter !== null && validBefore !== null && nonce) {
-        // USDC payment with EIP-3009 signature
-        paymentPayload = {
-          x402Version: 2,
-          scheme: 'x402-eip3009',
-          network: 'avalanche',
-          chainId: AVALANCHE_CONFIG.chainId,
-          token: AVALANCHE_CONFIG.usdc,
-          payload: {
-            from: address,
-            to: MERCHANT_ADDRESS,
-            value: usdcAmount.toString(),
-            validAfter: validAfter.toString(),
-            validBefore: validBefore.toString(),
-            nonce,
-            signature
-          }
-        };
-        addLog(`→ EIP-3009 payment payload created`, 'info');
-      } else if (txHash) {
-        // Native payment with transaction hash
-        paymentPayload = {
-          x402Version: 2,
-          scheme: 'x402-native',
-          network: 'avalanche',
-          chainId: AVALANCHE_CONFIG.chainId,
-          payload: {
-            txHash,
-            from: address,
-            to: MERCHANT_ADDRESS,
-            amount: priceUSD.toString()
-          }
-        };
-        addLog(`→ Native tx payment payload created`, 'info');
-      } else {
-        throw new Error('Invalid payment method or missing payment data');
-      }
-
-      const finalPaymentHeader = btoa(JSON.stringify(paymentPayload));
+      const finalPaymentHeader = encodePaymentHeader(paymentPayload);
       addLog(`→ Sending payment to backend...`, 'pending');
 
       // Retry request with payment
@@ -695,19 +620,25 @@ curl -X POST "${PROD_API_URL}/agent/generate" \\
 # Response: HTTP 402 with payment requirements
 # {
 #   "x402Version": 2,
+#   "x402Version": 1,
 #   "accepts": [{
-#     "scheme": "x402-eip3009",
+#     "scheme": "exact",
 #     "network": "avalanche",
-#     "token": "USDC",
-#     "price": "0.05",
-#     "gasSponsored": true
-#   }]
+#     "maxAmountRequired": "12346",
+#     "payTo": "${MERCHANT_ADDRESS}",
+#     "asset": "0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E",
+#     "extra": { "name": "USD Coin", "version": "2", "chainId": 43114, "priceUSD": "0.012346", "quoteId": "<quote id>" }
+#   }, ...],
+#   "quote": { "id": "<quote id>", "amountUSD": "0.012346", "expiresAt": "...", "signature": "..." }
 # }
+# The price is quoted for this exact model and prompt, valid for 5 minutes
 
 # STEP 2: Sign EIP-3009 USDC authorization (see TypeScript example)
 # No gas fees! Server settles payment on-chain for you
 
-# STEP 3: Retry request with signed authorization
+# STEP 3: Retry the same request with the signed authorization and quoteId:
+# X-PAYMENT = base64({ "x402Version": 1, "scheme": "exact", "network": "avalanche",
+#                      "quoteId": "<quote id>", "payload": { "authorization": {...}, "signature": "0x..." } })
 curl -X POST "${PROD_API_URL}/agent/generate" \\
   -H "Content-Type: application/json" \\
   -H "X-PAYMENT: <base64-encoded-signature-payload>" \\
@@ -722,7 +653,7 @@ curl -X POST "${PROD_API_URL}/agent/generate" \\
 // Payment: USDC with Gas Sponsorship!
 // ══════════════════════════════════════════════════════════════
 
-import { createWalletClient, http, parseUnits } from 'viem';
+import { createWalletClient, http } from 'viem';
 import { avalanche } from 'viem/chains';
 import { privateKeyToAccount } from 'viem/accounts';
 import { randomBytes } from 'crypto';
@@ -732,7 +663,6 @@ import { randomBytes } from 'crypto';
 // ═══════════════════════════════════════════════════════════════
 const API_URL = '${PROD_API_URL}';
 const MERCHANT = '${MERCHANT_ADDRESS}';
-const USDC_ADDRESS = '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E'; // Avalanche
 
 // For agents: use private key (keep secure!)
 const account = privateKeyToAccount('0xYOUR_PRIVATE_KEY');
@@ -759,21 +689,23 @@ async function callZeroPrompt(prompt: string, model: string) {
   }
 
   const challenge = await initialRes.json();
-  const priceUSD = parseFloat(challenge.accepts[0].price);
-  console.log(\`Price: \$\${priceUSD} USDC (gas sponsored!)\`);
+  // Take the standard "exact" scheme (USDC via EIP-3009) on Avalanche
+  const requirement = challenge.accepts.find((a) => a.scheme === 'exact' && a.network === 'avalanche');
+  const quoteId = challenge.quote?.id; // price is bound to this model + prompt
+  console.log(\`Price: \$\${requirement.extra.priceUSD} USDC (gas sponsored!)\`);
 
   // 2. Sign EIP-3009 TransferWithAuthorization
-  const usdcAmount = parseUnits(priceUSD.toString(), 6);
+  const usdcAmount = BigInt(requirement.maxAmountRequired); // 6 decimals
   const nonce = '0x' + randomBytes(32).toString('hex');
   const now = Math.floor(Date.now() / 1000);
 
   const signature = await walletClient.signTypedData({
     account,
     domain: {
-      name: 'USD Coin',
-      version: '2',
-      chainId: avalanche.id,
-      verifyingContract: USDC_ADDRESS
+      name: requirement.extra.name,
+      version: requirement.extra.version,
+      chainId: requirement.extra.chainId,
+      verifyingContract: requirement.asset
     },
     types: {
       TransferWithAuthorization: [
@@ -796,10 +728,12 @@ async function callZeroPrompt(prompt: string, model: string) {
     }
   });
 
-  // 3. Retry with signed authorization
+  // 3. Retry the same request with signed authorization and the quote id
   const paymentPayload = {
-    x402Version: 2,
-    scheme: 'x402-eip3009',
+    x402Version: 1,
+    scheme: 'exact',
+    network: requirement.network,
+    quoteId,
     payload: {
       authorization: {
         from: account.address,
@@ -855,7 +789,6 @@ import secrets
 API_URL = '${PROD_API_URL}'
 MERCHANT = '${MERCHANT_ADDRESS}'
 PRIVATE_KEY = '0xYOUR_PRIVATE_KEY'  # Keep secure!
-USDC_ADDRESS = '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E'  # Avalanche
 
 w3 = Web3(Web3.HTTPProvider('https://api.avax.network/ext/bc/C/rpc'))
 account = w3.eth.account.from_key(PRIVATE_KEY)
@@ -873,11 +806,13 @@ def call_zeroprompt(prompt: str, model: str) -> dict:
         return initial_res.json()
 
     challenge = initial_res.json()
-    price_usd = float(challenge['accepts'][0]['price'])
-    print(f"Price: \${price_usd} USDC (gas sponsored!)")
+    # Take the standard "exact" scheme (USDC via EIP-3009) on Avalanche
+    requirement = next(a for a in challenge['accepts'] if a['scheme'] == 'exact' and a['network'] == 'avalanche')
+    quote_id = challenge.get('quote', {}).get('id')  # price is bound to this model + prompt
+    print(f"Price: \${requirement['extra']['priceUSD']} USDC (gas sponsored!)")
 
     # 2. Sign EIP-3009 TransferWithAuthorization
-    usdc_amount = int(price_usd * 1_000_000)  # 6 decimals
+    usdc_amount = int(requirement['maxAmountRequired'])  # 6 decimals
     nonce = '0x' + secrets.token_hex(32)
     now = int(time.time())
 
@@ -900,10 +835,10 @@ def call_zeroprompt(prompt: str, model: str) -> dict:
         },
         'primaryType': 'TransferWithAuthorization',
         'domain': {
-            'name': 'USD Coin',
-            'version': '2',
-            'chainId': 43114,
-            'verifyingContract': USDC_ADDRESS
+            'name': requirement['extra']['name'],
+            'version': requirement['extra']['version'],
+            'chainId': requirement['extra']['chainId'],
+            'verifyingContract': requirement['asset']
         },
         'message': {
             'from': account.address,
@@ -919,8 +854,10 @@ def call_zeroprompt(prompt: str, model: str) -> dict:
 
     # 3. Build x402 payment payload
     payment_payload = {
-        'x402Version': 2,
-        'scheme': 'x402-eip3009',
+        'x402Version': 1,
+        'scheme': 'exact',
+        'network': requirement['network'],
+        'quoteId': quote_id,
         'payload': {
             'authorization': {
                 'from': account.address,
@@ -20,10 +20,25 @@ import {
   DollarSign,
   Zap,
   ExternalLink,
-  Filter
+  Filter,
+  RotateCcw,
+  Ticket
 } from "lucide-react-native";
 import { API_URL } from "../../config/api";
 
+// Money given back for a request that failed or partially failed
+interface X402Refund {
+  id: string;
+  kind: 'onchain' | 'credit_note' | 'session';
+  amountUSD: string;
+  currency: string;
+  amount: string;
+  balanceUSD: string | null;
+  status: string;
+  txHash: string | null;
+  reason: string;
+}
+
 interface X402Payment {
   id: number;
   txHash: string | null;
@@ -35,6 +50,12 @@ interface X402Payment {
   model: string | null;
   status: string;
   errorMessage: string | null;
+  creditNoteId: string | null;
+  sessionId: string | null;
+  fulfillment: 'pending' | 'fulfilled' | 'partial' | 'failed';
+  fulfilledUnits: number | null;
+  totalUnits: number | null;
+  refunds: X402Refund[];
   createdAt: string;
 }
 
@@ -44,6 +65,8 @@ interface Stats {
   failed: number;
   pending: number;
   totalUSDC: string;
+  unfulfilled: number;
+  refundedUSD: string;
 }
 
 const StatusBadge = ({ status }: { status: string }) => {
@@ -68,6 +91,33 @@ const StatusBadge = ({ status }: { status: string }) => {
   );
 };
 
+// Only shown when the paid request did not deliver everything
+const FulfillmentBadge = ({ payment }: { payment: X402Payment }) => {
+  if (payment.fulfillment !== 'partial' && payment.fulfillment !== 'failed') return null;
+  const color = payment.fulfillment === 'failed' ? '#FF4444' : '#FFC107';
+  const label = payment.fulfillment === 'partial' && payment.totalUnits
+    ? `${payment.fulfilledUnits}/${payment.totalUnits} served`
+    : 'not served';
+
+  return (
+    <View style={[styles.badge, styles.fulfillmentBadge, { backgroundColor: `${color}1A` }]}>
+      <Text style={[styles.badgeText, { color }]}>{label}</Text>
+    </View>
+  );
+};
+
+const refundLabel = (refund: X402Refund) => {
+  if (refund.kind === 'session') {
+    return `$${refund.amountUSD} back to the session`;
+  }
+  if (refund.kind === 'credit_note') {
+    return refund.status === 'open'
+      ? `Credit note $${refund.amountUSD} ($${refund.balanceUSD} left)`
+      : `Credit note $${refund.amountUSD} (redeemed)`;
+  }
+  return `Refund ${refund.amount} ${refund.currency} (${refund.status})`;
+};
+
 const truncateAddress = (address: string) => {
   if (!address) return 'N/A';
   return `${address.slice(0, 6)}...${address.slice(-4)}`;
@@ -200,6 +250,13 @@ export default function X402LogsScreen() {
               <Text style={[styles.statValue, { color: colors.text }]}>{stats.failed}</Text>
               <Text style={[styles.statLabel, { color: colors.textSecondary }]}>Failed</Text>
             </View>
+            <View style={[styles.statCard, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+              <RotateCcw size={20} color="#00BFFF" />
+              <Text style={[styles.statValue, { color: colors.text }]}>${stats.refundedUSD}</Text>
+              <Text style={[styles.statLabel, { color: colors.textSecondary }]}>
+                Refunded ({stats.unfulfilled} unfulfilled)
+              </Text>
+            </View>
             <View style={[styles.statCard, { backgroundColor: colors.surface, borderColor: colors.border }]}>
               <Zap size={20} color="#FFC107" />
               <Text style={[styles.statValue, { color: colors.text }]}>{stats.total}</Text>
@@ -255,51 +312,73 @@ export default function X402LogsScreen() {
               </View>
             ) : (
               payments.map((payment) => (
-                <View key={payment.id} style={[styles.tableRow, { borderBottomColor: colors.border }]}>
-                  <View style={[styles.tableCell, styles.colStatus]}>
-                    <StatusBadge status={payment.status} />
-                  </View>
-                  <View style={[styles.tableCell, styles.colAmount]}>
-                    <Text style={[styles.amountText, { color: colors.text }]}>
-                      ${payment.amountUSDC}
-                    </Text>
-                    <Text style={[styles.priceText, { color: colors.textSecondary }]}>
-                      (price: ${payment.priceUSD})
-                    </Text>
-                  </View>
-                  <View style={[styles.tableCell, styles.colEndpoint]}>
-                    <Text style={[styles.endpointText, { color: '#00FF41' }]}>
-                      {payment.endpoint}
-                    </Text>
-                    {payment.model && (
-                      <Text style={[styles.modelText, { color: colors.textSecondary }]} numberOfLines={1}>
-                        {payment.model.split('/')[1] || payment.model}
+                <View key={payment.id} style={[styles.paymentRow, { borderBottomColor: colors.border }]}>
+                  <View style={styles.tableRow}>
+                    <View style={[styles.tableCell, styles.colStatus]}>
+                      <StatusBadge status={payment.status} />
+                      <FulfillmentBadge payment={payment} />
+                    </View>
+                    <View style={[styles.tableCell, styles.colAmount]}>
+                      <Text style={[styles.amountText, { color: colors.text }]}>
+                        ${payment.amountUSDC}
                       </Text>
-                    )}
-                  </View>
-                  <View style={[styles.tableCell, styles.colFrom]}>
-                    <Text style={[styles.addressText, { color: colors.text }]}>
-                      {truncateAddress(payment.fromAddress)}
-                    </Text>
-                  </View>
-                  <View style={[styles.tableCell, styles.colTx]}>
-                    {payment.txHash ? (
-                      <TouchableOpacity
-                        style={styles.txLink}
-                        onPress={() => openTxInExplorer(payment.txHash)}
-                      >
-                        <Text style={styles.txText}>{truncateTxHash(payment.txHash)}</Text>
-                        <ExternalLink size={12} color="#00FF41" />
-                      </TouchableOpacity>
-                    ) : (
-                      <Text style={[styles.naText, { color: colors.textSecondary }]}>N/A</Text>
-                    )}
-                  </View>
-                  <View style={[styles.tableCell, styles.colDate]}>
-                    <Text style={[styles.dateText, { color: colors.textSecondary }]}>
-                      {formatDate(payment.createdAt)}
-                    </Text>
+                      <Text style={[styles.priceText, { color: colors.textSecondary }]}>
+                        {payment.sessionId ? '(session)' : payment.creditNoteId ? '(credit note)' : `(price: $${payment.priceUSD})`}
+                      </Text>
+                    </View>
+                    <View style={[styles.tableCell, styles.colEndpoint]}>
+                      <Text style={[styles.endpointText, { color: '#00FF41' }]}>
+                        {payment.endpoint}
+                      </Text>
+                      {payment.model && (
+                        <Text style={[styles.modelText, { color: colors.textSecondary }]} numberOfLines={1}>
+                          {payment.model.split('/')[1] || payment.model}
+                        </Text>
+                      )}
+                    </View>
+                    <View style={[styles.tableCell, styles.colFrom]}>
+                      <Text style={[styles.addressText, { color: colors.text }]}>
+                        {truncateAddress(payment.fromAddress)}
+                      </Text>
+                    </View>
+                    <View style={[styles.tableCell, styles.colTx]}>
+                      {payment.txHash ? (
+                        <TouchableOpacity
+                          style={styles.txLink}
+                          onPress={() => openTxInExplorer(payment.txHash)}
+                        >
+                          <Text style={styles.txText}>{truncateTxHash(payment.txHash)}</Text>
+                          <ExternalLink size={12} color="#00FF41" />
+                        </TouchableOpacity>
+                      ) : (
+                        <Text style={[styles.naText, { color: colors.textSecondary }]}>N/A</Text>
+                      )}
+                    </View>
+                    <View style={[styles.tableCell, styles.colDate]}>
+                      <Text style={[styles.dateText, { color: colors.textSecondary }]}>
+                        {formatDate(payment.createdAt)}
+                      </Text>
+                    </View>
                   </View>
+
+                  {/* Refunds and credit notes for what the request did not deliver */}
+                  {payment.refunds?.map((refund) => (
+                    <View key={refund.id} style={styles.refundRow}>
+                      {refund.kind === 'credit_note'
+                        ? <Ticket size={12} color="#00BFFF" />
+                        : <RotateCcw size={12} color={refund.status === 'failed' ? '#FF4444' : '#00BFFF'} />}
+                      <Text style={[styles.refundText, { color: colors.text }]}>{refundLabel(refund)}</Text>
+                      <Text style={[styles.refundReason, { color: colors.textSecondary }]} numberOfLines={1}>
+                        {refund.reason}
+                      </Text>
+                      {refund.txHash && (
+                        <TouchableOpacity style={styles.txLink} onPress={() => openTxInExplorer(refund.txHash)}>
+                          <Text style={styles.txText}>{truncateTxHash(refund.txHash)}</Text>
+                          <ExternalLink size={12} color="#00FF41" />
+                        </TouchableOpacity>
+                      )}
+                    </View>
+                  ))}
                 </View>
               ))
             )}
@@ -417,11 +496,29 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     textTransform: 'uppercase',
   },
+  paymentRow: {
+    borderBottomWidth: 1,
+  },
   tableRow: {
     flexDirection: 'row',
     paddingVertical: 12,
     paddingHorizontal: 16,
-    borderBottomWidth: 1,
+  },
+  refundRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingBottom: 10,
+    marginLeft: 90,
+  },
+  refundText: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  refundReason: {
+    flex: 1,
+    fontSize: 11,
   },
   tableCell: {
     justifyContent: 'center',
@@ -441,6 +538,9 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     alignSelf: 'flex-start',
   },
+  fulfillmentBadge: {
+    marginTop: 4,
+  },
   badgeText: {
     fontSize: 11,
     fontWeight: '600',
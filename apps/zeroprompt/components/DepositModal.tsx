@@ -16,6 +16,7 @@ import {
 } from "react-native";
 import { X, Coins, Zap, AlertCircle, CheckCircle, ExternalLink } from "lucide-react-native";
 import { API_URL } from "../config/api";
+import { useRouter } from "expo-router";
 
 // Lazy load deposit widget for web only
 const DepositWidgetComponent = Platform.OS === "web"
@@ -599,6 +600,7 @@ export default function DepositModal({
   isWaitingForConnection,
 }: DepositModalProps) {
   const { width, height } = useWindowDimensions();
+  const router = useRouter();
   const isMobile = width < 500;
   const [selectedMethod, setSelectedMethod] = useState<string | null>(null);
   const [selectedAmount, setSelectedAmount] = useState<string>("1"); // Default to $1
@@ -910,6 +912,12 @@ export default function DepositModal({
             <Text style={[styles.footerText, { color: theme.textMuted }, isMobile && { fontSize: 10 }]}>
               Secure & Non-custodial - Avalanche C-Chain
             </Text>
+            {/* Unused deposits can be taken back with an operator-signed vault permit */}
+            <TouchableOpacity onPress={() => { onClose(); router.push("/dashboard"); }} style={{ marginTop: 6 }}>
+              <Text style={[styles.footerText, { color: '#8B5CF6' }, isMobile && { fontSize: 10 }]}>
+                Withdraw unused credits →
+              </Text>
+            </TouchableOpacity>
           </View>
         </View>
       </View>
@@ -15,21 +15,23 @@ import {
     StatusBar
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { Video, ResizeMode } from 'expo-av';
 import {
     X, Image as ImageIcon, Download, Share2, ChevronLeft, ChevronRight,
-    Calendar, Cpu, MessageSquare, Sparkles, Grid, ExternalLink
+    Calendar, Cpu, MessageSquare, Sparkles, Grid, ExternalLink, Film, Music
 } from 'lucide-react-native';
 import { API_URL } from '../config/api';
 
 type GalleryImage = {
     id: string;
     url: string;
+    type?: 'image' | 'video' | 'audio'; // Older API responses omit it (images only)
     model: string;
     prompt: string;
     conversationId: string;
     conversationTitle: string;
     createdAt: string;
-    source: 'tool' | 'ai-model';
+    source: 'tool' | 'ai-model' | 'media-job';
 };
 
 interface ImageGalleryModalProps {
@@ -74,6 +76,37 @@ export const downloadImage = async (url: string, filename?: string) => {
     }
 };
 
+const FILE_EXTENSIONS = { image: 'png', video: 'mp4', audio: 'mp3' };
+
+// Grid tile: the image itself, or an icon tile for video/audio
+const MediaThumb = ({ item, style }: { item: GalleryImage; style: any }) => {
+    if (item.type === 'video' || item.type === 'audio') {
+        const Icon = item.type === 'video' ? Film : Music;
+        return (
+            <View style={[style, styles.mediaThumb]}>
+                <Icon size={32} color="#00FF41" />
+                <Text style={styles.mediaThumbLabel}>{item.type.toUpperCase()}</Text>
+            </View>
+        );
+    }
+    return <Image source={{ uri: item.url }} style={style} resizeMode="cover" />;
+};
+
+// Viewer body: full image, or a player for video/audio
+const MediaViewer = ({ item, style }: { item: GalleryImage; style: any }) => {
+    if (item.type === 'video' || item.type === 'audio') {
+        return (
+            <Video
+                style={[style, item.type === 'audio' && styles.audioPlayer]}
+                source={{ uri: item.url }}
+                useNativeControls
+                resizeMode={ResizeMode.CONTAIN}
+            />
+        );
+    }
+    return <Image source={{ uri: item.url }} style={style} resizeMode="contain" />;
+};
+
 // Utility function to share image
 export const shareImage = async (url: string, prompt?: string) => {
     if (Platform.OS === 'web') {
@@ -217,7 +250,7 @@ export default function ImageGalleryModal({
 
     const handleDownload = async (image: GalleryImage) => {
         setDownloading(true);
-        await downloadImage(image.url);
+        await downloadImage(image.url, `zeroprompt-${image.type || 'image'}-${Date.now()}.${FILE_EXTENSIONS[image.type || 'image']}`);
         setDownloading(false);
     };
 
@@ -276,8 +309,8 @@ export default function ImageGalleryModal({
                         {!loading && !error && images.length === 0 && (
                             <View style={styles.centerState}>
                                 <ImageIcon size={40} color="rgba(255,255,255,0.2)" />
-                                <Text style={styles.emptyTitle}>No images yet</Text>
-                                <Text style={styles.stateText}>Generate images to see them here</Text>
+                                <Text style={styles.emptyTitle}>Nothing here yet</Text>
+                                <Text style={styles.stateText}>Generate images, video or audio to see them here</Text>
                             </View>
                         )}
 
@@ -290,10 +323,9 @@ export default function ImageGalleryModal({
                                         onPress={() => openImageViewer(image, index)}
                                         activeOpacity={0.8}
                                     >
-                                        <Image
-                                            source={{ uri: image.url }}
+                                        <MediaThumb
+                                            item={image}
                                             style={[styles.mobileThumb, { width: imageSize, height: imageSize }]}
-                                            resizeMode="cover"
                                         />
                                         <View style={styles.mobileCardInfo}>
                                             <Text style={[styles.mobileModelText, { color: getModelColor(image.model) }]} numberOfLines={1}>
@@ -326,11 +358,7 @@ export default function ImageGalleryModal({
                                         <ChevronLeft size={32} color="#fff" />
                                     </TouchableOpacity>
                                 )}
-                                <Image
-                                    source={{ uri: selectedImage.url }}
-                                    style={styles.mobileFullImage}
-                                    resizeMode="contain"
-                                />
+                                <MediaViewer item={selectedImage} style={styles.mobileFullImage} />
                                 {imageIndex < images.length - 1 && (
                                     <TouchableOpacity style={styles.mobileNavRight} onPress={navigateNext}>
                                         <ChevronRight size={32} color="#fff" />
@@ -415,7 +443,7 @@ export default function ImageGalleryModal({
                                 <Sparkles size={22} color="#00FF41" />
                             </View>
                             <View>
-                                <Text style={styles.desktopTitle}>Image Gallery</Text>
+                                <Text style={styles.desktopTitle}>Media Gallery</Text>
                                 <Text style={styles.desktopSubtitle}>Your AI creations</Text>
                             </View>
                         </View>
@@ -451,8 +479,8 @@ export default function ImageGalleryModal({
                         {!loading && !error && images.length === 0 && (
                             <View style={styles.centerState}>
                                 <ImageIcon size={48} color="rgba(255,255,255,0.15)" />
-                                <Text style={styles.emptyTitle}>No images yet</Text>
-                                <Text style={styles.stateText}>Start generating images with AI models</Text>
+                                <Text style={styles.emptyTitle}>Nothing here yet</Text>
+                                <Text style={styles.stateText}>Start generating images, video or audio with AI models</Text>
                             </View>
                         )}
 
@@ -465,10 +493,9 @@ export default function ImageGalleryModal({
                                         onPress={() => openImageViewer(image, index)}
                                         activeOpacity={0.85}
                                     >
-                                        <Image
-                                            source={{ uri: image.url }}
+                                        <MediaThumb
+                                            item={image}
                                             style={[styles.desktopThumb, { height: imageSize }]}
-                                            resizeMode="cover"
                                         />
                                         <View style={styles.desktopCardInfo}>
                                             <View style={[styles.desktopModelBadge, { backgroundColor: `${getModelColor(image.model)}15` }]}>
@@ -523,11 +550,7 @@ export default function ImageGalleryModal({
                                         <ChevronLeft size={28} color="#fff" />
                                     </TouchableOpacity>
                                 )}
-                                <Image
-                                    source={{ uri: selectedImage.url }}
-                                    style={styles.desktopFullImage}
-                                    resizeMode="contain"
-                                />
+                                <MediaViewer item={selectedImage} style={styles.desktopFullImage} />
                                 {imageIndex < images.length - 1 && (
                                     <TouchableOpacity style={[styles.desktopNav, { right: 20 }]} onPress={navigateNext}>
                                         <ChevronRight size={28} color="#fff" />
@@ -637,6 +660,20 @@ const styles = StyleSheet.create({
     mobileThumb: {
         backgroundColor: '#1a1a1a'
     },
+    mediaThumb: {
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 8
+    },
+    mediaThumbLabel: {
+        color: 'rgba(255,255,255,0.5)',
+        fontSize: 10,
+        fontFamily: FONT_MONO,
+        letterSpacing: 1
+    },
+    audioPlayer: {
+        maxHeight: 80
+    },
     mobileCardInfo: {
         padding: 8,
         flexDirection: 'row',
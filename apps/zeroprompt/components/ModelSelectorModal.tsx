@@ -469,18 +469,31 @@ export default function ModelSelectorModal({
         // In decentralized mode, show Ollama models; in centralized, show OpenRouter models
         let filtered = models || [];
 
-        // For decentralized mode, create model objects from available Ollama models
-        const ollamaModels: Model[] = isDecentralized ? availableOllamaModels.map((m, idx) => ({
+        // For decentralized mode, create model objects from available Ollama models.
+        // Each exact variant (tag + quantization + digest) is its own entry so the user
+        // picks the build that answers; families nodes have not described yet stay as one entry.
+        const ollamaEntries = isDecentralized ? availableOllamaModels.flatMap(m =>
+            m.variants && m.variants.length > 0
+                ? m.variants.map(v => ({
+                    id: v.id,
+                    label: [v.name, v.parameterSize, v.quantization].filter(Boolean).join(' · '),
+                    nodeCount: v.nodeCount,
+                    avgLatencyMs: v.avgLatencyMs,
+                    contextLength: v.contextLength,
+                }))
+                : [{ id: m.id, label: m.name, nodeCount: m.nodeCount, avgLatencyMs: m.avgLatencyMs, contextLength: null }]
+        ) : [];
+        const ollamaModels: Model[] = ollamaEntries.map((m, idx) => ({
             id: 10000 + idx, // Use high IDs to avoid conflicts
             openrouterId: `ollama/${m.id}`,
-            name: `${m.name} (${m.nodeCount} node${m.nodeCount !== 1 ? 's' : ''} | ${m.avgLatencyMs}ms)`,
-            contextLength: 8192, // Default for most Ollama models
+            name: `${m.label} (${m.nodeCount} node${m.nodeCount !== 1 ? 's' : ''} | ${m.avgLatencyMs}ms)`,
+            contextLength: m.contextLength ?? 8192, // Default for most Ollama models
             publicPricingPrompt: 0, // Free!
             publicPricingCompletion: 0,
             architecture: {
                 modality: 'text',
             },
-        })) : [];
+        }));
 
         // In decentralized mode, use Ollama models
         if (isDecentralized) {
@@ -637,7 +650,7 @@ export default function ModelSelectorModal({
                             </Text>
                             <View style={[styles.countBadge, { backgroundColor: 'rgba(0, 255, 65, 0.15)' }]}>
                                 <Text style={[styles.countText, { color: theme.primary }]}>
-                                    {String(isDecentralized ? availableOllamaModels.length : models.length)}
+                                    {String(isDecentralized ? ollamaModelsList.length : models.length)}
                                 </Text>
                             </View>
                         </View>
@@ -4,7 +4,7 @@ import {
   StyleSheet, ActivityIndicator, Image, Platform, useWindowDimensions, Modal
 } from 'react-native';
 import { useSignTypedData, useSendTransaction } from 'wagmi';
-import { getAddress, parseEther } from 'viem';
+import { getAddress } from 'viem';
 import Markdown from 'react-native-markdown-display';
 import {
   Swords, Brain, ImageIcon, CheckCircle, XCircle,
@@ -14,6 +14,14 @@ import { downloadImage } from './ImageGalleryModal';
 import { API_URL } from '../config/api';
 import { MERCHANT_ADDRESS as RAW_MERCHANT_ADDRESS } from '../lib/constants';
 import ModelSelectorModal from './ModelSelectorModal';
+import {
+  createExactPayment,
+  encodePaymentHeader,
+  PaymentRequiredResponse,
+  selectRequirement,
+  SignTypedData,
+  X402_VERSION,
+} from '../lib/x402-client';
 
 // Breakpoint for desktop layout
 const DESKTOP_BREAKPOINT = 768;
@@ -365,11 +373,48 @@ const exportStyles = StyleSheet.create({
   menuItemText: { color: '#fff', fontSize: 13 },
 });
 
-// Avalanche config
-const AVALANCHE_CONFIG = {
-  chainId: 43114,
-  usdc: '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E' as `0x${string}`,
-};
+type PaymentMethod = 'USDC' | 'AVAX';
+
+/**
+ * Pay a 402 challenge on Avalanche: a USDC `exact` authorization (gas sponsored), or
+ * a native AVAX transfer carrying the challenge's payment intent. Returns the X-PAYMENT header.
+ */
+async function payChallenge(
+  challenge: PaymentRequiredResponse,
+  method: PaymentMethod,
+  { address, signTypedDataAsync, sendTransactionAsync }: {
+    address: string | undefined;
+    signTypedDataAsync: SignTypedData;
+    sendTransactionAsync: (args: { to: `0x${string}`; value: bigint; data?: `0x${string}` }) => Promise<string>;
+  }
+): Promise<string> {
+  if (!address) throw new Error('Connect your wallet first');
+
+  const avaxOption = selectRequirement(challenge, { scheme: 'x402-native', network: 'avalanche' });
+  if (method === 'AVAX' && avaxOption) {
+    // The intent nonce as tx data binds the transfer to this challenge
+    const txHash = await sendTransactionAsync({
+      to: MERCHANT_ADDRESS,
+      value: BigInt(avaxOption.maxAmountRequired),
+      data: avaxOption.extra?.nonce as `0x${string}`,
+    });
+    return encodePaymentHeader({
+      x402Version: X402_VERSION,
+      scheme: 'x402-native',
+      network: avaxOption.network,
+      quoteId: challenge.quote?.id,
+      payload: { txHash, from: address },
+    });
+  }
+
+  const usdcOption = selectRequirement(challenge, { network: 'avalanche' });
+  if (!usdcOption) throw new Error('USDC on Avalanche is not accepted for this request');
+  return encodePaymentHeader(await createExactPayment(usdcOption, {
+    from: address,
+    signTypedData: signTypedDataAsync,
+    quoteId: challenge.quote?.id,
+  }));
+}
 
 type DemoTab = 'battle' | 'consensus' | 'gallery';
 
@@ -395,7 +440,6 @@ interface DemoProps {
 // ============================================================================
 // PAYMENT METHOD SELECTOR COMPONENT
 // ============================================================================
-type PaymentMethod = 'USDC' | 'AVAX';
 
 const PaymentMethodSelector = ({
   selected,
@@ -612,96 +656,7 @@ const ModelBattle = ({ isConnected, address, openWalletModal, models, theme }: D
 
       const challenge = await initialRes.json();
 
-      // Get prices from challenge
-      const usdcOption = challenge.accepts.find((a: any) => a.scheme === 'x402-eip3009');
-      const avaxOption = challenge.accepts.find((a: any) => a.scheme === 'x402-native');
-
-      let paymentPayload: any;
-
-      if (paymentMethod === 'AVAX' && avaxOption) {
-        // AVAX Payment - Send native transaction
-        const avaxAmount = parseEther(avaxOption.price);
-
-        const txHash = await sendTransactionAsync({
-          to: MERCHANT_ADDRESS,
-          value: avaxAmount,
-        });
-
-        paymentPayload = {
-          x402Version: 2,
-          scheme: 'x402-native',
-          network: 'avalanche',
-          chainId: AVALANCHE_CONFIG.chainId,
-          payload: {
-            txHash,
-            from: address,
-          }
-        };
-      } else {
-        // USDC Payment - Sign EIP-3009 authorization
-        const priceUSD = parseFloat(usdcOption.price);
-        const usdcAmount = BigInt(Math.ceil(priceUSD * 1_000_000));
-        const nonceBytes = new Uint8Array(32);
-        crypto.getRandomValues(nonceBytes);
-        const nonce = '0x' + Array.from(nonceBytes).map(b => b.toString(16).padStart(2, '0')).join('');
-
-        const now = Math.floor(Date.now() / 1000);
-        const validAfter = BigInt(now - 60);
-        const validBefore = BigInt(now + 3600);
-
-        const domain = {
-          name: 'USD Coin',
-          version: '2',
-          chainId: AVALANCHE_CONFIG.chainId,
-          verifyingContract: AVALANCHE_CONFIG.usdc
-        };
-
-        const types = {
-          TransferWithAuthorization: [
-            { name: 'from', type: 'address' },
-            { name: 'to', type: 'address' },
-            { name: 'value', type: 'uint256' },
-            { name: 'validAfter', type: 'uint256' },
-            { name: 'validBefore', type: 'uint256' },
-            { name: 'nonce', type: 'bytes32' }
-          ]
-        } as const;
-
-        const message = {
-          from: address as `0x${string}`,
-          to: MERCHANT_ADDRESS,
-          value: usdcAmount,
-          validAfter,
-          validBefore,
-          nonce: nonce as `0x${string}`
-        };
-
-        const signature = await signTypedDataAsync({
-          domain,
-          types,
-          primaryType: 'TransferWithAuthorization',
-          message
-        });
-
-        paymentPayload = {
-          x402Version: 2,
-          scheme: 'x402-eip3009',
-          network: 'avalanche',
-          chainId: AVALANCHE_CONFIG.chainId,
-          token: AVALANCHE_CONFIG.usdc,
-          payload: {
-            from: address,
-            to: MERCHANT_ADDRESS,
-            value: usdcAmount.toString(),
-            validAfter: validAfter.toString(),
-            validBefore: validBefore.toString(),
-            nonce,
-            signature
-          }
-        };
-      }
-
-      const paymentHeader = btoa(JSON.stringify(paymentPayload));
+      const paymentHeader = await payChallenge(challenge, paymentMethod, { address, signTypedDataAsync, sendTransactionAsync });
 
       // Execute with payment
       const response = await fetch(`${API_URL}/agent/battle`, {
@@ -1006,86 +961,13 @@ const AIConsensus = ({ isConnected, address, openWalletModal, models, theme }: D
       }
 
       const challenge = await initialRes.json();
-      const usdcOption = challenge.accepts.find((a: any) => a.scheme === 'x402-eip3009');
-      const avaxOption = challenge.accepts.find((a: any) => a.scheme === 'x402-native');
-
-      let paymentPayload: any;
-
-      if (paymentMethod === 'AVAX' && avaxOption) {
-        const avaxAmount = parseEther(avaxOption.price);
-        const txHash = await sendTransactionAsync({
-          to: MERCHANT_ADDRESS,
-          value: avaxAmount,
-        });
-        paymentPayload = {
-          x402Version: 2,
-          scheme: 'x402-native',
-          network: 'avalanche',
-          chainId: AVALANCHE_CONFIG.chainId,
-          payload: { txHash, from: address }
-        };
-      } else {
-        const priceUSD = parseFloat(usdcOption.price);
-        const usdcAmount = BigInt(Math.ceil(priceUSD * 1_000_000));
-        const nonceBytes = new Uint8Array(32);
-        crypto.getRandomValues(nonceBytes);
-        const nonce = '0x' + Array.from(nonceBytes).map(b => b.toString(16).padStart(2, '0')).join('');
-
-        const now = Math.floor(Date.now() / 1000);
-        const validAfter = BigInt(now - 60);
-        const validBefore = BigInt(now + 3600);
-
-        const signature = await signTypedDataAsync({
-          domain: {
-            name: 'USD Coin',
-            version: '2',
-            chainId: AVALANCHE_CONFIG.chainId,
-            verifyingContract: AVALANCHE_CONFIG.usdc
-          },
-          types: {
-            TransferWithAuthorization: [
-              { name: 'from', type: 'address' },
-              { name: 'to', type: 'address' },
-              { name: 'value', type: 'uint256' },
-              { name: 'validAfter', type: 'uint256' },
-              { name: 'validBefore', type: 'uint256' },
-              { name: 'nonce', type: 'bytes32' }
-            ]
-          } as const,
-          primaryType: 'TransferWithAuthorization',
-          message: {
-            from: address as `0x${string}`,
-            to: MERCHANT_ADDRESS,
-            value: usdcAmount,
-            validAfter,
-            validBefore,
-            nonce: nonce as `0x${string}`
-          }
-        });
-
-        paymentPayload = {
-          x402Version: 2,
-          scheme: 'x402-eip3009',
-          network: 'avalanche',
-          chainId: AVALANCHE_CONFIG.chainId,
-          token: AVALANCHE_CONFIG.usdc,
-          payload: {
-            from: address,
-            to: MERCHANT_ADDRESS,
-            value: usdcAmount.toString(),
-            validAfter: validAfter.toString(),
-            validBefore: validBefore.toString(),
-            nonce,
-            signature
-          }
-        };
-      }
+      const paymentHeader = await payChallenge(challenge, paymentMethod, { address, signTypedDataAsync, sendTransactionAsync });
 
       const response = await fetch(`${API_URL}/agent/consensus`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'X-Payment': btoa(JSON.stringify(paymentPayload))
+          'X-Payment': paymentHeader
         },
         body: JSON.stringify(requestBody)
       });
@@ -1443,86 +1325,13 @@ const ImageGallery = ({ isConnected, address, openWalletModal, models, theme }:
       }
 
       const challenge = await initialRes.json();
-      const usdcOption = challenge.accepts.find((a: any) => a.scheme === 'x402-eip3009');
-      const avaxOption = challenge.accepts.find((a: any) => a.scheme === 'x402-native');
-
-      let paymentPayload: any;
-
-      if (paymentMethod === 'AVAX' && avaxOption) {
-        const avaxAmount = parseEther(avaxOption.price);
-        const txHash = await sendTransactionAsync({
-          to: MERCHANT_ADDRESS,
-          value: avaxAmount,
-        });
-        paymentPayload = {
-          x402Version: 2,
-          scheme: 'x402-native',
-          network: 'avalanche',
-          chainId: AVALANCHE_CONFIG.chainId,
-          payload: { txHash, from: address }
-        };
-      } else {
-        const priceUSD = parseFloat(usdcOption.price);
-        const usdcAmount = BigInt(Math.ceil(priceUSD * 1_000_000));
-        const nonceBytes = new Uint8Array(32);
-        crypto.getRandomValues(nonceBytes);
-        const nonce = '0x' + Array.from(nonceBytes).map(b => b.toString(16).padStart(2, '0')).join('');
-
-        const now = Math.floor(Date.now() / 1000);
-        const validAfter = BigInt(now - 60);
-        const validBefore = BigInt(now + 3600);
-
-        const signature = await signTypedDataAsync({
-          domain: {
-            name: 'USD Coin',
-            version: '2',
-            chainId: AVALANCHE_CONFIG.chainId,
-            verifyingContract: AVALANCHE_CONFIG.usdc
-          },
-          types: {
-            TransferWithAuthorization: [
-              { name: 'from', type: 'address' },
-              { name: 'to', type: 'address' },
-              { name: 'value', type: 'uint256' },
-              { name: 'validAfter', type: 'uint256' },
-              { name: 'validBefore', type: 'uint256' },
-              { name: 'nonce', type: 'bytes32' }
-            ]
-          } as const,
-          primaryType: 'TransferWithAuthorization',
-          message: {
-            from: address as `0x${string}`,
-            to: MERCHANT_ADDRESS,
-            value: usdcAmount,
-            validAfter,
-            validBefore,
-            nonce: nonce as `0x${string}`
-          }
-        });
-
-        paymentPayload = {
-          x402Version: 2,
-          scheme: 'x402-eip3009',
-          network: 'avalanche',
-          chainId: AVALANCHE_CONFIG.chainId,
-          token: AVALANCHE_CONFIG.usdc,
-          payload: {
-            from: address,
-            to: MERCHANT_ADDRESS,
-            value: usdcAmount.toString(),
-            validAfter: validAfter.toString(),
-            validBefore: validBefore.toString(),
-            nonce,
-            signature
-          }
-        };
-      }
+      const paymentHeader = await payChallenge(challenge, paymentMethod, { address, signTypedDataAsync, sendTransactionAsync });
 
       const response = await fetch(`${API_URL}/agent/image-gallery`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'X-Payment': btoa(JSON.stringify(paymentPayload))
+          'X-Payment': paymentHeader
         },
         body: JSON.stringify({ prompt, models: modelIds })
       });
@@ -272,6 +272,19 @@ const AuthProviderInner = ({ children }: { children: React.ReactNode }) => {
     return null; // Will be set after async init for native
   });
 
+  // Device id - unlike guest_id it survives wallet sign-in (used for guest abuse limits)
+  const [deviceId, setDeviceId] = useState<string | null>(() => {
+    if (Platform.OS === "web") {
+      let did = safeStorage.getItemSync("device_id");
+      if (!did) {
+        did = Math.random().toString(36).substring(2) + Date.now().toString(36);
+        safeStorage.setItem("device_id", did);
+      }
+      return did;
+    }
+    return null;
+  });
+
   // Initialize storage cache for native platforms
   useEffect(() => {
     if (Platform.OS !== "web") {
@@ -295,6 +308,13 @@ const AuthProviderInner = ({ children }: { children: React.ReactNode }) => {
           await safeStorage.setItem("guest_id", savedGuestId);
         }
         setGuestId(savedGuestId);
+
+        let savedDeviceId = await safeStorage.getItemAsync("device_id");
+        if (!savedDeviceId) {
+          savedDeviceId = Math.random().toString(36).substring(2) + Date.now().toString(36);
+          await safeStorage.setItem("device_id", savedDeviceId);
+        }
+        setDeviceId(savedDeviceId);
         setStorageReady(true);
         console.log("[Auth] Native storage initialized");
       });
@@ -577,6 +597,10 @@ const AuthProviderInner = ({ children }: { children: React.ReactNode }) => {
       await safeStorage.setItem("session_token", verifyData.sessionToken);
       await safeStorage.setItem("wallet_address", walletAddress);
 
+      if (parseFloat(verifyData.migratedCreditsUSD || "0") > 0) {
+        console.log(`[Auth] 💰 Carried over $${verifyData.migratedCreditsUSD} of guest credits`);
+      }
+
       // Clear guest ID after successful migration
       if (verifyData.migratedConversations > 0) {
         console.log(`[Auth] 🔄 Migrated ${verifyData.migratedConversations} conversations!`);
@@ -762,9 +786,12 @@ const AuthProviderInner = ({ children }: { children: React.ReactNode }) => {
   const getHeaders = useCallback(() => {
     const headers: any = { "Content-Type": "application/json" };
     if (token) headers["x-session-token"] = token;
-    else if (guestId) headers["x-guest-id"] = guestId;
+    else if (guestId) {
+      headers["x-guest-id"] = guestId;
+      if (deviceId) headers["x-device-id"] = deviceId;
+    }
     return headers;
-  }, [token, guestId]);
+  }, [token, guestId, deviceId]);
 
   // Guard to prevent double-opening modal
   const modalOpeningRef = useRef(false);
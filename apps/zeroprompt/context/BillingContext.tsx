@@ -35,6 +35,62 @@ export interface UsageRecord {
   requestId: string;
 }
 
+export interface WithdrawalInfo {
+  id: string;
+  amountUSD: string;
+  amountAVAX: string;
+  status: "pending" | "completed" | "expired";
+  deadline: number;
+  txHash: string | null;
+  createdAt: number;
+  completedAt: number | null;
+  // Present while pending: the operator-signed permit for ZeroPromptVault.withdrawWithPermit
+  permit?: {
+    contractAddress: string;
+    chainId: number;
+    amount: string;
+    deadline: number;
+    nonce: number;
+    signature: string;
+  };
+}
+
+const VAULT_WITHDRAW_ABI = ["function withdrawWithPermit(uint256 amount, uint256 deadline, bytes signature)"];
+
+/**
+ * Ask the injected wallet to switch to `chainId`, adding the chain if it doesn't know it
+ */
+async function switchToChain(provider: ethers.BrowserProvider, chainId: number) {
+  const ethereum = (window as any).ethereum;
+  const network = await provider.getNetwork();
+  if (Number(network.chainId) === chainId) return;
+
+  try {
+    await ethereum.request({
+      method: "wallet_switchEthereumChain",
+      params: [{ chainId: `0x${chainId.toString(16)}` }]
+    });
+  } catch (switchError: any) {
+    // Chain not added, try to add it
+    if (switchError.code !== 4902) throw switchError;
+    const chainConfig = Object.values(SUPPORTED_CHAINS).find((c) => c.id === chainId);
+    if (chainConfig) {
+      await ethereum.request({
+        method: "wallet_addEthereumChain",
+        params: [
+          {
+            chainId: `0x${chainId.toString(16)}`,
+            chainName: chainConfig.name,
+            nativeCurrency: chainConfig.nativeCurrency,
+            rpcUrls: [chainConfig.rpcUrls.default.http[0]],
+            blockExplorerUrls: [chainConfig.blockExplorers.default.url]
+          }
+        ]
+      });
+    }
+  }
+}
+
 export interface NetworkInfo {
   id: string;
   config: {
@@ -54,11 +110,14 @@ type BillingContextType = {
   account: UserAccount | null;
   deposits: DepositInfo[];
   usage: UsageRecord[];
+  withdrawals: WithdrawalInfo[];
+  withdrawableUSD: string | null;
   nativePrice: number | null;
   selectedNetwork: string;
   networks: NetworkInfo[];
   isLoading: boolean;
   isDepositing: boolean;
+  isWithdrawing: boolean;
   error: string | null;
   showUpsaleModal: boolean;
   showDepositModal: boolean;
@@ -76,6 +135,8 @@ type BillingContextType = {
   calculateDeposit: (amountUSD: string) => Promise<string | null>;
   prepareDeposit: (amountNative: string) => Promise<any | null>;
   executeDeposit: (amountNative: string) => Promise<string | null>;
+  withdrawCredits: (amountUSD?: number) => Promise<string | null>;
+  executeWithdrawal: (withdrawal: WithdrawalInfo) => Promise<string | null>;
   openUpsaleModal: (requiredAmount?: string) => void;
   closeUpsaleModal: () => void;
   openDepositModal: (requiredAmount?: string) => void;
@@ -95,11 +156,14 @@ export const BillingProvider = ({ children }: { children: React.ReactNode }) =>
   const [account, setAccount] = useState<UserAccount | null>(null);
   const [deposits, setDeposits] = useState<DepositInfo[]>([]);
   const [usage, setUsage] = useState<UsageRecord[]>([]);
+  const [withdrawals, setWithdrawals] = useState<WithdrawalInfo[]>([]);
+  const [withdrawableUSD, setWithdrawableUSD] = useState<string | null>(null);
   const [nativePrice, setNativePrice] = useState<number | null>(null);
   const [selectedNetwork, setSelectedNetwork] = useState<string>("avalanche");
   const [networks, setNetworks] = useState<NetworkInfo[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isDepositing, setIsDepositing] = useState(false);
+  const [isWithdrawing, setIsWithdrawing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showUpsaleModal, setShowUpsaleModal] = useState(false);
   const [showDepositModal, setShowDepositModal] = useState(false);
@@ -230,19 +294,35 @@ export const BillingProvider = ({ children }: { children: React.ReactNode }) =>
     }
   }, [user?.walletAddress, selectedNetwork, getHeaders]);
 
+  // Fetch withdrawals (the server reconciles pending permits with the chain first)
+  const fetchWithdrawals = useCallback(async () => {
+    if (!user?.walletAddress) return;
+
+    try {
+      const res = await fetch(`${API_URL}/billing/withdrawals`, { headers: getHeaders() });
+      if (res.ok) {
+        const data = await res.json();
+        setWithdrawals(data.withdrawals || []);
+        setWithdrawableUSD(data.enabled ? data.withdrawableUSD : null);
+      }
+    } catch (err) {
+      console.error("Failed to fetch withdrawals:", err);
+    }
+  }, [user?.walletAddress, getHeaders]);
+
   // Refresh all billing data
   const refreshBilling = useCallback(async () => {
     setIsLoading(true);
     setError(null);
 
     try {
-      await Promise.all([fetchPrice(), fetchAccount(), fetchDeposits(), fetchUsage()]);
+      await Promise.all([fetchPrice(), fetchAccount(), fetchDeposits(), fetchUsage(), fetchWithdrawals()]);
     } catch (err: any) {
       setError(err.message || "Failed to refresh billing data");
     } finally {
       setIsLoading(false);
     }
-  }, [fetchPrice, fetchAccount, fetchDeposits, fetchUsage]);
+  }, [fetchPrice, fetchAccount, fetchDeposits, fetchUsage, fetchWithdrawals]);
 
   // Calculate credits for native amount
   const calculateCredits = useCallback(
@@ -331,39 +411,7 @@ export const BillingProvider = ({ children }: { children: React.ReactNode }) =>
         const signer = await provider.getSigner();
 
         // Check if on correct network
-        const network = await provider.getNetwork();
-        if (Number(network.chainId) !== transaction.chainId) {
-          // Request network switch
-          try {
-            await (window as any).ethereum.request({
-              method: "wallet_switchEthereumChain",
-              params: [{ chainId: `0x${transaction.chainId.toString(16)}` }]
-            });
-          } catch (switchError: any) {
-            // Chain not added, try to add it
-            if (switchError.code === 4902) {
-              const chainConfig = Object.values(SUPPORTED_CHAINS).find(
-                (c) => c.id === transaction.chainId
-              );
-              if (chainConfig) {
-                await (window as any).ethereum.request({
-                  method: "wallet_addEthereumChain",
-                  params: [
-                    {
-                      chainId: `0x${transaction.chainId.toString(16)}`,
-                      chainName: chainConfig.name,
-                      nativeCurrency: chainConfig.nativeCurrency,
-                      rpcUrls: [chainConfig.rpcUrls.default.http[0]],
-                      blockExplorerUrls: [chainConfig.blockExplorers.default.url]
-                    }
-                  ]
-                });
-              }
-            } else {
-              throw switchError;
-            }
-          }
-        }
+        await switchToChain(provider, transaction.chainId);
 
         // Send transaction
         const tx = await signer.sendTransaction({
@@ -402,6 +450,79 @@ export const BillingProvider = ({ children }: { children: React.ReactNode }) =>
     [prepareDeposit, refreshBilling]
   );
 
+  // Submit a pending withdrawal's permit to the vault, then have the backend confirm it
+  const executeWithdrawal = useCallback(
+    async (withdrawal: WithdrawalInfo): Promise<string | null> => {
+      if (!withdrawal.permit) return null;
+      if (Platform.OS !== "web" || !(window as any).ethereum) {
+        setError("Wallet not available");
+        return null;
+      }
+
+      setIsWithdrawing(true);
+      setError(null);
+
+      try {
+        const { permit } = withdrawal;
+        const provider = new ethers.BrowserProvider((window as any).ethereum);
+        await switchToChain(provider, permit.chainId);
+        const signer = await provider.getSigner();
+
+        const vault = new ethers.Contract(permit.contractAddress, VAULT_WITHDRAW_ABI, signer);
+        const tx = await vault.withdrawWithPermit(permit.amount, permit.deadline, permit.signature);
+        console.log("Withdrawal transaction sent:", tx.hash);
+        await tx.wait();
+
+        const res = await fetch(`${API_URL}/billing/withdraw/confirm`, {
+          method: "POST",
+          headers: getHeaders(),
+          body: JSON.stringify({ withdrawalId: withdrawal.id, txHash: tx.hash })
+        });
+        if (!res.ok) {
+          // The funds were sent - the next refresh reconciles it from the vault nonce
+          console.warn("Withdrawal confirmation failed:", await res.json().catch(() => null));
+        }
+
+        await refreshBilling();
+        return tx.hash;
+      } catch (err: any) {
+        console.error("Withdrawal failed:", err);
+        setError(err.shortMessage || err.message || "Withdrawal failed");
+        await fetchWithdrawals();
+        return null;
+      } finally {
+        setIsWithdrawing(false);
+      }
+    },
+    [getHeaders, refreshBilling, fetchWithdrawals]
+  );
+
+  // Request a permit for `amountUSD` (everything withdrawable if omitted) and submit it.
+  // A permit that is still pending is resumed instead of requesting a new one.
+  const withdrawCredits = useCallback(
+    async (amountUSD?: number): Promise<string | null> => {
+      setError(null);
+      try {
+        const res = await fetch(`${API_URL}/billing/withdraw/request`, {
+          method: "POST",
+          headers: getHeaders(),
+          body: JSON.stringify(amountUSD !== undefined ? { amountUSD } : {})
+        });
+        const data = await res.json();
+        const withdrawal: WithdrawalInfo | undefined = data.withdrawal;
+        if (!withdrawal) {
+          setError(data.message || data.error || "Withdrawal request failed");
+          return null;
+        }
+        return executeWithdrawal(withdrawal);
+      } catch (err: any) {
+        setError(err.message || "Withdrawal request failed");
+        return null;
+      }
+    },
+    [getHeaders, executeWithdrawal]
+  );
+
   // Initial load
   useEffect(() => {
     fetchNetworks();
@@ -421,11 +542,14 @@ export const BillingProvider = ({ children }: { children: React.ReactNode }) =>
         account,
         deposits,
         usage,
+        withdrawals,
+        withdrawableUSD,
         nativePrice,
         selectedNetwork,
         networks,
         isLoading,
         isDepositing,
+        isWithdrawing,
         error,
         showUpsaleModal,
         showDepositModal,
@@ -439,6 +563,8 @@ export const BillingProvider = ({ children }: { children: React.ReactNode }) =>
         calculateDeposit,
         prepareDeposit,
         executeDeposit,
+        withdrawCredits,
+        executeWithdrawal,
         openUpsaleModal,
         closeUpsaleModal,
         openDepositModal,
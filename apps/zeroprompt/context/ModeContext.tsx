@@ -9,12 +9,28 @@ import { API_URL, SUBNET_API_URL } from "../config/api";
 
 export type InferenceMode = "centralized" | "decentralized";
 
+// An exact build of a model (tag + digest) as served by subnet nodes
+export interface OllamaModelVariant {
+  id: string; // "<tag>@<short digest>", sent as the model to pin this build
+  name: string;
+  family: string;
+  tag: string;
+  digest: string;
+  parameterSize: string | null;
+  quantization: string | null;
+  contextLength: number | null;
+  nodeCount: number;
+  avgLatencyMs: number;
+}
+
 export interface OllamaModel {
   id: string;
   name: string;
   nodeCount: number;
+  encryptedNodeCount?: number;
   avgLatencyMs: number;
   available: boolean;
+  variants?: OllamaModelVariant[];
 }
 
 export interface NetworkHealth {
@@ -33,6 +49,7 @@ type ModeContextType = {
   isLoadingModels: boolean;
   subnetApiUrl: string;
   selectedNodeAddress: string | null;
+  privateInference: boolean; // encrypt prompts to the serving node's key (encryption-capable nodes only)
 
   // Actions
   setMode: (mode: InferenceMode) => void;
@@ -40,6 +57,7 @@ type ModeContextType = {
   refreshOllamaModels: () => Promise<void>;
   refreshNetworkHealth: () => Promise<void>;
   setSelectedNodeAddress: (address: string | null) => void;
+  setPrivateInference: (enabled: boolean) => void;
 
   // Helpers
   isDecentralized: boolean;
@@ -50,6 +68,7 @@ type ModeContextType = {
 
 const STORAGE_KEY = "@zeroprompt/inference_mode";
 const NODE_ADDRESS_STORAGE_KEY = "@zeroprompt/selected_node_address";
+const PRIVATE_INFERENCE_STORAGE_KEY = "@zeroprompt/private_inference";
 
 const ModeContext = createContext<ModeContextType>({} as ModeContextType);
 
@@ -59,6 +78,7 @@ export const ModeProvider = ({ children }: { children: React.ReactNode }) => {
   const [networkHealth, setNetworkHealth] = useState<NetworkHealth | null>(null);
   const [isLoadingModels, setIsLoadingModels] = useState(false);
   const [selectedNodeAddress, setSelectedNodeAddressState] = useState<string | null>(null);
+  const [privateInference, setPrivateInferenceState] = useState(false);
 
   // Derived values
   const isDecentralized = mode === "decentralized";
@@ -68,9 +88,10 @@ export const ModeProvider = ({ children }: { children: React.ReactNode }) => {
   useEffect(() => {
     const loadSavedState = async () => {
       try {
-        const [savedMode, savedNode] = await Promise.all([
+        const [savedMode, savedNode, savedPrivate] = await Promise.all([
           AsyncStorage.getItem(STORAGE_KEY),
           AsyncStorage.getItem(NODE_ADDRESS_STORAGE_KEY),
+          AsyncStorage.getItem(PRIVATE_INFERENCE_STORAGE_KEY),
         ]);
         if (savedMode === "centralized" || savedMode === "decentralized") {
           setModeState(savedMode);
@@ -78,6 +99,7 @@ export const ModeProvider = ({ children }: { children: React.ReactNode }) => {
         if (savedNode) {
           setSelectedNodeAddressState(savedNode);
         }
+        setPrivateInferenceState(savedPrivate === "true");
       } catch (err) {
         console.error("[Mode] Failed to load saved state:", err);
       }
@@ -114,6 +136,16 @@ export const ModeProvider = ({ children }: { children: React.ReactNode }) => {
     }
   }, []);
 
+  // Persist private mode
+  const setPrivateInference = useCallback(async (enabled: boolean) => {
+    setPrivateInferenceState(enabled);
+    try {
+      await AsyncStorage.setItem(PRIVATE_INFERENCE_STORAGE_KEY, String(enabled));
+    } catch (err) {
+      console.error("[Mode] Failed to save private mode:", err);
+    }
+  }, []);
+
   // Fetch available Ollama models
   const refreshOllamaModels = useCallback(async () => {
     setIsLoadingModels(true);
@@ -181,11 +213,13 @@ export const ModeProvider = ({ children }: { children: React.ReactNode }) => {
         isLoadingModels,
         subnetApiUrl: SUBNET_API_URL,
         selectedNodeAddress,
+        privateInference,
         setMode,
         toggleMode,
         refreshOllamaModels,
         refreshNetworkHealth,
         setSelectedNodeAddress,
+        setPrivateInference,
         isDecentralized,
         isCentralized,
         isOllamaModelAvailable,
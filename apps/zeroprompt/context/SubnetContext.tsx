@@ -1,10 +1,13 @@
 import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
 import { useAccount } from 'wagmi';
+import { useMode } from './ModeContext';
 import {
   fetchZeropBalance,
   fetchOperatorOnChain,
+  fetchSubnetNodes,
   formatZerop,
   type OperatorOnChain,
+  type SubnetNodeInfo,
 } from '../lib/subnetContracts';
 
 interface SubnetContextType {
@@ -12,19 +15,25 @@ interface SubnetContextType {
   zeropBalance: string;
   zeropBalanceRaw: bigint;
   isLoadingOperator: boolean;
+  networkNodes: SubnetNodeInfo[];
+  encryptedNodes: SubnetNodeInfo[]; // healthy nodes that take encrypted (private mode) requests
   refreshMyOperator: () => Promise<void>;
   refreshBalance: () => Promise<void>;
+  refreshNetworkNodes: () => Promise<void>;
 }
 
 const SubnetContext = createContext<SubnetContextType>({} as SubnetContextType);
 
 export const SubnetProvider = ({ children }: { children: React.ReactNode }) => {
   const { address, isConnected } = useAccount();
+  const { isDecentralized } = useMode();
   const [myOperator, setMyOperator] = useState<OperatorOnChain | null>(null);
   const [zeropBalanceRaw, setZeropBalanceRaw] = useState<bigint>(BigInt(0));
   const [isLoadingOperator, setIsLoadingOperator] = useState(false);
+  const [networkNodes, setNetworkNodes] = useState<SubnetNodeInfo[]>([]);
 
   const zeropBalance = formatZerop(zeropBalanceRaw);
+  const encryptedNodes = networkNodes.filter((n) => n.isHealthy && n.encryptedInference);
 
   const refreshBalance = useCallback(async () => {
     if (!address) {
@@ -60,6 +69,22 @@ export const SubnetProvider = ({ children }: { children: React.ReactNode }) => {
     }
   }, [address]);
 
+  const refreshNetworkNodes = useCallback(async () => {
+    try {
+      setNetworkNodes(await fetchSubnetNodes());
+    } catch (err) {
+      console.error('[Subnet] Failed to fetch network nodes:', err);
+    }
+  }, []);
+
+  // Keep the node list fresh while chatting on the decentralized network
+  useEffect(() => {
+    if (!isDecentralized) return;
+    refreshNetworkNodes();
+    const interval = setInterval(refreshNetworkNodes, 60000);
+    return () => clearInterval(interval);
+  }, [isDecentralized, refreshNetworkNodes]);
+
   // Auto-refresh when wallet address changes
   useEffect(() => {
     if (isConnected && address) {
@@ -78,8 +103,11 @@ export const SubnetProvider = ({ children }: { children: React.ReactNode }) => {
         zeropBalance,
         zeropBalanceRaw,
         isLoadingOperator,
+        networkNodes,
+        encryptedNodes,
         refreshMyOperator,
         refreshBalance,
+        refreshNetworkNodes,
       }}
     >
       {children}
@@ -67,6 +67,20 @@ export const OPERATOR_REGISTRY_ABI = [
     stateMutability: 'nonpayable',
     type: 'function',
   },
+  {
+    inputs: [{ name: 'publicKey', type: 'bytes' }],
+    name: 'setEncryptionKey',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [{ name: 'operator', type: 'address' }],
+    name: 'getEncryptionKey',
+    outputs: [{ name: '', type: 'bytes' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
   {
     inputs: [{ name: 'amount', type: 'uint256' }],
     name: 'stake',
@@ -252,14 +266,16 @@ export interface OperatorOnChain {
   stakeAmount: bigint;
   performanceScore: number;
   isActive: boolean;
+  encryptionKey: string | null; // X25519 public key for encrypted inference
 }
 
 export async function fetchOperatorOnChain(operatorAddress: string): Promise<OperatorOnChain> {
   const registry = getOperatorRegistry();
 
-  const [operatorData, details] = await Promise.all([
+  const [operatorData, details, encryptionKey] = await Promise.all([
     registry.getOperator(operatorAddress),
     registry.getOperatorDetails(operatorAddress),
+    registry.getEncryptionKey(operatorAddress).catch(() => '0x'),
   ]);
 
   return {
@@ -270,6 +286,7 @@ export async function fetchOperatorOnChain(operatorAddress: string): Promise<Ope
     stakeAmount: details[0],
     performanceScore: Number(details[1]),
     isActive: details[2],
+    encryptionKey: encryptionKey && encryptionKey !== '0x' ? encryptionKey : null,
   };
 }
 
@@ -319,3 +336,118 @@ export async function switchToSubnet(provider: any): Promise<void> {
     }
   }
 }
+
+// --- Node management (signed by the operator wallet, no transaction) ---
+
+export type OperatorAction = 'maintenance' | 'drain' | 'endpoint' | 'models';
+
+export interface OperatorAvailability {
+  draining: boolean;
+  maintenance: { startsAt: string; endsAt: string; reason: string | null } | null;
+}
+
+/** JSON with sorted keys - must match the API's canonicalJson */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as object)
+      .sort()
+      .filter((key) => (value as any)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as any)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function operatorActionMessage(action: OperatorAction, operator: string, payload: unknown, nonce: string, issuedAt: string): string {
+  return [
+    'ZeroPrompt operator action',
+    `Action: ${action}`,
+    `Operator: ${operator.toLowerCase()}`,
+    `Payload: ${canonicalJson(payload)}`,
+    `Nonce: ${nonce}`,
+    `Issued At: ${issuedAt}`,
+  ].join('\n');
+}
+
+/** Sign an action with the operator wallet and apply it through the API (takes effect immediately) */
+export async function sendOperatorAction(
+  operator: string,
+  action: OperatorAction,
+  payload: unknown,
+  signMessage: (args: { message: string }) => Promise<string>
+): Promise<any> {
+  const nonce = ethers.hexlify(ethers.randomBytes(16));
+  const issuedAt = new Date().toISOString();
+  const signature = await signMessage({ message: operatorActionMessage(action, operator, payload, nonce, issuedAt) });
+
+  const res = await fetch(`${API_URL}/operators/${operator}/${action}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ payload, nonce, issuedAt, signature }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.message || data.error || `HTTP ${res.status}`);
+  return data;
+}
+
+export interface SubnetNodeInfo {
+  address: string;
+  endpoint: string;
+  isHealthy: boolean;
+  latencyMs: number;
+  encryptedInference: boolean;
+}
+
+/** Active nodes as the API routes to them, with whether each takes encrypted requests */
+export async function fetchSubnetNodes(): Promise<SubnetNodeInfo[]> {
+  const res = await fetch(`${API_URL}/operators`);
+  if (!res.ok) return [];
+  const data = await res.json();
+  return (data.operators || []).map((o: any) => ({
+    address: o.address,
+    endpoint: o.endpoint,
+    isHealthy: !!o.isHealthy,
+    latencyMs: o.latencyMs ?? 0,
+    encryptedInference: !!o.encryptedInference,
+  }));
+}
+
+export async function fetchOperatorAvailability(operator: string): Promise<OperatorAvailability | null> {
+  const res = await fetch(`${API_URL}/operators`);
+  if (!res.ok) return null;
+  const data = await res.json();
+  const op = (data.operators || []).find((o: any) => o.address?.toLowerCase() === operator.toLowerCase());
+  return op ? { draining: !!op.draining, maintenance: op.maintenance ?? null } : null;
+}
+
+// --- Reward history (indexed from SubnetRewards events by the API) ---
+
+export interface EpochReward {
+  epoch: number;
+  requests: number;
+  successfulRequests: number;
+  tokens: string;
+  weightedTokens: string;
+  sharePercent: string;
+  finalized: boolean;
+  reward: string | null; // ZEROP, null while the epoch is open
+  status: 'open' | 'claimable' | 'claimed' | 'no_reward';
+  claimTxHash: string | null;
+  claimedAt: string | null;
+}
+
+export interface RewardHistory {
+  operatorAddress: string;
+  indexedBlock: number | null;
+  epochs: EpochReward[];
+  claimableEpochs: number[];
+  unclaimedReward: string;
+  claimedReward: string;
+}
+
+export async function fetchRewardHistory(operator: string): Promise<RewardHistory | null> {
+  const res = await fetch(`${API_URL}/operators/${operator}/rewards`);
+  if (!res.ok) return null;
+  return res.json();
+}
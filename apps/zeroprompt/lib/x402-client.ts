@@ -1,130 +1,227 @@
-import { type WalletClient } from 'viem';
+/**
+ * x402 client - pays ZeroPrompt (or any x402 server) with a USDC `exact` payment
+ *
+ * Has no wallet library dependency: pass any EIP-712 signer (wagmi's signTypedDataAsync,
+ * viem's walletClient.signTypedData, ethers' signer.signTypedData wrapped to the same
+ * shape), so the same helper serves ProtocolDemos and external agents.
+ *
+ *   const res = await fetchWithX402(url, { method: 'POST', body }, {
+ *     address, signTypedData, network: 'avalanche',
+ *   });
+ */
+
+export const X402_VERSION = 1;
 
-export interface X402PaymentRequirement {
+// Chains the `exact` scheme is known on; a challenge's `extra.chainId` takes precedence
+export const X402_NETWORKS: Record<string, number> = {
+  avalanche: 43114,
+  'avalanche-fuji': 43113,
+  base: 8453,
+  'base-sepolia': 84532,
+};
+
+export interface PaymentRequirements {
   scheme: string;
   network: string;
-  maxAmountRequired: string;
+  maxAmountRequired: string; // atomic units of `asset` (wei for x402-native)
   resource: string;
   description: string;
+  mimeType?: string;
   payTo: string;
-  asset: string;
   maxTimeoutSeconds: number;
+  asset: string;
+  extra?: {
+    name?: string; // EIP-712 domain of the asset, for `exact`
+    version?: string;
+    chainId?: number;
+    priceUSD?: string;
+    quoteId?: string; // set when the price was quoted for this exact request
+    intentId?: string; // x402-native: the payment intent...
+    nonce?: string; // ...whose nonce the AVAX transaction must carry as its data
+    [key: string]: unknown;
+  };
 }
 
-export interface X402Response {
+export interface X402Quote {
+  id: string;
+  resource: string;
+  amountUSD: string;
+  termsHash: string;
+  expiresAt: string;
+  signer: string;
+  signature: string;
+}
+
+export interface PaymentRequiredResponse {
   x402Version: number;
-  accepts: X402PaymentRequirement[];
   error: string;
+  accepts: PaymentRequirements[];
+  quote?: X402Quote;
+  hint?: string;
 }
 
+export interface TransferAuthorization {
+  from: string;
+  to: string;
+  value: string;
+  validAfter: string;
+  validBefore: string;
+  nonce: string;
+}
+
+export interface ExactPaymentPayload {
+  x402Version: number;
+  scheme: 'exact';
+  network: string;
+  quoteId?: string;
+  payload: {
+    signature: string;
+    authorization: TransferAuthorization;
+  };
+}
+
+export interface PaymentResponse {
+  success: boolean;
+  transaction?: string;
+  network?: string;
+  payer?: string;
+  [key: string]: unknown;
+}
+
+export type SignTypedData = (args: {
+  domain: { name: string; version: string; chainId: number; verifyingContract: `0x${string}` };
+  types: typeof TRANSFER_WITH_AUTHORIZATION_TYPES;
+  primaryType: 'TransferWithAuthorization';
+  // uint256 fields as bigint, as viem and ethers both take them
+  message: {
+    from: `0x${string}`;
+    to: `0x${string}`;
+    value: bigint;
+    validAfter: bigint;
+    validBefore: bigint;
+    nonce: `0x${string}`;
+  };
+}) => Promise<string>;
+
+export const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'validAfter', type: 'uint256' },
+    { name: 'validBefore', type: 'uint256' },
+    { name: 'nonce', type: 'bytes32' },
+  ],
+} as const;
+
 /**
- * Handles the x402 negotiation flow.
- * 1. Makes initial request.
- * 2. If 402, parses requirements.
- * 3. Requests signature from user wallet.
- * 4. Retries request with X-PAYMENT header.
+ * The first requirement matching `scheme` (default `exact`) and, if given, `network`
  */
-export async function fetchWithX402(
-  url: string, 
-  options: RequestInit, 
-  signTypedDataAsync: (args: any) => Promise<string>,
-  address: string
-): Promise<any> {
-  // 1. Initial Request
-  console.log(`[x402] Initiating request to ${url}`);
-  const initialRes = await fetch(url, options);
-
-  if (initialRes.status !== 402) {
-    return initialRes;
-  }
+export function selectRequirement(
+  challenge: PaymentRequiredResponse,
+  { scheme = 'exact', network }: { scheme?: string; network?: string } = {}
+): PaymentRequirements | undefined {
+  return challenge.accepts?.find((r) => r.scheme === scheme && (!network || r.network === network));
+}
 
-  // 2. Parse 402 Challenge
-  const challengeData = await initialRes.json() as X402Response;
-  console.log("[x402] Challenge received:", challengeData);
+function randomNonce(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return '0x' + Array.from(bytes).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
 
-  if (!challengeData.accepts || challengeData.accepts.length === 0) {
-    throw new Error("Invalid 402 response: No payment acceptance criteria found.");
+/**
+ * Sign an EIP-3009 transferWithAuthorization for an `exact` requirement
+ */
+export async function createExactPayment(
+  requirement: PaymentRequirements,
+  { from, signTypedData, quoteId, validForSeconds }: {
+    from: string;
+    signTypedData: SignTypedData;
+    quoteId?: string;
+    validForSeconds?: number;
   }
-
-  // We simply pick the first acceptance criteria for this demo
-  // In a robust lib, we might filter by supported networks
-  const req = challengeData.accepts[0];
-
-  // 3. Prepare Authorization (EIP-3009)
-  // We need to create a random 32-byte nonce. 
-  // In browser, crypto.getRandomValues is available.
-  const nonceBytes = new Uint8Array(32);
-  crypto.getRandomValues(nonceBytes);
-  const nonce = "0x" + Array.from(nonceBytes).map(b => b.toString(16).padStart(2, '0')).join('');
+): Promise<ExactPaymentPayload> {
+  const chainId = requirement.extra?.chainId ?? X402_NETWORKS[requirement.network];
+  if (!chainId) throw new Error(`Unknown x402 network: ${requirement.network}`);
 
   const now = Math.floor(Date.now() / 1000);
-  
-  const authorization = {
-    from: address,
-    to: req.payTo,
-    value: req.maxAmountRequired,
-    validAfter: now - 60, // Valid starting 1 min ago
-    validBefore: now + 3600, // Valid for 1 hour
-    nonce: nonce
-  };
-
-  // 4. Sign with EIP-712
-  // Note: Wagmi/Viem expects BigInts for uint256 in the types definition usually, 
-  // but for the `message` payload, strings often work if the type def says uint256.
-  // Let's align strictly with what we did in tests.
-  
-  const domain = {
-    name: "USD Coin",
-    version: "2",
-    chainId: 43113, // Fuji (Hardcoded for Hackathon/Demo consistency, should match req.network)
-    verifyingContract: req.asset as `0x${string}`
+  const authorization: TransferAuthorization = {
+    from,
+    to: requirement.payTo,
+    value: requirement.maxAmountRequired,
+    validAfter: String(now - 60), // Clock skew
+    validBefore: String(now + (validForSeconds ?? requirement.maxTimeoutSeconds)),
+    nonce: randomNonce(),
   };
 
-  const types = {
-    TransferWithAuthorization: [
-      { name: "from", type: "address" },
-      { name: "to", type: "address" },
-      { name: "value", type: "uint256" },
-      { name: "validAfter", type: "uint256" },
-      { name: "validBefore", type: "uint256" },
-      { name: "nonce", type: "bytes32" }
-    ]
-  } as const;
-
-  console.log("[x402] Requesting signature...");
-  
-  const signature = await signTypedDataAsync({
-    domain,
-    types,
+  const signature = await signTypedData({
+    domain: {
+      name: requirement.extra?.name ?? 'USD Coin',
+      version: requirement.extra?.version ?? '2',
+      chainId,
+      verifyingContract: requirement.asset as `0x${string}`,
+    },
+    types: TRANSFER_WITH_AUTHORIZATION_TYPES,
     primaryType: 'TransferWithAuthorization',
-    message: authorization
+    message: {
+      from: authorization.from as `0x${string}`,
+      to: authorization.to as `0x${string}`,
+      value: BigInt(authorization.value),
+      validAfter: BigInt(authorization.validAfter),
+      validBefore: BigInt(authorization.validBefore),
+      nonce: authorization.nonce as `0x${string}`,
+    },
   });
 
-  console.log("[x402] Signature obtained:", signature);
-
-  // 5. Construct Payment Payload
-  const paymentPayload = {
-    x402Version: 1,
-    scheme: req.scheme,
-    network: req.network,
-    payload: {
-      authorization,
-      signature
-    }
+  return {
+    x402Version: X402_VERSION,
+    scheme: 'exact',
+    network: requirement.network,
+    // The retry must repeat the quoted request unchanged
+    ...((quoteId ?? requirement.extra?.quoteId) && { quoteId: quoteId ?? requirement.extra?.quoteId }),
+    payload: { signature, authorization },
   };
+}
+
+export function encodePaymentHeader(payment: object): string {
+  return btoa(JSON.stringify(payment));
+}
 
-  // Base64 Encode
-  const base64Payload = btoa(JSON.stringify(paymentPayload));
+export function decodePaymentResponse(header: string | null): PaymentResponse | null {
+  if (!header) return null;
+  try {
+    return JSON.parse(atob(header));
+  } catch {
+    return null;
+  }
+}
 
-  // 6. Retry Request
-  const newHeaders = new Headers(options.headers);
-  newHeaders.set('X-PAYMENT', base64Payload);
+/**
+ * Fetch `url`, paying its 402 challenge with USDC on `network` (the first `exact`
+ * network offered when omitted) and retrying once with X-PAYMENT.
+ */
+export async function fetchWithX402(
+  url: string,
+  init: RequestInit,
+  { address, signTypedData, network }: { address: string; signTypedData: SignTypedData; network?: string }
+): Promise<Response> {
+  const initial = await fetch(url, init);
+  if (initial.status !== 402) return initial;
+
+  const challenge = await initial.json() as PaymentRequiredResponse;
+  const requirement = selectRequirement(challenge, { network });
+  if (!requirement) {
+    throw new Error(`No "exact" payment option${network ? ` on ${network}` : ''} in the 402 response`);
+  }
 
-  console.log("[x402] Retrying with Payment Proof...");
-  const finalRes = await fetch(url, {
-    ...options,
-    headers: newHeaders
+  const payment = await createExactPayment(requirement, {
+    from: address,
+    signTypedData,
+    quoteId: challenge.quote?.id,
   });
 
-  return finalRes;
+  const headers = new Headers(init.headers);
+  headers.set('X-PAYMENT', encodePaymentHeader(payment));
+  return fetch(url, { ...init, headers });
 }